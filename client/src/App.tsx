@@ -24,6 +24,13 @@ import AdminDashboardFull from "@/pages/admin-dashboard-full";
 import AdminMoonshotPage from "@/pages/admin-moonshot";
 import InGodWeTrustPage from "@/pages/in-god-we-trust";
 import AdminUsersPage from "@/pages/admin-users";
+import AdminPricingPage from "@/pages/admin-pricing";
+import AdminTimesheetsPage from "@/pages/admin-timesheets";
+import AdminAchievementsPage from "@/pages/admin-achievements";
+import AdminGamificationPage from "@/pages/admin-gamification";
+import AdminCompetitionsPage from "@/pages/admin-competitions";
+import InvoicePage from "@/pages/invoice";
+import SchedulePage from "@/pages/schedule";
 import NotFound from "@/pages/not-found";
 import MobileLeadManager from "@/components/mobile-lead-manager";
 import CustomerMobileInterface from "@/components/customer-mobile-interface";
@@ -35,6 +42,7 @@ import TermsOfService from "@/pages/terms";
 import PendingQuotesPage from "@/pages/pending-quotes";
 import EmployeesPage from "@/pages/employees";
 import LeadDetailPage from "@/pages/lead-detail";
+import QuoteViewPage from "@/pages/quote-view";
 import EmployeeRegister from "@/pages/employee-register";
 import EmployeeLogin from "@/pages/employee-login";
 
@@ -130,6 +138,41 @@ function AuthenticatedApp() {
               <PageWrapper component={AdminUsersPage} />
             </RouteGuard>
           </Route>
+          <Route path="/admin/pricing">
+            <RouteGuard allowedRoles={['admin', 'business_owner']}>
+              <PageWrapper component={AdminPricingPage} />
+            </RouteGuard>
+          </Route>
+          <Route path="/admin/timesheets">
+            <RouteGuard allowedRoles={['admin', 'business_owner']}>
+              <PageWrapper component={AdminTimesheetsPage} />
+            </RouteGuard>
+          </Route>
+          <Route path="/admin/achievements">
+            <RouteGuard allowedRoles={['admin', 'business_owner']}>
+              <PageWrapper component={AdminAchievementsPage} />
+            </RouteGuard>
+          </Route>
+          <Route path="/admin/gamification">
+            <RouteGuard allowedRoles={['admin', 'business_owner']}>
+              <PageWrapper component={AdminGamificationPage} />
+            </RouteGuard>
+          </Route>
+          <Route path="/admin/competitions">
+            <RouteGuard allowedRoles={['admin', 'business_owner']}>
+              <PageWrapper component={AdminCompetitionsPage} />
+            </RouteGuard>
+          </Route>
+          <Route path="/invoices/:leadId">
+            <RouteGuard allowedRoles={['admin', 'business_owner']}>
+              <PageWrapper component={InvoicePage} />
+            </RouteGuard>
+          </Route>
+          <Route path="/schedule">
+            <RouteGuard allowedRoles={['admin', 'business_owner', 'employee']}>
+              <PageWrapper component={SchedulePage} />
+            </RouteGuard>
+          </Route>
           
           {/* Job management interface */}
           <Route path="/jobs">
@@ -198,6 +241,9 @@ function Router() {
       {/* Terms of Service - accessible to all */}
       <Route path="/terms" component={TermsOfService} />
       
+      {/* Customer quote acceptance - the emailed token grants access */}
+      <Route path="/quote/:token" component={QuoteViewPage} />
+      
       {/* Lead detail - accessible without authentication (temporary for debugging) */}
       <Route path="/lead/:id">
         <PageWrapper component={LeadDetailPage} />
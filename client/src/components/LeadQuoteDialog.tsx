@@ -1,7 +1,7 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { X, Users, Award } from "lucide-react";
+import { X, Users, Award, Plus, Trash2, MapPin, Calculator } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,86 +12,129 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
-import { type Lead, type User } from "@shared/schema";
+import { type Lead, type LeadSpecialItem, type User } from "@shared/schema";
+import { LEAD_STATUS_LABELS, getAllowedLeadStatusTransitions, isLeadStatus } from "@shared/lead-status";
+import { calculateQuote, getLeadSpecialItems, DEFAULT_RATE_CARD, TRUCK_CONFIG_LABELS, type RateCard } from "@shared/pricing";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { QuoteBreakdownSummary } from "@/components/quote-breakdown";
+import { QuoteVersionsPanel } from "@/components/quote-versions-panel";
+import { toScheduledStart, toTimeInputValue } from "@/lib/scheduling";
 import { z } from "zod";
 
 const quoteFormSchema = z.object({
   status: z.string().min(1, "Status is required"),
   confirmedDate: z.string().min(1, "Date is required"),
+  scheduledTime: z.string().optional(),
   confirmedFromAddress: z.string().min(1, "From address is required"),
   confirmedToAddress: z.string().min(1, "To address is required"),
-  basePrice: z.string().min(1, "Base price is required"),
   tokenAllocation: z.string().min(1, "Token allocation is required"),
   crewMembers: z.array(z.string()).min(1, "At least one crew member is required"),
-  hasHotTub: z.boolean(),
-  hotTubWeight: z.number().optional(),
-  hasHeavySafe: z.boolean(),
-  heavySafeWeight: z.number().optional(),
-  hasPoolTable: z.boolean(),
-  poolTableWeight: z.number().optional(),
-  hasPiano: z.boolean(),
-  pianoWeight: z.number().optional(),
+  crewSize: z.string().min(1, "Crew size is required"),
+  truckConfig: z.string(),
+  estimatedHours: z.string().optional(),
+  distanceMiles: z.string().optional(),
+  stairsFlights: z.string().optional(),
+  hasElevator: z.boolean(),
+  priceAdjustment: z.string().optional(),
   quoteNotes: z.string().optional(),
 });
 
 type QuoteFormData = z.infer<typeof quoteFormSchema>;
 
+// Payload sent to PATCH /api/leads/:id/quote - numeric fields are converted for the pricing engine
+export interface QuoteSaveData extends Omit<QuoteFormData, "scheduledTime" | "crewSize" | "estimatedHours" | "distanceMiles" | "stairsFlights" | "priceAdjustment"> {
+  scheduledStart: string | null;
+  crewSize: number;
+  estimatedHours: number | null;
+  distanceMiles: number | null;
+  stairsFlights: number;
+  priceAdjustment: number | null;
+  specialItems: LeadSpecialItem[];
+}
+
+const parseOptionalNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === "") return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
 interface LeadQuoteDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   lead: Lead | null;
   employees: User[];
-  onSave: (data: QuoteFormData & { crewMembers: string[] }) => void;
+  onSave: (data: QuoteSaveData) => void;
 }
 
 export function LeadQuoteDialog({ open, onOpenChange, lead, employees, onSave }: LeadQuoteDialogProps) {
   const [selectedCrewMembers, setSelectedCrewMembers] = useState<string[]>([]);
 
   const [selectedStatus, setSelectedStatus] = useState<string>("");
+  const [specialItems, setSpecialItems] = useState<LeadSpecialItem[]>([]);
+  const [isLookingUpDistance, setIsLookingUpDistance] = useState(false);
+  const { toast } = useToast();
+
+  const { data: rateCardData } = useQuery<{ rates: RateCard }>({
+    queryKey: ["/api/pricing/rate-card"],
+    enabled: open,
+  });
+  const rates = rateCardData?.rates || DEFAULT_RATE_CARD;
 
   const quoteForm = useForm<QuoteFormData>({
     resolver: zodResolver(quoteFormSchema),
     defaultValues: {
       status: "",
       confirmedDate: "",
+      scheduledTime: "",
       confirmedFromAddress: "",
       confirmedToAddress: "",
-      basePrice: "",
       tokenAllocation: "",
       crewMembers: [],
-      hasHotTub: false,
-      hotTubWeight: undefined,
-      hasHeavySafe: false,
-      heavySafeWeight: undefined,
-      hasPoolTable: false,
-      poolTableWeight: undefined,
-      hasPiano: false,
-      pianoWeight: undefined,
+      crewSize: "2",
+      truckConfig: "company_truck",
+      estimatedHours: "",
+      distanceMiles: "",
+      stairsFlights: "",
+      hasElevator: false,
+      priceAdjustment: "",
       quoteNotes: "",
     },
   });
 
   // Watch form values for calculations
   const watchedValues = quoteForm.watch();
-  const basePrice = parseFloat(watchedValues.basePrice) || 0;
   const tokenAllocation = parseFloat(watchedValues.tokenAllocation) || 0;
   const tokensPerWorker = selectedCrewMembers.length > 0 ? tokenAllocation / selectedCrewMembers.length : 0;
 
-  // Calculate heavy item fee: $200 base + $150 per 100 lbs (max 1000 lbs)
-  const calculateHeavyItemFee = (weight: number | undefined): number => {
-    if (!weight || weight <= 0) return 0;
-    const cappedWeight = Math.min(weight, 1000);
-    const hundredPounds = Math.floor(cappedWeight / 100);
-    return 200 + (hundredPounds * 150);
-  };
-
-  const hotTubFee = watchedValues.hasHotTub ? calculateHeavyItemFee(watchedValues.hotTubWeight) : 0;
-  const heavySafeFee = watchedValues.hasHeavySafe ? calculateHeavyItemFee(watchedValues.heavySafeWeight) : 0;
-  const poolTableFee = watchedValues.hasPoolTable ? calculateHeavyItemFee(watchedValues.poolTableWeight) : 0;
-  const pianoFee = watchedValues.hasPiano ? calculateHeavyItemFee(watchedValues.pianoWeight) : 0;
-
-  const totalSpecialItemsFee = hotTubFee + heavySafeFee + poolTableFee + pianoFee;
-  const totalPrice = basePrice + totalSpecialItemsFee;
+  // Live preview from the same engine the server uses when the quote is saved
+  const breakdown = useMemo(() => calculateQuote({
+    crewSize: parseInt(watchedValues.crewSize) || 2,
+    truckConfig: watchedValues.truckConfig,
+    estimatedHours: parseOptionalNumber(watchedValues.estimatedHours),
+    propertySize: lead?.propertySize,
+    distanceMiles: parseOptionalNumber(watchedValues.distanceMiles),
+    stairsFlights: parseOptionalNumber(watchedValues.stairsFlights) || 0,
+    hasElevator: watchedValues.hasElevator,
+    moveDate: watchedValues.confirmedDate || lead?.moveDate,
+    specialItems,
+    priceAdjustment: parseOptionalNumber(watchedValues.priceAdjustment),
+  }, rates), [
+    watchedValues.crewSize,
+    watchedValues.truckConfig,
+    watchedValues.estimatedHours,
+    watchedValues.distanceMiles,
+    watchedValues.stairsFlights,
+    watchedValues.hasElevator,
+    watchedValues.confirmedDate,
+    watchedValues.priceAdjustment,
+    specialItems,
+    rates,
+    lead,
+  ]);
+
+  // Only offer the current status plus transitions a manager is allowed to make
+  const statusOptions = lead ? [lead.status, ...getAllowedLeadStatusTransitions(lead.status, "manager")] : [];
 
   // Update form when lead is selected or dialog opens
   useEffect(() => {
@@ -99,22 +142,22 @@ export function LeadQuoteDialog({ open, onOpenChange, lead, employees, onSave }:
       quoteForm.reset({
         status: lead.status || "",
         confirmedDate: lead.confirmedDate || "",
+        scheduledTime: toTimeInputValue(lead.scheduledStart),
         confirmedFromAddress: lead.confirmedFromAddress || lead.fromAddress,
         confirmedToAddress: lead.confirmedToAddress || lead.toAddress || "",
-        basePrice: lead.basePrice?.toString() || "",
         tokenAllocation: lead.tokenAllocation?.toString() || "",
         crewMembers: lead.crewMembers || [],
-        hasHotTub: lead.hasHotTub || false,
-        hotTubWeight: lead.hotTubWeight || undefined,
-        hasHeavySafe: lead.hasHeavySafe || false,
-        heavySafeWeight: lead.heavySafeWeight || undefined,
-        hasPoolTable: lead.hasPoolTable || false,
-        poolTableWeight: lead.poolTableWeight || undefined,
-        hasPiano: lead.hasPiano || false,
-        pianoWeight: lead.pianoWeight || undefined,
+        crewSize: (lead.crewSize || 2).toString(),
+        truckConfig: lead.truckConfig || "company_truck",
+        estimatedHours: lead.estimatedHours || "",
+        distanceMiles: lead.distanceMiles || "",
+        stairsFlights: lead.stairsFlights ? lead.stairsFlights.toString() : "",
+        hasElevator: lead.hasElevator || false,
+        priceAdjustment: lead.priceAdjustment && parseFloat(lead.priceAdjustment) !== 0 ? lead.priceAdjustment : "",
         quoteNotes: lead.quoteNotes || "",
       });
       setSelectedCrewMembers(lead.crewMembers || []);
+      setSpecialItems(getLeadSpecialItems(lead));
       setSelectedStatus(lead.status || "");
     }
   }, [lead, open, quoteForm]);
@@ -129,10 +172,61 @@ export function LeadQuoteDialog({ open, onOpenChange, lead, employees, onSave }:
     });
   };
 
-  const onQuoteSubmit = quoteForm.handleSubmit((data) => {
+  const addSpecialItem = () => {
+    setSpecialItems(prev => [...prev, { type: Object.keys(rates.specialItems)[0] || "other", quantity: 1 }]);
+  };
+
+  const updateSpecialItem = (index: number, changes: Partial<LeadSpecialItem>) => {
+    setSpecialItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const removeSpecialItem = (index: number) => {
+    setSpecialItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const lookUpDistance = async () => {
+    const from = quoteForm.getValues("confirmedFromAddress");
+    const to = quoteForm.getValues("confirmedToAddress");
+    if (!from || !to) return;
+
+    setIsLookingUpDistance(true);
+    try {
+      // Multi-stop jobs are measured across all of their saved stops
+      const params = new URLSearchParams({ from, to });
+      if (lead) params.set("leadId", lead.id);
+      const response = await apiRequest("GET", `/api/pricing/distance?${params.toString()}`);
+      const { distanceMiles } = await response.json();
+      if (distanceMiles === null) {
+        toast({
+          title: "Distance not found",
+          description: "Couldn't locate one of the addresses. Enter the mileage manually.",
+          variant: "destructive",
+        });
+      } else {
+        quoteForm.setValue("distanceMiles", distanceMiles.toString());
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to look up distance. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLookingUpDistance(false);
+    }
+  };
+
+  const onQuoteSubmit = quoteForm.handleSubmit(({ scheduledTime, ...data }) => {
     onSave({
       ...data,
+      scheduledStart: toScheduledStart(data.confirmedDate, scheduledTime || ""),
       crewMembers: selectedCrewMembers,
+      crewSize: parseInt(data.crewSize) || 2,
+      estimatedHours: parseOptionalNumber(data.estimatedHours),
+      distanceMiles: parseOptionalNumber(data.distanceMiles),
+      stairsFlights: parseOptionalNumber(data.stairsFlights) || 0,
+      priceAdjustment: parseOptionalNumber(data.priceAdjustment),
+      specialItems,
     });
   });
 
@@ -228,27 +322,11 @@ export function LeadQuoteDialog({ open, onOpenChange, lead, employees, onSave }:
                       <SelectValue placeholder="Select status" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="new" data-testid="option-status-new">
-                        New
-                      </SelectItem>
-                      <SelectItem value="contacted" data-testid="option-status-contacted">
-                        Contacted
-                      </SelectItem>
-                      <SelectItem value="quoted" data-testid="option-status-quoted">
-                        Quoted
-                      </SelectItem>
-                      <SelectItem value="confirmed" data-testid="option-status-confirmed">
-                        Confirmed
-                      </SelectItem>
-                      <SelectItem value="available" data-testid="option-status-available">
-                        Available
-                      </SelectItem>
-                      <SelectItem value="in_progress" data-testid="option-status-in-progress">
-                        In Progress
-                      </SelectItem>
-                      <SelectItem value="completed" data-testid="option-status-completed">
-                        Completed
-                      </SelectItem>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status} value={status} data-testid={`option-status-${status.replace("_", "-")}`}>
+                          {isLeadStatus(status) ? LEAD_STATUS_LABELS[status] : status}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -278,24 +356,6 @@ export function LeadQuoteDialog({ open, onOpenChange, lead, employees, onSave }:
               
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="basePrice">Base Price ($)</Label>
-                    <Input
-                      id="basePrice"
-                      type="number"
-                      step="0.01"
-                      placeholder="0.00"
-                      {...quoteForm.register("basePrice")}
-                      data-testid="input-base-price"
-                      className="mt-1"
-                    />
-                    {quoteForm.formState.errors.basePrice && (
-                      <p className="text-destructive text-sm mt-1" data-testid="error-base-price">
-                        {quoteForm.formState.errors.basePrice.message}
-                      </p>
-                    )}
-                  </div>
-                  
                   <div>
                     <Label htmlFor="tokenAllocation">JCMOVES Tokens</Label>
                     <Input
@@ -341,6 +401,20 @@ export function LeadQuoteDialog({ open, onOpenChange, lead, employees, onSave }:
                   )}
                 </div>
 
+                <div>
+                  <Label htmlFor="scheduledTime" className="text-sm text-muted-foreground">Crew Start Time</Label>
+                  <Input
+                    id="scheduledTime"
+                    type="time"
+                    {...quoteForm.register("scheduledTime")}
+                    data-testid="input-scheduled-time"
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Books the crew for the quoted {breakdown.hours} hrs. Leave blank to keep the job unscheduled.
+                  </p>
+                </div>
+
                 <div>
                   <Label htmlFor="confirmedFromAddress" className="text-sm text-muted-foreground">Confirmed Pickup Address</Label>
                   <Input
@@ -437,149 +511,208 @@ export function LeadQuoteDialog({ open, onOpenChange, lead, employees, onSave }:
 
               <Separator />
 
-              {/* Special Moving Items */}
+              {/* Pricing Inputs */}
               <div>
-                <h4 className="font-semibold mb-4" data-testid="text-special-items-title">
-                  Special Moving Items
-                  <span className="text-sm font-normal text-muted-foreground ml-2">
-                    ($200 base + $150 per 100 lbs, max 1000 lbs)
-                  </span>
+                <h4 className="font-semibold mb-4 flex items-center gap-2" data-testid="text-pricing-title">
+                  <Calculator className="h-4 w-4" />
+                  Pricing
                 </h4>
 
-                <div className="space-y-4">
-                  {/* Hot Tub */}
-                  <div className="flex items-start gap-4">
-                    <Checkbox
-                      id="hasHotTub"
-                      checked={watchedValues.hasHotTub}
-                      onCheckedChange={(checked) => quoteForm.setValue("hasHotTub", checked as boolean)}
-                      data-testid="checkbox-hot-tub"
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="crewSize" className="text-sm text-muted-foreground">Crew Size</Label>
+                    <Input
+                      id="crewSize"
+                      type="number"
+                      min="1"
+                      {...quoteForm.register("crewSize")}
+                      data-testid="input-crew-size"
+                      className="mt-1"
                     />
-                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <Label htmlFor="hasHotTub" className="font-medium cursor-pointer">
-                        Hot Tub
-                      </Label>
-                      {watchedValues.hasHotTub && (
-                        <div>
-                          <Input
-                            type="number"
-                            placeholder="Weight in lbs"
-                            {...quoteForm.register("hotTubWeight", { valueAsNumber: true })}
-                            data-testid="input-hot-tub-weight"
-                          />
-                          <p className="text-sm text-muted-foreground mt-1" data-testid="text-hot-tub-fee">
-                            Fee: ${hotTubFee.toFixed(2)}
-                          </p>
-                        </div>
-                      )}
-                    </div>
                   </div>
-
-                  {/* Heavy Safe */}
-                  <div className="flex items-start gap-4">
-                    <Checkbox
-                      id="hasHeavySafe"
-                      checked={watchedValues.hasHeavySafe}
-                      onCheckedChange={(checked) => quoteForm.setValue("hasHeavySafe", checked as boolean)}
-                      data-testid="checkbox-heavy-safe"
+                  <div>
+                    <Label className="text-sm text-muted-foreground">Truck</Label>
+                    <Select
+                      value={watchedValues.truckConfig}
+                      onValueChange={(value) => quoteForm.setValue("truckConfig", value)}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="select-truck-config">
+                        <SelectValue placeholder="Select truck" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.keys(rates.truckSurcharges).map((config) => (
+                          <SelectItem key={config} value={config}>
+                            {TRUCK_CONFIG_LABELS[config] || config}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="estimatedHours" className="text-sm text-muted-foreground">Estimated Hours</Label>
+                    <Input
+                      id="estimatedHours"
+                      type="number"
+                      step="0.5"
+                      placeholder={`${breakdown.hours} (from property size)`}
+                      {...quoteForm.register("estimatedHours")}
+                      data-testid="input-estimated-hours"
+                      className="mt-1"
                     />
-                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <Label htmlFor="hasHeavySafe" className="font-medium cursor-pointer">
-                        Heavy Safe
-                      </Label>
-                      {watchedValues.hasHeavySafe && (
-                        <div>
-                          <Input
-                            type="number"
-                            placeholder="Weight in lbs"
-                            {...quoteForm.register("heavySafeWeight", { valueAsNumber: true })}
-                            data-testid="input-heavy-safe-weight"
-                          />
-                          <p className="text-sm text-muted-foreground mt-1" data-testid="text-heavy-safe-fee">
-                            Fee: ${heavySafeFee.toFixed(2)}
-                          </p>
-                        </div>
-                      )}
+                  </div>
+                  <div>
+                    <Label htmlFor="distanceMiles" className="text-sm text-muted-foreground">Distance (miles)</Label>
+                    <div className="flex gap-2 mt-1">
+                      <Input
+                        id="distanceMiles"
+                        type="number"
+                        step="0.1"
+                        placeholder="Looked up on save"
+                        {...quoteForm.register("distanceMiles")}
+                        data-testid="input-distance-miles"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={lookUpDistance}
+                        disabled={isLookingUpDistance}
+                        title="Look up the driving distance across the job's stops"
+                        data-testid="button-lookup-distance"
+                      >
+                        <MapPin className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-
-                  {/* Pool Table */}
-                  <div className="flex items-start gap-4">
-                    <Checkbox
-                      id="hasPoolTable"
-                      checked={watchedValues.hasPoolTable}
-                      onCheckedChange={(checked) => quoteForm.setValue("hasPoolTable", checked as boolean)}
-                      data-testid="checkbox-pool-table"
+                  <div>
+                    <Label htmlFor="stairsFlights" className="text-sm text-muted-foreground">Flights of Stairs</Label>
+                    <Input
+                      id="stairsFlights"
+                      type="number"
+                      min="0"
+                      placeholder="0"
+                      {...quoteForm.register("stairsFlights")}
+                      data-testid="input-stairs-flights"
+                      className="mt-1"
                     />
-                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <Label htmlFor="hasPoolTable" className="font-medium cursor-pointer">
-                        Pool Table
-                      </Label>
-                      {watchedValues.hasPoolTable && (
-                        <div>
-                          <Input
-                            type="number"
-                            placeholder="Weight in lbs"
-                            {...quoteForm.register("poolTableWeight", { valueAsNumber: true })}
-                            data-testid="input-pool-table-weight"
-                          />
-                          <p className="text-sm text-muted-foreground mt-1" data-testid="text-pool-table-fee">
-                            Fee: ${poolTableFee.toFixed(2)}
-                          </p>
-                        </div>
-                      )}
-                    </div>
                   </div>
-
-                  {/* Piano */}
-                  <div className="flex items-start gap-4">
+                  <div className="flex items-center gap-2 md:mt-6">
                     <Checkbox
-                      id="hasPiano"
-                      checked={watchedValues.hasPiano}
-                      onCheckedChange={(checked) => quoteForm.setValue("hasPiano", checked as boolean)}
-                      data-testid="checkbox-piano"
+                      id="hasElevator"
+                      checked={watchedValues.hasElevator}
+                      onCheckedChange={(checked) => quoteForm.setValue("hasElevator", checked as boolean)}
+                      data-testid="checkbox-elevator"
+                    />
+                    <Label htmlFor="hasElevator" className="cursor-pointer">Elevator</Label>
+                  </div>
+                  <div>
+                    <Label htmlFor="priceAdjustment" className="text-sm text-muted-foreground">Adjustment ($, negative for discount)</Label>
+                    <Input
+                      id="priceAdjustment"
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      {...quoteForm.register("priceAdjustment")}
+                      data-testid="input-price-adjustment"
+                      className="mt-1"
                     />
-                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <Label htmlFor="hasPiano" className="font-medium cursor-pointer">
-                        Piano
-                      </Label>
-                      {watchedValues.hasPiano && (
-                        <div>
-                          <Input
-                            type="number"
-                            placeholder="Weight in lbs"
-                            {...quoteForm.register("pianoWeight", { valueAsNumber: true })}
-                            data-testid="input-piano-weight"
-                          />
-                          <p className="text-sm text-muted-foreground mt-1" data-testid="text-piano-fee">
-                            Fee: ${pianoFee.toFixed(2)}
-                          </p>
-                        </div>
-                      )}
-                    </div>
                   </div>
                 </div>
               </div>
 
               <Separator />
 
-              {/* Price Summary */}
-              <div className="bg-primary/5 dark:bg-primary/10 p-4 rounded-lg space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Base Price:</span>
-                  <span className="font-semibold" data-testid="text-summary-base-price">${basePrice.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Total Special Items Fee:</span>
-                  <span className="font-semibold" data-testid="text-summary-special-items-fee">${totalSpecialItemsFee.toFixed(2)}</span>
-                </div>
-                <Separator />
-                <div className="flex justify-between text-lg font-bold">
-                  <span>Total Price:</span>
-                  <span className="text-primary" data-testid="text-summary-total-price">${totalPrice.toFixed(2)}</span>
+              {/* Special Moving Items */}
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="font-semibold" data-testid="text-special-items-title">Special Moving Items</h4>
+                  <Button type="button" variant="outline" size="sm" onClick={addSpecialItem} data-testid="button-add-special-item">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Item
+                  </Button>
                 </div>
+
+                {specialItems.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No special items on this job.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {specialItems.map((item, index) => {
+                      const rate = rates.specialItems[item.type] || rates.specialItems.other;
+                      return (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-end" data-testid={`special-item-${index}`}>
+                          <div className="col-span-12 md:col-span-3">
+                            <Label className="text-xs text-muted-foreground">Type</Label>
+                            <Select
+                              value={item.type}
+                              onValueChange={(value) => updateSpecialItem(index, { type: value })}
+                            >
+                              <SelectTrigger className="mt-1" data-testid={`select-special-item-type-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(rates.specialItems).map(([type, itemRate]) => (
+                                  <SelectItem key={type} value={type}>{itemRate.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="col-span-12 md:col-span-4">
+                            <Label className="text-xs text-muted-foreground">Description</Label>
+                            <Input
+                              value={item.label || ""}
+                              placeholder={rate?.label}
+                              onChange={(e) => updateSpecialItem(index, { label: e.target.value || undefined })}
+                              data-testid={`input-special-item-label-${index}`}
+                              className="mt-1"
+                            />
+                          </div>
+                          <div className="col-span-5 md:col-span-2">
+                            <Label className="text-xs text-muted-foreground">Weight (lbs)</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={item.weight ?? ""}
+                              onChange={(e) => updateSpecialItem(index, { weight: e.target.value === "" ? undefined : Number(e.target.value) })}
+                              data-testid={`input-special-item-weight-${index}`}
+                              className="mt-1"
+                            />
+                          </div>
+                          <div className="col-span-5 md:col-span-2">
+                            <Label className="text-xs text-muted-foreground">Qty</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={item.quantity}
+                              onChange={(e) => updateSpecialItem(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                              data-testid={`input-special-item-quantity-${index}`}
+                              className="mt-1"
+                            />
+                          </div>
+                          <div className="col-span-2 md:col-span-1 flex justify-end">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeSpecialItem(index)}
+                              data-testid={`button-remove-special-item-${index}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
 
+              <Separator />
+
+              {/* Price Summary */}
+              <QuoteBreakdownSummary breakdown={breakdown} />
+
+              <QuoteVersionsPanel lead={lead} />
+
               {/* Quote Notes */}
               <div>
                 <Label htmlFor="quoteNotes" className="text-sm text-muted-foreground">Quote Notes</Label>
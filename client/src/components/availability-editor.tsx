@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Save } from "lucide-react";
+import { DAY_OF_WEEK_LABELS, type WeeklyAvailability } from "@shared/scheduling";
+import type { EmployeeAvailability } from "@shared/schema";
+
+const DEFAULT_WEEK: WeeklyAvailability = DAY_OF_WEEK_LABELS.map((_, dayOfWeek) => ({
+  dayOfWeek,
+  isAvailable: true,
+  startTime: "08:00",
+  endTime: "18:00",
+}));
+
+// Employee's usual working days and hours, used to warn when they take jobs outside them
+export function AvailabilityEditor() {
+  const { toast } = useToast();
+  const [days, setDays] = useState<WeeklyAvailability>(DEFAULT_WEEK);
+
+  const { data: saved } = useQuery<EmployeeAvailability[]>({
+    queryKey: ["/api/schedule/availability"],
+  });
+
+  useEffect(() => {
+    if (saved && saved.length > 0) {
+      setDays(DEFAULT_WEEK.map((day) => {
+        const row = saved.find((entry) => entry.dayOfWeek === day.dayOfWeek);
+        return row
+          ? { dayOfWeek: row.dayOfWeek, isAvailable: row.isAvailable, startTime: row.startTime, endTime: row.endTime }
+          : { ...day, isAvailable: false };
+      }));
+    }
+  }, [saved]);
+
+  const saveAvailability = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/schedule/availability", { days });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      toast({ title: "Availability saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save availability", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateDay = (dayOfWeek: number, changes: Partial<WeeklyAvailability[number]>) => {
+    setDays((prev) => prev.map((day) => day.dayOfWeek === dayOfWeek ? { ...day, ...changes } : day));
+  };
+
+  return (
+    <Card data-testid="card-availability">
+      <CardHeader>
+        <CardTitle>My Availability</CardTitle>
+        <CardDescription>Days and hours you usually work. Jobs outside them still show up, with a warning.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {days.map((day) => (
+          <div key={day.dayOfWeek} className="flex items-center gap-3" data-testid={`availability-day-${day.dayOfWeek}`}>
+            <Switch
+              checked={day.isAvailable}
+              onCheckedChange={(checked) => updateDay(day.dayOfWeek, { isAvailable: checked })}
+              data-testid={`switch-available-${day.dayOfWeek}`}
+            />
+            <span className="w-24 text-sm font-medium">{DAY_OF_WEEK_LABELS[day.dayOfWeek]}</span>
+            <Input
+              type="time"
+              value={day.startTime}
+              onChange={(e) => updateDay(day.dayOfWeek, { startTime: e.target.value })}
+              disabled={!day.isAvailable}
+              className="w-32"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              value={day.endTime}
+              onChange={(e) => updateDay(day.dayOfWeek, { endTime: e.target.value })}
+              disabled={!day.isAvailable}
+              className="w-32"
+            />
+          </div>
+        ))}
+        <Button onClick={() => saveAvailability.mutate()} disabled={saveAvailability.isPending} data-testid="button-save-availability">
+          <Save className="h-4 w-4 mr-1" />
+          {saveAvailability.isPending ? "Saving..." : "Save Availability"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
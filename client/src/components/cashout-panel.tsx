@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Banknote, Clock, Loader2, ShieldCheck } from "lucide-react";
+import {
+  PAYOUT_METHOD_LABELS,
+  type CashoutEligibility,
+  type CashoutStatus,
+  type CashoutSummary,
+  type KycSubmission,
+  type PayoutMethod,
+} from "@shared/cashouts";
+
+const STATUS_LABELS: Record<CashoutStatus, string> = {
+  pending_review: "In review",
+  pending: "Queued",
+  submitting: "Sending",
+  processing: "Processing",
+  completed: "Paid",
+  failed: "Failed",
+  cancelled: "Rejected",
+};
+
+const STATUS_VARIANTS: Record<CashoutStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending_review: "outline",
+  pending: "secondary",
+  submitting: "secondary",
+  processing: "secondary",
+  completed: "default",
+  failed: "destructive",
+  cancelled: "destructive",
+};
+
+const EMPTY_KYC: KycSubmission = {
+  legalName: "",
+  dateOfBirth: "",
+  addressLine1: "",
+  addressLine2: "",
+  city: "",
+  state: "",
+  postalCode: "",
+  ssnLast4: "",
+};
+
+const invalidateCashouts = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/cashouts/eligibility"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/cashouts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/rewards/wallet"] });
+};
+
+function KycForm({ rejectionReason }: { rejectionReason: string | null }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<KycSubmission>(EMPTY_KYC);
+  const set = (field: keyof KycSubmission) => (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [field]: e.target.value });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/kyc", { ...form, addressLine2: form.addressLine2 || undefined });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCashouts();
+      toast({ title: "Details submitted", description: "We'll let you know once your identity is verified" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't submit details", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {rejectionReason && (
+        <p className="text-sm text-destructive">Your last submission was rejected: {rejectionReason}</p>
+      )}
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="kyc-legal-name">Legal name</Label>
+          <Input id="kyc-legal-name" value={form.legalName} onChange={set("legalName")} data-testid="input-kyc-legal-name" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="kyc-dob">Date of birth</Label>
+          <Input id="kyc-dob" type="date" value={form.dateOfBirth} onChange={set("dateOfBirth")} data-testid="input-kyc-dob" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="kyc-ssn">Last 4 of SSN</Label>
+          <Input id="kyc-ssn" inputMode="numeric" maxLength={4} value={form.ssnLast4} onChange={set("ssnLast4")} data-testid="input-kyc-ssn" />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="kyc-address1">Street address</Label>
+          <Input id="kyc-address1" value={form.addressLine1} onChange={set("addressLine1")} data-testid="input-kyc-address1" />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="kyc-address2">Apartment, suite (optional)</Label>
+          <Input id="kyc-address2" value={form.addressLine2} onChange={set("addressLine2")} data-testid="input-kyc-address2" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="kyc-city">City</Label>
+          <Input id="kyc-city" value={form.city} onChange={set("city")} data-testid="input-kyc-city" />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="kyc-state">State</Label>
+            <Input id="kyc-state" maxLength={2} value={form.state} onChange={set("state")} data-testid="input-kyc-state" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="kyc-zip">ZIP</Label>
+            <Input id="kyc-zip" value={form.postalCode} onChange={set("postalCode")} data-testid="input-kyc-zip" />
+          </div>
+        </div>
+      </div>
+      <Button onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending} data-testid="button-submit-kyc">
+        {submitMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+        Submit for verification
+      </Button>
+    </div>
+  );
+}
+
+function CashoutForm({ eligibility }: { eligibility: CashoutEligibility }) {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<PayoutMethod | "">(eligibility.methods[0] || "");
+  const [tokenAmount, setTokenAmount] = useState("");
+  const [details, setDetails] = useState<Record<string, string>>({});
+  const setDetail = (field: string) => (e: React.ChangeEvent<HTMLInputElement>) => setDetails({ ...details, [field]: e.target.value });
+
+  const estimate = eligibility.priceUsd && tokenAmount ? parseFloat(tokenAmount) * eligibility.priceUsd : null;
+  const remainingUsd = Math.min(
+    eligibility.limits.dailyUsd - eligibility.limits.usedTodayUsd,
+    eligibility.limits.monthlyUsd - eligibility.limits.usedThisMonthUsd,
+  );
+
+  const cashoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/cashouts", { method, tokenAmount: parseFloat(tokenAmount), details });
+      return response.json() as Promise<CashoutSummary>;
+    },
+    onSuccess: (cashout) => {
+      setTokenAmount("");
+      invalidateCashouts();
+      toast({
+        title: "Cash-out requested",
+        description: cashout.status === "pending_review"
+          ? `$${cashout.cashAmount} will be sent once our team has reviewed it`
+          : `$${cashout.cashAmount} is being sent to ${cashout.payoutDestination}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Cash-out failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!eligibility.methods.length) {
+    return <p className="text-sm text-muted-foreground">Cash-outs are not available right now.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-3">
+        <div className="rounded-lg border p-3">
+          <div className="text-muted-foreground">Available</div>
+          <div className="font-semibold" data-testid="text-cashout-available">{parseFloat(eligibility.availableTokens).toFixed(2)} JCMOVES</div>
+        </div>
+        <div className="rounded-lg border p-3">
+          <div className="text-muted-foreground">Left today</div>
+          <div className="font-semibold">${Math.max(0, eligibility.limits.dailyUsd - eligibility.limits.usedTodayUsd).toFixed(2)}</div>
+        </div>
+        <div className="rounded-lg border p-3">
+          <div className="text-muted-foreground">Left this month</div>
+          <div className="font-semibold">${Math.max(0, eligibility.limits.monthlyUsd - eligibility.limits.usedThisMonthUsd).toFixed(2)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label>Payout method</Label>
+          <Select value={method} onValueChange={(value) => { setMethod(value as PayoutMethod); setDetails({}); }}>
+            <SelectTrigger data-testid="select-cashout-method">
+              <SelectValue placeholder="Choose a method" />
+            </SelectTrigger>
+            <SelectContent>
+              {eligibility.methods.map((option) => (
+                <SelectItem key={option} value={option}>{PAYOUT_METHOD_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="cashout-amount">Amount (JCMOVES)</Label>
+          <Input
+            id="cashout-amount"
+            type="number"
+            step="any"
+            min={eligibility.minTokens}
+            value={tokenAmount}
+            onChange={(e) => setTokenAmount(e.target.value)}
+            data-testid="input-cashout-amount"
+          />
+          <p className="text-xs text-muted-foreground">
+            {estimate !== null ? `About $${estimate.toFixed(2)}; the final amount uses the price when you submit` : "Price unavailable"}
+          </p>
+        </div>
+
+        {method === "ach" && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="cashout-holder">Account holder</Label>
+              <Input id="cashout-holder" value={details.accountHolderName || ""} onChange={setDetail("accountHolderName")} data-testid="input-cashout-holder" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cashout-bank">Bank name</Label>
+              <Input id="cashout-bank" value={details.bankName || ""} onChange={setDetail("bankName")} data-testid="input-cashout-bank" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cashout-routing">Routing number</Label>
+              <Input id="cashout-routing" inputMode="numeric" maxLength={9} value={details.routingNumber || ""} onChange={setDetail("routingNumber")} data-testid="input-cashout-routing" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cashout-account">Account number</Label>
+              <Input id="cashout-account" inputMode="numeric" value={details.accountNumber || ""} onChange={setDetail("accountNumber")} data-testid="input-cashout-account" />
+            </div>
+          </>
+        )}
+        {method === "paypal" && (
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="cashout-paypal">PayPal email</Label>
+            <Input id="cashout-paypal" type="email" value={details.email || ""} onChange={setDetail("email")} data-testid="input-cashout-paypal" />
+          </div>
+        )}
+        {method === "faucetpay" && (
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="cashout-faucetpay">FaucetPay email or linked address</Label>
+            <Input id="cashout-faucetpay" value={details.recipient || ""} onChange={setDetail("recipient")} data-testid="input-cashout-faucetpay" />
+          </div>
+        )}
+      </div>
+
+      <Button
+        onClick={() => cashoutMutation.mutate()}
+        disabled={!method || !tokenAmount || remainingUsd <= 0 || cashoutMutation.isPending}
+        data-testid="button-request-cashout"
+      >
+        {cashoutMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Banknote className="mr-2 h-4 w-4" />}
+        Cash out
+      </Button>
+    </div>
+  );
+}
+
+// Identity verification, the cash-out form and the user's cash-out history
+export function CashoutPanel() {
+  const { data: eligibility, isLoading } = useQuery<CashoutEligibility>({
+    queryKey: ["/api/cashouts/eligibility"],
+  });
+  const { data: cashouts = [] } = useQuery<CashoutSummary[]>({
+    queryKey: ["/api/cashouts"],
+  });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5" />
+            Cash Out
+          </CardTitle>
+          <CardDescription>
+            Turn JCMOVES into cash by bank transfer, PayPal or FaucetPay. Larger or first-time cash-outs are reviewed before they're sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !eligibility ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : eligibility.kycStatus === "verified" ? (
+            <CashoutForm eligibility={eligibility} />
+          ) : eligibility.kycStatus === "pending" ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-kyc-pending">
+              <Clock className="h-4 w-4" />
+              Your identity details are being reviewed. You can cash out once they're verified.
+            </p>
+          ) : (
+            <>
+              <p className="mb-4 text-sm text-muted-foreground">Verify your identity once to start cashing out.</p>
+              <KycForm rejectionReason={eligibility.kycStatus === "rejected" ? eligibility.kycRejectionReason : null} />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {cashouts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cash-out History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {cashouts.map((cashout) => (
+              <div key={cashout.id} className="flex items-center justify-between rounded-lg border p-3" data-testid={`cashout-${cashout.id}`}>
+                <div>
+                  <p className="font-medium">${cashout.cashAmount} to {cashout.payoutDestination}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {parseFloat(cashout.tokenAmount).toFixed(2)} JCMOVES • {new Date(cashout.createdAt).toLocaleDateString()}
+                  </p>
+                  {cashout.failureReason && <p className="text-xs text-destructive">{cashout.failureReason}</p>}
+                </div>
+                <Badge variant={STATUS_VARIANTS[cashout.status]}>{STATUS_LABELS[cashout.status]}</Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Banknote, Check, Loader2, ShieldCheck, X } from "lucide-react";
+import { PAYOUT_METHOD_LABELS, type CashoutSummary, type KycSubmission } from "@shared/cashouts";
+
+interface KycQueueItem {
+  userId: string;
+  email: string | null;
+  name: string;
+  submittedAt: string | null;
+  details: KycSubmission | null;
+}
+
+type CashoutQueueItem = CashoutSummary & { userEmail: string | null; userName: string };
+
+const QUEUE_FILTERS: Record<string, string> = {
+  pending_review: "Waiting for review",
+  "pending,submitting,processing": "In flight",
+  "completed,failed,cancelled": "Settled",
+};
+
+function KycReviewRow({ item }: { item: KycQueueItem }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: "verify" | "reject") => {
+      const response = await apiRequest("POST", `/api/admin/kyc/${item.userId}/review`, { decision, reason: reason || undefined });
+      return response.json();
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kyc"] });
+      toast({ title: decision === "verify" ? `${item.name} verified` : `${item.name} rejected` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't review verification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const details = item.details;
+  return (
+    <div className="space-y-2 rounded-lg border p-3" data-testid={`kyc-${item.userId}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="font-medium">{item.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {item.email} {item.submittedAt && `• submitted ${new Date(item.submittedAt).toLocaleString()}`}
+          </p>
+        </div>
+      </div>
+      {details ? (
+        <div className="grid grid-cols-1 gap-1 text-sm sm:grid-cols-2">
+          <span>Legal name: {details.legalName}</span>
+          <span>Date of birth: {details.dateOfBirth}</span>
+          <span className="sm:col-span-2">
+            {details.addressLine1}{details.addressLine2 ? `, ${details.addressLine2}` : ""}, {details.city}, {details.state} {details.postalCode}
+          </span>
+          <span>SSN last 4: {details.ssnLast4}</span>
+        </div>
+      ) : (
+        <p className="text-sm text-destructive">Submitted details could not be read</p>
+      )}
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input placeholder="Reason (required to reject)" value={reason} onChange={(e) => setReason(e.target.value)} maxLength={500} />
+        <Button size="sm" onClick={() => reviewMutation.mutate("verify")} disabled={reviewMutation.isPending} data-testid={`button-verify-kyc-${item.userId}`}>
+          <Check className="mr-1 h-4 w-4" />
+          Verify
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => reviewMutation.mutate("reject")}
+          disabled={!reason.trim() || reviewMutation.isPending}
+          data-testid={`button-reject-kyc-${item.userId}`}
+        >
+          <X className="mr-1 h-4 w-4" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CashoutReviewRow({ cashout }: { cashout: CashoutQueueItem }) {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const response = await apiRequest("POST", `/api/admin/cashouts/${cashout.id}/review`, { decision, notes: notes || undefined });
+      return response.json();
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/cashouts"] });
+      toast({ title: decision === "approve" ? "Cash-out approved and sent" : "Cash-out rejected and refunded" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't review cash-out", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3" data-testid={`cashout-review-${cashout.id}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="font-medium">
+            ${cashout.cashAmount} • {PAYOUT_METHOD_LABELS[cashout.payoutMethod]} to {cashout.payoutDestination}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {cashout.userName} {cashout.userEmail && `(${cashout.userEmail})`} • {parseFloat(cashout.tokenAmount).toFixed(2)} JCMOVES • {new Date(cashout.createdAt).toLocaleString()} • via {cashout.payoutProvider}
+          </p>
+        </div>
+        <Badge variant="outline">{cashout.status}</Badge>
+      </div>
+      {cashout.flagReasons.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {cashout.flagReasons.map((reason) => (
+            <Badge key={reason} variant="secondary">{reason}</Badge>
+          ))}
+        </div>
+      )}
+      {(cashout.failureReason || cashout.reviewNotes) && (
+        <p className="text-xs text-muted-foreground">{cashout.failureReason || cashout.reviewNotes}</p>
+      )}
+      {cashout.status === "pending_review" && (
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Input placeholder="Notes (required to reject)" value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} />
+          <Button size="sm" onClick={() => reviewMutation.mutate("approve")} disabled={reviewMutation.isPending} data-testid={`button-approve-cashout-${cashout.id}`}>
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => reviewMutation.mutate("reject")}
+            disabled={!notes.trim() || reviewMutation.isPending}
+            data-testid={`button-reject-cashout-${cashout.id}`}
+          >
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Identity verifications and flagged cash-outs waiting for an admin
+export function CashoutReviewPanel() {
+  const [filter, setFilter] = useState("pending_review");
+
+  const { data: kycQueue = [], isLoading: kycLoading } = useQuery<KycQueueItem[]>({
+    queryKey: ["/api/admin/kyc"],
+  });
+  const { data: cashouts = [], isLoading: cashoutsLoading } = useQuery<CashoutQueueItem[]>({
+    queryKey: ["/api/admin/cashouts", filter],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/cashouts?status=${filter}`);
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Identity Verifications
+          </CardTitle>
+          <CardDescription>Users can only cash out once their identity is verified</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {kycLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : kycQueue.length ? (
+            kycQueue.map((item) => <KycReviewRow key={item.userId} item={item} />)
+          ) : (
+            <p className="text-sm text-muted-foreground">No verifications waiting</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Banknote className="h-5 w-5" />
+                Cash-outs
+              </CardTitle>
+              <CardDescription>Rejecting a cash-out returns the tokens to the user</CardDescription>
+            </div>
+            <Select value={filter} onValueChange={setFilter}>
+              <SelectTrigger className="w-48" data-testid="select-cashout-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(QUEUE_FILTERS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {cashoutsLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : cashouts.length ? (
+            cashouts.map((cashout) => <CashoutReviewRow key={cashout.id} cashout={cashout} />)
+          ) : (
+            <p className="text-sm text-muted-foreground">No cash-outs</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
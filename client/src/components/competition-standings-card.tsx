@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Flag, Users } from "lucide-react";
+import { COMPETITION_METRIC_LABELS, type CompetitionPhase, type CompetitionSummary } from "@shared/competitions";
+
+const PHASE_LABELS: Record<CompetitionPhase, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  upcoming: { label: "Starts soon", variant: "outline" },
+  live: { label: "Live", variant: "default" },
+  finalizing: { label: "Final results pending", variant: "secondary" },
+  completed: { label: "Final", variant: "secondary" },
+  cancelled: { label: "Cancelled", variant: "destructive" },
+};
+
+const STANDINGS_SHOWN = 5;
+
+function formatScore(competition: CompetitionSummary, score: number): string {
+  return competition.metric === "average_rating" ? score.toFixed(2) : score.toLocaleString();
+}
+
+function formatPeriod(competition: CompetitionSummary): string {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+  return `${new Date(competition.startsAt).toLocaleDateString(undefined, options)} - ${new Date(competition.endsAt).toLocaleDateString(undefined, options)}`;
+}
+
+// Live standings of current competitions, and final results of ones that just finished
+export function CompetitionStandingsCard() {
+  const { data: competitions = [] } = useQuery<CompetitionSummary[]>({
+    queryKey: ["/api/competitions"],
+    refetchInterval: 60000, // Standings move as jobs and reviews come in
+  });
+
+  if (!competitions.length) return null;
+
+  return (
+    <Card data-testid="card-competitions">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flag className="h-5 w-5 text-primary" />
+          Competitions
+        </CardTitle>
+        <CardDescription>Prizes are paid in JCMOVES automatically when a competition ends</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {competitions.map((competition) => {
+          const phase = PHASE_LABELS[competition.phase];
+          return (
+            <div key={competition.id} className="space-y-3" data-testid={`competition-${competition.id}`}>
+              <div className="flex items-start justify-between gap-3 flex-wrap">
+                <div>
+                  <p className="font-semibold flex items-center gap-2">
+                    {competition.name}
+                    {competition.mode === "team" && <Users className="h-4 w-4 text-muted-foreground" />}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {COMPETITION_METRIC_LABELS[competition.metric]} • {formatPeriod(competition)} • {parseFloat(competition.prizePoolTokens).toLocaleString()} JCMOVES pool
+                  </p>
+                  {competition.description && <p className="text-sm text-muted-foreground mt-1">{competition.description}</p>}
+                </div>
+                <Badge variant={phase.variant}>{phase.label}</Badge>
+              </div>
+
+              {competition.myEntry && (
+                <p className="text-sm" data-testid={`competition-my-entry-${competition.id}`}>
+                  {competition.myEntry.teamName && <span className="font-medium">{competition.myEntry.teamName}: </span>}
+                  {competition.myEntry.rank
+                    ? `${competition.phase === "completed" ? "Finished" : "Currently"} #${competition.myEntry.rank} with ${formatScore(competition, competition.myEntry.score)}`
+                    : "Not placed yet"}
+                </p>
+              )}
+
+              {competition.phase === "upcoming" ? (
+                <p className="text-sm text-muted-foreground">Starts {new Date(competition.startsAt).toLocaleString()}</p>
+              ) : competition.standings.length ? (
+                <div className="space-y-2">
+                  {competition.standings.slice(0, STANDINGS_SHOWN).map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between gap-3 rounded-lg border p-2" data-testid={`competition-standing-${competition.id}-${entry.rank}`}>
+                      <div className="flex items-center gap-3">
+                        <Badge variant={entry.rank <= competition.prizeSplits.length ? "default" : "outline"}>#{entry.rank}</Badge>
+                        <div>
+                          <p className="text-sm font-medium">{entry.name}</p>
+                          {entry.members.length > 0 && (
+                            <p className="text-xs text-muted-foreground">{entry.members.map((member) => member.name).join(", ")}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-semibold">{formatScore(competition, entry.score)}</p>
+                        {parseFloat(entry.prizeTokens) > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            +{parseFloat(entry.prizeTokens).toLocaleString()} JCMOVES{entry.payoutStatus === "paid" ? " • paid" : ""}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  {competition.standings.length > STANDINGS_SHOWN && (
+                    <p className="text-xs text-muted-foreground text-center">…{competition.standings.length - STANDINGS_SHOWN} more</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No qualifying activity yet</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
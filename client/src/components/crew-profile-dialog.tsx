@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { CREW_SKILLS, CREW_SKILL_LABELS, type CrewSkill } from "@shared/crew-scoring";
+import type { User } from "@shared/schema";
+
+interface CrewProfileDialogProps {
+  employee: User | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Home base and certifications the crew suggestion scorer uses for distance and special items
+export function CrewProfileDialog({ employee, onOpenChange }: CrewProfileDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [homeBaseAddress, setHomeBaseAddress] = useState("");
+  const [skills, setSkills] = useState<CrewSkill[]>([]);
+
+  useEffect(() => {
+    if (employee) {
+      setHomeBaseAddress(employee.homeBaseAddress || "");
+      setSkills((employee.crewSkills || []).filter((skill): skill is CrewSkill => (CREW_SKILLS as readonly string[]).includes(skill)));
+    }
+  }, [employee]);
+
+  const saveProfile = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/employees/${employee!.id}/crew-profile`, {
+        homeBaseAddress: homeBaseAddress || null,
+        crewSkills: skills,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Crew profile saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save crew profile.", variant: "destructive" });
+    },
+  });
+
+  const toggleSkill = (skill: CrewSkill, checked: boolean) => {
+    setSkills((prev) => checked ? [...prev, skill] : prev.filter((entry) => entry !== skill));
+  };
+
+  return (
+    <Dialog open={!!employee} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-crew-profile">
+        <DialogHeader>
+          <DialogTitle>Crew Profile: {employee?.firstName} {employee?.lastName}</DialogTitle>
+          <DialogDescription>Used to suggest crews that are close to the job and certified for its special items.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="homeBaseAddress">Home base address</Label>
+            <Input
+              id="homeBaseAddress"
+              value={homeBaseAddress}
+              onChange={(e) => setHomeBaseAddress(e.target.value)}
+              placeholder="Street, city, state"
+              data-testid="input-home-base"
+            />
+          </div>
+          <div>
+            <Label>Skills & certifications</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {CREW_SKILLS.map((skill) => (
+                <label key={skill} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={skills.includes(skill)}
+                    onCheckedChange={(checked) => toggleSkill(skill, checked === true)}
+                    data-testid={`checkbox-skill-${skill}`}
+                  />
+                  {CREW_SKILL_LABELS[skill]}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => saveProfile.mutate()} disabled={saveProfile.isPending} data-testid="button-save-crew-profile">
+            {saveProfile.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
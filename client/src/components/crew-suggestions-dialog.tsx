@@ -12,9 +12,11 @@ import {
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Users, Star, Briefcase, TrendingUp, CheckCircle2, Sparkles } from "lucide-react";
+import { Loader2, Users, Star, Briefcase, TrendingUp, CheckCircle2, Sparkles, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { CREW_BASE_SCORE, CREW_SCORE_FACTORS, CREW_SCORE_FACTOR_LABELS, CREW_SKILL_LABELS, type CrewScoreFactor, type CrewScoringWeights, type CrewSkill } from "@shared/crew-scoring";
+import type { ScheduleConflict } from "@shared/scheduling";
 
 interface EmployeeWithStats {
   id: string;
@@ -26,12 +28,17 @@ interface EmployeeWithStats {
   averageRating: number;
   totalReviews: number;
   isApproved: boolean;
+  homeBaseAddress: string | null;
+  crewSkills: string[];
 }
 
 interface CrewSuggestion {
   employee: EmployeeWithStats;
   score: number;
   reason: string;
+  factors: CrewScoreFactor[];
+  scheduleConflicts: ScheduleConflict[];
+  distanceMiles: number | null;
 }
 
 interface CrewAssignmentSuggestion {
@@ -40,6 +47,9 @@ interface CrewAssignmentSuggestion {
   crewSize: number;
   suggestions: CrewSuggestion[];
   recommendedCrew: CrewSuggestion[];
+  weights: CrewScoringWeights;
+  requiredSkills: CrewSkill[];
+  scheduleWindow: { start: string; end: string; isEstimated: boolean } | null;
 }
 
 interface CrewSuggestionsDialogProps {
@@ -130,7 +140,7 @@ export function CrewSuggestionsDialog({ jobId, jobTitle, open, onOpenChange }: C
             Crew Assignment Assistant
           </DialogTitle>
           <DialogDescription>
-            Smart suggestions for {jobTitle} based on availability, performance, and experience
+            Smart suggestions for {jobTitle} based on schedule, distance, skills, crew history, performance and experience
           </DialogDescription>
         </DialogHeader>
 
@@ -149,9 +159,23 @@ export function CrewSuggestionsDialog({ jobId, jobTitle, open, onOpenChange }: C
                   <p className="text-sm text-muted-foreground">{suggestions.crewSize} members</p>
                 </div>
               </div>
-              <Badge variant="outline">{suggestions.jobType}</Badge>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                {suggestions.requiredSkills.map((skill) => (
+                  <Badge key={skill} variant="secondary">{CREW_SKILL_LABELS[skill]}</Badge>
+                ))}
+                <Badge variant="outline">{suggestions.jobType}</Badge>
+              </div>
             </div>
 
+            {/* How scores are built */}
+            <p className="text-xs text-muted-foreground" data-testid="text-score-weights">
+              Scores start at {CREW_BASE_SCORE}. Each factor adds or takes away up to its weight:{" "}
+              {CREW_SCORE_FACTORS.map((factor) => `${CREW_SCORE_FACTOR_LABELS[factor]} ±${suggestions.weights[factor]}`).join(", ")}.
+              {suggestions.scheduleWindow
+                ? ` Schedule checked for ${new Date(suggestions.scheduleWindow.start).toLocaleString()}${suggestions.scheduleWindow.isEstimated ? " (estimated start)" : ""}.`
+                : " This job has no date yet, so schedules weren't checked."}
+            </p>
+
             {/* Recommended Crew */}
             {suggestions.recommendedCrew.length > 0 && (
               <div>
@@ -193,7 +217,7 @@ export function CrewSuggestionsDialog({ jobId, jobTitle, open, onOpenChange }: C
                 </h3>
                 <div className="grid gap-3">
                   {suggestions.suggestions
-                    .slice(suggestions.crewSize)
+                    .slice(suggestions.recommendedCrew.length)
                     .map((suggestion) => (
                       <SuggestionCard
                         key={suggestion.employee.id}
@@ -250,7 +274,8 @@ interface SuggestionCardProps {
 }
 
 function SuggestionCard({ suggestion, isSelected, isRecommended, onToggle }: SuggestionCardProps) {
-  const { employee, score, reason } = suggestion;
+  const { employee, score, factors, scheduleConflicts } = suggestion;
+  const isBlocked = scheduleConflicts.some((conflict) => conflict.severity === "block");
 
   return (
     <Card
@@ -278,6 +303,12 @@ function SuggestionCard({ suggestion, isSelected, isRecommended, onToggle }: Sug
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {isBlocked && (
+              <Badge variant="destructive">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Unavailable
+              </Badge>
+            )}
             {isRecommended && (
               <Badge variant="default" className="bg-gradient-to-r from-primary to-primary/80">
                 Recommended
@@ -318,8 +349,25 @@ function SuggestionCard({ suggestion, isSelected, isRecommended, onToggle }: Sug
             </div>
           </div>
         </div>
-        <div className="text-sm text-muted-foreground border-t pt-3">
-          {reason}
+        <div className="border-t pt-3 space-y-1" data-testid={`crew-score-factors-${employee.id}`}>
+          {factors.map((factor) => (
+            <div key={factor.key} className="flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <span className="font-medium">{factor.label}</span>
+                <span className="text-muted-foreground"> • {factor.detail}</span>
+              </div>
+              <span
+                className={cn(
+                  "font-mono text-xs shrink-0",
+                  factor.points > 0 && "text-green-600",
+                  factor.points < 0 && "text-red-600",
+                  factor.points === 0 && "text-muted-foreground"
+                )}
+              >
+                {factor.points > 0 ? "+" : ""}{factor.points}
+              </span>
+            </div>
+          ))}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Check, Copy, Download, Loader2 } from "lucide-react";
+import type { DepositAddressInfo } from "@shared/solana-deposits";
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+// Where to send JCMOVES to top up the wallet, as a copyable address and a Solana Pay QR code.
+// Deposits show here with their confirmation progress until they finalize and are credited
+export function DepositAddressCard() {
+  const { toast } = useToast();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: deposit, isLoading, error } = useQuery<DepositAddressInfo>({
+    queryKey: ["/api/wallets/deposit-address"],
+    // Poll while something is confirming so the progress bars move
+    refetchInterval: (query) => (query.state.data?.pendingDeposits.length ? 10000 : 60000),
+  });
+
+  useEffect(() => {
+    if (!deposit) return;
+    QRCode.toDataURL(deposit.solanaPayUrl, { margin: 1, width: 200 })
+      .then(setQrCode)
+      .catch(() => setQrCode(null));
+    // The first request may have replaced a placeholder wallet address
+    queryClient.invalidateQueries({ queryKey: ["/api/wallets"] });
+  }, [deposit?.solanaPayUrl]);
+
+  const pendingCount = deposit?.pendingDeposits.length || 0;
+  useEffect(() => {
+    // A deposit finished confirming, so the balance changed
+    if (deposit) queryClient.invalidateQueries({ queryKey: ["/api/wallets"] });
+  }, [pendingCount]);
+
+  const copyAddress = () => {
+    if (!deposit) return;
+    navigator.clipboard.writeText(deposit.address);
+    setCopied(true);
+    toast({ title: "Copied!", description: "Deposit address copied to clipboard" });
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card data-testid="card-deposit-address">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Download className="h-4 w-4" />
+          Deposit JCMOVES
+        </CardTitle>
+        <CardDescription>
+          Send JCMOVES on Solana to this address. It's credited once the network finalizes the transfer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !deposit ? (
+          <p className="text-sm text-muted-foreground">Deposit address is unavailable right now.</p>
+        ) : (
+          <>
+            <div className="flex flex-col items-center gap-3">
+              {qrCode && (
+                <img src={qrCode} alt="Deposit address QR code" className="h-48 w-48 rounded border bg-white p-1" data-testid="img-deposit-qr" />
+              )}
+              <div className="flex w-full items-center gap-2">
+                <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-xs" data-testid="text-deposit-address">
+                  {deposit.address}
+                </code>
+                <Button variant="ghost" size="sm" onClick={copyAddress} data-testid="button-copy-deposit-address">
+                  {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Only send JCMOVES ({shortAddress(deposit.mintAddress)}). Other tokens sent here are not credited.</p>
+            </div>
+
+            {deposit.pendingDeposits.length > 0 && (
+              <div className="space-y-3 border-t pt-3">
+                <p className="text-sm font-medium">Confirming</p>
+                {deposit.pendingDeposits.map((pending) => (
+                  <div key={pending.id} className="space-y-1" data-testid={`pending-deposit-${pending.id}`}>
+                    <div className="flex justify-between text-sm">
+                      <span>{parseFloat(pending.amount).toLocaleString()} JCMOVES</span>
+                      <span className="text-muted-foreground">
+                        {pending.confirmations}/{deposit.requiredConfirmations} confirmations
+                      </span>
+                    </div>
+                    <Progress value={pending.progress} />
+                    <p className="text-xs text-muted-foreground">
+                      {pending.fromAddress ? `From ${shortAddress(pending.fromAddress)} · ` : ""}
+                      {shortAddress(pending.signature)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { type Lead } from "@shared/schema";
+import type { ScheduleConflict } from "@shared/scheduling";
 import { apiRequest } from "@/lib/queryClient";
+import { getScheduleConflictMessage } from "@/lib/scheduling";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -32,20 +34,24 @@ export default function EmployeeDashboard() {
       const response = await apiRequest("POST", `/api/leads/${jobId}/accept`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: Lead & { scheduleWarnings?: ScheduleConflict[] }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/leads/available"] });
       queryClient.invalidateQueries({ queryKey: ["/api/leads/my-jobs"] });
+      const warnings = result.scheduleWarnings || [];
       toast({
         title: "Job accepted",
-        description: "You have successfully accepted this job.",
+        description: warnings.length > 0
+          ? `Heads up: ${warnings.map((warning) => warning.message).join("; ")}`
+          : "You have successfully accepted this job.",
       });
     },
     onError: (error: Error) => {
       if (error.message.includes('401')) return;
       
+      const scheduleConflict = getScheduleConflictMessage(error);
       toast({
-        title: "Error",
-        description: "Failed to accept job. It may have been assigned to another employee.",
+        title: scheduleConflict ? "Schedule conflict" : "Error",
+        description: scheduleConflict || "Failed to accept job. It may have been assigned to another employee.",
         variant: "destructive",
       });
     },
@@ -35,7 +35,7 @@ export default function Header() {
   };
 
   return (
-    <header className="bg-background shadow-sm border-b border-border sticky top-0 z-50">
+    <header className="bg-background shadow-sm border-b border-border sticky top-0 z-50 print:hidden">
       <nav className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           <div className="flex items-center">
@@ -88,6 +88,13 @@ export default function Header() {
                         >
                           Jobs
                         </Link>
+                        <Link
+                          href="/schedule"
+                          className="text-muted-foreground hover:text-primary px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                          data-testid="button-schedule"
+                        >
+                          Schedule
+                        </Link>
                         <Link
                           href="/rewards"
                           className="text-muted-foreground hover:text-primary px-3 py-2 rounded-md text-sm font-medium transition-colors"
@@ -263,6 +270,14 @@ export default function Header() {
                       >
                         Jobs
                       </Link>
+                      <Link
+                        href="/schedule"
+                        className="text-muted-foreground hover:text-primary px-3 py-2 rounded-md text-sm font-medium transition-colors text-left"
+                        data-testid="button-mobile-schedule"
+                        onClick={() => setMobileMenuOpen(false)}
+                      >
+                        Schedule
+                      </Link>
                       <Link
                         href="/rewards"
                         className="text-muted-foreground hover:text-primary px-3 py-2 rounded-md text-sm font-medium transition-colors text-left"
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { type Lead } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -12,10 +13,13 @@ import {
   CheckCircle,
   ExternalLink,
   Locate,
-  Layers
+  Layers,
+  Route,
+  AlertTriangle
 } from "lucide-react";
 import { calculateDistance, geocodeAddress } from "@/hooks/use-geolocation";
 import { useToast } from "@/hooks/use-toast";
+import { formatDriveMinutes, formatRouteLeg, type CrewDayRoute } from "@shared/routing";
 
 interface JobMapViewProps {
   availableJobs: Lead[];
@@ -33,6 +37,23 @@ interface JobWithCoords extends Lead {
   distance?: number;
 }
 
+// YYYY-MM-DD in local time for the crew day route
+const toDayParam = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Addresses in visiting order: home base, then every stop of each job
+const getDayAddresses = (day: CrewDayRoute) => [
+  ...(day.homeBaseAddress ? [day.homeBaseAddress] : []),
+  ...day.jobs.flatMap((job) => job.route.stops.map((stop) => stop.address)),
+];
+
+const getRouteEmbedUrl = (addresses: string[], mapType: string) => {
+  const [origin, ...destinations] = addresses.map(encodeURIComponent);
+  return destinations.length === 0
+    ? `https://maps.google.com/maps?q=${origin}&t=${mapType}&z=13&output=embed`
+    : `https://maps.google.com/maps?saddr=${origin}&daddr=${destinations.join("+to:")}&t=${mapType}&output=embed`;
+};
+
 export function JobMapView({
   availableJobs,
   myJobs,
@@ -49,6 +70,21 @@ export function JobMapView({
   const [mapUrl, setMapUrl] = useState<string>("");
   const [isLoading, setIsLoading] = useState(true);
   const [mapView, setMapView] = useState<'map' | 'satellite'>('map');
+  const [mode, setMode] = useState<'jobs' | 'day'>('jobs');
+  const today = toDayParam(new Date());
+
+  const { data: dayRoute, isLoading: isDayRouteLoading } = useQuery<CrewDayRoute>({
+    queryKey: ["/api/routes/crew-day", today],
+    queryFn: async () => {
+      const response = await fetch(`/api/routes/crew-day?date=${today}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to load today's route");
+      }
+      return response.json();
+    },
+    enabled: mode === 'day',
+  });
+  const dayAddresses = dayRoute ? getDayAddresses(dayRoute) : [];
 
   // Geocode job addresses and calculate distances
   useEffect(() => {
@@ -98,10 +134,12 @@ export function JobMapView({
 
   // Separate effect for map URL generation to avoid race conditions
   useEffect(() => {
-    if (!isLoading) {
+    if (mode === 'day') {
+      setMapUrl(dayAddresses.length > 0 ? getRouteEmbedUrl(dayAddresses, mapView === 'satellite' ? 'k' : 'm') : "");
+    } else if (!isLoading) {
       generateMapUrl(jobsWithCoords, mapView);
     }
-  }, [jobsWithCoords, mapView, userLocation, isLoading]); // generateMapUrl is stable since it doesn't depend on props/state
+  }, [jobsWithCoords, mapView, userLocation, isLoading, mode, dayAddresses.join("|")]); // generateMapUrl is stable since it doesn't depend on props/state
 
   const generateMapUrl = (jobs: JobWithCoords[], currentMapView: 'map' | 'satellite') => {
     const validJobs = jobs.filter(job => job.coordinates);
@@ -193,7 +231,12 @@ export function JobMapView({
     }
   };
 
-  if (isLoading) {
+  const handleNavigateDay = () => {
+    const stops = userLocation ? [`${userLocation.latitude},${userLocation.longitude}`, ...dayAddresses] : dayAddresses;
+    window.open(`https://www.google.com/maps/dir/${stops.map(encodeURIComponent).join("/")}`, '_blank');
+  };
+
+  if (isLoading && mode === 'jobs') {
     return (
       <div className="flex flex-col items-center justify-center h-full p-8">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-4"></div>
@@ -208,10 +251,19 @@ export function JobMapView({
       <div className="flex items-center justify-between p-4 bg-background border-b">
         <div className="flex items-center gap-2">
           <MapPin className="h-5 w-5 text-primary" />
-          <span className="font-medium">Job Map</span>
+          <span className="font-medium">{mode === 'day' ? "Today's Route" : "Job Map"}</span>
         </div>
         <div className="flex items-center gap-2">
-          {userLocation && (
+          <Button
+            variant={mode === 'day' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setMode(mode === 'day' ? 'jobs' : 'day')}
+            data-testid="toggle-day-route"
+          >
+            <Route className="h-4 w-4 mr-1" />
+            My Day
+          </Button>
+          {userLocation && mode === 'jobs' && (
             <Button
               variant="outline"
               size="sm"
@@ -253,74 +305,136 @@ export function JobMapView({
         ) : (
           <div className="flex flex-col items-center justify-center h-full p-8 text-center">
             <MapPin className="h-12 w-12 text-muted-foreground mb-4" />
-            <p className="text-muted-foreground mb-2">No job locations to display</p>
+            <p className="text-muted-foreground mb-2">
+              {mode === 'day' ? "No jobs on your route today" : "No job locations to display"}
+            </p>
             <p className="text-sm text-muted-foreground">
-              {!userLocation && "Enable location access to see nearby jobs"}
+              {mode === 'jobs' && !userLocation && "Enable location access to see nearby jobs"}
             </p>
           </div>
         )}
       </div>
 
-      {/* Job List Overlay */}
-      <div className="max-h-48 overflow-y-auto bg-background border-t">
-        <div className="p-4">
-          <h3 className="font-medium mb-3 flex items-center gap-2">
-            <span>Nearby Jobs</span>
-            <Badge variant="secondary" className="text-xs">
-              {jobsWithCoords.filter(job => job.coordinates).length}
-            </Badge>
-          </h3>
-          
-          {jobsWithCoords.filter(job => job.coordinates).length === 0 ? (
-            <p className="text-sm text-muted-foreground text-center py-4">
-              No jobs with valid addresses found
-            </p>
-          ) : (
-            <div className="space-y-2">
-              {jobsWithCoords
-                .filter(job => job.coordinates)
-                .sort((a, b) => (a.distance || 999) - (b.distance || 999))
-                .slice(0, 5) // Show top 5 closest jobs
-                .map((job) => (
-                  <Card
-                    key={job.id}
-                    className={`cursor-pointer transition-colors hover:bg-muted/50 ${
-                      selectedJob?.id === job.id ? 'ring-2 ring-primary' : ''
-                    }`}
-                    onClick={() => handleJobClick(job)}
-                    data-testid={`map-job-${job.id}`}
-                  >
-                    <CardContent className="p-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <div className={`w-3 h-3 rounded-full ${getJobMarkerColor(job)}`} />
-                          <span className="text-lg">{getJobTypeIcon(job.serviceType)}</span>
-                          <div>
-                            <p className="font-medium text-sm">{job.firstName} {job.lastName}</p>
-                            <p className="text-xs text-muted-foreground truncate max-w-32">
-                              {job.fromAddress}
+      {/* Day Route */}
+      {mode === 'day' && (
+        <div className="max-h-64 overflow-y-auto bg-background border-t">
+          <div className="p-4">
+            {isDayRouteLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Planning today's route...</p>
+            ) : !dayRoute || dayRoute.jobs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No scheduled jobs today</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium text-sm" data-testid="text-day-route-total">
+                    {dayRoute.totalMiles === null || dayRoute.totalDriveMinutes === null
+                      ? `${dayRoute.jobs.length} jobs`
+                      : `${dayRoute.jobs.length} jobs · ${dayRoute.totalMiles} mi · ${formatDriveMinutes(dayRoute.totalDriveMinutes)} driving`}
+                  </h3>
+                  <Button variant="outline" size="sm" onClick={handleNavigateDay} data-testid="button-navigate-day">
+                    <Navigation className="h-4 w-4 mr-1" />
+                    Navigate
+                  </Button>
+                </div>
+                {dayRoute.jobs.map((job, index) => (
+                  <div key={job.leadId} data-testid={`day-route-job-${job.leadId}`}>
+                    {job.transit && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1 ml-2 mb-1">
+                        <Navigation className="h-3 w-3" />
+                        {index === 0 ? "From home base: " : ""}{formatRouteLeg(job.transit)}
+                        {job.isTightConnection && (
+                          <Badge variant="destructive" className="ml-1 text-xs">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Only {job.gapMinutes} min between jobs
+                          </Badge>
+                        )}
+                      </p>
+                    )}
+                    <Card>
+                      <CardContent className="p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="font-medium text-sm">{index + 1}. {job.customerName}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {job.route.stops.map((stop) => stop.address).join(" → ")}
                             </p>
                           </div>
+                          <Badge variant="outline" className="text-xs shrink-0">
+                            {job.isEstimated ? "Time TBD" : new Date(job.start).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                          </Badge>
                         </div>
-                        <div className="flex items-center gap-1">
-                          {job.distance && (
-                            <Badge variant="outline" className="text-xs">
-                              {job.distance.toFixed(1)}mi
-                            </Badge>
-                          )}
-                          <ExternalLink className="h-3 w-3 text-muted-foreground" />
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
+                      </CardContent>
+                    </Card>
+                  </div>
                 ))}
-            </div>
-          )}
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* Job List Overlay */}
+      {mode === 'jobs' && (
+        <div className="max-h-48 overflow-y-auto bg-background border-t">
+          <div className="p-4">
+            <h3 className="font-medium mb-3 flex items-center gap-2">
+              <span>Nearby Jobs</span>
+              <Badge variant="secondary" className="text-xs">
+                {jobsWithCoords.filter(job => job.coordinates).length}
+              </Badge>
+            </h3>
+          
+            {jobsWithCoords.filter(job => job.coordinates).length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No jobs with valid addresses found
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {jobsWithCoords
+                  .filter(job => job.coordinates)
+                  .sort((a, b) => (a.distance || 999) - (b.distance || 999))
+                  .slice(0, 5) // Show top 5 closest jobs
+                  .map((job) => (
+                    <Card
+                      key={job.id}
+                      className={`cursor-pointer transition-colors hover:bg-muted/50 ${
+                        selectedJob?.id === job.id ? 'ring-2 ring-primary' : ''
+                      }`}
+                      onClick={() => handleJobClick(job)}
+                      data-testid={`map-job-${job.id}`}
+                    >
+                      <CardContent className="p-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <div className={`w-3 h-3 rounded-full ${getJobMarkerColor(job)}`} />
+                            <span className="text-lg">{getJobTypeIcon(job.serviceType)}</span>
+                            <div>
+                              <p className="font-medium text-sm">{job.firstName} {job.lastName}</p>
+                              <p className="text-xs text-muted-foreground truncate max-w-32">
+                                {job.fromAddress}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            {job.distance && (
+                              <Badge variant="outline" className="text-xs">
+                                {job.distance.toFixed(1)}mi
+                              </Badge>
+                            )}
+                            <ExternalLink className="h-3 w-3 text-muted-foreground" />
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
 
       {/* Selected Job Quick Actions */}
-      {selectedJob && (
+      {selectedJob && mode === 'jobs' && (
         <div className="bg-primary text-primary-foreground p-4">
           <div className="flex items-center justify-between mb-3">
             <div>
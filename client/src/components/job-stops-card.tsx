@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, Car, Loader2, MapPin, Pencil, Plus, Route, Trash2 } from "lucide-react";
+import {
+  JOB_STOP_TYPES,
+  JOB_STOP_TYPE_LABELS,
+  MAX_JOB_STOPS,
+  formatDriveMinutes,
+  formatRouteLeg,
+  type JobRoute,
+  type JobStopInput,
+  type JobStopType,
+} from "@shared/routing";
+
+interface JobStopsCardProps {
+  leadId: string;
+  canEdit: boolean;
+}
+
+// Ordered pickups and drop-offs for a job with the drive between each. Managers can edit the stops
+export function JobStopsCard({ leadId, canEdit }: JobStopsCardProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<JobStopInput[] | null>(null);
+
+  const { data: route, isLoading } = useQuery<JobRoute>({
+    queryKey: ["/api/leads", leadId, "route"],
+  });
+
+  const saveStops = useMutation({
+    mutationFn: async (stops: JobStopInput[]) => {
+      const response = await apiRequest("PUT", `/api/leads/${leadId}/stops`, { stops });
+      return response.json();
+    },
+    onSuccess: (saved: { totalMiles: number | null }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", leadId] });
+      toast({
+        title: "Stops saved",
+        description: saved.totalMiles === null
+          ? "Some addresses couldn't be located, so the route distance wasn't updated."
+          : `Route distance updated to ${saved.totalMiles} miles for quoting.`,
+      });
+      setDraft(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save stops.", variant: "destructive" });
+    },
+  });
+
+  const startEditing = () => {
+    setDraft((route?.stops || []).map((stop) => ({ stopType: stop.stopType, address: stop.address, notes: stop.notes })));
+  };
+
+  const updateStop = (index: number, changes: Partial<JobStopInput>) => {
+    setDraft((prev) => prev && prev.map((stop, i) => i === index ? { ...stop, ...changes } : stop));
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const next = [...prev];
+      const [stop] = next.splice(index, 1);
+      next.splice(index + offset, 0, stop);
+      return next;
+    });
+  };
+
+  const removeStop = (index: number) => {
+    setDraft((prev) => prev && prev.filter((_, i) => i !== index));
+  };
+
+  const addStop = () => {
+    setDraft((prev) => prev && [...prev, { stopType: "dropoff", address: "", notes: null }]);
+  };
+
+  return (
+    <Card data-testid="card-job-stops">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5" />
+              Stops & Route
+            </CardTitle>
+            <CardDescription>Stops in the order the crew visits them, with estimated drive times</CardDescription>
+          </div>
+          {canEdit && !draft && (
+            <Button variant="outline" size="sm" onClick={startEditing} disabled={isLoading} data-testid="button-edit-stops">
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit Stops
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Estimating drive times...
+          </div>
+        ) : draft ? (
+          <div className="space-y-3">
+            {draft.map((stop, index) => (
+              <div key={index} className="flex flex-col sm:flex-row gap-2 border rounded-lg p-3" data-testid={`stop-editor-${index}`}>
+                <Select value={stop.stopType} onValueChange={(value) => updateStop(index, { stopType: value as JobStopType })}>
+                  <SelectTrigger className="sm:w-32" data-testid={`select-stop-type-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {JOB_STOP_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{JOB_STOP_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-1 space-y-2">
+                  <Input
+                    value={stop.address}
+                    onChange={(e) => updateStop(index, { address: e.target.value })}
+                    placeholder="Street, city, state"
+                    data-testid={`input-stop-address-${index}`}
+                  />
+                  <Input
+                    value={stop.notes || ""}
+                    onChange={(e) => updateStop(index, { notes: e.target.value || null })}
+                    placeholder="Notes (gate code, unit, what to load)"
+                    data-testid={`input-stop-notes-${index}`}
+                  />
+                </div>
+                <div className="flex sm:flex-col gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => moveStop(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveStop(index, 1)} disabled={index === draft.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeStop(index)} disabled={draft.length === 1} data-testid={`button-remove-stop-${index}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={addStop} disabled={draft.length >= MAX_JOB_STOPS} data-testid="button-add-stop">
+                <Plus className="h-4 w-4 mr-1" />
+                Add Stop
+              </Button>
+              <div className="ml-auto flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button
+                  size="sm"
+                  onClick={() => saveStops.mutate(draft)}
+                  disabled={saveStops.isPending || draft.some((stop) => !stop.address.trim())}
+                  data-testid="button-save-stops"
+                >
+                  {saveStops.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Stops
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : !route || route.stops.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No addresses on this job yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {route.stops.map((stop, index) => (
+              <div key={stop.position}>
+                <div className="flex items-start gap-3" data-testid={`job-stop-${index}`}>
+                  <div className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-bold text-primary-foreground">
+                    {index + 1}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={stop.stopType === "pickup" ? "secondary" : "outline"}>{JOB_STOP_TYPE_LABELS[stop.stopType]}</Badge>
+                      <p className="text-sm font-medium truncate">{stop.address}</p>
+                    </div>
+                    {stop.notes && <p className="text-xs text-muted-foreground mt-1">{stop.notes}</p>}
+                  </div>
+                </div>
+                {route.legs[index] && (
+                  <p className="ml-9 my-1 text-xs text-muted-foreground flex items-center gap-1">
+                    <Car className="h-3 w-3" />
+                    {formatRouteLeg(route.legs[index])}
+                  </p>
+                )}
+              </div>
+            ))}
+            {route.legs.length > 0 && (
+              <p className="pt-2 text-sm font-medium flex items-center gap-1" data-testid="text-route-total">
+                <MapPin className="h-4 w-4" />
+                {route.totalMiles === null || route.totalDriveMinutes === null
+                  ? "Total drive unknown - some addresses couldn't be located"
+                  : `Total: ${route.totalMiles} mi · ${formatDriveMinutes(route.totalDriveMinutes)} driving`}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,11 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useState, useRef, useEffect } from "react";
 import { type Lead } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { getScheduleConflictMessage } from "@/lib/scheduling";
+import { getSolanaAddressError } from "@shared/solana-withdrawals";
+import type { EmployeeAchievementStatus } from "@shared/achievements";
 import { useToast } from "@/hooks/use-toast";
+import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -47,6 +51,7 @@ import {
 import { useGeolocation, calculateDistance, geocodeAddress } from "@/hooks/use-geolocation";
 import { useOfflineStorage } from "@/hooks/use-offline-storage";
 import { PhotoCapture } from "@/components/photo-capture";
+import { OfflineSyncPanel } from "@/components/offline-sync-panel";
 import { NotificationBell } from "@/components/notification-bell";
 import { useAuth } from "@/hooks/useAuth";
 import { ShopPage } from "@/pages/ShopPage";
@@ -93,6 +98,7 @@ interface TreasuryStatus {
 }
 import { NotificationList } from "@/components/notification-list";
 import { JobMapView } from "@/components/job-map-view";
+import { ClockInButton } from "@/components/time-clock";
 import { JobPhoto } from "@shared/schema";
 
 interface SwipeCardProps {
@@ -395,16 +401,17 @@ export default function MobileLeadManager() {
   const [showPhotoCapture, setShowPhotoCapture] = useState(false);
   const [selectedJobForPhotos, setSelectedJobForPhotos] = useState<Lead | null>(null);
   const [showNotifications, setShowNotifications] = useState(false);
+  const [showSyncPanel, setShowSyncPanel] = useState(false);
   
   // Offline storage capabilities
   const { 
     isOnline, 
     pendingActions, 
+    conflicts,
     isSyncing, 
     hasPendingActions,
     getCachedJobs,
     addOfflineAction,
-    syncPendingActions 
   } = useOfflineStorage();
   
   // Get user's current location
@@ -441,6 +448,17 @@ export default function MobileLeadManager() {
     staleTime: 60 * 1000, // 1 minute
   });
 
+  const { data: achievementStatuses = [] } = useQuery<EmployeeAchievementStatus[]>({
+    queryKey: ["/api/gamification/achievements"],
+    enabled: isOnline && isAuthenticated,
+    staleTime: 60 * 1000, // 1 minute
+  });
+  // Closest to being earned first
+  const achievementsInProgress = achievementStatuses
+    .filter((status) => !status.earnedAt && (status.progress?.percent || 0) > 0)
+    .sort((a, b) => (b.progress?.percent || 0) - (a.progress?.percent || 0))
+    .slice(0, 3);
+
   // Token price query for real-time USD conversion
   const { data: tokenInfo } = useQuery({
     queryKey: ["/api/rewards/token-info"],
@@ -464,6 +482,7 @@ export default function MobileLeadManager() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/gamification/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gamification/achievements"] });
       toast({
         title: "Daily Check-In Complete! 🎉",
         description: data.message || `Earned ${data.points} points and ${data.tokens} JCMOVES tokens!`,
@@ -545,12 +564,14 @@ export default function MobileLeadManager() {
     mutationFn: async (jobId: string) => {
       if (!isOnline) {
         // Add to offline queue
-        const actionId = addOfflineAction({
+        const job = displayAvailableJobs.find(j => j.id === jobId);
+        const action = await addOfflineAction({
           type: 'accept_job',
           leadId: jobId,
+          jobLabel: job ? `${job.firstName} ${job.lastName}` : 'Job',
           data: {},
         });
-        return { offline: true, actionId };
+        return { offline: true, actionId: action.id };
       }
       const response = await apiRequest("POST", `/api/leads/${jobId}/accept`);
       return response.json();
@@ -565,18 +586,60 @@ export default function MobileLeadManager() {
       } else {
         queryClient.invalidateQueries({ queryKey: ["/api/leads/available"] });
         queryClient.invalidateQueries({ queryKey: ["/api/leads/my-jobs"] });
+        const warnings: { message: string }[] = result?.scheduleWarnings || [];
         toast({
           title: "Job accepted! 🎉",
-          description: "You can now view it in your accepted jobs.",
+          description: warnings.length > 0
+            ? `Heads up: ${warnings.map((warning) => warning.message).join("; ")}`
+            : "You can now view it in your accepted jobs.",
         });
       }
     },
     onError: (error: Error) => {
       if (error.message.includes('401')) return;
       
+      const scheduleConflict = getScheduleConflictMessage(error);
       toast({
-        title: "Already taken",
-        description: "This job was accepted by another employee.",
+        title: scheduleConflict ? "Schedule conflict" : "Already taken",
+        description: scheduleConflict || "This job was accepted by another employee.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const completeJobMutation = useMutation({
+    mutationFn: async (job: Lead) => {
+      if (!isOnline) {
+        const action = await addOfflineAction({
+          type: 'complete_job',
+          leadId: job.id,
+          jobLabel: `${job.firstName} ${job.lastName}`,
+          data: {},
+        });
+        return { offline: true, actionId: action.id };
+      }
+      const response = await apiRequest("POST", `/api/leads/${job.id}/complete`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result?.offline) {
+        toast({
+          title: "Completion queued",
+          description: "The job will be marked complete when you're back online.",
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/leads/my-jobs"] });
+        toast({
+          title: "Job completed! ✅",
+          description: "Nice work! The job has been marked complete.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      if (error.message.includes('401')) return;
+      toast({
+        title: "Couldn't complete job",
+        description: error.message.replace(/^\d+: /, ""),
         variant: "destructive",
       });
     },
@@ -709,12 +772,15 @@ export default function MobileLeadManager() {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={syncPendingActions}
-                disabled={!isOnline || isSyncing}
+                onClick={() => setShowSyncPanel(true)}
                 className="text-primary-foreground hover:bg-primary-foreground/10"
                 data-testid="sync-pending-actions"
               >
-                <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                {conflicts.length > 0 ? (
+                  <AlertTriangle className="h-4 w-4 text-orange-300" />
+                ) : (
+                  <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                )}
                 {pendingActions.length}
               </Button>
             )}
@@ -804,6 +870,21 @@ export default function MobileLeadManager() {
                   />
                   {/* Action Buttons */}
                   <div className="absolute top-4 right-4 flex gap-2">
+                    {["confirmed", "accepted", "in_progress"].includes(job.status) && (
+                      <ClockInButton leadId={job.id} />
+                    )}
+                    {["accepted", "in_progress"].includes(job.status) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="p-2"
+                        onClick={() => completeJobMutation.mutate(job)}
+                        disabled={completeJobMutation.isPending || pendingActions.some(a => a.type === 'complete_job' && a.leadId === job.id)}
+                        data-testid={`complete-job-${job.id}`}
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -1037,6 +1118,21 @@ export default function MobileLeadManager() {
                         <p className="text-xs text-muted-foreground">Complete jobs and maintain streaks to earn achievements!</p>
                       </div>
                     )}
+                    {achievementsInProgress.length > 0 && (
+                      <div className="mt-4 pt-3 border-t space-y-3">
+                        <p className="text-sm font-medium">In Progress</p>
+                        {achievementsInProgress.map((status) => (
+                          <div key={status.achievementTypeId} data-testid={`achievement-progress-${status.achievementTypeId}`}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                              <span>{status.name}</span>
+                              <span className="text-muted-foreground">{status.progress?.percent}%</span>
+                            </div>
+                            <Progress value={status.progress?.percent || 0} className="h-2" />
+                            <p className="text-xs text-muted-foreground mt-1">{status.description}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -1346,9 +1442,12 @@ export default function MobileLeadManager() {
             setSelectedJobForPhotos(null);
           }}
           onPhotoAdded={handlePhotoAdded}
+          jobLabel={`${selectedJobForPhotos.firstName} ${selectedJobForPhotos.lastName}`}
         />
       )}
 
+      <OfflineSyncPanel open={showSyncPanel} onOpenChange={setShowSyncPanel} />
+
       {/* Notification List */}
       <NotificationList 
         open={showNotifications} 
@@ -1942,6 +2041,7 @@ function DepositModal({
 // Export Modal Component
 function ExportModal({ onClose, walletData }: { onClose: () => void; walletData: any }) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [amount, setAmount] = useState('');
   const [withdrawalAddress, setWithdrawalAddress] = useState('');
   const [notes, setNotes] = useState('');
@@ -1954,13 +2054,20 @@ function ExportModal({ onClose, walletData }: { onClose: () => void; walletData:
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
       });
-      return response.json();
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to process withdrawal");
+      }
+      return result;
     },
     onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wallets'] });
       onClose();
       toast({
-        title: "Withdrawal Approved!",
-        description: `Successfully processed ${data.amount} JCMOVES withdrawal. Transaction confirmed.`,
+        title: data.status === 'awaiting_approval' ? "Withdrawal Awaiting Approval" : "Withdrawal Submitted",
+        description: data.status === 'awaiting_approval'
+          ? `Large withdrawals are reviewed before sending. ${data.netAmount} JCMOVES is held until approved; if it's declined, the full amount is returned to your wallet.`
+          : `Sending ${data.netAmount} JCMOVES on-chain${data.fee ? ` (${data.fee} JCMOVES fee)` : ''}. If the transfer fails, the full amount is returned to your wallet.`,
       });
     },
     onError: (error: any) => {
@@ -1991,6 +2098,16 @@ function ExportModal({ onClose, walletData }: { onClose: () => void; walletData:
       return;
     }
     
+    const addressError = getSolanaAddressError(withdrawalAddress);
+    if (addressError) {
+      toast({
+        title: "Invalid Wallet Address",
+        description: addressError,
+        variant: "destructive",
+      });
+      return;
+    }
+    
     if (parseFloat(amount) > parseFloat(walletData?.balance || '0')) {
       toast({
         title: "Insufficient Balance",
@@ -2059,7 +2176,7 @@ function ExportModal({ onClose, walletData }: { onClose: () => void; walletData:
                   data-testid="input-withdrawal-address"
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Enter the wallet address where you want to receive the tokens
+                  Enter the Solana wallet address where you want to receive the tokens
                 </p>
               </div>
               
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { CheckCheck, Briefcase, AlertCircle, MessageSquare, Bell } from "lucide-react";
+import { CheckCheck, Briefcase, AlertCircle, MessageSquare, Bell, FileSignature } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import type { Notification } from "@shared/schema";
@@ -50,7 +50,7 @@ export function NotificationList({ open, onOpenChange }: NotificationListProps)
     }
     
     // Handle navigation based on notification type
-    if (notification.type === 'job_assigned' || notification.type === 'job_status_change') {
+    if (notification.type === 'job_assigned' || notification.type === 'job_status_change' || notification.type === 'quote_response') {
       const jobId = notification.data?.jobId;
       if (jobId) {
         // Navigate to job details or mobile lead manager
@@ -70,6 +70,8 @@ export function NotificationList({ open, onOpenChange }: NotificationListProps)
         return <MessageSquare className="h-4 w-4" />;
       case 'system_alert':
         return <AlertCircle className="h-4 w-4" />;
+      case 'quote_response':
+        return <FileSignature className="h-4 w-4" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, CheckCircle, CloudOff, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useOfflineStorage } from "@/hooks/use-offline-storage";
+import { OFFLINE_ACTION_LABELS } from "@shared/offline-sync";
+import type { OfflineAction, OfflineActionStatus } from "@/lib/offline-queue";
+
+interface OfflineSyncPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_LABELS: Record<OfflineActionStatus, string> = {
+  pending: "Waiting",
+  syncing: "Syncing",
+  failed: "Will retry",
+  conflict: "Needs attention",
+};
+
+function PhotoThumbnail({ photo }: { photo: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo]);
+
+  return url ? <img src={url} alt="Queued photo" className="h-12 w-12 rounded object-cover" /> : null;
+}
+
+// Job actions taken offline, waiting to sync. Actions the server refused stay here until retried or discarded
+export function OfflineSyncPanel({ open, onOpenChange }: OfflineSyncPanelProps) {
+  const { toast } = useToast();
+  const { isOnline, isSyncing, pendingActions, conflicts, syncPendingActions, retryAction, discardAction } = useOfflineStorage();
+
+  const handleSync = async () => {
+    const result = await syncPendingActions();
+    if (!result) return;
+    if (result.conflicts > 0) {
+      toast({
+        title: "Some actions need attention",
+        description: `${result.conflicts} action${result.conflicts !== 1 ? "s" : ""} couldn't be applied. Review them below.`,
+        variant: "destructive",
+      });
+    } else if (result.synced > 0) {
+      toast({ title: "Synced", description: `${result.synced} offline action${result.synced !== 1 ? "s" : ""} sent.` });
+    }
+  };
+
+  const renderAction = (action: OfflineAction) => (
+    <div key={action.id} className="border rounded-lg p-3 space-y-2" data-testid={`offline-action-${action.id}`}>
+      <div className="flex items-start gap-3">
+        {action.photo && <PhotoThumbnail photo={action.photo} />}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">{OFFLINE_ACTION_LABELS[action.type]}</p>
+            <Badge variant={action.status === "conflict" ? "destructive" : action.status === "failed" ? "outline" : "secondary"}>
+              {action.status === "syncing" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              {STATUS_LABELS[action.status]}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{action.jobLabel}</p>
+          <p className="text-xs text-muted-foreground">
+            Queued {formatDistanceToNow(new Date(action.createdAt), { addSuffix: true })}
+            {action.attempts > 0 && ` · ${action.attempts} attempt${action.attempts !== 1 ? "s" : ""}`}
+          </p>
+        </div>
+      </div>
+      {action.error && (
+        <p className={`text-xs flex items-start gap-1 ${action.status === "conflict" ? "text-destructive" : "text-muted-foreground"}`}>
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>
+            {action.error}
+            {action.serverStatus && ` (job is now ${action.serverStatus.replace("_", " ")})`}
+          </span>
+        </p>
+      )}
+      {action.status === "conflict" && (
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => discardAction(action.id)}
+            data-testid={`button-discard-action-${action.id}`}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Discard
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => retryAction(action.id)}
+            disabled={isSyncing}
+            data-testid={`button-retry-action-${action.id}`}
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Retry
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[80vh]">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <CloudOff className="h-5 w-5" />
+            Offline Actions
+          </SheetTitle>
+        </SheetHeader>
+
+        <div className="flex items-center justify-between gap-2 mt-4">
+          <p className="text-sm text-muted-foreground">
+            {pendingActions.length === 0
+              ? "Everything is synced."
+              : `${pendingActions.length} queued${conflicts.length > 0 ? `, ${conflicts.length} need${conflicts.length === 1 ? "s" : ""} attention` : ""}`}
+          </p>
+          <Button
+            size="sm"
+            onClick={handleSync}
+            disabled={!isOnline || isSyncing || pendingActions.length === conflicts.length}
+            data-testid="button-sync-now"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? "animate-spin" : ""}`} />
+            {isOnline ? "Sync now" : "Offline"}
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[50vh] mt-4">
+          {pendingActions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <CheckCircle className="h-10 w-10 mb-2" />
+              <p className="text-sm">No actions waiting to sync</p>
+            </div>
+          ) : (
+            <div className="space-y-3 pr-3">
+              {pendingActions.map(renderAction)}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Receipt } from "lucide-react";
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, formatInvoiceNumber, type AgingBucket } from "@shared/invoices";
+import type { Invoice } from "@shared/schema";
+
+interface OutstandingInvoice extends Invoice {
+  daysPastDue: number;
+  agingBucket: AgingBucket;
+}
+
+interface AgingSummary {
+  invoices: OutstandingInvoice[];
+  buckets: Record<AgingBucket, { count: number; balanceDue: number }>;
+  totalOutstanding: number;
+}
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: "text-green-600",
+  "1_30": "text-yellow-600",
+  "31_60": "text-orange-600",
+  "61_90": "text-red-500",
+  over_90: "text-red-700",
+};
+
+// Unpaid customer invoices grouped by how far past due they are
+export function OutstandingInvoices() {
+  const { data, isLoading } = useQuery<AgingSummary>({
+    queryKey: ["/api/invoices/outstanding"],
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Card className="p-6 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {AGING_BUCKETS.map((bucket) => (
+          <Card key={bucket} className="p-4" data-testid={`aging-bucket-${bucket}`}>
+            <div className="text-sm text-gray-500 dark:text-gray-400">{AGING_BUCKET_LABELS[bucket]}</div>
+            <div className={`text-xl font-bold ${BUCKET_COLORS[bucket]}`}>
+              ${data.buckets[bucket].balanceDue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </div>
+            <div className="text-xs text-gray-500">{data.buckets[bucket].count} invoice{data.buckets[bucket].count === 1 ? "" : "s"}</div>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Outstanding Invoices
+          <span className="ml-auto text-base" data-testid="text-total-outstanding">
+            ${data.totalOutstanding.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          </span>
+        </h3>
+        {data.invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">All invoices are paid.</p>
+        ) : (
+          <div className="space-y-2">
+            {data.invoices.map((invoice) => (
+              <Link key={invoice.id} href={`/invoices/${invoice.leadId}`} className="block">
+                <div className="flex items-center justify-between gap-3 p-3 rounded border hover:bg-gray-50 dark:hover:bg-gray-800" data-testid={`outstanding-invoice-${invoice.id}`}>
+                  <div>
+                    <div className="font-medium">{formatInvoiceNumber(invoice.invoiceNumber)} • {invoice.customerName}</div>
+                    <div className="text-xs text-gray-500">
+                      Due {new Date(invoice.dueDate).toLocaleDateString()}
+                      {invoice.daysPastDue > 0 && ` • ${invoice.daysPastDue} days past due`}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-semibold">${parseFloat(invoice.balanceDue).toFixed(2)}</div>
+                    <Badge variant="outline" className={BUCKET_COLORS[invoice.agingBucket]}>
+                      {AGING_BUCKET_LABELS[invoice.agingBucket]}
+                    </Badge>
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowDownLeft, ArrowUpRight, Loader2, Send } from "lucide-react";
+import { PEER_TRANSFER_MEMO_MAX_LENGTH, type PeerTransferOverview, type PeerTransferSummary } from "@shared/peer-transfers";
+
+// Send JCMOVES to another user by username or referral code, with recent transfers both ways
+export function PeerTransferCard() {
+  const { toast } = useToast();
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [memo, setMemo] = useState("");
+
+  const { data: overview, isLoading } = useQuery<PeerTransferOverview>({
+    queryKey: ["/api/wallets/peer-transfers"],
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/wallets/peer-transfers", {
+        recipient,
+        amount: parseFloat(amount),
+        memo: memo.trim() || undefined,
+      });
+      return (await response.json()) as PeerTransferSummary;
+    },
+    onSuccess: (transfer) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wallets/peer-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rewards/wallet"] });
+      toast({ title: "Transfer sent", description: `${parseFloat(transfer.amount).toLocaleString()} JCMOVES sent to ${transfer.counterparty.name}` });
+      setRecipient("");
+      setAmount("");
+      setMemo("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Transfer failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const limits = overview?.limits;
+  const remainingToday = limits ? Math.max(0, limits.dailyTokens - limits.sentTodayTokens) : 0;
+  const canSend = !!recipient.trim() && parseFloat(amount) > 0 && !sendMutation.isPending;
+
+  return (
+    <Card data-testid="card-peer-transfer">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Send className="h-4 w-4" />
+          Send JCMOVES
+        </CardTitle>
+        <CardDescription>
+          Send tokens from your rewards balance to another user by their username or referral code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !overview || !limits ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (canSend) sendMutation.mutate();
+              }}
+            >
+              <div className="space-y-1">
+                <Label htmlFor="peer-transfer-recipient">Recipient</Label>
+                <Input
+                  id="peer-transfer-recipient"
+                  placeholder="Username or referral code"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  data-testid="input-peer-transfer-recipient"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="peer-transfer-amount">Amount</Label>
+                <Input
+                  id="peer-transfer-amount"
+                  type="number"
+                  min={limits.minAmount}
+                  step="any"
+                  placeholder={`At least ${limits.minAmount} JCMOVES`}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  data-testid="input-peer-transfer-amount"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {parseFloat(overview.availableTokens).toFixed(2)} JCMOVES available • {remainingToday.toLocaleString()} JCMOVES and{" "}
+                  {Math.max(0, limits.dailyCount - limits.sentTodayCount)} transfers left today
+                </p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="peer-transfer-memo">Memo (optional)</Label>
+                <Input
+                  id="peer-transfer-memo"
+                  placeholder="What's it for?"
+                  maxLength={PEER_TRANSFER_MEMO_MAX_LENGTH}
+                  value={memo}
+                  onChange={(e) => setMemo(e.target.value)}
+                  data-testid="input-peer-transfer-memo"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={!canSend} data-testid="button-send-peer-transfer">
+                {sendMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                Send
+              </Button>
+            </form>
+
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium">Recent transfers</p>
+              {overview.transfers.length ? (
+                overview.transfers.map((transfer) => (
+                  <div key={transfer.id} className="flex items-start justify-between gap-2 rounded-lg border p-3" data-testid={`peer-transfer-${transfer.id}`}>
+                    <div className="flex items-start gap-2">
+                      {transfer.direction === "sent" ? (
+                        <ArrowUpRight className="mt-0.5 h-4 w-4 text-red-500" />
+                      ) : (
+                        <ArrowDownLeft className="mt-0.5 h-4 w-4 text-green-500" />
+                      )}
+                      <div>
+                        <p className="text-sm">
+                          {transfer.direction === "sent" ? "To" : "From"} {transfer.counterparty.name}
+                        </p>
+                        {transfer.memo && <p className="text-xs text-muted-foreground">"{transfer.memo}"</p>}
+                        <p className="text-xs text-muted-foreground">{new Date(transfer.createdAt).toLocaleString()}</p>
+                      </div>
+                    </div>
+                    <p className={`text-sm font-semibold ${transfer.direction === "sent" ? "text-red-600" : "text-green-600"}`}>
+                      {transfer.direction === "sent" ? "-" : "+"}
+                      {parseFloat(transfer.amount).toLocaleString(undefined, { maximumFractionDigits: 8 })}
+                    </p>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No transfers yet</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
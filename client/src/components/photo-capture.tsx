@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { uploadMedia } from "@/lib/media-upload";
 import {
   Camera,
   Upload,
@@ -23,15 +24,17 @@ import {
 } from "lucide-react";
 import { JobPhoto } from "@shared/schema";
 import { useGeolocation } from "@/hooks/use-geolocation";
+import { useOfflineStorage } from "@/hooks/use-offline-storage";
 
 interface PhotoCaptureProps {
   leadId: string;
   existingPhotos: JobPhoto[];
   onClose: () => void;
   onPhotoAdded: (photo: JobPhoto) => void;
+  jobLabel?: string; // Shown with photos queued while offline
 }
 
-export function PhotoCapture({ leadId, existingPhotos, onClose, onPhotoAdded }: PhotoCaptureProps) {
+export function PhotoCapture({ leadId, existingPhotos, onClose, onPhotoAdded, jobLabel = "Job" }: PhotoCaptureProps) {
   const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
   const [photoType, setPhotoType] = useState<JobPhoto["type"]>("before");
   const [description, setDescription] = useState("");
@@ -43,6 +46,7 @@ export function PhotoCapture({ leadId, existingPhotos, onClose, onPhotoAdded }:
   const streamRef = useRef<MediaStream | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { addOfflineAction } = useOfflineStorage();
   
   // Get current location for photo geotagging
   const { latitude, longitude } = useGeolocation({
@@ -53,9 +57,36 @@ export function PhotoCapture({ leadId, existingPhotos, onClose, onPhotoAdded }:
 
   const addPhotoMutation = useMutation({
     mutationFn: async (photoData: JobPhoto) => {
-      return apiRequest("POST", `/api/leads/${leadId}/photos`, photoData);
+      const { url, ...photoFields } = photoData;
+      const photo = await (await fetch(url)).blob();
+
+      // Without a connection the photo is kept on the device and uploaded by the sync queue
+      const queuePhoto = async () => {
+        await addOfflineAction({ type: "add_photo", leadId, jobLabel, data: photoFields, photo });
+        return { queued: true };
+      };
+
+      if (!navigator.onLine) return queuePhoto();
+      try {
+        // The photo goes straight to the media store, then the job records it by asset id
+        const media = await uploadMedia(photo, "job_photo");
+        const response = await apiRequest("POST", `/api/leads/${leadId}/photos`, { ...photoFields, mediaAssetId: media.id });
+        return response.json();
+      } catch (error) {
+        // fetch throws a TypeError when the request never reached the server
+        if (error instanceof TypeError) return queuePhoto();
+        throw error;
+      }
     },
     onSuccess: (response: any) => {
+      if (response?.queued) {
+        toast({
+          title: "Photo saved offline",
+          description: "It will be uploaded when you're back online.",
+        });
+        resetForm();
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/leads/my-jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/leads/available"] });
       // Use the actual photo data from server response
@@ -204,7 +235,7 @@ export function PhotoCapture({ leadId, existingPhotos, onClose, onPhotoAdded }:
             {existingPhotos.map((photo) => (
               <div key={photo.id} className="relative">
                 <img
-                  src={photo.url}
+                  src={photo.thumbnailUrl || photo.url}
                   alt={photo.description || `${photo.type} photo`}
                   className="w-full h-20 object-cover rounded-lg cursor-pointer"
                   onClick={() => setSelectedPhotoForView(photo)}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, Gauge, Loader2, Pin, X } from "lucide-react";
+import {
+  PRICE_SOURCE_LABELS,
+  type PriceOracleErrorCode,
+  type PriceQuote,
+  type PriceSnapshot,
+  type PriceSourceName,
+} from "@shared/price-oracle";
+
+interface PriceOracleStatus {
+  snapshot: PriceSnapshot | null;
+  lastError: { code: PriceOracleErrorCode; message: string; at: string } | null;
+  override: { id: string; priceUsd: string; reason: string; setBy: string; expiresAt: string; createdAt: string } | null;
+  sources: PriceSourceName[];
+  maxStalenessMs: number;
+  outlierTolerancePercent: number;
+}
+
+const QUOTE_STATUS_VARIANTS: Record<PriceQuote["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  accepted: "default",
+  outlier: "destructive",
+  stale: "secondary",
+  failed: "outline",
+};
+
+const formatPrice = (price: number | string) => `$${Number(price).toFixed(10)}`;
+
+// JCMOVES price sources, the aggregated price rewards are paid at, and the manual override
+export function PriceOraclePanel() {
+  const { toast } = useToast();
+  const [priceUsd, setPriceUsd] = useState("");
+  const [reason, setReason] = useState("");
+  const [expiresInMinutes, setExpiresInMinutes] = useState("60");
+
+  const { data: status, isLoading } = useQuery<PriceOracleStatus>({
+    queryKey: ["/api/price-oracle/status"],
+    refetchInterval: 30000,
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/price-oracle/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/treasury/summary"] });
+    toast({ title });
+  };
+
+  const overrideMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/price-oracle/override", {
+        priceUsd: parseFloat(priceUsd),
+        reason,
+        expiresInMinutes: parseInt(expiresInMinutes),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setPriceUsd("");
+      setReason("");
+      onSuccess("Price override set")();
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't set override", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/price-oracle/override");
+      return response.json();
+    },
+    onSuccess: onSuccess("Price override cleared"),
+    onError: (error: any) => {
+      toast({ title: "Couldn't clear override", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const snapshot = status?.snapshot;
+  const override = status?.override;
+  const isStale = !!snapshot && Date.now() - new Date(snapshot.observedAt).getTime() > (status?.maxStalenessMs ?? 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Price Oracle
+        </CardTitle>
+        <CardDescription>
+          Rewards, conversions and invoice payments use the median of the sources below, ignoring quotes more than {status?.outlierTolerancePercent ?? "—"}% away from it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !status ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Market price</div>
+                <div className="text-xl font-bold" data-testid="text-oracle-price">{snapshot ? formatPrice(snapshot.priceUsd) : "Unavailable"}</div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {snapshot && `Observed ${new Date(snapshot.observedAt).toLocaleString()}`}
+                  {isStale && <Badge variant="destructive">Too old for payouts</Badge>}
+                </div>
+              </div>
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Override</div>
+                {override ? (
+                  <>
+                    <div className="text-xl font-bold" data-testid="text-oracle-override">{formatPrice(override.priceUsd)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Until {new Date(override.expiresAt).toLocaleString()} • {override.reason}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xl font-bold">None</div>
+                )}
+              </div>
+            </div>
+
+            {status.lastError && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {status.lastError.message} ({new Date(status.lastError.at).toLocaleTimeString()})
+              </p>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="grid grid-cols-4 gap-2 border-b pb-1 font-medium">
+                <span>Source</span>
+                <span className="text-right">Price</span>
+                <span className="text-right">Observed</span>
+                <span className="text-right">Status</span>
+              </div>
+              {(snapshot?.quotes || []).map((quote) => (
+                <div key={quote.source} className="grid grid-cols-4 gap-2 border-b py-1 last:border-0" data-testid={`oracle-quote-${quote.source}`}>
+                  <span>{PRICE_SOURCE_LABELS[quote.source]}</span>
+                  <span className="text-right">{quote.priceUsd !== null ? formatPrice(quote.priceUsd) : "—"}</span>
+                  <span className="text-right">{quote.observedAt ? new Date(quote.observedAt).toLocaleTimeString() : "—"}</span>
+                  <span className="text-right">
+                    <Badge variant={QUOTE_STATUS_VARIANTS[quote.status]} title={quote.error}>{quote.status}</Badge>
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {override ? (
+              <Button variant="outline" onClick={() => clearMutation.mutate()} disabled={clearMutation.isPending} data-testid="button-clear-override">
+                {clearMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />}
+                Clear override
+              </Button>
+            ) : (
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="Price (USD)"
+                  value={priceUsd}
+                  onChange={(e) => setPriceUsd(e.target.value)}
+                  className="sm:w-44"
+                  data-testid="input-override-price"
+                />
+                <Input
+                  type="number"
+                  min="5"
+                  max="4320"
+                  placeholder="Minutes"
+                  value={expiresInMinutes}
+                  onChange={(e) => setExpiresInMinutes(e.target.value)}
+                  className="sm:w-28"
+                  data-testid="input-override-minutes"
+                />
+                <Input
+                  placeholder="Reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={500}
+                  data-testid="input-override-reason"
+                />
+                <Button
+                  onClick={() => overrideMutation.mutate()}
+                  disabled={!priceUsd || !reason.trim() || overrideMutation.isPending}
+                  data-testid="button-set-override"
+                >
+                  {overrideMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Pin className="mr-2 h-4 w-4" />}
+                  Override
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
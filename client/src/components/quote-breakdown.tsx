@@ -0,0 +1,41 @@
+import { Separator } from "@/components/ui/separator";
+import type { QuoteBreakdown } from "@shared/pricing";
+
+interface QuoteBreakdownSummaryProps {
+  breakdown: QuoteBreakdown;
+  totalLabel?: string;
+}
+
+// Itemized price list produced by the pricing engine
+export function QuoteBreakdownSummary({ breakdown, totalLabel = "Total Price" }: QuoteBreakdownSummaryProps) {
+  return (
+    <div className="bg-primary/5 dark:bg-primary/10 p-4 rounded-lg space-y-2" data-testid="quote-breakdown">
+      {breakdown.lineItems.map((line, index) => (
+        <div key={`${line.category}-${index}`} className="flex justify-between gap-4 text-sm" data-testid={`quote-line-${line.category}-${index}`}>
+          <div>
+            <span>{line.label}</span>
+            {line.detail && (
+              <span className="block text-xs text-muted-foreground">{line.detail}</span>
+            )}
+          </div>
+          <span className={`font-semibold whitespace-nowrap ${line.amount < 0 ? "text-green-600" : ""}`}>
+            {line.amount < 0 ? "-" : ""}${Math.abs(line.amount).toFixed(2)}
+          </span>
+        </div>
+      ))}
+      <Separator />
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>Base Price:</span>
+        <span data-testid="text-summary-base-price">${breakdown.basePrice.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>Special Items:</span>
+        <span data-testid="text-summary-special-items-fee">${breakdown.specialItemsTotal.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between text-lg font-bold">
+        <span>{totalLabel}:</span>
+        <span className="text-primary" data-testid="text-summary-total-price">${breakdown.total.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
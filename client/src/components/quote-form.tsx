@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { insertLeadSchema, type InsertLead } from "@shared/schema";
+import type { QuoteBreakdown } from "@shared/pricing";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -11,12 +12,20 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { Home, Building, Trash2, Send } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { QuoteBreakdownSummary } from "@/components/quote-breakdown";
+import { Home, Building, Trash2, Send, Calculator } from "lucide-react";
 
 export default function QuoteForm() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedService, setSelectedService] = useState<string>("");
+  const [selectedSpecialItems, setSelectedSpecialItems] = useState<string[]>([]);
+  const [estimate, setEstimate] = useState<QuoteBreakdown | null>(null);
+
+  const { data: specialItemTypes = [] } = useQuery<{ type: string; label: string }[]>({
+    queryKey: ["/api/pricing/special-items"],
+  });
 
   const form = useForm<InsertLead>({
     resolver: zodResolver(insertLeadSchema),
@@ -31,9 +40,45 @@ export default function QuoteForm() {
       moveDate: "",
       propertySize: "",
       details: "",
+      stairsFlights: 0,
+      hasElevator: false,
     },
   });
 
+  const getEstimate = useMutation({
+    mutationFn: async () => {
+      const values = form.getValues();
+      const response = await apiRequest("POST", "/api/pricing/estimate", {
+        fromAddress: values.fromAddress,
+        toAddress: values.toAddress || null,
+        propertySize: values.propertySize || null,
+        moveDate: values.moveDate || null,
+        stairsFlights: values.stairsFlights || 0,
+        hasElevator: !!values.hasElevator,
+        truckConfig: values.serviceType === "junk" ? "company_truck" : null,
+        specialItems: selectedSpecialItems.map((type) => ({ type, quantity: 1 })),
+      });
+      return response.json() as Promise<QuoteBreakdown>;
+    },
+    onSuccess: (breakdown) => {
+      setEstimate(breakdown);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Estimate unavailable",
+        description: error.message.startsWith("429:")
+          ? "Too many estimates requested. Please try again in a minute."
+          : "Enter at least your current address to get an instant estimate.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSpecialItem = (type: string) => {
+    setSelectedSpecialItems(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+    setEstimate(null);
+  };
+
   const submitLead = useMutation({
     mutationFn: async (data: InsertLead) => {
       const response = await apiRequest("POST", "/api/leads", data);
@@ -46,6 +91,8 @@ export default function QuoteForm() {
       });
       form.reset();
       setSelectedService("");
+      setSelectedSpecialItems([]);
+      setEstimate(null);
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
     },
     onError: (error: Error) => {
@@ -61,7 +108,10 @@ export default function QuoteForm() {
   });
 
   const onSubmit = (data: InsertLead) => {
-    submitLead.mutate(data);
+    submitLead.mutate({
+      ...data,
+      specialItems: selectedSpecialItems.map((type) => ({ type, quantity: 1 })),
+    });
   };
 
   const serviceOptions = [
@@ -219,6 +269,48 @@ export default function QuoteForm() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <Label htmlFor="stairsFlights">Flights of Stairs</Label>
+                  <Input
+                    id="stairsFlights"
+                    type="number"
+                    min="0"
+                    placeholder="0"
+                    {...form.register("stairsFlights", { setValueAs: (value) => (value === "" ? 0 : parseInt(value) || 0) })}
+                    data-testid="input-stairs-flights"
+                  />
+                </div>
+                <div className="flex items-center gap-2 md:mt-6">
+                  <Checkbox
+                    id="hasElevator"
+                    checked={!!form.watch("hasElevator")}
+                    onCheckedChange={(checked) => form.setValue("hasElevator", checked as boolean)}
+                    data-testid="checkbox-elevator"
+                  />
+                  <Label htmlFor="hasElevator" className="cursor-pointer">Elevator access</Label>
+                </div>
+              </div>
+
+              {specialItemTypes.length > 0 && (
+                <div>
+                  <Label className="block mb-3">Special Items</Label>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {specialItemTypes.map((item) => (
+                      <div key={item.type} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`special-item-${item.type}`}
+                          checked={selectedSpecialItems.includes(item.type)}
+                          onCheckedChange={() => toggleSpecialItem(item.type)}
+                          data-testid={`checkbox-special-item-${item.type}`}
+                        />
+                        <Label htmlFor={`special-item-${item.type}`} className="cursor-pointer font-normal">{item.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <Label htmlFor="details">Additional Details</Label>
                 <Textarea
@@ -230,6 +322,29 @@ export default function QuoteForm() {
                 />
               </div>
 
+              {/* Instant Estimate */}
+              <div className="space-y-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => getEstimate.mutate()}
+                  disabled={getEstimate.isPending}
+                  data-testid="button-instant-estimate"
+                >
+                  <Calculator className="mr-2 h-4 w-4" />
+                  {getEstimate.isPending ? "Calculating..." : "Get Instant Estimate"}
+                </Button>
+                {estimate && (
+                  <div data-testid="instant-estimate">
+                    <QuoteBreakdownSummary breakdown={estimate} totalLabel="Estimated Total" />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      This is an estimate only. Your final quote is confirmed after we review your move.
+                    </p>
+                  </div>
+                )}
+              </div>
+
               <Button
                 type="submit"
                 className="w-full bg-primary hover:bg-primary/90 text-primary-foreground px-8 py-4 text-lg font-semibold"
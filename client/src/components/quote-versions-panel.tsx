@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Send, FileSignature } from "lucide-react";
+import type { Lead, QuoteVersion } from "@shared/schema";
+
+interface QuoteVersionsPanelProps {
+  lead: Lead;
+}
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  sent: { label: "Sent", className: "border-blue-500 text-blue-600" },
+  viewed: { label: "Viewed", className: "border-purple-500 text-purple-600" },
+  accepted: { label: "Accepted", className: "border-green-500 text-green-600" },
+  declined: { label: "Declined", className: "border-red-500 text-red-600" },
+  superseded: { label: "Superseded", className: "border-gray-400 text-gray-500" },
+};
+
+// Quote versions emailed to the customer and their responses
+export function QuoteVersionsPanel({ lead }: QuoteVersionsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const hasSavedQuote = !!lead.quoteBreakdown;
+
+  const { data: versions = [] } = useQuery<Omit<QuoteVersion, "accessTokenHash">[]>({
+    queryKey: ["/api/leads", lead.id, "quote-versions"],
+  });
+
+  const sendQuote = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${lead.id}/quote/send`);
+      return response.json();
+    },
+    onSuccess: (data: { version: QuoteVersion; emailSent: boolean }) => {
+      toast({
+        title: data.emailSent ? "Quote sent!" : "Quote saved but email failed",
+        description: data.emailSent
+          ? `Version ${data.version.versionNumber} was emailed to ${lead.email}.`
+          : "The customer wasn't emailed. Check the email service and send again.",
+        variant: data.emailSent ? undefined : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads", lead.id, "quote-versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send quote. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3" data-testid="quote-versions-panel">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold flex items-center gap-2">
+          <FileSignature className="h-4 w-4" />
+          Customer Quote
+        </h4>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => sendQuote.mutate()}
+          disabled={!hasSavedQuote || sendQuote.isPending}
+          data-testid="button-send-quote"
+        >
+          <Send className="h-4 w-4 mr-1" />
+          {sendQuote.isPending ? "Sending..." : versions.length > 0 ? "Send Revised Quote" : "Email Quote"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {hasSavedQuote
+          ? "Sends the last saved quote. Save first to include unsaved changes."
+          : "Save the quote before emailing it to the customer."}
+      </p>
+
+      {versions.map((version) => {
+        const badge = STATUS_BADGES[version.status] || STATUS_BADGES.sent;
+        return (
+          <div key={version.id} className="border rounded-lg p-3 text-sm space-y-1" data-testid={`quote-version-${version.versionNumber}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Version {version.versionNumber} • ${parseFloat(version.totalPrice).toFixed(2)}</span>
+              <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Sent {new Date(version.createdAt).toLocaleString()} to {version.sentToEmail}
+              {version.viewedAt && ` • Viewed ${new Date(version.viewedAt).toLocaleString()}`}
+            </p>
+            {version.status === "accepted" && (
+              <p className="text-xs">
+                Signed by <span className="font-serif italic">{version.signatureName}</span> on {version.respondedAt && new Date(version.respondedAt).toLocaleString()}
+              </p>
+            )}
+            {version.status === "declined" && (
+              <p className="text-xs">
+                Declined {version.respondedAt && new Date(version.respondedAt).toLocaleString()}
+                {version.declineReason && `: "${version.declineReason}"`}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
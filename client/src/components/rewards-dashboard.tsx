@@ -30,6 +30,11 @@ import {
   ChevronRight
 } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { CashoutPanel } from '@/components/cashout-panel';
+import { VestingGrantsCard } from '@/components/vesting-grants-card';
+import { WeeklyLeaderboardCard } from '@/components/weekly-leaderboard-card';
+import type { VestingBalance } from '@shared/vesting';
+import type { MiningBoostStatus } from '@shared/mining-boosts';
 import { LineChart, Line, ResponsiveContainer } from 'recharts';
 
 interface WalletAccount {
@@ -79,7 +84,6 @@ interface MiningStatus {
   accumulatedTokens: string;
   timeRemaining: number;
   totalClaimedToday: string;
-  miningSpeed: string;
   streakCount: number;
   nextStreakBonus: string;
 }
@@ -99,6 +103,11 @@ export default function RewardsDashboard() {
     queryKey: ['/api/rewards/wallet'],
   });
 
+  // Fetch locked and available balances
+  const { data: vesting } = useQuery<VestingBalance>({
+    queryKey: ['/api/rewards/vesting'],
+  });
+
   // Fetch rewards history
   const { data: rewardsHistory } = useQuery<RewardHistory[]>({
     queryKey: ['/api/rewards/history'],
@@ -125,6 +134,11 @@ export default function RewardsDashboard() {
     refetchInterval: 5000,
   });
 
+  const { data: boostStatus } = useQuery<MiningBoostStatus>({
+    queryKey: ["/api/mining/boosts"],
+    refetchInterval: 60000,
+  });
+
   // Start mining mutation
   const startMiningMutation = useMutation({
     mutationFn: async () => {
@@ -153,6 +167,7 @@ export default function RewardsDashboard() {
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/mining/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mining/boosts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/rewards/wallet"] });
       
       const streakInfo = data.streakCount > 0 
@@ -216,14 +231,13 @@ export default function RewardsDashboard() {
       const lastClaim = new Date(miningStatus.currentSession.lastClaimTime).getTime();
       const secondsElapsed = Math.floor((now - lastClaim) / 1000);
       
-      const miningSpeed = parseFloat(miningStatus.miningSpeed || "1.00");
       const tokensPerSecond = 0.02; // 2x increase: 0.02 JCMOVES/second = 1728/day
-      const tokensEarned = secondsElapsed * tokensPerSecond * miningSpeed;
+      const tokensEarned = secondsElapsed * tokensPerSecond;
       
       const previousAccumulated = parseFloat(miningStatus.currentSession.accumulatedTokens || "0");
       const totalAccumulated = previousAccumulated + tokensEarned;
       
-      const maxTokens = 1728 * miningSpeed; // 2x increase from 864
+      const maxTokens = 1728; // 2x increase from 864
       const cappedTokens = Math.min(totalAccumulated, maxTokens);
       
       setAccumulatedTokens(cappedTokens.toFixed(8));
@@ -418,6 +432,12 @@ export default function RewardsDashboard() {
               Portfolio Value: <span className="font-semibold text-foreground ml-1">${(tokenBalance * (tokenInfo?.price || 0)).toFixed(2)}</span>
               <ChevronRight className="h-3 w-3 ml-1" />
             </p>
+            {vesting && parseFloat(vesting.lockedTokens) > 0 && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="locked-balance">
+                Available: <span className="font-semibold text-foreground">{parseFloat(vesting.availableTokens).toFixed(2)}</span>
+                {' • '}Locked: <span className="font-semibold text-foreground">{parseFloat(vesting.lockedTokens).toFixed(2)}</span>
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -446,7 +466,7 @@ export default function RewardsDashboard() {
 
       {/* Main Tabs */}
       <Tabs defaultValue="mining" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="mining" data-testid="tab-mining">
             <Zap className="h-4 w-4 mr-2" />
             Mining
@@ -455,10 +475,18 @@ export default function RewardsDashboard() {
             <Users className="h-4 w-4 mr-2" />
             Referrals
           </TabsTrigger>
+          <TabsTrigger value="leaderboard" data-testid="tab-leaderboard">
+            <Award className="h-4 w-4 mr-2" />
+            Leaderboard
+          </TabsTrigger>
           <TabsTrigger value="history" data-testid="tab-history">
             <Clock className="h-4 w-4 mr-2" />
             History
           </TabsTrigger>
+          <TabsTrigger value="cashout" data-testid="tab-cashout">
+            <Wallet className="h-4 w-4 mr-2" />
+            Cash Out
+          </TabsTrigger>
         </TabsList>
 
         {/* Mining Tab */}
@@ -526,7 +554,7 @@ export default function RewardsDashboard() {
                         <div className="text-right">
                           <p className="text-xs opacity-90">Speed</p>
                           <p className="text-2xl font-bold" data-testid="text-mining-speed">
-                            {parseFloat(miningStatus.miningSpeed || "1.00").toFixed(0)}X
+                            {boostStatus?.multiplier ?? 1}X
                           </p>
                         </div>
                       </div>
@@ -839,8 +867,15 @@ export default function RewardsDashboard() {
           </div>
         </TabsContent>
 
+        {/* Weekly Leaderboard Tab */}
+        <TabsContent value="leaderboard" className="space-y-4">
+          <WeeklyLeaderboardCard />
+        </TabsContent>
+
         {/* Rewards History Tab */}
         <TabsContent value="history" className="space-y-4">
+          {vesting && <VestingGrantsCard vesting={vesting} />}
+
           <Card>
             <CardHeader>
               <CardTitle>Recent Rewards</CardTitle>
@@ -883,6 +918,11 @@ export default function RewardsDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Cash Out Tab */}
+        <TabsContent value="cashout" className="space-y-4">
+          <CashoutPanel />
+        </TabsContent>
       </Tabs>
 
       {/* Wallet Details Modal */}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { getCurrentPosition } from "@/hooks/use-geolocation";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Clock, Coffee, Loader2, LogIn, LogOut, MapPin } from "lucide-react";
+import { formatMinutesAsHours, getWorkedMinutes, isOnBreak, type TimeEntryBreak } from "@shared/time-clock";
+
+interface CurrentTimeEntry {
+  id: string;
+  leadId: string;
+  customerName: string;
+  clockInAt: string;
+  clockOutAt: string | null;
+  breaks: TimeEntryBreak[];
+  isOnTime: boolean | null;
+  clockInDistanceMeters: number | null;
+}
+
+interface TodayJob {
+  id: string;
+  customerName: string;
+  status: string;
+  fromAddress: string;
+  start: string;
+  isEstimated: boolean;
+  crew: { id: string; name: string }[];
+}
+
+const CLOCKABLE_STATUSES = ["confirmed", "accepted", "in_progress"];
+
+// "500: {"error":"..."}" from apiRequest, reduced to the server's message
+const getErrorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+};
+
+function useTimeClock() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ entry: CurrentTimeEntry | null }>({
+    queryKey: ["/api/time-clock/current"],
+    refetchInterval: 60000,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/time-clock/current"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getErrorMessage(error), variant: "destructive" });
+  };
+
+  const clockIn = useMutation({
+    mutationFn: async (leadId: string) => {
+      const location = await getCurrentPosition();
+      const response = await apiRequest("POST", "/api/time-clock/clock-in", { leadId, location });
+      return response.json();
+    },
+    onSuccess: (entry: { isOnTime: boolean | null }) => {
+      onChanged();
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({
+        title: "Clocked in",
+        description: entry.isOnTime === false ? "You clocked in after the scheduled start." : "Have a great job!",
+      });
+    },
+    onError: onError("Couldn't clock in"),
+  });
+
+  const clockOut = useMutation({
+    mutationFn: async () => {
+      const location = await getCurrentPosition();
+      const response = await apiRequest("POST", "/api/time-clock/clock-out", { location });
+      return response.json();
+    },
+    onSuccess: (entry: { workedMinutes: number | null; locationVerified: boolean }) => {
+      onChanged();
+      toast({
+        title: "Clocked out",
+        description: `${formatMinutesAsHours(entry.workedMinutes || 0)} hours recorded${entry.locationVerified ? "" : ". Your location couldn't be verified, so an admin will review the times."}`,
+      });
+    },
+    onError: onError("Couldn't clock out"),
+  });
+
+  const toggleBreak = useMutation({
+    mutationFn: async (action: "start" | "end") => {
+      const response = await apiRequest("POST", `/api/time-clock/break/${action}`);
+      return response.json();
+    },
+    onSuccess: onChanged,
+    onError: onError("Couldn't update break"),
+  });
+
+  return { entry: data?.entry ?? null, isLoading, clockIn, clockOut, toggleBreak };
+}
+
+// Ticks every minute so running totals stay current
+function useNow() {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+/**
+ * Clock in/out for one job, for job cards in the job manager
+ */
+export function ClockInButton({ leadId }: { leadId: string }) {
+  const { entry, clockIn, clockOut } = useTimeClock();
+  const isOnThisJob = entry?.leadId === leadId;
+
+  if (entry && !isOnThisJob) {
+    return null;
+  }
+
+  return isOnThisJob ? (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => clockOut.mutate()}
+      disabled={clockOut.isPending}
+      data-testid={`button-clock-out-${leadId}`}
+    >
+      {clockOut.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <LogOut className="h-4 w-4 mr-1" />}
+      Clock Out
+    </Button>
+  ) : (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => clockIn.mutate(leadId)}
+      disabled={clockIn.isPending}
+      data-testid={`button-clock-in-${leadId}`}
+    >
+      {clockIn.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <LogIn className="h-4 w-4 mr-1" />}
+      Clock In
+    </Button>
+  );
+}
+
+/**
+ * Today's time clock: clock in on one of today's jobs, take breaks and clock out
+ */
+export function TimeClockCard() {
+  const { user } = useAuth();
+  const now = useNow();
+  const { entry, isLoading, clockIn, clockOut, toggleBreak } = useTimeClock();
+
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const todayEnd = new Date(todayStart);
+  todayEnd.setDate(todayEnd.getDate() + 1);
+
+  const { data: calendar } = useQuery<{ jobs: TodayJob[] }>({
+    queryKey: ["/api/schedule/calendar", todayStart.toISOString(), "time-clock"],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: todayStart.toISOString(), to: todayEnd.toISOString() });
+      const response = await fetch(`/api/schedule/calendar?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch today's jobs");
+      }
+      return response.json();
+    },
+    enabled: !entry,
+  });
+
+  const todaysJobs = (calendar?.jobs || []).filter((job) =>
+    CLOCKABLE_STATUSES.includes(job.status) && job.crew.some((member) => member.id === user?.id));
+  const onBreak = entry ? isOnBreak(entry.breaks) : false;
+
+  return (
+    <Card data-testid="card-time-clock">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Time Clock
+        </CardTitle>
+        <CardDescription>Clock in when you arrive at the job. Your location is checked against the job address.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : entry ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="font-medium">{entry.customerName}</p>
+                <p className="text-sm text-muted-foreground">
+                  Clocked in at {new Date(entry.clockInAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                  {entry.isOnTime === false && " (late)"}
+                </p>
+              </div>
+              <div className="text-right">
+                <div className="text-2xl font-bold" data-testid="text-worked-hours">
+                  {formatMinutesAsHours(getWorkedMinutes(entry, now))}h
+                </div>
+                {onBreak && <Badge variant="secondary">On break</Badge>}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => toggleBreak.mutate(onBreak ? "end" : "start")}
+                disabled={toggleBreak.isPending}
+                data-testid="button-toggle-break"
+              >
+                <Coffee className="h-4 w-4 mr-1" />
+                {onBreak ? "End Break" : "Start Break"}
+              </Button>
+              <Button onClick={() => clockOut.mutate()} disabled={clockOut.isPending} data-testid="button-clock-out">
+                {clockOut.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <LogOut className="h-4 w-4 mr-1" />}
+                Clock Out
+              </Button>
+            </div>
+          </div>
+        ) : todaysJobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No jobs on your schedule today.</p>
+        ) : (
+          <div className="space-y-3">
+            {todaysJobs.map((job) => (
+              <div key={job.id} className="flex items-center justify-between gap-3 border rounded-lg p-3" data-testid={`time-clock-job-${job.id}`}>
+                <div className="min-w-0">
+                  <p className="font-medium">{job.customerName}</p>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1 truncate">
+                    <MapPin className="h-3 w-3 shrink-0" />
+                    {job.fromAddress}
+                  </p>
+                  {!job.isEstimated && (
+                    <p className="text-xs text-muted-foreground">
+                      Starts {new Date(job.start).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  onClick={() => clockIn.mutate(job.id)}
+                  disabled={clockIn.isPending}
+                  data-testid={`button-clock-in-${job.id}`}
+                >
+                  {clockIn.isPending && clockIn.variables === job.id
+                    ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    : <LogIn className="h-4 w-4 mr-1" />}
+                  Clock In
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
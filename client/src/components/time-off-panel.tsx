@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarOff, Check, X } from "lucide-react";
+import type { EmployeeTimeOff } from "@shared/schema";
+
+interface TimeOffPanelProps {
+  isManager: boolean;
+}
+
+type TimeOffRequest = EmployeeTimeOff & { employeeName?: string };
+
+const STATUS_BADGES: Record<string, string> = {
+  pending: "border-yellow-500 text-yellow-600",
+  approved: "border-green-500 text-green-600",
+  denied: "border-red-500 text-red-600",
+  cancelled: "border-gray-400 text-gray-500",
+};
+
+// Employees request time off here; managers approve or deny everyone's requests
+export function TimeOffPanel({ isManager }: TimeOffPanelProps) {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: requests = [] } = useQuery<TimeOffRequest[]>({
+    queryKey: ["/api/schedule/time-off"],
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/time-off"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/calendar"] });
+  };
+
+  const requestTimeOff = useMutation({
+    mutationFn: async () => {
+      // Whole days: from the start of the first day to the end of the last
+      const response = await apiRequest("POST", "/api/schedule/time-off", {
+        startDate: new Date(`${startDate}T00:00`).toISOString(),
+        endDate: new Date(`${endDate}T23:59:59`).toISOString(),
+        reason: reason || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      onChanged();
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      toast({ title: "Time off requested", description: "A manager will review your request." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't request time off", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "approved" | "denied" | "cancelled" }) => {
+      const response = await apiRequest("PATCH", `/api/schedule/time-off/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: onChanged,
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-time-off">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5" />
+          Time Off
+        </CardTitle>
+        <CardDescription>
+          {isManager ? "Approved time off blocks employees from accepting overlapping jobs" : "Request days off. Once approved you won't be able to accept jobs on those days."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <Label htmlFor="timeOffStart">First day</Label>
+            <Input id="timeOffStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-time-off-start" />
+          </div>
+          <div>
+            <Label htmlFor="timeOffEnd">Last day</Label>
+            <Input id="timeOffEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} data-testid="input-time-off-end" />
+          </div>
+          <div>
+            <Label htmlFor="timeOffReason">Reason</Label>
+            <Input id="timeOffReason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Optional" data-testid="input-time-off-reason" />
+          </div>
+        </div>
+        <Button
+          onClick={() => requestTimeOff.mutate()}
+          disabled={!startDate || !endDate || endDate < startDate || requestTimeOff.isPending}
+          data-testid="button-request-time-off"
+        >
+          {requestTimeOff.isPending ? "Requesting..." : "Request Time Off"}
+        </Button>
+
+        <div className="space-y-2">
+          {requests.length === 0 && <p className="text-sm text-muted-foreground">No time off requests.</p>}
+          {requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between gap-3 border rounded-lg p-3 text-sm" data-testid={`time-off-${request.id}`}>
+              <div>
+                {request.employeeName && <p className="font-medium">{request.employeeName}</p>}
+                <p>
+                  {new Date(request.startDate).toLocaleDateString()} - {new Date(request.endDate).toLocaleDateString()}
+                  {request.reason && <span className="text-muted-foreground"> • {request.reason}</span>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={STATUS_BADGES[request.status]}>{request.status}</Badge>
+                {isManager && request.status === "pending" && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => updateStatus.mutate({ id: request.id, status: "approved" })} data-testid={`button-approve-time-off-${request.id}`}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => updateStatus.mutate({ id: request.id, status: "denied" })} data-testid={`button-deny-time-off-${request.id}`}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                {!isManager && (request.status === "pending" || request.status === "approved") && (
+                  <Button size="sm" variant="ghost" onClick={() => updateStatus.mutate({ id: request.id, status: "cancelled" })} data-testid={`button-cancel-time-off-${request.id}`}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BookOpen, Download, Loader2, Lock } from "lucide-react";
+import {
+  DISTRIBUTION_CATEGORY_LABELS,
+  formatCents,
+  TREASURY_EXPORT_FORMAT_LABELS,
+  TREASURY_EXPORT_FORMATS,
+  type TreasuryPeriodSummary,
+  type TreasuryPeriodType,
+} from "@shared/treasury-accounting";
+
+interface TreasuryPeriodListing {
+  type: TreasuryPeriodType;
+  key: string;
+  start: string;
+  end: string;
+  status: "open" | "closed";
+  canClose: boolean;
+  closedAt: string | null;
+  closedBy: string | null;
+}
+
+const formatTokens = (amount: string) => parseFloat(amount).toLocaleString(undefined, { maximumFractionDigits: 4 });
+const formatUsd = (cents: number) => `${cents < 0 ? "-" : ""}$${Math.abs(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Monthly and quarterly treasury close with bookkeeping exports
+export function TreasuryAccountingPanel() {
+  const { toast } = useToast();
+  const [periodType, setPeriodType] = useState<TreasuryPeriodType>("month");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const { data: periods = [], isLoading } = useQuery<TreasuryPeriodListing[]>({
+    queryKey: [`/api/treasury/periods?type=${periodType}`],
+  });
+  const periodKey = selectedKey && periods.some((period) => period.key === selectedKey) ? selectedKey : periods[0]?.key;
+  const selected = periods.find((period) => period.key === periodKey);
+
+  const { data: summary, isLoading: summaryLoading } = useQuery<TreasuryPeriodSummary>({
+    queryKey: ["/api/treasury/periods", periodType, periodKey],
+    enabled: !!periodKey,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/treasury/periods/${periodType}/${periodKey}/close`, notes.trim() ? { notes } : {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/treasury/periods"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/treasury/periods?type=${periodType}`] });
+      setNotes("");
+      toast({ title: `${periodKey} closed`, description: "Reserve activity in this period is now locked" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't close period", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Period Close
+        </CardTitle>
+        <CardDescription>
+          Reserve movements by month or quarter, valued at the JCMOVES price when paid out and at average cost. Closing a period locks its reserve activity
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Select value={periodType} onValueChange={(value) => { setPeriodType(value as TreasuryPeriodType); setSelectedKey(null); }}>
+            <SelectTrigger className="sm:w-40" data-testid="select-period-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">Monthly</SelectItem>
+              <SelectItem value="quarter">Quarterly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={periodKey} onValueChange={setSelectedKey} disabled={isLoading}>
+            <SelectTrigger className="sm:w-56" data-testid="select-period">
+              <SelectValue placeholder="Select a period" />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((period) => (
+                <SelectItem key={period.key} value={period.key}>
+                  {period.key}{period.status === "closed" ? " (closed)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {summaryLoading || !summary ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Reserve</div>
+                <div className="text-xl font-bold" data-testid="text-period-closing-reserve">{formatTokens(summary.closingReserve)}</div>
+                <div className="text-xs text-muted-foreground">Opened at {formatTokens(summary.openingReserve)} JCMOVES</div>
+              </div>
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Deposits</div>
+                <div className="text-xl font-bold">{formatUsd(summary.deposits.costCents)}</div>
+                <div className="text-xs text-muted-foreground">{summary.deposits.count} deposits • {formatTokens(summary.deposits.tokens)} JCMOVES</div>
+              </div>
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Distributions</div>
+                <div className="text-xl font-bold">{formatUsd(summary.distributions.valueCents)}</div>
+                <div className="text-xs text-muted-foreground">
+                  Cost basis {formatUsd(summary.distributions.costBasisCents)} • realized {formatUsd(summary.distributions.gainLossCents)}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="grid grid-cols-5 gap-2 border-b pb-1 font-medium">
+                <span className="col-span-2">Category</span>
+                <span className="text-right">Tokens</span>
+                <span className="text-right">Value</span>
+                <span className="text-right">Cost Basis</span>
+              </div>
+              {summary.byCategory.length === 0 ? (
+                <p className="py-2 text-muted-foreground">No distributions in this period.</p>
+              ) : (
+                summary.byCategory.map((totals) => (
+                  <div key={totals.category} className="grid grid-cols-5 gap-2 border-b py-1 last:border-0" data-testid={`period-category-${totals.category}`}>
+                    <span className="col-span-2">{DISTRIBUTION_CATEGORY_LABELS[totals.category]} <span className="text-xs text-muted-foreground">({totals.count})</span></span>
+                    <span className="text-right">{formatTokens(totals.tokens)}</span>
+                    <span className="text-right">{formatUsd(totals.valueCents)}</span>
+                    <span className="text-right">{formatUsd(totals.costBasisCents)}</span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              Cost pool ${formatCents(summary.openingCostPoolCents)} → ${formatCents(summary.closingCostPoolCents)}
+              {summary.reclaims.count > 0 && ` • ${formatTokens(summary.reclaims.tokens)} JCMOVES reclaimed`}
+              {parseFloat(summary.otherReserveChange) !== 0 && ` • ${formatTokens(summary.otherReserveChange)} JCMOVES in other reserve adjustments`}
+              {summary.unpricedDistributions > 0 && ` • ${summary.unpricedDistributions} distributions valued at their recorded price (no earlier price history)`}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {TREASURY_EXPORT_FORMATS.map((format) => (
+                <Button key={format} variant="outline" size="sm" asChild data-testid={`button-export-${format}`}>
+                  <a href={`/api/treasury/periods/${periodType}/${periodKey}/export?format=${format}`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    {TREASURY_EXPORT_FORMAT_LABELS[format]}
+                  </a>
+                </Button>
+              ))}
+            </div>
+
+            {selected?.status === "closed" ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Lock className="h-4 w-4" />
+                Closed {selected.closedAt && new Date(selected.closedAt).toLocaleString()}
+                <Badge variant="outline">Locked</Badge>
+              </p>
+            ) : (
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  placeholder="Close notes (optional)"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  maxLength={1000}
+                  disabled={!selected?.canClose}
+                  data-testid="input-period-close-notes"
+                />
+                <Button
+                  onClick={() => closeMutation.mutate()}
+                  disabled={!selected?.canClose || closeMutation.isPending}
+                  data-testid="button-close-period"
+                >
+                  {closeMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                  {selected?.canClose ? `Close ${periodKey}` : "Period still open"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
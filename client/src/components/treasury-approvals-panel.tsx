@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CheckCircle, Clock, Loader2, ShieldCheck, XCircle } from "lucide-react";
+import {
+  APPROVAL_ACTION_LABELS,
+  APPROVAL_REQUEST_LABELS,
+  APPROVER_ROLES,
+  POLICY_CHANGE_ACTION,
+  type ApprovalRequestActionType,
+  type ApprovalRequestStatus,
+  type EffectiveApprovalPolicy,
+  type TreasuryApprovalRequestDetail,
+} from "@shared/treasury-approvals";
+
+const STATUS_COLORS: Record<ApprovalRequestStatus, string> = {
+  pending: "text-yellow-600",
+  approved: "text-blue-600",
+  executed: "text-green-600",
+  rejected: "text-red-600",
+  expired: "text-gray-500",
+  failed: "text-red-700",
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: "Admin",
+  business_owner: "Business owner",
+};
+
+const invalidateApprovals = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/treasury/approvals"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/treasury/summary"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/treasury/approval-policies"] }); // An approved policy change saves the policy
+};
+
+function formatExpiry(expiresAt: string | Date): string {
+  const hours = (new Date(expiresAt).getTime() - Date.now()) / (60 * 60 * 1000);
+  if (hours <= 0) return "Expiring";
+  return hours < 1 ? `${Math.ceil(hours * 60)}m left` : `${Math.floor(hours)}h left`;
+}
+
+// Who requested, approved or rejected, oldest first
+function ApprovalHistory({ request }: { request: TreasuryApprovalRequestDetail }) {
+  return (
+    <ul className="space-y-1 text-xs text-gray-500">
+      {request.events.map((event) => (
+        <li key={event.id} data-testid={`approval-event-${event.id}`}>
+          {new Date(event.createdAt).toLocaleString()} • <span className="capitalize">{event.action}</span>
+          {event.actorName && ` by ${event.actorName}`}
+          {event.actorRole && ` (${ROLE_LABELS[event.actorRole] || event.actorRole})`}
+          {event.comment && ` — ${event.comment}`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function PendingRequest({ request, currentUserId }: { request: TreasuryApprovalRequestDetail; currentUserId?: string }) {
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const decided = request.events.some((event) => event.actorId === currentUserId && (event.action === "approved" || event.action === "rejected"));
+  const isOwn = request.requestedBy === currentUserId;
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const response = await apiRequest("POST", `/api/treasury/approvals/${request.id}/${decision}`, { comment: comment || undefined });
+      return response.json() as Promise<TreasuryApprovalRequestDetail>;
+    },
+    onSuccess: (updated) => {
+      invalidateApprovals();
+      setComment("");
+      toast({
+        title: updated.status === "executed" ? "Approved and completed"
+          : updated.status === "failed" ? "Approved, but the action failed"
+          : updated.status === "rejected" ? "Request rejected"
+          : "Approval recorded",
+        description: updated.failureReason || request.summary,
+        variant: updated.status === "failed" ? "destructive" : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Decision not recorded", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 p-3 rounded border" data-testid={`approval-request-${request.id}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="font-medium">{request.summary}</div>
+          <div className="text-xs text-gray-500">
+            {APPROVAL_REQUEST_LABELS[request.actionType as ApprovalRequestActionType] || request.actionType}
+            {request.actionType !== POLICY_CHANGE_ACTION && <>{" • "}{parseFloat(request.tokenAmount).toLocaleString()} JCMOVES</>}
+          </div>
+        </div>
+        <div className="text-right text-xs">
+          <div className="font-semibold">
+            {request.requiredApprovals === 0 ? "Below threshold" : `${request.approvalCount}/${request.requiredApprovals} approvals`}
+          </div>
+          <div className="text-gray-500 flex items-center gap-1 justify-end">
+            <Clock className="h-3 w-3" />
+            {formatExpiry(request.expiresAt)}
+          </div>
+        </div>
+      </div>
+      <ApprovalHistory request={request} />
+      {isOwn || decided ? (
+        <p className="text-xs text-gray-500">
+          {isOwn ? "Waiting for another approver — you can't approve your own request." : "You've already decided on this request."}
+        </p>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Comment (optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={500}
+            data-testid={`input-approval-comment-${request.id}`}
+          />
+          <Button
+            onClick={() => decisionMutation.mutate("approve")}
+            disabled={decisionMutation.isPending}
+            data-testid={`button-approve-${request.id}`}
+          >
+            {decisionMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+            Approve
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => decisionMutation.mutate("reject")}
+            disabled={decisionMutation.isPending}
+            data-testid={`button-reject-${request.id}`}
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PolicyEditor({ policy }: { policy: EffectiveApprovalPolicy }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(policy);
+  useEffect(() => setDraft(policy), [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { thresholdTokens, requiredApprovals, approverRoles, expiryHours, isActive } = draft;
+      const response = await apiRequest("PUT", `/api/treasury/approval-policies/${policy.actionType}`, {
+        thresholdTokens, requiredApprovals, approverRoles, expiryHours, isActive,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateApprovals();
+      toast({ title: "Change sent for approval", description: `${APPROVAL_ACTION_LABELS[policy.actionType]} changes once another approver signs off` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Change not requested", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleRole = (role: typeof APPROVER_ROLES[number], checked: boolean) => {
+    setDraft({
+      ...draft,
+      approverRoles: checked ? [...draft.approverRoles, role] : draft.approverRoles.filter((r) => r !== role),
+    });
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded border" data-testid={`approval-policy-${policy.actionType}`}>
+      <div className="flex items-center justify-between">
+        <div className="font-medium">{APPROVAL_ACTION_LABELS[policy.actionType]}</div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`policy-active-${policy.actionType}`} className="text-xs">Required</Label>
+          <Switch
+            id={`policy-active-${policy.actionType}`}
+            checked={draft.isActive}
+            onCheckedChange={(isActive) => setDraft({ ...draft, isActive })}
+            data-testid={`switch-policy-active-${policy.actionType}`}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <Label className="text-xs">Threshold (JCMOVES)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={draft.thresholdTokens}
+            onChange={(e) => setDraft({ ...draft, thresholdTokens: parseFloat(e.target.value) || 0 })}
+            data-testid={`input-policy-threshold-${policy.actionType}`}
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Approvals needed</Label>
+          <Input
+            type="number"
+            min={1}
+            max={5}
+            value={draft.requiredApprovals}
+            onChange={(e) => setDraft({ ...draft, requiredApprovals: parseInt(e.target.value) || 1 })}
+            data-testid={`input-policy-approvals-${policy.actionType}`}
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Expires after (hours)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={draft.expiryHours}
+            onChange={(e) => setDraft({ ...draft, expiryHours: parseInt(e.target.value) || 1 })}
+            data-testid={`input-policy-expiry-${policy.actionType}`}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        {APPROVER_ROLES.map((role) => (
+          <label key={role} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={draft.approverRoles.includes(role)}
+              onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              data-testid={`checkbox-policy-role-${policy.actionType}-${role}`}
+            />
+            {ROLE_LABELS[role]}
+          </label>
+        ))}
+        <Button
+          size="sm"
+          className="ml-auto"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || draft.approverRoles.length === 0}
+          data-testid={`button-save-policy-${policy.actionType}`}
+        >
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Request change
+        </Button>
+      </div>
+      {policy.updatedAt && (
+        <p className="text-xs text-gray-500">Last changed {new Date(policy.updatedAt).toLocaleString()}</p>
+      )}
+    </div>
+  );
+}
+
+// Treasury movements waiting on a second approver, what happened to recent ones, and the policies that decide which need approval
+export function TreasuryApprovalsPanel() {
+  const { user } = useAuth();
+
+  const { data: pending = [], isLoading } = useQuery<TreasuryApprovalRequestDetail[]>({
+    queryKey: ["/api/treasury/approvals", "pending"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/treasury/approvals?status=pending");
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const { data: recent = [] } = useQuery<TreasuryApprovalRequestDetail[]>({
+    queryKey: ["/api/treasury/approvals", "recent"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/treasury/approvals?status=approved,executed,rejected,expired,failed&limit=20");
+      return response.json();
+    },
+  });
+
+  const { data: policies = [] } = useQuery<EffectiveApprovalPolicy[]>({
+    queryKey: ["/api/treasury/approval-policies"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Pending Approvals
+          {pending.length > 0 && <Badge className="ml-auto">{pending.length}</Badge>}
+        </h3>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : pending.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing is waiting for approval.</p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map((request) => (
+              <PendingRequest key={request.id} request={request} currentUserId={user?.id} />
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Recent Decisions</h3>
+        {recent.length === 0 ? (
+          <p className="text-sm text-gray-500">No decided requests yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {recent.map((request) => (
+              <div key={request.id} className="space-y-2 p-3 rounded border" data-testid={`approval-history-${request.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="font-medium">{request.summary}</div>
+                  <Badge variant="outline" className={`capitalize ${STATUS_COLORS[request.status as ApprovalRequestStatus] || ""}`}>
+                    {request.status}
+                  </Badge>
+                </div>
+                {request.failureReason && <p className="text-xs text-red-600">{request.failureReason}</p>}
+                <ApprovalHistory request={request} />
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-1">Approval Policies</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Amounts at or above the threshold wait for other approvers before they go ahead, and lapse if not approved in time.
+          Changes to a policy need another approver too.
+        </p>
+        <div className="space-y-3">
+          {policies.map((policy) => (
+            <PolicyEditor key={policy.actionType} policy={policy} />
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+}
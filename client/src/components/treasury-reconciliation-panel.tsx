@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, CheckCircle, ClipboardCheck, Loader2, RefreshCw } from "lucide-react";
+import {
+  DISCREPANCY_KIND_LABELS,
+  getDefaultAdjustment,
+  type DiscrepancyKind,
+} from "@shared/treasury-reconciliation";
+import type { TreasuryReconciliationDiscrepancy, TreasuryReconciliationReport } from "@shared/schema";
+
+const formatTokens = (amount: string | null) => (amount === null ? "—" : parseFloat(amount).toLocaleString(undefined, { maximumFractionDigits: 4 }));
+const shortSignature = (signature: string) => `${signature.slice(0, 8)}...${signature.slice(-6)}`;
+
+const invalidateReconciliation = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/treasury/reconciliation/reports"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/treasury/reconciliation/discrepancies"] });
+};
+
+function DiscrepancyRow({ discrepancy }: { discrepancy: TreasuryReconciliationDiscrepancy }) {
+  const { toast } = useToast();
+  const kind = discrepancy.kind as DiscrepancyKind;
+  const [note, setNote] = useState("");
+  const [amount, setAmount] = useState(String(getDefaultAdjustment(kind, discrepancy.amount)));
+
+  const resolveMutation = useMutation({
+    mutationFn: async (resolution: "adjust" | "dismiss") => {
+      const response = await apiRequest("POST", `/api/treasury/reconciliation/discrepancies/${discrepancy.id}/resolve`,
+        resolution === "adjust" ? { resolution, note, amount: parseFloat(amount) } : { resolution, note });
+      return response.json();
+    },
+    onSuccess: (_, resolution) => {
+      invalidateReconciliation();
+      queryClient.invalidateQueries({ queryKey: ["/api/treasury/summary"] });
+      toast({
+        title: resolution === "adjust" ? "Adjustment recorded" : "Discrepancy dismissed",
+        description: resolution === "adjust" ? `Reserve changed by ${parseFloat(amount).toLocaleString()} JCMOVES` : note,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't resolve discrepancy", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const amountValid = Number.isFinite(parseFloat(amount)) && parseFloat(amount) !== 0;
+
+  return (
+    <div className="space-y-2 rounded border p-3" data-testid={`discrepancy-${discrepancy.id}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="font-medium">{DISCREPANCY_KIND_LABELS[kind] || discrepancy.kind}</div>
+          <div className="text-xs text-muted-foreground">
+            {discrepancy.signature ? (
+              <a href={`https://solscan.io/tx/${discrepancy.signature}`} target="_blank" rel="noopener noreferrer" className="underline">
+                {shortSignature(discrepancy.signature)}
+              </a>
+            ) : "Custody total"}
+            {discrepancy.counterparty && ` • ${kind === "missing_deposit" ? "from" : "to"} ${shortSignature(discrepancy.counterparty)}`}
+            {` • found ${new Date(discrepancy.blockTime || discrepancy.createdAt).toLocaleString()}`}
+          </div>
+        </div>
+        <div className="font-semibold">{formatTokens(discrepancy.amount)} JCMOVES</div>
+      </div>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          placeholder="Resolution note (required)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          data-testid={`input-discrepancy-note-${discrepancy.id}`}
+        />
+        <Input
+          type="number"
+          className="sm:w-40"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          title="Signed change to the treasury reserve"
+          data-testid={`input-discrepancy-amount-${discrepancy.id}`}
+        />
+        <Button
+          onClick={() => resolveMutation.mutate("adjust")}
+          disabled={resolveMutation.isPending || !note.trim() || !amountValid}
+          data-testid={`button-adjust-${discrepancy.id}`}
+        >
+          Adjust
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => resolveMutation.mutate("dismiss")}
+          disabled={resolveMutation.isPending || !note.trim()}
+          data-testid={`button-dismiss-${discrepancy.id}`}
+        >
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Scheduled reconciliation runs and the discrepancies they found, with admin resolution
+export function TreasuryReconciliationPanel() {
+  const { toast } = useToast();
+
+  const { data: reports = [], isLoading } = useQuery<TreasuryReconciliationReport[]>({
+    queryKey: ["/api/treasury/reconciliation/reports"],
+  });
+  const { data: discrepancies = [] } = useQuery<TreasuryReconciliationDiscrepancy[]>({
+    queryKey: ["/api/treasury/reconciliation/discrepancies"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/treasury/reconciliation/run");
+      return response.json() as Promise<TreasuryReconciliationReport>;
+    },
+    onSuccess: (report) => {
+      invalidateReconciliation();
+      toast({ title: "Reconciliation complete", description: `Drift ${formatTokens(report.driftAmount)} JCMOVES` });
+    },
+    onError: (error: any) => {
+      invalidateReconciliation();
+      toast({ title: "Reconciliation failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const latest = reports.find((report) => report.status === "completed");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Reconciliation Reports
+        </CardTitle>
+        <CardDescription>
+          Runs on a schedule: compares on-chain custody with the treasury reserve and user balances, and matches treasury transfers against recorded deposits and withdrawals
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {latest && (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="rounded-lg border p-4">
+              <div className="text-sm text-muted-foreground">On-chain custody</div>
+              <div className="text-xl font-bold">{formatTokens(latest.onChainBalance)}</div>
+              <div className="text-xs text-muted-foreground">
+                Treasury {formatTokens(latest.treasuryWalletBalance)} + deposit addresses {formatTokens(latest.depositAddressBalance)}
+              </div>
+            </div>
+            <div className="rounded-lg border p-4">
+              <div className="text-sm text-muted-foreground">Books expect</div>
+              <div className="text-xl font-bold">{formatTokens(latest.expectedBalance)}</div>
+              <div className="text-xs text-muted-foreground">
+                Reserve {formatTokens(latest.tokenReserve)} + users {formatTokens(latest.userBalances)} + other {formatTokens(latest.otherLiabilities)}
+              </div>
+            </div>
+            <div className={`rounded-lg border p-4 ${latest.alertSent ? "border-yellow-300 bg-yellow-50 dark:bg-yellow-950/20" : ""}`}>
+              <div className="text-sm text-muted-foreground">Drift</div>
+              <div className="text-xl font-bold" data-testid="text-reconciliation-drift">{formatTokens(latest.driftAmount)}</div>
+              <div className="text-xs text-muted-foreground">As of {new Date(latest.completedAt).toLocaleString()}</div>
+            </div>
+          </div>
+        )}
+
+        <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending} variant="outline" className="w-full" data-testid="button-run-reconciliation">
+          {runMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Run Reconciliation Now
+        </Button>
+
+        <div className="space-y-3">
+          <h4 className="flex items-center gap-2 font-semibold">
+            <AlertTriangle className="h-4 w-4 text-yellow-600" />
+            Open Discrepancies
+            {discrepancies.length > 0 && <Badge variant="outline">{discrepancies.length}</Badge>}
+          </h4>
+          {discrepancies.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              Nothing needs resolving.
+            </p>
+          ) : (
+            discrepancies.map((discrepancy) => <DiscrepancyRow key={discrepancy.id} discrepancy={discrepancy} />)
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-semibold">Recent Runs</h4>
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : reports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reconciliation has run yet.</p>
+          ) : (
+            <div className="space-y-1 text-sm">
+              {reports.map((report) => (
+                <div key={report.id} className="flex flex-wrap items-center justify-between gap-2 border-b py-1 last:border-0" data-testid={`reconciliation-report-${report.id}`}>
+                  <span>
+                    {new Date(report.completedAt).toLocaleString()} <span className="text-xs capitalize text-muted-foreground">({report.trigger})</span>
+                  </span>
+                  {report.status === "failed" ? (
+                    <span className="text-xs text-red-600">Failed: {report.error}</span>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {report.matchedCount} matched • {report.missingDepositCount} missing deposits • {report.unexplainedOutflowCount} unexplained outflows • drift {formatTokens(report.driftAmount)}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Lock } from "lucide-react";
+import { formatVestingSchedule, VESTING_SOURCE_LABELS, type TokenGrantStatus, type VestingBalance } from "@shared/vesting";
+
+const STATUS_VARIANTS: Record<TokenGrantStatus, "default" | "secondary" | "destructive"> = {
+  active: "secondary",
+  vested: "default",
+  forfeited: "destructive",
+};
+
+// Rewards paid on a vesting schedule and how much of each has unlocked
+export function VestingGrantsCard({ vesting }: { vesting: VestingBalance }) {
+  if (!vesting.grants.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Vesting Rewards
+        </CardTitle>
+        <CardDescription>
+          {parseFloat(vesting.lockedTokens).toFixed(2)} JCMOVES locked
+          {vesting.nextRelease && ` • ${parseFloat(vesting.nextRelease.amount).toFixed(2)} unlocking ${new Date(vesting.nextRelease.at).toLocaleDateString()}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {vesting.grants.map((grant) => {
+          const released = parseFloat(grant.releasedAmount);
+          const total = parseFloat(grant.totalAmount);
+          return (
+            <div key={grant.id} className="space-y-2 rounded-lg border p-4" data-testid={`grant-${grant.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">{grant.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {VESTING_SOURCE_LABELS[grant.source]} • {formatVestingSchedule(grant.schedule)}
+                  </p>
+                </div>
+                <Badge variant={STATUS_VARIANTS[grant.status]}>{grant.status}</Badge>
+              </div>
+              <Progress value={total > 0 ? (released / total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                {released.toFixed(2)} of {total.toFixed(2)} unlocked
+                {grant.status === "forfeited" && ` • ${parseFloat(grant.forfeitedAmount).toFixed(2)} forfeited`}
+                {grant.nextReleaseAt && ` • next unlock ${new Date(grant.nextReleaseAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Trophy } from "lucide-react";
+import {
+  formatLeaderboardDate,
+  getLeaderboardWeekStart,
+  type LeaderboardPayoutStatus,
+  type LeaderboardWeekListItem,
+  type LeaderboardWeekSummary,
+} from "@shared/leaderboard";
+
+const PAYOUT_LABELS: Record<Exclude<LeaderboardPayoutStatus, "none">, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  paid: { label: "Paid", variant: "default" },
+  pending: { label: "Pending", variant: "secondary" },
+  failed: { label: "Retrying", variant: "destructive" },
+};
+
+function formatWeek(weekStartDate: string, weekEndDate: string): string {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", timeZone: "UTC" };
+  return `${new Date(`${weekStartDate}T00:00:00Z`).toLocaleDateString(undefined, options)} - ${new Date(`${weekEndDate}T00:00:00Z`).toLocaleDateString(undefined, options)}`;
+}
+
+// This week's live standings, and the final standings and prizes of past weeks
+export function WeeklyLeaderboardCard() {
+  const currentWeek = formatLeaderboardDate(getLeaderboardWeekStart());
+  const [selectedWeek, setSelectedWeek] = useState(currentWeek);
+
+  const { data: history = [] } = useQuery<LeaderboardWeekListItem[]>({
+    queryKey: ["/api/gamification/leaderboard/weeks"],
+  });
+
+  const { data: week, isLoading } = useQuery<LeaderboardWeekSummary>({
+    queryKey: ["/api/gamification/leaderboard/weeks", selectedWeek],
+  });
+
+  return (
+    <Card data-testid="card-weekly-leaderboard">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5 text-yellow-500" />
+              Weekly Leaderboard
+            </CardTitle>
+            <CardDescription>
+              {week?.closedAt
+                ? `Final standings • closed ${new Date(week.closedAt).toLocaleDateString()}`
+                : "Live standings • prizes are paid after the week ends on Sunday (UTC)"}
+            </CardDescription>
+          </div>
+          <Select value={selectedWeek} onValueChange={setSelectedWeek}>
+            <SelectTrigger className="w-48" data-testid="select-leaderboard-week">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={currentWeek}>This week</SelectItem>
+              {history
+                .filter((item) => item.weekStartDate !== currentWeek)
+                .map((item) => (
+                  <SelectItem key={item.weekStartDate} value={item.weekStartDate}>
+                    {formatWeek(item.weekStartDate, item.weekEndDate)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !week ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : week.entries.length ? (
+          <div className="space-y-2">
+            {week.entries.map((entry) => {
+              const prize = parseFloat(entry.tokenReward);
+              const payout = entry.payoutStatus !== "none" && week.closedAt ? PAYOUT_LABELS[entry.payoutStatus] : null;
+              return (
+                <div key={entry.userId} className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`leaderboard-entry-${entry.rank}`}>
+                  <div className="flex items-center gap-3">
+                    <Badge variant={entry.rank <= 3 ? "default" : "outline"}>#{entry.rank}</Badge>
+                    <div>
+                      <p className="font-medium">{entry.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {entry.jobsCompleted} jobs{entry.averageRating > 0 && ` • ${entry.averageRating.toFixed(2)} avg rating`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold">{entry.pointsEarned.toLocaleString()} pts</p>
+                    {prize > 0 && (
+                      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+                        {week.closedAt ? "" : "Prize "}+{prize.toLocaleString()} JCMOVES
+                        {payout && <Badge variant={payout.variant} className="ml-1">{payout.label}</Badge>}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Trophy className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No points earned {week.closedAt ? "that week" : "this week yet"}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
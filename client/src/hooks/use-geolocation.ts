@@ -78,6 +78,32 @@ export function useGeolocation(options: GeolocationOptions = {}) {
   return state;
 }
 
+// One fresh high-accuracy fix, for actions like clocking in that need to know where the user is right now
+export function getCurrentPosition(timeout: number = 15000): Promise<{ latitude: number; longitude: number; accuracy: number }> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported by this browser.'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      (error) => reject(new Error(
+        error.code === error.PERMISSION_DENIED
+          ? 'Location access denied. Allow location access to use the time clock.'
+          : error.code === error.TIMEOUT
+            ? 'Location request timed out. Try again.'
+            : 'Location information is unavailable.'
+      )),
+      { enableHighAccuracy: true, timeout, maximumAge: 0 }
+    );
+  });
+}
+
 // Calculate distance between two coordinates using Haversine formula
 export function calculateDistance(
   lat1: number,
@@ -0,0 +1,47 @@
+import type { MediaAssetResponse, MediaPurpose, MediaUploadTicket } from "@shared/media";
+
+export interface MediaUploadAttempt {
+  response: Response; // The failing step's response, or the completion response
+  media?: MediaAssetResponse;
+}
+
+/**
+ * Upload a file to the media store: ask for a signed URL, PUT the file there, then have the server
+ * make the thumbnail and read EXIF. Stops at the first step that fails and returns its response
+ */
+export async function sendMediaUpload(file: Blob, purpose: MediaPurpose): Promise<MediaUploadAttempt> {
+  const contentType = file.type || "application/octet-stream";
+
+  const ticketResponse = await fetch("/api/media/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ purpose, contentType, sizeBytes: file.size }),
+    credentials: "include",
+  });
+  if (!ticketResponse.ok) return { response: ticketResponse };
+  const ticket: MediaUploadTicket = await ticketResponse.json();
+
+  const uploadResponse = await fetch(ticket.uploadUrl, {
+    method: "PUT",
+    headers: { "Content-Type": contentType },
+    body: file,
+  });
+  if (!uploadResponse.ok) return { response: uploadResponse };
+
+  const completeResponse = await fetch(`/api/media/${ticket.assetId}/complete`, {
+    method: "POST",
+    credentials: "include",
+  });
+  if (!completeResponse.ok) return { response: completeResponse };
+  return { response: completeResponse, media: await completeResponse.json() };
+}
+
+// Same as sendMediaUpload, throwing "status: message" errors like apiRequest
+export async function uploadMedia(file: Blob, purpose: MediaPurpose): Promise<MediaAssetResponse> {
+  const { response, media } = await sendMediaUpload(file, purpose);
+  if (!media) {
+    const body = await response.json().catch(() => null);
+    throw new Error(`${response.status}: ${body?.error || response.statusText || "Upload failed"}`);
+  }
+  return media;
+}
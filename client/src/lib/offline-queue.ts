@@ -0,0 +1,306 @@
+import type { Lead } from "@shared/schema";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  RESOLVED_CONFLICT_CODES,
+  TRANSIENT_CONFLICT_CODES,
+  type JobActionErrorCode,
+  type OfflineActionType,
+} from "@shared/offline-sync";
+import { sendMediaUpload } from "@/lib/media-upload";
+
+// IndexedDB-backed queue of job actions taken while offline. Each action's id is sent as its Idempotency-Key,
+// so retrying after a dropped response can't accept, complete or add a photo twice
+
+export type OfflineActionStatus =
+  | "pending" // Waiting for a connection
+  | "syncing"
+  | "failed" // Network or server error, retried on the next sync
+  | "conflict"; // The server refused it (e.g. job already taken); the crew member retries or discards it
+
+export interface OfflineAction {
+  id: string;
+  type: OfflineActionType;
+  leadId: string;
+  jobLabel: string; // Customer name, shown in the sync panel
+  data: Record<string, unknown>; // Request body; for photos, the JobPhoto fields other than url
+  photo?: Blob; // Photo bytes, uploaded to the media store when synced
+  status: OfflineActionStatus;
+  attempts: number;
+  error: string | null;
+  errorCode: JobActionErrorCode | null;
+  serverStatus: string | null; // Job status the server reported with a conflict
+  createdAt: number;
+}
+
+export type NewOfflineAction = Pick<OfflineAction, "type" | "leadId" | "jobLabel" | "data" | "photo">;
+
+export interface OfflineQueueState {
+  actions: OfflineAction[];
+  cachedJobs: Lead[];
+  isSyncing: boolean;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+const DB_NAME = "jc_offline";
+const DB_VERSION = 1;
+const ACTIONS_STORE = "actions";
+const JOBS_STORE = "jobs";
+const JOBS_SNAPSHOT_KEY = "snapshot";
+const LEGACY_STORAGE_KEY = "jc_offline_data"; // Queue kept in localStorage before the IndexedDB queue
+export const CACHE_EXPIRY_MS = 4 * 60 * 60 * 1000; // 4 hours - longer expiry for offline work
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ACTIONS_STORE)) {
+          db.createObjectStore(ACTIONS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          db.createObjectStore(JOBS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+async function runRequest<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+class OfflineQueue {
+  private state: OfflineQueueState = { actions: [], cachedJobs: [], isSyncing: false };
+  private listeners = new Set<() => void>();
+  private loading: Promise<void> | null = null;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.state;
+
+  /**
+   * Load the queue and cached jobs from IndexedDB, moving over anything left in the old localStorage queue
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          await this.migrateLegacyQueue();
+          const [actions, snapshot] = await Promise.all([
+            runRequest<OfflineAction[]>(ACTIONS_STORE, "readonly", (store) => store.getAll()),
+            runRequest<{ jobs: Lead[]; cachedAt: number } | undefined>(JOBS_STORE, "readonly", (store) => store.get(JOBS_SNAPSHOT_KEY)),
+          ]);
+          // Anything left mid-sync when the app closed goes back in line
+          const restored = actions.map((action) => action.status === "syncing" ? { ...action, status: "pending" as const } : action);
+          const isFresh = snapshot && Date.now() - snapshot.cachedAt < CACHE_EXPIRY_MS;
+          this.setState({
+            actions: restored.sort((a, b) => a.createdAt - b.createdAt),
+            cachedJobs: isFresh ? snapshot.jobs : [],
+          });
+        } catch (error) {
+          console.error("Error loading offline queue:", error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Queue an action to send when back online
+   */
+  async enqueue(action: NewOfflineAction): Promise<OfflineAction> {
+    await this.load();
+    const queued: OfflineAction = {
+      ...action,
+      id: crypto.randomUUID(),
+      status: "pending",
+      attempts: 0,
+      error: null,
+      errorCode: null,
+      serverStatus: null,
+      createdAt: Date.now(),
+    };
+    await this.save(queued);
+    return queued;
+  }
+
+  async discard(id: string): Promise<void> {
+    await runRequest(ACTIONS_STORE, "readwrite", (store) => store.delete(id));
+    this.setState({ actions: this.state.actions.filter((action) => action.id !== id) });
+  }
+
+  /**
+   * Put a conflicted action back in line. It keeps its idempotency key, so a server that already
+   * processed it answers with the stored result
+   */
+  async retry(id: string): Promise<void> {
+    const action = this.state.actions.find((entry) => entry.id === id);
+    if (action) {
+      await this.save({ ...action, status: "pending", error: null, errorCode: null, serverStatus: null });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([
+      runRequest(ACTIONS_STORE, "readwrite", (store) => store.clear()),
+      runRequest(JOBS_STORE, "readwrite", (store) => store.clear()),
+    ]);
+    this.setState({ actions: [], cachedJobs: [] });
+  }
+
+  async cacheJobs(jobs: Lead[]): Promise<void> {
+    try {
+      await runRequest(JOBS_STORE, "readwrite", (store) => store.put({ jobs, cachedAt: Date.now() }, JOBS_SNAPSHOT_KEY));
+      this.setState({ cachedJobs: jobs });
+    } catch (error) {
+      console.error("Error caching jobs for offline use:", error);
+    }
+  }
+
+  /**
+   * Send queued actions in the order they were taken. Stops at the first network error
+   */
+  async sync(): Promise<SyncResult> {
+    const result: SyncResult = { synced: 0, conflicts: 0, failed: 0 };
+    if (this.state.isSyncing) return result;
+
+    await this.load();
+    const queued = this.state.actions.filter((action) => action.status === "pending" || action.status === "failed");
+    if (queued.length === 0) return result;
+
+    this.setState({ isSyncing: true });
+    try {
+      for (const action of queued) {
+        await this.save({ ...action, status: "syncing" });
+
+        let response: Response;
+        try {
+          response = await this.send(action);
+        } catch (error) {
+          // Still offline or the connection dropped; try again later
+          await this.save({ ...action, status: "failed", attempts: action.attempts + 1, error: "Couldn't reach the server" });
+          result.failed += 1;
+          break;
+        }
+
+        if (response.ok) {
+          await this.discard(action.id);
+          result.synced += 1;
+          continue;
+        }
+
+        const body = await response.json().catch(() => ({}));
+        const errorCode: JobActionErrorCode | null = body.code || null;
+        if (errorCode && RESOLVED_CONFLICT_CODES.includes(errorCode)) {
+          await this.discard(action.id);
+          result.synced += 1;
+        } else if (response.status === 401) {
+          await this.save({ ...action, status: "failed", error: "Sign in again to sync" });
+          result.failed += 1;
+          break;
+        } else if (response.status >= 500 || (errorCode && TRANSIENT_CONFLICT_CODES.includes(errorCode))) {
+          await this.save({ ...action, status: "failed", attempts: action.attempts + 1, error: body.error || "Server error" });
+          result.failed += 1;
+        } else {
+          await this.save({
+            ...action,
+            status: "conflict",
+            attempts: action.attempts + 1,
+            error: body.error || body.message || `Request failed (${response.status})`,
+            errorCode,
+            serverStatus: body.status || null,
+          });
+          result.conflicts += 1;
+        }
+      }
+    } finally {
+      this.setState({ isSyncing: false });
+    }
+    return result;
+  }
+
+  private async send(action: OfflineAction): Promise<Response> {
+    let body: Record<string, unknown> = action.data;
+    if (action.type === "add_photo" && action.photo) {
+      // A failed upload step is handled like a failed request
+      const { response, media } = await sendMediaUpload(action.photo, "job_photo");
+      if (!media) return response;
+      body = { ...action.data, mediaAssetId: media.id };
+    }
+
+    const path = action.type === "accept_job" ? "accept" : action.type === "complete_job" ? "complete" : "photos";
+    return fetch(`/api/leads/${action.leadId}/${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [IDEMPOTENCY_KEY_HEADER]: action.id,
+      },
+      body: JSON.stringify(body),
+      credentials: "include",
+    });
+  }
+
+  private async save(action: OfflineAction): Promise<void> {
+    await runRequest(ACTIONS_STORE, "readwrite", (store) => store.put(action));
+    const others = this.state.actions.filter((entry) => entry.id !== action.id);
+    this.setState({ actions: [...others, action].sort((a, b) => a.createdAt - b.createdAt) });
+  }
+
+  private async migrateLegacyQueue(): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    try {
+      const legacy = JSON.parse(stored);
+      for (const action of legacy.pendingActions || []) {
+        // Status updates went to an owner-only route and could never sync, so they're dropped
+        if (action.type !== "accept_job" && action.type !== "add_photo") continue;
+        const { url, ...photoFields } = action.data || {};
+        await this.enqueue({
+          type: action.type,
+          leadId: action.leadId,
+          jobLabel: "Job",
+          data: action.type === "add_photo" ? photoFields : {},
+          photo: action.type === "add_photo" && url ? await (await fetch(url)).blob() : undefined,
+        });
+      }
+    } catch (error) {
+      console.error("Error migrating offline queue:", error);
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  private setState(changes: Partial<OfflineQueueState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Shared by every component using useOfflineStorage
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,30 @@
+import type { ScheduleConflict } from "@shared/scheduling";
+
+// Accepting a job that overlaps another booking fails with "409: {"error":"...","conflicts":[...]}"
+export function getScheduleConflictMessage(error: Error): string | null {
+  if (!error.message.startsWith("409:")) return null;
+  try {
+    const body = JSON.parse(error.message.replace(/^409:\s*/, "")) as { error?: string; conflicts?: ScheduleConflict[] };
+    if (!body.conflicts) return null;
+    return body.conflicts
+      .filter((conflict) => conflict.severity === "block")
+      .map((conflict) => conflict.message)
+      .join("; ") || body.error || null;
+  } catch {
+    return null;
+  }
+}
+
+// Local "YYYY-MM-DD" + "HH:MM" as an ISO timestamp, for scheduledStart
+export function toScheduledStart(date: string, time: string): string | null {
+  if (!date || !time) return null;
+  const scheduled = new Date(`${date}T${time}`);
+  return isNaN(scheduled.getTime()) ? null : scheduled.toISOString();
+}
+
+// "HH:MM" in local time from a stored timestamp
+export function toTimeInputValue(value: Date | string | null | undefined): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
@@ -13,6 +13,7 @@ import { ChevronLeft, ChevronRight, Plus, X, Eye } from "lucide-react";
 import { type ShopItem } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { uploadMedia } from "@/lib/media-upload";
 
 // Item Card Component with Photo Slideshow
 function ShopItemCard({ item }: { item: ShopItem }) {
@@ -140,6 +141,7 @@ function CreateItemForm({ onSuccess }: { onSuccess: () => void }) {
   const [photoUrls, setPhotoUrls] = useState<string[]>([]);
   const [currentPhotoUrl, setCurrentPhotoUrl] = useState("");
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
+  const [isUploading, setIsUploading] = useState(false);
   
   const [formData, setFormData] = useState({
     title: "",
@@ -196,6 +198,23 @@ function CreateItemForm({ onSuccess }: { onSuccess: () => void }) {
     }
   };
 
+  // Photos and videos go to the media store; the listing keeps their URLs
+  const handleMediaUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const media = await uploadMedia(file, "shop_item");
+      setPhotoUrls((prev) => [...prev, media.url]);
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message.replace(/^\d+: /, "") : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const removePhoto = (index: number) => {
     setPhotoUrls(photoUrls.filter((_, i) => i !== index));
     if (currentPhotoIndex >= photoUrls.length - 1) {
@@ -305,12 +324,7 @@ function CreateItemForm({ onSuccess }: { onSuccess: () => void }) {
                   return;
                 }
                 
-                const reader = new FileReader();
-                reader.onloadend = () => {
-                  const base64String = reader.result as string;
-                  setPhotoUrls([...photoUrls, base64String]);
-                };
-                reader.readAsDataURL(file);
+                handleMediaUpload(file);
               }
               e.target.value = "";
             }}
@@ -349,12 +363,7 @@ function CreateItemForm({ onSuccess }: { onSuccess: () => void }) {
                     return;
                   }
                   
-                  const reader = new FileReader();
-                  reader.onloadend = () => {
-                    const base64String = reader.result as string;
-                    setPhotoUrls([...photoUrls, base64String]);
-                  };
-                  reader.readAsDataURL(file);
+                  handleMediaUpload(file);
                 };
                 video.src = URL.createObjectURL(file);
               }
@@ -368,7 +377,7 @@ function CreateItemForm({ onSuccess }: { onSuccess: () => void }) {
             variant="outline"
             className="flex-1"
             onClick={() => document.getElementById("photo-upload")?.click()}
-            disabled={photoUrls.length >= 10}
+            disabled={photoUrls.length >= 10 || isUploading}
             data-testid="button-upload-photo"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -380,7 +389,7 @@ function CreateItemForm({ onSuccess }: { onSuccess: () => void }) {
             variant="outline"
             className="flex-1"
             onClick={() => document.getElementById("video-upload")?.click()}
-            disabled={photoUrls.length >= 10}
+            disabled={photoUrls.length >= 10 || isUploading}
             data-testid="button-upload-video"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -480,7 +489,7 @@ function CreateItemForm({ onSuccess }: { onSuccess: () => void }) {
       <Button 
         onClick={handleSubmit} 
         className="w-full" 
-        disabled={createMutation.isPending}
+        disabled={createMutation.isPending || isUploading}
         data-testid="button-submit"
       >
         {createMutation.isPending ? "Posting..." : "Post Item"}
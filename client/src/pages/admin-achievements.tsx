@@ -0,0 +1,549 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Pencil, Plus, RefreshCw, Trash2, Trophy } from "lucide-react";
+import {
+  ACHIEVEMENT_CATEGORIES,
+  ACHIEVEMENT_METRICS,
+  ACHIEVEMENT_METRIC_DEFINITIONS,
+  ACHIEVEMENT_RARITIES,
+  describeAchievementCondition,
+  type AchievementCondition,
+  type AchievementEvaluationSummary,
+  type AchievementMetric,
+  type AchievementTypeInput,
+  type AchievementTypeSummary,
+} from "@shared/achievements";
+
+// Optional fields are kept as text while editing so they can be left blank
+interface ConditionDraft {
+  metric: AchievementMetric;
+  threshold: string;
+  windowDays: string;
+  serviceType: string;
+  minRating: string;
+  minReviews: string;
+}
+
+interface AchievementDraft {
+  name: string;
+  description: string;
+  category: AchievementTypeInput["category"];
+  iconName: string;
+  iconColor: string;
+  rarity: AchievementTypeInput["rarity"];
+  pointsAwarded: string;
+  tokenReward: string;
+  isActive: boolean;
+  conditions: ConditionDraft[];
+}
+
+const EMPTY_CONDITION: ConditionDraft = { metric: "jobs_completed", threshold: "1", windowDays: "", serviceType: "", minRating: "", minReviews: "" };
+
+const EMPTY_DRAFT: AchievementDraft = {
+  name: "",
+  description: "",
+  category: "milestones",
+  iconName: "Trophy",
+  iconColor: "#3b82f6",
+  rarity: "common",
+  pointsAwarded: "100",
+  tokenReward: "0",
+  isActive: true,
+  conditions: [EMPTY_CONDITION],
+};
+
+function toDraft(achievement: AchievementTypeSummary): AchievementDraft {
+  return {
+    name: achievement.name,
+    description: achievement.description,
+    category: achievement.category as AchievementDraft["category"],
+    iconName: achievement.iconName,
+    iconColor: achievement.iconColor,
+    rarity: achievement.rarity as AchievementDraft["rarity"],
+    pointsAwarded: String(achievement.pointsAwarded),
+    tokenReward: String(parseFloat(achievement.tokenReward)),
+    isActive: achievement.isActive,
+    conditions: (achievement.requirements?.conditions || [{ metric: "jobs_completed", threshold: 1 }]).map((condition) => ({
+      metric: condition.metric,
+      threshold: String(condition.threshold),
+      windowDays: condition.windowDays ? String(condition.windowDays) : "",
+      serviceType: condition.serviceType || "",
+      minRating: condition.minRating ? String(condition.minRating) : "",
+      minReviews: condition.minReviews ? String(condition.minReviews) : "",
+    })),
+  };
+}
+
+// Blank optional fields, and ones the metric doesn't support, are left out so the server doesn't reject them
+function toCondition(draft: ConditionDraft): AchievementCondition {
+  const definition = ACHIEVEMENT_METRIC_DEFINITIONS[draft.metric];
+  const condition: AchievementCondition = { metric: draft.metric, threshold: parseFloat(draft.threshold) || 0 };
+  if (definition.supportsWindow && draft.windowDays) condition.windowDays = parseInt(draft.windowDays);
+  if (definition.supportsCategory && draft.serviceType.trim()) condition.serviceType = draft.serviceType.trim();
+  if (draft.metric === "review_count" && draft.minRating) condition.minRating = parseInt(draft.minRating);
+  if (draft.metric === "average_rating" && draft.minReviews) condition.minReviews = parseInt(draft.minReviews);
+  return condition;
+}
+
+function toInput(draft: AchievementDraft): AchievementTypeInput {
+  return {
+    name: draft.name,
+    description: draft.description,
+    category: draft.category,
+    iconName: draft.iconName,
+    iconColor: draft.iconColor,
+    rarity: draft.rarity,
+    pointsAwarded: parseInt(draft.pointsAwarded) || 0,
+    tokenReward: parseFloat(draft.tokenReward) || 0,
+    isActive: draft.isActive,
+    requirements: { conditions: draft.conditions.map(toCondition) },
+  };
+}
+
+export default function AdminAchievementsPage() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<AchievementDraft>(EMPTY_DRAFT);
+
+  const { data: achievements = [], isLoading } = useQuery<AchievementTypeSummary[]>({
+    queryKey: ["/api/admin/achievements"],
+  });
+
+  const saveAchievement = useMutation({
+    mutationFn: async () => {
+      const response = editingId
+        ? await apiRequest("PUT", `/api/admin/achievements/${editingId}`, toInput(draft))
+        : await apiRequest("POST", "/api/admin/achievements", toInput(draft));
+      return (await response.json()) as AchievementTypeSummary;
+    },
+    onSuccess: (achievement) => {
+      toast({
+        title: editingId ? "Achievement updated" : "Achievement created",
+        description: `${achievement.name} will be checked as employees complete activity. Evaluate existing employees to award it to anyone who already qualifies.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/achievements"] });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save achievement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async (achievement: AchievementTypeSummary) => {
+      const response = await apiRequest("PUT", `/api/admin/achievements/${achievement.id}`, toInput({ ...toDraft(achievement), isActive: !achievement.isActive }));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/achievements"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update achievement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const evaluateExisting = useMutation({
+    mutationFn: async (achievementTypeId?: string) => {
+      const response = await apiRequest("POST", "/api/admin/achievements/evaluate", { achievementTypeId });
+      return (await response.json()) as AchievementEvaluationSummary;
+    },
+    onSuccess: (summary) => {
+      toast({
+        title: "Evaluation complete",
+        description: `${summary.achievementsAwarded} achievement${summary.achievementsAwarded === 1 ? "" : "s"} awarded across ${summary.employeesEvaluated} employees`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/achievements"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Evaluation Failed",
+        description: error.message || "Failed to evaluate employees",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (achievement: AchievementTypeSummary) => {
+    setEditingId(achievement.id);
+    setDraft(toDraft(achievement));
+    setDialogOpen(true);
+  };
+
+  const setCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setDraft((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)),
+    }));
+  };
+
+  const addCondition = () => {
+    setDraft((prev) => ({ ...prev, conditions: [...prev.conditions, EMPTY_CONDITION] }));
+  };
+
+  const removeCondition = (index: number) => {
+    setDraft((prev) => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="container mx-auto px-4 py-6 md:py-8 max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-2 flex items-center gap-2" data-testid="heading-admin-achievements">
+              <Trophy className="h-7 w-7" />
+              Achievements
+            </h1>
+            <p className="text-sm md:text-base text-muted-foreground">
+              Rules employees are rewarded for meeting
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <Button
+              variant="outline"
+              onClick={() => evaluateExisting.mutate(undefined)}
+              disabled={evaluateExisting.isPending}
+              data-testid="button-evaluate-all"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${evaluateExisting.isPending ? "animate-spin" : ""}`} />
+              Evaluate Existing Employees
+            </Button>
+            <Button onClick={openCreate} data-testid="button-new-achievement">
+              <Plus className="h-4 w-4 mr-2" />
+              New Achievement
+            </Button>
+            <Link href="/leads">
+              <Button variant="outline" data-testid="button-back-to-leads">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Leads
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {achievements.length === 0 ? (
+          <Card>
+            <CardContent className="py-10 text-center text-muted-foreground">No achievements yet</CardContent>
+          </Card>
+        ) : (
+          achievements.map((achievement) => (
+            <Card key={achievement.id} data-testid={`card-achievement-${achievement.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4 flex-wrap">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Trophy className="h-5 w-5" style={{ color: achievement.iconColor }} />
+                      {achievement.name}
+                      <Badge variant="outline" className="capitalize">{achievement.rarity}</Badge>
+                      {!achievement.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </CardTitle>
+                    <CardDescription className="mt-1">{achievement.description}</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={achievement.isActive}
+                      onCheckedChange={() => toggleActive.mutate(achievement)}
+                      disabled={toggleActive.isPending || !achievement.requirements}
+                      data-testid={`switch-achievement-active-${achievement.id}`}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => openEdit(achievement)} data-testid={`button-edit-achievement-${achievement.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => evaluateExisting.mutate(achievement.id)}
+                      disabled={evaluateExisting.isPending || !achievement.isActive}
+                      data-testid={`button-evaluate-achievement-${achievement.id}`}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {achievement.requirements ? (
+                  <ul className="list-disc pl-5 text-muted-foreground">
+                    {achievement.requirements.conditions.map((condition, index) => (
+                      <li key={index}>{describeAchievementCondition(condition)}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-destructive">The stored rules are invalid - edit this achievement to fix them</p>
+                )}
+                <div className="flex gap-4 flex-wrap text-muted-foreground">
+                  <span className="capitalize">{achievement.category}</span>
+                  <span>{achievement.pointsAwarded} points</span>
+                  <span>{parseFloat(achievement.tokenReward).toLocaleString()} JCMOVES</span>
+                  <span>Earned by {achievement.earnedCount}</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Achievement" : "New Achievement"}</DialogTitle>
+            <DialogDescription>Employees earn it once every condition is met.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="achievementName">Name</Label>
+                <Input
+                  id="achievementName"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  data-testid="input-achievement-name"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Category</Label>
+                <Select value={draft.category} onValueChange={(value) => setDraft({ ...draft, category: value as AchievementDraft["category"] })}>
+                  <SelectTrigger className="mt-1 capitalize" data-testid="select-achievement-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACHIEVEMENT_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="achievementDescription">Description</Label>
+              <Textarea
+                id="achievementDescription"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                data-testid="input-achievement-description"
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="achievementPoints" className="text-sm text-muted-foreground">Points</Label>
+                <Input
+                  id="achievementPoints"
+                  type="number"
+                  min="0"
+                  value={draft.pointsAwarded}
+                  onChange={(e) => setDraft({ ...draft, pointsAwarded: e.target.value })}
+                  data-testid="input-achievement-points"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="achievementTokens" className="text-sm text-muted-foreground">JCMOVES</Label>
+                <Input
+                  id="achievementTokens"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={draft.tokenReward}
+                  onChange={(e) => setDraft({ ...draft, tokenReward: e.target.value })}
+                  data-testid="input-achievement-tokens"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label className="text-sm text-muted-foreground">Rarity</Label>
+                <Select value={draft.rarity} onValueChange={(value) => setDraft({ ...draft, rarity: value as AchievementDraft["rarity"] })}>
+                  <SelectTrigger className="mt-1 capitalize" data-testid="select-achievement-rarity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACHIEVEMENT_RARITIES.map((rarity) => (
+                      <SelectItem key={rarity} value={rarity} className="capitalize">{rarity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="achievementColor" className="text-sm text-muted-foreground">Icon color</Label>
+                <Input
+                  id="achievementColor"
+                  value={draft.iconColor}
+                  onChange={(e) => setDraft({ ...draft, iconColor: e.target.value })}
+                  data-testid="input-achievement-color"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Conditions</Label>
+                <Button variant="outline" size="sm" onClick={addCondition} disabled={draft.conditions.length >= 5} data-testid="button-add-condition">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {draft.conditions.map((condition, index) => {
+                const definition = ACHIEVEMENT_METRIC_DEFINITIONS[condition.metric];
+                return (
+                  <div key={index} className="rounded-lg border p-3 space-y-3" data-testid={`condition-${index}`}>
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1">
+                        <Label className="text-sm text-muted-foreground">Metric</Label>
+                        <Select value={condition.metric} onValueChange={(value) => setCondition(index, { metric: value as AchievementMetric })}>
+                          <SelectTrigger className="mt-1" data-testid={`select-condition-metric-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ACHIEVEMENT_METRICS.map((metric) => (
+                              <SelectItem key={metric} value={metric}>{ACHIEVEMENT_METRIC_DEFINITIONS[metric].label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="w-28">
+                        <Label className="text-sm text-muted-foreground">At least</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={condition.threshold}
+                          onChange={(e) => setCondition(index, { threshold: e.target.value })}
+                          data-testid={`input-condition-threshold-${index}`}
+                          className="mt-1"
+                        />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeCondition(index)}
+                        disabled={draft.conditions.length === 1}
+                        data-testid={`button-remove-condition-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      {definition.supportsWindow && (
+                        <div>
+                          <Label className="text-sm text-muted-foreground">In the last (days)</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="All time"
+                            value={condition.windowDays}
+                            onChange={(e) => setCondition(index, { windowDays: e.target.value })}
+                            data-testid={`input-condition-window-${index}`}
+                            className="mt-1"
+                          />
+                        </div>
+                      )}
+                      {definition.supportsCategory && (
+                        <div>
+                          <Label className="text-sm text-muted-foreground">Service type</Label>
+                          <Input
+                            placeholder="Any, e.g. commercial"
+                            value={condition.serviceType}
+                            onChange={(e) => setCondition(index, { serviceType: e.target.value })}
+                            data-testid={`input-condition-service-type-${index}`}
+                            className="mt-1"
+                          />
+                        </div>
+                      )}
+                      {condition.metric === "review_count" && (
+                        <div>
+                          <Label className="text-sm text-muted-foreground">Minimum rating</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            max="5"
+                            placeholder="Any"
+                            value={condition.minRating}
+                            onChange={(e) => setCondition(index, { minRating: e.target.value })}
+                            data-testid={`input-condition-min-rating-${index}`}
+                            className="mt-1"
+                          />
+                        </div>
+                      )}
+                      {condition.metric === "average_rating" && (
+                        <div>
+                          <Label className="text-sm text-muted-foreground">Minimum reviews</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="1"
+                            value={condition.minReviews}
+                            onChange={(e) => setCondition(index, { minReviews: e.target.value })}
+                            data-testid={`input-condition-min-reviews-${index}`}
+                            className="mt-1"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="achievementActive"
+                checked={draft.isActive}
+                onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                data-testid="switch-achievement-active"
+              />
+              <Label htmlFor="achievementActive">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveAchievement.mutate()} disabled={saveAchievement.isPending} data-testid="button-save-achievement">
+              {saveAchievement.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Plus, Trash2, Flag, Trophy, XCircle } from "lucide-react";
+import type { User } from "@shared/schema";
+import {
+  COMPETITION_METRICS,
+  COMPETITION_METRIC_LABELS,
+  getCompetitionPrizes,
+  type CompetitionInput,
+  type CompetitionMetric,
+  type CompetitionSummary,
+} from "@shared/competitions";
+
+const NO_TEAM = "none";
+
+interface CompetitionForm {
+  name: string;
+  description: string;
+  metric: CompetitionMetric;
+  startsAt: string;
+  endsAt: string;
+  prizePoolTokens: string;
+  prizeSplits: string;
+  minScore: string;
+  minReviews: string;
+}
+
+const EMPTY_FORM: CompetitionForm = {
+  name: "",
+  description: "",
+  metric: "jobs_completed",
+  startsAt: "",
+  endsAt: "",
+  prizePoolTokens: "1000",
+  prizeSplits: "50, 30, 20",
+  minScore: "",
+  minReviews: "",
+};
+
+function getEmployeeName(employee: User): string {
+  return `${employee.firstName || ""} ${employee.lastName || ""}`.trim() || employee.email || "Employee";
+}
+
+export default function AdminCompetitionsPage() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<CompetitionForm>(EMPTY_FORM);
+  const [teamMode, setTeamMode] = useState(false);
+  const [teamNames, setTeamNames] = useState<string[]>(["Team 1", "Team 2"]);
+  const [assignments, setAssignments] = useState<Record<string, number>>({}); // Employee ID -> index into teamNames
+
+  const { data: competitions = [], isLoading } = useQuery<CompetitionSummary[]>({
+    queryKey: ["/api/admin/competitions"],
+  });
+
+  const { data: employees = [] } = useQuery<User[]>({
+    queryKey: ["/api/employees"],
+    enabled: teamMode,
+  });
+
+  const prizeSplits = form.prizeSplits.split(",").map((split) => split.trim()).filter(Boolean).map((split) => parseFloat(split) || 0);
+  const prizes = getCompetitionPrizes(parseFloat(form.prizePoolTokens) || 0, prizeSplits);
+
+  const setField = <K extends keyof CompetitionForm>(key: K, value: CompetitionForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const removeTeam = (index: number) => {
+    setTeamNames((prev) => prev.filter((_, i) => i !== index));
+    // Members of the removed team go back to unassigned; later teams shift down one
+    setAssignments((prev) => {
+      const next: Record<string, number> = {};
+      for (const [employeeId, teamIndex] of Object.entries(prev)) {
+        if (teamIndex !== index) next[employeeId] = teamIndex > index ? teamIndex - 1 : teamIndex;
+      }
+      return next;
+    });
+  };
+
+  const assignEmployee = (employeeId: string, value: string) => {
+    setAssignments((prev) => {
+      const next = { ...prev };
+      if (value === NO_TEAM) delete next[employeeId];
+      else next[employeeId] = parseInt(value);
+      return next;
+    });
+  };
+
+  const invalidateCompetitions = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/competitions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/competitions"] });
+  };
+
+  const createCompetition = useMutation({
+    mutationFn: async () => {
+      const input: CompetitionInput = {
+        name: form.name,
+        description: form.description || undefined,
+        metric: form.metric,
+        startsAt: new Date(form.startsAt),
+        endsAt: new Date(form.endsAt),
+        prizePoolTokens: parseFloat(form.prizePoolTokens) || 0,
+        prizeSplits,
+        minScore: form.minScore ? parseFloat(form.minScore) : undefined,
+        minReviews: form.metric === "average_rating" && form.minReviews ? parseInt(form.minReviews) : undefined,
+        teams: teamMode
+          ? teamNames.map((name, index) => ({
+              name,
+              memberIds: Object.keys(assignments).filter((employeeId) => assignments[employeeId] === index),
+            }))
+          : undefined,
+      };
+      const response = await apiRequest("POST", "/api/admin/competitions", input);
+      return response.json() as Promise<CompetitionSummary>;
+    },
+    onSuccess: (competition) => {
+      toast({
+        title: "Competition created",
+        description: `${competition.name} is on employee home now.`,
+      });
+      setForm(EMPTY_FORM);
+      setAssignments({});
+      invalidateCompetitions();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Create Failed",
+        description: error.message || "Failed to create the competition",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCompetition = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "cancel" | "close" }) => {
+      const response = await apiRequest("POST", `/api/admin/competitions/${id}/${action}`);
+      return response.json() as Promise<CompetitionSummary>;
+    },
+    onSuccess: (competition) => {
+      toast({
+        title: competition.phase === "cancelled" ? "Competition cancelled" : "Competition closed",
+        description: competition.phase === "cancelled" ? competition.name : "Final results are in and prizes are being paid.",
+      });
+      invalidateCompetitions();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update the competition",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="container mx-auto px-4 py-6 md:py-8 max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-2 flex items-center gap-2" data-testid="heading-admin-competitions">
+              <Flag className="h-7 w-7" />
+              Competitions
+            </h1>
+            <p className="text-sm md:text-base text-muted-foreground">
+              Time-boxed challenges with JCMOVES prizes from the treasury
+            </p>
+          </div>
+          <Link href="/leads">
+            <Button variant="outline" data-testid="button-back-to-leads">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Leads
+            </Button>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Competition</CardTitle>
+            <CardDescription>Scores come from jobs, reviews and points recorded between the start and end</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" value={form.name} onChange={(e) => setField("name", e.target.value)} placeholder="e.g. Zero Damage October" data-testid="input-name" className="mt-1" />
+              </div>
+              <div>
+                <Label>Scored by</Label>
+                <Select value={form.metric} onValueChange={(value) => setField("metric", value as CompetitionMetric)}>
+                  <SelectTrigger className="mt-1" data-testid="select-metric">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPETITION_METRICS.map((metric) => (
+                      <SelectItem key={metric} value={metric}>{COMPETITION_METRIC_LABELS[metric]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="startsAt">Starts</Label>
+                <Input id="startsAt" type="datetime-local" value={form.startsAt} onChange={(e) => setField("startsAt", e.target.value)} data-testid="input-starts-at" className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="endsAt">Ends</Label>
+                <Input id="endsAt" type="datetime-local" value={form.endsAt} onChange={(e) => setField("endsAt", e.target.value)} data-testid="input-ends-at" className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="prizePoolTokens">Prize pool (JCMOVES)</Label>
+                <Input id="prizePoolTokens" type="number" min="0" value={form.prizePoolTokens} onChange={(e) => setField("prizePoolTokens", e.target.value)} data-testid="input-prize-pool" className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="prizeSplits">Prize split (% by place, 1st first)</Label>
+                <Input id="prizeSplits" value={form.prizeSplits} onChange={(e) => setField("prizeSplits", e.target.value)} data-testid="input-prize-splits" className="mt-1" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {prizes.map((prize, index) => `#${index + 1}: ${prize.toLocaleString()}`).join(" • ")}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="minScore">Minimum score to place (optional)</Label>
+                <Input id="minScore" type="number" min="0" value={form.minScore} onChange={(e) => setField("minScore", e.target.value)} data-testid="input-min-score" className="mt-1" />
+              </div>
+              {form.metric === "average_rating" && (
+                <div>
+                  <Label htmlFor="minReviews">Minimum reviews to place (optional)</Label>
+                  <Input id="minReviews" type="number" min="1" value={form.minReviews} onChange={(e) => setField("minReviews", e.target.value)} data-testid="input-min-reviews" className="mt-1" />
+                </div>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="description">Description (optional)</Label>
+              <Textarea id="description" value={form.description} onChange={(e) => setField("description", e.target.value)} rows={2} data-testid="input-description" className="mt-1" />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Switch id="teamMode" checked={teamMode} onCheckedChange={setTeamMode} data-testid="switch-team-mode" />
+              <Label htmlFor="teamMode">Team competition</Label>
+              <span className="text-xs text-muted-foreground">
+                {teamMode ? "Only assigned employees take part; team prizes are split equally between members" : "Every employee takes part individually"}
+              </span>
+            </div>
+
+            {teamMode && (
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Teams</Label>
+                    <Button variant="outline" size="sm" onClick={() => setTeamNames((prev) => [...prev, `Team ${prev.length + 1}`])} data-testid="button-add-team">
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                  {teamNames.map((teamName, index) => (
+                    <div key={index} className="flex items-center gap-2" data-testid={`team-${index}`}>
+                      <Input value={teamName} onChange={(e) => setTeamNames((prev) => prev.map((name, i) => (i === index ? e.target.value : name)))} />
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {Object.values(assignments).filter((teamIndex) => teamIndex === index).length} members
+                      </span>
+                      <Button variant="ghost" size="icon" onClick={() => removeTeam(index)} disabled={teamNames.length <= 2}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label>Members</Label>
+                  {employees.map((employee) => (
+                    <div key={employee.id} className="flex items-center justify-between gap-2" data-testid={`team-member-${employee.id}`}>
+                      <span className="text-sm">{getEmployeeName(employee)}</span>
+                      <Select
+                        value={assignments[employee.id] !== undefined ? String(assignments[employee.id]) : NO_TEAM}
+                        onValueChange={(value) => assignEmployee(employee.id, value)}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TEAM}>Not taking part</SelectItem>
+                          {teamNames.map((teamName, index) => (
+                            <SelectItem key={index} value={String(index)}>{teamName || `Team ${index + 1}`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={() => createCompetition.mutate()}
+              disabled={!form.name || !form.startsAt || !form.endsAt || createCompetition.isPending}
+              data-testid="button-create-competition"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {createCompetition.isPending ? "Creating..." : "Create Competition"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Competitions</CardTitle>
+            <CardDescription>Ended competitions are closed and paid automatically; close one early to settle it now</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {competitions.length === 0 && <p className="text-sm text-muted-foreground">No competitions yet</p>}
+            {competitions.map((competition) => (
+              <div key={competition.id} className="border-b last:border-0 pb-4 space-y-2" data-testid={`admin-competition-${competition.id}`}>
+                <div className="flex items-start justify-between gap-2 flex-wrap">
+                  <div>
+                    <p className="font-semibold flex items-center gap-2">
+                      {competition.name}
+                      <Badge variant="outline">{competition.phase}</Badge>
+                      {competition.mode === "team" && <Badge variant="secondary">{competition.teams.length} teams</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {COMPETITION_METRIC_LABELS[competition.metric]} • {new Date(competition.startsAt).toLocaleString()} - {new Date(competition.endsAt).toLocaleString()} • {parseFloat(competition.prizePoolTokens).toLocaleString()} JCMOVES ({competition.prizeSplits.join("/")}%)
+                    </p>
+                  </div>
+                  {(competition.phase === "upcoming" || competition.phase === "live" || competition.phase === "finalizing") && (
+                    <div className="flex gap-2">
+                      {competition.phase === "finalizing" && (
+                        <Button
+                          size="sm"
+                          onClick={() => updateCompetition.mutate({ id: competition.id, action: "close" })}
+                          disabled={updateCompetition.isPending}
+                          data-testid={`button-close-competition-${competition.id}`}
+                        >
+                          <Trophy className="h-4 w-4 mr-1" />
+                          Close & Pay
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          if (window.confirm(`Cancel "${competition.name}"? No prizes will be paid.`)) {
+                            updateCompetition.mutate({ id: competition.id, action: "cancel" });
+                          }
+                        }}
+                        disabled={updateCompetition.isPending}
+                        data-testid={`button-cancel-competition-${competition.id}`}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {competition.standings.slice(0, 3).map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between text-sm" data-testid={`admin-standing-${competition.id}-${entry.rank}`}>
+                    <span>#{entry.rank} {entry.name}</span>
+                    <span className="text-muted-foreground">
+                      {competition.metric === "average_rating" ? entry.score.toFixed(2) : entry.score.toLocaleString()}
+                      {parseFloat(entry.prizeTokens) > 0 && ` • ${parseFloat(entry.prizeTokens).toLocaleString()} JCMOVES ${entry.payoutStatus}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Plus, Trash2, Save, Gamepad2, BarChart3 } from "lucide-react";
+import {
+  DEFAULT_GAMIFICATION_SETTINGS,
+  GAMIFICATION_CATEGORY_LABELS,
+  GAMIFICATION_SETTING_CATEGORIES,
+  GAMIFICATION_SETTING_DEFINITIONS,
+  GAMIFICATION_SETTING_KEYS,
+  type GamificationConfigChangeSummary,
+  type GamificationImpactPreview,
+  type GamificationSettingKey,
+  type GamificationSettings,
+  type RankTitle,
+} from "@shared/gamification-config";
+
+interface GamificationConfigResponse {
+  settings: GamificationSettings;
+}
+
+type NumberSettingKey = { [K in GamificationSettingKey]: GamificationSettings[K] extends number ? K : never }[GamificationSettingKey];
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === "object" && item ? `${item.title} (L${item.minLevel})` : String(item))).join(", ");
+  }
+  return value === null || value === undefined ? "-" : String(value);
+}
+
+function formatDelta(actual: number, preview: number): string {
+  const delta = preview - actual;
+  if (Math.abs(delta) < 0.005) return "no change";
+  return `${delta > 0 ? "+" : ""}${delta.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+export default function AdminGamificationPage() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<GamificationSettings>(DEFAULT_GAMIFICATION_SETTINGS);
+  const [prizesText, setPrizesText] = useState("");
+  const [reason, setReason] = useState("");
+  const [preview, setPreview] = useState<GamificationImpactPreview | null>(null);
+
+  const { data, isLoading } = useQuery<GamificationConfigResponse>({
+    queryKey: ["/api/admin/gamification-config"],
+  });
+
+  const { data: changeHistory = [] } = useQuery<GamificationConfigChangeSummary[]>({
+    queryKey: ["/api/admin/gamification-config/changes"],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setSettings(data.settings);
+      setPrizesText(data.settings.leaderboardPrizes.join(", "));
+      setPreview(null);
+    }
+  }, [data]);
+
+  // Only the settings that differ from what's saved are sent
+  const getChanges = (): Partial<GamificationSettings> => {
+    const leaderboardPrizes = prizesText.split(",").map((prize) => prize.trim()).filter(Boolean).map((prize) => parseFloat(prize) || 0);
+    const edited: GamificationSettings = { ...settings, leaderboardPrizes };
+    const changes: Partial<GamificationSettings> = {};
+    for (const key of GAMIFICATION_SETTING_KEYS) {
+      if (!data || JSON.stringify(edited[key]) !== JSON.stringify(data.settings[key])) {
+        (changes as Record<GamificationSettingKey, unknown>)[key] = edited[key];
+      }
+    }
+    return changes;
+  };
+
+  const changedCount = Object.keys(getChanges()).length;
+
+  const previewImpact = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/gamification-config/preview", { changes: getChanges() });
+      return response.json() as Promise<GamificationImpactPreview>;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to preview the changes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/admin/gamification-config", { changes: getChanges(), reason: reason || undefined });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Settings saved",
+        description: "Rewards use the new values from now on.",
+      });
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/gamification-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/gamification-config/changes"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setNumber = (key: NumberSettingKey, value: string) => {
+    setSettings((prev) => ({ ...prev, [key]: parseFloat(value) || 0 }));
+    setPreview(null);
+  };
+
+  const setRankTitle = (index: number, rankTitle: RankTitle) => {
+    setSettings((prev) => ({ ...prev, rankTitles: prev.rankTitles.map((current, i) => (i === index ? rankTitle : current)) }));
+    setPreview(null);
+  };
+
+  const addRankTitle = () => {
+    const nextLevel = Math.max(...settings.rankTitles.map((title) => title.minLevel), 0) + 1;
+    setSettings((prev) => ({ ...prev, rankTitles: [...prev.rankTitles, { minLevel: nextLevel, title: "" }] }));
+    setPreview(null);
+  };
+
+  const removeRankTitle = (index: number) => {
+    setSettings((prev) => ({ ...prev, rankTitles: prev.rankTitles.filter((_, i) => i !== index) }));
+    setPreview(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="container mx-auto px-4 py-6 md:py-8 max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-2 flex items-center gap-2" data-testid="heading-admin-gamification">
+              <Gamepad2 className="h-7 w-7" />
+              Gamification Settings
+            </h1>
+            <p className="text-sm md:text-base text-muted-foreground">
+              Points, JCMOVES rewards, mining rates, levels and rank titles
+            </p>
+          </div>
+          <Link href="/leads">
+            <Button variant="outline" data-testid="button-back-to-leads">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Leads
+            </Button>
+          </Link>
+        </div>
+
+        {GAMIFICATION_SETTING_CATEGORIES.map((category) => {
+          const numberKeys = GAMIFICATION_SETTING_KEYS.filter(
+            (key): key is NumberSettingKey => GAMIFICATION_SETTING_DEFINITIONS[key].category === category && GAMIFICATION_SETTING_DEFINITIONS[key].dataType === "number"
+          );
+          return (
+            <Card key={category}>
+              <CardHeader>
+                <CardTitle>{GAMIFICATION_CATEGORY_LABELS[category]}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {numberKeys.length > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {numberKeys.map((key) => (
+                      <div key={key}>
+                        <Label htmlFor={key} className="text-sm text-muted-foreground">{GAMIFICATION_SETTING_DEFINITIONS[key].label}</Label>
+                        <Input
+                          id={key}
+                          type="number"
+                          step={GAMIFICATION_SETTING_DEFINITIONS[key].step}
+                          value={settings[key]}
+                          onChange={(e) => setNumber(key, e.target.value)}
+                          data-testid={`input-${key}`}
+                          className="mt-1"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {category === "leaderboard" && (
+                  <div>
+                    <Label htmlFor="leaderboardPrizes" className="text-sm text-muted-foreground">
+                      {GAMIFICATION_SETTING_DEFINITIONS.leaderboardPrizes.label} - 1st place first, comma separated
+                    </Label>
+                    <Input
+                      id="leaderboardPrizes"
+                      value={prizesText}
+                      onChange={(e) => {
+                        setPrizesText(e.target.value);
+                        setPreview(null);
+                      }}
+                      data-testid="input-leaderboardPrizes"
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+
+                {category === "levels" && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm text-muted-foreground">{GAMIFICATION_SETTING_DEFINITIONS.rankTitles.label}</Label>
+                      <Button variant="outline" size="sm" onClick={addRankTitle} data-testid="button-add-rank-title">
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+                      <span className="col-span-3">From level</span>
+                      <span className="col-span-8">Title</span>
+                    </div>
+                    {settings.rankTitles.map((rankTitle, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center" data-testid={`rank-title-${index}`}>
+                        <Input
+                          className="col-span-3"
+                          type="number"
+                          min="1"
+                          value={rankTitle.minLevel}
+                          onChange={(e) => setRankTitle(index, { ...rankTitle, minLevel: parseInt(e.target.value) || 1 })}
+                        />
+                        <Input className="col-span-8" value={rankTitle.title} onChange={(e) => setRankTitle(index, { ...rankTitle, title: e.target.value })} />
+                        <Button variant="ghost" size="icon" className="col-span-1" onClick={() => removeRankTitle(index)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground pt-2">
+                      Level n needs (n - 1)² × the level points base. Saving a new base or titles re-levels every employee.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Review Changes</CardTitle>
+            <CardDescription>
+              {changedCount ? `${changedCount} setting${changedCount !== 1 ? "s" : ""} changed` : "No changes yet"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="reason">Reason for the change</Label>
+              <Input
+                id="reason"
+                value={reason}
+                placeholder="e.g. Summer push on on-time jobs"
+                onChange={(e) => setReason(e.target.value)}
+                data-testid="input-reason"
+                className="mt-1"
+              />
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => previewImpact.mutate()}
+                disabled={!changedCount || previewImpact.isPending}
+                data-testid="button-preview-impact"
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                {previewImpact.isPending ? "Calculating..." : "Preview Impact"}
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => saveSettings.mutate()}
+                disabled={!changedCount || saveSettings.isPending}
+                data-testid="button-save-gamification"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saveSettings.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+
+            {preview && (
+              <div className="space-y-2" data-testid="gamification-impact-preview">
+                <p className="text-sm text-muted-foreground">
+                  Payouts from {new Date(preview.from).toLocaleDateString()} to {new Date(preview.to).toLocaleDateString()} recalculated with these values
+                </p>
+                <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+                  <span className="col-span-4">Reward</span>
+                  <span className="col-span-4 text-right">Points (actual → preview)</span>
+                  <span className="col-span-4 text-right">JCMOVES (actual → preview)</span>
+                </div>
+                {[...preview.lines, { category: "total", label: "Total", count: 0, ...preview.totals }].map((line) => (
+                  <div key={line.category} className="grid grid-cols-12 gap-2 text-sm border-b last:border-0 pb-2" data-testid={`impact-${line.category}`}>
+                    <span className="col-span-4 font-medium">
+                      {line.label}
+                      {line.category !== "total" && <span className="text-xs text-muted-foreground ml-1">({line.count})</span>}
+                    </span>
+                    <span className="col-span-4 text-right">
+                      {line.actualPoints.toLocaleString()} → {line.previewPoints.toLocaleString()}
+                      <span className="block text-xs text-muted-foreground">{formatDelta(line.actualPoints, line.previewPoints)}</span>
+                    </span>
+                    <span className="col-span-4 text-right">
+                      {line.actualTokens.toLocaleString(undefined, { maximumFractionDigits: 2 })} → {line.previewTokens.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      <span className="block text-xs text-muted-foreground">{formatDelta(line.actualTokens, line.previewTokens)}</span>
+                    </span>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  {preview.levels.levelChanges} of {preview.levels.employees} employees would change level and {preview.levels.titleChanges} would change rank title.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {changeHistory.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Audit Trail</CardTitle>
+              <CardDescription>Every saved change, newest first</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {changeHistory.map((change) => (
+                <div key={change.id} className="text-sm border-b last:border-0 pb-2" data-testid={`gamification-change-${change.id}`}>
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">
+                        {GAMIFICATION_SETTING_DEFINITIONS[change.key as GamificationSettingKey]
+                          ? `${GAMIFICATION_CATEGORY_LABELS[GAMIFICATION_SETTING_DEFINITIONS[change.key as GamificationSettingKey].category]}: ${GAMIFICATION_SETTING_DEFINITIONS[change.key as GamificationSettingKey].label}`
+                          : change.key}
+                      </Badge>
+                      <span>{formatValue(change.oldValue)} → {formatValue(change.newValue)}</span>
+                    </div>
+                    <span className="text-muted-foreground">
+                      {change.changedBy?.name || "System"} • {new Date(change.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {change.reason && <p className="text-xs text-muted-foreground mt-1">{change.reason}</p>}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
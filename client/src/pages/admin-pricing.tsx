@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Plus, Trash2, Save, Calculator } from "lucide-react";
+import { DEFAULT_RATE_CARD, TRUCK_CONFIG_LABELS, type RateCard, type SpecialItemRate } from "@shared/pricing";
+import type { PricingRateCard } from "@shared/schema";
+
+interface RateCardResponse {
+  rateCard: PricingRateCard | null;
+  rates: RateCard;
+}
+
+type NumericRecordKey = "crewHourlyRates" | "defaultHoursByPropertySize" | "truckSurcharges";
+type ScalarRateKey = "additionalMoverHourlyRate" | "minimumHours" | "mileageRate" | "includedMiles" | "stairsFeePerFlight" | "elevatorFee" | "weekendMultiplier" | "holidayMultiplier";
+
+const SCALAR_FIELDS: { key: ScalarRateKey; label: string; step: string }[] = [
+  { key: "additionalMoverHourlyRate", label: "Extra mover ($/hr)", step: "0.01" },
+  { key: "minimumHours", label: "Minimum hours", step: "0.5" },
+  { key: "mileageRate", label: "Mileage rate ($/mi)", step: "0.01" },
+  { key: "includedMiles", label: "Included miles", step: "1" },
+  { key: "stairsFeePerFlight", label: "Stairs fee ($/flight)", step: "0.01" },
+  { key: "elevatorFee", label: "Elevator fee ($)", step: "0.01" },
+  { key: "weekendMultiplier", label: "Weekend multiplier", step: "0.05" },
+  { key: "holidayMultiplier", label: "Holiday multiplier", step: "0.05" },
+];
+
+const RECORD_SECTIONS: { key: NumericRecordKey; title: string; description: string; keyLabel: string; valueLabel: string }[] = [
+  { key: "crewHourlyRates", title: "Crew Hourly Rates", description: "Hourly rate for the whole crew, by crew size", keyLabel: "Crew size", valueLabel: "$/hr" },
+  { key: "truckSurcharges", title: "Truck Surcharges", description: "Flat fee by truck configuration", keyLabel: "Truck config", valueLabel: "$" },
+  { key: "defaultHoursByPropertySize", title: "Default Hours", description: "Labor hours used when a quote has no estimate", keyLabel: "Property size", valueLabel: "Hours" },
+];
+
+export default function AdminPricingPage() {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<RateCard>(DEFAULT_RATE_CARD);
+  const [name, setName] = useState("");
+  const [holidaysText, setHolidaysText] = useState("");
+
+  const { data, isLoading } = useQuery<RateCardResponse>({
+    queryKey: ["/api/pricing/rate-card"],
+  });
+
+  const { data: history = [] } = useQuery<PricingRateCard[]>({
+    queryKey: ["/api/pricing/rate-cards"],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setRates(data.rates);
+      setName(data.rateCard?.name || "");
+      setHolidaysText(data.rates.holidays.join(", "));
+    }
+  }, [data]);
+
+  const saveRateCard = useMutation({
+    mutationFn: async () => {
+      const holidays = holidaysText.split(",").map((holiday) => holiday.trim()).filter(Boolean);
+      const response = await apiRequest("PUT", "/api/pricing/rate-card", { name, rates: { ...rates, holidays } });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rate card saved",
+        description: "New quotes and estimates will use these rates.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/rate-card"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/rate-cards"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save rate card",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setScalar = (key: ScalarRateKey, value: string) => {
+    setRates((prev) => ({ ...prev, [key]: parseFloat(value) || 0 }));
+  };
+
+  const setRecordEntry = (section: NumericRecordKey, oldKey: string, newKey: string, value: number) => {
+    setRates((prev) => {
+      const entries = Object.entries(prev[section]).map(([key, current]) =>
+        key === oldKey ? [newKey, value] as const : [key, current] as const
+      );
+      return { ...prev, [section]: Object.fromEntries(entries) };
+    });
+  };
+
+  const addRecordEntry = (section: NumericRecordKey) => {
+    setRates((prev) => ({ ...prev, [section]: { ...prev[section], "": 0 } }));
+  };
+
+  const removeRecordEntry = (section: NumericRecordKey, key: string) => {
+    setRates((prev) => {
+      const { [key]: _removed, ...rest } = prev[section];
+      return { ...prev, [section]: rest };
+    });
+  };
+
+  const setSpecialItem = (oldType: string, newType: string, item: SpecialItemRate) => {
+    setRates((prev) => {
+      const entries = Object.entries(prev.specialItems).map(([type, current]) =>
+        type === oldType ? [newType, item] as const : [type, current] as const
+      );
+      return { ...prev, specialItems: Object.fromEntries(entries) };
+    });
+  };
+
+  const addSpecialItem = () => {
+    setRates((prev) => ({
+      ...prev,
+      specialItems: { ...prev.specialItems, "": { label: "", baseFee: 0, feePerHundredLbs: 0, maxWeightLbs: 1000 } },
+    }));
+  };
+
+  const removeSpecialItem = (type: string) => {
+    setRates((prev) => {
+      const { [type]: _removed, ...rest } = prev.specialItems;
+      return { ...prev, specialItems: rest };
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="container mx-auto px-4 py-6 md:py-8 max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-2 flex items-center gap-2" data-testid="heading-admin-pricing">
+              <Calculator className="h-7 w-7" />
+              Quote Pricing
+            </h1>
+            <p className="text-sm md:text-base text-muted-foreground">
+              Rates used for job quotes and instant customer estimates
+            </p>
+          </div>
+          <Link href="/leads">
+            <Button variant="outline" data-testid="button-back-to-leads">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Leads
+            </Button>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>General Rates</CardTitle>
+            <CardDescription>
+              {data?.rateCard
+                ? `Active card: ${data.rateCard.name} (saved ${new Date(data.rateCard.createdAt).toLocaleDateString()})`
+                : "No rate card saved yet - showing the default rates"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="rateCardName">Rate card name</Label>
+              <Input
+                id="rateCardName"
+                value={name}
+                placeholder="e.g. 2026 Summer Rates"
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-rate-card-name"
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {SCALAR_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <Label htmlFor={field.key} className="text-sm text-muted-foreground">{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    step={field.step}
+                    value={rates[field.key]}
+                    onChange={(e) => setScalar(field.key, e.target.value)}
+                    data-testid={`input-${field.key}`}
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label htmlFor="holidays" className="text-sm text-muted-foreground">Holidays (MM-DD or YYYY-MM-DD, comma separated)</Label>
+              <Input
+                id="holidays"
+                value={holidaysText}
+                onChange={(e) => setHolidaysText(e.target.value)}
+                data-testid="input-holidays"
+                className="mt-1"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {RECORD_SECTIONS.map((section) => (
+          <Card key={section.key}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>{section.title}</CardTitle>
+                <CardDescription>{section.description}</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => addRecordEntry(section.key)} data-testid={`button-add-${section.key}`}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+                <span className="col-span-6">{section.keyLabel}</span>
+                <span className="col-span-5">{section.valueLabel}</span>
+              </div>
+              {Object.entries(rates[section.key]).map(([key, value], index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <Input
+                    className="col-span-6"
+                    value={key}
+                    placeholder={section.key === "truckSurcharges" ? TRUCK_CONFIG_LABELS[key] : undefined}
+                    onChange={(e) => setRecordEntry(section.key, key, e.target.value, value)}
+                    data-testid={`input-${section.key}-key-${index}`}
+                  />
+                  <Input
+                    className="col-span-5"
+                    type="number"
+                    step="0.01"
+                    value={value}
+                    onChange={(e) => setRecordEntry(section.key, key, key, parseFloat(e.target.value) || 0)}
+                    data-testid={`input-${section.key}-value-${index}`}
+                  />
+                  <Button variant="ghost" size="icon" className="col-span-1" onClick={() => removeRecordEntry(section.key, key)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Special Items</CardTitle>
+              <CardDescription>Base fee plus a fee per 100 lbs, up to the weight cap</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={addSpecialItem} data-testid="button-add-special-item-rate">
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+              <span className="col-span-2">Type</span>
+              <span className="col-span-3">Label</span>
+              <span className="col-span-2">Base fee</span>
+              <span className="col-span-2">Per 100 lbs</span>
+              <span className="col-span-2">Max lbs</span>
+            </div>
+            {Object.entries(rates.specialItems).map(([type, item], index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center" data-testid={`special-item-rate-${index}`}>
+                <Input className="col-span-2" value={type} onChange={(e) => setSpecialItem(type, e.target.value, item)} />
+                <Input className="col-span-3" value={item.label} onChange={(e) => setSpecialItem(type, type, { ...item, label: e.target.value })} />
+                <Input className="col-span-2" type="number" step="0.01" value={item.baseFee} onChange={(e) => setSpecialItem(type, type, { ...item, baseFee: parseFloat(e.target.value) || 0 })} />
+                <Input className="col-span-2" type="number" step="0.01" value={item.feePerHundredLbs} onChange={(e) => setSpecialItem(type, type, { ...item, feePerHundredLbs: parseFloat(e.target.value) || 0 })} />
+                <Input className="col-span-2" type="number" value={item.maxWeightLbs} onChange={(e) => setSpecialItem(type, type, { ...item, maxWeightLbs: parseFloat(e.target.value) || 0 })} />
+                <Button variant="ghost" size="icon" className="col-span-1" onClick={() => removeSpecialItem(type)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground pt-2">
+              Items with a type that isn't listed here are priced with the "other" rate.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Button
+          className="w-full"
+          onClick={() => saveRateCard.mutate()}
+          disabled={saveRateCard.isPending}
+          data-testid="button-save-rate-card"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveRateCard.isPending ? "Saving..." : "Save & Activate Rate Card"}
+        </Button>
+
+        {history.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+              <CardDescription>Previously saved rate cards</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {history.map((rateCard) => (
+                <div key={rateCard.id} className="flex items-center justify-between text-sm border-b last:border-0 pb-2" data-testid={`rate-card-history-${rateCard.id}`}>
+                  <span>{rateCard.name}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{new Date(rateCard.createdAt).toLocaleString()}</span>
+                    {rateCard.isActive && <Badge>Active</Badge>}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toTimeInputValue } from "@/lib/scheduling";
+import { ArrowLeft, Check, ChevronLeft, ChevronRight, Clock, Download, Loader2, MapPin, Pencil, X } from "lucide-react";
+import {
+  TIME_ENTRY_STATUS_LABELS,
+  formatMinutesAsHours,
+  getBreakMinutes,
+  getPayrollWeekStart,
+  type TimeEntryBreak,
+  type TimeEntryStatus,
+} from "@shared/time-clock";
+
+interface TimesheetEntry {
+  id: string;
+  userId: string;
+  leadId: string;
+  employeeName: string;
+  customerName: string;
+  status: TimeEntryStatus;
+  clockInAt: string;
+  clockOutAt: string | null;
+  clockInDistanceMeters: number | null;
+  clockOutDistanceMeters: number | null;
+  locationVerified: boolean;
+  breaks: TimeEntryBreak[];
+  breakMinutes: number | null;
+  isOnTime: boolean | null;
+  notes: string | null;
+  originalClockInAt: string | null;
+  originalClockOutAt: string | null;
+  editNote: string | null;
+  reviewNote: string | null;
+  currentWorkedMinutes: number;
+}
+
+interface EmployeeWeekTotals {
+  userId: string;
+  employeeName: string;
+  entries: number;
+  approvedMinutes: number;
+  pendingMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  onTimeClockIns: number;
+  lateClockIns: number;
+  unverifiedEntries: number;
+}
+
+interface WeeklyTimesheets {
+  entries: TimesheetEntry[];
+  totals: EmployeeWeekTotals[];
+}
+
+const STATUS_VARIANTS: Record<TimeEntryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "outline",
+  submitted: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// YYYY-MM-DD in local time, as the timesheet routes expect
+const toWeekParam = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const toDateInputValue = (value: string) => toWeekParam(new Date(value));
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+const formatDistance = (meters: number | null) => meters === null ? "no location" : `${Math.round(meters)} m`;
+
+interface EditState {
+  entry: TimesheetEntry;
+  date: string;
+  clockIn: string;
+  clockOutDate: string;
+  clockOut: string;
+  breakMinutes: string;
+  note: string;
+}
+
+export default function AdminTimesheetsPage() {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() => getPayrollWeekStart(new Date()));
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const weekParam = toWeekParam(weekStart);
+
+  const { data, isLoading } = useQuery<WeeklyTimesheets>({
+    queryKey: ["/api/timesheets", weekParam],
+    queryFn: async () => {
+      const response = await fetch(`/api/timesheets?weekStart=${weekParam}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch timesheets");
+      }
+      return response.json();
+    },
+  });
+
+  const reviewEntry = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "approved" | "rejected" }) => {
+      const response = await apiRequest("POST", `/api/timesheets/${id}/review`, { status });
+      return response.json();
+    },
+    onSuccess: (_entry, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+      toast({ title: status === "approved" ? "Time approved" : "Time rejected" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review Failed", description: error.message || "Failed to review time entry", variant: "destructive" });
+    },
+  });
+
+  const editEntry = useMutation({
+    mutationFn: async (edit: EditState) => {
+      const response = await apiRequest("PATCH", `/api/timesheets/${edit.entry.id}`, {
+        clockInAt: new Date(`${edit.date}T${edit.clockIn}`).toISOString(),
+        clockOutAt: new Date(`${edit.clockOutDate}T${edit.clockOut}`).toISOString(),
+        breakMinutes: parseInt(edit.breakMinutes) || 0,
+        note: edit.note,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timesheets"] });
+      toast({ title: "Time entry updated", description: "The entry is back in the approval queue." });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to update time entry", variant: "destructive" });
+    },
+  });
+
+  const startEditing = (entry: TimesheetEntry) => {
+    setEditing({
+      entry,
+      date: toDateInputValue(entry.clockInAt),
+      clockIn: toTimeInputValue(entry.clockInAt),
+      clockOutDate: toDateInputValue(entry.clockOutAt!),
+      clockOut: toTimeInputValue(entry.clockOutAt),
+      breakMinutes: String(entry.breakMinutes ?? getBreakMinutes(entry.breaks)),
+      note: "",
+    });
+  };
+
+  const entries = data?.entries || [];
+  const totals = data?.totals || [];
+  const awaitingApproval = entries.filter((entry) => entry.status === "submitted").length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="container mx-auto px-4 py-6 md:py-8 max-w-6xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-2 flex items-center gap-2" data-testid="heading-admin-timesheets">
+              <Clock className="h-7 w-7" />
+              Timesheets
+            </h1>
+            <p className="text-sm md:text-base text-muted-foreground">
+              Review crew clock-ins and export approved hours for payroll
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" asChild data-testid="button-export-payroll">
+              <a href={`/api/timesheets/export?weekStart=${weekParam}`}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+            <Link href="/leads">
+              <Button variant="outline" data-testid="button-back-to-leads">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Leads
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))} data-testid="button-previous-week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(getPayrollWeekStart(new Date()))} data-testid="button-this-week">
+            This Week
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))} data-testid="button-next-week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="font-medium ml-2" data-testid="text-week-range">
+            {weekStart.toLocaleDateString()} - {addDays(weekStart, 6).toLocaleDateString()}
+          </span>
+          {awaitingApproval > 0 && (
+            <Badge variant="secondary" className="ml-auto">{awaitingApproval} awaiting approval</Badge>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly Totals</CardTitle>
+                <CardDescription>Only approved hours are paid. Overtime is anything over 40 approved hours.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {totals.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No time recorded this week.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-4 font-medium">Employee</th>
+                          <th className="py-2 pr-4 font-medium text-right">Regular</th>
+                          <th className="py-2 pr-4 font-medium text-right">Overtime</th>
+                          <th className="py-2 pr-4 font-medium text-right">Pending</th>
+                          <th className="py-2 pr-4 font-medium text-right">On time</th>
+                          <th className="py-2 font-medium text-right">Unverified</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {totals.map((total) => (
+                          <tr key={total.userId} className="border-b last:border-0" data-testid={`row-timesheet-total-${total.userId}`}>
+                            <td className="py-2 pr-4 font-medium">{total.employeeName}</td>
+                            <td className="py-2 pr-4 text-right">{formatMinutesAsHours(total.regularMinutes)}</td>
+                            <td className="py-2 pr-4 text-right">{formatMinutesAsHours(total.overtimeMinutes)}</td>
+                            <td className="py-2 pr-4 text-right">{formatMinutesAsHours(total.pendingMinutes)}</td>
+                            <td className="py-2 pr-4 text-right">
+                              {total.onTimeClockIns}/{total.onTimeClockIns + total.lateClockIns}
+                            </td>
+                            <td className="py-2 text-right">{total.unverifiedEntries}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Time Entries</CardTitle>
+                <CardDescription>Entries clocked out away from the job address are flagged as unverified.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {entries.length === 0 && <p className="text-sm text-muted-foreground">No time entries this week.</p>}
+                {entries.map((entry) => (
+                  <div key={entry.id} className="border rounded-lg p-3 space-y-2" data-testid={`time-entry-${entry.id}`}>
+                    <div className="flex items-start justify-between gap-3 flex-wrap">
+                      <div>
+                        <p className="font-medium">
+                          {entry.employeeName}
+                          <span className="text-muted-foreground font-normal"> - </span>
+                          <Link href={`/lead/${entry.leadId}`} className="hover:underline">{entry.customerName}</Link>
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(entry.clockInAt).toLocaleDateString()} {formatTime(entry.clockInAt)}
+                          {" - "}
+                          {entry.clockOutAt ? formatTime(entry.clockOutAt) : "now"}
+                          {" · "}
+                          {formatMinutesAsHours(entry.currentWorkedMinutes)}h worked
+                          {(entry.breakMinutes ?? getBreakMinutes(entry.breaks)) > 0 && `, ${entry.breakMinutes ?? getBreakMinutes(entry.breaks)} min break`}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge variant={STATUS_VARIANTS[entry.status]}>{TIME_ENTRY_STATUS_LABELS[entry.status]}</Badge>
+                        {entry.isOnTime === false && <Badge variant="destructive">Late</Badge>}
+                        {entry.isOnTime === true && <Badge variant="outline">On time</Badge>}
+                        {entry.status !== "open" && !entry.locationVerified && <Badge variant="destructive">Unverified</Badge>}
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      In: {formatDistance(entry.clockInDistanceMeters)} from job
+                      {entry.clockOutAt && ` · Out: ${formatDistance(entry.clockOutDistanceMeters)} from job`}
+                    </p>
+                    {entry.notes && <p className="text-sm">Crew note: {entry.notes}</p>}
+                    {entry.editNote && (
+                      <p className="text-xs text-muted-foreground">
+                        Edited: {entry.editNote}
+                        {entry.originalClockInAt && ` (originally ${formatTime(entry.originalClockInAt)} - ${entry.originalClockOutAt ? formatTime(entry.originalClockOutAt) : "open"})`}
+                      </p>
+                    )}
+                    {entry.reviewNote && <p className="text-xs text-muted-foreground">Review: {entry.reviewNote}</p>}
+                    {entry.status !== "open" && (
+                      <div className="flex flex-wrap gap-2">
+                        {entry.status !== "approved" && (
+                          <Button
+                            size="sm"
+                            onClick={() => reviewEntry.mutate({ id: entry.id, status: "approved" })}
+                            disabled={reviewEntry.isPending}
+                            data-testid={`button-approve-${entry.id}`}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                        )}
+                        {entry.status !== "rejected" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => reviewEntry.mutate({ id: entry.id, status: "rejected" })}
+                            disabled={reviewEntry.isPending}
+                            data-testid={`button-reject-${entry.id}`}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => startEditing(entry)} data-testid={`button-edit-${entry.id}`}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent data-testid="dialog-edit-time-entry">
+          <DialogHeader>
+            <DialogTitle>Edit Time Entry</DialogTitle>
+            <DialogDescription>
+              {editing?.entry.employeeName} on {editing?.entry.customerName}. The original times are kept for the record.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="editClockInDate">Clock in date</Label>
+                  <Input id="editClockInDate" type="date" value={editing.date} onChange={(e) => setEditing({ ...editing, date: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="editClockIn">Clock in time</Label>
+                  <Input id="editClockIn" type="time" value={editing.clockIn} onChange={(e) => setEditing({ ...editing, clockIn: e.target.value })} data-testid="input-edit-clock-in" />
+                </div>
+                <div>
+                  <Label htmlFor="editClockOutDate">Clock out date</Label>
+                  <Input id="editClockOutDate" type="date" value={editing.clockOutDate} onChange={(e) => setEditing({ ...editing, clockOutDate: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="editClockOut">Clock out time</Label>
+                  <Input id="editClockOut" type="time" value={editing.clockOut} onChange={(e) => setEditing({ ...editing, clockOut: e.target.value })} data-testid="input-edit-clock-out" />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="editBreakMinutes">Break minutes</Label>
+                <Input
+                  id="editBreakMinutes"
+                  type="number"
+                  min="0"
+                  value={editing.breakMinutes}
+                  onChange={(e) => setEditing({ ...editing, breakMinutes: e.target.value })}
+                  data-testid="input-edit-break-minutes"
+                />
+              </div>
+              <div>
+                <Label htmlFor="editNote">Reason for the change</Label>
+                <Textarea
+                  id="editNote"
+                  value={editing.note}
+                  onChange={(e) => setEditing({ ...editing, note: e.target.value })}
+                  placeholder="e.g. Forgot to clock out, confirmed with crew lead"
+                  data-testid="input-edit-note"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => editing && editEntry.mutate(editing)}
+              disabled={!editing?.note.trim() || editEntry.isPending}
+              data-testid="button-save-time-entry"
+            >
+              {editEntry.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
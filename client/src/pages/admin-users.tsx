@@ -157,7 +157,7 @@ export default function AdminUsersPage() {
     },
     onSuccess: (data: any) => {
       toast({
-        title: "Transfer Successful",
+        title: data.pendingApproval ? "Transfer Awaiting Approval" : "Transfer Successful",
         description: data.message || "Tokens transferred successfully"
       });
       setTransferAmount("");
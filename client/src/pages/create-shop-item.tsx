@@ -5,6 +5,7 @@ import { useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { insertShopItemSchema, type InsertShopItem } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { uploadMedia } from "@/lib/media-upload";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,7 +17,7 @@ import { ChevronLeft, ChevronRight, X, Upload, Loader2 } from "lucide-react";
 import { z } from "zod";
 
 // Form schema for client-side validation
-// Updated to accept both URLs and base64 data URLs for photo uploads
+// Photos are image URLs or files uploaded to the media store (/api/media/...)
 const formSchema = z.object({
   title: z.string().min(1, "Title is required").max(200),
   description: z.string().min(1, "Description is required"),
@@ -25,7 +26,7 @@ const formSchema = z.object({
   photos: z.array(
     z.string()
       .refine(
-        (val) => val.startsWith("http://") || val.startsWith("https://") || val.startsWith("data:image/"),
+        (val) => val.startsWith("http://") || val.startsWith("https://") || val.startsWith("/api/media/"),
         { message: "Must be a valid URL or image file" }
       )
   ).min(1, "At least one photo is required").max(10, "Maximum 10 photos allowed"),
@@ -41,6 +42,7 @@ export function CreateShopItemPage() {
   const [photoUrls, setPhotoUrls] = useState<string[]>([]);
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   const [photoInputValue, setPhotoInputValue] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -138,34 +140,28 @@ export function CreateShopItemPage() {
       validFiles.push(file);
     }
 
-    // Convert all valid files to base64
-    const base64Results: string[] = [];
+    // Upload all valid files to the media store
+    const uploadedUrls: string[] = [];
+    setIsUploading(true);
     for (const file of validFiles) {
       try {
-        const base64String = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-            const result = event.target?.result as string;
-            resolve(result);
-          };
-          reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
-          reader.readAsDataURL(file);
-        });
-        base64Results.push(base64String);
+        const media = await uploadMedia(file, "shop_item");
+        uploadedUrls.push(media.url);
       } catch (error) {
         toast({
           title: "Upload failed",
-          description: error instanceof Error ? error.message : `Failed to read ${file.name}`,
+          description: error instanceof Error ? error.message.replace(/^\d+: /, "") : `Failed to upload ${file.name}`,
           variant: "destructive",
         });
       }
     }
+    setIsUploading(false);
 
     // Update state with all new photos at once
-    if (base64Results.length > 0) {
+    if (uploadedUrls.length > 0) {
       setPhotoUrls(prevPhotos => {
         // Filter out duplicates - check against both existing and newly added photos
-        const uniqueNewPhotos = base64Results.filter((photo, index, self) => 
+        const uniqueNewPhotos = uploadedUrls.filter((photo, index, self) => 
           !prevPhotos.includes(photo) && self.indexOf(photo) === index
         );
         
@@ -303,10 +299,11 @@ export function CreateShopItemPage() {
                       onClick={() => document.getElementById('photo-file-input')?.click()}
                       variant="outline"
                       className="flex-1"
+                      disabled={isUploading}
                       data-testid="button-upload-photo"
                     >
-                      <Upload className="h-4 w-4 mr-2" />
-                      Upload from Device
+                      {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                      {isUploading ? "Uploading..." : "Upload from Device"}
                     </Button>
                   </div>
 
@@ -470,7 +467,7 @@ export function CreateShopItemPage() {
               <div className="flex gap-3">
                 <Button
                   type="submit"
-                  disabled={createItemMutation.isPending}
+                  disabled={createItemMutation.isPending || isUploading}
                   className="flex-1"
                   data-testid="button-submit"
                 >
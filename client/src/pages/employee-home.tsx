@@ -11,7 +11,11 @@ import { Link } from "wouter";
 import { useState, useEffect } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { getDailyScripture } from "@shared/scriptures";
+import { TimeClockCard } from "@/components/time-clock";
+import { LEAD_STATUS_LABELS, getAllowedLeadStatusTransitions, getLeadStatusActor } from "@shared/lead-status";
+import { CompetitionStandingsCard } from "@/components/competition-standings-card";
 
 interface Lead {
   id: string;
@@ -60,6 +64,7 @@ export default function EmployeeHomePage() {
   const [selectedCrewMembers, setSelectedCrewMembers] = useState<string[]>([]);
   const scripture = getDailyScripture();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const { data: allJobs = [] } = useQuery<Lead[]>({
     queryKey: ["/api/leads"],
@@ -129,15 +134,19 @@ export default function EmployeeHomePage() {
       });
       setIsManageDialogOpen(false);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update job",
+        description: error.message || "Failed to update job",
         variant: "destructive",
       });
     },
   });
 
+  // Status moves the server will accept for this user, from the shared lead status table
+  const statusActor = getLeadStatusActor(user?.role);
+  const allowedStatuses = selectedJob && statusActor ? getAllowedLeadStatusTransitions(selectedJob.status, statusActor) : [];
+
   // Handle date click
   const handleDateClick = (date: Date) => {
     setSelectedDate(date);
@@ -294,6 +303,12 @@ export default function EmployeeHomePage() {
           <p className="text-muted-foreground">Your daily hub for JC ON THE MOVE</p>
         </div>
 
+        {/* Time Clock */}
+        {(user?.role === 'employee' || user?.role === 'admin') && <TimeClockCard />}
+
+        {/* Competitions */}
+        <CompetitionStandingsCard />
+
         {/* Daily Scripture */}
         <Card className="border-2 border-primary/20 bg-gradient-to-br from-primary/5 to-background">
           <CardHeader>
@@ -817,37 +832,18 @@ export default function EmployeeHomePage() {
                   </div>
 
                   <div className="flex flex-wrap gap-2">
-                    {selectedJob.status === 'new' && (
-                      <Button 
-                        onClick={() => updateJobStatus('quoted')}
-                        disabled={updateJobMutation.isPending}
-                        data-testid="button-mark-quoted"
-                      >
-                        Mark as Quoted
-                      </Button>
-                    )}
-                    
-                    {['new', 'quoted'].includes(selectedJob.status) && (
+                    {allowedStatuses.map((status) => (
                       <Button 
-                        onClick={() => updateJobStatus('accepted')}
+                        key={status}
+                        onClick={() => updateJobStatus(status)}
                         disabled={updateJobMutation.isPending}
-                        data-testid="button-mark-accepted"
+                        variant={status === 'cancelled' || status === 'no_show' ? 'outline' : 'default'}
+                        className={status === 'completed' ? 'bg-green-600 hover:bg-green-700' : undefined}
+                        data-testid={`button-mark-${status}`}
                       >
-                        Mark as Accepted
+                        Mark as {LEAD_STATUS_LABELS[status]}
                       </Button>
-                    )}
-                    
-                    {['accepted', 'confirmed', 'in-progress'].includes(selectedJob.status) && (
-                      <Button 
-                        onClick={() => updateJobStatus('completed')}
-                        disabled={updateJobMutation.isPending}
-                        variant="default"
-                        className="bg-green-600 hover:bg-green-700"
-                        data-testid="button-mark-completed"
-                      >
-                        Mark as Completed
-                      </Button>
-                    )}
+                    ))}
 
                     {selectedJob.status === 'completed' && (
                       <div className="w-full p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-900 rounded-lg">
@@ -859,7 +855,7 @@ export default function EmployeeHomePage() {
                   </div>
 
                   <p className="text-xs text-muted-foreground mt-2">
-                    Workflow: New → Quoted → Accepted → Completed
+                    Workflow: New → Quoted → Confirmed → Available → Accepted → In Progress → Completed
                   </p>
                 </div>
 
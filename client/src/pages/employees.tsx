@@ -18,12 +18,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ArrowLeft, Mail, Users, Trash2 } from "lucide-react";
+import { CrewProfileDialog } from "@/components/crew-profile-dialog";
+import { ArrowLeft, Mail, Users, Trash2, Wrench } from "lucide-react";
+import { CREW_SKILL_LABELS, type CrewSkill } from "@shared/crew-scoring";
 
 export default function EmployeesPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [crewProfileEmployee, setCrewProfileEmployee] = useState<User | null>(null);
 
   const { data: employees = [], isLoading } = useQuery<User[]>({
     queryKey: ["/api/employees"],
@@ -142,6 +145,15 @@ export default function EmployeesPage() {
                                 {employee.firstName} {employee.lastName}
                               </div>
                               <div className="text-sm text-muted-foreground">{employee.email}</div>
+                              {employee.crewSkills && employee.crewSkills.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {employee.crewSkills.map((skill) => (
+                                    <Badge key={skill} variant="outline" className="text-xs">
+                                      {CREW_SKILL_LABELS[skill as CrewSkill] || skill}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </td>
@@ -175,6 +187,14 @@ export default function EmployeesPage() {
                                 <Mail className="h-4 w-4" />
                               </a>
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setCrewProfileEmployee(employee)}
+                              data-testid={`crew-profile-employee-${employee.id}`}
+                            >
+                              <Wrench className="h-4 w-4" />
+                            </Button>
                             <Button 
                               variant="ghost" 
                               size="sm"
@@ -206,6 +226,11 @@ export default function EmployeesPage() {
         </Card>
       </div>
 
+      <CrewProfileDialog
+        employee={crewProfileEmployee}
+        onOpenChange={(open) => !open && setCrewProfileEmployee(null)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!userToDelete} onOpenChange={(open) => !open && setUserToDelete(null)}>
         <AlertDialogContent data-testid="dialog-delete-confirm">
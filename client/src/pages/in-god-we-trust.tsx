@@ -22,8 +22,12 @@ import {
   BarChart3,
   Users,
   Activity,
-  ExternalLink
+  ExternalLink,
+  Receipt,
+  ShieldCheck
 } from "lucide-react";
+import { OutstandingInvoices } from "@/components/outstanding-invoices";
+import { TreasuryApprovalsPanel } from "@/components/treasury-approvals-panel";
 
 export default function InGodWeTrustPage() {
   const { toast } = useToast();
@@ -67,13 +71,17 @@ export default function InGodWeTrustPage() {
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/treasury/summary"] });
       queryClient.invalidateQueries({ queryKey: ["/api/solana/balance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/treasury/approvals"] });
       refetchBalance();
       setTransferAmount("");
       setRecipientAddress("");
-      toast({
+      toast(data.pendingApproval ? {
+        title: "Transfer awaiting approval",
+        description: "This amount needs another approver. It's listed under Approvals until then.",
+      } : {
         title: "Transfer initiated",
         description: "JCMOVES tokens are being transferred to the recipient wallet.",
       });
@@ -202,7 +210,7 @@ export default function InGodWeTrustPage() {
         )}
 
         <Tabs defaultValue="operations" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="operations" data-testid="tab-operations">
               <Activity className="h-4 w-4 mr-2" />
               Operations
@@ -219,6 +227,14 @@ export default function InGodWeTrustPage() {
               <BarChart3 className="h-4 w-4 mr-2" />
               Analytics
             </TabsTrigger>
+            <TabsTrigger value="invoices" data-testid="tab-invoices">
+              <Receipt className="h-4 w-4 mr-2" />
+              Invoices
+            </TabsTrigger>
+            <TabsTrigger value="approvals" data-testid="tab-approvals">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Approvals
+            </TabsTrigger>
           </TabsList>
 
           {/* Operations Tab */}
@@ -476,6 +492,16 @@ export default function InGodWeTrustPage() {
               </Card>
             </div>
           </TabsContent>
+
+          {/* Invoices Tab */}
+          <TabsContent value="invoices" className="space-y-6">
+            <OutstandingInvoices />
+          </TabsContent>
+
+          {/* Approvals Tab */}
+          <TabsContent value="approvals" className="space-y-6">
+            <TreasuryApprovalsPanel />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,464 @@
+import { useState } from "react";
+import { useRoute, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Printer, Plus, Trash2, Receipt, Ban, DollarSign } from "lucide-react";
+import {
+  formatInvoiceNumber,
+  INVOICE_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHODS,
+  type InvoiceAdjustment,
+  type InvoiceLineItem,
+  type InvoiceStatus,
+  type PaymentMethod,
+} from "@shared/invoices";
+import type { Invoice, InvoicePayment, Lead } from "@shared/schema";
+
+interface InvoiceResponse {
+  lead: Lead;
+  invoice: Invoice | null;
+  payments: InvoicePayment[];
+}
+
+const STATUS_BADGES: Record<InvoiceStatus, string> = {
+  open: "border-blue-500 text-blue-600",
+  partially_paid: "border-yellow-500 text-yellow-600",
+  paid: "border-green-500 text-green-600",
+  void: "border-gray-400 text-gray-500",
+};
+
+const ADJUSTMENT_LABELS: Record<InvoiceAdjustment["category"], string> = {
+  tip: "Tip",
+  damage: "Damage credit",
+  discount: "Discount",
+  fee: "Additional fee",
+};
+
+const formatMoney = (value: string | number) => {
+  const amount = typeof value === "string" ? parseFloat(value) : value;
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+};
+
+// Errors come back as "400: {"error":"..."}" - show just the message
+const getErrorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).error || json;
+  } catch {
+    return json;
+  }
+};
+
+// Printable customer invoice with payment recording for owners. "Print" doubles as "Save as PDF"
+export default function InvoicePage() {
+  const [, params] = useRoute("/invoices/:leadId");
+  const leadId = params?.leadId;
+  const { toast } = useToast();
+
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("card");
+  const [paymentReference, setPaymentReference] = useState("");
+  const [adjustmentCategory, setAdjustmentCategory] = useState<InvoiceAdjustment["category"]>("tip");
+  const [adjustmentLabel, setAdjustmentLabel] = useState("");
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
+
+  const queryKey = ["/api/leads", leadId, "invoice"];
+  const { data, isLoading } = useQuery<InvoiceResponse>({
+    queryKey,
+    enabled: !!leadId,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices/outstanding"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: getErrorMessage(error), variant: "destructive" });
+  };
+
+  const generateInvoice = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${leadId}/invoice`);
+      return response.json();
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Invoice generated" });
+    },
+    onError,
+  });
+
+  const recordPayment = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${leadId}/payments`, {
+        amount: parseFloat(paymentAmount),
+        method: paymentMethod,
+        reference: paymentReference || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { payment: InvoicePayment }) => {
+      onChanged();
+      setPaymentAmount("");
+      setPaymentReference("");
+      toast({
+        title: result.payment.isDeposit ? "Deposit recorded" : "Payment recorded",
+        description: result.payment.tokenAmount
+          ? `${parseFloat(result.payment.tokenAmount).toFixed(2)} JCMOVES debited from the customer's wallet`
+          : undefined,
+      });
+    },
+    onError,
+  });
+
+  const addAdjustment = useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/line-items`, {
+        adjustments: [{
+          category: adjustmentCategory,
+          label: adjustmentLabel || ADJUSTMENT_LABELS[adjustmentCategory],
+          amount: parseFloat(adjustmentAmount),
+        }],
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      onChanged();
+      setAdjustmentLabel("");
+      setAdjustmentAmount("");
+    },
+    onError,
+  });
+
+  const removeLineItem = useMutation({
+    mutationFn: async ({ invoiceId, index }: { invoiceId: string; index: number }) => {
+      const response = await apiRequest("DELETE", `/api/invoices/${invoiceId}/line-items/${index}`);
+      return response.json();
+    },
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const voidInvoice = useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/void`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Invoice voided" });
+    },
+    onError,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const { lead, invoice, payments } = data;
+  const lineItems = (invoice?.lineItems as InvoiceLineItem[] | undefined) || [];
+  const isEditable = !!invoice && invoice.status !== "void";
+  const depositTotal = payments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+  const canRecordPayment = !invoice || (invoice.status !== "void" && parseFloat(invoice.balanceDue) > 0);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6 print:p-0 print:max-w-none">
+      <div className="flex items-center justify-between print:hidden">
+        <Link href="/leads">
+          <Button variant="outline" size="sm" data-testid="button-back-to-leads">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Leads
+          </Button>
+        </Link>
+        {invoice && (
+          <Button size="sm" onClick={() => window.print()} data-testid="button-print-invoice">
+            <Printer className="h-4 w-4 mr-1" />
+            Print / Save PDF
+          </Button>
+        )}
+      </div>
+
+      {!invoice && (
+        <Card className="print:hidden" data-testid="card-no-invoice">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              {lead.firstName} {lead.lastName} - No Invoice Yet
+            </CardTitle>
+            <CardDescription>
+              {lead.status === "completed"
+                ? "This job was completed before invoicing was set up. Generate the invoice from its saved quote."
+                : "The invoice is generated automatically when the crew completes the job. Deposits recorded now are applied to it."}
+            </CardDescription>
+          </CardHeader>
+          {lead.status === "completed" && (
+            <CardContent>
+              <Button onClick={() => generateInvoice.mutate()} disabled={generateInvoice.isPending} data-testid="button-generate-invoice">
+                {generateInvoice.isPending ? "Generating..." : "Generate Invoice"}
+              </Button>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {invoice && (
+        <Card className="print:border-0 print:shadow-none" data-testid="card-invoice">
+          <CardContent className="p-8 space-y-6">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <h1 className="text-2xl font-bold">JC ON THE MOVE</h1>
+                <p className="text-sm text-muted-foreground">Upper Michigan Moving Services</p>
+              </div>
+              <div className="text-right">
+                <h2 className="text-xl font-semibold" data-testid="text-invoice-number">{formatInvoiceNumber(invoice.invoiceNumber)}</h2>
+                <Badge variant="outline" className={STATUS_BADGES[invoice.status as InvoiceStatus]}>
+                  {INVOICE_STATUS_LABELS[invoice.status as InvoiceStatus] || invoice.status}
+                </Badge>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6 text-sm">
+              <div>
+                <p className="font-semibold">Bill To</p>
+                <p>{invoice.customerName}</p>
+                <p>{invoice.customerEmail}</p>
+                {invoice.billingAddress && <p>{invoice.billingAddress}</p>}
+              </div>
+              <div className="text-right space-y-1">
+                <p><span className="text-muted-foreground">Issued:</span> {new Date(invoice.issuedAt).toLocaleDateString()}</p>
+                <p><span className="text-muted-foreground">Due:</span> {new Date(invoice.dueDate).toLocaleDateString()}</p>
+                {lead.confirmedDate && <p><span className="text-muted-foreground">Move date:</span> {lead.confirmedDate}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {lineItems.map((line, index) => (
+                <div key={`${line.category}-${index}`} className="flex justify-between gap-4 text-sm" data-testid={`invoice-line-${index}`}>
+                  <div>
+                    <span>{line.label}</span>
+                    {line.detail && <span className="block text-xs text-muted-foreground">{line.detail}</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold whitespace-nowrap ${line.amount < 0 ? "text-green-600" : ""}`}>{formatMoney(line.amount)}</span>
+                    {isEditable && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 print:hidden"
+                        onClick={() => removeLineItem.mutate({ invoiceId: invoice.id, index })}
+                        disabled={removeLineItem.isPending}
+                        data-testid={`button-remove-line-${index}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <div className="ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between"><span>Subtotal</span><span>{formatMoney(invoice.subtotal)}</span></div>
+              {parseFloat(invoice.discountTotal) > 0 && (
+                <div className="flex justify-between"><span>Discounts</span><span>{formatMoney(-parseFloat(invoice.discountTotal))}</span></div>
+              )}
+              {parseFloat(invoice.damagesTotal) > 0 && (
+                <div className="flex justify-between"><span>Damage credits</span><span>{formatMoney(-parseFloat(invoice.damagesTotal))}</span></div>
+              )}
+              <div className="flex justify-between">
+                <span>Tax ({(parseFloat(invoice.taxRate) * 100).toFixed(2)}%)</span>
+                <span>{formatMoney(invoice.taxAmount)}</span>
+              </div>
+              {parseFloat(invoice.tipTotal) > 0 && (
+                <div className="flex justify-between"><span>Tips</span><span>{formatMoney(invoice.tipTotal)}</span></div>
+              )}
+              <div className="flex justify-between font-bold text-base"><span>Total</span><span data-testid="text-invoice-total">{formatMoney(invoice.total)}</span></div>
+              <div className="flex justify-between"><span>Paid</span><span>{formatMoney(-parseFloat(invoice.amountPaid))}</span></div>
+              <div className="flex justify-between font-bold text-lg text-primary">
+                <span>Balance Due</span>
+                <span data-testid="text-invoice-balance">{formatMoney(invoice.balanceDue)}</span>
+              </div>
+            </div>
+
+            {invoice.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{invoice.notes}</p>}
+            <p className="text-xs text-muted-foreground text-center">Thank you for moving with JC ON THE MOVE!</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:border-0 print:shadow-none" data-testid="card-payments">
+        <CardHeader>
+          <CardTitle className="text-lg">Payments</CardTitle>
+          {!invoice && payments.length > 0 && (
+            <CardDescription>{formatMoney(depositTotal)} in deposits will be applied to the invoice</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {payments.length === 0 && <p className="text-sm text-muted-foreground">No payments recorded yet.</p>}
+          {payments.map((payment) => (
+            <div key={payment.id} className="flex justify-between text-sm border-b last:border-0 pb-2" data-testid={`payment-${payment.id}`}>
+              <div>
+                <span className="font-medium">
+                  {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method}
+                  {payment.isDeposit && " (deposit)"}
+                </span>
+                <span className="block text-xs text-muted-foreground">
+                  {new Date(payment.receivedAt).toLocaleDateString()}
+                  {payment.reference && ` • ${payment.reference}`}
+                  {payment.tokenAmount && ` • ${parseFloat(payment.tokenAmount).toFixed(2)} JCMOVES @ $${parseFloat(payment.tokenPriceUsd || "0").toFixed(6)}`}
+                </span>
+              </div>
+              <span className="font-semibold">{formatMoney(payment.amount)}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6 print:hidden">
+        {canRecordPayment && (
+          <Card data-testid="card-record-payment">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                {invoice ? "Record Payment" : "Record Deposit"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <Label htmlFor="paymentAmount">Amount (USD)</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                  placeholder={invoice ? parseFloat(invoice.balanceDue).toFixed(2) : "0.00"}
+                  data-testid="input-payment-amount"
+                />
+              </div>
+              <div>
+                <Label>Method</Label>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                  <SelectTrigger data-testid="select-payment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {paymentMethod === "jcmoves" && (
+                  <p className="text-xs text-muted-foreground mt-1">Converted at the current price and debited from {lead.email}'s wallet.</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="paymentReference">Reference</Label>
+                <Input
+                  id="paymentReference"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                  placeholder="Check #, card last 4..."
+                  data-testid="input-payment-reference"
+                />
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => recordPayment.mutate()}
+                disabled={!(parseFloat(paymentAmount) > 0) || recordPayment.isPending}
+                data-testid="button-record-payment"
+              >
+                {recordPayment.isPending ? "Recording..." : invoice ? "Record Payment" : "Record Deposit"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {isEditable && (
+          <Card data-testid="card-add-adjustment">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                Add Line Item
+              </CardTitle>
+              <CardDescription>Tips and damage credits are not taxed</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <Label>Type</Label>
+                <Select value={adjustmentCategory} onValueChange={(value) => setAdjustmentCategory(value as InvoiceAdjustment["category"])}>
+                  <SelectTrigger data-testid="select-adjustment-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ADJUSTMENT_LABELS).map(([category, label]) => (
+                      <SelectItem key={category} value={category}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="adjustmentLabel">Description</Label>
+                <Input
+                  id="adjustmentLabel"
+                  value={adjustmentLabel}
+                  onChange={(e) => setAdjustmentLabel(e.target.value)}
+                  placeholder={ADJUSTMENT_LABELS[adjustmentCategory]}
+                  data-testid="input-adjustment-label"
+                />
+              </div>
+              <div>
+                <Label htmlFor="adjustmentAmount">Amount (USD)</Label>
+                <Input
+                  id="adjustmentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={adjustmentAmount}
+                  onChange={(e) => setAdjustmentAmount(e.target.value)}
+                  data-testid="input-adjustment-amount"
+                />
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => addAdjustment.mutate(invoice.id)}
+                disabled={!(parseFloat(adjustmentAmount) > 0) || addAdjustment.isPending}
+                data-testid="button-add-adjustment"
+              >
+                {addAdjustment.isPending ? "Adding..." : "Add to Invoice"}
+              </Button>
+              {parseFloat(invoice.amountPaid) === 0 && (
+                <Button
+                  variant="outline"
+                  className="w-full text-destructive"
+                  onClick={() => voidInvoice.mutate(invoice.id)}
+                  disabled={voidInvoice.isPending}
+                  data-testid="button-void-invoice"
+                >
+                  <Ban className="h-4 w-4 mr-1" />
+                  Void Invoice
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -180,7 +180,7 @@ export default function JobDetailPage() {
                       data-testid={`photo-${index}`}
                     >
                       <img
-                        src={photo.url}
+                        src={photo.thumbnailUrl || photo.url}
                         alt={photo.description || `Job photo ${index + 1}`}
                         className="w-full h-48 object-cover rounded-lg border"
                       />
@@ -14,6 +14,9 @@ import { useForm } from "react-hook-form";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { CrewSuggestionsDialog } from "@/components/crew-suggestions-dialog";
+import { JobStopsCard } from "@/components/job-stops-card";
+import { useAuth } from "@/hooks/useAuth";
+import { LEAD_STATUS_LABELS, isLeadStatus } from "@shared/lead-status";
 
 interface Lead {
   id: string;
@@ -59,6 +62,18 @@ interface Lead {
   createdAt: string;
 }
 
+interface StatusHistoryEntry {
+  id: string;
+  leadId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  changedByUserId: string | null;
+  changedByRole: string;
+  changedByName: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
 interface Reward {
   id: string;
   userId: string;
@@ -75,6 +90,7 @@ export default function LeadDetailPage() {
   const [, params] = useRoute("/lead/:id");
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { hasAdminAccess } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [tokenAllocation, setTokenAllocation] = useState("");
   const [isCheckingIn, setIsCheckingIn] = useState(false);
@@ -99,6 +115,12 @@ export default function LeadDetailPage() {
     queryKey: ["/api/rewards"],
   });
 
+  const { data: statusHistory = [] } = useQuery<StatusHistoryEntry[]>({
+    queryKey: ["/api/leads", params?.id, "status-history"],
+    enabled: !!params?.id,
+    staleTime: 0,
+  });
+
   const form = useForm({
     defaultValues: {
       basePrice: "",
@@ -253,19 +275,22 @@ export default function LeadDetailPage() {
     }
   };
 
+  const formatStatus = (status: string) =>
+    isLeadStatus(status) ? LEAD_STATUS_LABELS[status] : status.charAt(0).toUpperCase() + status.slice(1);
+
   // 5-step workflow system
   const workflow = [
     { step: 1, name: "Quote", status: ["new", "contacted", "quoted"] },
     { step: 2, name: "Assign & Price", status: ["quoted", "confirmed"] },
     { step: 3, name: "Day Before Reminder", status: ["confirmed"] },
-    { step: 4, name: "Check In", status: ["confirmed", "in-progress"] },
-    { step: 5, name: "Complete & Review", status: ["in-progress", "completed"] }
+    { step: 4, name: "Check In", status: ["confirmed", "in_progress"] },
+    { step: 5, name: "Complete & Review", status: ["in_progress", "completed"] }
   ];
 
   const getCurrentStep = () => {
     if (!lead) return 1;
     if (lead.status === "completed") return 5;
-    if (lead.status === "in-progress") return 4;
+    if (lead.status === "in_progress") return 4;
     if (lead.status === "confirmed" && lead.basePrice) return 3;
     if (lead.basePrice && lead.crewSize) return 2;
     return 1;
@@ -290,7 +315,7 @@ export default function LeadDetailPage() {
           }
           break;
         case 4:
-          newStatus = "in-progress";
+          newStatus = "in_progress";
           // Record check-in timestamp for bonus calculation
           updateData.checkedInAt = new Date().toISOString();
           break;
@@ -312,6 +337,13 @@ export default function LeadDetailPage() {
       });
       setIsCheckingIn(false);
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Cannot advance job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const sendReminder = useMutation({
@@ -409,7 +441,7 @@ export default function LeadDetailPage() {
               {lead.serviceType === "junk" && "Junk Removal"}
             </Badge>
             <Badge variant={lead.status === "completed" ? "default" : "secondary"}>
-              {lead.status.charAt(0).toUpperCase() + lead.status.slice(1)}
+              {formatStatus(lead.status)}
             </Badge>
           </div>
         </div>
@@ -550,7 +582,7 @@ export default function LeadDetailPage() {
                         🎁 On-Time Bonus: +20% ({potentialEarnings.withOnTime.tokens} JCMOVES)
                       </p>
                     </div>
-                    {lead?.status !== "in-progress" ? (
+                    {lead?.status !== "in_progress" ? (
                       <Button 
                         onClick={() => advanceToStep.mutate(4)}
                         disabled={advanceToStep.isPending}
@@ -704,6 +736,9 @@ export default function LeadDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Stops & Route */}
+            <JobStopsCard leadId={lead.id} canEdit={hasAdminAccess} />
+
             {/* Quote & Scheduling */}
             <Card>
               <CardHeader>
@@ -793,6 +828,48 @@ export default function LeadDetailPage() {
                 </div>
               </CardContent>
             </Card>
+            {/* Status Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Status Timeline
+                </CardTitle>
+                <CardDescription>Every status change for this job, oldest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {statusHistory.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No status changes recorded yet
+                  </p>
+                ) : (
+                  <ol className="relative border-l border-muted ml-2 space-y-6" data-testid="list-status-history">
+                    {statusHistory.map((entry) => (
+                      <li key={entry.id} className="ml-4" data-testid={`status-history-${entry.id}`}>
+                        <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                        <div className="flex items-center gap-2 flex-wrap">
+                          {entry.fromStatus && (
+                            <>
+                              <Badge variant="outline">{formatStatus(entry.fromStatus)}</Badge>
+                              <span className="text-muted-foreground">→</span>
+                            </>
+                          )}
+                          <Badge variant={entry.toStatus === "completed" ? "default" : "secondary"}>
+                            {formatStatus(entry.toStatus)}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {new Date(entry.createdAt).toLocaleString()} · {entry.changedByName || (entry.changedByRole === "system" ? "System" : "Unknown user")} ({entry.changedByRole})
+                        </p>
+                        {entry.reason && (
+                          <p className="text-sm mt-1">{entry.reason}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           {/* Sidebar - Potential Earnings & Rewards */}
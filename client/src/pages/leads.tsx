@@ -3,7 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
-import { ArrowLeft, Home, Building, Trash2, Mail, Phone, CircleDot, MessageCircle, FileText, CheckCircle, Clock, Play, Activity, CheckCheck, Settings, MapPin, Calendar as CalendarIcon } from "lucide-react";
+import { ArrowLeft, Home, Building, Trash2, Mail, Phone, CircleDot, MessageCircle, FileText, CheckCircle, Clock, Play, Activity, CheckCheck, Settings, MapPin, Calendar as CalendarIcon, Receipt, Trophy, Gamepad2, Flag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -23,12 +23,14 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { insertLeadSchema, type InsertLead, type Lead, type User } from "@shared/schema";
 import { LeadQuoteDialog } from "@/components/LeadQuoteDialog";
 
 export default function LeadsPage() {
   const [, setLocation] = useLocation();
+  const { hasAdminAccess } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedService, setSelectedService] = useState("");
@@ -225,6 +227,15 @@ export default function LeadsPage() {
               >
                 Manage
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLocation(`/invoices/${lead.id}`)}
+                data-testid={`invoice-button-${lead.id}`}
+              >
+                <Receipt className="h-4 w-4 mr-1" />
+                {lead.status === "completed" ? "Invoice" : "Payments"}
+              </Button>
               <Button 
                 variant="ghost" 
                 size="sm"
@@ -298,15 +309,72 @@ export default function LeadsPage() {
                   View and manage customer leads
                 </p>
               </div>
-              <Button
-                variant="outline"
-                onClick={() => setLocation("/dashboard")}
-                className="flex items-center gap-2 bg-white/90 hover:bg-white"
-                data-testid="button-back-to-dashboard"
-              >
-                <ArrowLeft className="h-4 w-4" />
-                Back to Dashboard
-              </Button>
+              <div className="flex items-center gap-2 flex-wrap">
+                {hasAdminAccess && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setLocation("/admin/pricing")}
+                    className="flex items-center gap-2 bg-white/90 hover:bg-white"
+                    data-testid="button-pricing-settings"
+                  >
+                    <Settings className="h-4 w-4" />
+                    Pricing
+                  </Button>
+                )}
+                {hasAdminAccess && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setLocation("/admin/timesheets")}
+                    className="flex items-center gap-2 bg-white/90 hover:bg-white"
+                    data-testid="button-timesheets"
+                  >
+                    <Clock className="h-4 w-4" />
+                    Timesheets
+                  </Button>
+                )}
+                {hasAdminAccess && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setLocation("/admin/achievements")}
+                    className="flex items-center gap-2 bg-white/90 hover:bg-white"
+                    data-testid="button-achievements"
+                  >
+                    <Trophy className="h-4 w-4" />
+                    Achievements
+                  </Button>
+                )}
+                {hasAdminAccess && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setLocation("/admin/gamification")}
+                    className="flex items-center gap-2 bg-white/90 hover:bg-white"
+                    data-testid="button-gamification-settings"
+                  >
+                    <Gamepad2 className="h-4 w-4" />
+                    Rewards Settings
+                  </Button>
+                )}
+                {hasAdminAccess && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setLocation("/admin/competitions")}
+                    className="flex items-center gap-2 bg-white/90 hover:bg-white"
+                    data-testid="button-competitions"
+                  >
+                    <Flag className="h-4 w-4" />
+                    Competitions
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => setLocation("/dashboard")}
+                  className="flex items-center gap-2 bg-white/90 hover:bg-white"
+                  data-testid="button-back-to-dashboard"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Dashboard
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -4,15 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
-import { Loader2, Zap, Users, Coins } from "lucide-react";
+import { Loader2, Zap, Users, Coins, Rocket } from "lucide-react";
 import { Link } from "wouter";
+import type { MiningBoostStatus } from "@shared/mining-boosts";
 
 interface MiningStatus {
   currentSession: any;
   accumulatedTokens: string;
   timeRemaining: number;
   totalClaimedToday: string;
-  miningSpeed: string;
+  tokensPerSecond: number;
+  cycleHours: number;
 }
 
 export default function MiningPage() {
@@ -26,6 +28,16 @@ export default function MiningPage() {
     refetchInterval: 5000, // Refresh every 5 seconds
   });
 
+  // Boosts only change as jobs, reviews and referrals come in
+  const { data: boostStatus } = useQuery<MiningBoostStatus>({
+    queryKey: ["/api/mining/boosts"],
+    refetchInterval: 60000,
+  });
+  const boostMultiplier = boostStatus?.multiplier ?? 1;
+
+  const tokensPerCycle = miningStatus ? Math.round(miningStatus.tokensPerSecond * miningStatus.cycleHours * 60 * 60) : 0;
+  const cycleLabel = miningStatus ? `${miningStatus.cycleHours} hours` : "cycle";
+
   // Start mining mutation
   const startMiningMutation = useMutation({
     mutationFn: async () => {
@@ -35,7 +47,7 @@ export default function MiningPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/mining/status"] });
       toast({
         title: "Mining Started!",
-        description: "Your passive token mining has begun. Earn 864 JCMOVES every 24 hours!",
+        description: `Your passive token mining has begun. Earn ${tokensPerCycle.toLocaleString()} JCMOVES every ${cycleLabel}!`,
       });
     },
     onError: (error: any) => {
@@ -54,10 +66,11 @@ export default function MiningPage() {
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/mining/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mining/boosts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
       toast({
         title: "Tokens Claimed!",
-        description: `You've earned ${parseFloat(data.tokensClaimed).toFixed(2)} JCMOVES! New balance: ${parseFloat(data.newBalance).toFixed(2)}`,
+        description: `You've earned ${parseFloat(data.tokensClaimed).toFixed(2)} JCMOVES${data.boostMultiplier > 1 ? ` at ${data.boostMultiplier}x` : ""}! New balance: ${parseFloat(data.newBalance).toFixed(2)}`,
       });
     },
     onError: (error: any) => {
@@ -78,16 +91,14 @@ export default function MiningPage() {
       const lastClaim = new Date(miningStatus.currentSession.lastClaimTime).getTime();
       const secondsElapsed = Math.floor((now - lastClaim) / 1000);
       
-      const miningSpeed = parseFloat(miningStatus.miningSpeed || "1.00");
-      const tokensPerSecond = 0.01; // 0.01 JCMOVES per second
-      const tokensEarned = secondsElapsed * tokensPerSecond * miningSpeed;
+      const tokensEarned = secondsElapsed * miningStatus.tokensPerSecond;
       
       const previousAccumulated = parseFloat(miningStatus.currentSession.accumulatedTokens || "0");
       const totalAccumulated = previousAccumulated + tokensEarned;
       
-      // Cap at 24-hour maximum (864 tokens)
-      const maxTokens = 864 * miningSpeed;
-      const cappedTokens = Math.min(totalAccumulated, maxTokens);
+      // Cap at one claim cycle's worth, then show it at the boosted rate a claim would pay now
+      const maxTokens = miningStatus.tokensPerSecond * miningStatus.cycleHours * 60 * 60;
+      const cappedTokens = Math.min(totalAccumulated, maxTokens) * boostMultiplier;
       
       setAccumulatedTokens(cappedTokens.toFixed(8));
     };
@@ -96,7 +107,7 @@ export default function MiningPage() {
     const interval = setInterval(updateAccumulated, 100); // Update every 100ms for smooth animation
 
     return () => clearInterval(interval);
-  }, [miningStatus]);
+  }, [miningStatus, boostMultiplier]);
 
   // Countdown timer
   useEffect(() => {
@@ -148,7 +159,7 @@ export default function MiningPage() {
         <div className="text-center pt-6 pb-2">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Token Mining</h1>
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-            Earn 864 JCMOVES every 24 hours
+            Earn {tokensPerCycle.toLocaleString()} JCMOVES every {cycleLabel}
           </p>
         </div>
 
@@ -172,7 +183,7 @@ export default function MiningPage() {
             <Zap className="h-16 w-16 mx-auto text-orange-500 mb-4" />
             <h2 className="text-xl font-bold mb-2">Start Mining JCMOVES</h2>
             <p className="text-gray-600 dark:text-gray-400 mb-6">
-              Begin earning passive tokens automatically. You'll receive 864 JCMOVES every 24 hours!
+              Begin earning passive tokens automatically. You'll receive {tokensPerCycle.toLocaleString()} JCMOVES every {cycleLabel}!
             </p>
             <Button
               onClick={() => startMiningMutation.mutate()}
@@ -218,22 +229,12 @@ export default function MiningPage() {
                     <div className="text-right">
                       <p className="text-xs opacity-90">Speed</p>
                       <p className="text-2xl font-bold" data-testid="text-mining-speed">
-                        {parseFloat(miningStatus.miningSpeed || "1.00").toFixed(0)}X
+                        {boostMultiplier}X
                       </p>
                     </div>
                   </div>
                 </div>
 
-                {/* Speed Up Button (Placeholder) */}
-                <Button
-                  disabled
-                  className="w-full bg-white/30 hover:bg-white/40 text-white border-white/50"
-                  data-testid="button-speed-up"
-                >
-                  <Zap className="mr-2 h-4 w-4" />
-                  Speed Up (Coming Soon)
-                </Button>
-
                 {/* Manual Claim Button */}
                 <Button
                   onClick={() => claimMutation.mutate()}
@@ -261,7 +262,7 @@ export default function MiningPage() {
               <div className="grid grid-cols-2 gap-4 text-center">
                 <div>
                   <p className="text-2xl font-bold text-orange-500" data-testid="text-daily-rate">
-                    864
+                    {Math.round(miningStatus.tokensPerSecond * 60 * 60 * 24).toLocaleString()}
                   </p>
                   <p className="text-xs text-gray-600 dark:text-gray-400">Tokens/Day</p>
                 </div>
@@ -273,6 +274,51 @@ export default function MiningPage() {
                 </div>
               </div>
             </Card>
+
+            {/* Mining Boosts */}
+            {boostStatus && (
+              <Card className="p-6 space-y-4" data-testid="card-mining-boosts">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-bold text-lg flex items-center gap-2">
+                    <Rocket className="h-5 w-5 text-orange-500" />
+                    Mining Boosts
+                  </h3>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">up to {boostStatus.maxMultiplier}X</span>
+                </div>
+
+                {boostStatus.boosts.length ? (
+                  <div className="space-y-2">
+                    {boostStatus.boosts.map((boost) => (
+                      <div key={boost.source} className="flex items-center justify-between gap-3 rounded-lg bg-orange-50 dark:bg-orange-950/30 p-3" data-testid={`mining-boost-${boost.source}`}>
+                        <div>
+                          <p className="font-medium text-sm">{boost.label}</p>
+                          <p className="text-xs text-gray-600 dark:text-gray-400">{boost.description}</p>
+                          <p className="text-xs text-gray-500">Until {new Date(boost.expiresAt).toLocaleDateString()}</p>
+                        </div>
+                        <p className="text-lg font-bold text-orange-500">{boost.multiplier}X</p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">No active boosts. Claims pay the base rate.</p>
+                )}
+
+                {boostStatus.progress.some((progress) => progress.hint) && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Earn more</p>
+                    {boostStatus.progress.filter((progress) => progress.hint).map((progress) => (
+                      <div key={progress.source} className="flex items-start gap-2 text-sm" data-testid={`mining-boost-hint-${progress.source}`}>
+                        <Zap className="h-4 w-4 text-orange-500 mt-0.5 shrink-0" />
+                        <span>
+                          <span className="font-medium">{progress.label}:</span> {progress.hint}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">Boosts add together and are checked when you claim.</p>
+              </Card>
+            )}
           </>
         )}
 
@@ -11,6 +11,8 @@ import { useToast } from '@/hooks/use-toast';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { Link } from 'wouter';
+import { DepositAddressCard } from '@/components/deposit-address-card';
+import { PeerTransferCard } from '@/components/peer-transfer-card';
 import { 
   User, 
   Wallet, 
@@ -538,6 +540,10 @@ export default function ProfilePage() {
                     </div>
                   )}
 
+                  <DepositAddressCard />
+
+                  <PeerTransferCard />
+
                   {/* Treasury Management Section (Admin Only) */}
                   {user?.role === 'admin' && (
                     <div className="border-t pt-6">
@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useRoute, Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { QuoteBreakdownSummary } from "@/components/quote-breakdown";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle, XCircle, FileSignature, Calendar, MapPin, Users, AlertTriangle } from "lucide-react";
+import type { QuoteBreakdown } from "@shared/pricing";
+
+interface PublicQuote {
+  versionNumber: number;
+  status: "sent" | "viewed" | "accepted" | "declined" | "superseded";
+  breakdown: QuoteBreakdown;
+  details: {
+    customerName: string;
+    serviceType: string;
+    moveDate: string | null;
+    fromAddress: string;
+    toAddress: string | null;
+    crewSize: number | null;
+    quoteNotes: string | null;
+  };
+  totalPrice: string;
+  expiresAt: string;
+  respondedAt: string | null;
+  signatureName: string | null;
+  isExpired: boolean;
+}
+
+// Errors come back as "409: {"error":"..."}" - show just the message
+const getErrorMessage = (error: Error | null) => {
+  if (!error) return "";
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).error || json;
+  } catch {
+    return json;
+  }
+};
+
+export default function QuoteViewPage() {
+  const [, params] = useRoute("/quote/:token");
+  const token = params?.token;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [signatureName, setSignatureName] = useState("");
+  const [agreeToTerms, setAgreeToTerms] = useState(false);
+  const [isDeclining, setIsDeclining] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+
+  const { data: quote, isLoading, error } = useQuery<PublicQuote>({
+    queryKey: ["/api/quotes", token],
+    enabled: !!token,
+  });
+
+  const onResponded = (updated: PublicQuote) => {
+    queryClient.setQueryData(["/api/quotes", token], updated);
+  };
+
+  const acceptQuote = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotes/${token}/accept`, { signatureName, agreeToTerms });
+      return response.json() as Promise<PublicQuote>;
+    },
+    onSuccess: (updated) => {
+      onResponded(updated);
+      toast({ title: "Quote accepted!", description: "Thank you! We'll be in touch to finalize the details." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't accept quote", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const declineQuote = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotes/${token}/decline`, { reason: declineReason || undefined });
+      return response.json() as Promise<PublicQuote>;
+    },
+    onSuccess: (updated) => {
+      onResponded(updated);
+      toast({ title: "Quote declined", description: "Thanks for letting us know." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't decline quote", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading your quote...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !quote) {
+    return (
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <AlertTriangle className="h-12 w-12 text-destructive mx-auto mb-3" />
+            <CardTitle>Quote Unavailable</CardTitle>
+            <CardDescription>{getErrorMessage(error as Error | null) || "This quote link is invalid."}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOpen = (quote.status === "sent" || quote.status === "viewed") && !quote.isExpired;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold" data-testid="text-quote-title">Your Quote from JC ON THE MOVE</h1>
+          <p className="text-muted-foreground mt-2">
+            Prepared for {quote.details.customerName}
+            {quote.versionNumber > 1 && ` • Revision ${quote.versionNumber}`}
+          </p>
+        </div>
+
+        {quote.status === "accepted" && (
+          <Card className="border-green-500" data-testid="card-quote-accepted">
+            <CardContent className="p-4 flex items-center gap-3">
+              <CheckCircle className="h-6 w-6 text-green-600" />
+              <div>
+                <p className="font-semibold">Accepted</p>
+                <p className="text-sm text-muted-foreground">
+                  Signed by {quote.signatureName} on {quote.respondedAt && new Date(quote.respondedAt).toLocaleString()}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        {quote.status === "declined" && (
+          <Card className="border-destructive" data-testid="card-quote-declined">
+            <CardContent className="p-4 flex items-center gap-3">
+              <XCircle className="h-6 w-6 text-destructive" />
+              <p className="font-semibold">You declined this quote. Contact us any time if you'd like an updated one.</p>
+            </CardContent>
+          </Card>
+        )}
+        {quote.status === "superseded" && (
+          <Card className="border-yellow-500" data-testid="card-quote-superseded">
+            <CardContent className="p-4 flex items-center gap-3">
+              <AlertTriangle className="h-6 w-6 text-yellow-600" />
+              <p className="font-semibold">This quote has been replaced by a newer version. Please use the link in your latest email.</p>
+            </CardContent>
+          </Card>
+        )}
+        {quote.isExpired && (quote.status === "sent" || quote.status === "viewed") && (
+          <Card className="border-yellow-500" data-testid="card-quote-expired">
+            <CardContent className="p-4 flex items-center gap-3">
+              <AlertTriangle className="h-6 w-6 text-yellow-600" />
+              <p className="font-semibold">This quote expired on {new Date(quote.expiresAt).toLocaleDateString()}. Please contact us for an updated quote.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Move Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              <span>{quote.details.moveDate || "Date to be confirmed"}</span>
+            </div>
+            <div className="flex items-start gap-2">
+              <MapPin className="h-4 w-4 text-muted-foreground mt-0.5" />
+              <span>
+                {quote.details.fromAddress}
+                {quote.details.toAddress && <> → {quote.details.toAddress}</>}
+              </span>
+            </div>
+            {quote.details.crewSize && (
+              <div className="flex items-center gap-2">
+                <Users className="h-4 w-4 text-muted-foreground" />
+                <span>{quote.details.crewSize}-person crew</span>
+              </div>
+            )}
+            {quote.details.quoteNotes && (
+              <p className="text-muted-foreground whitespace-pre-wrap">{quote.details.quoteNotes}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Quote</CardTitle>
+              <Badge variant="secondary">Valid until {new Date(quote.expiresAt).toLocaleDateString()}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <QuoteBreakdownSummary breakdown={quote.breakdown} />
+          </CardContent>
+        </Card>
+
+        {isOpen && !isDeclining && (
+          <Card data-testid="card-accept-quote">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSignature className="h-5 w-5" />
+                Accept Quote
+              </CardTitle>
+              <CardDescription>Type your full name to sign and accept this quote</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="signatureName">Full Name</Label>
+                <Input
+                  id="signatureName"
+                  value={signatureName}
+                  onChange={(e) => setSignatureName(e.target.value)}
+                  placeholder={quote.details.customerName}
+                  className="mt-1 font-serif italic text-lg"
+                  data-testid="input-signature-name"
+                />
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="agreeToTerms"
+                  checked={agreeToTerms}
+                  onCheckedChange={(checked) => setAgreeToTerms(checked as boolean)}
+                  data-testid="checkbox-agree-terms"
+                />
+                <Label htmlFor="agreeToTerms" className="text-sm font-normal leading-snug cursor-pointer">
+                  I agree to the <Link href="/terms" className="underline">Terms of Service</Link> and understand the final
+                  price may change if the job differs from the details above.
+                </Label>
+              </div>
+              <div className="flex gap-3">
+                <Button
+                  className="flex-1"
+                  onClick={() => acceptQuote.mutate()}
+                  disabled={!agreeToTerms || signatureName.trim().length < 2 || acceptQuote.isPending}
+                  data-testid="button-accept-quote"
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {acceptQuote.isPending ? "Accepting..." : "Accept & Sign"}
+                </Button>
+                <Button variant="outline" onClick={() => setIsDeclining(true)} data-testid="button-show-decline">
+                  Decline
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {isOpen && isDeclining && (
+          <Card data-testid="card-decline-quote">
+            <CardHeader>
+              <CardTitle>Decline Quote</CardTitle>
+              <CardDescription>Let us know why so we can improve (optional)</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={declineReason}
+                onChange={(e) => setDeclineReason(e.target.value)}
+                rows={3}
+                placeholder="e.g. Found a different date, price too high..."
+                data-testid="textarea-decline-reason"
+              />
+              <div className="flex gap-3">
+                <Button
+                  variant="destructive"
+                  className="flex-1"
+                  onClick={() => declineQuote.mutate()}
+                  disabled={declineQuote.isPending}
+                  data-testid="button-decline-quote"
+                >
+                  {declineQuote.isPending ? "Submitting..." : "Decline Quote"}
+                </Button>
+                <Button variant="outline" onClick={() => setIsDeclining(false)}>
+                  Back
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
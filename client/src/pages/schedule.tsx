@@ -0,0 +1,248 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AvailabilityEditor } from "@/components/availability-editor";
+import { TimeOffPanel } from "@/components/time-off-panel";
+import { useAuth } from "@/hooks/useAuth";
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, Loader2, Users } from "lucide-react";
+import { DAY_OF_WEEK_LABELS, windowsOverlap, type ScheduleConflict } from "@shared/scheduling";
+import type { User } from "@shared/schema";
+
+interface CalendarJob {
+  id: string;
+  customerName: string;
+  status: string;
+  serviceType: string;
+  fromAddress: string;
+  toAddress: string | null;
+  start: string;
+  end: string;
+  isEstimated: boolean;
+  crew: { id: string; name: string }[];
+  crewSize: number;
+  conflicts: (ScheduleConflict & { employeeId: string; employeeName: string })[];
+}
+
+interface CalendarTimeOff {
+  id: string;
+  userId: string;
+  employeeName: string;
+  startDate: string;
+  endDate: string;
+  status: string;
+  reason: string | null;
+}
+
+interface ScheduleCalendar {
+  jobs: CalendarJob[];
+  timeOff: CalendarTimeOff[];
+  unscheduledJobs: { id: string; customerName: string; status: string }[];
+  doubleBookedCount: number;
+}
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+export default function SchedulePage() {
+  const { hasAdminAccess } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [employeeFilter, setEmployeeFilter] = useState("all");
+
+  const weekEnd = addDays(weekStart, 7);
+  const days = useMemo(() => Array.from({ length: 7 }, (_, index) => addDays(weekStart, index)), [weekStart]);
+
+  const { data: employees = [] } = useQuery<User[]>({
+    queryKey: ["/api/employees"],
+    enabled: hasAdminAccess,
+  });
+
+  const { data: calendar, isLoading } = useQuery<ScheduleCalendar>({
+    queryKey: ["/api/schedule/calendar", weekStart.toISOString(), employeeFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: weekStart.toISOString(), to: weekEnd.toISOString() });
+      if (employeeFilter !== "all") {
+        params.append("employeeId", employeeFilter);
+      }
+      const response = await fetch(`/api/schedule/calendar?${params.toString()}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("Failed to fetch schedule");
+      }
+      return response.json();
+    },
+  });
+
+  const isToday = (day: Date) => day.toDateString() === new Date().toDateString();
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <CalendarDays className="h-6 w-6" />
+            Crew Schedule
+          </h1>
+          <p className="text-muted-foreground">
+            {hasAdminAccess ? "Every booked job and who is on it" : "Your booked jobs, availability and time off"}
+          </p>
+        </div>
+        {calendar && calendar.doubleBookedCount > 0 && (
+          <Badge variant="destructive" className="self-start" data-testid="badge-double-booked">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {calendar.doubleBookedCount} job{calendar.doubleBookedCount === 1 ? "" : "s"} with crew conflicts
+          </Badge>
+        )}
+      </div>
+
+      <Tabs defaultValue="calendar">
+        <TabsList>
+          <TabsTrigger value="calendar" data-testid="tab-calendar">Calendar</TabsTrigger>
+          <TabsTrigger value="time-off" data-testid="tab-time-off">Time Off</TabsTrigger>
+          {!hasAdminAccess && <TabsTrigger value="availability" data-testid="tab-availability">Availability</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="calendar" className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))} data-testid="button-previous-week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfWeek(new Date()))} data-testid="button-this-week">
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))} data-testid="button-next-week">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="font-medium ml-2" data-testid="text-week-range">
+              {weekStart.toLocaleDateString()} - {addDays(weekStart, 6).toLocaleDateString()}
+            </span>
+            {hasAdminAccess && (
+              <Select value={employeeFilter} onValueChange={setEmployeeFilter}>
+                <SelectTrigger className="w-48 ml-auto" data-testid="select-employee-filter">
+                  <SelectValue placeholder="All employees" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All employees</SelectItem>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {[employee.firstName, employee.lastName].filter(Boolean).join(" ") || employee.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {isLoading || !calendar ? (
+            <Card className="p-6 flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+                {days.map((day) => {
+                  const dayWindow = { start: day, end: addDays(day, 1) };
+                  const dayJobs = calendar.jobs.filter((job) => new Date(job.start).toDateString() === day.toDateString());
+                  const dayTimeOff = calendar.timeOff.filter((request) =>
+                    windowsOverlap(dayWindow, { start: new Date(request.startDate), end: new Date(request.endDate) }));
+
+                  return (
+                    <Card key={day.toISOString()} className={isToday(day) ? "border-primary" : ""} data-testid={`schedule-day-${day.getDay()}`}>
+                      <CardHeader className="p-3 pb-1">
+                        <CardTitle className="text-sm">
+                          {DAY_OF_WEEK_LABELS[day.getDay()].slice(0, 3)} {day.getMonth() + 1}/{day.getDate()}
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="p-3 pt-1 space-y-2 min-h-24">
+                        {dayTimeOff.map((request) => (
+                          <div key={request.id} className="text-xs rounded bg-gray-100 dark:bg-gray-800 px-2 py-1" data-testid={`time-off-block-${request.id}`}>
+                            {request.employeeName} off{request.status === "pending" ? " (pending)" : ""}
+                          </div>
+                        ))}
+                        {dayJobs.map((job) => {
+                          const blocking = job.conflicts.filter((conflict) => conflict.severity === "block");
+                          const warnings = job.conflicts.filter((conflict) => conflict.severity === "warn");
+                          return (
+                            <div
+                              key={job.id}
+                              className={`text-xs rounded border p-2 space-y-1 ${blocking.length > 0 ? "border-red-500 bg-red-50 dark:bg-red-950" : warnings.length > 0 ? "border-yellow-500" : ""}`}
+                              data-testid={`schedule-job-${job.id}`}
+                            >
+                              <div className="font-medium">
+                                {formatTime(job.start)}-{formatTime(job.end)}
+                                {job.isEstimated && <span className="text-muted-foreground"> (est.)</span>}
+                              </div>
+                              {hasAdminAccess ? (
+                                <Link href={`/lead/${job.id}`} className="block hover:underline">{job.customerName}</Link>
+                              ) : (
+                                <div>{job.customerName}</div>
+                              )}
+                              <div className="text-muted-foreground truncate">{job.fromAddress}</div>
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <Users className="h-3 w-3" />
+                                {job.crew.length}/{job.crewSize}
+                                {job.crew.length > 0 && `: ${job.crew.map((member) => member.name).join(", ")}`}
+                              </div>
+                              {job.conflicts.map((conflict, index) => (
+                                <div key={index} className={conflict.severity === "block" ? "text-red-600" : "text-yellow-600"}>
+                                  {conflict.employeeName}: {conflict.message}
+                                </div>
+                              ))}
+                            </div>
+                          );
+                        })}
+                        {dayJobs.length === 0 && dayTimeOff.length === 0 && (
+                          <p className="text-xs text-muted-foreground">No jobs</p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+
+              {calendar.unscheduledJobs.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Jobs without a date</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    {calendar.unscheduledJobs.map((job) => (
+                      <div key={job.id} className="flex items-center justify-between" data-testid={`unscheduled-job-${job.id}`}>
+                        <span>{job.customerName}</span>
+                        <Badge variant="outline">{job.status}</Badge>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="time-off">
+          <TimeOffPanel isManager={hasAdminAccess} />
+        </TabsContent>
+
+        {!hasAdminAccess && (
+          <TabsContent value="availability">
+            <AvailabilityEditor />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
@@ -14,6 +14,10 @@ import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { apiRequest } from "@/lib/queryClient";
+import { TreasuryReconciliationPanel } from "@/components/treasury-reconciliation-panel";
+import { TreasuryAccountingPanel } from "@/components/treasury-accounting-panel";
+import { PriceOraclePanel } from "@/components/price-oracle-panel";
+import { CashoutReviewPanel } from "@/components/cashout-review-panel";
 
 // Treasury status interface
 interface TreasuryStatus {
@@ -448,12 +452,14 @@ export default function TreasuryDashboard() {
 
         {/* Main Dashboard Tabs */}
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
             <TabsTrigger value="deposits" data-testid="tab-deposits">Deposits</TabsTrigger>
             <TabsTrigger value="transactions" data-testid="tab-transactions">Transactions</TabsTrigger>
             <TabsTrigger value="analytics" data-testid="tab-analytics">Analytics</TabsTrigger>
             <TabsTrigger value="reconcile" data-testid="tab-reconcile">Reconcile</TabsTrigger>
+            <TabsTrigger value="accounting" data-testid="tab-accounting">Accounting</TabsTrigger>
+            <TabsTrigger value="cashouts" data-testid="tab-cashouts">Cash-outs</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -771,6 +777,7 @@ export default function TreasuryDashboard() {
 
           {/* Analytics Tab */}
           <TabsContent value="analytics" className="space-y-6">
+            <PriceOraclePanel />
             {analyticsLoading ? (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <Skeleton className="h-64" />
@@ -972,6 +979,18 @@ export default function TreasuryDashboard() {
                 </div>
               </CardContent>
             </Card>
+
+            <TreasuryReconciliationPanel />
+          </TabsContent>
+
+          {/* Accounting Tab */}
+          <TabsContent value="accounting" className="space-y-6">
+            <TreasuryAccountingPanel />
+          </TabsContent>
+
+          {/* Cash-outs Tab */}
+          <TabsContent value="cashouts" className="space-y-6">
+            <CashoutReviewPanel />
           </TabsContent>
         </Tabs>
       </div>
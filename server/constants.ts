@@ -1,3 +1,5 @@
+import type { VestingSchedule, VestingSource } from "@shared/vesting";
+
 // Central configuration for treasury and rewards system
 export const TREASURY_CONFIG = {
   // JCMOVES Cryptocurrency Configuration
@@ -34,6 +36,174 @@ export const TREASURY_CONFIG = {
   WITHDRAWAL_FEE_PERCENT: 2, // 2% fee for crypto withdrawals
 } as const;
 
+// Customer quote links
+export const QUOTE_CONFIG = {
+  LINK_EXPIRY_DAYS: 30, // Emailed quote links stop accepting responses after 30 days
+  TOKEN_BYTES: 32,
+} as const;
+
+// Instant estimates from the public quote form. Each one geocodes and routes the addresses it's sent, so clients are limited per IP
+export const ESTIMATE_CONFIG = {
+  RATE_LIMIT_WINDOW_MS: 60 * 1000,
+  RATE_LIMIT_MAX_REQUESTS: 10, // Per IP per window
+  RATE_LIMIT_MAX_CLIENTS: 10000, // IPs tracked at once; the least recently seen are forgotten first
+} as const;
+
+// Idempotency keys sent by the offline sync queue
+export const IDEMPOTENCY_CONFIG = {
+  STALE_CLAIM_MS: 5 * 60 * 1000, // A key still in progress after this long (e.g. the server restarted mid-request) can be taken over by a retry
+  RETENTION_MS: 30 * 24 * 60 * 60 * 1000, // Completed keys are kept this long for replays, then pruned
+  PRUNE_INTERVAL_MS: 60 * 60 * 1000,
+} as const;
+
+// Customer invoices
+export const INVOICE_CONFIG = {
+  TAX_RATE: parseFloat(process.env.INVOICE_TAX_RATE || "0.06"), // Michigan sales tax; tips and damage credits are never taxed
+  PAYMENT_TERMS_DAYS: 14, // Due date is this many days after the invoice is issued
+} as const;
+
+// Crew suggestions. Factor weights default to DEFAULT_CREW_SCORING_WEIGHTS in shared/crew-scoring.ts
+export const CREW_SUGGESTION_CONFIG = {
+  WEIGHTS_OVERRIDE: process.env.CREW_SUGGESTION_WEIGHTS, // JSON, e.g. {"distance": 40, "synergy": 0}
+  MAX_ACTIVE_JOBS: 3, // Active jobs at which the workload factor bottoms out
+  FULL_EXPERIENCE_JOBS: 15, // Completed jobs for full experience credit
+  MAX_DISTANCE_MILES: 40, // Home base distance at which the distance factor bottoms out
+  FULL_SYNERGY_JOBS: 5, // Completed jobs together for full synergy credit
+} as const;
+
+// On-chain JCMOVES withdrawals. Point RPC_URL at http://127.0.0.1:8899 and MINT_ADDRESS at a mint created
+// there to run the whole pipeline against solana-test-validator instead of mainnet
+export const SOLANA_WITHDRAWAL_CONFIG = {
+  RPC_URL: process.env.SOLANA_WITHDRAWAL_RPC_URL || process.env.VITE_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+  MINT_ADDRESS: process.env.JCMOVES_MINT_ADDRESS || TREASURY_CONFIG.TOKEN_ADDRESS,
+  ENABLED: process.env.SOLANA_WITHDRAWALS_ENABLED !== 'false', // 'false' leaves queued withdrawals pending
+  POLL_INTERVAL_MS: 15000,
+  STALE_SIGNING_MS: 2 * 60 * 1000, // Prepared/signing rows untouched this long were interrupted before broadcast and are rebuilt
+  BATCH_SIZE: 10,
+} as const;
+
+// Per-user JCMOVES deposit addresses, watched on the same cluster and mint that withdrawals use
+export const SOLANA_DEPOSIT_CONFIG = {
+  RPC_URL: SOLANA_WITHDRAWAL_CONFIG.RPC_URL,
+  MINT_ADDRESS: SOLANA_WITHDRAWAL_CONFIG.MINT_ADDRESS,
+  ENABLED: process.env.SOLANA_DEPOSITS_ENABLED !== 'false',
+  POLL_INTERVAL_MS: 30000,
+  SIGNATURES_PER_SCAN: 20, // Page size when walking a deposit address's history back to the last signature seen
+  SWEEP_ENABLED: process.env.SOLANA_DEPOSIT_SWEEP_ENABLED !== 'false', // Move credited deposits into the treasury wallet, which withdrawals pay from
+  BATCH_SIZE: 50, // Pending deposits checked per pass
+  DROPPED_AFTER_MS: 10 * 60 * 1000, // A seen signature the cluster no longer knows after this long was dropped
+} as const;
+
+// Multi-approver controls. Per-action thresholds live in treasury_approval_policies (defaults in shared/treasury-approvals.ts)
+export const TREASURY_APPROVAL_CONFIG = {
+  EXPIRY_CHECK_INTERVAL_MS: 5 * 60 * 1000, // How often pending requests past their window are expired and released
+  ROLLING_WINDOW_HOURS: 24, // A requester's transfers in this window are added together against the threshold
+  INTERRUPTED_AFTER_MS: 15 * 60 * 1000, // An approved request that hasn't recorded its outcome after this long was interrupted
+} as const;
+
+// Scheduled comparison of on-chain custody against the books (see TreasuryReconciliationService)
+export const TREASURY_RECONCILIATION_CONFIG = {
+  ENABLED: process.env.TREASURY_RECONCILIATION_ENABLED !== 'false',
+  INTERVAL_MS: parseInt(process.env.TREASURY_RECONCILIATION_INTERVAL_MS || String(60 * 60 * 1000)), // Hourly
+  SIGNATURES_PER_RUN: 100, // Newest treasury wallet signatures matched against recorded deposits and withdrawals
+  DRIFT_ALERT_THRESHOLD: parseFloat(process.env.TREASURY_DRIFT_ALERT_THRESHOLD || "1"), // JCMOVES either way before admins are alerted
+} as const;
+
+// JCMOVES price oracle (see PriceOracleService). Every reward, conversion and cashout prices through it
+export const PRICE_ORACLE_CONFIG = {
+  SOURCES: (process.env.PRICE_ORACLE_SOURCES || 'dexscreener,moonshot').split(',').map((source) => source.trim()).filter(Boolean),
+  FIXTURE_PRICE: process.env.PRICE_ORACLE_FIXTURE_PRICE ? parseFloat(process.env.PRICE_ORACLE_FIXTURE_PRICE) : null, // Fixed price served by the 'fixture' source
+  MIN_SOURCES: parseInt(process.env.PRICE_ORACLE_MIN_SOURCES || '1'), // Accepted quotes needed for a price
+  SOURCE_TIMEOUT_MS: 10 * 1000,
+  CACHE_TTL_MS: 30 * 1000, // Sources are queried at most this often
+  MAX_QUOTE_AGE_MS: 5 * 60 * 1000, // Quotes older than this are dropped before aggregating
+  OUTLIER_TOLERANCE_PERCENT: 15, // Quotes further than this from the median are rejected
+  MAX_STALENESS_MS: 10 * 60 * 1000, // Rewards, conversions and cashouts refuse a price older than this
+  DISPLAY_MAX_STALENESS_MS: 24 * 60 * 60 * 1000, // Dashboards and estimates may show an older price
+} as const;
+
+// Period close and bookkeeping exports (see TreasuryAccountingService). Account names must match the QuickBooks chart of accounts
+export const TREASURY_ACCOUNTING_CONFIG = {
+  OPEN_PERIODS_LISTED: { month: 12, quarter: 8 }, // Recent periods offered for review and close
+  QUICKBOOKS_ACCOUNTS: {
+    RESERVE: 'JCMOVES Token Reserve', // Asset, carried at average cost
+    FUNDING: "Owner's Contributions:Treasury Funding",
+    INVOICE_PAYMENTS: 'Accounts Receivable', // Customers paying invoices in JCMOVES
+    REALIZED_GAIN_LOSS: 'Realized Gain/Loss - JCMOVES',
+    DISTRIBUTION_EXPENSE_PREFIX: 'Token Rewards Expense', // One subaccount per distribution category
+  },
+} as const;
+
+// Rewards cash-outs (see CashoutService). Limits are in USD at the oracle price; users.cashout*LimitUsd override the defaults
+export const CASHOUT_CONFIG = {
+  MIN_TOKENS: parseFloat(process.env.CASHOUT_MIN_TOKENS || '1'),
+  MIN_USD: 5, // Smaller payouts cost more in provider fees than they're worth
+  DAILY_LIMIT_USD: parseFloat(process.env.CASHOUT_DAILY_LIMIT_USD || '250'),
+  MONTHLY_LIMIT_USD: parseFloat(process.env.CASHOUT_MONTHLY_LIMIT_USD || '2000'),
+  REVIEW_THRESHOLD_USD: parseFloat(process.env.CASHOUT_REVIEW_THRESHOLD_USD || '100'), // Requests at or above this wait for an admin
+  NEW_ACCOUNT_DAYS: 14, // Requests from accounts younger than this wait for an admin
+  // Provider sending each method. A provider whose credentials are missing leaves the method unavailable,
+  // unless the fake provider is switched on to stand in for it
+  PROVIDERS: {
+    ach: process.env.CASHOUT_ACH_PROVIDER || 'request_network',
+    paypal: process.env.CASHOUT_PAYPAL_PROVIDER || 'paypal',
+    faucetpay: process.env.CASHOUT_FAUCETPAY_PROVIDER || 'faucetpay',
+  },
+  FAUCETPAY_CURRENCY: process.env.CASHOUT_FAUCETPAY_CURRENCY || 'USDT', // Paid in a USD stablecoin so the amount doesn't need a second conversion
+  FAKE_PROVIDER_ENABLED: process.env.CASHOUT_FAKE_PROVIDER_ENABLED === 'true' && process.env.NODE_ENV !== 'production', // Opt-in for development; never in production
+  FAKE_OUTCOME: process.env.CASHOUT_FAKE_OUTCOME || 'complete', // 'complete', 'fail' or 'manual' (wait for a webhook)
+  FAKE_WEBHOOK_SECRET: process.env.CASHOUT_FAKE_WEBHOOK_SECRET, // Fake webhooks are refused until this is set
+  POLL_INTERVAL_MS: 5 * 60 * 1000, // Status checks back up provider webhooks
+  STALE_SUBMITTING_MS: 10 * 60 * 1000, // A submission interrupted this long ago is sent to review rather than retried blind
+  BATCH_SIZE: 20,
+} as const;
+
+// Vesting for employee rewards (see VestingService). Sources without a schedule are paid in full immediately
+export const VESTING_CONFIG = {
+  ENABLED: process.env.REWARD_VESTING_ENABLED !== 'false',
+  SCHEDULES: {
+    job_completion: { immediatePercent: 25, vestingDays: 90 },
+    job_creation_bonus: { immediatePercent: 25, vestingDays: 90 },
+    achievement: { immediatePercent: 25, vestingDays: 90 },
+  } as Partial<Record<VestingSource, VestingSchedule>>,
+  RELEASE_INTERVAL_MS: 60 * 60 * 1000, // Checked hourly; grants vest in whole days, so each grant releases once a day
+  STALE_RELEASE_MS: 10 * 60 * 1000, // A release claimed this long ago without finishing is checked against the reserve and cleared
+  BATCH_SIZE: 100, // Grants loaded per page; each release pass pages through every active grant
+} as const;
+
+// JCMOVES transfers between users (see PeerTransferService)
+export const PEER_TRANSFER_CONFIG = {
+  MIN_AMOUNT: parseFloat(process.env.PEER_TRANSFER_MIN_AMOUNT || '1'),
+  DAILY_LIMIT_TOKENS: parseFloat(process.env.PEER_TRANSFER_DAILY_LIMIT_TOKENS || '5000'), // Sent per user per UTC day
+  DAILY_COUNT_LIMIT: parseInt(process.env.PEER_TRANSFER_DAILY_COUNT_LIMIT || '10'),
+  NEW_ACCOUNT_DAYS: 7, // Senders and recipients younger than this add to the fraud score
+  HISTORY_LIMIT: 50,
+} as const;
+
+// Weekly leaderboard close-out (see LeaderboardService); prize amounts are the leaderboardPrizes gamification setting
+export const LEADERBOARD_CONFIG = {
+  CLOSE_INTERVAL_MS: 60 * 60 * 1000, // Checked hourly; each ended week is closed on the first run after it ends (Monday 00:00 UTC)
+  STALE_PAYOUT_MS: 10 * 60 * 1000, // A payout claimed this long ago without finishing is checked against the reserve and cleared
+  BATCH_SIZE: 50,
+  HISTORY_WEEKS: 26,
+} as const;
+
+// Competition close-out (see CompetitionService)
+export const COMPETITION_CONFIG = {
+  CLOSE_INTERVAL_MS: 15 * 60 * 1000, // Ended competitions are closed and paid within this long
+  STALE_PAYOUT_MS: 10 * 60 * 1000, // A payout claimed this long ago without finishing is checked against the reserve and cleared
+  BATCH_SIZE: 50,
+  RECENT_DAYS: 14, // Completed competitions stay on employee home this long
+  LIST_LIMIT: 100,
+} as const;
+
+// Reward parameters themselves live in gamification_config (see GamificationConfigService)
+export const GAMIFICATION_CONFIG = {
+  CACHE_TTL_MS: 60 * 1000, // Other servers pick up saved settings within this long
+  PREVIEW_DAYS: 30, // Payout history replayed by the impact preview
+  CHANGE_HISTORY_LIMIT: 100,
+} as const;
+
 export const REWARD_TYPES = {
   SIGNUP_BONUS: 'signup_bonus',
   DAILY_CHECKIN: 'daily_checkin', 
@@ -8,6 +8,7 @@ const app = express();
 // CRITICAL SECURITY: Handle webhook routes BEFORE global JSON parser
 // This preserves raw body bytes needed for HMAC signature validation
 app.use('/api/advertising/webhook', express.raw({ type: 'application/json' }));
+app.use('/api/cashouts/webhooks', express.raw({ type: 'application/json' }));
 
 // Increase body size limit to support video uploads (50MB videos become ~66MB as base64)
 app.use(express.json({ limit: '100mb' }));
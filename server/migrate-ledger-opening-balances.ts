@@ -0,0 +1,71 @@
+import { db } from './db';
+import { walletAccounts, userWallets, supportedCurrencies, treasuryAccounts } from '@shared/schema';
+import { storage } from './storage';
+import { ledgerService } from './services/ledger';
+import { userRewardsAccount, userWalletAccount, type LedgerAccountRef } from '@shared/ledger';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Migration script to carry existing token balances into the ledger
+ *
+ * This script:
+ * 1. Opens a ledger account for every rewards wallet, JCMOVES user wallet and treasury account
+ * 2. Accounts that already hold tokens get an opening_balance entry against the issuance account
+ *    (the same thing happens lazily the first time a balance is posted to)
+ * 3. Runs the consistency check and logs the result
+ *
+ * Safe to re-run: accounts that already exist in the ledger are left alone.
+ * Run with: tsx server/migrate-ledger-opening-balances.ts
+ */
+async function migrateLedgerOpeningBalances() {
+  console.log('Starting migration of token balances into the ledger...');
+
+  let opened = 0;
+  let errors = 0;
+
+  const accounts: LedgerAccountRef[] = [];
+
+  const rewardWallets = await db.select({ userId: walletAccounts.userId }).from(walletAccounts);
+  accounts.push(...rewardWallets.map((wallet) => userRewardsAccount(wallet.userId)));
+
+  const jcmovesWallets = await db
+    .select({ id: userWallets.id })
+    .from(userWallets)
+    .innerJoin(supportedCurrencies, eq(userWallets.currencyId, supportedCurrencies.id))
+    .where(eq(supportedCurrencies.symbol, 'JCMOVES'));
+  accounts.push(...jcmovesWallets.map((wallet) => userWalletAccount(wallet.id)));
+
+  const treasuries = await db.select({ id: treasuryAccounts.id }).from(treasuryAccounts);
+  accounts.push(...treasuries.map((treasury): LedgerAccountRef => ({ type: 'treasury_reserve', ownerId: treasury.id })));
+
+  console.log(`Found ${accounts.length} balances to carry over`);
+
+  for (const account of accounts) {
+    try {
+      const ledgerAccount = await storage.openLedgerAccount(account);
+      console.log(`✅ ${ledgerAccount.accountKey} - ${ledgerAccount.balance}`);
+      opened++;
+    } catch (accountError) {
+      console.error(`❌ Error opening ${account.type} ${account.ownerId}:`, accountError);
+      errors++;
+    }
+  }
+
+  const report = await ledgerService.checkConsistency();
+
+  console.log('\n=== Migration Complete ===');
+  console.log(`Opened: ${opened}`);
+  console.log(`Errors: ${errors}`);
+  console.log(`Total issued: ${report.totals.issued} JCMOVES, consistent: ${report.isConsistent}`);
+}
+
+// Run the migration
+migrateLedgerOpeningBalances()
+  .then(() => {
+    console.log('\nMigration script completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\nMigration script failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,113 @@
+import { db } from './db';
+import { leads, shopItems, type JobPhoto } from '@shared/schema';
+import { storage } from './storage';
+import { mediaService } from './services/media';
+import { parseMediaUrl } from '@shared/media';
+import { eq, sql } from 'drizzle-orm';
+
+/**
+ * Migration script to move base64 photos out of JSONB columns into the media store
+ *
+ * This script:
+ * 1. Finds leads whose `photos` entries hold data URLs, and shop items whose `photos` hold data URLs
+ * 2. For each data URL:
+ *    - Stores it as a media asset (object storage plus a `media_assets` row, with thumbnail and EXIF)
+ *    - Replaces it with the asset's /api/media URL
+ * 3. Logs progress and any errors
+ *
+ * Safe to re-run: rows without data URLs are skipped.
+ * Run with: tsx server/migrate-media-assets.ts
+ */
+async function migrateMediaAssets() {
+  console.log('Starting migration of JSONB photos to the media store...');
+
+  let migrated = 0;
+  let errors = 0;
+
+  // Job photos: { id, url, type, ... } objects in leads.photos
+  const leadRows = await db
+    .select({ id: leads.id, photos: leads.photos })
+    .from(leads)
+    .where(sql`${leads.photos}::text LIKE '%"data:%'`);
+  console.log(`Found ${leadRows.length} jobs with embedded photos`);
+
+  for (const lead of leadRows) {
+    try {
+      const photos = (lead.photos as JobPhoto[]) || [];
+      const updated: JobPhoto[] = [];
+
+      for (const photo of photos) {
+        if (!photo.url?.startsWith('data:')) {
+          updated.push(photo);
+          continue;
+        }
+
+        const result = await mediaService.ingestDataUrl(photo.url, 'job_photo', null);
+        if (!result.success) {
+          throw new Error(`Photo ${photo.id}: ${result.error}`);
+        }
+
+        const media = mediaService.toResponse(result.data!);
+        updated.push({
+          ...photo,
+          url: media.url,
+          thumbnailUrl: media.thumbnailUrl ?? undefined,
+          location: photo.location ?? media.location ?? undefined,
+        });
+      }
+
+      await db.update(leads).set({ photos: updated }).where(eq(leads.id, lead.id));
+      const mediaIds = updated.map((photo) => parseMediaUrl(photo.url)).filter((id): id is string => id !== null);
+      await storage.attachMediaAssets(mediaIds, 'lead', lead.id);
+
+      console.log(`✅ Migrated job ${lead.id} - ${photos.length} photos`);
+      migrated++;
+    } catch (leadError) {
+      console.error(`❌ Error migrating job ${lead.id}:`, leadError);
+      errors++;
+    }
+  }
+
+  // Shop media: data URL strings in shop_items.photos
+  const shopRows = await db
+    .select({ id: shopItems.id, title: shopItems.title, photos: shopItems.photos })
+    .from(shopItems)
+    .where(sql`${shopItems.photos}::text LIKE '%"data:%'`);
+  console.log(`Found ${shopRows.length} shop items with embedded media`);
+
+  for (const item of shopRows) {
+    try {
+      const result = await mediaService.resolveShopMedia(null, (item.photos as string[]) || []);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      await db
+        .update(shopItems)
+        .set({ photos: result.data!, updatedAt: new Date() })
+        .where(eq(shopItems.id, item.id));
+      await mediaService.syncShopItemMedia(item.id, result.data!);
+
+      console.log(`✅ Migrated ${item.id} (${item.title}) - ${result.data!.length} photos`);
+      migrated++;
+    } catch (itemError) {
+      console.error(`❌ Error migrating item ${item.id}:`, itemError);
+      errors++;
+    }
+  }
+
+  console.log('\n=== Migration Complete ===');
+  console.log(`Migrated: ${migrated}`);
+  console.log(`Errors: ${errors}`);
+}
+
+// Run the migration
+migrateMediaAssets()
+  .then(() => {
+    console.log('\nMigration script completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\nMigration script failed:', error);
+    process.exit(1);
+  });
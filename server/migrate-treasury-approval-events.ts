@@ -0,0 +1,45 @@
+import { db } from './db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Migration script to make the treasury approval history immutable
+ *
+ * This script:
+ * 1. Creates a trigger function that raises on any UPDATE or DELETE
+ * 2. Attaches it to treasury_approval_events, so who requested, approved or rejected a treasury
+ *    movement can't be rewritten, even from a SQL console
+ *
+ * Run after `npm run db:push` has created the table.
+ * Safe to re-run: the function is replaced and the trigger recreated.
+ * Run with: tsx server/migrate-treasury-approval-events.ts
+ */
+async function migrateTreasuryApprovalEvents() {
+  console.log('Protecting treasury approval events...');
+
+  await db.execute(sql`
+    CREATE OR REPLACE FUNCTION reject_treasury_approval_event_change() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'treasury_approval_events is append-only';
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+  await db.execute(sql`DROP TRIGGER IF EXISTS treasury_approval_events_append_only ON treasury_approval_events`);
+  await db.execute(sql`
+    CREATE TRIGGER treasury_approval_events_append_only
+    BEFORE UPDATE OR DELETE ON treasury_approval_events
+    FOR EACH ROW EXECUTE FUNCTION reject_treasury_approval_event_change()
+  `);
+
+  console.log('✅ treasury_approval_events now rejects updates and deletes');
+}
+
+// Run the migration
+migrateTreasuryApprovalEvents()
+  .then(() => {
+    console.log('\nMigration script completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\nMigration script failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,34 @@
+import { storage } from './storage';
+
+/**
+ * Migration script to lock closed treasury periods
+ *
+ * This script:
+ * 1. Creates a trigger function that raises when a row being inserted, updated or deleted is dated
+ *    inside a period recorded in treasury_period_closes
+ * 2. Attaches it to the tables a period close is built from: reserve_transactions, ledger_entries,
+ *    ledger_lines and price_history, plus the accounting columns of funding_deposits (anonymizing
+ *    depositedBy when a user is deleted is still allowed)
+ * 3. Makes treasury_period_closes itself append-only, so a close can't be quietly undone
+ *
+ * The server installs the same triggers on startup and before closing a period
+ * (storage.installTreasuryPeriodLocks), so this is only needed to lock a database the server hasn't run against.
+ * Safe to re-run: the functions are replaced and the triggers recreated.
+ * Run with: tsx server/migrate-treasury-period-locks.ts
+ */
+async function migrateTreasuryPeriodLocks() {
+  console.log('Locking closed treasury periods...');
+  await storage.installTreasuryPeriodLocks();
+  console.log('✅ Closed treasury periods are now locked');
+}
+
+// Run the migration
+migrateTreasuryPeriodLocks()
+  .then(() => {
+    console.log('\nMigration script completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\nMigration script failed:', error);
+    process.exit(1);
+  });
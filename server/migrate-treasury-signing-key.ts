@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { db } from './db';
+import { treasuryWallets } from '@shared/schema';
+import { storage } from './storage';
+import { EncryptionService } from './services/encryption';
+import { LEDGER_CURRENCY } from '@shared/ledger';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Migration script to give the JCMOVES treasury wallet a signing key for on-chain withdrawals
+ *
+ * This script:
+ * 1. Reads the treasury keypair from TREASURY_KEYPAIR_PATH (a solana-keygen JSON file) or
+ *    TREASURY_SECRET_KEY (base58)
+ * 2. Encrypts it with EncryptionService (ENCRYPTION_KEY) into treasury_wallets.private_key_hash
+ * 3. Creates the JCMOVES treasury wallet from the keypair if there isn't one yet, which is how a
+ *    fresh solana-test-validator setup gets its treasury
+ *
+ * Refuses to store a key that doesn't match the existing treasury wallet address.
+ * Safe to re-run: the stored key is replaced with a fresh encryption of the same key.
+ * Run with: TREASURY_KEYPAIR_PATH=~/.config/solana/id.json tsx server/migrate-treasury-signing-key.ts
+ */
+async function migrateTreasurySigningKey() {
+  console.log('Storing the treasury signing key...');
+
+  const keypairPath = process.env.TREASURY_KEYPAIR_PATH;
+  const secretKey = keypairPath
+    ? Uint8Array.from(JSON.parse(readFileSync(keypairPath, 'utf8')))
+    : process.env.TREASURY_SECRET_KEY
+      ? bs58.decode(process.env.TREASURY_SECRET_KEY)
+      : null;
+  if (!secretKey) {
+    throw new Error('Set TREASURY_KEYPAIR_PATH or TREASURY_SECRET_KEY');
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+  const walletAddress = keypair.publicKey.toBase58();
+  const privateKeyHash = await EncryptionService.encrypt(JSON.stringify(Array.from(keypair.secretKey)));
+
+  const currency = await storage.getSupportedCurrencyBySymbol(LEDGER_CURRENCY);
+  if (!currency) {
+    throw new Error(`${LEDGER_CURRENCY} currency not found - start the server once to create default currencies`);
+  }
+
+  const existing = await storage.getTreasuryWallet(currency.id, 'treasury');
+  if (existing) {
+    if (existing.walletAddress !== walletAddress) {
+      throw new Error(`Keypair ${walletAddress} doesn't match treasury wallet ${existing.walletAddress}`);
+    }
+    await db
+      .update(treasuryWallets)
+      .set({ privateKeyHash, publicKey: walletAddress, walletType: 'hot_wallet', updatedAt: new Date() })
+      .where(eq(treasuryWallets.id, existing.id));
+    console.log(`✅ Stored signing key for treasury wallet ${walletAddress}`);
+  } else {
+    await db.insert(treasuryWallets).values({
+      currencyId: currency.id,
+      walletAddress,
+      publicKey: walletAddress,
+      privateKeyHash,
+      walletType: 'hot_wallet',
+      purpose: 'treasury',
+      roleScope: 'admin',
+    });
+    console.log(`✅ Created treasury wallet ${walletAddress} with its signing key`);
+  }
+}
+
+// Run the migration
+migrateTreasurySigningKey()
+  .then(() => {
+    console.log('\nMigration script completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\nMigration script failed:', error);
+    process.exit(1);
+  });
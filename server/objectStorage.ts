@@ -1,6 +1,9 @@
 import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
-import { randomUUID } from "crypto";
+import { randomUUID, createHmac, timingSafeEqual } from "crypto";
+import { promises as fs, createReadStream } from "fs";
+import path from "path";
+import type { Readable } from "stream";
 
 const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
 
@@ -31,10 +34,170 @@ export class ObjectNotFoundError extends Error {
   }
 }
 
+export interface OpenedObject {
+  stream: Readable;
+  size: number;
+}
+
+// Where private objects (media assets) are kept: the Replit bucket under PRIVATE_OBJECT_DIR, or a local
+// directory for development and tests when OBJECT_STORAGE_BACKEND=local
+interface PrivateObjectBackend {
+  readonly isLocal: boolean;
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Buffer | null>;
+  open(key: string): Promise<OpenedObject | null>;
+  delete(key: string): Promise<void>;
+  // URL the browser PUTs the object to directly
+  getUploadUrl(key: string, contentType: string, ttlSec: number): Promise<string>;
+}
+
+class BucketObjectBackend implements PrivateObjectBackend {
+  readonly isLocal = false;
+
+  constructor(private privateDir: string) {}
+
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.file(key).save(data, { contentType });
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const file = this.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [data] = await file.download();
+    return data;
+  }
+
+  async open(key: string): Promise<OpenedObject | null> {
+    const file = this.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [metadata] = await file.getMetadata();
+    return { stream: file.createReadStream(), size: Number(metadata.size) || 0 };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.file(key).delete({ ignoreNotFound: true });
+  }
+
+  async getUploadUrl(key: string, contentType: string, ttlSec: number): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(`${this.privateDir}/${key}`);
+    return signObjectURL({ bucketName, objectName, method: "PUT", ttlSec });
+  }
+
+  private file(key: string): File {
+    const { bucketName, objectName } = parseObjectPath(`${this.privateDir}/${key}`);
+    return objectStorageClient.bucket(bucketName).file(objectName);
+  }
+}
+
+// Files under LOCAL_OBJECT_STORAGE_DIR. Uploads go to our own PUT route, authorized by an HMAC-signed URL
+class LocalObjectBackend implements PrivateObjectBackend {
+  readonly isLocal = true;
+
+  constructor(private rootDir: string, private signingSecret: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async open(key: string): Promise<OpenedObject | null> {
+    const filePath = this.resolve(key);
+    try {
+      const stats = await fs.stat(filePath);
+      return { stream: createReadStream(filePath), size: stats.size };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async getUploadUrl(key: string, contentType: string, ttlSec: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + ttlSec;
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: this.sign(key, contentType, expires),
+    });
+    return `/api/media/uploads/local?${params.toString()}`;
+  }
+
+  verifyUpload(key: string, contentType: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    const expected = Buffer.from(this.sign(key, contentType, expires));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private sign(key: string, contentType: string, expires: number): string {
+    return createHmac("sha256", this.signingSecret).update(`${key}:${contentType}:${expires}`).digest("hex");
+  }
+
+  // Keys are generated by the server, but never let one escape the root directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+let privateObjectBackend: PrivateObjectBackend | null = null;
+
+// The local backend is opt-in and refused outside development and tests, so a missing bucket can't
+// silently put customer uploads on the server's disk
+function getPrivateObjectBackend(): PrivateObjectBackend {
+  if (!privateObjectBackend) {
+    if (process.env.OBJECT_STORAGE_BACKEND === "local") {
+      if (process.env.NODE_ENV !== "development" && process.env.NODE_ENV !== "test") {
+        throw new Error("OBJECT_STORAGE_BACKEND=local is only allowed when NODE_ENV is development or test.");
+      }
+      if (!process.env.SESSION_SECRET) {
+        throw new Error("SESSION_SECRET not set. It signs upload URLs for local object storage.");
+      }
+      privateObjectBackend = new LocalObjectBackend(
+        path.resolve(process.env.LOCAL_OBJECT_STORAGE_DIR || ".local-objects"),
+        process.env.SESSION_SECRET,
+      );
+    } else {
+      const privateDir = process.env.PRIVATE_OBJECT_DIR || "";
+      if (!privateDir) {
+        throw new Error(
+          "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
+            "tool and set PRIVATE_OBJECT_DIR env var, or set OBJECT_STORAGE_BACKEND=local in development."
+        );
+      }
+      privateObjectBackend = new BucketObjectBackend(privateDir);
+    }
+  }
+  return privateObjectBackend;
+}
+
 // The object storage service is used to interact with the object storage service.
 export class ObjectStorageService {
   constructor() {}
 
+  // Called at startup so missing private storage configuration fails there instead of on the first upload
+  checkPrivateObjectStorage(): void {
+    getPrivateObjectBackend();
+  }
+
   // Gets the public object search paths.
   getPublicObjectSearchPaths(): Array<string> {
     const pathsStr = process.env.PUBLIC_OBJECT_SEARCH_PATHS || "";
@@ -199,6 +362,69 @@ export class ObjectStorageService {
     // Return the public URL path
     return `/public-objects/${filename}`;
   }
+
+  // Private objects (media assets) - served through the app, never by public URL
+
+  async savePrivateObject(key: string, data: Buffer, contentType: string): Promise<void> {
+    await getPrivateObjectBackend().save(key, data, contentType);
+  }
+
+  async readPrivateObject(key: string): Promise<Buffer | null> {
+    return getPrivateObjectBackend().read(key);
+  }
+
+  async openPrivateObject(key: string): Promise<OpenedObject | null> {
+    return getPrivateObjectBackend().open(key);
+  }
+
+  async deletePrivateObject(key: string): Promise<void> {
+    await getPrivateObjectBackend().delete(key);
+  }
+
+  // Signed URL the browser uploads a private object to with PUT
+  async getPrivateUploadUrl(key: string, contentType: string, ttlSec: number = 900): Promise<string> {
+    return getPrivateObjectBackend().getUploadUrl(key, contentType, ttlSec);
+  }
+
+  // Stores an upload sent to the local backend's signed URL. False when the signature is invalid or expired
+  async acceptLocalUpload(key: string, contentType: string, expires: number, signature: string, data: Buffer): Promise<boolean> {
+    const backend = getPrivateObjectBackend();
+    if (!(backend instanceof LocalObjectBackend) || !backend.verifyUpload(key, contentType, expires, signature)) {
+      return false;
+    }
+    await backend.save(key, data);
+    return true;
+  }
+}
+
+async function signObjectURL({
+  bucketName,
+  objectName,
+  method,
+  ttlSec,
+}: {
+  bucketName: string;
+  objectName: string;
+  method: "GET" | "PUT" | "DELETE" | "HEAD";
+  ttlSec: number;
+}): Promise<string> {
+  const request = {
+    bucket_name: bucketName,
+    object_name: objectName,
+    method,
+    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+  };
+  const response = await fetch(`${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to sign object URL, errorcode: ${response.status}`);
+  }
+
+  const { signed_url: signedURL } = await response.json();
+  return signedURL;
 }
 
 function parseObjectPath(path: string): {
@@ -1,14 +1,13 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertLeadSchema, insertContactSchema, insertCashoutRequestSchema, insertShopItemSchema, insertReviewSchema } from "@shared/schema";
+import { storage, postLedgerEntry } from "./storage";
+import { insertLeadSchema, insertContactSchema, insertCashoutRequestSchema, insertShopItemSchema, insertReviewSchema, type Lead } from "@shared/schema";
 import { sendEmail, generateLeadNotificationEmail, generateContactNotificationEmail } from "./services/email";
 import { setupAuth, isAuthenticated } from "./auth";
 import bcrypt from "bcrypt";
 // REMOVED: Daily check-in service replaced by unified mining system with streaks
 // import { dailyCheckinService } from "./services/daily-checkin";
 import { rewardsService } from "./services/rewards";
-import { cryptoCashoutService } from "./services/crypto-cashout";
 import { cryptoService } from "./services/crypto";
 import { moonshotService, moonshotAccountTransferSchema } from "./services/moonshot";
 import { treasuryService } from "./services/treasury";
@@ -19,16 +18,60 @@ import { z } from "zod";
 import { EncryptionService } from "./services/encryption";
 import { eq, desc, sql, and, gte } from 'drizzle-orm';
 import { db } from './db';
-import { rewards, walletAccounts, cashoutRequests, fundingDeposits, reserveTransactions, users, leads } from '@shared/schema';
+import { rewards, walletAccounts, cashoutRequests, fundingDeposits, reserveTransactions, treasuryAccounts, users, leads } from '@shared/schema';
 import { getFaucetPayService } from "./services/faucetpay";
 import { getAdvertisingService } from "./services/advertising";
-import { FAUCET_CONFIG } from "./constants";
+import { ESTIMATE_CONFIG, FAUCET_CONFIG, IDEMPOTENCY_CONFIG } from "./constants";
 import { walletService } from "./services/wallet";
 import { solanaMonitor } from "./services/solana-monitor";
+import { solanaWithdrawalService } from "./services/solana-withdrawals";
 import { crewSuggestionService } from "./services/crew-suggestions";
 import { ObjectStorageService } from "./objectStorage";
+import { isLeadStatus, getLeadStatusActor, LeadStatusTransitionError } from "@shared/lead-status";
+import { quotePricingInputSchema, getLeadQuoteInput } from "@shared/pricing";
+import { pricingService } from "./services/pricing";
+import { quoteService, type QuoteErrorCode } from "./services/quotes";
+import { invoiceService } from "./services/invoices";
+import { jobCompletionService } from "./services/job-completion";
+import { invoiceAdjustmentSchema, recordPaymentSchema, type InvoiceErrorCode } from "@shared/invoices";
+import { schedulingService } from "./services/scheduling";
+import { timeClockService } from "./services/time-clock";
+import { routingService } from "./services/routing";
+import { weeklyAvailabilitySchema, timeOffRequestSchema, ScheduleConflictError, DEFAULT_JOB_HOURS } from "@shared/scheduling";
+import { crewProfileSchema } from "@shared/crew-scoring";
+import { clockInSchema, clockOutSchema, timeEntryEditSchema, timeEntryReviewSchema, getPayrollWeekStart, type TimeClockErrorCode } from "@shared/time-clock";
+import { jobStopsSchema } from "@shared/routing";
+import { IDEMPOTENCY_KEY_HEADER, MAX_IDEMPOTENCY_KEY_LENGTH } from "@shared/offline-sync";
+import { mediaService } from "./services/media";
+import { createMediaUploadSchema, jobPhotoInputSchema, MAX_VIDEO_BYTES, type MediaErrorCode } from "@shared/media";
+import { ledgerService } from "./services/ledger";
+import { getLedgerAccountKey, LEDGER_CURRENCY, LedgerError, userRewardsAccount } from "@shared/ledger";
+import { withdrawalRequestSchema, type WithdrawalErrorCode } from "@shared/solana-withdrawals";
+import { treasuryApprovalService } from "./services/treasury-approvals";
+import { treasuryReconciliationService } from "./services/treasury-reconciliation";
+import { DISCREPANCY_STATUSES, discrepancyResolutionSchema, type ReconciliationErrorCode } from "@shared/treasury-reconciliation";
+import { treasuryAccountingService } from "./services/treasury-accounting";
+import { parseTreasuryPeriod, TREASURY_EXPORT_FORMATS, TREASURY_PERIOD_TYPES, treasuryPeriodCloseSchema, type TreasuryExportFormat, type TreasuryPeriodErrorCode, type TreasuryPeriodType } from "@shared/treasury-accounting";
+import { priceOracle } from "./services/price-oracle";
+import { PriceOracleError, priceOverrideSchema, type PriceOracleErrorCode } from "@shared/price-oracle";
+import { cashoutService } from "./services/cashouts";
+import { vestingService } from "./services/vesting";
+import { peerTransferService } from "./services/peer-transfers";
+import { peerTransferSchema, type PeerTransferErrorCode } from "@shared/peer-transfers";
+import { achievementService } from "./services/achievements";
+import { leaderboardService } from "./services/leaderboard";
+import { getLeaderboardWeekStart, LeaderboardError, leaderboardCloseSchema, leaderboardWeekSchema, type LeaderboardErrorCode } from "@shared/leaderboard";
+import { gamificationConfigService } from "./services/gamification-config";
+import { competitionService } from "./services/competitions";
+import { CompetitionError, competitionInputSchema, type CompetitionErrorCode } from "@shared/competitions";
+import { GAMIFICATION_SETTING_DEFINITIONS, gamificationPreviewSchema, gamificationSettingsUpdateSchema } from "@shared/gamification-config";
+import { AchievementError, achievementEvaluationSchema, achievementTypeInputSchema, type AchievementErrorCode } from "@shared/achievements";
+import { CASHOUT_STATUSES, CashoutError, cashoutRequestSchema, cashoutReviewSchema, kycReviewSchema, kycSubmissionSchema, type CashoutErrorCode, type CashoutStatus } from "@shared/cashouts";
+import { APPROVAL_ACTION_TYPES, APPROVAL_REQUEST_STATUSES, approvalDecisionSchema, approvalPolicySchema, type ApprovalActionType, type TreasuryApprovalErrorCode } from "@shared/treasury-approvals";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  new ObjectStorageService().checkPrivateObjectStorage();
+
   // Public health check endpoint for deployment monitoring (MUST be before auth setup)
   // This endpoint is used by Replit Autoscale Deployments to verify the service is healthy
   app.get("/health", (req, res) => {
@@ -265,16 +308,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Validation schemas for rewards endpoints
   // NOTE: checkinSchema removed - daily check-ins replaced by unified mining system
   
-  const cashoutSchema = z.object({
-    tokenAmount: z.number().positive().min(0.01),
-    bankDetails: z.object({
-      accountNumber: z.string().min(4),
-      routingNumber: z.string().length(9),
-      accountHolderName: z.string().min(2),
-      bankName: z.string().min(2)
-    })
-  });
-
   // Treasury validation schema
   const treasuryDepositSchema = z.object({
     amount: z.coerce.number().positive().min(1.00).max(1000000).finite(), // $1.00 - $1M deposit
@@ -569,6 +602,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
+  // Requests sent with an Idempotency-Key header (the offline sync queue) run once per key: retries get the
+  // stored response back instead of accepting or completing a job twice. Server errors free the key for another try,
+  // and a claim left in progress by a request that never finished is taken over once it is stale
+  const withIdempotencyKey = async (req: any, res: any, next: any) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+    if (!key) return next();
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return res.status(400).json({ error: `${IDEMPOTENCY_KEY_HEADER} is too long` });
+    }
+
+    try {
+      const staleBefore = new Date(Date.now() - IDEMPOTENCY_CONFIG.STALE_CLAIM_MS);
+      const claim = await storage.claimIdempotencyKey(req.currentUser.id, key, req.path, staleBefore);
+      if (!claim.claimed) {
+        const { existing } = claim;
+        if (existing.requestPath !== req.path) {
+          return res.status(422).json({ error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`, code: 'idempotency_key_reused' });
+        }
+        if (existing.statusCode === null) {
+          return res.status(409).json({ error: "This request is still being processed", code: 'request_in_progress' });
+        }
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(existing.statusCode).json(existing.responseBody);
+      }
+
+      // Every response settles the claim once: JSON responses are stored before they are sent and anything
+      // else is stored without a body when it finishes. A handler that never responds leaves a stale claim
+      let settled = false;
+      const settle = (statusCode: number, body: unknown) => {
+        if (settled) return Promise.resolve();
+        settled = true;
+        const record = statusCode >= 500
+          ? storage.releaseIdempotencyKey(claim.id)
+          : storage.completeIdempotencyKey(claim.id, statusCode, body);
+        return record.catch((error) => console.error("Error recording idempotent response:", error));
+      };
+
+      const sendJson = res.json.bind(res);
+      res.json = (body: unknown) => {
+        settle(res.statusCode, body).finally(() => sendJson(body));
+        return res;
+      };
+      res.on('finish', () => settle(res.statusCode, null));
+      next();
+    } catch (error) {
+      console.error("Idempotency key error:", error);
+      res.status(500).json({ error: "Failed to process request" });
+    }
+  };
+
+  // Completed keys are only needed while the offline queue might still replay them
+  setInterval(() => {
+    storage.pruneIdempotencyKeys(new Date(Date.now() - IDEMPOTENCY_CONFIG.RETENTION_MS))
+      .then((pruned) => {
+        if (pruned > 0) console.log(`🧹 Pruned ${pruned} idempotency key(s)`);
+      })
+      .catch((error) => console.error("Error pruning idempotency keys:", error));
+  }, IDEMPOTENCY_CONFIG.PRUNE_INTERVAL_MS);
+
+  // Sliding window per client IP for the public estimate endpoint. Clients are re-inserted on every request,
+  // so the Map stays in last-seen order and the quietest are dropped first when it's full
+  const estimateRequests = new Map<string, number[]>();
+  const limitEstimateRequests = (req: any, res: any, next: any) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+    const recent = (estimateRequests.get(key) || []).filter((time) => now - time < ESTIMATE_CONFIG.RATE_LIMIT_WINDOW_MS);
+    if (recent.length >= ESTIMATE_CONFIG.RATE_LIMIT_MAX_REQUESTS) {
+      res.set('Retry-After', String(Math.ceil((recent[0] + ESTIMATE_CONFIG.RATE_LIMIT_WINDOW_MS - now) / 1000)));
+      return res.status(429).json({ error: "Too many estimate requests, try again in a minute" });
+    }
+
+    estimateRequests.delete(key);
+    estimateRequests.set(key, [...recent, now]);
+    while (estimateRequests.size > ESTIMATE_CONFIG.RATE_LIMIT_MAX_CLIENTS) {
+      estimateRequests.delete(estimateRequests.keys().next().value!);
+    }
+    next();
+  };
+
   // Treasury access - allows admin, employee, and business_owner (not customers)
   const requireTreasuryAccess = async (req: any, res: any, next: any) => {
     try {
@@ -982,9 +1094,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .where(eq(users.id, id))
         .returning();
+
+      // Removed employees lose rewards that haven't vested; reinstating them doesn't bring the grants back
+      let forfeitedGrants = 0;
+      if (status === 'removed' && user.status !== 'removed') {
+        forfeitedGrants = (await vestingService.forfeitGrants(id, 'Removed by an administrator')).length;
+      }
       
       console.log(`✅ User ${id} status updated to ${status}`);
-      res.json({ success: true, user: updatedUser });
+      res.json({ success: true, user: updatedUser, forfeitedGrants });
     } catch (error) {
       console.error("Error updating user status:", error);
       res.status(500).json({ error: "Failed to update user status" });
@@ -1030,30 +1148,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (tokenBalance > 0) {
           console.log(`💰 Transferring ${tokenBalance} tokens from user ${id} to treasury...`);
           
-          // Set wallet balance to zero within transaction
-          if (wallet) {
-            await tx
-              .update(walletAccounts)
-              .set({ tokenBalance: "0.00000000" })
-              .where(eq(walletAccounts.userId, id || ""));
-          }
-          
-          // Get treasury account and update reserve (within same transaction)
+          // Get treasury account (within same transaction)
           const [treasuryAccount] = await tx
             .select()
             .from(treasuryAccounts)
             .where(eq(treasuryAccounts.isActive, true))
-            .limit(1);
+            .orderBy(treasuryAccounts.createdAt)
+            .limit(1)
+            .for('update');
           
           if (treasuryAccount) {
-            const currentReserve = parseFloat(treasuryAccount.tokenReserve);
-            const newReserve = currentReserve + tokenBalance;
-            
-            // Update treasury reserve within transaction
-            await tx
-              .update(treasuryAccounts)
-              .set({ tokenReserve: newReserve.toFixed(8) })
-              .where(eq(treasuryAccounts.id, treasuryAccount.id));
+            // Move the balance back to the reserve in the ledger, which zeroes the wallet and updates tokenReserve
+            const reserveAccount = { type: 'treasury_reserve' as const, ownerId: treasuryAccount.id };
+            const posted = await postLedgerEntry(tx, {
+              entryType: 'reclaim',
+              description: `Tokens reclaimed from deleted user account: ${user.email || id}`,
+              relatedEntityType: 'account_deletion',
+              relatedEntityId: id,
+              createdBy: (req.session as any).userId,
+              postings: [
+                { account: userRewardsAccount(id), amount: -tokenBalance },
+                { account: reserveAccount, amount: tokenBalance },
+              ],
+            });
+            const newReserve = parseFloat(posted.balances[getLedgerAccountKey(reserveAccount)]);
             
             // Record the reclaim transaction within same transaction
             await tx.insert(reserveTransactions).values({
@@ -1063,7 +1181,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               relatedEntityId: id,
               tokenAmount: tokenBalance.toFixed(8),
               cashValue: "0.00",
-              balanceAfter: treasuryAccount.cashReserve,
+              balanceAfter: treasuryAccount.availableFunding,
               tokenReserveAfter: newReserve.toFixed(8),
               description: `Tokens reclaimed from deleted user account: ${user.email || id}`,
             });
@@ -1113,36 +1231,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!targetUser) {
         return res.status(404).json({ error: "User not found" });
       }
-      
-      // Distribute tokens from treasury to user
-      const distributionResult = await treasuryService.distributeTokens(
-        parseFloat(tokenAmount),
-        description || `Admin transfer to ${targetUser.email}`,
-        'admin_transfer',
-        userId
-      );
-      
-      if (!distributionResult.success) {
-        return res.status(400).json({ error: distributionResult.error });
+
+      const requester = await treasuryApprovalService.getActor((req.session as any).userId);
+      if (!requester) {
+        return res.status(401).json({ error: "Unauthorized" });
       }
       
-      // Add tokens to user wallet
-      await storage.addTokens(
-        userId,
-        parseFloat(tokenAmount),
-        distributionResult.cashValue,
-        'admin_transfer',
-        description
-      );
+      // Distribute tokens from treasury to user, or hold the transfer for approvers over the policy threshold
+      const amount = parseFloat(tokenAmount);
+      const result = await treasuryApprovalService.submit('admin_wallet_transfer', requester, {
+        tokenAmount: amount,
+        summary: `Transfer ${amount.toLocaleString()} JCMOVES to ${targetUser.email || targetUser.username || userId}`,
+        payload: { userId, userEmail: targetUser.email, tokenAmount: amount, description: description || '' },
+      });
       
-      // Get updated balance
-      const updatedBalance = await storage.getTokenBalance(userId);
+      if (!result.success || !result.data) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      if (result.data.pendingApproval) {
+        return res.status(202).json({
+          success: true,
+          pendingApproval: true,
+          message: `Transfer of ${tokenAmount} JCMOVES to ${targetUser.email} is waiting for approval`,
+          request: result.data.request,
+        });
+      }
       
       res.json({
         success: true,
         message: `Successfully transferred ${tokenAmount} JCMOVES to ${targetUser.email}`,
-        newBalance: updatedBalance.toFixed(8),
-        cashValue: distributionResult.cashValue
+        newBalance: result.data.result.newBalance,
+        cashValue: result.data.result.cashValue
       });
     } catch (error) {
       console.error("Error transferring tokens:", error);
@@ -1424,19 +1544,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Protected routes - Update lead status (dashboard only - business owner only)
-  app.patch("/api/leads/:id/status", isAuthenticated, requireBusinessOwner, async (req, res) => {
+  app.patch("/api/leads/:id/status", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, reason } = req.body;
       
-      if (!status || !["new", "contacted", "quoted", "confirmed", "available", "accepted"].includes(status)) {
+      if (!isLeadStatus(status)) {
         return res.status(400).json({ error: "Invalid status" });
       }
 
-      const updatedLead = await storage.updateLeadStatus(id, status);
-      if (!updatedLead) {
+      const statusUpdate = await storage.updateLeadStatus(id, status, {
+        changedByUserId: req.currentUser.id,
+        actor: getLeadStatusActor(req.currentUser.role) || 'manager',
+        reason: typeof reason === 'string' ? reason : null,
+      });
+      if (!statusUpdate) {
         return res.status(404).json({ error: "Lead not found" });
       }
+      const updatedLead = statusUpdate.lead;
+
+      // Only the request that actually completed the job finishes it
+      if (status === 'completed' && statusUpdate.changed) {
+        await jobCompletionService.finishCompletedJob(id, req.currentUser.id);
+      }
 
       // Send notifications for important status changes
       try {
@@ -1468,21 +1598,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedLead);
     } catch (error) {
       console.error("Error updating lead status:", error);
-      if (error instanceof Error && error.message.includes("Cannot set status to 'accepted'")) {
+      if (error instanceof LeadStatusTransitionError) {
         return res.status(400).json({ error: error.message });
       }
       res.status(500).json({ error: "Failed to update lead status" });
     }
   });
 
+  // Status change timeline for a lead (business owner only)
+  app.get("/api/leads/:id/status-history", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const lead = await storage.getLead(id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      const history = await storage.getLeadStatusHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching lead status history:", error);
+      res.status(500).json({ error: "Failed to fetch status history" });
+    }
+  });
+
   // General update lead endpoint (admin or employee)
   // TEMPORARY: Authentication temporarily disabled for debugging
   app.patch("/api/leads/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const updateData = req.body;
+      const { status: requestedStatus, statusReason, ...updateData } = req.body;
       
-      console.log(`📝 Updating lead ${id} with:`, updateData);
+      console.log(`📝 Updating lead ${id} with:`, req.body);
       
       // Get the current lead status BEFORE updating to check for status change
       const currentLead = await storage.getLead(id);
@@ -1490,56 +1637,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`❌ Lead ${id} not found for update`);
         return res.status(404).json({ error: "Lead not found" });
       }
-      
+
       // Update last quote timestamp if quote-related fields are being updated
       if (updateData.basePrice || updateData.crewSize || updateData.confirmedDate) {
         updateData.lastQuoteUpdatedAt = new Date();
       }
-      
-      const updatedLead = await storage.updateLeadQuote(id, updateData);
+
+      // Status changes go through the lifecycle rules and need a known actor
+      const isStatusChange = requestedStatus !== undefined && requestedStatus !== currentLead.status;
+      let updatedLead: Lead | undefined;
+      let completedJob = false;
+      if (isStatusChange) {
+        if (!isLeadStatus(requestedStatus)) {
+          return res.status(400).json({ error: "Invalid status" });
+        }
+        const sessionUser = (req.session as any).userId ? await storage.getUser((req.session as any).userId) : undefined;
+        const statusActor = sessionUser ? getLeadStatusActor(sessionUser.role) : null;
+        if (!sessionUser || !statusActor) {
+          return res.status(401).json({ error: "Authentication required to change job status" });
+        }
+
+        // A completion the crew can't be paid for is refused before anything is saved
+        if (requestedStatus === "completed") {
+          const rewardError = jobCompletionService.getRewardAllocationError({ ...currentLead, ...updateData });
+          if (rewardError) {
+            return res.status(400).json({ error: rewardError });
+          }
+        }
+
+        // The status and the other fields are saved together, so a refused transition changes nothing
+        const statusUpdate = await storage.updateLeadStatus(id, requestedStatus, {
+          changedByUserId: sessionUser.id,
+          actor: statusActor,
+          reason: typeof statusReason === 'string' ? statusReason : null,
+          fields: updateData,
+        });
+        updatedLead = statusUpdate?.lead;
+        completedJob = requestedStatus === "completed" && !!statusUpdate?.changed;
+      } else {
+        updatedLead = Object.keys(updateData).length > 0
+          ? await storage.updateLeadQuote(id, updateData)
+          : await storage.getLead(id);
+      }
       
       if (!updatedLead) {
         console.log(`❌ Lead ${id} not found for update`);
         return res.status(404).json({ error: "Lead not found" });
       }
       
-      // IDEMPOTENCY CHECK: Only distribute tokens if rewards haven't been distributed yet
-      const isStatusChangingToCompleted = updateData.status === "completed" && currentLead.status !== "completed";
-      const rewardsAlreadyDistributed = currentLead.completionRewardedAt !== null && currentLead.completionRewardedAt !== undefined;
-      
-      if (isStatusChangingToCompleted && !rewardsAlreadyDistributed && updatedLead.tokenAllocation && updatedLead.crewMembers && updatedLead.crewMembers.length > 0) {
-        try {
-          const totalTokens = parseFloat(updatedLead.tokenAllocation);
-          
-          // Validate token allocation
-          if (isNaN(totalTokens) || totalTokens <= 0) {
-            console.log(`⚠️ Invalid token allocation for job ${id}: ${updatedLead.tokenAllocation}`);
-            return res.status(400).json({ error: "Invalid or missing token allocation. Please set a valid token amount before marking the job as completed." });
-          } else {
-            const tokensPerWorker = totalTokens / updatedLead.crewMembers.length;
-            
-            console.log(`💰 Admin completion: Distributing ${totalTokens} tokens to ${updatedLead.crewMembers.length} crew members (${tokensPerWorker} each)`);
-            
-            // Award tokens to each crew member using gamification service (includes creator bonus)
-            for (const crewMemberId of updatedLead.crewMembers) {
-              await gamificationService.awardJobCompletion(crewMemberId, id, tokensPerWorker.toFixed(8), {
-                onTime: true,
-                customerRating: 5
-              });
-              console.log(`✅ Awarded ${tokensPerWorker} tokens to crew member ${crewMemberId}`);
-            }
-            
-            // Mark rewards as distributed
-            await storage.updateLeadQuote(id, { completionRewardedAt: new Date() });
-            console.log(`✅ Marked job ${id} as rewarded at ${new Date().toISOString()}`);
-          }
-        } catch (tokenError) {
-          console.error("Error distributing tokens:", tokenError);
-          // Don't fail the request if token distribution fails - job is still completed
-        }
-      } else if (rewardsAlreadyDistributed) {
-        console.log(`ℹ️ Job ${id} rewards already distributed at ${currentLead.completionRewardedAt} - skipping`);
-      } else if (updateData.status === "completed" && currentLead.status === "completed") {
+      // Time entries, crew rewards (paid once) and the invoice, as for crew completions
+      if (completedJob) {
+        await jobCompletionService.finishCompletedJob(id, (req.session as any).userId);
+      } else if (requestedStatus === "completed") {
         console.log(`ℹ️ Job ${id} already completed - skipping token distribution`);
       }
       
@@ -1547,6 +1696,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedLead);
     } catch (error) {
       console.error("Error updating lead:", error);
+      if (error instanceof LeadStatusTransitionError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to update lead" });
     }
   });
@@ -1565,6 +1717,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Lead not found" });
       }
       
+      await mediaService.deleteOwnerMedia('lead', id);
       console.log(`✅ Lead ${id} deleted successfully`);
       res.json({ success: true, message: "Lead deleted successfully" });
     } catch (error) {
@@ -1574,233 +1727,998 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update lead quote and confirmation (business owner only)
-  app.patch("/api/leads/:id/quote", isAuthenticated, requireBusinessOwner, async (req, res) => {
+  app.patch("/api/leads/:id/quote", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const quoteData = req.body;
-      
-      // Calculate special items fees based on weight ($200 base + $150 per 100lbs up to 1000lbs)
-      const calculateHeavyItemFee = (weight: number | null | undefined): number => {
-        if (!weight || weight <= 0) return 0;
-        const cappedWeight = Math.min(weight, 1000); // Cap at 1000 lbs
-        const hundredPounds = Math.floor(cappedWeight / 100);
-        return 200 + (hundredPounds * 150);
+      const { status, scheduledStart: rawScheduledStart, scheduledEnd: rawScheduledEnd, ...quoteData } = req.body;
+      const pricing = quotePricingInputSchema.parse(quoteData);
+      const schedule = z.object({
+        scheduledStart: z.string().datetime().nullable().optional(),
+        scheduledEnd: z.string().datetime().nullable().optional(),
+      }).parse({ scheduledStart: rawScheduledStart, scheduledEnd: rawScheduledEnd });
+
+      const existingLead = await storage.getLead(id);
+      if (!existingLead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+
+      // Price with the submitted values, falling back to what is already stored on the lead.
+      // Mileage is looked up again, across the saved stops for multi-stop jobs, unless the dialog sent an explicit distance.
+      const storedInput = getLeadQuoteInput(existingLead);
+      const quoteInput = {
+        ...storedInput,
+        crewSize: pricing.crewSize ?? storedInput.crewSize,
+        truckConfig: pricing.truckConfig !== undefined ? pricing.truckConfig : storedInput.truckConfig,
+        estimatedHours: pricing.estimatedHours !== undefined ? pricing.estimatedHours : storedInput.estimatedHours,
+        distanceMiles: pricing.distanceMiles ?? null,
+        stairsFlights: pricing.stairsFlights ?? storedInput.stairsFlights,
+        hasElevator: pricing.hasElevator ?? storedInput.hasElevator,
+        moveDate: quoteData.confirmedDate || storedInput.moveDate,
+        specialItems: pricing.specialItems ?? storedInput.specialItems,
+        priceAdjustment: pricing.priceAdjustment !== undefined ? pricing.priceAdjustment : storedInput.priceAdjustment,
       };
-      
-      // Calculate fees for each special item
-      const hotTubFee = quoteData.hasHotTub ? calculateHeavyItemFee(quoteData.hotTubWeight) : 0;
-      const heavySafeFee = quoteData.hasHeavySafe ? calculateHeavyItemFee(quoteData.heavySafeWeight) : 0;
-      const poolTableFee = quoteData.hasPoolTable ? calculateHeavyItemFee(quoteData.poolTableWeight) : 0;
-      const pianoFee = quoteData.hasPiano ? calculateHeavyItemFee(quoteData.pianoWeight) : 0;
-      
-      const totalSpecialItemsFee = hotTubFee + heavySafeFee + poolTableFee + pianoFee;
-      const basePrice = parseFloat(quoteData.basePrice) || 0;
-      const totalPrice = basePrice + totalSpecialItemsFee;
-      
-      const updatedLead = await storage.updateLeadQuote(id, {
+      const savedStops = await storage.getJobStops(id);
+      const breakdown = await pricingService.quote({
+        ...quoteInput,
+        fromAddress: quoteData.confirmedFromAddress || existingLead.confirmedFromAddress || existingLead.fromAddress,
+        toAddress: quoteData.confirmedToAddress || existingLead.confirmedToAddress || existingLead.toAddress,
+        stops: savedStops.map((stop) => stop.address),
+      });
+
+      // Crew is booked for the quoted labor hours unless an explicit end time was sent
+      const scheduledStart = schedule.scheduledStart ? new Date(schedule.scheduledStart) : null;
+      const scheduledEnd = scheduledStart
+        ? schedule.scheduledEnd
+          ? new Date(schedule.scheduledEnd)
+          : new Date(scheduledStart.getTime() + (breakdown.hours || DEFAULT_JOB_HOURS) * 60 * 60 * 1000)
+        : null;
+      if (scheduledStart && scheduledEnd && scheduledEnd <= scheduledStart) {
+        return res.status(400).json({ error: "Scheduled end must be after the start" });
+      }
+      if (status !== undefined && !isLeadStatus(status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+
+      const quoteUpdate = {
         ...quoteData,
-        hotTubFee: hotTubFee.toFixed(2),
-        heavySafeFee: heavySafeFee.toFixed(2),
-        poolTableFee: poolTableFee.toFixed(2),
-        pianoFee: pianoFee.toFixed(2),
-        totalSpecialItemsFee: totalSpecialItemsFee.toFixed(2),
-        totalPrice: totalPrice.toFixed(2),
+        ...(schedule.scheduledStart !== undefined ? { scheduledStart, scheduledEnd } : {}),
+        crewSize: breakdown.crewSize,
+        truckConfig: quoteInput.truckConfig,
+        estimatedHours: quoteInput.estimatedHours != null ? quoteInput.estimatedHours.toFixed(2) : null,
+        distanceMiles: breakdown.distanceMiles != null ? breakdown.distanceMiles.toFixed(2) : null,
+        stairsFlights: quoteInput.stairsFlights || 0,
+        hasElevator: !!quoteInput.hasElevator,
+        specialItems: quoteInput.specialItems,
+        priceAdjustment: (quoteInput.priceAdjustment || 0).toFixed(2),
+        // Special items now live in specialItems; clear the legacy columns so they aren't counted twice
+        hasHotTub: false,
+        hotTubFee: null,
+        hasHeavySafe: false,
+        heavySafeFee: null,
+        hasPoolTable: false,
+        poolTableFee: null,
+        hasPiano: false,
+        pianoFee: null,
+        basePrice: breakdown.basePrice.toFixed(2),
+        totalSpecialItemsFee: breakdown.specialItemsTotal.toFixed(2),
+        totalPrice: breakdown.total.toFixed(2),
+        quoteBreakdown: breakdown,
         lastQuoteUpdatedAt: new Date(),
-      });
+      };
+
+      // Status changes from the quote dialog still go through the lifecycle rules, saved with the quote in one transaction
+      const statusUpdate = status !== undefined
+        ? await storage.updateLeadStatus(id, status, {
+          changedByUserId: req.currentUser.id,
+          actor: getLeadStatusActor(req.currentUser.role) || 'manager',
+          reason: 'Updated from quote dialog',
+          fields: quoteUpdate,
+        })
+        : undefined;
+      const updatedLead = status !== undefined ? statusUpdate?.lead : await storage.updateLeadQuote(id, quoteUpdate);
       
       if (!updatedLead) {
         return res.status(404).json({ error: "Lead not found" });
       }
+
+      // After the quote is saved, so the invoice is built from it
+      if (status === 'completed' && statusUpdate?.changed) {
+        await jobCompletionService.finishCompletedJob(id, req.currentUser.id);
+      }
       
       res.json(updatedLead);
     } catch (error) {
       console.error("Error updating lead quote:", error);
+      if (error instanceof LeadStatusTransitionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid quote data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update lead quote" });
     }
   });
 
-  // Get crew assignment suggestions for a job (business owner only)
-  app.get("/api/leads/:id/crew-suggestions", isAuthenticated, requireBusinessOwner, async (req, res) => {
+  const QUOTE_ERROR_STATUS: Record<QuoteErrorCode, number> = {
+    not_found: 404,
+    not_quotable: 400,
+    missing_quote: 400,
+    closed: 409,
+    expired: 410,
+  };
+
+  // Email the saved quote to the customer as a new quote version (business owner only)
+  app.post("/api/leads/:id/quote/send", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
     try {
-      const { id } = req.params;
-      
-      const suggestions = await crewSuggestionService.suggestCrewForJob(id);
-      
-      if (!suggestions) {
-        return res.status(404).json({ error: "Job not found" });
+      const baseUrl = process.env.APP_BASE_URL || `${req.protocol}://${req.get('host')}`;
+      const result = await quoteService.sendQuote(req.params.id, req.currentUser.id, baseUrl);
+      if (!result.success || !result.data) {
+        return res.status(QUOTE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
       }
-      
-      res.json(suggestions);
+
+      const { accessTokenHash, ...version } = result.data.version;
+      res.json({ version, emailSent: result.data.emailSent });
     } catch (error) {
-      console.error("Error generating crew suggestions:", error);
-      res.status(500).json({ error: "Failed to generate crew suggestions" });
+      console.error("Error sending quote:", error);
+      if (error instanceof LeadStatusTransitionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to send quote" });
     }
   });
 
-  // Submit contact form
-  app.post("/api/contacts", async (req, res) => {
+  // Quote versions sent for a lead (business owner only)
+  app.get("/api/leads/:id/quote-versions", isAuthenticated, requireBusinessOwner, async (req, res) => {
     try {
-      const contactData = insertContactSchema.parse(req.body);
-      const contact = await storage.createContact(contactData);
-      
-      // Send email notification
-      const emailContent = generateContactNotificationEmail(contact);
-      const companyEmail = process.env.COMPANY_EMAIL || "upmichiganstatemovers@gmail.com";
-      
-      await sendEmail({
-        to: companyEmail,
-        from: companyEmail,
-        subject: `New Contact Form Submission - ${contact.name}`,
-        text: emailContent.text,
-        html: emailContent.html,
-      });
-
-      res.json({ success: true, contactId: contact.id });
+      const versions = await storage.getQuoteVersions(req.params.id);
+      res.json(versions.map(({ accessTokenHash, ...version }) => version));
     } catch (error) {
-      console.error("Error creating contact:", error);
-      res.status(400).json({ error: "Invalid contact data" });
+      console.error("Error fetching quote versions:", error);
+      res.status(500).json({ error: "Failed to fetch quote versions" });
     }
   });
 
-  // Protected routes - Get all contacts (business owner only)
-  app.get("/api/contacts", isAuthenticated, requireBusinessOwner, async (req, res) => {
+  // Public quote page - the emailed token is the only credential
+  app.get("/api/quotes/:token", async (req, res) => {
     try {
-      const contacts = await storage.getContacts();
-      res.json(contacts);
+      const result = await quoteService.getQuoteByToken(req.params.token);
+      if (!result.success) {
+        return res.status(QUOTE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
     } catch (error) {
-      console.error("Error fetching contacts:", error);
-      res.status(500).json({ error: "Failed to fetch contacts" });
+      console.error("Error fetching quote:", error);
+      res.status(500).json({ error: "Failed to load quote" });
     }
   });
 
-  // Review Routes
-  // Submit a review for a completed job (authenticated customers only)
-  app.post("/api/reviews", isAuthenticated, async (req: any, res) => {
+  // Customer accepts a quote with a typed signature
+  app.post("/api/quotes/:token/accept", async (req, res) => {
     try {
-      const userId = (req.session as any).userId;
-      if (!userId) {
-        return res.status(401).json({ error: "User not authenticated" });
-      }
+      const { signatureName } = z.object({
+        signatureName: z.string().trim().min(2, "Please type your full name to sign"),
+        agreeToTerms: z.literal(true, { errorMap: () => ({ message: "You must agree to the terms to accept this quote" }) }),
+      }).parse(req.body);
 
-      const reviewData = insertReviewSchema.parse({
-        ...req.body,
-        userId, // Always use authenticated user's ID
+      const result = await quoteService.acceptQuote(req.params.token, signatureName, {
+        ip: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
       });
-
-      // Verify the lead exists and is completed
-      const lead = await storage.getLead(reviewData.leadId);
-      if (!lead) {
-        return res.status(404).json({ error: "Job not found" });
-      }
-
-      if (lead.status !== 'completed') {
-        return res.status(400).json({ error: "Can only review completed jobs" });
-      }
-
-      // Verify lead ownership: Check if this user's ID matches the lead's userId
-      // (Only users who created the lead can review it)
-      if (lead.userId && lead.userId !== userId) {
-        return res.status(403).json({ error: "You can only review your own jobs" });
-      }
-
-      // Check if user already reviewed this job
-      const existingReview = await storage.getReviewByLeadAndUser(reviewData.leadId, userId);
-      if (existingReview) {
-        return res.status(400).json({ error: "You have already reviewed this job" });
+      if (!result.success) {
+        return res.status(QUOTE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
       }
-
-      // Set employeeId from the lead's assignment
-      const employeeId = lead.assignedToUserId;
-      if (!employeeId) {
-        return res.status(400).json({ error: "No employee assigned to this job" });
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error accepting quote:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid acceptance" });
       }
+      res.status(500).json({ error: "Failed to accept quote" });
+    }
+  });
 
-      const review = await storage.createReview({
-        ...reviewData,
-        employeeId,
-      });
+  // Customer declines a quote
+  app.post("/api/quotes/:token/decline", async (req, res) => {
+    try {
+      const { reason } = z.object({
+        reason: z.string().trim().max(1000).optional(),
+      }).parse(req.body);
 
-      // Update employee stats with new review
-      const stats = await storage.getEmployeeReviewStats(employeeId);
-      await storage.updateEmployeeStats(employeeId, {
-        averageRating: stats.averageRating.toString(),
-        totalRatings: stats.totalReviews,
+      const result = await quoteService.declineQuote(req.params.token, reason || null, {
+        ip: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
       });
-
-      // Award bonus tokens for high ratings (4 or 5 stars)
-      if (review.rating >= 4 && !review.rewardedAt) {
-        const bonusAmount = review.rating === 5 ? 500 : 250; // 500 tokens for 5 stars, 250 for 4 stars
-        await gamificationService.awardHighRatingBonus(employeeId, review.id, review.rating);
-        await storage.markReviewAsRewarded(review.id);
+      if (!result.success) {
+        return res.status(QUOTE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
       }
-
-      res.json({ success: true, review });
+      res.json(result.data);
     } catch (error) {
-      console.error("Error creating review:", error);
+      console.error("Error declining quote:", error);
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Invalid review data", details: error.errors });
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid response" });
       }
-      res.status(500).json({ error: "Failed to create review" });
+      res.status(500).json({ error: "Failed to decline quote" });
     }
   });
 
-  // Get reviews with optional filters (public for employee reviews, authenticated for customer reviews)
-  app.get("/api/reviews", async (req: any, res) => {
+  // Active pricing rate card (business owner only)
+  app.get("/api/pricing/rate-card", isAuthenticated, requireBusinessOwner, async (req, res) => {
     try {
-      const { leadId, employeeId, userId, limit } = req.query;
-      
-      const filters: { leadId?: string; employeeId?: string; userId?: string } = {};
-      if (leadId) filters.leadId = leadId as string;
-      if (employeeId) filters.employeeId = employeeId as string;
-      
-      // Only allow fetching own reviews unless admin
-      if (userId) {
-        const requestingUserId = (req.session as any).userId;
-        const user = requestingUserId ? await storage.getUser(requestingUserId) : null;
-        
-        if (user?.role !== 'admin' && requestingUserId !== userId) {
-          return res.status(403).json({ error: "Can only view your own reviews" });
-        }
-        filters.userId = userId as string;
-      }
-
-      const reviews = await storage.getReviews(filters, limit ? parseInt(limit as string) : undefined);
-      res.json(reviews);
+      const [rates, activeCard] = await Promise.all([
+        pricingService.getRateCard(),
+        storage.getActivePricingRateCard(),
+      ]);
+      res.json({ rateCard: activeCard || null, rates });
     } catch (error) {
-      console.error("Error fetching reviews:", error);
-      res.status(500).json({ error: "Failed to fetch reviews" });
+      console.error("Error fetching rate card:", error);
+      res.status(500).json({ error: "Failed to fetch rate card" });
     }
   });
 
-  // Get current user's reviews (authenticated)
-  app.get("/api/reviews/my-reviews", isAuthenticated, async (req: any, res) => {
+  // Previously saved rate cards (business owner only)
+  app.get("/api/pricing/rate-cards", isAuthenticated, requireBusinessOwner, async (req, res) => {
     try {
-      const userId = (req.session as any).userId;
-      if (!userId) {
-        return res.status(401).json({ error: "User not authenticated" });
-      }
-
-      const reviews = await storage.getReviews({ userId });
-      res.json(reviews);
+      const rateCards = await storage.getPricingRateCards();
+      res.json(rateCards);
     } catch (error) {
-      console.error("Error fetching user reviews:", error);
-      res.status(500).json({ error: "Failed to fetch reviews" });
+      console.error("Error fetching rate card history:", error);
+      res.status(500).json({ error: "Failed to fetch rate card history" });
     }
   });
 
-  // Get employee review statistics (public)
-  app.get("/api/reviews/employee/:employeeId/stats", async (req, res) => {
+  // Save and activate a new rate card (business owner only)
+  app.put("/api/pricing/rate-card", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
     try {
-      const { employeeId } = req.params;
-      const stats = await storage.getEmployeeReviewStats(employeeId);
-      res.json(stats);
+      const { name, rates } = req.body;
+      const rateCard = await pricingService.saveRateCard(
+        typeof name === "string" && name.trim() ? name.trim() : `Rate card ${new Date().toLocaleDateString()}`,
+        rates,
+        req.currentUser.id,
+      );
+      res.json(rateCard);
     } catch (error) {
-      console.error("Error fetching employee review stats:", error);
-      res.status(500).json({ error: "Failed to fetch review statistics" });
+      console.error("Error saving rate card:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid rate card", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save rate card" });
     }
   });
 
-  // Get a single review (public for display, but limited info)
+  // Driving distance for the quote dialog (business owner only). With a leadId, jobs with saved stops
+  // are measured across the whole route instead of from/to
+  app.get("/api/pricing/distance", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const { from, to, leadId } = req.query;
+      if (typeof leadId === "string") {
+        const stops = await storage.getJobStops(leadId);
+        if (stops.length > 0) {
+          const route = await routingService.planRoute(stops.map((stop) => stop.address));
+          return res.json({ distanceMiles: route.totalMiles });
+        }
+      }
+      if (typeof from !== "string" || typeof to !== "string") {
+        return res.status(400).json({ error: "Both from and to addresses are required" });
+      }
+      const distanceMiles = await routingService.estimateDistanceMiles(from, to);
+      res.json({ distanceMiles });
+    } catch (error) {
+      console.error("Error estimating distance:", error);
+      res.status(500).json({ error: "Failed to estimate distance" });
+    }
+  });
+
+  // Special item types customers can pick on the quote form (public)
+  app.get("/api/pricing/special-items", async (req, res) => {
+    try {
+      const rates = await pricingService.getRateCard();
+      res.json(Object.entries(rates.specialItems).map(([type, item]) => ({ type, label: item.label })));
+    } catch (error) {
+      console.error("Error fetching special item types:", error);
+      res.status(500).json({ error: "Failed to fetch special item types" });
+    }
+  });
+
+  // Instant customer estimate from the public quote form
+  app.post("/api/pricing/estimate", limitEstimateRequests, async (req, res) => {
+    try {
+      const estimateSchema = quotePricingInputSchema
+        .omit({ distanceMiles: true, priceAdjustment: true, estimatedHours: true })
+        .extend({
+          fromAddress: z.string().min(1, "From address is required"),
+          toAddress: z.string().nullable().optional(),
+        });
+      const input = estimateSchema.parse(req.body);
+      const breakdown = await pricingService.quote(input);
+      res.json(breakdown);
+    } catch (error) {
+      console.error("Error calculating estimate:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid estimate request" });
+      }
+      res.status(500).json({ error: "Failed to calculate estimate" });
+    }
+  });
+
+  const INVOICE_ERROR_STATUS: Record<InvoiceErrorCode, number> = {
+    not_found: 404,
+    not_completed: 400,
+    void: 409,
+    overpayment: 400,
+    insufficient_tokens: 400,
+    no_wallet: 400,
+    has_payments: 409,
+  };
+
+  // Invoice and payments for a job (business owner only). Deposits are listed before the invoice exists
+  app.get("/api/leads/:id/invoice", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const [invoice, payments] = await Promise.all([
+        storage.getInvoiceByLeadId(lead.id),
+        storage.getInvoicePayments(lead.id),
+      ]);
+      res.json({ lead, invoice: invoice || null, payments });
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ error: "Failed to fetch invoice" });
+    }
+  });
+
+  // Generate the invoice by hand, e.g. for jobs completed before invoicing existed (business owner only)
+  app.post("/api/leads/:id/invoice", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
+    try {
+      const result = await invoiceService.generateForCompletedJob(req.params.id, req.currentUser.id);
+      if (!result.success || !result.data) {
+        return res.status(INVOICE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error generating invoice:", error);
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  });
+
+  // Record a deposit or payment for a job (business owner only)
+  app.post("/api/leads/:id/payments", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
+    try {
+      const input = recordPaymentSchema.parse(req.body);
+      const result = await invoiceService.recordPayment(req.params.id, input, req.currentUser.id);
+      if (!result.success || !result.data) {
+        return res.status(result.code ? INVOICE_ERROR_STATUS[result.code] : 503).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid payment" });
+      }
+      res.status(500).json({ error: "Failed to record payment" });
+    }
+  });
+
+  // Add tips, damage credits, discounts or fees to an invoice (business owner only)
+  app.post("/api/invoices/:id/line-items", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const { adjustments } = z.object({ adjustments: z.array(invoiceAdjustmentSchema).min(1).max(20) }).parse(req.body);
+      const result = await invoiceService.addAdjustments(req.params.id, adjustments);
+      if (!result.success || !result.data) {
+        return res.status(INVOICE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error updating invoice:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid line item" });
+      }
+      res.status(500).json({ error: "Failed to update invoice" });
+    }
+  });
+
+  app.delete("/api/invoices/:id/line-items/:index", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const result = await invoiceService.removeLineItem(req.params.id, parseInt(req.params.index));
+      if (!result.success || !result.data) {
+        return res.status(INVOICE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error removing invoice line item:", error);
+      res.status(500).json({ error: "Failed to update invoice" });
+    }
+  });
+
+  app.post("/api/invoices/:id/void", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().max(500).optional() }).parse(req.body);
+      const result = await invoiceService.voidInvoice(req.params.id, reason || null);
+      if (!result.success || !result.data) {
+        return res.status(INVOICE_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error voiding invoice:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid request" });
+      }
+      res.status(500).json({ error: "Failed to void invoice" });
+    }
+  });
+
+  // Outstanding invoices with aging buckets for the admin dashboard (business owner only)
+  app.get("/api/invoices/outstanding", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await invoiceService.getAgingSummary());
+    } catch (error) {
+      console.error("Error fetching outstanding invoices:", error);
+      res.status(500).json({ error: "Failed to fetch outstanding invoices" });
+    }
+  });
+
+  const isManagerRole = (role: string | undefined) => role === 'admin' || role === 'business_owner';
+
+  // Crew calendar. Managers see every job (or one employee's with ?employeeId=), employees see their own
+  app.get("/api/schedule/calendar", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser((req.session as any).userId);
+      if (!user || (user.role !== 'employee' && !isManagerRole(user.role))) {
+        return res.status(403).json({ error: "Employee access required" });
+      }
+
+      const query = z.object({
+        from: z.string().datetime(),
+        to: z.string().datetime(),
+        employeeId: z.string().optional(),
+      }).parse(req.query);
+      const from = new Date(query.from);
+      const to = new Date(query.to);
+      if (to <= from || to.getTime() - from.getTime() > 62 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ error: "Calendar range must be between 1 and 62 days" });
+      }
+
+      const employeeId = isManagerRole(user.role) ? query.employeeId : user.id;
+      res.json(await schedulingService.getCalendar(from, to, employeeId));
+    } catch (error) {
+      console.error("Error fetching schedule calendar:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "from and to must be ISO timestamps" });
+      }
+      res.status(500).json({ error: "Failed to fetch calendar" });
+    }
+  });
+
+  // Conflicts the current employee would have if they accepted this job
+  app.get("/api/leads/:id/schedule-conflicts", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      const conflicts = await schedulingService.checkConflicts(req.params.id, req.currentUser.id);
+      if (!conflicts) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(conflicts);
+    } catch (error) {
+      console.error("Error checking schedule conflicts:", error);
+      res.status(500).json({ error: "Failed to check schedule" });
+    }
+  });
+
+  // Employee's own weekly working days
+  app.get("/api/schedule/availability", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      res.json(await storage.getEmployeeAvailability(req.currentUser.id));
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ error: "Failed to fetch availability" });
+    }
+  });
+
+  app.put("/api/schedule/availability", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      const days = weeklyAvailabilitySchema.parse(req.body.days);
+      if (new Set(days.map((day) => day.dayOfWeek)).size !== days.length) {
+        return res.status(400).json({ error: "Each day can only be listed once" });
+      }
+      res.json(await storage.setEmployeeAvailability(req.currentUser.id, days));
+    } catch (error) {
+      console.error("Error saving availability:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid availability" });
+      }
+      res.status(500).json({ error: "Failed to save availability" });
+    }
+  });
+
+  // Time off requests - managers see everyone's (optionally by ?status=), employees see their own
+  app.get("/api/schedule/time-off", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser((req.session as any).userId);
+      if (!user || (user.role !== 'employee' && !isManagerRole(user.role))) {
+        return res.status(403).json({ error: "Employee access required" });
+      }
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const requests = await storage.getTimeOffRequests({
+        userId: isManagerRole(user.role) ? undefined : user.id,
+        status,
+      });
+
+      if (!isManagerRole(user.role)) {
+        return res.json(requests);
+      }
+      const users = await storage.getAllUsers();
+      const names = new Map(users.map((u) => [u.id, [u.firstName, u.lastName].filter(Boolean).join(' ') || u.email]));
+      res.json(requests.map((request) => ({ ...request, employeeName: names.get(request.userId) || 'Unknown employee' })));
+    } catch (error) {
+      console.error("Error fetching time off requests:", error);
+      res.status(500).json({ error: "Failed to fetch time off requests" });
+    }
+  });
+
+  app.post("/api/schedule/time-off", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      const request = timeOffRequestSchema.parse(req.body);
+      const timeOff = await storage.createTimeOffRequest(req.currentUser.id, {
+        startDate: new Date(request.startDate),
+        endDate: new Date(request.endDate),
+        reason: request.reason,
+      });
+
+      try {
+        const { notificationService } = await import("./services/notification");
+        const name = [req.currentUser.firstName, req.currentUser.lastName].filter(Boolean).join(' ') || req.currentUser.email;
+        await notificationService.notifyBusinessOwners('system_alert', 'Time Off Request',
+          `${name} requested time off ${timeOff.startDate.toLocaleDateString()} - ${timeOff.endDate.toLocaleDateString()}`,
+          { type: 'time_off_request', timeOffId: timeOff.id });
+      } catch (notificationError) {
+        console.error("Error sending time off notification:", notificationError);
+      }
+
+      res.json(timeOff);
+    } catch (error) {
+      console.error("Error requesting time off:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid time off request" });
+      }
+      res.status(500).json({ error: "Failed to request time off" });
+    }
+  });
+
+  // Managers approve or deny; employees can cancel their own requests
+  app.patch("/api/schedule/time-off/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser((req.session as any).userId);
+      const { status } = z.object({ status: z.enum(['approved', 'denied', 'cancelled']) }).parse(req.body);
+      const timeOff = await storage.getTimeOffRequest(req.params.id);
+      if (!user || !timeOff) {
+        return res.status(404).json({ error: "Time off request not found" });
+      }
+
+      const isManager = isManagerRole(user.role);
+      const isOwnCancellation = status === 'cancelled' && timeOff.userId === user.id;
+      if (!isManager && !isOwnCancellation) {
+        return res.status(403).json({ error: "Only managers can approve or deny time off" });
+      }
+      if (timeOff.status === 'cancelled' || timeOff.status === 'denied') {
+        return res.status(409).json({ error: `This request was already ${timeOff.status}` });
+      }
+
+      const updated = await storage.updateTimeOffStatus(timeOff.id, status, isOwnCancellation ? null : user.id);
+
+      if (updated && !isOwnCancellation) {
+        try {
+          const { notificationService } = await import("./services/notification");
+          await notificationService.notifySystemAlert(timeOff.userId, `Time Off ${status === 'approved' ? 'Approved' : status === 'denied' ? 'Denied' : 'Cancelled'}`,
+            `Your time off ${timeOff.startDate.toLocaleDateString()} - ${timeOff.endDate.toLocaleDateString()} was ${status}`);
+        } catch (notificationError) {
+          console.error("Error sending time off notification:", notificationError);
+        }
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating time off request:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+      res.status(500).json({ error: "Failed to update time off request" });
+    }
+  });
+
+  // YYYY-MM-DD query values as a local date, defaulting to today
+  const parseLocalDate = (value: unknown) => {
+    const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+    return match ? new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : new Date();
+  };
+
+  // Job stops and drive estimates
+  app.get("/api/leads/:id/route", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser((req.session as any).userId);
+      if (!user || (user.role !== 'employee' && !isManagerRole(user.role))) {
+        return res.status(403).json({ error: "Employee access required" });
+      }
+
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      res.json(await routingService.getJobRoute(lead));
+    } catch (error) {
+      console.error("Error planning job route:", error);
+      res.status(500).json({ error: "Failed to plan route" });
+    }
+  });
+
+  // Replace a job's stops (business owner only). The route distance is saved for quoting
+  app.put("/api/leads/:id/stops", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const { stops } = jobStopsSchema.parse(req.body);
+      const route = await routingService.planRoute(stops.map((stop) => stop.address));
+      const saved = await storage.replaceJobStops(req.params.id, stops, route.totalMiles);
+      if (!saved) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      res.json({ stops: saved, ...route });
+    } catch (error) {
+      console.error("Error saving job stops:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid stops" });
+      }
+      res.status(500).json({ error: "Failed to save stops" });
+    }
+  });
+
+  // A crew member's jobs for a day in order, with drive times between them. Employees see their own day
+  app.get("/api/routes/crew-day", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser((req.session as any).userId);
+      if (!user || (user.role !== 'employee' && !isManagerRole(user.role))) {
+        return res.status(403).json({ error: "Employee access required" });
+      }
+
+      const employeeId = isManagerRole(user.role) && typeof req.query.employeeId === 'string'
+        ? req.query.employeeId
+        : user.id;
+      const dayRoute = await routingService.getCrewDayRoute(employeeId, parseLocalDate(req.query.date));
+      if (!dayRoute) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      res.json(dayRoute);
+    } catch (error) {
+      console.error("Error planning crew day route:", error);
+      res.status(500).json({ error: "Failed to plan crew route" });
+    }
+  });
+
+  // Time clock
+  const TIME_CLOCK_ERROR_STATUS: Record<TimeClockErrorCode, number> = {
+    not_found: 404,
+    not_assigned: 403,
+    job_not_active: 409,
+    already_clocked_in: 409,
+    not_clocked_in: 409,
+    on_break: 409,
+    not_on_break: 409,
+    too_far: 422,
+    invalid_status: 409,
+  };
+
+  // Payroll weeks start on Monday; ?weekStart=YYYY-MM-DD picks the week containing that date
+  const parsePayrollWeek = (value: unknown) => getPayrollWeekStart(parseLocalDate(value));
+
+  app.get("/api/time-clock/current", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      const entry = await timeClockService.getCurrentEntry(req.currentUser.id);
+      res.json({ entry });
+    } catch (error) {
+      console.error("Error fetching time clock status:", error);
+      res.status(500).json({ error: "Failed to fetch time clock status" });
+    }
+  });
+
+  app.post("/api/time-clock/clock-in", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      const { leadId, location } = clockInSchema.parse(req.body);
+      const result = await timeClockService.clockIn(req.currentUser.id, leadId, location);
+      if (!result.success) {
+        return res.status(TIME_CLOCK_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error clocking in:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Your location is required to clock in" });
+      }
+      res.status(500).json({ error: "Failed to clock in" });
+    }
+  });
+
+  app.post("/api/time-clock/clock-out", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      const { location, notes } = clockOutSchema.parse(req.body);
+      const result = await timeClockService.clockOut(req.currentUser.id, location, notes);
+      if (!result.success) {
+        return res.status(TIME_CLOCK_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error clocking out:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Your location is required to clock out" });
+      }
+      res.status(500).json({ error: "Failed to clock out" });
+    }
+  });
+
+  app.post("/api/time-clock/break/:action", isAuthenticated, requireEmployee, async (req: any, res) => {
+    try {
+      const { action } = req.params;
+      if (action !== 'start' && action !== 'end') {
+        return res.status(404).json({ error: "Unknown break action" });
+      }
+      const result = action === 'start'
+        ? await timeClockService.startBreak(req.currentUser.id)
+        : await timeClockService.endBreak(req.currentUser.id);
+      if (!result.success) {
+        return res.status(TIME_CLOCK_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error updating break:", error);
+      res.status(500).json({ error: "Failed to update break" });
+    }
+  });
+
+  // Timesheets for a payroll week. Employees only see their own
+  app.get("/api/timesheets", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser((req.session as any).userId);
+      if (!user || (user.role !== 'employee' && !isManagerRole(user.role))) {
+        return res.status(403).json({ error: "Employee access required" });
+      }
+
+      const employeeId = isManagerRole(user.role)
+        ? (typeof req.query.employeeId === 'string' ? req.query.employeeId : undefined)
+        : user.id;
+      const timesheets = await timeClockService.getWeeklyTimesheets(parsePayrollWeek(req.query.weekStart), employeeId);
+      res.json(timesheets);
+    } catch (error) {
+      console.error("Error fetching timesheets:", error);
+      res.status(500).json({ error: "Failed to fetch timesheets" });
+    }
+  });
+
+  app.get("/api/timesheets/export", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const timesheets = await timeClockService.getWeeklyTimesheets(parsePayrollWeek(req.query.weekStart));
+      const filename = `payroll-${timesheets.weekStart.toISOString().split('T')[0]}.csv`;
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(timeClockService.toPayrollCsv(timesheets));
+    } catch (error) {
+      console.error("Error exporting payroll:", error);
+      res.status(500).json({ error: "Failed to export payroll" });
+    }
+  });
+
+  app.patch("/api/timesheets/:id", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
+    try {
+      const edit = timeEntryEditSchema.parse(req.body);
+      const result = await timeClockService.editEntry(req.params.id, edit, req.currentUser.id);
+      if (!result.success) {
+        return res.status(TIME_CLOCK_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error editing time entry:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid time entry" });
+      }
+      res.status(500).json({ error: "Failed to edit time entry" });
+    }
+  });
+
+  app.post("/api/timesheets/:id/review", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
+    try {
+      const { status, note } = timeEntryReviewSchema.parse(req.body);
+      const result = await timeClockService.reviewEntry(req.params.id, status, req.currentUser.id, note);
+      if (!result.success) {
+        return res.status(TIME_CLOCK_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error reviewing time entry:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid review" });
+      }
+      res.status(500).json({ error: "Failed to review time entry" });
+    }
+  });
+
+  // Get crew assignment suggestions for a job (business owner only)
+  app.get("/api/leads/:id/crew-suggestions", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      const suggestions = await crewSuggestionService.suggestCrewForJob(id);
+      
+      if (!suggestions) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error generating crew suggestions:", error);
+      res.status(500).json({ error: "Failed to generate crew suggestions" });
+    }
+  });
+
+  // Submit contact form
+  app.post("/api/contacts", async (req, res) => {
+    try {
+      const contactData = insertContactSchema.parse(req.body);
+      const contact = await storage.createContact(contactData);
+      
+      // Send email notification
+      const emailContent = generateContactNotificationEmail(contact);
+      const companyEmail = process.env.COMPANY_EMAIL || "upmichiganstatemovers@gmail.com";
+      
+      await sendEmail({
+        to: companyEmail,
+        from: companyEmail,
+        subject: `New Contact Form Submission - ${contact.name}`,
+        text: emailContent.text,
+        html: emailContent.html,
+      });
+
+      res.json({ success: true, contactId: contact.id });
+    } catch (error) {
+      console.error("Error creating contact:", error);
+      res.status(400).json({ error: "Invalid contact data" });
+    }
+  });
+
+  // Protected routes - Get all contacts (business owner only)
+  app.get("/api/contacts", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const contacts = await storage.getContacts();
+      res.json(contacts);
+    } catch (error) {
+      console.error("Error fetching contacts:", error);
+      res.status(500).json({ error: "Failed to fetch contacts" });
+    }
+  });
+
+  // Review Routes
+  // Submit a review for a completed job (authenticated customers only)
+  app.post("/api/reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const reviewData = insertReviewSchema.parse({
+        ...req.body,
+        userId, // Always use authenticated user's ID
+      });
+
+      // Verify the lead exists and is completed
+      const lead = await storage.getLead(reviewData.leadId);
+      if (!lead) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      if (lead.status !== 'completed') {
+        return res.status(400).json({ error: "Can only review completed jobs" });
+      }
+
+      // Verify lead ownership: Check if this user's ID matches the lead's userId
+      // (Only users who created the lead can review it)
+      if (lead.userId && lead.userId !== userId) {
+        return res.status(403).json({ error: "You can only review your own jobs" });
+      }
+
+      // Check if user already reviewed this job
+      const existingReview = await storage.getReviewByLeadAndUser(reviewData.leadId, userId);
+      if (existingReview) {
+        return res.status(400).json({ error: "You have already reviewed this job" });
+      }
+
+      // Set employeeId from the lead's assignment
+      const employeeId = lead.assignedToUserId;
+      if (!employeeId) {
+        return res.status(400).json({ error: "No employee assigned to this job" });
+      }
+
+      const review = await storage.createReview({
+        ...reviewData,
+        employeeId,
+      });
+
+      // Update employee stats with new review
+      const stats = await storage.getEmployeeReviewStats(employeeId);
+      await storage.updateEmployeeStats(employeeId, {
+        averageRating: stats.averageRating.toString(),
+        totalRatings: stats.totalReviews,
+      });
+
+      // Award bonus tokens for high ratings (4 or 5 stars)
+      if (review.rating >= 4 && !review.rewardedAt) {
+        await gamificationService.awardHighRatingBonus(employeeId, review.id, review.rating);
+        await storage.markReviewAsRewarded(review.id);
+      }
+
+      await achievementService.evaluate(employeeId, 'review');
+
+      res.json({ success: true, review });
+    } catch (error) {
+      console.error("Error creating review:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid review data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create review" });
+    }
+  });
+
+  // Get reviews with optional filters (public for employee reviews, authenticated for customer reviews)
+  app.get("/api/reviews", async (req: any, res) => {
+    try {
+      const { leadId, employeeId, userId, limit } = req.query;
+      
+      const filters: { leadId?: string; employeeId?: string; userId?: string } = {};
+      if (leadId) filters.leadId = leadId as string;
+      if (employeeId) filters.employeeId = employeeId as string;
+      
+      // Only allow fetching own reviews unless admin
+      if (userId) {
+        const requestingUserId = (req.session as any).userId;
+        const user = requestingUserId ? await storage.getUser(requestingUserId) : null;
+        
+        if (user?.role !== 'admin' && requestingUserId !== userId) {
+          return res.status(403).json({ error: "Can only view your own reviews" });
+        }
+        filters.userId = userId as string;
+      }
+
+      const reviews = await storage.getReviews(filters, limit ? parseInt(limit as string) : undefined);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Get current user's reviews (authenticated)
+  app.get("/api/reviews/my-reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const reviews = await storage.getReviews({ userId });
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching user reviews:", error);
+      res.status(500).json({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Get employee review statistics (public)
+  app.get("/api/reviews/employee/:employeeId/stats", async (req, res) => {
+    try {
+      const { employeeId } = req.params;
+      const stats = await storage.getEmployeeReviewStats(employeeId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching employee review stats:", error);
+      res.status(500).json({ error: "Failed to fetch review statistics" });
+    }
+  });
+
+  // Get a single review (public for display, but limited info)
   app.get("/api/reviews/:id", async (req, res) => {
     try {
       const { id } = req.params;
@@ -1812,12 +2730,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(review);
     } catch (error) {
-      console.error("Error fetching review:", error);
-      res.status(500).json({ error: "Failed to fetch review" });
+      console.error("Error fetching review:", error);
+      res.status(500).json({ error: "Failed to fetch review" });
+    }
+  });
+
+  // Shop Routes
+  // Media store: photos and videos are uploaded straight to object storage through a signed URL, then completed here
+  const MEDIA_ERROR_STATUS: Record<MediaErrorCode, number> = {
+    not_found: 404,
+    forbidden: 403,
+    unsupported_type: 400,
+    too_large: 413,
+    not_uploaded: 409,
+    already_attached: 409,
+  };
+
+  app.post("/api/media/uploads", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const input = createMediaUploadSchema.parse(req.body);
+
+      const result = await mediaService.createUpload(userId, input);
+      if (!result.success) {
+        return res.status(MEDIA_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error creating media upload:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid upload", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create upload" });
+    }
+  });
+
+  // Upload target for the local object storage backend (development and tests). The signed URL is the authorization
+  app.put("/api/media/uploads/local", express.raw({ type: () => true, limit: MAX_VIDEO_BYTES }), async (req, res) => {
+    try {
+      const { key, expires, signature } = req.query;
+      if (typeof key !== 'string' || typeof expires !== 'string' || typeof signature !== 'string' || !Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: "Invalid upload" });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const accepted = await objectStorageService.acceptLocalUpload(key, req.get('Content-Type') || '', Number(expires), signature, req.body);
+      if (!accepted) {
+        return res.status(403).json({ error: "Upload URL is invalid or has expired" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error storing local upload:", error);
+      res.status(500).json({ error: "Failed to store upload" });
+    }
+  });
+
+  app.post("/api/media/:id/complete", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const result = await mediaService.completeUpload(userId, req.params.id);
+      if (!result.success) {
+        return res.status(MEDIA_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.json(mediaService.toResponse(result.data!));
+    } catch (error) {
+      console.error("Error completing media upload:", error);
+      res.status(500).json({ error: "Failed to process upload" });
+    }
+  });
+
+  const serveMedia = (variant: "original" | "thumbnail") => async (req: any, res: any) => {
+    try {
+      // Original URLs end in the file extension (/api/media/:id.jpg)
+      const asset = await storage.getMediaAsset(req.params.id.replace(/\.\w+$/, ''));
+      const userId = (req.session as any)?.userId;
+      const viewer = userId ? await storage.getUser(userId) : undefined;
+      if (!asset || !mediaService.canView(asset, viewer)) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      const opened = await mediaService.open(asset, variant);
+      if (!opened) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      // Assets never change once stored, so browsers can keep them
+      res.set({
+        "Content-Type": opened.contentType,
+        "Content-Length": String(opened.object.size),
+        "Cache-Control": `${asset.ownerType === 'shop_item' ? 'public' : 'private'}, max-age=86400`,
+      });
+      opened.object.stream.on("error", (err) => {
+        console.error("Media stream error:", err);
+        if (!res.headersSent) {
+          res.status(500).json({ error: "Error streaming file" });
+        }
+      });
+      opened.object.stream.pipe(res);
+    } catch (error) {
+      console.error("Error serving media:", error);
+      res.status(500).json({ error: "Failed to load file" });
     }
-  });
+  };
+
+  app.get("/api/media/:id", serveMedia("original"));
+  app.get("/api/media/:id/thumbnail", serveMedia("thumbnail"));
 
-  // Shop Routes
   // Get all shop items (public with optional filters, defaults to active items only)
   app.get("/api/shop", async (req: any, res) => {
     try {
@@ -1906,8 +2924,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         postedBy: userId,
       });
+
+      const media = await mediaService.resolveShopMedia(userId, itemData.photos);
+      if (!media.success) {
+        return res.status(MEDIA_ERROR_STATUS[media.code || 'not_found']).json({ error: media.error, code: media.code });
+      }
       
-      const item = await storage.createShopItem(itemData);
+      const item = await storage.createShopItem({ ...itemData, photos: media.data! });
+      await mediaService.syncShopItemMedia(item.id, media.data!);
       res.json(item);
     } catch (error) {
       console.error("Error creating shop item:", error);
@@ -1955,8 +2979,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const validatedUpdates = updateSchema.parse(req.body);
+
+      if (validatedUpdates.photos) {
+        const media = await mediaService.resolveShopMedia(userId, validatedUpdates.photos);
+        if (!media.success) {
+          return res.status(MEDIA_ERROR_STATUS[media.code || 'not_found']).json({ error: media.error, code: media.code });
+        }
+        validatedUpdates.photos = media.data!;
+      }
       
       const updatedItem = await storage.updateShopItem(id, validatedUpdates);
+      if (validatedUpdates.photos) {
+        await mediaService.syncShopItemMedia(id, validatedUpdates.photos);
+      }
       res.json(updatedItem);
     } catch (error) {
       console.error("Error updating shop item:", error);
@@ -1995,6 +3030,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const success = await storage.deleteShopItem(id);
       if (success) {
+        await mediaService.deleteOwnerMedia('shop_item', id);
         res.json({ success: true, message: "Shop item deleted successfully" });
       } else {
         res.status(500).json({ error: "Failed to delete shop item" });
@@ -2056,6 +3092,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Home base and certifications used by crew suggestions
+  app.patch("/api/employees/:id/crew-profile", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const profile = crewProfileSchema.parse(req.body);
+
+      const updatedUser = await storage.updateUserCrewProfile(id, {
+        ...profile,
+        homeBaseAddress: profile.homeBaseAddress === undefined ? undefined : profile.homeBaseAddress?.trim() || null,
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+
+      res.json(updatedUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid crew profile", details: error.errors });
+      }
+      console.error("Error updating employee crew profile:", error);
+      res.status(500).json({ error: "Failed to update crew profile" });
+    }
+  });
+
   // Employee Job Routes
   app.get("/api/leads/available", isAuthenticated, requireEmployee, async (req, res) => {
     try {
@@ -2100,7 +3160,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads/:id/accept", isAuthenticated, requireEmployee, async (req: any, res) => {
+  // Conflicts carry a code and the job's current status so the offline sync queue can tell the crew member what changed
+  app.post("/api/leads/:id/accept", isAuthenticated, requireEmployee, withIdempotencyKey, async (req: any, res) => {
     try {
       const { id } = req.params;
       const employeeId = req.currentUser.id;
@@ -2108,40 +3169,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get the current lead
       const lead = await storage.getLead(id);
       if (!lead) {
-        return res.status(404).json({ error: "Job not found" });
-      }
-
-      // Check if job is available for acceptance
-      if (lead.status !== "available") {
-        return res.status(400).json({ error: "Job is not available for acceptance" });
+        return res.status(404).json({ error: "Job not found", code: 'not_found' });
       }
 
       // Check if employee has already accepted this job
       const acceptedByEmployees = lead.acceptedByEmployees || [];
       if (acceptedByEmployees.includes(employeeId)) {
-        return res.status(409).json({ error: "You have already accepted this job" });
+        return res.status(409).json({ error: "You have already accepted this job", code: 'already_accepted', status: lead.status });
+      }
+
+      // Check if job is available for acceptance
+      if (lead.status !== "available") {
+        return res.status(409).json({ error: "Job is no longer available for acceptance", code: 'job_taken', status: lead.status });
       }
 
       // Check if crew is already full
       const crewSize = lead.crewSize || 2;
       if (acceptedByEmployees.length >= crewSize) {
-        return res.status(409).json({ error: "This job's crew is already full" });
+        return res.status(409).json({ error: "This job's crew is already full", code: 'crew_full', status: lead.status });
       }
 
       // Add employee to accepted list
       const updatedAcceptedBy = [...acceptedByEmployees, employeeId];
       const isCrewFull = updatedAcceptedBy.length >= crewSize;
 
-      // Update the lead
-      const updatedLead = await storage.addEmployeeAcceptance(
+      // Update the lead (refused if it overlaps another job or approved time off)
+      const acceptance = await storage.addEmployeeAcceptance(
         id, 
         employeeId, 
         isCrewFull
       );
       
-      if (!updatedLead) {
+      if (!acceptance) {
         return res.status(500).json({ error: "Failed to accept job" });
       }
+      const { lead: updatedLead, warnings: scheduleWarnings } = acceptance;
 
       // Send notification to employee
       try {
@@ -2158,68 +3220,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Error sending job assignment notification:", notificationError);
       }
 
-      res.json(updatedLead);
+      res.json({ ...updatedLead, scheduleWarnings });
     } catch (error) {
       console.error("Error accepting job:", error);
+      if (error instanceof ScheduleConflictError) {
+        return res.status(409).json({ error: error.message, code: 'schedule_conflict', conflicts: error.conflicts });
+      }
+      if (error instanceof LeadStatusTransitionError) {
+        return res.status(409).json({ error: error.message, code: 'job_taken', status: error.fromStatus });
+      }
       res.status(500).json({ error: "Failed to accept job" });
     }
   });
 
   // Complete job endpoint
-  app.post("/api/leads/:id/complete", isAuthenticated, requireEmployee, async (req: any, res) => {
+  app.post("/api/leads/:id/complete", isAuthenticated, requireEmployee, withIdempotencyKey, async (req: any, res) => {
     try {
       const { id } = req.params;
       const employeeId = req.currentUser.id;
+
+      // Crew can report tips and damages at completion; they are added to the invoice
+      const { invoiceAdjustments } = z.object({
+        invoiceAdjustments: z.array(invoiceAdjustmentSchema.extend({ category: z.enum(["tip", "damage"]) })).max(20).optional(),
+      }).parse(req.body || {});
       
       // Verify the employee is assigned to this job
       const lead = await storage.getLead(id);
       if (!lead) {
-        return res.status(404).json({ error: "Job not found" });
+        return res.status(404).json({ error: "Job not found", code: 'not_found' });
       }
       
       // Check if employee is assigned (either as the assigned employee or part of the crew)
       const isAssigned = lead.assignedToUserId === employeeId || lead.crewMembers?.includes(employeeId);
       if (!isAssigned) {
-        return res.status(403).json({ error: "You can only complete jobs you're assigned to" });
+        return res.status(403).json({ error: "You can only complete jobs you're assigned to", code: 'not_assigned', status: lead.status });
       }
       
+      if (lead.status === "completed") {
+        return res.status(409).json({ error: "Job is already completed", code: 'already_completed', status: lead.status });
+      }
+
+      // Jobs that were never started move through in_progress so the timeline stays complete
+      if (lead.status === "accepted") {
+        await storage.updateLeadStatus(id, "in_progress", {
+          changedByUserId: employeeId,
+          actor: 'employee',
+          reason: 'Started automatically on completion',
+        });
+      }
+
       // Update job status to completed
-      const updatedLead = await storage.updateLeadStatus(id, "completed");
-      if (!updatedLead) {
+      const statusUpdate = await storage.updateLeadStatus(id, "completed", {
+        changedByUserId: employeeId,
+        actor: 'employee',
+      });
+      if (!statusUpdate) {
         return res.status(404).json({ error: "Failed to update job status" });
       }
-
-      // Distribute tokens to crew members if allocated
-      if (updatedLead.tokenAllocation && updatedLead.crewMembers && updatedLead.crewMembers.length > 0) {
-        try {
-          const totalTokens = parseFloat(updatedLead.tokenAllocation);
-          const tokensPerWorker = totalTokens / updatedLead.crewMembers.length;
-          
-          console.log(`💰 Distributing ${totalTokens} tokens to ${updatedLead.crewMembers.length} crew members (${tokensPerWorker} each)`);
-          
-          // Award tokens to each crew member using gamification service (includes creator bonus)
-          for (const crewMemberId of updatedLead.crewMembers) {
-            await gamificationService.awardJobCompletion(crewMemberId, id, tokensPerWorker.toFixed(8), {
-              onTime: true,
-              customerRating: 5
-            });
-            console.log(`✅ Awarded ${tokensPerWorker} tokens to crew member ${crewMemberId}`);
-          }
-        } catch (tokenError) {
-          console.error("Error distributing tokens:", tokenError);
-          // Don't fail the request if token distribution fails - job is still completed
-        }
+      // Someone else completed it between the check above and the update
+      if (!statusUpdate.changed) {
+        return res.status(409).json({ error: "Job is already completed", code: 'already_completed', status: statusUpdate.lead.status });
       }
 
-      res.json(updatedLead);
+      // Time entries, crew rewards (paid once) and the invoice with any tips/damages reported
+      await jobCompletionService.finishCompletedJob(id, employeeId, invoiceAdjustments);
+
+      res.json(statusUpdate.lead);
     } catch (error) {
       console.error("Error completing job:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.issues[0]?.message || "Invalid completion details" });
+      }
+      if (error instanceof LeadStatusTransitionError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to complete job" });
     }
   });
 
   // Photo management for jobs
-  app.post("/api/leads/:id/photos", isAuthenticated, requireEmployee, async (req: any, res) => {
+  app.post("/api/leads/:id/photos", isAuthenticated, requireEmployee, withIdempotencyKey, async (req: any, res) => {
     try {
       const { id } = req.params;
       const employeeId = req.currentUser.id;
@@ -2227,26 +3307,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Verify the employee is assigned to this job
       const lead = await storage.getLead(id);
       if (!lead) {
-        return res.status(404).json({ error: "Job not found" });
+        return res.status(404).json({ error: "Job not found", code: 'not_found' });
       }
       
       if (lead.assignedToUserId !== employeeId) {
-        return res.status(403).json({ error: "You can only add photos to your assigned jobs" });
+        return res.status(403).json({ error: "You can only add photos to your assigned jobs", code: 'not_assigned', status: lead.status });
       }
       
-      // Validate photo data using schema
-      const { jobPhotoSchema } = await import("@shared/schema");
-      const validatedPhoto = jobPhotoSchema.parse(req.body);
+      // The photo is an uploaded media asset (or a data URL from an older client, moved into the media store here)
+      const photoInput = jobPhotoInputSchema.parse(req.body);
+      const result = await mediaService.createJobPhoto(employeeId, id, photoInput);
+      if (!result.success) {
+        return res.status(MEDIA_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
       
-      const updatedLead = await storage.addJobPhoto(id, validatedPhoto);
+      const updatedLead = await storage.addJobPhoto(id, result.data);
       if (!updatedLead) {
         return res.status(404).json({ error: "Failed to add photo" });
       }
 
-      res.json({ success: true, photo: validatedPhoto, updatedLead });
+      res.json({ success: true, photo: result.data, updatedLead });
     } catch (error) {
       console.error("Error adding job photo:", error);
-      if (error instanceof Error && error.message.includes("Invalid")) {
+      if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid photo data" });
       }
       res.status(500).json({ error: "Failed to add photo" });
@@ -2354,6 +3437,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Available vs locked balance, with each vesting grant and when the next tokens unlock
+  app.get("/api/rewards/vesting", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await vestingService.getVestingBalance((req.session as any).userId));
+    } catch (error) {
+      console.error("Error getting vesting balance:", error);
+      res.status(500).json({ error: "Failed to get vesting balance" });
+    }
+  });
+
   // Get rewards history
   app.get("/api/rewards/history", isAuthenticated, async (req: any, res) => {
     try {
@@ -2419,129 +3512,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Cashout endpoints disabled - will be available when connected to Solana blockchain
-  // Cashout request
-  // app.post("/api/rewards/cashout", isAuthenticated, async (req: any, res) => {
-  //   try {
-  //     const userId = (req.session as any).userId;
-  //     
-  //     // Validate request body with Zod
-  //     const validatedData = cashoutSchema.parse(req.body);
-  //     const { tokenAmount, bankDetails } = validatedData;
-  //
-  //     // Validate bank details
-  //     const validation = cryptoCashoutService.validateBankDetails(bankDetails);
-  //     if (!validation.valid) {
-  //       return res.status(400).json({ error: validation.errors.join(', ') });
-  //     }
-  //
-  //     // Get current wallet balance
-  //     const wallet = await db
-  //       .select()
-  //       .from(walletAccounts)
-  //       .where(eq(walletAccounts.userId, userId))
-  //       .limit(1);
-  //
-  //     if (wallet.length === 0 || parseFloat(wallet[0].tokenBalance || '0') < tokenAmount) {
-  //       return res.status(400).json({ error: "Insufficient balance" });
-  //     }
-  //
-  //     // Check eligibility
-  //     const eligibility = await rewardsService.validateCashoutEligibility(
-  //       parseFloat(wallet[0].tokenBalance || '0'),
-  //       tokenAmount
-  //     );
-  //
-  //     if (!eligibility.eligible) {
-  //       return res.status(400).json({ error: eligibility.reason });
-  //     }
-  //
-  //     // Calculate cash amount
-  //     const cashAmount = await moonshotService.calculateCashValue(tokenAmount);
-  //     const conversionRate = await moonshotService.getTokenPrice();
-  //
-  //     // Encrypt bank details for secure storage
-  //     const encryptedBankDetails = await EncryptionService.encryptBankDetails(bankDetails);
-  //
-  //     // Create cashout request with encrypted bank details
-  //     const cashoutRequest = await db.insert(cashoutRequests).values({
-  //       userId,
-  //       tokenAmount: tokenAmount.toString(),
-  //       cashAmount: cashAmount.toString(),
-  //       conversionRate: conversionRate.toString(),
-  //       bankDetails: encryptedBankDetails
-  //     }).returning();
-  //
-  //     // Initiate external cashout
-  //     const externalResult = await cryptoCashoutService.initiateCashout({
-  //       userId,
-  //       tokenAmount,
-  //       cashAmount,
-  //       bankDetails
-  //     });
-  //
-  //     // Update request with external transaction ID
-  //     await db
-  //       .update(cashoutRequests)
-  //       .set({
-  //         externalTransactionId: externalResult.id,
-  //         status: externalResult.status,
-  //         failureReason: externalResult.failureReason
-  //       })
-  //       .where(eq(cashoutRequests.id, cashoutRequest[0].id));
-  //
-  //     if (externalResult.status !== 'failed') {
-  //       // Deduct from wallet balance (reserve tokens)
-  //       await db
-  //         .update(walletAccounts)
-  //         .set({
-  //           tokenBalance: (parseFloat(wallet[0].tokenBalance || '0') - tokenAmount).toString(),
-  //           lastActivity: new Date()
-  //         })
-  //         .where(eq(walletAccounts.userId, userId));
-  //     }
-  //
-  //     res.json({
-  //       success: true,
-  //       cashoutId: cashoutRequest[0].id,
-  //       externalId: externalResult.id,
-  //       status: externalResult.status,
-  //       cashAmount,
-  //       estimatedCompletion: "1-3 business days"
-  //     });
-  //
-  //   } catch (error) {
-  //     console.error("Cashout error:", error);
-  //     res.status(500).json({ error: "Cashout request failed" });
-  //   }
-  // });
-
-  // Get cashout history
-  // app.get("/api/rewards/cashouts", isAuthenticated, async (req: any, res) => {
-  //   try {
-  //     const userId = (req.session as any).userId;
-  //     
-  //     const cashouts = await db
-  //       .select({
-  //         id: cashoutRequests.id,
-  //         tokenAmount: cashoutRequests.tokenAmount,
-  //         cashAmount: cashoutRequests.cashAmount,
-  //         status: cashoutRequests.status,
-  //         createdAt: cashoutRequests.createdAt,
-  //         processedDate: cashoutRequests.processedDate,
-  //         failureReason: cashoutRequests.failureReason
-  //       })
-  //       .from(cashoutRequests)
-  //       .where(eq(cashoutRequests.userId, userId))
-  //       .orderBy(desc(cashoutRequests.createdAt))
-  //       .limit(50);
-  //
-  //     res.json(cashouts);
-  //   } catch (error) {
-  //     console.error("Error getting cashout history:", error);
-  //     res.status(500).json({ error: "Failed to get cashout history" });
-  //   }
-  // });
+  const CASHOUT_ERROR_STATUS: Record<CashoutErrorCode, number> = {
+    kyc_required: 403,
+    invalid_amount: 400,
+    insufficient_balance: 400,
+    limit_exceeded: 400,
+    method_unavailable: 503,
+    price_unavailable: 503,
+    invalid_status: 409,
+    invalid_webhook: 401,
+    not_found: 404,
+  };
+
+  // Identity status, balance, limits and payout methods for the cash-out panel
+  app.get("/api/cashouts/eligibility", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await cashoutService.getEligibility((req.session as any).userId));
+    } catch (error) {
+      console.error("Error getting cash-out eligibility:", error);
+      res.status(500).json({ error: "Failed to get cash-out eligibility" });
+    }
+  });
+
+  app.post("/api/kyc", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = kycSubmissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid identity details" });
+      }
+      const result = await cashoutService.submitKyc((req.session as any).userId, parsed.data);
+      if (!result.success) {
+        return res.status(CASHOUT_ERROR_STATUS[result.code || 'invalid_status']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error submitting identity details:", error);
+      res.status(500).json({ error: "Failed to submit identity details" });
+    }
+  });
+
+  app.post("/api/cashouts", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = cashoutRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid cash-out request" });
+      }
+      const result = await cashoutService.requestCashout((req.session as any).userId, parsed.data);
+      if (!result.success) {
+        return res.status(CASHOUT_ERROR_STATUS[result.code || 'invalid_amount']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Cash-out error:", error);
+      res.status(500).json({ error: "Cash-out request failed" });
+    }
+  });
+
+  app.get("/api/cashouts", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await cashoutService.getUserCashouts((req.session as any).userId));
+    } catch (error) {
+      console.error("Error getting cash-out history:", error);
+      res.status(500).json({ error: "Failed to get cash-out history" });
+    }
+  });
+
+  // Payout provider status callbacks. Raw body preserved by the webhook middleware in server/index.ts for signature checks
+  app.post("/api/cashouts/webhooks/:provider", async (req, res) => {
+    try {
+      const applied = await cashoutService.handleWebhook(req.params.provider, req.body, req.headers);
+      res.json({ received: true, applied });
+    } catch (error) {
+      if (error instanceof CashoutError) {
+        return res.status(CASHOUT_ERROR_STATUS[error.code]).json({ error: error.message });
+      }
+      console.error("Error handling payout webhook:", error);
+      res.status(500).json({ error: "Failed to handle webhook" });
+    }
+  });
+
+  // Review queue; defaults to cash-outs waiting for a decision
+  app.get("/api/admin/cashouts", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const requested = typeof req.query.status === 'string' ? req.query.status.split(',') : ['pending_review'];
+      const statuses = requested.filter((status): status is CashoutStatus => (CASHOUT_STATUSES as readonly string[]).includes(status));
+      if (!statuses.length) {
+        return res.status(400).json({ error: "Invalid status filter" });
+      }
+      res.json(await cashoutService.getCashoutQueue(statuses));
+    } catch (error) {
+      console.error("Error getting cash-out queue:", error);
+      res.status(500).json({ error: "Failed to get cash-out queue" });
+    }
+  });
+
+  app.post("/api/admin/cashouts/:id/review", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = cashoutReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid review" });
+      }
+      const result = await cashoutService.reviewCashout(req.params.id, parsed.data, (req.session as any).userId);
+      if (!result.success) {
+        return res.status(CASHOUT_ERROR_STATUS[result.code || 'invalid_status']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error reviewing cash-out:", error);
+      res.status(500).json({ error: "Failed to review cash-out" });
+    }
+  });
+
+  app.get("/api/admin/kyc", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await cashoutService.getKycQueue());
+    } catch (error) {
+      console.error("Error getting identity verification queue:", error);
+      res.status(500).json({ error: "Failed to get identity verification queue" });
+    }
+  });
+
+  app.post("/api/admin/kyc/:userId/review", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = kycReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid review" });
+      }
+      const result = await cashoutService.reviewKyc(req.params.userId, parsed.data, (req.session as any).userId);
+      if (!result.success) {
+        return res.status(CASHOUT_ERROR_STATUS[result.code || 'invalid_status']).json({ error: result.error, code: result.code });
+      }
+      res.json({ userId: result.data!.id, kycStatus: result.data!.kycStatus });
+    } catch (error) {
+      console.error("Error reviewing identity verification:", error);
+      res.status(500).json({ error: "Failed to review identity verification" });
+    }
+  });
 
   // Admin/Business owner routes for rewards management
   app.get("/api/admin/rewards/stats", isAuthenticated, requireBusinessOwner, async (req, res) => {
@@ -2696,7 +3802,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (transferStatus.status === "completed" && transferStatus.metadata) {
         // Create funding deposit record
         const depositAmount = transferStatus.metadata.usdValue;
-        const tokenPrice = await moonshotService.getTokenPrice();
         
         const result = await treasuryService.depositFunds(
           userId,
@@ -2830,6 +3935,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ledger consistency check: users + reserve + pools + fees against total issued, plus any drifted balances
+  app.get("/api/treasury/ledger/consistency", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
+    try {
+      const currency = typeof req.query.currency === 'string' ? req.query.currency : LEDGER_CURRENCY;
+      const report = await ledgerService.checkConsistency(currency);
+      res.json(report);
+    } catch (error) {
+      console.error("Error checking ledger consistency:", error);
+      res.status(500).json({ error: "Failed to check ledger consistency" });
+    }
+  });
+
+  // Ledger lines for one account, newest first (account keys look like "user_rewards:<userId>:JCMOVES")
+  app.get("/api/treasury/ledger/accounts/:accountKey/lines", isAuthenticated, requireBusinessOwner, async (req: any, res) => {
+    try {
+      const limitParam = Number(req.query.limit);
+      const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, 200) : 50;
+
+      const lines = await storage.getLedgerLines(req.params.accountKey, limit);
+      res.json({ lines, pagination: { limit } });
+    } catch (error) {
+      console.error("Error getting ledger lines:", error);
+      res.status(500).json({ error: "Failed to get ledger lines" });
+    }
+  });
+
   // Get treasury analytics and distribution patterns
   app.get("/api/treasury/analytics", isAuthenticated, requireBusinessOwner, async (req, res) => {
     try {
@@ -3037,6 +4168,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  const RECONCILIATION_ERROR_STATUS: Record<ReconciliationErrorCode, number> = {
+    not_found: 404,
+    already_resolved: 409,
+    insufficient_reserve: 400,
+    in_progress: 409,
+  };
+
+  // Stored reconciliation runs, newest first
+  app.get("/api/treasury/reconciliation/reports", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      res.json(await treasuryReconciliationService.getReports(limit));
+    } catch (error) {
+      console.error("Error fetching reconciliation reports:", error);
+      res.status(500).json({ error: "Failed to fetch reconciliation reports" });
+    }
+  });
+
+  // Run a reconciliation now instead of waiting for the schedule
+  app.post("/api/treasury/reconciliation/run", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const result = await treasuryReconciliationService.runReconciliation('manual', (req.session as any).userId);
+      if (!result.success || !result.data) {
+        return res.status(result.code ? RECONCILIATION_ERROR_STATUS[result.code] : 503).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error running reconciliation:", error);
+      res.status(500).json({ error: "Failed to run reconciliation" });
+    }
+  });
+
+  // ?status=open (default), or a comma-separated list
+  app.get("/api/treasury/reconciliation/discrepancies", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const statuses = (typeof req.query.status === 'string' ? req.query.status : 'open')
+        .split(',')
+        .filter((status) => (DISCREPANCY_STATUSES as readonly string[]).includes(status));
+      res.json(await treasuryReconciliationService.getDiscrepancies(statuses.length ? statuses : undefined));
+    } catch (error) {
+      console.error("Error fetching discrepancies:", error);
+      res.status(500).json({ error: "Failed to fetch discrepancies" });
+    }
+  });
+
+  app.post("/api/treasury/reconciliation/discrepancies/:id/resolve", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = discrepancyResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid resolution" });
+      }
+
+      const result = await treasuryReconciliationService.resolveDiscrepancy(req.params.id, (req.session as any).userId, parsed.data);
+      if (!result.success || !result.data) {
+        return res.status(RECONCILIATION_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      console.error("Error resolving discrepancy:", error);
+      res.status(500).json({ error: "Failed to resolve discrepancy" });
+    }
+  });
+
+  const TREASURY_PERIOD_ERROR_STATUS: Record<TreasuryPeriodErrorCode, number> = {
+    invalid_period: 400,
+    not_ended: 409,
+    already_closed: 409,
+    locks_unavailable: 503,
+  };
+
+  // ?type=month (default) or quarter - recent periods and whether each is closed
+  app.get("/api/treasury/periods", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const type = (TREASURY_PERIOD_TYPES as readonly string[]).includes(req.query.type as string) ? req.query.type as TreasuryPeriodType : 'month';
+      res.json(await treasuryAccountingService.listPeriods(type));
+    } catch (error) {
+      console.error("Error fetching treasury periods:", error);
+      res.status(500).json({ error: "Failed to fetch treasury periods" });
+    }
+  });
+
+  // Period keys look like 2026-09 (month) or 2026-Q3 (quarter)
+  app.get("/api/treasury/periods/:type/:key", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const period = parseTreasuryPeriod(req.params.type, req.params.key);
+      if (!period) {
+        return res.status(TREASURY_PERIOD_ERROR_STATUS.invalid_period).json({ error: "Invalid treasury period" });
+      }
+      const report = await treasuryAccountingService.getPeriodReport(period);
+      res.json(report.summary);
+    } catch (error) {
+      console.error("Error building treasury period summary:", error);
+      res.status(500).json({ error: "Failed to build treasury period summary" });
+    }
+  });
+
+  app.post("/api/treasury/periods/:type/:key/close", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const period = parseTreasuryPeriod(req.params.type, req.params.key);
+      if (!period) {
+        return res.status(TREASURY_PERIOD_ERROR_STATUS.invalid_period).json({ error: "Invalid treasury period" });
+      }
+      const parsed = treasuryPeriodCloseSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid close request" });
+      }
+
+      const result = await treasuryAccountingService.closePeriod(period, (req.session as any).userId, parsed.data.notes);
+      if (!result.success || !result.data) {
+        return res.status(TREASURY_PERIOD_ERROR_STATUS[result.code || 'invalid_period']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error closing treasury period:", error);
+      res.status(500).json({ error: "Failed to close treasury period" });
+    }
+  });
+
+  // ?format=csv (default), iif or ofx
+  app.get("/api/treasury/periods/:type/:key/export", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const period = parseTreasuryPeriod(req.params.type, req.params.key);
+      if (!period) {
+        return res.status(TREASURY_PERIOD_ERROR_STATUS.invalid_period).json({ error: "Invalid treasury period" });
+      }
+      const format = (TREASURY_EXPORT_FORMATS as readonly string[]).includes(req.query.format as string) ? req.query.format as TreasuryExportFormat : 'csv';
+
+      const file = await treasuryAccountingService.exportPeriod(period, format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Error exporting treasury period:", error);
+      res.status(500).json({ error: "Failed to export treasury period" });
+    }
+  });
+
   // Transfer JCMOVES tokens between wallets
   app.post("/api/treasury/transfer", isAuthenticated, requireBusinessOwner, async (req, res) => {
     try {
@@ -3046,50 +4317,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Recipient address is required" });
       }
 
-      if (!amount || typeof amount !== 'number' || amount <= 0) {
-        return res.status(400).json({ error: "Valid amount is required" });
+      if (!amount || typeof amount !== 'number' || amount <= 0) {
+        return res.status(400).json({ error: "Valid amount is required" });
+      }
+
+      const requester = await treasuryApprovalService.getActor((req.session as any).userId);
+      if (!requester) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      // Checks the live balance and deducts from the treasury reserve (this tracks the withdrawal),
+      // unless the amount needs approval first
+      const result = await treasuryApprovalService.submit('treasury_transfer', requester, {
+        tokenAmount: amount,
+        summary: `Transfer ${amount.toLocaleString()} JCMOVES to ${recipientAddress.slice(0, 8)}...${recipientAddress.slice(-6)}`,
+        payload: { recipientAddress, amount },
+      });
+      if (!result.success || !result.data) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      if (result.data.pendingApproval) {
+        return res.status(202).json({
+          success: true,
+          pendingApproval: true,
+          message: "Transfer is waiting for approval",
+          request: result.data.request,
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Transfer recorded successfully",
+        transaction: result.data.result,
+        note: "Blockchain transfer execution requires manual signing via Solana wallet. This records the transfer intent in the treasury system."
+      });
+    } catch (error) {
+      console.error("Error processing transfer:", error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to process transfer" 
+      });
+    }
+  });
+
+  const APPROVAL_ERROR_STATUS: Record<TreasuryApprovalErrorCode, number> = {
+    not_found: 404,
+    not_pending: 409,
+    expired: 409,
+    self_approval: 403,
+    already_decided: 409,
+    not_authorized: 403,
+    change_pending: 409,
+    execution_failed: 400,
+  };
+
+  // Approval queue for the treasury dashboard, newest first. ?status=pending,approved filters
+  app.get("/api/treasury/approvals", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const statuses = typeof req.query.status === 'string'
+        ? req.query.status.split(',').filter((status) => (APPROVAL_REQUEST_STATUSES as readonly string[]).includes(status))
+        : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const requests = await treasuryApprovalService.getRequests(statuses?.length ? statuses : undefined, limit);
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching approval requests:", error);
+      res.status(500).json({ error: "Failed to fetch approval requests" });
+    }
+  });
+
+  app.get("/api/treasury/approvals/:id", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const result = await treasuryApprovalService.getRequest(req.params.id);
+      if (!result.success || !result.data) {
+        return res.status(APPROVAL_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error fetching approval request:", error);
+      res.status(500).json({ error: "Failed to fetch approval request" });
+    }
+  });
+
+  // Approve or reject; the deciding approval runs the action and returns its outcome
+  app.post("/api/treasury/approvals/:id/:decision(approve|reject)", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = approvalDecisionSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid comment" });
+      }
+
+      const actor = await treasuryApprovalService.getActor((req.session as any).userId);
+      if (!actor) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+
+      const result = req.params.decision === 'approve'
+        ? await treasuryApprovalService.approve(req.params.id, actor, parsed.data.comment)
+        : await treasuryApprovalService.reject(req.params.id, actor, parsed.data.comment);
+      if (!result.success || !result.data) {
+        return res.status(APPROVAL_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error deciding approval request:", error);
+      res.status(500).json({ error: "Failed to record decision" });
+    }
+  });
+
+  app.get("/api/treasury/approval-policies", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await treasuryApprovalService.getPolicies());
+    } catch (error) {
+      console.error("Error fetching approval policies:", error);
+      res.status(500).json({ error: "Failed to fetch approval policies" });
+    }
+  });
+
+  app.put("/api/treasury/approval-policies/:actionType", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const actionType = req.params.actionType as ApprovalActionType;
+      if (!APPROVAL_ACTION_TYPES.includes(actionType)) {
+        return res.status(404).json({ error: "Unknown approval action" });
       }
 
-      // Get current token balance
-      const liveBalance = await solanaMonitor.getLiveTokenBalance();
-      if (!liveBalance.success || liveBalance.balance < amount) {
-        return res.status(400).json({ 
-          error: `Insufficient balance. Available: ${liveBalance.balance} JCMOVES, Requested: ${amount} JCMOVES` 
-        });
+      const parsed = approvalPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid approval policy", details: parsed.error.errors });
       }
 
-      // Record the transfer intent in database
-      const tokenPrice = await moonshotService.getTokenPrice();
-      const usdValue = amount * tokenPrice;
-      
-      // Deduct from treasury reserve (this tracks the withdrawal)
-      const transaction = await storage.deductFromReserve(
-        amount,
-        `Transfer to ${recipientAddress.slice(0, 8)}...${recipientAddress.slice(-6)}`,
-        tokenPrice,
-        'transfer',
-        recipientAddress
-      );
-
-      console.log(`[TRANSFER] Initiated: ${amount} JCMOVES to ${recipientAddress}, USD value: $${usdValue.toFixed(2)}`);
+      const requester = await treasuryApprovalService.getActor((req.session as any).userId);
+      if (!requester) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
 
-      res.json({
+      // Saved once another approver signs off
+      const result = await treasuryApprovalService.requestPolicyChange(actionType, parsed.data, requester);
+      if (!result.success || !result.data) {
+        return res.status(APPROVAL_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error, code: result.code });
+      }
+      res.status(202).json({
         success: true,
-        message: "Transfer recorded successfully",
-        transaction: {
-          id: transaction.id,
-          amount,
-          usdValue,
-          recipientAddress,
-          timestamp: transaction.createdAt
-        },
-        note: "Blockchain transfer execution requires manual signing via Solana wallet. This records the transfer intent in the treasury system."
+        pendingApproval: true,
+        message: "Policy change is waiting for approval",
+        request: result.data,
       });
     } catch (error) {
-      console.error("Error processing transfer:", error);
-      res.status(500).json({ 
-        error: error instanceof Error ? error.message : "Failed to process transfer" 
-      });
+      console.error("Error requesting approval policy change:", error);
+      res.status(500).json({ error: "Failed to request approval policy change" });
     }
   });
 
@@ -3178,30 +4553,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  const PRICE_ORACLE_ERROR_STATUS: Record<PriceOracleErrorCode, number> = {
+    no_quotes: 503,
+    insufficient_sources: 503,
+    stale: 503,
+    no_override: 404,
+  };
+
   // Poll and store current price (internal/cron endpoint)
   app.post("/api/price-history/poll", isAuthenticated, requireBusinessOwner, async (req, res) => {
     try {
-      const priceData = await cryptoService.getCurrentPrice();
-      const marketData = await cryptoService.getMarketData();
+      const { price, snapshot } = await priceOracle.getPrice();
+      const source = snapshot.method === 'manual' ? 'manual' : 'oracle';
       
       await storage.addPricePoint(
-        priceData.price.toString(),
-        priceData.source,
-        marketData
+        price.toFixed(12),
+        source,
+        { snapshot }
       );
       
       res.json({ 
         success: true, 
-        price: priceData.price,
-        source: priceData.source,
+        price,
+        source,
         timestamp: new Date()
       });
     } catch (error) {
+      if (error instanceof PriceOracleError) {
+        return res.status(PRICE_ORACLE_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
       console.error("Error polling price:", error);
       res.status(500).json({ error: "Failed to poll price" });
     }
   });
 
+  // Latest aggregated price, each source's quote and any active override
+  app.get("/api/price-oracle/status", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await priceOracle.getStatus());
+    } catch (error) {
+      console.error("Error fetching price oracle status:", error);
+      res.status(500).json({ error: "Failed to fetch price oracle status" });
+    }
+  });
+
+  // Pin the JCMOVES price until it expires, e.g. while sources are down or being manipulated
+  app.post("/api/price-oracle/override", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = priceOverrideSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid price override" });
+      }
+      res.json(await priceOracle.setOverride(parsed.data, (req.session as any).userId));
+    } catch (error) {
+      console.error("Error setting price override:", error);
+      res.status(500).json({ error: "Failed to set price override" });
+    }
+  });
+
+  app.delete("/api/price-oracle/override", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const result = await priceOracle.clearOverride((req.session as any).userId);
+      if (!result.success) {
+        return res.status(PRICE_ORACLE_ERROR_STATUS[result.code || 'no_override']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error clearing price override:", error);
+      res.status(500).json({ error: "Failed to clear price override" });
+    }
+  });
+
   // Bootstrap endpoint - promote current user to admin if no admins exist
   app.post("/api/bootstrap/admin", isAuthenticated, async (req: any, res) => {
     try {
@@ -3456,15 +4878,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get weekly leaderboard
+  // Get this week's live leaderboard
   app.get("/api/gamification/leaderboard", isAuthenticated, async (req: any, res) => {
     try {
       const limit = Math.min(parseInt(req.query.limit) || 10, 50); // Max 50 results
-      const leaderboard = await gamificationService.getWeeklyLeaderboard();
+      const week = await leaderboardService.getWeek(getLeaderboardWeekStart());
       
       res.json({
         success: true,
-        leaderboard: leaderboard.slice(0, limit)
+        leaderboard: week.entries.slice(0, limit)
       });
     } catch (error) {
       console.error("Error getting leaderboard:", error);
@@ -3475,6 +4897,254 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The current user's achievements, earned and in progress
+  app.get("/api/gamification/achievements", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await achievementService.getEmployeeAchievements((req.session as any).userId));
+    } catch (error) {
+      console.error("Error getting achievements:", error);
+      res.status(500).json({ error: "Failed to get achievements" });
+    }
+  });
+
+  const ACHIEVEMENT_ERROR_STATUS: Record<AchievementErrorCode, number> = {
+    duplicate_name: 409,
+    not_found: 404,
+  };
+
+  app.get("/api/admin/achievements", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await achievementService.getAchievementTypes());
+    } catch (error) {
+      console.error("Error fetching achievements:", error);
+      res.status(500).json({ error: "Failed to fetch achievements" });
+    }
+  });
+
+  app.post("/api/admin/achievements", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = achievementTypeInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid achievement" });
+      }
+      res.status(201).json(await achievementService.createAchievementType(parsed.data));
+    } catch (error) {
+      if (error instanceof AchievementError) {
+        return res.status(ACHIEVEMENT_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error creating achievement:", error);
+      res.status(500).json({ error: "Failed to create achievement" });
+    }
+  });
+
+  app.put("/api/admin/achievements/:id", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = achievementTypeInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid achievement" });
+      }
+      const achievement = await achievementService.updateAchievementType(req.params.id, parsed.data);
+      if (!achievement) {
+        return res.status(ACHIEVEMENT_ERROR_STATUS.not_found).json({ error: "Achievement not found", code: "not_found" });
+      }
+      res.json(achievement);
+    } catch (error) {
+      if (error instanceof AchievementError) {
+        return res.status(ACHIEVEMENT_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error updating achievement:", error);
+      res.status(500).json({ error: "Failed to update achievement" });
+    }
+  });
+
+  // Award achievements retroactively to employees who already meet the rules
+  app.post("/api/admin/achievements/evaluate", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = achievementEvaluationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid evaluation request" });
+      }
+      res.json(await achievementService.evaluateExisting(parsed.data.achievementTypeId));
+    } catch (error) {
+      console.error("Error evaluating achievements:", error);
+      res.status(500).json({ error: "Failed to evaluate achievements" });
+    }
+  });
+
+  // Closed leaderboard weeks, newest first
+  app.get("/api/gamification/leaderboard/weeks", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await leaderboardService.getHistory());
+    } catch (error) {
+      console.error("Error getting leaderboard history:", error);
+      res.status(500).json({ error: "Failed to get leaderboard history" });
+    }
+  });
+
+  // One week's standings: frozen ranks and prize payouts once closed, live while it's open
+  app.get("/api/gamification/leaderboard/weeks/:weekStart", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = leaderboardWeekSchema.safeParse(req.params.weekStart);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid week" });
+      }
+      res.json(await leaderboardService.getWeek(parsed.data));
+    } catch (error) {
+      console.error("Error getting leaderboard week:", error);
+      res.status(500).json({ error: "Failed to get leaderboard week" });
+    }
+  });
+
+  const LEADERBOARD_ERROR_STATUS: Record<LeaderboardErrorCode, number> = {
+    week_not_over: 400,
+    already_closed: 409,
+  };
+
+  // Close a week by hand, e.g. one missed while the server was down. Defaults to last week
+  app.post("/api/admin/leaderboard/close", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = leaderboardCloseSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid week" });
+      }
+      const weekStart = parsed.data.weekStart || new Date(getLeaderboardWeekStart().getTime() - 7 * 24 * 60 * 60 * 1000);
+      res.json(await leaderboardService.closeWeek(weekStart, (req.session as any).userId));
+    } catch (error) {
+      if (error instanceof LeaderboardError) {
+        return res.status(LEADERBOARD_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error closing leaderboard week:", error);
+      res.status(500).json({ error: "Failed to close leaderboard week" });
+    }
+  });
+
+  // Reward parameters for check-ins, jobs, rating bonuses, leaderboard prizes, mining and levels
+  app.get("/api/admin/gamification-config", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json({ settings: await gamificationConfigService.getSettings(), definitions: GAMIFICATION_SETTING_DEFINITIONS });
+    } catch (error) {
+      console.error("Error getting gamification settings:", error);
+      res.status(500).json({ error: "Failed to get gamification settings" });
+    }
+  });
+
+  app.put("/api/admin/gamification-config", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = gamificationSettingsUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid settings" });
+      }
+      const userId = (req.session as any).userId;
+      res.json(await gamificationConfigService.updateSettings(parsed.data.changes, userId, parsed.data.reason));
+    } catch (error) {
+      console.error("Error saving gamification settings:", error);
+      res.status(500).json({ error: "Failed to save gamification settings" });
+    }
+  });
+
+  // What the last 30 days of payouts would have been with the proposed changes
+  app.post("/api/admin/gamification-config/preview", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = gamificationPreviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid settings" });
+      }
+      res.json(await gamificationConfigService.previewImpact(parsed.data.changes));
+    } catch (error) {
+      console.error("Error previewing gamification settings:", error);
+      res.status(500).json({ error: "Failed to preview gamification settings" });
+    }
+  });
+
+  app.get("/api/admin/gamification-config/changes", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await gamificationConfigService.getChanges());
+    } catch (error) {
+      console.error("Error getting gamification settings history:", error);
+      res.status(500).json({ error: "Failed to get gamification settings history" });
+    }
+  });
+
+  // Upcoming, live and recently finished competitions with standings and where the employee stands
+  app.get("/api/competitions", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await competitionService.getForEmployee((req.session as any).userId));
+    } catch (error) {
+      console.error("Error getting competitions:", error);
+      res.status(500).json({ error: "Failed to get competitions" });
+    }
+  });
+
+  const COMPETITION_ERROR_STATUS: Record<CompetitionErrorCode, number> = {
+    not_found: 404,
+    not_ended: 400,
+    already_closed: 409,
+    invalid_participants: 400,
+    insufficient_treasury: 400,
+  };
+
+  app.get("/api/competitions/:id", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await competitionService.getCompetition(req.params.id, (req.session as any).userId));
+    } catch (error) {
+      if (error instanceof CompetitionError) {
+        return res.status(COMPETITION_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error getting competition:", error);
+      res.status(500).json({ error: "Failed to get competition" });
+    }
+  });
+
+  app.get("/api/admin/competitions", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await competitionService.getAll());
+    } catch (error) {
+      console.error("Error getting competitions:", error);
+      res.status(500).json({ error: "Failed to get competitions" });
+    }
+  });
+
+  app.post("/api/admin/competitions", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      const parsed = competitionInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid competition" });
+      }
+      res.status(201).json(await competitionService.create(parsed.data, (req.session as any).userId));
+    } catch (error) {
+      if (error instanceof CompetitionError) {
+        return res.status(COMPETITION_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error creating competition:", error);
+      res.status(500).json({ error: "Failed to create competition" });
+    }
+  });
+
+  app.post("/api/admin/competitions/:id/cancel", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await competitionService.cancel(req.params.id, (req.session as any).userId));
+    } catch (error) {
+      if (error instanceof CompetitionError) {
+        return res.status(COMPETITION_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error cancelling competition:", error);
+      res.status(500).json({ error: "Failed to cancel competition" });
+    }
+  });
+
+  // Close an ended competition now instead of waiting for the scheduled close-out
+  app.post("/api/admin/competitions/:id/close", isAuthenticated, requireBusinessOwner, async (req, res) => {
+    try {
+      res.json(await competitionService.closeCompetition(req.params.id, (req.session as any).userId));
+    } catch (error) {
+      if (error instanceof CompetitionError) {
+        return res.status(COMPETITION_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error closing competition:", error);
+      res.status(500).json({ error: "Failed to close competition" });
+    }
+  });
+
   // Award job completion points (internal endpoint for job workflow)
   app.post("/api/gamification/job-completion", isAuthenticated, async (req: any, res) => {
     try {
@@ -4224,12 +5894,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: `Successfully deposited ${amount} ${currency}`
       });
     } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
       console.error("Error recording deposit:", error);
       res.status(500).json({ error: "Failed to record deposit" });
     }
   });
 
-  // Wallet export request endpoint  
+  const WITHDRAWAL_ERROR_STATUS: Record<WithdrawalErrorCode, number> = {
+    invalid_address: 400,
+    invalid_amount: 400,
+    insufficient_balance: 400,
+    wallet_not_found: 404,
+    treasury_unavailable: 503,
+    not_found: 404,
+  };
+
+  // Wallet export request endpoint - queues an on-chain SPL transfer from the treasury wallet
   app.post("/api/wallets/export-request", isAuthenticated, async (req: any, res) => {
     try {
       const userId = (req.session as any).userId;
@@ -4237,71 +5919,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Unauthorized" });
       }
 
-      const { amount, withdrawalAddress, notes, currency } = req.body;
-      
-      if (!amount || !currency || parseFloat(amount) <= 0) {
-        return res.status(400).json({ error: "Invalid export request data" });
+      const parsed = withdrawalRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({
+          error: issue?.message || "Invalid export request data",
+          code: issue?.path[0] === 'withdrawalAddress' ? 'invalid_address' : undefined,
+        });
       }
 
-      if (!withdrawalAddress || withdrawalAddress.trim() === '') {
-        return res.status(400).json({ error: "Wallet address is required" });
+      // The wallet debit, fee and queued withdrawal post together; the transfer is sent in the background
+      const result = await solanaWithdrawalService.requestWithdrawal(userId, parsed.data);
+      if (!result.success || !result.data) {
+        return res.status(WITHDRAWAL_ERROR_STATUS[result.code || 'invalid_amount']).json({ error: result.error, code: result.code });
       }
 
-      if (currency !== 'JCMOVES') {
-        return res.status(400).json({ error: "Export only supported for JCMOVES tokens" });
-      }
+      const { withdrawal, transaction, fee, netAmount, approvalRequestId } = result.data;
+      res.json({ 
+        success: true, 
+        message: approvalRequestId
+          ? "Withdrawal is held for approval and will be sent once approved"
+          : "Withdrawal queued and will be sent on-chain shortly",
+        withdrawalId: withdrawal.id,
+        approvalRequestId,
+        transactionId: transaction.id,
+        status: withdrawal.status,
+        amount: parsed.data.amount,
+        fee,
+        netAmount,
+        newBalance: transaction.balanceAfter,
+      });
 
-      // Get user's JCMOVES wallet
-      const userWallets = await walletService.getUserWallets(userId);
-      const jcmovesWallet = userWallets.find(w => w.currency.symbol === 'JCMOVES');
-      
-      if (!jcmovesWallet) {
-        return res.status(404).json({ error: "JCMOVES wallet not found" });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message, code: error.code });
       }
+      console.error("Error processing export request:", error);
+      res.status(500).json({ error: "Failed to process export request" });
+    }
+  });
 
-      const currentBalance = parseFloat(jcmovesWallet.balance);
-      const exportAmount = parseFloat(amount);
+  // The current user's JCMOVES deposit address, with deposits still waiting to finalize
+  app.get("/api/wallets/deposit-address", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const wallet = await walletService.ensureDepositWallet(userId);
+      const info = await solanaMonitor.getDepositAddressInfo(wallet);
+      res.json(info);
+    } catch (error) {
+      console.error("Error fetching deposit address:", error);
+      res.status(503).json({ error: "Deposit address is unavailable right now" });
+    }
+  });
 
-      if (exportAmount > currentBalance) {
-        return res.status(400).json({ error: "Insufficient balance" });
+  // The current user's on-chain withdrawals, newest first
+  app.get("/api/wallets/withdrawals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const withdrawals = await storage.getUserTreasuryWithdrawals(userId);
+      res.json(withdrawals);
+    } catch (error) {
+      console.error("Error fetching withdrawals:", error);
+      res.status(500).json({ error: "Failed to fetch withdrawals" });
+    }
+  });
+
+  // Status of one withdrawal, for the requester or a business owner
+  app.get("/api/wallets/withdrawals/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const result = await solanaWithdrawalService.getWithdrawal(req.params.id);
+      if (!result.success || !result.data) {
+        return res.status(WITHDRAWAL_ERROR_STATUS[result.code || 'not_found']).json({ error: result.error });
       }
 
-      // Auto-approve the withdrawal after user confirmation
-      // Create a confirmed transaction record with blockchain placeholder
-      const transactionResult = await storage.createWalletTransaction({
-        userWalletId: jcmovesWallet.id,
-        transactionType: 'withdrawal',
-        amount: exportAmount.toString(),
-        balanceAfter: (currentBalance - exportAmount).toString(),
-        transactionHash: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, // Placeholder until blockchain integration
-        status: 'confirmed',
-        confirmations: 1,
-        metadata: {
-          withdrawalAddress: withdrawalAddress || null,
-          notes: notes || null,
-          exportRequest: true,
-          autoApproved: true,
-          requestedAt: new Date().toISOString(),
-          approvedAt: new Date().toISOString()
+      if (result.data.requestedBy !== userId) {
+        const user = await storage.getUser(userId);
+        if (user?.role !== 'admin' && user?.role !== 'business_owner') {
+          return res.status(404).json({ error: "Withdrawal not found" });
         }
-      });
-
-      // Update wallet balance
-      await storage.updateUserWalletBalance(jcmovesWallet.id, (currentBalance - exportAmount).toString());
-
-      res.json({ 
-        success: true, 
-        message: "Withdrawal approved and processed successfully",
-        transactionId: transactionResult.id,
-        transactionHash: transactionResult.transactionHash,
-        amount: exportAmount,
-        newBalance: (currentBalance - exportAmount).toString(),
-        approved: true
-      });
+      }
 
+      res.json(result.data);
     } catch (error) {
-      console.error("Error processing export request:", error);
-      res.status(500).json({ error: "Failed to process export request" });
+      console.error("Error fetching withdrawal:", error);
+      res.status(500).json({ error: "Failed to fetch withdrawal" });
     }
   });
 
@@ -4313,73 +6015,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Unauthorized" });
       }
 
-      // Get user's current reward balance from walletAccounts
-      const rewardWallet = await storage.getWalletAccount(userId);
-      if (!rewardWallet) {
-        return res.status(404).json({ error: "No rewards wallet found" });
-      }
-
-      const rewardBalance = parseFloat(rewardWallet.tokenBalance || '0');
-      if (rewardBalance <= 0) {
+      // Move the rewards balance into the JCMOVES wallet as one ledger entry
+      const synced = await walletService.syncFromRewards(userId);
+      if (!synced) {
         return res.status(400).json({ error: "No tokens to sync" });
       }
 
-      // Get or create user's JCMOVES crypto wallet
-      const userWallets = await walletService.getUserWallets(userId);
-      let jcmovesWallet = userWallets.find(w => w.currency.symbol === 'JCMOVES');
-      
-      if (!jcmovesWallet) {
-        // Create JCMOVES wallet if it doesn't exist
-        const walletService = new (await import('./services/wallet.js')).WalletService();
-        await walletService.createUserWallet(userId, 'JCMOVES');
-        // Refetch with currency info
-        const updatedWallets = await walletService.getUserWallets(userId);
-        jcmovesWallet = updatedWallets.find(w => w.currency.symbol === 'JCMOVES');
-        
-        if (!jcmovesWallet) {
-          throw new Error('Failed to create JCMOVES wallet');
-        }
-      }
-
-      // Calculate new balances
-      const currentCryptoBalance = parseFloat(jcmovesWallet.balance);
-      const newCryptoBalance = currentCryptoBalance + rewardBalance;
-
-      // Transfer the tokens
-      // 1. Add to crypto wallet
-      await storage.updateUserWalletBalance(jcmovesWallet.id, newCryptoBalance.toString());
-      
-      // 2. Record the sync transaction
-      await storage.createWalletTransaction({
-        userWalletId: jcmovesWallet.id,
-        transactionType: 'deposit',
-        amount: rewardBalance.toString(),
-        balanceAfter: newCryptoBalance.toString(),
-        transactionHash: null,
-        status: 'confirmed',
-        confirmations: 1,
-        metadata: {
-          syncFromRewards: true,
-          originalRewardBalance: rewardBalance.toString(),
-          syncedAt: new Date().toISOString(),
-          source: 'rewards_system'
-        }
-      });
-
-      // 3. Clear the rewards balance (set to 0)
-      await storage.updateWalletAccount(userId, {
-        tokenBalance: "0.00000000"
-      });
-
       res.json({ 
         success: true, 
         message: "Tokens successfully synced to crypto wallet",
-        syncedAmount: rewardBalance,
-        newCryptoBalance: newCryptoBalance,
-        walletId: jcmovesWallet.id
+        syncedAmount: synced.syncedAmount,
+        newCryptoBalance: parseFloat(synced.newBalance),
+        walletId: synced.walletId
       });
 
     } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
       console.error("Error syncing tokens from rewards:", error);
       res.status(500).json({ error: "Failed to sync tokens" });
     }
@@ -4419,11 +6072,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: `Successfully transferred ${amount} ${currency} to ${recipient.firstName} ${recipient.lastName}`
       });
     } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
       console.error("Error processing transfer:", error);
       res.status(500).json({ error: error.message || "Failed to process transfer" });
     }
   });
 
+  const PEER_TRANSFER_ERROR_STATUS: Record<PeerTransferErrorCode, number> = {
+    recipient_not_found: 404,
+    self_transfer: 400,
+    invalid_amount: 400,
+    insufficient_balance: 400,
+    limit_exceeded: 400,
+    blocked: 403,
+  };
+
+  // Balance, today's limits and recent transfers for the profile wallet tab
+  app.get("/api/wallets/peer-transfers", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await peerTransferService.getOverview((req.session as any).userId));
+    } catch (error) {
+      console.error("Error getting peer transfers:", error);
+      res.status(500).json({ error: "Failed to get transfer history" });
+    }
+  });
+
+  // Send JCMOVES to another user by username or referral code
+  app.post("/api/wallets/peer-transfers", isAuthenticated, async (req, res) => {
+    try {
+      const parsed = peerTransferSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message || "Invalid transfer" });
+      }
+      const result = await peerTransferService.sendTransfer((req.session as any).userId, parsed.data, {
+        ipAddress: req.ip || req.socket.remoteAddress || 'unknown',
+        userAgent: req.get('user-agent') || '',
+      });
+      if (!result.success) {
+        return res.status(PEER_TRANSFER_ERROR_STATUS[result.code || 'invalid_amount']).json({ error: result.error, code: result.code });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Peer transfer error:", error);
+      res.status(500).json({ error: "Transfer failed" });
+    }
+  });
+
   // Transfer tokens from user's JCMOVES wallet to treasury (admin, employee, and business_owner only - not customers)
   app.post("/api/wallets/fund-treasury", isAuthenticated, requireTreasuryAccess, async (req: any, res) => {
     try {
@@ -4449,37 +6145,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Insufficient balance" });
       }
 
-      // 1. Deduct from user's wallet
-      const newBalance = currentBalance - transferAmount;
-      await storage.updateUserWalletBalance(jcmovesWallet.id, newBalance.toString());
-
-      // 2. Record withdrawal transaction
-      await storage.createWalletTransaction({
-        userWalletId: jcmovesWallet.id,
-        transactionType: 'withdrawal',
-        amount: transferAmount.toString(),
-        balanceAfter: newBalance.toString(),
-        transactionHash: `treasury_funding_${Date.now()}`,
-        status: 'confirmed',
-        confirmations: 1,
-        metadata: {
-          treasuryFunding: true,
-          note: note || 'Treasury funding',
-          fundedAt: new Date().toISOString()
-        }
-      });
-
-      // 3. Add to treasury funding - get current token price for USD value
-      const treasuryService = new (await import('./services/treasury.js')).TreasuryService();
-      const priceData = await treasuryService.getCurrentTokenPrice();
+      // Record the token price the deposit is valued at
+      const priceData = await priceOracle.recordPrice('treasury_deposit', { relatedEntityType: 'user_wallet', relatedEntityId: jcmovesWallet.id });
       const usdValue = transferAmount * priceData.price;
       
-      // Add tokens and USD value to treasury reserve
+      // Move the tokens from the user's wallet into the treasury reserve in one transaction
       await storage.addToReserve(
         transferAmount,
         usdValue,
-        `Treasury funding from user wallet: ${note || 'Wallet to Treasury transfer'}`
+        `Treasury funding from user wallet: ${note || 'Wallet to Treasury transfer'}`,
+        {
+          userWalletId: jcmovesWallet.id,
+          metadata: {
+            note: note || 'Treasury funding',
+            fundedAt: new Date().toISOString()
+          }
+        }
       );
+      const newBalance = currentBalance - transferAmount;
 
       res.json({ 
         success: true, 
@@ -4491,6 +6174,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
     } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      if (error instanceof PriceOracleError) {
+        return res.status(PRICE_ORACLE_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      }
       console.error("Error funding treasury from wallet:", error);
       res.status(500).json({ error: "Failed to fund treasury" });
     }
@@ -4549,6 +6238,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Active mining boosts, the multiplier a claim would be paid at now, and how to earn more
+  app.get("/api/mining/boosts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = (req.session as any).userId;
+      const { miningBoostService } = await import('./services/mining-boosts');
+
+      res.json(await miningBoostService.refreshBoosts(userId));
+    } catch (error) {
+      console.error("Error getting mining boosts:", error);
+      res.status(500).json({ error: "Failed to get mining boosts" });
+    }
+  });
+
   // Manually claim accumulated tokens
   app.post("/api/mining/claim", isAuthenticated, async (req: any, res) => {
     try {
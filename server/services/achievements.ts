@@ -0,0 +1,253 @@
+import { storage } from '../storage';
+import { vestingService } from './vesting';
+import { notificationService } from './notification';
+import {
+  ACHIEVEMENT_METRIC_DEFINITIONS,
+  achievementRequirementsSchema,
+  getAchievementProgress,
+  type AchievementEvaluationSummary,
+  type AchievementEvent,
+  type AchievementProgress,
+  type AchievementRequirements,
+  type AchievementTypeInput,
+  type AchievementTypeSummary,
+  type EmployeeAchievementStatus,
+} from '@shared/achievements';
+import type { AchievementType, InsertAchievementType } from '@shared/schema';
+
+// Seeded when the table is empty; these replace the checks that used to be hard-coded in GamificationService
+const DEFAULT_ACHIEVEMENTS: InsertAchievementType[] = [
+  {
+    name: 'Streak Master',
+    description: 'Check in 7 days in a row',
+    category: 'consistency',
+    iconName: 'Flame',
+    iconColor: '#f97316',
+    pointsAwarded: 250,
+    tokenReward: '10.00000000',
+    rarity: 'common',
+    requirements: { conditions: [{ metric: 'checkin_streak', threshold: 7 }] } satisfies AchievementRequirements,
+  },
+  {
+    name: 'Job Master',
+    description: 'Complete 5 jobs',
+    category: 'milestones',
+    iconName: 'Trophy',
+    iconColor: '#eab308',
+    pointsAwarded: 500,
+    tokenReward: '25.00000000',
+    rarity: 'common',
+    requirements: { conditions: [{ metric: 'jobs_completed', threshold: 5 }] } satisfies AchievementRequirements,
+  },
+  {
+    name: 'Customer Champion',
+    description: 'Earn a 5-star customer review',
+    category: 'quality',
+    iconName: 'Star',
+    iconColor: '#3b82f6',
+    pointsAwarded: 750,
+    tokenReward: '50.00000000',
+    rarity: 'rare',
+    requirements: { conditions: [{ metric: 'review_count', threshold: 1, minRating: 5 }] } satisfies AchievementRequirements,
+  },
+  {
+    name: 'Speed Demon',
+    description: 'Finish 10 jobs on time',
+    category: 'performance',
+    iconName: 'Zap',
+    iconColor: '#8b5cf6',
+    pointsAwarded: 300,
+    tokenReward: '15.00000000',
+    rarity: 'rare',
+    requirements: { conditions: [{ metric: 'on_time_completions', threshold: 10 }] } satisfies AchievementRequirements,
+  },
+];
+
+// Stored requirements that don't match the schema are skipped rather than evaluated
+function parseRequirements(type: AchievementType): AchievementRequirements | null {
+  const parsed = achievementRequirementsSchema.safeParse(type.requirements);
+  return parsed.success ? parsed.data : null;
+}
+
+function toInsert(input: AchievementTypeInput): InsertAchievementType {
+  return { ...input, tokenReward: input.tokenReward.toFixed(8) };
+}
+
+function toSummary(type: AchievementType, earnedCount: number): AchievementTypeSummary {
+  return {
+    id: type.id,
+    name: type.name,
+    description: type.description,
+    category: type.category,
+    iconName: type.iconName,
+    iconColor: type.iconColor,
+    rarity: type.rarity,
+    pointsAwarded: type.pointsAwarded,
+    tokenReward: type.tokenReward || '0',
+    isActive: type.isActive,
+    requirements: parseRequirements(type),
+    earnedCount,
+    createdAt: type.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Evaluates achievements from the rules stored in achievement_types.requirements.
+ *
+ * Gamification events (job completions, reviews, check-ins, mining claims) re-check the active
+ * achievements whose conditions depend on that event. Each condition's metric is measured from the
+ * underlying records, so evaluating an employee later gives the same answer as evaluating them live;
+ * that is what makes retroactive evaluation work. Unearned achievements keep their latest progress
+ * on the employee_achievements row, and earning one is a compare-and-set so it's only rewarded once.
+ */
+class AchievementService {
+  async initializeDefaultAchievements(): Promise<void> {
+    const existing = await storage.getAchievementTypes();
+    if (existing.length > 0) return;
+    for (const achievement of DEFAULT_ACHIEVEMENTS) {
+      await storage.createAchievementType(achievement);
+    }
+    console.log(`✅ Seeded ${DEFAULT_ACHIEVEMENTS.length} default achievements`);
+  }
+
+  /**
+   * Re-check a user's active achievements, or only those that depend on `event`. Returns the achievements
+   * this call awarded. Never throws, so a failed evaluation can't undo the activity that triggered it
+   */
+  async evaluate(userId: string, event?: AchievementEvent, onlyTypeId?: string): Promise<AchievementType[]> {
+    try {
+      const [types, statuses] = await Promise.all([
+        storage.getAchievementTypes(true),
+        storage.getEmployeeAchievementStatuses(userId),
+      ]);
+      const earned = new Set(statuses.filter((status) => status.earnedAt).map((status) => status.achievementTypeId));
+      const now = new Date();
+      const awarded: AchievementType[] = [];
+
+      for (const type of types) {
+        if (earned.has(type.id) || (onlyTypeId && type.id !== onlyTypeId)) continue;
+        const requirements = parseRequirements(type);
+        if (!requirements) {
+          console.warn(`Achievement ${type.name} has invalid requirements - skipping`);
+          continue;
+        }
+        if (event && !requirements.conditions.some((condition) => ACHIEVEMENT_METRIC_DEFINITIONS[condition.metric].events.includes(event))) {
+          continue;
+        }
+
+        const values = await Promise.all(requirements.conditions.map((condition) => storage.measureAchievementCondition(userId, condition, now)));
+        const progress = getAchievementProgress(requirements, values, now);
+        if (progress.percent < 100) {
+          await storage.saveAchievementProgress(userId, type.id, progress);
+          continue;
+        }
+
+        const achievement = await storage.earnAchievement(userId, type.id, progress);
+        if (achievement) {
+          await this.rewardAchievement(userId, type, progress);
+          awarded.push(type);
+        }
+      }
+      return awarded;
+    } catch (error) {
+      console.error(`Error evaluating achievements for ${userId}:`, error);
+      return [];
+    }
+  }
+
+  // Evaluate everyone with gamification stats, e.g. after adding an achievement or changing its rules
+  async evaluateExisting(achievementTypeId?: string): Promise<AchievementEvaluationSummary> {
+    const userIds = await storage.getAchievementCandidateIds();
+    let achievementsAwarded = 0;
+    for (const userId of userIds) {
+      achievementsAwarded += (await this.evaluate(userId, undefined, achievementTypeId)).length;
+    }
+    console.log(`🏆 Retroactive achievement evaluation: ${achievementsAwarded} awarded across ${userIds.length} employees`);
+    return { employeesEvaluated: userIds.length, achievementsAwarded };
+  }
+
+  async getAchievementTypes(): Promise<AchievementTypeSummary[]> {
+    const [types, counts] = await Promise.all([storage.getAchievementTypes(), storage.getAchievementEarnedCounts()]);
+    return types.map((type) => toSummary(type, counts[type.id] || 0));
+  }
+
+  // Throws AchievementError when the name is taken
+  async createAchievementType(input: AchievementTypeInput): Promise<AchievementTypeSummary> {
+    const created = await storage.createAchievementType(toInsert(input));
+    return toSummary(created, 0);
+  }
+
+  // Throws AchievementError when the new name is taken. Employees who already earned it keep it
+  async updateAchievementType(id: string, input: AchievementTypeInput): Promise<AchievementTypeSummary | undefined> {
+    const updated = await storage.updateAchievementType(id, toInsert(input));
+    if (!updated) return undefined;
+    const counts = await storage.getAchievementEarnedCounts();
+    return toSummary(updated, counts[id] || 0);
+  }
+
+  // Active achievements with the user's progress, plus any retired ones they earned
+  async getEmployeeAchievements(userId: string): Promise<EmployeeAchievementStatus[]> {
+    const [types, statuses] = await Promise.all([storage.getAchievementTypes(), storage.getEmployeeAchievementStatuses(userId)]);
+    const byType = new Map(statuses.map((status) => [status.achievementTypeId, status]));
+    return types
+      .filter((type) => type.isActive || byType.get(type.id)?.earnedAt)
+      .map((type) => {
+        const status = byType.get(type.id);
+        return {
+          achievementTypeId: type.id,
+          name: type.name,
+          description: type.description,
+          iconName: type.iconName,
+          iconColor: type.iconColor,
+          rarity: type.rarity,
+          earnedAt: status?.earnedAt?.toISOString() ?? null,
+          progress: (status?.progress as AchievementProgress | null) ?? null,
+        };
+      });
+  }
+
+  // Points, tokens (vested like other achievement rewards) and a notification for a newly earned achievement
+  private async rewardAchievement(userId: string, type: AchievementType, progress: AchievementProgress): Promise<void> {
+    const tokenReward = parseFloat(type.tokenReward || '0');
+    if (type.pointsAwarded > 0) {
+      await storage.createPointTransaction({
+        userId,
+        points: type.pointsAwarded,
+        transactionType: 'achievement',
+        relatedEntityType: 'achievement',
+        relatedEntityId: type.id,
+        description: `Achievement unlocked: ${type.name}`,
+        metadata: { progress },
+      });
+    }
+
+    if (tokenReward > 0) {
+      const distribution = await vestingService.grantReward(userId, 'achievement', type.id, tokenReward, `Achievement reward: ${type.name}`);
+      if (!distribution.success) {
+        console.warn(`Achievement ${type.name} earned by ${userId} but its token reward failed: ${distribution.error}`);
+      }
+    }
+
+    const stats = await storage.getEmployeeStats(userId);
+    if (stats) {
+      await storage.updateEmployeeStats(userId, {
+        totalPoints: (stats.totalPoints || 0) + type.pointsAwarded,
+        totalEarnedTokens: (parseFloat(stats.totalEarnedTokens || '0') + tokenReward).toFixed(8),
+      });
+    }
+
+    await notificationService.createNotification({
+      userId,
+      type: 'system_alert',
+      title: `Achievement unlocked: ${type.name}`,
+      message: tokenReward > 0
+        ? `${type.description}. You earned ${type.pointsAwarded} points and ${tokenReward.toLocaleString()} JCMOVES`
+        : `${type.description}. You earned ${type.pointsAwarded} points`,
+      data: { achievementTypeId: type.id },
+    });
+  }
+}
+
+// Export singleton instance
+export const achievementService = new AchievementService();
+achievementService.initializeDefaultAchievements().catch(console.error);
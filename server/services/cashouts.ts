@@ -0,0 +1,508 @@
+import { createHash, randomUUID } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { storage } from '../storage';
+import { priceOracle } from './price-oracle';
+import { notificationService } from './notification';
+import { EncryptionService } from './encryption';
+import { getPayoutProvider, getPayoutProviderForMethod, type PayoutStatusUpdate } from './payout-providers';
+import { CASHOUT_CONFIG, PRICE_ORACLE_CONFIG } from '../constants';
+import { LedgerError } from '@shared/ledger';
+import { PriceOracleError } from '@shared/price-oracle';
+import {
+  CashoutError,
+  getCashoutLimitWindows,
+  PAYOUT_METHODS,
+  PAYOUT_METHOD_LABELS,
+  type CashoutEligibility,
+  type CashoutErrorCode,
+  type CashoutRequestInput,
+  type CashoutReview,
+  type CashoutStatus,
+  type CashoutSummary,
+  type KycReview,
+  type KycStatus,
+  type KycSubmission,
+  type PayoutDetails,
+  type PayoutMethod,
+} from '@shared/cashouts';
+import type { CashoutRequest, User } from '@shared/schema';
+
+export interface CashoutResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: CashoutErrorCode;
+}
+
+// A pending identity verification as shown to an admin, with the submission decrypted
+export interface KycQueueItem {
+  userId: string;
+  email: string | null;
+  name: string;
+  submittedAt: Date | null;
+  details: KycSubmission | null;
+}
+
+// What a reviewer sees: the masked request plus who asked for it
+export type CashoutQueueItem = CashoutSummary & { userEmail: string | null; userName: string };
+
+function maskDestination(method: PayoutMethod, details: PayoutDetails): string {
+  const maskEmail = (email: string) => {
+    const [local, domain] = email.split('@');
+    return domain ? `${local[0]}•••@${domain}` : `${email.slice(0, 4)}•••${email.slice(-4)}`;
+  };
+  if (method === 'ach' && 'accountNumber' in details) return `${details.bankName} ••••${details.accountNumber.slice(-4)}`;
+  if ('email' in details) return maskEmail(details.email);
+  if ('recipient' in details) return maskEmail(details.recipient);
+  return PAYOUT_METHOD_LABELS[method];
+}
+
+// Hashes only what identifies where the money goes, so a renamed bank account isn't a new destination
+function hashDestination(method: PayoutMethod, details: PayoutDetails): string {
+  const key = 'accountNumber' in details
+    ? `${details.routingNumber}:${details.accountNumber}`
+    : 'email' in details ? details.email.toLowerCase() : details.recipient.toLowerCase();
+  return createHash('sha256').update(`${method}:${key}`).digest('hex');
+}
+
+function toSummary(request: CashoutRequest): CashoutSummary {
+  return {
+    id: request.id,
+    userId: request.userId,
+    tokenAmount: request.tokenAmount,
+    cashAmount: request.cashAmount,
+    payoutMethod: request.payoutMethod as PayoutMethod,
+    payoutProvider: request.payoutProvider,
+    payoutDestination: request.payoutDestination || PAYOUT_METHOD_LABELS[request.payoutMethod as PayoutMethod],
+    status: request.status as CashoutStatus,
+    flagReasons: (request.flagReasons as string[] | null) || [],
+    failureReason: request.failureReason,
+    reviewNotes: request.reviewNotes,
+    createdAt: request.createdAt.toISOString(),
+    processedDate: request.processedDate?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Turns JCMOVES into cash for users who have passed identity verification.
+ *
+ * A request is priced by the oracle, checked against the user's daily and monthly USD limits, and
+ * its tokens move from the user's rewards into cashout_clearing in the same transaction. Large,
+ * first-time, new-destination and new-account requests wait in 'pending_review' for an admin; the
+ * rest are sent to the method's payout provider straight away. Provider webhooks and a status
+ * poller settle them: completed payouts buy the tokens back into the reserve, failed or rejected
+ * ones refund the user. A submission whose outcome is unknown is held for review, never retried blind.
+ */
+class CashoutService {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  async getEligibility(userId: string): Promise<CashoutEligibility> {
+    const user = await storage.getUser(userId);
+    const wallet = await storage.getWalletAccount(userId);
+    const { dayStart, monthStart } = getCashoutLimitWindows();
+    const usage = await storage.getCashoutUsage(userId, dayStart, monthStart);
+    const price = await priceOracle.getPrice({ maxStalenessMs: PRICE_ORACLE_CONFIG.DISPLAY_MAX_STALENESS_MS }).catch(() => null);
+
+    return {
+      kycStatus: (user?.kycStatus || 'unverified') as KycStatus,
+      kycRejectionReason: user?.kycRejectionReason ?? null,
+      availableTokens: wallet?.tokenBalance || '0',
+      priceUsd: price?.price ?? null,
+      minTokens: CASHOUT_CONFIG.MIN_TOKENS,
+      methods: PAYOUT_METHODS.filter((method) => !!getPayoutProviderForMethod(method)),
+      limits: { ...this.getLimits(user), ...usage },
+    };
+  }
+
+  async submitKyc(userId: string, submission: KycSubmission): Promise<CashoutResult<{ kycStatus: KycStatus }>> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return { success: false, code: 'not_found', error: 'User not found' };
+    }
+    if (user.kycStatus === 'pending' || user.kycStatus === 'verified') {
+      return { success: false, code: 'invalid_status', error: user.kycStatus === 'verified' ? 'Your identity is already verified' : 'Your details are already being reviewed' };
+    }
+
+    await storage.submitKyc(userId, await EncryptionService.encrypt(JSON.stringify(submission)));
+    await notificationService.notifyBusinessOwners(
+      'system_alert',
+      'Identity verification submitted',
+      `${user.firstName || user.email || 'A user'} submitted identity details for cash-outs`,
+      { userId },
+    );
+    return { success: true, data: { kycStatus: 'pending' } };
+  }
+
+  async getKycQueue(): Promise<KycQueueItem[]> {
+    const pending = await storage.getUsersByKycStatus('pending');
+    return await Promise.all(pending.map(async (user) => ({
+      userId: user.id,
+      email: user.email,
+      name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username || user.id,
+      submittedAt: user.kycSubmittedAt,
+      details: user.kycDetails
+        ? await EncryptionService.decrypt(user.kycDetails).then((json) => JSON.parse(json) as KycSubmission).catch(() => null)
+        : null,
+    })));
+  }
+
+  async reviewKyc(userId: string, review: KycReview, reviewerId: string): Promise<CashoutResult<User>> {
+    const limit = (value: number | null | undefined) => value === undefined ? undefined : value === null ? null : value.toFixed(2);
+    const reviewed = await storage.reviewKyc(userId, {
+      kycStatus: review.decision === 'verify' ? 'verified' : 'rejected',
+      kycReviewedBy: reviewerId,
+      kycRejectionReason: review.decision === 'reject' ? review.reason : null,
+      cashoutDailyLimitUsd: limit(review.dailyLimitUsd),
+      cashoutMonthlyLimitUsd: limit(review.monthlyLimitUsd),
+    });
+    if (!reviewed) {
+      return { success: false, code: 'invalid_status', error: 'No pending verification for this user' };
+    }
+
+    await notificationService.createNotification({
+      userId,
+      type: 'system_alert',
+      title: review.decision === 'verify' ? 'Identity verified' : 'Identity verification rejected',
+      message: review.decision === 'verify'
+        ? 'You can now cash out your JCMOVES'
+        : `Your identity details couldn't be verified: ${review.reason}. You can submit them again.`,
+      data: { kycStatus: reviewed.kycStatus },
+    });
+    return { success: true, data: reviewed };
+  }
+
+  async requestCashout(userId: string, input: CashoutRequestInput): Promise<CashoutResult<CashoutSummary>> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return { success: false, code: 'not_found', error: 'User not found' };
+    }
+    if (user.kycStatus !== 'verified') {
+      return { success: false, code: 'kyc_required', error: 'Verify your identity before cashing out' };
+    }
+    if (input.tokenAmount < CASHOUT_CONFIG.MIN_TOKENS) {
+      return { success: false, code: 'invalid_amount', error: `Minimum cash-out is ${CASHOUT_CONFIG.MIN_TOKENS} JCMOVES` };
+    }
+    const provider = getPayoutProviderForMethod(input.method);
+    if (!provider) {
+      return { success: false, code: 'method_unavailable', error: `${PAYOUT_METHOD_LABELS[input.method]} cash-outs are not available right now` };
+    }
+
+    const id = randomUUID();
+    let price;
+    try {
+      price = await priceOracle.recordPrice('cashout', { relatedEntityType: 'cashout_request', relatedEntityId: id });
+    } catch (error) {
+      if (error instanceof PriceOracleError) {
+        return { success: false, code: 'price_unavailable', error: 'Cash-outs are paused until a current JCMOVES price is available' };
+      }
+      throw error;
+    }
+
+    // Rounded down to the cent so the user is never paid more than the tokens are worth
+    const cashAmount = Math.floor(input.tokenAmount * price.price * 100) / 100;
+    if (cashAmount < CASHOUT_CONFIG.MIN_USD) {
+      return { success: false, code: 'invalid_amount', error: `Cash-outs must be worth at least $${CASHOUT_CONFIG.MIN_USD.toFixed(2)}` };
+    }
+
+    const destinationHash = hashDestination(input.method, input.details);
+    const flagReasons = await this.getFlagReasons(user, cashAmount, destinationHash);
+    const { dayStart, monthStart } = getCashoutLimitWindows();
+
+    try {
+      const queued = await storage.queueCashoutRequest(
+        {
+          id,
+          userId,
+          tokenAmount: input.tokenAmount.toFixed(8),
+          cashAmount: cashAmount.toFixed(2),
+          conversionRate: (1 / price.price).toFixed(8),
+          bankDetails: await EncryptionService.encrypt(JSON.stringify(input.details)),
+          payoutMethod: input.method,
+          payoutProvider: provider.name,
+          payoutDestination: maskDestination(input.method, input.details),
+          payoutDestinationHash: destinationHash,
+          priceHistoryId: price.priceHistoryId,
+          flagReasons,
+        },
+        flagReasons.length ? 'pending_review' : 'pending',
+        { ...this.getLimits(user), dayStart, monthStart },
+      );
+
+      if (flagReasons.length) {
+        await notificationService.notifyBusinessOwners(
+          'system_alert',
+          'Cash-out waiting for review',
+          `$${queued.cashAmount} ${PAYOUT_METHOD_LABELS[input.method]} cash-out: ${flagReasons.join('; ')}`,
+          { cashoutId: id, userId },
+        );
+      } else {
+        // Sent in the background; the poller picks it up if this attempt is interrupted
+        this.processCashout(id).catch((error) => {
+          console.error(`Error processing cash-out ${id}:`, error);
+        });
+      }
+      return { success: true, data: toSummary(queued) };
+    } catch (error) {
+      if (error instanceof CashoutError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      if (error instanceof LedgerError && error.code === 'insufficient_balance') {
+        return { success: false, code: 'insufficient_balance', error: 'Insufficient balance' };
+      }
+      throw error;
+    }
+  }
+
+  async getUserCashouts(userId: string): Promise<CashoutSummary[]> {
+    const requests = await storage.getCashoutRequests({ userId });
+    return requests.map(toSummary);
+  }
+
+  async getCashoutQueue(statuses: CashoutStatus[]): Promise<CashoutQueueItem[]> {
+    const requests = await storage.getCashoutRequests({ statuses, limit: 100 });
+    const users = new Map<string, User | undefined>();
+    for (const userId of Array.from(new Set(requests.map((request) => request.userId)))) {
+      users.set(userId, await storage.getUser(userId));
+    }
+    return requests.map((request) => {
+      const user = users.get(request.userId);
+      return {
+        ...toSummary(request),
+        userEmail: user?.email ?? null,
+        userName: [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.username || request.userId,
+      };
+    });
+  }
+
+  async reviewCashout(id: string, review: CashoutReview, reviewerId: string): Promise<CashoutResult<CashoutSummary>> {
+    const request = await storage.getCashoutRequest(id);
+    if (!request) {
+      return { success: false, code: 'not_found', error: 'Cash-out not found' };
+    }
+    const reviewed = { reviewedBy: reviewerId, reviewedAt: new Date(), reviewNotes: review.notes || null };
+
+    if (review.decision === 'reject') {
+      const rejected = await storage.settleCashoutRequest(id, {
+        fromStatuses: ['pending_review'],
+        status: 'cancelled',
+        changes: { ...reviewed, failureReason: review.notes },
+      });
+      if (!rejected) {
+        return { success: false, code: 'invalid_status', error: 'Cash-out is not waiting for review' };
+      }
+      await this.notifyUser(rejected, 'Cash-out rejected', `Your $${rejected.cashAmount} cash-out was rejected and ${rejected.tokenAmount} JCMOVES returned to your balance: ${review.notes}`);
+      return { success: true, data: toSummary(rejected) };
+    }
+
+    const approved = await storage.updateCashoutRequest(id, { ...reviewed, status: 'pending' }, ['pending_review']);
+    if (!approved) {
+      return { success: false, code: 'invalid_status', error: 'Cash-out is not waiting for review' };
+    }
+    this.processCashout(id).catch((error) => {
+      console.error(`Error processing cash-out ${id}:`, error);
+    });
+    return { success: true, data: toSummary(approved) };
+  }
+
+  /**
+   * Send a pending cash-out to its provider. Each step is a compare-and-set on the status, so a
+   * request claimed by another worker is left alone
+   */
+  async processCashout(id: string): Promise<CashoutRequest | undefined> {
+    const claimed = await storage.updateCashoutRequest(id, { status: 'submitting', submittedAt: new Date() }, ['pending']);
+    if (!claimed) {
+      return await storage.getCashoutRequest(id);
+    }
+
+    const provider = getPayoutProvider(claimed.payoutProvider);
+    let submitted;
+    try {
+      if (!provider?.isConfigured()) {
+        throw new Error(`Payout provider ${claimed.payoutProvider} is not configured`);
+      }
+      const details = JSON.parse(await EncryptionService.decrypt(claimed.bankDetails as string)) as PayoutDetails;
+      submitted = await provider.submit({
+        cashoutId: claimed.id,
+        userId: claimed.userId,
+        amountUsd: parseFloat(claimed.cashAmount),
+        method: claimed.payoutMethod as PayoutMethod,
+        details,
+      });
+    } catch (error) {
+      // The payout may or may not have gone out, so an admin checks the provider before approving or rejecting
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Cash-out ${id} submission failed:`, error);
+      return await this.holdForReview(claimed, `Submission to ${claimed.payoutProvider} failed: ${message}`);
+    }
+
+    const processing = await storage.updateCashoutRequest(id, { status: 'processing', externalTransactionId: submitted.externalId }, ['submitting']);
+    if (!processing) {
+      return await storage.getCashoutRequest(id);
+    }
+    console.log(`💸 Cash-out ${id} sent via ${claimed.payoutProvider} as ${submitted.externalId}`);
+    return await this.applyStatus(processing, submitted);
+  }
+
+  // Apply each status change a provider webhook reports. Throws CashoutError for a bad signature or payload
+  async handleWebhook(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<number> {
+    const provider = getPayoutProvider(providerName);
+    if (!provider?.parseWebhook) {
+      throw new CashoutError('not_found', `No webhook for payout provider ${providerName}`);
+    }
+
+    let events;
+    try {
+      events = await provider.parseWebhook(rawBody, headers);
+    } catch (error) {
+      console.error(`Rejected ${providerName} payout webhook:`, error);
+      throw new CashoutError('invalid_webhook', 'Invalid webhook');
+    }
+
+    let applied = 0;
+    for (const event of events) {
+      const request = event.externalId
+        ? await storage.getCashoutRequestByExternalId(provider.name, event.externalId)
+        : undefined;
+      const matched = request || (event.cashoutId ? await storage.getCashoutRequest(event.cashoutId) : undefined);
+      if (!matched || matched.payoutProvider !== provider.name) {
+        console.warn(`${providerName} payout webhook for unknown cash-out ${event.externalId || event.cashoutId}`);
+        continue;
+      }
+      await this.applyStatus(matched, event);
+      applied++;
+    }
+    return applied;
+  }
+
+  /**
+   * One pass of the cash-out job: hold submissions interrupted mid-flight for review, send pending
+   * requests, and ask providers about ones still processing in case a webhook was missed
+   */
+  async processQueue(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+    try {
+      const staleBefore = Date.now() - CASHOUT_CONFIG.STALE_SUBMITTING_MS;
+      const interrupted = await storage.getCashoutRequests({ statuses: ['submitting'], limit: CASHOUT_CONFIG.BATCH_SIZE });
+      for (const request of interrupted) {
+        if (request.updatedAt.getTime() < staleBefore) {
+          await this.holdForReview(request, 'Submission was interrupted; check the provider before approving');
+        }
+      }
+
+      const pending = await storage.getCashoutRequests({ statuses: ['pending'], limit: CASHOUT_CONFIG.BATCH_SIZE });
+      for (const request of pending) {
+        await this.processCashout(request.id).catch((error) => {
+          console.error(`Error processing cash-out ${request.id}:`, error);
+        });
+      }
+
+      const processing = await storage.getCashoutRequests({ statuses: ['processing'], limit: CASHOUT_CONFIG.BATCH_SIZE });
+      for (const request of processing) {
+        const provider = getPayoutProvider(request.payoutProvider);
+        if (!provider?.getStatus || !request.externalTransactionId) continue;
+        await provider.getStatus(request.externalTransactionId)
+          .then((update) => this.applyStatus(request, update))
+          .catch((error) => {
+            console.error(`Error checking cash-out ${request.id}:`, error);
+          });
+      }
+    } catch (error) {
+      console.error('Error processing cash-out queue:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  start(): void {
+    if (this.pollInterval) return;
+    this.pollInterval = setInterval(() => {
+      this.processQueue();
+    }, CASHOUT_CONFIG.POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private getLimits(user: User | undefined): { dailyUsd: number; monthlyUsd: number } {
+    return {
+      dailyUsd: user?.cashoutDailyLimitUsd ? parseFloat(user.cashoutDailyLimitUsd) : CASHOUT_CONFIG.DAILY_LIMIT_USD,
+      monthlyUsd: user?.cashoutMonthlyLimitUsd ? parseFloat(user.cashoutMonthlyLimitUsd) : CASHOUT_CONFIG.MONTHLY_LIMIT_USD,
+    };
+  }
+
+  private async getFlagReasons(user: User, cashAmount: number, destinationHash: string): Promise<string[]> {
+    const reasons: string[] = [];
+    if (cashAmount >= CASHOUT_CONFIG.REVIEW_THRESHOLD_USD) {
+      reasons.push(`Amount is $${CASHOUT_CONFIG.REVIEW_THRESHOLD_USD} or more`);
+    }
+    const destinations = await storage.getCompletedCashoutDestinations(user.id);
+    if (!destinations.length) {
+      reasons.push('First cash-out');
+    } else if (!destinations.includes(destinationHash)) {
+      reasons.push('New payout destination');
+    }
+    const accountAgeDays = user.createdAt ? (Date.now() - new Date(user.createdAt).getTime()) / 86400000 : 0;
+    if (accountAgeDays < CASHOUT_CONFIG.NEW_ACCOUNT_DAYS) {
+      reasons.push(`Account is less than ${CASHOUT_CONFIG.NEW_ACCOUNT_DAYS} days old`);
+    }
+    return reasons;
+  }
+
+  private async holdForReview(request: CashoutRequest, reason: string): Promise<CashoutRequest | undefined> {
+    const flagReasons = [...((request.flagReasons as string[] | null) || []), reason];
+    const held = await storage.updateCashoutRequest(request.id, { status: 'pending_review', flagReasons }, ['submitting']);
+    if (held) {
+      await notificationService.notifyBusinessOwners(
+        'system_alert',
+        'Cash-out needs attention',
+        `$${held.cashAmount} cash-out ${held.id}: ${reason}`,
+        { cashoutId: held.id, userId: held.userId },
+      );
+    }
+    return held;
+  }
+
+  private async applyStatus(request: CashoutRequest, update: PayoutStatusUpdate): Promise<CashoutRequest | undefined> {
+    if (update.status === 'processing') {
+      return request;
+    }
+
+    const settled = await storage.settleCashoutRequest(request.id, {
+      fromStatuses: ['submitting', 'processing'],
+      status: update.status,
+      changes: update.status === 'failed' ? { failureReason: update.failureReason || 'Payout failed' } : undefined,
+    });
+    if (!settled) {
+      return await storage.getCashoutRequest(request.id);
+    }
+
+    if (settled.status === 'completed') {
+      console.log(`✅ Cash-out ${settled.id} completed: $${settled.cashAmount} to ${settled.payoutDestination}`);
+      await this.notifyUser(settled, 'Cash-out sent', `$${settled.cashAmount} is on its way to ${settled.payoutDestination}`);
+    } else {
+      console.warn(`❌ Cash-out ${settled.id} failed: ${settled.failureReason}`);
+      await this.notifyUser(settled, 'Cash-out failed', `Your $${settled.cashAmount} cash-out failed (${settled.failureReason}) and ${settled.tokenAmount} JCMOVES returned to your balance`);
+    }
+    return settled;
+  }
+
+  private async notifyUser(request: CashoutRequest, title: string, message: string): Promise<void> {
+    await notificationService.createNotification({
+      userId: request.userId,
+      type: 'system_alert',
+      title,
+      message,
+      data: { cashoutId: request.id, status: request.status },
+    });
+  }
+}
+
+// Export singleton instance
+export const cashoutService = new CashoutService();
+cashoutService.start();
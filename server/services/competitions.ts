@@ -0,0 +1,426 @@
+import { storage, type NewCompetitionResult } from '../storage';
+import { treasuryService } from './treasury';
+import { notificationService } from './notification';
+import { COMPETITION_CONFIG } from '../constants';
+import { userRewardsAccount } from '@shared/ledger';
+import {
+  COMPETITION_METRIC_LABELS,
+  combineCompetitionScores,
+  CompetitionError,
+  getCompetitionPhase,
+  getCompetitionPrizes,
+  rankCompetitionEntrants,
+  type CompetitionInput,
+  type CompetitionMetric,
+  type CompetitionMode,
+  type CompetitionPayoutStatus,
+  type CompetitionStandingEntry,
+  type CompetitionSummary,
+} from '@shared/competitions';
+import type { Competition, CompetitionResult, CompetitionTeam, User } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TeamWithMembers = CompetitionTeam & { memberIds: string[] };
+
+// A ranked individual or team, with the prize its place wins
+interface RankedEntrant {
+  id: string;
+  score: number;
+  sampleSize: number;
+  rank: number;
+  memberIds: string[];
+  prizeTokens: number;
+}
+
+function ordinal(rank: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const remainder = rank % 100;
+  return rank + (suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]);
+}
+
+function displayName(user: User | undefined): string {
+  if (!user) return 'Former employee';
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username || 'Employee';
+}
+
+function getPrizeSplits(competition: Competition): number[] {
+  return Array.isArray(competition.prizeSplits)
+    ? competition.prizeSplits.filter((split): split is number => typeof split === 'number')
+    : [];
+}
+
+function getPayoutStatus(results: CompetitionResult[]): CompetitionPayoutStatus {
+  const prized = results.filter((result) => parseFloat(result.prizeTokens) > 0);
+  if (!prized.length) return 'none';
+  if (prized.every((result) => result.paidAt)) return 'paid';
+  return prized.some((result) => result.payoutError && !result.payoutClaimedAt && !result.paidAt) ? 'failed' : 'pending';
+}
+
+/**
+ * Runs time-boxed competitions between employees, or between teams of them.
+ *
+ * While a competition is live its standings are calculated on request from the same records the rest of
+ * gamification uses (job rewards, reviews, invoices, point transactions). Once it ends, the close-out job
+ * ranks it one last time (see rankCompetitionEntrants), freezes the ranks in competition_results and flips
+ * the competition to completed in the same transaction, so it's only closed once. Prizes are split from the
+ * pool by place - a team's prize equally between its members - and paid from the treasury the same way as
+ * leaderboard prizes: claimed on the result row first, retried when the distribution fails, and settled
+ * against the reserve if a payout was interrupted.
+ */
+class CompetitionService {
+  private closeInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  /**
+   * Create a competition. Throws CompetitionError when a team member isn't an active employee or the
+   * treasury can't currently cover the prize pool
+   */
+  async create(input: CompetitionInput, createdBy: string): Promise<CompetitionSummary> {
+    const teams = input.teams || [];
+    for (const userId of teams.flatMap((team) => team.memberIds)) {
+      const user = await storage.getUser(userId);
+      if (!user || user.role === 'customer' || user.status === 'removed') {
+        throw new CompetitionError('invalid_participants', `${user ? displayName(user) : 'A selected employee'} can't take part in competitions`);
+      }
+    }
+
+    if (input.prizePoolTokens > 0) {
+      const funding = await treasuryService.canDistributeTokens(input.prizePoolTokens);
+      if (!funding.canDistribute) {
+        throw new CompetitionError('insufficient_treasury', funding.reason || "The treasury can't cover this prize pool");
+      }
+    }
+
+    const mode: CompetitionMode = teams.length ? 'team' : 'individual';
+    const competition = await storage.createCompetition(
+      {
+        name: input.name,
+        description: input.description || null,
+        metric: input.metric,
+        mode,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        prizePoolTokens: input.prizePoolTokens.toFixed(8),
+        prizeSplits: input.prizeSplits,
+        minScore: input.minScore !== undefined ? input.minScore.toString() : null,
+        minReviews: input.minReviews ?? null,
+        createdBy,
+      },
+      teams,
+    );
+    console.log(`🏆 Created ${mode} competition "${competition.name}" (${competition.metric}) ending ${competition.endsAt.toISOString()}`);
+    return this.toSummary(competition, null);
+  }
+
+  async getCompetition(id: string, viewerId: string | null): Promise<CompetitionSummary> {
+    const competition = await storage.getCompetition(id);
+    if (!competition) throw new CompetitionError('not_found', 'Competition not found');
+    return this.toSummary(competition, viewerId);
+  }
+
+  // Upcoming and live competitions, and ones that finished in the last COMPETITION_CONFIG.RECENT_DAYS
+  async getForEmployee(userId: string): Promise<CompetitionSummary[]> {
+    const open = await storage.getOpenCompetitions();
+    const recent = await storage.getCompetitionsSince(new Date(Date.now() - COMPETITION_CONFIG.RECENT_DAYS * DAY_MS));
+    const summaries: CompetitionSummary[] = [];
+    for (const competition of [...open, ...recent]) {
+      summaries.push(await this.toSummary(competition, userId));
+    }
+    return summaries;
+  }
+
+  async getAll(): Promise<CompetitionSummary[]> {
+    const summaries: CompetitionSummary[] = [];
+    for (const competition of await storage.getCompetitions(COMPETITION_CONFIG.LIST_LIMIT)) {
+      summaries.push(await this.toSummary(competition, null));
+    }
+    return summaries;
+  }
+
+  async cancel(id: string, cancelledBy: string): Promise<CompetitionSummary> {
+    const competition = await storage.getCompetition(id);
+    if (!competition) throw new CompetitionError('not_found', 'Competition not found');
+
+    const cancelled = await storage.cancelCompetition(id, cancelledBy);
+    if (!cancelled) {
+      throw new CompetitionError('already_closed', 'Only competitions that haven\'t been closed can be cancelled');
+    }
+    return this.toSummary(cancelled, null);
+  }
+
+  /**
+   * Freeze a finished competition's results and pay its prizes. Throws CompetitionError if it hasn't ended
+   * or was already closed or cancelled. closedBy is null when the scheduled job closes it
+   */
+  async closeCompetition(id: string, closedBy: string | null): Promise<CompetitionSummary> {
+    const competition = await storage.getCompetition(id);
+    if (!competition) throw new CompetitionError('not_found', 'Competition not found');
+    if (competition.status !== 'open') {
+      throw new CompetitionError('already_closed', 'This competition has already been closed or cancelled');
+    }
+    if (competition.endsAt > new Date()) {
+      throw new CompetitionError('not_ended', `"${competition.name}" hasn't ended yet`);
+    }
+
+    const teams = await storage.getCompetitionTeams(id);
+    const ranked = await this.rankCompetition(competition, teams);
+    const results: NewCompetitionResult[] = ranked.flatMap((entrant) => {
+      const share = Math.floor((entrant.prizeTokens / entrant.memberIds.length) * 100000000) / 100000000;
+      return entrant.memberIds.map((userId) => ({
+        userId,
+        teamId: competition.mode === 'team' ? entrant.id : null,
+        rank: entrant.rank,
+        score: entrant.score.toFixed(4),
+        prizeTokens: share.toFixed(8),
+      }));
+    });
+
+    const closed = await storage.closeCompetition(id, closedBy, results);
+    const totalPrizeTokens = closed.results.reduce((sum, result) => sum + parseFloat(result.prizeTokens), 0);
+    console.log(`🏁 Closed competition "${competition.name}": ${ranked.length} placed, ${totalPrizeTokens} JCMOVES in prizes`);
+
+    const winners = ranked.filter((entrant) => entrant.prizeTokens > 0);
+    if (winners.length) {
+      const names = await this.getEntrantNames(competition, teams);
+      await notificationService.notifyBusinessOwners(
+        'system_alert',
+        `Competition finished: ${competition.name}`,
+        winners.map((entrant) => `${ordinal(entrant.rank)} ${names.get(entrant.id) || displayName(undefined)}`).join(', '),
+        { competitionId: id },
+      );
+    }
+
+    await this.payOutstandingPrizes();
+    return this.toSummary(closed.competition, null);
+  }
+
+  // Pay every completed competition's unpaid prizes, including ones that failed on an earlier run
+  async payOutstandingPrizes(): Promise<void> {
+    const results = await storage.getUnpaidCompetitionPrizes(COMPETITION_CONFIG.BATCH_SIZE);
+    for (const result of results) {
+      await this.payPrize(result).catch((error) => {
+        console.error(`Error paying competition prize ${result.id}:`, error);
+      });
+    }
+  }
+
+  /**
+   * One pass of the close-out job: settle payouts interrupted mid-flight, close competitions that have
+   * ended, then pay outstanding prizes
+   */
+  async processCloseOuts(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+    try {
+      const stale = await storage.getStaleCompetitionPayouts(new Date(Date.now() - COMPETITION_CONFIG.STALE_PAYOUT_MS), COMPETITION_CONFIG.BATCH_SIZE);
+      for (const result of stale) {
+        // The claim is only ever cleared or completed, never retried blind, so a paid prize can't be paid again
+        const transactionId = await storage.findCompetitionPayoutTransaction(result.id);
+        if (transactionId) {
+          const completed = await storage.completeCompetitionPayout(result.id, transactionId);
+          if (completed) await this.notifyWinner(completed);
+        } else {
+          await storage.cancelCompetitionPayout(result.id, result.payoutError);
+        }
+      }
+
+      for (const competition of await storage.getEndedOpenCompetitions(new Date(), COMPETITION_CONFIG.BATCH_SIZE)) {
+        try {
+          await this.closeCompetition(competition.id, null);
+        } catch (error) {
+          // Another server closed it first, or an admin cancelled it; its prizes are still paid below
+          if (!(error instanceof CompetitionError && error.code === 'already_closed')) {
+            console.error(`Error closing competition ${competition.id}:`, error);
+          }
+        }
+      }
+
+      await this.payOutstandingPrizes();
+    } catch (error) {
+      console.error('Error processing competition close-out:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  start(): void {
+    if (this.closeInterval) return;
+    this.closeInterval = setInterval(() => {
+      this.processCloseOuts();
+    }, COMPETITION_CONFIG.CLOSE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.closeInterval) {
+      clearInterval(this.closeInterval);
+      this.closeInterval = null;
+    }
+  }
+
+  // Current standings with the prize each place would win. Individual competitions are open to every
+  // employee; team competitions only count the teams' members
+  private async rankCompetition(competition: Competition, teams: TeamWithMembers[]): Promise<RankedEntrant[]> {
+    const metric = competition.metric as CompetitionMetric;
+    const memberIds = competition.mode === 'team' ? teams.flatMap((team) => team.memberIds) : null;
+    const scores = await storage.getCompetitionScores(metric, competition.startsAt, competition.endsAt, memberIds);
+
+    const entrants = competition.mode === 'team'
+      ? teams.map((team) => ({
+        id: team.id,
+        memberIds: team.memberIds,
+        ...combineCompetitionScores(metric, scores.filter((score) => team.memberIds.includes(score.userId))),
+      }))
+      : scores.map((score) => ({ id: score.userId, memberIds: [score.userId], score: score.score, sampleSize: score.sampleSize }));
+
+    const prizes = getCompetitionPrizes(parseFloat(competition.prizePoolTokens), getPrizeSplits(competition));
+    const ranked = rankCompetitionEntrants(entrants, {
+      minScore: competition.minScore !== null ? parseFloat(competition.minScore) : null,
+      minReviews: competition.minReviews,
+    });
+    return ranked.map((entrant) => ({ ...entrant, prizeTokens: prizes[entrant.rank - 1] || 0 }));
+  }
+
+  private async toSummary(competition: Competition, viewerId: string | null): Promise<CompetitionSummary> {
+    const phase = getCompetitionPhase(competition);
+    const teams = await storage.getCompetitionTeams(competition.id);
+    const names = await this.getEntrantNames(competition, teams);
+    const memberNames = (memberIds: string[]) => competition.mode === 'team'
+      ? memberIds.map((userId) => ({ userId, name: names.get(userId) || displayName(undefined) }))
+      : [];
+
+    let standings: CompetitionStandingEntry[] = [];
+    if (phase === 'completed') {
+      const results = await storage.getCompetitionResults(competition.id);
+      const groups = new Map<string, CompetitionResult[]>();
+      for (const result of results) {
+        const key = result.teamId || result.userId;
+        groups.set(key, [...(groups.get(key) || []), result]);
+      }
+      standings = Array.from(groups.entries()).map(([id, group]) => ({
+        rank: group[0].rank,
+        id,
+        name: names.get(id) || displayName(undefined),
+        score: parseFloat(group[0].score),
+        members: memberNames(group.map((result) => result.userId)),
+        prizeTokens: group.reduce((sum, result) => sum + parseFloat(result.prizeTokens), 0).toFixed(8),
+        payoutStatus: getPayoutStatus(group),
+      }));
+      standings.sort((a, b) => a.rank - b.rank);
+    } else if (phase === 'live' || phase === 'finalizing') {
+      const ranked = await this.rankCompetition(competition, teams);
+      const rankedNames = await this.getNames(ranked.flatMap((entrant) => entrant.memberIds).filter((userId) => !names.has(userId)));
+      rankedNames.forEach((name, userId) => names.set(userId, name));
+      standings = ranked.map((entrant) => ({
+        rank: entrant.rank,
+        id: entrant.id,
+        name: names.get(entrant.id) || displayName(undefined),
+        score: entrant.score,
+        members: memberNames(entrant.memberIds),
+        prizeTokens: entrant.prizeTokens.toFixed(8),
+        payoutStatus: entrant.prizeTokens > 0 ? 'pending' : 'none',
+      }));
+    }
+
+    let myEntry: CompetitionSummary['myEntry'] = null;
+    if (viewerId) {
+      const team = teams.find((candidate) => candidate.memberIds.includes(viewerId));
+      const entry = standings.find((candidate) => candidate.id === (team ? team.id : viewerId));
+      if (entry) {
+        myEntry = { rank: entry.rank, score: entry.score, teamName: team?.name || null };
+      } else if (team) {
+        myEntry = { rank: null, score: 0, teamName: team.name };
+      }
+    }
+
+    return {
+      id: competition.id,
+      name: competition.name,
+      description: competition.description,
+      metric: competition.metric as CompetitionMetric,
+      mode: competition.mode as CompetitionMode,
+      phase,
+      startsAt: competition.startsAt.toISOString(),
+      endsAt: competition.endsAt.toISOString(),
+      prizePoolTokens: competition.prizePoolTokens,
+      prizeSplits: getPrizeSplits(competition),
+      minScore: competition.minScore !== null ? parseFloat(competition.minScore) : null,
+      minReviews: competition.minReviews,
+      closedAt: competition.closedAt?.toISOString() || null,
+      teams: teams.map((team) => ({ id: team.id, name: team.name, memberCount: team.memberIds.length })),
+      standings,
+      myEntry,
+    };
+  }
+
+  // Claim, distribute and complete one prize. A failed distribution clears the claim so the next run retries
+  private async payPrize(result: CompetitionResult): Promise<void> {
+    const claimed = await storage.claimCompetitionPayout(result.id);
+    if (!claimed) return;
+
+    const competition = await storage.getCompetition(result.competitionId);
+    const competitionName = competition?.name || 'Competition';
+    const amount = parseFloat(result.prizeTokens);
+    const distribution = await treasuryService.distributeTokens(
+      amount,
+      `${competitionName} - ${ordinal(result.rank)} place prize`,
+      'competition_prize',
+      result.id,
+      userRewardsAccount(result.userId),
+    );
+
+    if (!distribution.success) {
+      await storage.cancelCompetitionPayout(result.id, distribution.error || 'Distribution failed');
+      console.warn(`Competition prize ${result.id} for ${result.userId} deferred: ${distribution.error}`);
+      // Only the first failure is reported; later runs keep retrying quietly
+      if (!result.payoutError) {
+        await notificationService.notifyBusinessOwners(
+          'system_alert',
+          'Competition prize payout failed',
+          `The ${ordinal(result.rank)} place prize of ${amount} JCMOVES for "${competitionName}" couldn't be paid and will be retried: ${distribution.error}`,
+          { competitionId: result.competitionId, competitionResultId: result.id },
+        );
+      }
+      return;
+    }
+
+    const completed = await storage.completeCompetitionPayout(result.id, distribution.transactionId);
+    if (completed) await this.notifyWinner(completed);
+  }
+
+  private async notifyWinner(result: CompetitionResult): Promise<void> {
+    const competition = await storage.getCompetition(result.competitionId);
+    const competitionName = competition?.name || 'a competition';
+    await notificationService.createNotification({
+      userId: result.userId,
+      type: 'system_alert',
+      title: `You placed ${ordinal(result.rank)} in ${competitionName}!`,
+      message: `${result.teamId ? 'Your team' : 'You'} finished ${ordinal(result.rank)} with a score of ${parseFloat(result.score).toLocaleString()} and won ${parseFloat(result.prizeTokens).toLocaleString()} JCMOVES`,
+      data: { competitionId: result.competitionId, competitionResultId: result.id },
+    });
+  }
+
+  // Display names by entrant ID: team names in team competitions, plus every team member's name
+  private async getEntrantNames(competition: Competition, teams: TeamWithMembers[]): Promise<Map<string, string>> {
+    const names = await this.getNames(teams.flatMap((team) => team.memberIds));
+    if (competition.mode === 'team') {
+      for (const team of teams) names.set(team.id, team.name);
+    } else {
+      const results = competition.status === 'completed' ? await storage.getCompetitionResults(competition.id) : [];
+      (await this.getNames(results.map((result) => result.userId))).forEach((name, userId) => names.set(userId, name));
+    }
+    return names;
+  }
+
+  private async getNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const id of Array.from(new Set(userIds))) {
+      names.set(id, displayName(await storage.getUser(id)));
+    }
+    return names;
+  }
+}
+
+// Export singleton instance
+export const competitionService = new CompetitionService();
+competitionService.start();
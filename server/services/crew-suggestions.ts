@@ -1,6 +1,23 @@
 import { db } from "../db";
-import { leads, users, reviews } from "@shared/schema";
+import { leads, users, reviews, type Lead } from "@shared/schema";
 import { eq, and, sql, inArray } from "drizzle-orm";
+import { getLeadSpecialItems } from "@shared/pricing";
+import { getLeadScheduleWindow, type ScheduleConflict, type ScheduleWindow } from "@shared/scheduling";
+import {
+  CREW_BASE_SCORE,
+  CREW_SCORE_FACTOR_LABELS,
+  CREW_SKILL_LABELS,
+  DEFAULT_CREW_SCORING_WEIGHTS,
+  crewScoringWeightsSchema,
+  getRequiredCrewSkills,
+  type CrewScoreFactor,
+  type CrewScoreFactorKey,
+  type CrewScoringWeights,
+  type CrewSkill,
+} from "@shared/crew-scoring";
+import { CREW_SUGGESTION_CONFIG } from "../constants";
+import { schedulingService } from "./scheduling";
+import { routingService } from "./routing";
 
 export interface EmployeeWithStats {
   id: string;
@@ -12,12 +29,17 @@ export interface EmployeeWithStats {
   averageRating: number;
   totalReviews: number;
   isApproved: boolean;
+  homeBaseAddress: string | null;
+  crewSkills: string[];
 }
 
 export interface CrewSuggestion {
   employee: EmployeeWithStats;
   score: number;
   reason: string;
+  factors: CrewScoreFactor[];
+  scheduleConflicts: ScheduleConflict[];
+  distanceMiles: number | null;
 }
 
 export interface CrewAssignmentSuggestion {
@@ -26,14 +48,54 @@ export interface CrewAssignmentSuggestion {
   crewSize: number;
   suggestions: CrewSuggestion[];
   recommendedCrew: CrewSuggestion[];
+  weights: CrewScoringWeights;
+  requiredSkills: CrewSkill[];
+  scheduleWindow: ScheduleWindow | null;
 }
 
+// History of two employees on the same completed jobs
+interface CrewPairStats {
+  sharedJobs: number;
+  averageRating: number | null;
+}
+
+// Everything about the job and the other candidates that an employee's score depends on
+interface CrewScoringContext {
+  weights: CrewScoringWeights;
+  scheduleWindow: ScheduleWindow | null;
+  scheduleConflicts: ScheduleConflict[];
+  distanceMiles: number | null;
+  requiredSkills: CrewSkill[];
+  partners: { id: string; name: string }[];
+  pairStats: Map<string, CrewPairStats>;
+}
+
+const ACTIVE_JOB_STATUSES = ['confirmed', 'accepted', 'in_progress'];
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
 class CrewSuggestionService {
   /**
-   * Get all employees with their current workload and performance stats
+   * Factor weights, with any CREW_SUGGESTION_WEIGHTS override applied on top of the defaults
+   */
+  getWeights(): CrewScoringWeights {
+    if (!CREW_SUGGESTION_CONFIG.WEIGHTS_OVERRIDE) {
+      return DEFAULT_CREW_SCORING_WEIGHTS;
+    }
+
+    try {
+      const override = crewScoringWeightsSchema.partial().parse(JSON.parse(CREW_SUGGESTION_CONFIG.WEIGHTS_OVERRIDE));
+      return { ...DEFAULT_CREW_SCORING_WEIGHTS, ...override };
+    } catch (error) {
+      console.error("Invalid CREW_SUGGESTION_WEIGHTS, using default weights:", error);
+      return DEFAULT_CREW_SCORING_WEIGHTS;
+    }
+  }
+
+  /**
+   * Get all employees with their current workload and performance stats in one query
    */
   async getEmployeesWithStats(): Promise<EmployeeWithStats[]> {
-    // Get all approved employees
     const employees = await db
       .select({
         id: users.id,
@@ -41,6 +103,22 @@ class CrewSuggestionService {
         lastName: users.lastName,
         email: users.email,
         isApproved: users.isApproved,
+        homeBaseAddress: users.homeBaseAddress,
+        crewSkills: users.crewSkills,
+        activeJobsCount: sql<string>`(
+          SELECT COUNT(*) FROM ${leads}
+          WHERE ${users.id} = ANY(${leads.crewMembers}) AND ${inArray(leads.status, ACTIVE_JOB_STATUSES)}
+        )`,
+        completedJobsCount: sql<string>`(
+          SELECT COUNT(*) FROM ${leads}
+          WHERE ${users.id} = ANY(${leads.crewMembers}) AND ${leads.status} = 'completed'
+        )`,
+        averageRating: sql<string>`(
+          SELECT COALESCE(AVG(${reviews.rating}), 0) FROM ${reviews} WHERE ${reviews.employeeId} = ${users.id}
+        )`,
+        totalReviews: sql<string>`(
+          SELECT COUNT(*) FROM ${reviews} WHERE ${reviews.employeeId} = ${users.id}
+        )`,
       })
       .from(users)
       .where(and(
@@ -48,110 +126,140 @@ class CrewSuggestionService {
         eq(users.isApproved, true)
       ));
 
-    // Get stats for each employee
-    const employeesWithStats: EmployeeWithStats[] = await Promise.all(
-      employees.map(async (employee) => {
-        // Count active jobs (jobs where employee is in crewMembers array)
-        const activeJobs = await db
-          .select({ count: sql<number>`count(*)` })
-          .from(leads)
-          .where(
-            and(
-              sql`${employee.id} = ANY(${leads.crewMembers})`,
-              inArray(leads.status, ['confirmed', 'accepted', 'in_progress'])
-            )
-          );
-
-        // Count completed jobs
-        const completedJobs = await db
-          .select({ count: sql<number>`count(*)` })
-          .from(leads)
-          .where(
-            and(
-              sql`${employee.id} = ANY(${leads.crewMembers})`,
-              eq(leads.status, 'completed')
-            )
-          );
-
-        // Get review statistics
-        const reviewStats = await db
-          .select({
-            avgRating: sql<number>`COALESCE(AVG(${reviews.rating}), 0)`,
-            totalReviews: sql<number>`COUNT(*)`,
-          })
-          .from(reviews)
-          .where(eq(reviews.employeeId, employee.id));
-
-        return {
-          id: employee.id,
-          firstName: employee.firstName || '',
-          lastName: employee.lastName || '',
-          email: employee.email || '',
-          activeJobsCount: Number(activeJobs[0]?.count || 0),
-          completedJobsCount: Number(completedJobs[0]?.count || 0),
-          averageRating: Number(reviewStats[0]?.avgRating || 0),
-          totalReviews: Number(reviewStats[0]?.totalReviews || 0),
-          isApproved: employee.isApproved,
-        };
-      })
-    );
+    return employees.map((employee) => ({
+      id: employee.id,
+      firstName: employee.firstName || '',
+      lastName: employee.lastName || '',
+      email: employee.email || '',
+      activeJobsCount: Number(employee.activeJobsCount || 0),
+      completedJobsCount: Number(employee.completedJobsCount || 0),
+      averageRating: Number(employee.averageRating || 0),
+      totalReviews: Number(employee.totalReviews || 0),
+      isApproved: employee.isApproved,
+      homeBaseAddress: employee.homeBaseAddress,
+      crewSkills: employee.crewSkills || [],
+    }));
+  }
+
+  /**
+   * Shared completed jobs and their average review rating for every pair of employees who have crewed together
+   */
+  async getCrewPairStats(): Promise<Map<string, CrewPairStats>> {
+    const results = await db.execute(sql`
+      SELECT a.member AS employee_a, b.member AS employee_b,
+        COUNT(DISTINCT l.id) AS shared_jobs,
+        AVG(r.rating) AS average_rating
+      FROM ${leads} l
+      CROSS JOIN LATERAL unnest(l.crew_members) AS a(member)
+      CROSS JOIN LATERAL unnest(l.crew_members) AS b(member)
+      LEFT JOIN ${reviews} r ON r.lead_id = l.id
+      WHERE l.status = 'completed' AND a.member < b.member
+      GROUP BY a.member, b.member
+    `);
 
-    return employeesWithStats;
+    return new Map(results.rows.map((row: any) => [
+      pairKey(row.employee_a, row.employee_b),
+      {
+        sharedJobs: Number(row.shared_jobs),
+        averageRating: row.average_rating !== null ? parseFloat(row.average_rating) : null,
+      },
+    ]));
   }
 
   /**
-   * Calculate a suggestion score for an employee based on job requirements
+   * Calculate a suggestion score for an employee, with each factor's contribution
    */
   calculateEmployeeScore(
     employee: EmployeeWithStats,
-    jobType: string,
-    hasSpecialItems: boolean
-  ): { score: number; reason: string } {
-    let score = 100;
-    const reasons: string[] = [];
-
-    // Factor 1: Workload balance (prefer employees with fewer active jobs)
-    // Penalty: -15 points per active job
-    const workloadPenalty = employee.activeJobsCount * 15;
-    score -= workloadPenalty;
-    if (employee.activeJobsCount === 0) {
-      reasons.push("Available");
-    } else if (employee.activeJobsCount === 1) {
-      reasons.push("1 active job");
+    context: CrewScoringContext
+  ): { score: number; reason: string; factors: CrewScoreFactor[] } {
+    const factors: CrewScoreFactor[] = [];
+    const addFactor = (key: CrewScoreFactorKey, value: number, detail: string) => {
+      const weight = context.weights[key];
+      factors.push({
+        key,
+        label: CREW_SCORE_FACTOR_LABELS[key],
+        points: Math.round(Math.max(-1, Math.min(1, value)) * weight * 10) / 10,
+        maxPoints: weight,
+        detail,
+      });
+    };
+
+    // Workload: fewer active jobs is better
+    const workload = Math.min(employee.activeJobsCount, CREW_SUGGESTION_CONFIG.MAX_ACTIVE_JOBS);
+    addFactor('workload', -workload / CREW_SUGGESTION_CONFIG.MAX_ACTIVE_JOBS,
+      employee.activeJobsCount === 0 ? "No active jobs" : `${employee.activeJobsCount} active job${employee.activeJobsCount === 1 ? '' : 's'}`);
+
+    // Rating: average customer review, no credit until reviewed
+    addFactor('rating', employee.totalReviews > 0 ? employee.averageRating / 5 : 0,
+      employee.totalReviews > 0
+        ? `${employee.averageRating.toFixed(1)}★ from ${employee.totalReviews} review${employee.totalReviews === 1 ? '' : 's'}`
+        : "No reviews yet");
+
+    // Experience: completed jobs, capped
+    addFactor('experience', Math.min(employee.completedJobsCount / CREW_SUGGESTION_CONFIG.FULL_EXPERIENCE_JOBS, 1),
+      employee.completedJobsCount > 0 ? `${employee.completedJobsCount} jobs completed` : "New employee");
+
+    // Schedule: double bookings and approved time off rule an employee out, softer conflicts only cost points
+    const blocking = context.scheduleConflicts.filter((conflict) => conflict.severity === 'block');
+    const warnings = context.scheduleConflicts.filter((conflict) => conflict.severity === 'warn');
+    if (!context.scheduleWindow) {
+      addFactor('schedule', 0, "Job has no date yet");
+    } else if (blocking.length > 0) {
+      addFactor('schedule', -1, blocking.map((conflict) => conflict.message).join("; "));
+    } else if (warnings.length > 0) {
+      addFactor('schedule', -Math.min(warnings.length * 0.25, 0.75), warnings.map((conflict) => conflict.message).join("; "));
     } else {
-      reasons.push(`${employee.activeJobsCount} active jobs`);
+      addFactor('schedule', 0, `Free on ${context.scheduleWindow.start.toLocaleDateString()}`);
     }
 
-    // Factor 2: Performance rating (bonus for high ratings)
-    // Bonus: +20 points for 5-star average, scaled down for lower ratings
-    if (employee.totalReviews > 0) {
-      const ratingBonus = (employee.averageRating / 5) * 20;
-      score += ratingBonus;
-      reasons.push(`${employee.averageRating.toFixed(1)}★ rating`);
+    // Distance: home base to the pickup address, full credit next door and full penalty at MAX_DISTANCE_MILES
+    if (context.distanceMiles === null) {
+      addFactor('distance', 0, employee.homeBaseAddress ? "Couldn't locate home base" : "No home base on file");
+    } else {
+      addFactor('distance', 1 - 2 * Math.min(context.distanceMiles / CREW_SUGGESTION_CONFIG.MAX_DISTANCE_MILES, 1),
+        `${context.distanceMiles} mi from home base`);
     }
 
-    // Factor 3: Experience (bonus for completed jobs)
-    // Bonus: +2 points per completed job, capped at +30
-    const experienceBonus = Math.min(employee.completedJobsCount * 2, 30);
-    score += experienceBonus;
-    if (employee.completedJobsCount > 0) {
-      reasons.push(`${employee.completedJobsCount} jobs completed`);
+    // Skills: share of the job's special item skills the employee is certified for
+    if (context.requiredSkills.length === 0) {
+      addFactor('skills', 0, "No special items");
     } else {
-      reasons.push("New employee");
+      const held = context.requiredSkills.filter((skill) => employee.crewSkills.includes(skill));
+      const missing = context.requiredSkills.filter((skill) => !employee.crewSkills.includes(skill));
+      addFactor('skills', (2 * held.length) / context.requiredSkills.length - 1,
+        missing.length === 0
+          ? `Certified for ${held.map((skill) => CREW_SKILL_LABELS[skill]).join(", ")}`
+          : `Not certified for ${missing.map((skill) => CREW_SKILL_LABELS[skill]).join(", ")}`);
     }
 
-    // Factor 4: Special items handling (bonus for experienced employees)
-    if (hasSpecialItems && employee.completedJobsCount >= 5) {
-      score += 10;
-      reasons.push("Experienced with special items");
+    // Synergy: completed jobs with the rest of the crew, discounted by how those jobs were reviewed
+    if (context.partners.length === 0) {
+      addFactor('synergy', 0, "No crew picked yet");
+    } else {
+      let total = 0;
+      const workedWith: string[] = [];
+      for (const partner of context.partners) {
+        const stats = context.pairStats.get(pairKey(employee.id, partner.id));
+        if (!stats) continue;
+        const ratingFactor = stats.averageRating !== null ? stats.averageRating / 5 : 0.8;
+        total += Math.min(stats.sharedJobs / CREW_SUGGESTION_CONFIG.FULL_SYNERGY_JOBS, 1) * ratingFactor;
+        workedWith.push(`${partner.name} (${stats.sharedJobs})`);
+      }
+      addFactor('synergy', total / context.partners.length,
+        workedWith.length > 0 ? `Worked with ${workedWith.join(", ")}` : "Hasn't worked with this crew");
     }
 
-    // Ensure score doesn't go below 0
-    score = Math.max(0, score);
+    const score = Math.max(0, CREW_BASE_SCORE + factors.reduce((sum, factor) => sum + factor.points, 0));
+    const reason = factors
+      .filter((factor) => factor.points !== 0 || (factor.key === 'schedule' && context.scheduleWindow))
+      .map((factor) => factor.detail)
+      .join(" • ");
 
     return {
       score: Math.round(score),
-      reason: reasons.join(" • "),
+      reason: reason || "No history yet",
+      factors,
     };
   }
 
@@ -169,45 +277,73 @@ class CrewSuggestionService {
       return null;
     }
 
-    // Determine if job has special items requiring extra care
-    const hasSpecialItems = !!(
-      job.hasHotTub ||
-      job.hasHeavySafe ||
-      job.hasPoolTable ||
-      job.hasPiano
-    );
-
-    // Get all employees with their stats
+    const weights = this.getWeights();
     const employees = await this.getEmployeesWithStats();
+    const pickupAddress = job.confirmedFromAddress || job.fromAddress;
 
-    // Calculate scores for each employee
-    const suggestions: CrewSuggestion[] = employees.map((employee) => {
-      const { score, reason } = this.calculateEmployeeScore(
-        employee,
-        job.serviceType || 'residential',
-        hasSpecialItems
-      );
-
-      return {
-        employee,
-        score,
-        reason,
-      };
-    });
-
-    // Sort by score (highest first)
-    suggestions.sort((a, b) => b.score - a.score);
-
-    // Select top employees for recommended crew based on crew size
+    const [scheduleConflicts, pairStats, distances] = await Promise.all([
+      schedulingService.checkConflictsForEmployees(job, employees.map((employee) => employee.id)),
+      this.getCrewPairStats(),
+      Promise.all(employees.map((employee) => routingService.estimateDistanceMiles(employee.homeBaseAddress, pickupAddress))),
+    ]);
+
+    const scheduleWindow = getLeadScheduleWindow(job);
+    const requiredSkills = getRequiredCrewSkills(getLeadSpecialItems(job).map((item) => item.type));
+    const names = new Map(employees.map((employee) => [employee.id, `${employee.firstName} ${employee.lastName}`.trim() || employee.email]));
+    const existingCrew = this.getExistingCrew(job).filter((id) => names.has(id));
+
+    const suggest = (employee: EmployeeWithStats, index: number, partnerIds: string[]): CrewSuggestion => {
+      const conflicts = scheduleConflicts.get(employee.id) || [];
+      const { score, reason, factors } = this.calculateEmployeeScore(employee, {
+        weights,
+        scheduleWindow,
+        scheduleConflicts: conflicts,
+        distanceMiles: distances[index],
+        requiredSkills,
+        partners: partnerIds
+          .filter((id) => id !== employee.id)
+          .map((id) => ({ id, name: names.get(id) || 'Unknown employee' })),
+        pairStats,
+      });
+      return { employee, score, reason, factors, scheduleConflicts: conflicts, distanceMiles: distances[index] };
+    };
+
+    // Build the recommended crew one pick at a time so synergy is scored against whoever is already on it.
+    // Employees who are double-booked or on approved time off are never recommended
     const crewSize = job.crewSize || 2;
-    const recommendedCrew = suggestions.slice(0, crewSize);
+    const picked: string[] = [];
+    const recommendedCrew: CrewSuggestion[] = [];
+    const isBlocked = (employeeId: string) =>
+      (scheduleConflicts.get(employeeId) || []).some((conflict) => conflict.severity === 'block');
+
+    while (recommendedCrew.length < crewSize) {
+      let best: CrewSuggestion | null = null;
+      for (let index = 0; index < employees.length; index++) {
+        const employee = employees[index];
+        if (picked.includes(employee.id) || isBlocked(employee.id)) continue;
+        const candidate = suggest(employee, index, [...existingCrew, ...picked]);
+        if (!best || candidate.score > best.score) best = candidate;
+      }
+      if (!best) break;
+      picked.push(best.employee.id);
+      recommendedCrew.push(best);
+    }
+
+    // Everyone else is scored against the recommended crew
+    const others = employees
+      .map((employee, index) => picked.includes(employee.id) ? null : suggest(employee, index, [...existingCrew, ...picked]))
+      .filter((suggestion): suggestion is CrewSuggestion => suggestion !== null)
+      .sort((a, b) => b.score - a.score);
 
     return {
       jobId: job.id,
       jobType: job.serviceType || 'Unknown',
       crewSize,
-      suggestions,
+      suggestions: [...recommendedCrew, ...others],
       recommendedCrew,
+      weights,
+      requiredSkills,
+      scheduleWindow,
     };
   }
 
@@ -221,6 +357,11 @@ class CrewSuggestionService {
 
     return suggestions.filter((s): s is CrewAssignmentSuggestion => s !== null);
   }
+
+  // Employees already on the job, whose synergy with each candidate counts
+  private getExistingCrew(job: Lead): string[] {
+    return Array.from(new Set([...(job.crewMembers || []), ...(job.acceptedByEmployees || [])]));
+  }
 }
 
 export const crewSuggestionService = new CrewSuggestionService();
@@ -1,4 +1,7 @@
 import { storage } from "../storage";
+import { priceOracle } from "./price-oracle";
+import { PRICE_ORACLE_CONFIG } from "../constants";
+import type { PriceSnapshot } from "@shared/price-oracle";
 
 // JCMOVES Token Configuration
 export const JCMOVES_CONFIG = {
@@ -8,9 +11,6 @@ export const JCMOVES_CONFIG = {
   // API endpoints
   DEXSCREENER_API: 'https://api.dexscreener.com/latest/dex/tokens',
   BACKUP_API: 'https://api.moonshot.cc/token/v1/solana', // Moonshot API v1
-  // Price caching
-  PRICE_CACHE_TTL: 30 * 1000, // 30 seconds
-  MAX_PRICE_AGE: 5 * 60 * 1000, // 5 minutes max age
   // Volatility management
   MAX_PRICE_CHANGE_PERCENT: 50, // Maximum 50% price change before alerts
   PRICE_SMOOTHING_FACTOR: 0.1, // Exponential moving average factor
@@ -32,7 +32,7 @@ export interface TokenMarketData {
 export interface PricePoint {
   timestamp: number;
   price: number;
-  source: 'dexscreener' | 'moonshot' | 'fallback';
+  source: string; // 'oracle' or 'manual'
 }
 
 export interface TokenBalance {
@@ -52,150 +52,55 @@ export interface CryptoPortfolio {
 }
 
 class CryptoService {
-  private priceCache: Map<string, { price: number; timestamp: number; data: TokenMarketData }> = new Map();
   private priceHistory: PricePoint[] = [];
   private smoothedPrice: number = 0;
+  private lastAggregatedAt: string | null = null;
   
   /**
-   * Get current JCMOVES token price from multiple sources
+   * Get current JCMOVES token price from the price oracle. For display and estimates only: anything that
+   * moves value prices through priceOracle.recordPrice, which applies the strict staleness rule
    */
   async getCurrentPrice(): Promise<{ price: number; source: string; marketData?: TokenMarketData }> {
-    const cacheKey = JCMOVES_CONFIG.TOKEN_ADDRESS;
-    const cached = this.priceCache.get(cacheKey);
-    
-    // Return cached price if still fresh
-    if (cached && (Date.now() - cached.timestamp) < JCMOVES_CONFIG.PRICE_CACHE_TTL) {
-      return { price: cached.price, source: 'cache', marketData: cached.data };
-    }
-    
-    // Try DexScreener API first
-    try {
-      const dexData = await this.fetchFromDexScreener();
-      if (dexData) {
-        this.updatePriceCache(dexData);
-        this.addToPriceHistory(dexData.priceUsd, 'dexscreener');
-        return { price: dexData.priceUsd, source: 'dexscreener', marketData: dexData };
-      }
-    } catch (error) {
-      console.warn('DexScreener API failed:', error);
-    }
-    
-    // Fallback to Moonshot API
-    try {
-      const moonshotData = await this.fetchFromMoonshot();
-      if (moonshotData) {
-        this.updatePriceCache(moonshotData);
-        this.addToPriceHistory(moonshotData.priceUsd, 'moonshot');
-        return { price: moonshotData.priceUsd, source: 'moonshot', marketData: moonshotData };
-      }
-    } catch (error) {
-      console.warn('Moonshot API failed:', error);
-    }
-    
-    // Use cached price if available (even if stale)
-    if (cached) {
-      console.warn('Using stale cached price for JCMOVES');
-      return { price: cached.price, source: 'cache_stale', marketData: cached.data };
-    }
-    
-    // Emergency fallback to fixed price if all APIs fail
-    console.error('All price APIs failed, using emergency fallback price');
-    const fallbackPrice = 0.000005034116; // Real Moonshot price fallback
-    this.addToPriceHistory(fallbackPrice, 'fallback');
-    return { price: fallbackPrice, source: 'fallback' };
-  }
-  
-  /**
-   * Fetch JCMOVES data from DexScreener API
-   */
-  private async fetchFromDexScreener(): Promise<TokenMarketData | null> {
-    const url = `${JCMOVES_CONFIG.DEXSCREENER_API}/${JCMOVES_CONFIG.TOKEN_ADDRESS}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'JC-ON-THE-MOVE/1.0',
-      },
-      signal: AbortSignal.timeout(10000), // 10 second timeout
-    });
-    
-    if (!response.ok) {
-      throw new Error(`DexScreener API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
-    // DexScreener returns pairs array
-    if (!data.pairs || !data.pairs[0]) {
-      return null;
+    const { price, snapshot } = await priceOracle.getPrice({ maxStalenessMs: PRICE_ORACLE_CONFIG.DISPLAY_MAX_STALENESS_MS });
+    const source = snapshot.method === 'manual' ? 'manual' : 'oracle';
+
+    // Only new aggregates feed the volatility history and the smoothed price
+    if (snapshot.aggregatedAt !== this.lastAggregatedAt && snapshot.method === 'median') {
+      this.lastAggregatedAt = snapshot.aggregatedAt;
+      this.updateSmoothedPrice(price);
+      this.addToPriceHistory(price, source);
     }
-    
-    const pair = data.pairs[0];
-    return {
-      address: JCMOVES_CONFIG.TOKEN_ADDRESS,
-      symbol: pair.baseToken?.symbol || 'JCMOVES',
-      name: pair.baseToken?.name || 'JCMOVES Token',
-      priceUsd: parseFloat(pair.priceUsd) || 0,
-      priceChange24h: parseFloat(pair.priceChange?.h24) || 0,
-      volume24h: parseFloat(pair.volume?.h24) || 0,
-      marketCap: parseFloat(pair.marketCap) || 0,
-      liquidity: parseFloat(pair.liquidity?.usd) || 0,
-      fdv: parseFloat(pair.fdv) || 0,
-      timestamp: Date.now(),
-    };
+
+    return { price, source, marketData: this.toMarketData(snapshot) };
   }
   
-  /**
-   * Fetch JCMOVES data from Moonshot API (backup)
-   */
-  private async fetchFromMoonshot(): Promise<TokenMarketData | null> {
-    const url = `${JCMOVES_CONFIG.BACKUP_API}/${JCMOVES_CONFIG.TOKEN_ADDRESS}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'JC-ON-THE-MOVE/1.0',
-      },
-      signal: AbortSignal.timeout(10000),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Moonshot API error: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
+  // Market stats from the first accepted quote that carried them
+  private toMarketData(snapshot: PriceSnapshot): TokenMarketData | undefined {
+    const quote = snapshot.quotes.find((candidate) => candidate.status === 'accepted' && candidate.marketData);
+    if (!quote?.marketData) return undefined;
+    const data = quote.marketData;
     return {
       address: JCMOVES_CONFIG.TOKEN_ADDRESS,
-      symbol: data.symbol || 'JCMOVES',
-      name: data.name || 'JCMOVES Token',
-      priceUsd: parseFloat(data.price) || parseFloat(data.priceUsd) || 0,
-      priceChange24h: parseFloat(data.priceChange24h) || 0,
-      volume24h: parseFloat(data.volume24h) || 0,
-      marketCap: parseFloat(data.marketCap) || 0,
-      liquidity: parseFloat(data.liquidity) || 0,
-      fdv: parseFloat(data.fdv) || 0,
-      timestamp: Date.now(),
+      symbol: String(data.symbol || 'JCMOVES'),
+      name: String(data.name || 'JCMOVES Token'),
+      priceUsd: snapshot.priceUsd,
+      priceChange24h: Number(data.priceChange24h) || 0,
+      volume24h: Number(data.volume24h) || 0,
+      marketCap: Number(data.marketCap) || 0,
+      liquidity: Number(data.liquidity) || 0,
+      fdv: Number(data.fdv) || 0,
+      timestamp: Date.parse(snapshot.aggregatedAt),
     };
   }
   
   /**
-   * Update price cache with market data
+   * Update smoothed price using exponential moving average
    */
-  private updatePriceCache(data: TokenMarketData): void {
-    this.priceCache.set(JCMOVES_CONFIG.TOKEN_ADDRESS, {
-      price: data.priceUsd,
-      timestamp: data.timestamp,
-      data,
-    });
-    
-    // Update smoothed price using exponential moving average
+  private updateSmoothedPrice(price: number): void {
     if (this.smoothedPrice === 0) {
-      this.smoothedPrice = data.priceUsd;
+      this.smoothedPrice = price;
     } else {
-      this.smoothedPrice = (JCMOVES_CONFIG.PRICE_SMOOTHING_FACTOR * data.priceUsd) + 
+      this.smoothedPrice = (JCMOVES_CONFIG.PRICE_SMOOTHING_FACTOR * price) + 
                           ((1 - JCMOVES_CONFIG.PRICE_SMOOTHING_FACTOR) * this.smoothedPrice);
     }
   }
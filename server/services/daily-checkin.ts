@@ -5,6 +5,9 @@ import { dailyCheckins, rewards, walletAccounts, fraudLogs, users } from '@share
 import { rewardsService } from './rewards';
 import { fraudDetectionService } from './fraud-detection';
 import { treasuryService } from './treasury';
+import { priceOracle } from './price-oracle';
+import { PriceOracleError } from '@shared/price-oracle';
+import { userRewardsAccount } from '@shared/ledger';
 
 interface CheckinRequest {
   userId: string;
@@ -104,11 +107,22 @@ export class DailyCheckinService {
       // Calculate current streak
       const streakCount = await this.calculateStreakCount(request.userId);
 
-      // Calculate reward for this check-in
-      const rewardCalc = await rewardsService.calculateDailyReward(streakCount);
+      // Calculate reward for this check-in at a recorded price, refusing rather than using a stale one
+      let price;
+      try {
+        price = await priceOracle.recordPrice('reward', { relatedEntityType: 'daily_checkin', relatedEntityId: request.userId });
+      } catch (error) {
+        if (!(error instanceof PriceOracleError)) throw error;
+        return {
+          success: false,
+          message: 'Daily rewards are temporarily unavailable while the JCMOVES price is being updated. Please try again shortly.',
+          riskScore: fraudCheck.riskScore
+        };
+      }
+      const rewardCalc = await rewardsService.calculateDailyReward(streakCount, price);
 
       // Check treasury funding before distributing reward
-      const canDistribute = await treasuryService.canDistributeTokens(rewardCalc.tokenAmount);
+      const canDistribute = await treasuryService.canDistributeTokens(rewardCalc.tokenAmount, price.price);
       if (!canDistribute.canDistribute) {
         return {
           success: false,
@@ -122,7 +136,9 @@ export class DailyCheckinService {
         rewardCalc.tokenAmount,
         `Daily check-in reward (${streakCount} day streak)`,
         'daily_checkin',
-        request.userId
+        request.userId,
+        userRewardsAccount(request.userId),
+        price
       );
 
       if (!distribution.success) {
@@ -162,33 +178,14 @@ export class DailyCheckinService {
           }
         });
 
-        // Update or create wallet account
-        const existingWallet = await tx
-          .select()
-          .from(walletAccounts)
-          .where(eq(walletAccounts.userId, request.userId))
-          .limit(1);
-
-        if (existingWallet.length > 0) {
-          // Update existing wallet
-          await tx
-            .update(walletAccounts)
-            .set({
-              tokenBalance: sql`${walletAccounts.tokenBalance} + ${rewardCalc.tokenAmount.toString()}`,
-              cashBalance: sql`${walletAccounts.cashBalance} + ${rewardCalc.cashValue.toString()}`,
-              totalEarned: sql`${walletAccounts.totalEarned} + ${rewardCalc.tokenAmount.toString()}`,
-              lastActivity: new Date()
-            })
-            .where(eq(walletAccounts.userId, request.userId));
-        } else {
-          // Create new wallet
-          await tx.insert(walletAccounts).values({
-            userId: request.userId,
-            tokenBalance: rewardCalc.tokenAmount.toString(),
-            cashBalance: rewardCalc.cashValue.toString(),
-            totalEarned: rewardCalc.tokenAmount.toString()
-          });
-        }
+        // The distribution already credited the tokens to the wallet; add the cash value
+        await tx
+          .update(walletAccounts)
+          .set({
+            cashBalance: sql`${walletAccounts.cashBalance} + ${rewardCalc.cashValue.toString()}`,
+            lastActivity: new Date()
+          })
+          .where(eq(walletAccounts.userId, request.userId));
       });
 
       return {
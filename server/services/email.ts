@@ -119,3 +119,30 @@ export function generateContactNotificationEmail(contact: any) {
 
   return { html, text };
 }
+
+export function generateQuoteEmail(lead: any, quote: { versionNumber: number; totalPrice: string; expiresAt: Date }, quoteUrl: string) {
+  const total = parseFloat(quote.totalPrice).toFixed(2);
+  const expires = quote.expiresAt.toLocaleDateString();
+
+  const html = `
+    <h2>Your Quote from JC ON THE MOVE</h2>
+    <p>Hi ${lead.firstName},</p>
+    <p>Thank you for choosing JC ON THE MOVE. Your quote${quote.versionNumber > 1 ? ` (revision ${quote.versionNumber})` : ''} is ready.</p>
+    <p><strong>Total:</strong> $${total}</p>
+    <p><a href="${quoteUrl}">View, accept or decline your quote</a></p>
+    <p>This link expires on ${expires}.</p>
+    <p>If you have any questions, just reply to this email.</p>
+  `;
+
+  const text = `
+    Your Quote from JC ON THE MOVE
+    
+    Hi ${lead.firstName},
+    Thank you for choosing JC ON THE MOVE. Your quote${quote.versionNumber > 1 ? ` (revision ${quote.versionNumber})` : ''} is ready.
+    Total: $${total}
+    View, accept or decline your quote: ${quoteUrl}
+    This link expires on ${expires}.
+  `;
+
+  return { html, text };
+}
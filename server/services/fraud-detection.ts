@@ -24,6 +24,18 @@ interface CheckinAttempt {
   timestamp: Date;
 }
 
+interface TransferAttempt {
+  senderId: string;
+  ipAddress: string;
+  userAgent: string;
+  amount: number;
+  senderBalance: number;
+  senderCreatedAt: Date;
+  recipientCreatedAt: Date;
+  newAccountDays: number;
+  timestamp: Date;
+}
+
 export class FraudDetectionService {
   private suspiciousIPs: Set<string> = new Set();
   private rateLimitMap: Map<string, number[]> = new Map();
@@ -95,6 +107,69 @@ export class FraudDetectionService {
     };
   }
 
+  // Analyze a JCMOVES transfer to another user for signs of a compromised or farming account
+  async analyzeTransferAttempt(attempt: TransferAttempt): Promise<FraudCheckResult> {
+    let riskScore = 0;
+    const reasons: string[] = [];
+
+    const ipRisk = this.checkIPRisk(attempt.ipAddress);
+    riskScore += ipRisk.score;
+    reasons.push(...ipRisk.reasons);
+
+    const uaRisk = this.analyzeUserAgent(attempt.userAgent);
+    riskScore += uaRisk.score;
+    reasons.push(...uaRisk.reasons);
+
+    const timeRisk = this.analyzeTimePattern(attempt.timestamp);
+    riskScore += timeRisk.score;
+    reasons.push(...timeRisk.reasons);
+
+    // Bursts of transfers from one account
+    const now = attempt.timestamp.getTime();
+    const transferKey = `transfer:${attempt.senderId}`;
+    const recentTransfers = (this.rateLimitMap.get(transferKey) || []).filter(time => now - time < 86400000);
+    if (recentTransfers.filter(time => now - time < 3600000).length >= 5) {
+      riskScore += 40;
+      reasons.push('rapid_transfers');
+    }
+    recentTransfers.push(now);
+    this.rateLimitMap.set(transferKey, recentTransfers);
+
+    // Fresh accounts moving tokens on are a common pattern for farmed rewards
+    const newAccountMs = attempt.newAccountDays * 86400000;
+    if (now - attempt.senderCreatedAt.getTime() < newAccountMs) {
+      riskScore += 20;
+      reasons.push('new_sender_account');
+    }
+    if (now - attempt.recipientCreatedAt.getTime() < newAccountMs) {
+      riskScore += 15;
+      reasons.push('new_recipient_account');
+    }
+
+    // Emptying the balance in one go
+    if (attempt.senderBalance > 0 && attempt.amount >= attempt.senderBalance * 0.9) {
+      riskScore += 15;
+      reasons.push('drains_balance');
+    }
+
+    let actionTaken = 'allowed';
+    let blocked = false;
+
+    if (riskScore >= 80) {
+      blocked = true;
+      actionTaken = 'blocked';
+    } else if (riskScore >= 40) {
+      actionTaken = 'flagged';
+    }
+
+    return {
+      riskScore: Math.min(riskScore, 100),
+      blocked,
+      reasons,
+      actionTaken
+    };
+  }
+
   private checkIPRisk(ipAddress: string): { score: number; reasons: string[] } {
     const reasons: string[] = [];
     let score = 0;
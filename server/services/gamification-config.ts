@@ -0,0 +1,283 @@
+import { storage } from '../storage';
+import { GAMIFICATION_CONFIG } from '../constants';
+import { formatLeaderboardDate, getLeaderboardWeekStart } from '@shared/leaderboard';
+import {
+  DEFAULT_GAMIFICATION_SETTINGS,
+  GAMIFICATION_CATEGORY_LABELS,
+  GAMIFICATION_SETTING_DEFINITIONS,
+  GAMIFICATION_SETTING_KEYS,
+  gamificationSettingsSchema,
+  getCheckinStreakMultiplier,
+  getJobCompletionReward,
+  getLevelForPoints,
+  getRankTitle,
+  getRatingBonus,
+  type GamificationConfigChangeSummary,
+  type GamificationImpactLine,
+  type GamificationImpactPreview,
+  type GamificationSettingKey,
+  type GamificationSettings,
+} from '@shared/gamification-config';
+import type { GamificationConfigChange, User } from '@shared/schema';
+import type { GamificationConfigRow } from '../storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Settings that decide employeeStats.currentLevel and rankTitle
+const LEVEL_SETTING_KEYS: GamificationSettingKey[] = ['levelPointsBase', 'rankTitles'];
+
+function toRow(key: GamificationSettingKey, value: unknown): GamificationConfigRow {
+  const definition = GAMIFICATION_SETTING_DEFINITIONS[key];
+  return {
+    key,
+    value: JSON.stringify(value),
+    description: definition.label,
+    category: definition.category,
+    dataType: definition.dataType,
+  };
+}
+
+function parseStoredValue(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function displayName(user: User | undefined): string {
+  if (!user) return 'Former employee';
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username || 'Employee';
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '0'));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function newImpactLine(category: GamificationImpactLine['category'], label: string): GamificationImpactLine {
+  return { category, label, count: 0, actualPoints: 0, previewPoints: 0, actualTokens: 0, previewTokens: 0 };
+}
+
+/**
+ * Reward parameters for check-ins, job completions, rating bonuses, leaderboard prizes, mining and levels.
+ *
+ * Every setting is a gamification_config row holding a JSON value, validated against
+ * gamificationSettingsSchema when it's loaded; a missing or invalid row falls back to its default so a bad
+ * edit in the database can't stop rewards being paid. Settings are cached for GAMIFICATION_CONFIG.CACHE_TTL_MS
+ * and the cache is dropped on save, so changes apply without a restart. Each saved change is written to
+ * gamification_config_changes together with the new value.
+ */
+class GamificationConfigService {
+  private settingsCache: { settings: GamificationSettings; timestamp: number } | null = null;
+
+  async getSettings(): Promise<GamificationSettings> {
+    if (this.settingsCache && Date.now() - this.settingsCache.timestamp < GAMIFICATION_CONFIG.CACHE_TTL_MS) {
+      return this.settingsCache.settings;
+    }
+
+    const settings: GamificationSettings = { ...DEFAULT_GAMIFICATION_SETTINGS };
+    const rows = await storage.getGamificationConfig();
+    for (const row of rows) {
+      const key = row.key as GamificationSettingKey;
+      if (!GAMIFICATION_SETTING_KEYS.includes(key)) continue;
+
+      const parsed = gamificationSettingsSchema.shape[key].safeParse(parseStoredValue(row.value));
+      if (parsed.success) {
+        (settings as Record<GamificationSettingKey, unknown>)[key] = parsed.data;
+      } else {
+        console.error(`Gamification setting ${key} is invalid, using the default:`, parsed.error.flatten());
+      }
+    }
+
+    this.settingsCache = { settings, timestamp: Date.now() };
+    return settings;
+  }
+
+  /**
+   * Store the default of every setting that isn't in gamification_config yet
+   */
+  async initializeDefaults(): Promise<void> {
+    const rows = GAMIFICATION_SETTING_KEYS.map((key) => toRow(key, DEFAULT_GAMIFICATION_SETTINGS[key]));
+    const added = await storage.seedGamificationConfig(rows);
+    if (added > 0) {
+      console.log(`✅ Seeded ${added} gamification settings`);
+      this.settingsCache = null;
+    }
+  }
+
+  /**
+   * Save changed settings with an audit entry each. Changing the level formula or rank titles
+   * re-levels every employee straight away
+   */
+  async updateSettings(changes: Partial<GamificationSettings>, changedBy: string, reason?: string): Promise<{ settings: GamificationSettings; changes: GamificationConfigChangeSummary[] }> {
+    const current = await this.getSettings();
+    const settings = gamificationSettingsSchema.parse({ ...current, ...changes });
+    const keys = (Object.keys(changes) as GamificationSettingKey[]).filter((key) => GAMIFICATION_SETTING_KEYS.includes(key));
+
+    const saved = await storage.saveGamificationConfig(
+      keys.map((key) => toRow(key, settings[key])),
+      changedBy,
+      reason || null,
+    );
+    this.settingsCache = null;
+
+    if (saved.some((change) => LEVEL_SETTING_KEYS.includes(change.key as GamificationSettingKey))) {
+      await this.recalculateLevels(await this.getSettings());
+    }
+
+    return { settings: await this.getSettings(), changes: await this.summarizeChanges(saved) };
+  }
+
+  async getChanges(limit: number = GAMIFICATION_CONFIG.CHANGE_HISTORY_LIMIT): Promise<GamificationConfigChangeSummary[]> {
+    return await this.summarizeChanges(await storage.getGamificationConfigChanges(limit));
+  }
+
+  /**
+   * Replay the last GAMIFICATION_CONFIG.PREVIEW_DAYS of payouts under the current settings with the changes
+   * applied. Each payout is recalculated from what was recorded about it (streak, on-time, rating, mining
+   * base and streak, leaderboard rank) and compared with what was actually paid. Jobs paid from their own
+   * token allocation keep their tokens, since only the points depend on the settings
+   */
+  async previewImpact(changes: Partial<GamificationSettings>): Promise<GamificationImpactPreview> {
+    const current = await this.getSettings();
+    const proposed = gamificationSettingsSchema.parse({ ...current, ...changes });
+    const to = new Date();
+    const from = new Date(to.getTime() - GAMIFICATION_CONFIG.PREVIEW_DAYS * DAY_MS);
+
+    const checkins = newImpactLine('daily_checkin', GAMIFICATION_CATEGORY_LABELS.daily_checkin);
+    const jobs = newImpactLine('job_completion', GAMIFICATION_CATEGORY_LABELS.job_completion);
+    const ratings = newImpactLine('rating_bonus', GAMIFICATION_CATEGORY_LABELS.rating_bonus);
+    const leaderboard = newImpactLine('leaderboard', GAMIFICATION_CATEGORY_LABELS.leaderboard);
+    const mining = newImpactLine('mining', GAMIFICATION_CATEGORY_LABELS.mining);
+
+    const transactions = await storage.getPointTransactionsSince(['daily_checkin', 'job_completion', 'customer_rating_bonus'], from);
+    for (const transaction of transactions) {
+      const metadata = (transaction.metadata || {}) as Record<string, any>;
+      const actualTokens = toNumber(metadata.tokenAmount);
+
+      if (transaction.transactionType === 'daily_checkin') {
+        // Check-ins pay a fixed dollar value, so the tokens scale with it at the price paid
+        const usdValue = toNumber(metadata.usdValue ?? current.checkinUsdValue);
+        checkins.count++;
+        checkins.actualPoints += transaction.points;
+        checkins.previewPoints += Math.floor(proposed.checkinBasePoints * getCheckinStreakMultiplier(proposed, toNumber(metadata.streak)));
+        checkins.actualTokens += actualTokens;
+        checkins.previewTokens += usdValue > 0 ? actualTokens * (proposed.checkinUsdValue / usdValue) : actualTokens;
+      } else if (transaction.transactionType === 'job_completion') {
+        const performance = { onTime: !!metadata.onTime, customerRating: metadata.customerRating ? toNumber(metadata.customerRating) : undefined };
+        const currentReward = getJobCompletionReward(current, performance);
+        const proposedReward = getJobCompletionReward(proposed, performance);
+        const fromBaseTokens = metadata.baseReward === true ||
+          Math.abs(actualTokens - current.jobBaseTokens * currentReward.tokenMultiplier) < 0.00000001;
+        jobs.count++;
+        jobs.actualPoints += transaction.points;
+        jobs.previewPoints += proposedReward.points;
+        jobs.actualTokens += actualTokens;
+        jobs.previewTokens += fromBaseTokens ? proposed.jobBaseTokens * proposedReward.tokenMultiplier : actualTokens;
+      } else {
+        const bonus = getRatingBonus(proposed, toNumber(metadata.rating));
+        ratings.count++;
+        ratings.actualPoints += transaction.points;
+        ratings.previewPoints += bonus.points;
+        ratings.actualTokens += actualTokens;
+        ratings.previewTokens += bonus.tokens;
+      }
+    }
+
+    // Mining claims: the base scales with the rate up to the cycle's cap, then the boosts it was claimed
+    // with and the streak bonus are reapplied. Claims from before boosts recorded a 1x miningSpeed
+    const proposedCap = proposed.miningTokensPerSecond * proposed.miningCycleHours * 60 * 60;
+    for (const claim of await storage.getRewardsSince('mining_claim', from)) {
+      const metadata = (claim.metadata || {}) as Record<string, any>;
+      const rate = toNumber(metadata.tokensPerSecond ?? current.miningTokensPerSecond);
+      const cycleHours = toNumber(metadata.cycleHours ?? current.miningCycleHours);
+      const boostMultiplier = toNumber(metadata.boostMultiplier ?? metadata.miningSpeed ?? 1) || 1;
+      const baseTokens = toNumber(metadata.baseTokens);
+      const reachedCap = baseTokens >= rate * cycleHours * 60 * 60 - 0.00000001;
+      const previewBase = reachedCap
+        ? proposedCap
+        : Math.min(rate > 0 ? baseTokens * (proposed.miningTokensPerSecond / rate) : baseTokens, proposedCap);
+      const streakCount = Math.max(toNumber(metadata.streakCount), 1);
+      mining.count++;
+      mining.actualTokens += toNumber(claim.tokenAmount);
+      mining.previewTokens += previewBase * (boostMultiplier + (streakCount - 1) * proposed.miningStreakBonusPerDay);
+    }
+
+    // Leaderboard weeks that started in the period, by final rank
+    for (const entry of await storage.getLeaderboardEntriesSince(formatLeaderboardDate(getLeaderboardWeekStart(from)))) {
+      const actualTokens = toNumber(entry.tokenReward);
+      const previewTokens = entry.rank ? proposed.leaderboardPrizes[entry.rank - 1] || 0 : 0;
+      if (actualTokens <= 0 && previewTokens <= 0) continue;
+      leaderboard.count++;
+      leaderboard.actualTokens += actualTokens;
+      leaderboard.previewTokens += previewTokens;
+    }
+
+    // Levels and titles are recalculated from everyone's points, not replayed
+    const allStats = await storage.getAllEmployeeStats();
+    let levelChanges = 0;
+    let titleChanges = 0;
+    for (const stats of allStats) {
+      const points = stats.totalPoints || 0;
+      const currentLevel = getLevelForPoints(current, points);
+      const proposedLevel = getLevelForPoints(proposed, points);
+      if (currentLevel !== proposedLevel) levelChanges++;
+      if (getRankTitle(current, currentLevel) !== getRankTitle(proposed, proposedLevel)) titleChanges++;
+    }
+
+    const lines = [checkins, jobs, ratings, leaderboard, mining].map((line) => ({
+      ...line,
+      actualTokens: parseFloat(line.actualTokens.toFixed(8)),
+      previewTokens: parseFloat(line.previewTokens.toFixed(8)),
+    }));
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      lines,
+      totals: {
+        actualPoints: lines.reduce((sum, line) => sum + line.actualPoints, 0),
+        previewPoints: lines.reduce((sum, line) => sum + line.previewPoints, 0),
+        actualTokens: parseFloat(lines.reduce((sum, line) => sum + line.actualTokens, 0).toFixed(8)),
+        previewTokens: parseFloat(lines.reduce((sum, line) => sum + line.previewTokens, 0).toFixed(8)),
+      },
+      levels: { employees: allStats.length, levelChanges, titleChanges },
+    };
+  }
+
+  // Bring every employee's level and rank title in line with the settings
+  private async recalculateLevels(settings: GamificationSettings): Promise<void> {
+    let updated = 0;
+    for (const stats of await storage.getAllEmployeeStats()) {
+      const currentLevel = getLevelForPoints(settings, stats.totalPoints || 0);
+      const rankTitle = getRankTitle(settings, currentLevel);
+      if (stats.currentLevel === currentLevel && stats.rankTitle === rankTitle) continue;
+      await storage.updateEmployeeStats(stats.userId, { currentLevel, rankTitle });
+      updated++;
+    }
+    console.log(`Recalculated levels for ${updated} employees after a gamification settings change`);
+  }
+
+  private async summarizeChanges(changes: GamificationConfigChange[]): Promise<GamificationConfigChangeSummary[]> {
+    const names = new Map<string, string>();
+    for (const id of Array.from(new Set(changes.map((change) => change.changedBy).filter((id): id is string => !!id)))) {
+      names.set(id, displayName(await storage.getUser(id)));
+    }
+
+    return changes.map((change) => ({
+      id: change.id,
+      key: change.key,
+      oldValue: parseStoredValue(change.oldValue),
+      newValue: parseStoredValue(change.newValue),
+      reason: change.reason,
+      changedBy: change.changedBy ? { id: change.changedBy, name: names.get(change.changedBy) || 'Former employee' } : null,
+      createdAt: change.createdAt.toISOString(),
+    }));
+  }
+}
+
+// Export singleton instance
+export const gamificationConfigService = new GamificationConfigService();
+gamificationConfigService.initializeDefaults().catch(console.error);
@@ -1,42 +1,30 @@
 import { storage } from "../storage";
 import { treasuryService } from "./treasury";
+import { priceOracle } from "./price-oracle";
+import { vestingService } from "./vesting";
+import { achievementService } from "./achievements";
+import { gamificationConfigService } from "./gamification-config";
+import { userRewardsAccount } from "@shared/ledger";
+import type { AchievementEvent } from "@shared/achievements";
+import {
+  getCheckinStreakMultiplier,
+  getJobCompletionReward,
+  getLevelForPoints,
+  getLevelThreshold,
+  getRankTitle,
+  getRatingBonus,
+  type GamificationSettings,
+} from "@shared/gamification-config";
 import type { 
   EmployeeStats, 
   InsertEmployeeStats, 
   AchievementType, 
   EmployeeAchievement,
   PointTransaction,
-  WeeklyLeaderboard,
-  GamificationConfig,
   User
 } from "@shared/schema";
 
-// Constants for gamification rewards
-export const GAMIFICATION_REWARDS = {
-  DAILY_CHECKIN: {
-    BASE_POINTS: 50,
-    BASE_TOKENS: "1.5", // JCMOVES tokens
-    STREAK_MULTIPLIER: 1.1, // 10% bonus per day in streak
-    MAX_STREAK_BONUS: 3.0, // Max 3x multiplier at 20+ day streak
-  },
-  JOB_COMPLETION: {
-    BASE_POINTS: 100,
-    BASE_TOKENS: "500.0",
-    ON_TIME_BONUS: 0.2, // 20% bonus for on-time completion
-    QUALITY_BONUS: 0.3, // 30% bonus for high customer rating (4.0+)
-  },
-  ACHIEVEMENTS: {
-    FIRST_WEEK_STREAK: { points: 250, tokens: "10.0" },
-    JOB_MASTER_5: { points: 500, tokens: "25.0" },
-    CUSTOMER_CHAMPION: { points: 750, tokens: "50.0" },
-    SPEED_DEMON: { points: 300, tokens: "15.0" },
-  },
-  WEEKLY_LEADERBOARD: {
-    FIRST_PLACE: { tokens: "100.0" },
-    SECOND_PLACE: { tokens: "50.0" },
-    THIRD_PLACE: { tokens: "25.0" },
-  }
-};
+// Reward amounts, bonuses, level thresholds and rank titles come from the gamification settings (see GamificationConfigService)
 
 export interface DailyCheckInResult {
   success: boolean;
@@ -118,24 +106,22 @@ export class GamificationService {
         }
       }
 
-      // Calculate rewards: FIXED $0.25 USD worth of JCMOVES tokens per check-in
-      const usdValue = 0.25; // Always exactly $0.25 per check-in
+      // Calculate rewards: a FIXED USD value worth of JCMOVES tokens per check-in
+      const settings = await gamificationConfigService.getSettings();
+      const usdValue = settings.checkinUsdValue;
       
       // Streak multiplier only affects points, NOT token payout
-      const streakMultiplier = Math.min(
-        Math.pow(GAMIFICATION_REWARDS.DAILY_CHECKIN.STREAK_MULTIPLIER, newStreak - 1),
-        GAMIFICATION_REWARDS.DAILY_CHECKIN.MAX_STREAK_BONUS
-      );
+      const streakMultiplier = getCheckinStreakMultiplier(settings, newStreak);
       
-      const points = Math.floor(GAMIFICATION_REWARDS.DAILY_CHECKIN.BASE_POINTS * streakMultiplier);
+      const points = Math.floor(settings.checkinBasePoints * streakMultiplier);
       
-      // Get current token price to calculate token amount from FIXED USD value
-      const currentPrice = await treasuryService.getCurrentTokenPrice();
+      // Record the token price to calculate token amount from FIXED USD value
+      const currentPrice = await priceOracle.recordPrice('reward', { relatedEntityType: 'daily_checkin', relatedEntityId: userId });
       const tokenAmount = (usdValue / currentPrice.price).toFixed(8); // No streak multiplier on tokens
 
       // Check Treasury balance and distribute tokens
       const treasuryStats = await treasuryService.getTreasuryStats();
-      const tokenValue = usdValue; // Always exactly $0.25 worth of tokens
+      const tokenValue = usdValue; // Always exactly the check-in's USD value in tokens
       
       if (treasuryStats.availableFunding < tokenValue) {
         return {
@@ -154,7 +140,9 @@ export class GamificationService {
         parseFloat(tokenAmount),
         `Daily check-in reward - ${newStreak} day streak`,
         "daily_checkin",
-        userId
+        userId,
+        userRewardsAccount(userId),
+        currentPrice
       );
 
       if (!distributionResult.success) {
@@ -169,29 +157,12 @@ export class GamificationService {
         };
       }
 
-      // Create or update user's wallet account with the distributed tokens
+      // The distribution credited the tokens; track the cash value on the wallet too
       try {
-        const existingWallet = await storage.getWalletAccount(userId);
-        
-        if (existingWallet) {
-          // Update existing wallet
+        const wallet = await storage.getWalletAccount(userId);
+        if (wallet) {
           await storage.updateWalletAccount(userId, {
-            tokenBalance: (parseFloat(existingWallet.tokenBalance || "0") + parseFloat(tokenAmount)).toFixed(8),
-            cashBalance: (parseFloat(existingWallet.cashBalance || "0") + distributionResult.cashValue).toFixed(2),
-            totalEarned: (parseFloat(existingWallet.totalEarned || "0") + parseFloat(tokenAmount)).toFixed(8),
-          });
-        } else {
-          // Create new wallet account
-          await storage.createWalletAccount({
-            userId,
-            walletAddress: `0xJCMOVES_${userId.substring(0, 8)}`,
-          });
-          
-          // Update with the token amounts
-          await storage.updateWalletAccount(userId, {
-            tokenBalance: tokenAmount,
-            cashBalance: distributionResult.cashValue.toFixed(2),
-            totalEarned: tokenAmount,
+            cashBalance: (parseFloat(wallet.cashBalance || "0") + distributionResult.cashValue).toFixed(2),
           });
         }
       } catch (walletError) {
@@ -215,6 +186,7 @@ export class GamificationService {
         metadata: {
           streak: newStreak,
           tokenAmount,
+          usdValue,
           streakMultiplier: streakMultiplier.toFixed(2)
         }
       });
@@ -222,6 +194,7 @@ export class GamificationService {
       // Update employee stats
       await storage.updateEmployeeStats(userId, {
         totalPoints: (employeeStats.totalPoints || 0) + points,
+        ...this.getLevelUpdates(settings, (employeeStats.totalPoints || 0) + points),
         currentStreak: newStreak,
         longestStreak: Math.max(employeeStats.longestStreak || 0, newStreak),
         totalEarnedTokens: (parseFloat(employeeStats.totalEarnedTokens || "0") + parseFloat(tokenAmount)).toFixed(8),
@@ -229,11 +202,7 @@ export class GamificationService {
       });
 
       // Check for achievements
-      await this.checkAndAwardAchievements(userId, {
-        type: 'daily_checkin',
-        streak: newStreak,
-        isNewRecord
-      });
+      await this.checkAndAwardAchievements(userId, 'daily_checkin');
 
       return {
         success: true,
@@ -289,7 +258,8 @@ export class GamificationService {
     const lastCheckIn = await storage.getLastCheckIn(userId);
     
     // Calculate next level threshold
-    const nextLevelThreshold = this.calculateLevelThreshold(stats.currentLevel + 1);
+    const settings = await gamificationConfigService.getSettings();
+    const nextLevelThreshold = getLevelThreshold(settings, stats.currentLevel + 1);
     
     // Get token balance
     const wallet = await storage.getWalletAccount(userId);
@@ -314,26 +284,17 @@ export class GamificationService {
     onTime: boolean;
     customerRating?: number;
   }): Promise<{ points: number; tokens: string; level: number }> {
-    let points = GAMIFICATION_REWARDS.JOB_COMPLETION.BASE_POINTS;
-
     // Award bonus points based on performance
-    if (performance.onTime) {
-      points += Math.floor(points * GAMIFICATION_REWARDS.JOB_COMPLETION.ON_TIME_BONUS);
-    }
-
-    if (performance.customerRating && performance.customerRating >= 4.0) {
-      points += Math.floor(points * GAMIFICATION_REWARDS.JOB_COMPLETION.QUALITY_BONUS);
-    }
+    const settings = await gamificationConfigService.getSettings();
+    const { points } = getJobCompletionReward(settings, performance);
 
-    // Get current token price for accurate cash value calculation
-    const tokenPrice = await treasuryService.getCurrentTokenPrice();
-
-    // Distribute the specified token amount from Treasury
-    const distributionResult = await treasuryService.distributeTokens(
-      parseFloat(tokenAmount),
-      `Job completion reward - Job #${jobId}`,
+    // Distribute the specified token amount from Treasury, vesting the part the schedule locks up
+    const distributionResult = await vestingService.grantReward(
+      userId,
       "job_completion",
-      userId
+      jobId,
+      parseFloat(tokenAmount),
+      `Job completion reward - Job #${jobId}`
     );
 
     // Check if distribution was successful
@@ -352,7 +313,9 @@ export class GamificationService {
       metadata: {
         onTime: performance.onTime,
         customerRating: performance.customerRating,
-        points
+        points,
+        lockedTokens: distributionResult.lockedTokens,
+        grantId: distributionResult.grantId
       }
     });
 
@@ -375,11 +338,10 @@ export class GamificationService {
     const stats = await storage.getEmployeeStats(userId);
     if (stats) {
       const newTotalPoints = (stats.totalPoints || 0) + points;
-      const newLevel = this.calculateLevel(newTotalPoints);
       
       await storage.updateEmployeeStats(userId, {
         totalPoints: newTotalPoints,
-        currentLevel: newLevel,
+        ...this.getLevelUpdates(settings, newTotalPoints),
         jobsCompleted: (stats.jobsCompleted || 0) + 1,
         onTimeCompletions: (stats.onTimeCompletions || 0) + (performance.onTime ? 1 : 0),
         totalEarnedTokens: (parseFloat(stats.totalEarnedTokens || "0") + parseFloat(tokenAmount)).toFixed(8),
@@ -387,13 +349,7 @@ export class GamificationService {
       });
 
       // Check for achievements
-      await this.checkAndAwardAchievements(userId, {
-        type: 'job_completion',
-        totalJobs: stats.jobsCompleted + 1,
-        onTimeCompletions: stats.onTimeCompletions + (performance.onTime ? 1 : 0),
-        newLevel,
-        customerRating: performance.customerRating
-      });
+      await this.checkAndAwardAchievements(userId, 'job_completion');
     }
 
     // Check if this job was created by an employee and reward them too
@@ -403,11 +359,12 @@ export class GamificationService {
       const creatorBonusTokens = (parseFloat(tokenAmount) * 0.1).toFixed(8);
       const creatorBonusPoints = Math.floor(points * 0.1);
 
-      const creatorDistributionResult = await treasuryService.distributeTokens(
-        parseFloat(creatorBonusTokens),
-        `Job creation bonus - Job #${jobId} completed`,
+      const creatorDistributionResult = await vestingService.grantReward(
+        lead.createdByUserId,
         "job_creation_bonus",
-        lead.createdByUserId
+        jobId,
+        parseFloat(creatorBonusTokens),
+        `Job creation bonus - Job #${jobId} completed`
       );
 
       // Only create reward record if distribution was successful
@@ -422,7 +379,9 @@ export class GamificationService {
           referenceId: jobId,
           metadata: {
             completedBy: userId,
-            points: creatorBonusPoints
+            points: creatorBonusPoints,
+            lockedTokens: creatorDistributionResult.lockedTokens,
+            grantId: creatorDistributionResult.grantId
           }
         });
 
@@ -444,6 +403,7 @@ export class GamificationService {
         if (creatorStats) {
           await storage.updateEmployeeStats(lead.createdByUserId, {
             totalPoints: (creatorStats.totalPoints || 0) + creatorBonusPoints,
+            ...this.getLevelUpdates(settings, (creatorStats.totalPoints || 0) + creatorBonusPoints),
             totalEarnedTokens: (parseFloat(creatorStats.totalEarnedTokens || "0") + parseFloat(creatorBonusTokens)).toFixed(8),
             lastActivityDate: new Date()
           });
@@ -451,7 +411,7 @@ export class GamificationService {
       }
     }
 
-    return { points, tokens: tokenAmount, level: stats ? this.calculateLevel((stats.totalPoints || 0) + points) : 1 };
+    return { points, tokens: tokenAmount, level: stats ? getLevelForPoints(settings, (stats.totalPoints || 0) + points) : 1 };
   }
 
   /**
@@ -461,44 +421,36 @@ export class GamificationService {
     onTime: boolean;
     customerRating?: number;
   }): Promise<{ points: number; tokens: string; level: number }> {
-    let points = GAMIFICATION_REWARDS.JOB_COMPLETION.BASE_POINTS;
-    let tokenMultiplier = 1.0;
-
-    // On-time bonus
-    if (performance.onTime) {
-      tokenMultiplier += GAMIFICATION_REWARDS.JOB_COMPLETION.ON_TIME_BONUS;
-      points += Math.floor(points * GAMIFICATION_REWARDS.JOB_COMPLETION.ON_TIME_BONUS);
-    }
-
-    // Quality bonus based on customer rating
-    if (performance.customerRating && performance.customerRating >= 4.0) {
-      tokenMultiplier += GAMIFICATION_REWARDS.JOB_COMPLETION.QUALITY_BONUS;
-      points += Math.floor(points * GAMIFICATION_REWARDS.JOB_COMPLETION.QUALITY_BONUS);
-    }
+    // On-time and quality (customer rating) bonuses apply to both points and tokens
+    const settings = await gamificationConfigService.getSettings();
+    const { points, tokenMultiplier } = getJobCompletionReward(settings, performance);
 
-    const tokenAmount = (parseFloat(GAMIFICATION_REWARDS.JOB_COMPLETION.BASE_TOKENS) * tokenMultiplier).toFixed(8);
+    const tokenAmount = (settings.jobBaseTokens * tokenMultiplier).toFixed(8);
 
-    // Distribute tokens from Treasury
-    await treasuryService.distributeTokens(
-      parseFloat(tokenAmount),
-      `Job completion reward - Job #${jobId}`,
+    // Distribute tokens from Treasury, vesting the part the schedule locks up
+    const distribution = await vestingService.grantReward(
+      userId,
       "job_completion",
-      userId
+      jobId,
+      parseFloat(tokenAmount),
+      `Job completion reward - Job #${jobId}`
     );
 
-    // Create reward record for history tracking
-    const tokenPrice = 0.00000508432; // Default token price
+    // Create reward record for history tracking (cash value at the price the distribution recorded)
     await storage.createReward({
       userId,
       rewardType: 'job_completion',
       tokenAmount,
-      cashValue: (parseFloat(tokenAmount) * tokenPrice).toFixed(4),
+      cashValue: distribution.cashValue.toFixed(4),
       status: 'confirmed',
       referenceId: jobId,
       metadata: {
         onTime: performance.onTime,
         customerRating: performance.customerRating,
-        points
+        points,
+        lockedTokens: distribution.lockedTokens,
+        grantId: distribution.grantId,
+        baseReward: true
       }
     });
 
@@ -513,7 +465,8 @@ export class GamificationService {
       metadata: {
         onTime: performance.onTime,
         customerRating: performance.customerRating,
-        tokenAmount
+        tokenAmount,
+        baseReward: true
       }
     });
 
@@ -521,11 +474,10 @@ export class GamificationService {
     const stats = await storage.getEmployeeStats(userId);
     if (stats) {
       const newTotalPoints = (stats.totalPoints || 0) + points;
-      const newLevel = this.calculateLevel(newTotalPoints);
       
       await storage.updateEmployeeStats(userId, {
         totalPoints: newTotalPoints,
-        currentLevel: newLevel,
+        ...this.getLevelUpdates(settings, newTotalPoints),
         jobsCompleted: (stats.jobsCompleted || 0) + 1,
         onTimeCompletions: (stats.onTimeCompletions || 0) + (performance.onTime ? 1 : 0),
         totalEarnedTokens: (parseFloat(stats.totalEarnedTokens || "0") + parseFloat(tokenAmount)).toFixed(8),
@@ -533,13 +485,7 @@ export class GamificationService {
       });
 
       // Check for achievements
-      await this.checkAndAwardAchievements(userId, {
-        type: 'job_completion',
-        totalJobs: stats.jobsCompleted + 1,
-        onTimeCompletions: stats.onTimeCompletions + (performance.onTime ? 1 : 0),
-        newLevel,
-        customerRating: performance.customerRating
-      });
+      await this.checkAndAwardAchievements(userId, 'job_completion');
     }
 
     // Check if this job was created by an employee and reward them too
@@ -549,11 +495,12 @@ export class GamificationService {
       const creatorBonusTokens = (parseFloat(tokenAmount) * 0.5).toFixed(8);
       const creatorBonusPoints = Math.floor(points * 0.5);
 
-      await treasuryService.distributeTokens(
-        parseFloat(creatorBonusTokens),
-        `Job creation bonus - Job #${jobId} completed`,
+      const creatorDistribution = await vestingService.grantReward(
+        lead.createdByUserId,
         "job_creation_bonus",
-        lead.createdByUserId
+        jobId,
+        parseFloat(creatorBonusTokens),
+        `Job creation bonus - Job #${jobId} completed`
       );
 
       // Create reward record for creator bonus
@@ -561,12 +508,14 @@ export class GamificationService {
         userId: lead.createdByUserId,
         rewardType: 'job_creation_bonus',
         tokenAmount: creatorBonusTokens,
-        cashValue: (parseFloat(creatorBonusTokens) * tokenPrice).toFixed(4),
+        cashValue: creatorDistribution.cashValue.toFixed(4),
         status: 'confirmed',
         referenceId: jobId,
         metadata: {
           completedBy: userId,
-          points: creatorBonusPoints
+          points: creatorBonusPoints,
+          lockedTokens: creatorDistribution.lockedTokens,
+          grantId: creatorDistribution.grantId
         }
       });
 
@@ -588,13 +537,14 @@ export class GamificationService {
       if (creatorStats) {
         await storage.updateEmployeeStats(lead.createdByUserId, {
           totalPoints: (creatorStats.totalPoints || 0) + creatorBonusPoints,
+          ...this.getLevelUpdates(settings, (creatorStats.totalPoints || 0) + creatorBonusPoints),
           totalEarnedTokens: (parseFloat(creatorStats.totalEarnedTokens || "0") + parseFloat(creatorBonusTokens)).toFixed(8),
           lastActivityDate: new Date()
         });
       }
     }
 
-    return { points, tokens: tokenAmount, level: stats ? this.calculateLevel((stats.totalPoints || 0) + points) : 1 };
+    return { points, tokens: tokenAmount, level: stats ? getLevelForPoints(settings, (stats.totalPoints || 0) + points) : 1 };
   }
 
   /**
@@ -603,18 +553,21 @@ export class GamificationService {
   async awardHighRatingBonus(userId: string, reviewId: string, rating: number): Promise<{ success: boolean; tokensAwarded: string; points: number; error?: string }> {
     try {
       // Calculate bonus based on rating
-      const tokenAmount = rating === 5 ? "500.0" : "250.0"; // 500 tokens for 5 stars, 250 for 4 stars
-      const points = rating === 5 ? 100 : 50; // Bonus points
-
-      // Get current token price for accurate cash value calculation
-      const tokenPrice = await treasuryService.getCurrentTokenPrice();
+      const settings = await gamificationConfigService.getSettings();
+      const bonus = getRatingBonus(settings, rating);
+      const tokenAmount = bonus.tokens.toFixed(8);
+      const points = bonus.points;
+      if (bonus.tokens <= 0 && bonus.points <= 0) {
+        return { success: true, tokensAwarded: "0", points: 0 };
+      }
 
       // Distribute tokens from Treasury
       const distributionResult = await treasuryService.distributeTokens(
         parseFloat(tokenAmount),
         `High rating bonus - ${rating} stars (Review #${reviewId})`,
         "customer_rating_bonus",
-        userId
+        userId,
+        userRewardsAccount(userId)
       );
 
       // Check if distribution was successful
@@ -660,6 +613,7 @@ export class GamificationService {
       if (stats) {
         await storage.updateEmployeeStats(userId, {
           totalPoints: (stats.totalPoints || 0) + points,
+          ...this.getLevelUpdates(settings, (stats.totalPoints || 0) + points),
           totalEarnedTokens: (parseFloat(stats.totalEarnedTokens || "0") + parseFloat(tokenAmount)).toFixed(8),
           lastActivityDate: new Date()
         });
@@ -682,115 +636,26 @@ export class GamificationService {
   }
 
   /**
-   * Get weekly leaderboard
-   */
-  async getWeeklyLeaderboard(): Promise<WeeklyLeaderboard[]> {
-    return await storage.getWeeklyLeaderboard();
-  }
-
-  /**
-   * Get weekly rank for a specific user
+   * Get a user's rank in the current week's live standings (closed weeks are in LeaderboardService)
    */
   async getWeeklyRank(userId: string): Promise<{ rank: number; totalEmployees: number; weeklyPoints: number } | null> {
     return await storage.getWeeklyRank(userId);
   }
 
   /**
-   * Calculate level based on total points
+   * Level and rank title for a new points total
    */
-  private calculateLevel(totalPoints: number): number {
-    // Level formula: Level = floor(sqrt(totalPoints / 100)) + 1
-    // Level 1: 0-99 points, Level 2: 100-399 points, Level 3: 400-899 points, etc.
-    return Math.floor(Math.sqrt(totalPoints / 100)) + 1;
+  private getLevelUpdates(settings: GamificationSettings, totalPoints: number): { currentLevel: number; rankTitle: string } {
+    // Level formula: Level = floor(sqrt(totalPoints / levelPointsBase)) + 1
+    const currentLevel = getLevelForPoints(settings, totalPoints);
+    return { currentLevel, rankTitle: getRankTitle(settings, currentLevel) };
   }
 
   /**
-   * Calculate points needed for a specific level
+   * Check achievements that depend on this activity (see AchievementService)
    */
-  private calculateLevelThreshold(level: number): number {
-    // Inverse of level formula: Points = (level - 1)^2 * 100
-    return Math.pow(level - 1, 2) * 100;
-  }
-
-  /**
-   * Check and award achievements based on activities
-   */
-  private async checkAndAwardAchievements(userId: string, activity: any): Promise<void> {
-    const stats = await storage.getEmployeeStats(userId);
-    if (!stats) return;
-
-    const achievementsToAward: string[] = [];
-
-    // Check different achievement types based on activity
-    switch (activity.type) {
-      case 'daily_checkin':
-        if (activity.streak === 7) {
-          achievementsToAward.push('first_week_streak');
-        }
-        break;
-        
-      case 'job_completion':
-        if (activity.totalJobs === 5) {
-          achievementsToAward.push('job_master_5');
-        }
-        if (activity.customerRating && activity.customerRating >= 5.0) {
-          achievementsToAward.push('customer_champion');
-        }
-        break;
-    }
-
-    // Award achievements
-    for (const achievementKey of achievementsToAward) {
-      await this.awardAchievement(userId, achievementKey);
-    }
-  }
-
-  /**
-   * Award a specific achievement to a user
-   */
-  private async awardAchievement(userId: string, achievementKey: string): Promise<void> {
-    const achievement = await storage.getAchievementByKey(achievementKey);
-    if (!achievement) return;
-
-    // Check if user already has this achievement
-    const existing = await storage.getUserAchievement(userId, achievement.id);
-    if (existing) return;
-
-    // Award the achievement
-    await storage.createEmployeeAchievement({
-      userId,
-      achievementTypeId: achievement.id
-    });
-
-    // Award achievement points and tokens
-    if ((achievement.pointsAwarded || 0) > 0) {
-      await storage.createPointTransaction({
-        userId,
-        points: achievement.pointsAwarded || 0,
-        transactionType: "achievement",
-        relatedEntityType: "achievement",
-        relatedEntityId: achievement.id,
-        description: `Achievement unlocked: ${achievement.name}`
-      });
-    }
-
-    if (parseFloat(achievement.tokenReward || "0") > 0) {
-      await treasuryService.distributeTokens(
-        parseFloat(achievement.tokenReward || "0"),
-        `Achievement reward: ${achievement.name}`,
-        "achievement",
-        userId
-      );
-    }
-
-    // Update employee stats
-    const stats = await storage.getEmployeeStats(userId);
-    if (stats) {
-      await storage.updateEmployeeStats(userId, {
-        totalPoints: (stats.totalPoints || 0) + (achievement.pointsAwarded || 0),
-        totalEarnedTokens: (parseFloat(stats.totalEarnedTokens || "0") + parseFloat(achievement.tokenReward || "0")).toFixed(8)
-      });
-    }
+  private async checkAndAwardAchievements(userId: string, event: AchievementEvent): Promise<void> {
+    await achievementService.evaluate(userId, event);
   }
 }
 
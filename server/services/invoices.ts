@@ -0,0 +1,194 @@
+import { storage } from "../storage";
+import { priceOracle } from "./price-oracle";
+import { INVOICE_CONFIG } from "../constants";
+import {
+  AGING_BUCKETS,
+  getAgingBucket,
+  getDaysPastDue,
+  getLeadInvoiceLineItems,
+  toInvoiceLineItem,
+  InvoiceError,
+  type AgingBucket,
+  type InvoiceAdjustment,
+  type InvoiceErrorCode,
+  type InvoiceLineItem,
+  type PaymentMethod,
+} from "@shared/invoices";
+import { PriceOracleError } from "@shared/price-oracle";
+import type { Invoice, InvoicePayment } from "@shared/schema";
+
+export interface InvoiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: InvoiceErrorCode;
+}
+
+export interface PaymentInput {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+  receivedAt?: string;
+}
+
+export interface OutstandingInvoice extends Invoice {
+  daysPastDue: number;
+  agingBucket: AgingBucket;
+}
+
+export interface AgingSummary {
+  invoices: OutstandingInvoice[];
+  buckets: Record<AgingBucket, { count: number; balanceDue: number }>;
+  totalOutstanding: number;
+}
+
+class InvoiceService {
+  /**
+   * Generate the invoice for a completed job from its saved quote plus any tips/damages reported at completion
+   */
+  async generateForCompletedJob(leadId: string, createdByUserId: string | null, adjustments: InvoiceAdjustment[] = []): Promise<InvoiceResult<Invoice>> {
+    const lead = await storage.getLead(leadId);
+    if (!lead) {
+      return { success: false, code: 'not_found', error: "Job not found" };
+    }
+    if (lead.status !== 'completed') {
+      return { success: false, code: 'not_completed', error: "Invoices are generated once the job is completed" };
+    }
+
+    const existing = await storage.getInvoiceByLeadId(leadId);
+    if (existing) {
+      return { success: true, data: existing };
+    }
+
+    const lineItems: InvoiceLineItem[] = [
+      ...getLeadInvoiceLineItems(lead),
+      ...adjustments.map(toInvoiceLineItem),
+    ];
+    const dueDate = new Date(Date.now() + INVOICE_CONFIG.PAYMENT_TERMS_DAYS * 24 * 60 * 60 * 1000);
+
+    const invoice = await storage.createInvoice({
+      leadId,
+      customerName: `${lead.firstName} ${lead.lastName}`,
+      customerEmail: lead.email,
+      billingAddress: lead.confirmedToAddress || lead.toAddress || lead.confirmedFromAddress || lead.fromAddress,
+      lineItems,
+      taxRate: INVOICE_CONFIG.TAX_RATE,
+      dueDate,
+      createdByUserId,
+    });
+
+    console.log(`🧾 Invoice ${invoice.invoiceNumber} generated for job ${leadId}: $${invoice.total} ($${invoice.balanceDue} due)`);
+    return { success: true, data: invoice };
+  }
+
+  /**
+   * Add tips, damage credits, discounts or extra fees to an invoice
+   */
+  async addAdjustments(invoiceId: string, adjustments: InvoiceAdjustment[]): Promise<InvoiceResult<Invoice>> {
+    return this.withInvoiceErrors(async () => {
+      const invoice = await storage.getInvoice(invoiceId);
+      if (!invoice) {
+        throw new InvoiceError('not_found', "Invoice not found");
+      }
+      const lineItems = [...(invoice.lineItems as InvoiceLineItem[]), ...adjustments.map(toInvoiceLineItem)];
+      return await storage.updateInvoiceLineItems(invoiceId, lineItems);
+    });
+  }
+
+  /**
+   * Remove a line item by its position on the invoice
+   */
+  async removeLineItem(invoiceId: string, index: number): Promise<InvoiceResult<Invoice>> {
+    return this.withInvoiceErrors(async () => {
+      const invoice = await storage.getInvoice(invoiceId);
+      const lineItems = (invoice?.lineItems as InvoiceLineItem[] | undefined) || [];
+      if (!invoice || index < 0 || index >= lineItems.length) {
+        throw new InvoiceError('not_found', "Line item not found");
+      }
+      return await storage.updateInvoiceLineItems(invoiceId, lineItems.filter((_, i) => i !== index));
+    });
+  }
+
+  async voidInvoice(invoiceId: string, reason: string | null): Promise<InvoiceResult<Invoice>> {
+    return this.withInvoiceErrors(() => storage.voidInvoice(invoiceId, reason));
+  }
+
+  /**
+   * Record a deposit (before the invoice exists) or a payment against the invoice.
+   * JCMOVES payments are converted at the current token price and debited from the customer's wallet
+   */
+  async recordPayment(leadId: string, input: PaymentInput, receivedByUserId: string): Promise<InvoiceResult<{ payment: InvoicePayment; invoice: Invoice | undefined }>> {
+    const lead = await storage.getLead(leadId);
+    if (!lead) {
+      return { success: false, code: 'not_found', error: "Job not found" };
+    }
+
+    let tokenPayment: { payerUserId: string; tokenAmount: number; tokenPriceUsd: number } | undefined;
+    if (input.method === 'jcmoves') {
+      const payer = await storage.getUserByEmail(lead.email);
+      if (!payer) {
+        return { success: false, code: 'no_wallet', error: `No account found for ${lead.email} to pay with JCMOVES` };
+      }
+      let price: number;
+      try {
+        ({ price } = await priceOracle.recordPrice('invoice_payment', { relatedEntityType: 'lead', relatedEntityId: leadId }));
+      } catch (error) {
+        if (!(error instanceof PriceOracleError)) throw error;
+        return { success: false, error: `JCMOVES price is unavailable, try again shortly. ${error.message}` };
+      }
+      tokenPayment = {
+        payerUserId: payer.id,
+        tokenAmount: input.amount / price,
+        tokenPriceUsd: price,
+      };
+    }
+
+    return this.withInvoiceErrors(() => storage.recordInvoicePayment({
+      leadId,
+      amount: input.amount,
+      method: input.method,
+      reference: input.reference,
+      notes: input.notes,
+      receivedAt: input.receivedAt ? new Date(input.receivedAt) : undefined,
+      receivedByUserId,
+      tokenPayment,
+    }));
+  }
+
+  /**
+   * Open and partially paid invoices grouped into aging buckets by days past due
+   */
+  async getAgingSummary(now: Date = new Date()): Promise<AgingSummary> {
+    const outstanding = await storage.getOutstandingInvoices();
+    const buckets = Object.fromEntries(
+      AGING_BUCKETS.map((bucket) => [bucket, { count: 0, balanceDue: 0 }])
+    ) as AgingSummary['buckets'];
+
+    let totalOutstanding = 0;
+    const invoices = outstanding.map((invoice) => {
+      const agingBucket = getAgingBucket(invoice.dueDate, now);
+      const balanceDue = parseFloat(invoice.balanceDue);
+      buckets[agingBucket].count += 1;
+      buckets[agingBucket].balanceDue = Math.round((buckets[agingBucket].balanceDue + balanceDue) * 100) / 100;
+      totalOutstanding += balanceDue;
+      return { ...invoice, daysPastDue: getDaysPastDue(invoice.dueDate, now), agingBucket };
+    });
+
+    return { invoices, buckets, totalOutstanding: Math.round(totalOutstanding * 100) / 100 };
+  }
+
+  private async withInvoiceErrors<T>(action: () => Promise<T>): Promise<InvoiceResult<T>> {
+    try {
+      return { success: true, data: await action() };
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,104 @@
+import { storage } from "../storage";
+import { gamificationService } from "./gamification";
+import { invoiceService } from "./invoices";
+import { timeClockService } from "./time-clock";
+import type { InvoiceAdjustment } from "@shared/invoices";
+import type { Lead } from "@shared/schema";
+
+export interface JobCompletionResult {
+  rewarded: boolean; // Crew rewards were paid by this call
+  invoiceId: string | null;
+  rewardError?: string; // Why rewards weren't paid, when the allocation itself is the problem
+}
+
+/**
+ * What happens once a job moves to completed, whichever route moved it: open time entries are
+ * closed, the crew's token allocation is paid out once (claimed through completionRewardedAt), and the customer is
+ * invoiced. Each step logs and carries on if it fails, since the job is already completed
+ */
+class JobCompletionService {
+  async finishCompletedJob(leadId: string, completedByUserId: string | null, adjustments: InvoiceAdjustment[] = []): Promise<JobCompletionResult> {
+    const result: JobCompletionResult = { rewarded: false, invoiceId: null };
+
+    // Anyone still clocked in is clocked out; admins check those times before approving
+    try {
+      await timeClockService.closeOpenEntriesForLead(leadId);
+    } catch (timeClockError) {
+      console.error("Error closing time entries:", timeClockError);
+    }
+
+    const lead = await storage.getLead(leadId);
+    if (!lead || lead.status !== "completed") {
+      return result;
+    }
+
+    try {
+      const rewards = await this.distributeCrewRewards(lead);
+      result.rewarded = rewards.rewarded;
+      result.rewardError = rewards.error;
+    } catch (tokenError) {
+      console.error("Error distributing tokens:", tokenError);
+    }
+
+    // Owners can regenerate the invoice from the job if this fails
+    try {
+      const invoice = await invoiceService.generateForCompletedJob(leadId, completedByUserId, adjustments);
+      result.invoiceId = invoice.data?.id || null;
+      if (!invoice.success) {
+        console.error(`Invoice not generated for job ${leadId}: ${invoice.error}`);
+      }
+    } catch (invoiceError) {
+      console.error("Error generating invoice:", invoiceError);
+    }
+
+    return result;
+  }
+
+  // Checked before a manager completes a job, so a completion the crew can't be paid for is refused up front
+  getRewardAllocationError(lead: Pick<Lead, "tokenAllocation" | "crewMembers">): string | undefined {
+    if (!lead.tokenAllocation || !lead.crewMembers || lead.crewMembers.length === 0) {
+      return undefined;
+    }
+    const totalTokens = parseFloat(lead.tokenAllocation);
+    if (isNaN(totalTokens) || totalTokens <= 0) {
+      return "Invalid or missing token allocation. Please set a valid token amount before marking the job as completed.";
+    }
+    return undefined;
+  }
+
+  private async distributeCrewRewards(lead: Lead): Promise<{ rewarded: boolean; error?: string }> {
+    const error = this.getRewardAllocationError(lead);
+    if (error) {
+      console.log(`⚠️ Invalid token allocation for job ${lead.id}: ${lead.tokenAllocation}`);
+      return { rewarded: false, error };
+    }
+    if (!lead.tokenAllocation || !lead.crewMembers || lead.crewMembers.length === 0) {
+      return { rewarded: false };
+    }
+
+    // Claimed before paying, so repeated or concurrent completions can't pay the crew twice
+    const claimed = await storage.claimLeadCompletionReward(lead.id);
+    if (!claimed) {
+      console.log(`ℹ️ Job ${lead.id} rewards already distributed - skipping`);
+      return { rewarded: false };
+    }
+
+    const totalTokens = parseFloat(lead.tokenAllocation);
+    const tokensPerWorker = totalTokens / lead.crewMembers.length;
+    console.log(`💰 Distributing ${totalTokens} tokens to ${lead.crewMembers.length} crew members (${tokensPerWorker} each)`);
+
+    // Award tokens to each crew member using gamification service (includes creator bonus)
+    for (const crewMemberId of lead.crewMembers) {
+      await gamificationService.awardJobCompletion(crewMemberId, lead.id, tokensPerWorker.toFixed(8), {
+        onTime: await timeClockService.wasOnTime(lead.id, crewMemberId),
+        customerRating: 5
+      });
+      console.log(`✅ Awarded ${tokensPerWorker} tokens to crew member ${crewMemberId}`);
+    }
+
+    return { rewarded: true };
+  }
+}
+
+// Export singleton instance
+export const jobCompletionService = new JobCompletionService();
@@ -0,0 +1,293 @@
+import { storage } from '../storage';
+import { treasuryService } from './treasury';
+import { notificationService } from './notification';
+import { gamificationConfigService } from './gamification-config';
+import { LEADERBOARD_CONFIG } from '../constants';
+import { userRewardsAccount } from '@shared/ledger';
+import {
+  formatLeaderboardDate,
+  getLeaderboardWeekEnd,
+  getLeaderboardWeekStart,
+  LeaderboardError,
+  rankLeaderboardStandings,
+  type LeaderboardEntrySummary,
+  type LeaderboardPayoutStatus,
+  type LeaderboardWeekListItem,
+  type LeaderboardWeekSummary,
+} from '@shared/leaderboard';
+import type { User, WeeklyLeaderboard } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ordinal(rank: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const remainder = rank % 100;
+  return rank + (suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]);
+}
+
+function displayName(user: User | undefined): string {
+  if (!user) return 'Former employee';
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username || 'Employee';
+}
+
+function getPayoutStatus(entry: WeeklyLeaderboard): LeaderboardPayoutStatus {
+  if (parseFloat(entry.tokenReward || '0') <= 0) return 'none';
+  if (entry.paidAt) return 'paid';
+  return entry.payoutError && !entry.payoutClaimedAt ? 'failed' : 'pending';
+}
+
+// Sunday, as stored in weeklyLeaderboards.weekEndDate
+function getWeekEndDate(weekStart: Date): string {
+  return formatLeaderboardDate(new Date(getLeaderboardWeekEnd(weekStart).getTime() - DAY_MS));
+}
+
+/**
+ * Closes each leaderboard week and pays its prizes.
+ *
+ * Once a week has ended the close-out job ranks everyone's points for it (see rankLeaderboardStandings for
+ * the tie-breakers) and freezes the ranks in weekly_leaderboards, alongside a leaderboard_week_closes row
+ * that makes closing a week idempotent. Prizes for the top places are then paid from the treasury with
+ * distributeTokens: each payout is claimed on its row first so it can't be paid twice, a failed payout is
+ * retried on the next run, and a claim interrupted mid-payout is settled by checking the reserve for it.
+ */
+class LeaderboardService {
+  private closeInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  // Live standings while the week is open, the frozen ranks once it's closed
+  async getWeek(weekStart: Date): Promise<LeaderboardWeekSummary> {
+    const weekStartDate = formatLeaderboardDate(weekStart);
+    const close = await storage.getLeaderboardWeekClose(weekStartDate);
+
+    if (close) {
+      const entries = await storage.getLeaderboardEntries(weekStartDate);
+      const names = await this.getNames(entries.map((entry) => entry.userId));
+      return {
+        weekStartDate,
+        weekEndDate: close.weekEndDate,
+        closedAt: close.closedAt.toISOString(),
+        participantCount: close.participantCount,
+        entries: entries.map((entry) => ({
+          rank: entry.rank || 0,
+          userId: entry.userId,
+          name: names.get(entry.userId) || displayName(undefined),
+          pointsEarned: entry.pointsEarned,
+          jobsCompleted: entry.jobsCompleted,
+          averageRating: parseFloat(entry.averageRating || '0'),
+          tokenReward: entry.tokenReward || '0',
+          payoutStatus: getPayoutStatus(entry),
+        })),
+      };
+    }
+
+    const ranked = await this.rankWeek(weekStart);
+    const names = await this.getNames(ranked.map((entry) => entry.userId));
+    return {
+      weekStartDate,
+      weekEndDate: getWeekEndDate(weekStart),
+      closedAt: null,
+      participantCount: ranked.length,
+      entries: ranked.map((entry): LeaderboardEntrySummary => ({
+        rank: entry.rank,
+        userId: entry.userId,
+        name: names.get(entry.userId) || displayName(undefined),
+        pointsEarned: entry.pointsEarned,
+        jobsCompleted: entry.jobsCompleted,
+        averageRating: entry.averageRating,
+        tokenReward: entry.tokenReward,
+        payoutStatus: parseFloat(entry.tokenReward) > 0 ? 'pending' : 'none',
+      })),
+    };
+  }
+
+  async getHistory(): Promise<LeaderboardWeekListItem[]> {
+    const closes = await storage.getLeaderboardWeekCloses(LEADERBOARD_CONFIG.HISTORY_WEEKS);
+    return closes.map((close) => ({
+      weekStartDate: close.weekStartDate,
+      weekEndDate: close.weekEndDate,
+      closedAt: close.closedAt.toISOString(),
+      participantCount: close.participantCount,
+      totalPrizeTokens: close.totalPrizeTokens,
+    }));
+  }
+
+  /**
+   * Freeze a finished week's ranks and pay its prizes. Throws LeaderboardError if the week hasn't ended
+   * or has already been closed. closedBy is null when the scheduled job closes it
+   */
+  async closeWeek(weekStart: Date, closedBy: string | null): Promise<LeaderboardWeekSummary> {
+    const weekStartDate = formatLeaderboardDate(weekStart);
+    if (getLeaderboardWeekEnd(weekStart) > new Date()) {
+      throw new LeaderboardError('week_not_over', `The week of ${weekStartDate} hasn't ended yet`);
+    }
+
+    const ranked = await this.rankWeek(weekStart);
+    const totalPrizeTokens = ranked.reduce((sum, entry) => sum + parseFloat(entry.tokenReward), 0);
+    const { entries } = await storage.closeLeaderboardWeek(
+      {
+        weekStartDate,
+        weekEndDate: getWeekEndDate(weekStart),
+        participantCount: ranked.length,
+        totalPrizeTokens: totalPrizeTokens.toFixed(8),
+        closedBy,
+      },
+      ranked.map((entry) => ({
+        userId: entry.userId,
+        rank: entry.rank,
+        pointsEarned: entry.pointsEarned,
+        jobsCompleted: entry.jobsCompleted,
+        averageRating: entry.averageRating.toFixed(2),
+        lastPointsAt: entry.lastPointsAt,
+        tokenReward: entry.tokenReward,
+      })),
+    );
+    console.log(`🏁 Closed leaderboard week ${weekStartDate}: ${ranked.length} participants, ${totalPrizeTokens} JCMOVES in prizes`);
+
+    const winners = entries.filter((entry) => parseFloat(entry.tokenReward || '0') > 0);
+    if (winners.length) {
+      const names = await this.getNames(winners.map((entry) => entry.userId));
+      await notificationService.notifyBusinessOwners(
+        'system_alert',
+        'Weekly leaderboard closed',
+        `Week of ${weekStartDate}: ${winners.map((entry) => `${ordinal(entry.rank || 0)} ${names.get(entry.userId)}`).join(', ')}`,
+        { weekStartDate },
+      );
+    }
+
+    await this.payOutstandingPrizes();
+    return this.getWeek(weekStart);
+  }
+
+  // Pay every closed week's unpaid prizes, including ones that failed on an earlier run
+  async payOutstandingPrizes(): Promise<void> {
+    const entries = await storage.getUnpaidLeaderboardPrizes(LEADERBOARD_CONFIG.BATCH_SIZE);
+    for (const entry of entries) {
+      await this.payPrize(entry).catch((error) => {
+        console.error(`Error paying leaderboard prize ${entry.id}:`, error);
+      });
+    }
+  }
+
+  /**
+   * One pass of the close-out job: settle payouts interrupted mid-flight, close every ended week that
+   * hasn't been closed yet, then pay outstanding prizes
+   */
+  async processCloseOuts(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+    try {
+      const stale = await storage.getStaleLeaderboardPayouts(new Date(Date.now() - LEADERBOARD_CONFIG.STALE_PAYOUT_MS), LEADERBOARD_CONFIG.BATCH_SIZE);
+      for (const entry of stale) {
+        // The claim is only ever cleared or completed, never retried blind, so a paid prize can't be paid again
+        const transactionId = await storage.findLeaderboardPayoutTransaction(entry.id);
+        if (transactionId) {
+          const completed = await storage.completeLeaderboardPayout(entry.id, transactionId);
+          if (completed) await this.notifyWinner(completed);
+        } else {
+          await storage.cancelLeaderboardPayout(entry.id, entry.payoutError);
+        }
+      }
+
+      // From the first week ever closed, so weeks missed while the job wasn't running are caught up oldest
+      // first. Before any week has been closed that's just last week
+      const closed = await storage.getClosedLeaderboardWeekStartDates();
+      const closedWeeks = new Set(closed);
+      const lastWeek = new Date(getLeaderboardWeekStart().getTime() - 7 * DAY_MS);
+      const firstWeek = closed.length ? getLeaderboardWeekStart(new Date(`${closed[0]}T00:00:00Z`)) : lastWeek;
+      for (let week = firstWeek; week <= lastWeek; week = new Date(week.getTime() + 7 * DAY_MS)) {
+        if (closedWeeks.has(formatLeaderboardDate(week))) continue;
+        try {
+          await this.closeWeek(week, null);
+        } catch (error) {
+          // Another server closed it first; its prizes are still paid below
+          if (!(error instanceof LeaderboardError && error.code === 'already_closed')) throw error;
+        }
+      }
+
+      await this.payOutstandingPrizes();
+    } catch (error) {
+      console.error('Error processing leaderboard close-out:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  start(): void {
+    if (this.closeInterval) return;
+    this.closeInterval = setInterval(() => {
+      this.processCloseOuts();
+    }, LEADERBOARD_CONFIG.CLOSE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.closeInterval) {
+      clearInterval(this.closeInterval);
+      this.closeInterval = null;
+    }
+  }
+
+  // The week's standings, ranked, with the prize each place would win
+  private async rankWeek(weekStart: Date) {
+    const standings = await storage.getLeaderboardStandings(weekStart, getLeaderboardWeekEnd(weekStart));
+    const { leaderboardPrizes } = await gamificationConfigService.getSettings(); // Index 0 is 1st place
+    return rankLeaderboardStandings(standings).map((entry) => ({
+      ...entry,
+      tokenReward: (leaderboardPrizes[entry.rank - 1] || 0).toFixed(8),
+    }));
+  }
+
+  // Claim, distribute and complete one prize. A failed distribution clears the claim so the next run retries
+  private async payPrize(entry: WeeklyLeaderboard): Promise<void> {
+    const claimed = await storage.claimLeaderboardPayout(entry.id);
+    if (!claimed) return;
+
+    const amount = parseFloat(entry.tokenReward || '0');
+    const distribution = await treasuryService.distributeTokens(
+      amount,
+      `Weekly leaderboard ${ordinal(entry.rank || 0)} place - week of ${entry.weekStartDate}`,
+      'weekly_leaderboard',
+      entry.id,
+      userRewardsAccount(entry.userId),
+    );
+
+    if (!distribution.success) {
+      await storage.cancelLeaderboardPayout(entry.id, distribution.error || 'Distribution failed');
+      console.warn(`Leaderboard prize ${entry.id} for ${entry.userId} deferred: ${distribution.error}`);
+      // Only the first failure is reported; later runs keep retrying quietly
+      if (!entry.payoutError) {
+        await notificationService.notifyBusinessOwners(
+          'system_alert',
+          'Leaderboard prize payout failed',
+          `The ${ordinal(entry.rank || 0)} place prize of ${amount} JCMOVES for the week of ${entry.weekStartDate} couldn't be paid and will be retried: ${distribution.error}`,
+          { weeklyLeaderboardId: entry.id },
+        );
+      }
+      return;
+    }
+
+    const completed = await storage.completeLeaderboardPayout(entry.id, distribution.transactionId);
+    if (completed) await this.notifyWinner(completed);
+  }
+
+  private async notifyWinner(entry: WeeklyLeaderboard): Promise<void> {
+    await notificationService.createNotification({
+      userId: entry.userId,
+      type: 'system_alert',
+      title: `You placed ${ordinal(entry.rank || 0)} on the weekly leaderboard!`,
+      message: `You finished ${ordinal(entry.rank || 0)} for the week of ${entry.weekStartDate} with ${entry.pointsEarned.toLocaleString()} points and won ${parseFloat(entry.tokenReward || '0').toLocaleString()} JCMOVES`,
+      data: { weeklyLeaderboardId: entry.id, weekStartDate: entry.weekStartDate },
+    });
+  }
+
+  private async getNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const id of Array.from(new Set(userIds))) {
+      names.set(id, displayName(await storage.getUser(id)));
+    }
+    return names;
+  }
+}
+
+// Export singleton instance
+export const leaderboardService = new LeaderboardService();
+leaderboardService.start();
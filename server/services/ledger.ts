@@ -0,0 +1,64 @@
+import { storage } from "../storage";
+import {
+  formatLedgerUnits,
+  LEDGER_CURRENCY,
+  toLedgerUnits,
+  type LedgerAccountType,
+  type LedgerConsistencyReport,
+} from "@shared/ledger";
+
+class LedgerService {
+  /**
+   * Prove that every issued token is accounted for: user balances + reserve + pools + fees +
+   * pending withdrawals and cash-outs must equal the total issued, every entry must balance, and every
+   * wallet/reserve column must match the ledger. Anything else is reported as drift
+   */
+  async checkConsistency(currency: string = LEDGER_CURRENCY): Promise<LedgerConsistencyReport> {
+    const [balances, unbalancedEntries, drift] = await Promise.all([
+      storage.getLedgerBalancesByType(currency),
+      storage.getUnbalancedLedgerEntries(),
+      storage.getLedgerDrift(currency),
+    ]);
+
+    const unitsFor = (...types: LedgerAccountType[]) =>
+      types.reduce((sum, type) => sum + toLedgerUnits(balances[type] || "0"), BigInt(0));
+
+    const issued = -unitsFor("issuance");
+    const userBalances = unitsFor("user_rewards", "user_wallet");
+    const treasuryReserve = unitsFor("treasury_reserve");
+    const pools = unitsFor("mining_pool", "faucet_pool");
+    const fees = unitsFor("fees");
+    const pendingWithdrawals = unitsFor("withdrawal_clearing");
+    const pendingCashouts = unitsFor("cashout_clearing");
+    const difference = userBalances + treasuryReserve + pools + fees + pendingWithdrawals + pendingCashouts - issued;
+
+    const report: LedgerConsistencyReport = {
+      checkedAt: new Date().toISOString(),
+      currency,
+      totals: {
+        issued: formatLedgerUnits(issued),
+        userBalances: formatLedgerUnits(userBalances),
+        treasuryReserve: formatLedgerUnits(treasuryReserve),
+        pools: formatLedgerUnits(pools),
+        fees: formatLedgerUnits(fees),
+        pendingWithdrawals: formatLedgerUnits(pendingWithdrawals),
+        pendingCashouts: formatLedgerUnits(pendingCashouts),
+      },
+      difference: formatLedgerUnits(difference),
+      unbalancedEntries,
+      drift,
+      isConsistent: difference === BigInt(0) && unbalancedEntries.length === 0 && drift.length === 0,
+    };
+
+    if (!report.isConsistent) {
+      console.warn(
+        `⚠️ Ledger drift (${currency}): difference ${report.difference}, ${unbalancedEntries.length} unbalanced entries, ${drift.length} drifted balances`,
+      );
+    }
+
+    return report;
+  }
+}
+
+// Export singleton instance
+export const ledgerService = new LedgerService();
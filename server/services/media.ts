@@ -0,0 +1,297 @@
+import sharp from "sharp";
+import exifr from "exifr";
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { ObjectStorageService, type OpenedObject } from "../objectStorage";
+import {
+  getMaxMediaBytes,
+  getMediaThumbnailUrl,
+  getMediaUrl,
+  isAllowedMediaType,
+  MEDIA_FILE_EXTENSIONS,
+  parseMediaUrl,
+  type CreateMediaUpload,
+  type JobPhotoInput,
+  type MediaAssetResponse,
+  type MediaErrorCode,
+  type MediaOwnerType,
+  type MediaPurpose,
+  type MediaUploadTicket,
+} from "@shared/media";
+import type { JobPhoto, MediaAsset, User } from "@shared/schema";
+
+export const MEDIA_CONFIG = {
+  UPLOAD_URL_TTL_SEC: 15 * 60,
+  THUMBNAIL_SIZE: 320, // Longest edge in pixels
+  THUMBNAIL_QUALITY: 75,
+};
+
+export interface MediaResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: MediaErrorCode;
+}
+
+// Roles that can see job photos; shop media is public once attached to a listing
+const JOB_PHOTO_VIEWER_ROLES = ["employee", "admin", "business_owner"];
+
+class MediaService {
+  private objectStorage = new ObjectStorageService();
+
+  /**
+   * Create a pending asset and a signed URL the browser uploads the file to
+   */
+  async createUpload(userId: string, input: CreateMediaUpload): Promise<MediaResult<MediaUploadTicket>> {
+    const check = this.checkUpload(input.purpose, input.contentType, input.sizeBytes);
+    if (check) return check;
+
+    const asset = await storage.createMediaAsset({
+      uploadedBy: userId,
+      purpose: input.purpose,
+      objectKey: this.newObjectKey(input.purpose, input.contentType),
+      contentType: input.contentType,
+      sizeBytes: input.sizeBytes,
+    });
+
+    const uploadUrl = await this.objectStorage.getPrivateUploadUrl(asset.objectKey, asset.contentType, MEDIA_CONFIG.UPLOAD_URL_TTL_SEC);
+    return {
+      success: true,
+      data: {
+        assetId: asset.id,
+        uploadUrl,
+        expiresAt: new Date(Date.now() + MEDIA_CONFIG.UPLOAD_URL_TTL_SEC * 1000).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Called after the browser finished its upload: checks the stored file, then makes the thumbnail and reads EXIF
+   */
+  async completeUpload(userId: string, assetId: string): Promise<MediaResult<MediaAsset>> {
+    const asset = await storage.getMediaAsset(assetId);
+    if (!asset) return { success: false, error: "Upload not found", code: "not_found" };
+    if (asset.uploadedBy !== userId) return { success: false, error: "This upload belongs to someone else", code: "forbidden" };
+    if (asset.status === "ready") return { success: true, data: asset };
+
+    const data = await this.objectStorage.readPrivateObject(asset.objectKey);
+    if (!data) {
+      return { success: false, error: "The file hasn't been uploaded yet", code: "not_uploaded" };
+    }
+
+    const check = this.checkUpload(asset.purpose as MediaPurpose, asset.contentType, data.length);
+    if (check) {
+      await this.removeAsset(asset);
+      return { success: false, error: check.error, code: check.code };
+    }
+
+    return { success: true, data: await this.processAsset(asset, data) };
+  }
+
+  /**
+   * Store a base64 data URL as a ready asset (older clients, and migrating photos out of JSONB)
+   */
+  async ingestDataUrl(dataUrl: string, purpose: MediaPurpose, uploadedBy: string | null): Promise<MediaResult<MediaAsset>> {
+    const match = dataUrl.match(/^data:([\w/+.-]+);base64,(.+)$/);
+    if (!match) return { success: false, error: "Not a base64 data URL", code: "unsupported_type" };
+
+    const contentType = match[1] === "image/jpg" ? "image/jpeg" : match[1];
+    const data = Buffer.from(match[2], "base64");
+    const check = this.checkUpload(purpose, contentType, data.length);
+    if (check) return check;
+
+    const asset = await storage.createMediaAsset({
+      uploadedBy,
+      purpose,
+      objectKey: this.newObjectKey(purpose, contentType),
+      contentType,
+      sizeBytes: data.length,
+    });
+    await this.objectStorage.savePrivateObject(asset.objectKey, data, contentType);
+    return { success: true, data: await this.processAsset(asset, data) };
+  }
+
+  /**
+   * Job photo entry for leads.photos from an uploaded asset (or a data URL from an older client).
+   * EXIF time and location win over what the device reported, since they describe when and where the picture was taken
+   */
+  async createJobPhoto(userId: string, leadId: string, input: JobPhotoInput): Promise<MediaResult<JobPhoto>> {
+    let asset: MediaAsset;
+    if (input.mediaAssetId) {
+      const existing = await storage.getMediaAsset(input.mediaAssetId);
+      if (!existing) return { success: false, error: "Photo upload not found", code: "not_found" };
+      if (existing.uploadedBy !== userId) return { success: false, error: "This upload belongs to someone else", code: "forbidden" };
+      if (existing.status !== "ready") return { success: false, error: "The photo hasn't finished uploading", code: "not_uploaded" };
+      asset = existing;
+    } else {
+      const ingested = await this.ingestDataUrl(input.url!, "job_photo", userId);
+      if (!ingested.success) return { success: false, error: ingested.error, code: ingested.code };
+      asset = ingested.data!;
+    }
+
+    const [attached] = await storage.attachMediaAssets([asset.id], "lead", leadId);
+    if (!attached) {
+      return { success: false, error: "This photo is already on another job", code: "already_attached" };
+    }
+
+    const response = this.toResponse(attached);
+    return {
+      success: true,
+      data: {
+        id: input.id,
+        url: response.url,
+        thumbnailUrl: response.thumbnailUrl ?? undefined,
+        type: input.type,
+        description: input.description,
+        timestamp: response.takenAt ?? input.timestamp,
+        location: response.location ?? input.location,
+      },
+    };
+  }
+
+  /**
+   * Shop listing media as stored on the item: data URLs move into the media store, uploads must be the user's own
+   */
+  async resolveShopMedia(userId: string | null, photos: string[]): Promise<MediaResult<string[]>> {
+    const resolved: string[] = [];
+    for (const photo of photos) {
+      if (photo.startsWith("data:")) {
+        const ingested = await this.ingestDataUrl(photo, "shop_item", userId);
+        if (!ingested.success) return { success: false, error: ingested.error, code: ingested.code };
+        resolved.push(getMediaUrl(ingested.data!.id, ingested.data!.contentType));
+        continue;
+      }
+
+      const assetId = parseMediaUrl(photo);
+      if (assetId) {
+        const asset = await storage.getMediaAsset(assetId);
+        if (!asset || asset.status !== "ready") return { success: false, error: "A photo hasn't finished uploading", code: "not_uploaded" };
+        if (asset.ownerId === null && asset.uploadedBy !== userId) {
+          return { success: false, error: "A photo belongs to someone else", code: "forbidden" };
+        }
+      }
+      resolved.push(photo);
+    }
+    return { success: true, data: resolved };
+  }
+
+  /**
+   * Attach a listing's uploads to it and remove media it no longer uses
+   */
+  async syncShopItemMedia(shopItemId: string, photos: string[]): Promise<void> {
+    const assetIds = photos.map(parseMediaUrl).filter((id): id is string => id !== null);
+    await storage.attachMediaAssets(assetIds, "shop_item", shopItemId);
+
+    const current = await storage.getMediaAssetsForOwner("shop_item", shopItemId);
+    await Promise.all(current.filter((asset) => !assetIds.includes(asset.id)).map((asset) => this.removeAsset(asset)));
+  }
+
+  /**
+   * Delete every asset attached to a job or listing that is being deleted
+   */
+  async deleteOwnerMedia(ownerType: MediaOwnerType, ownerId: string): Promise<void> {
+    const assets = await storage.getMediaAssetsForOwner(ownerType, ownerId);
+    await Promise.all(assets.map((asset) => this.removeAsset(asset)));
+  }
+
+  /**
+   * Shop media is public once on a listing; job photos are for staff; unattached uploads only for the uploader
+   */
+  canView(asset: MediaAsset, viewer: User | undefined): boolean {
+    if (asset.status !== "ready") return false;
+    if (asset.ownerType === "shop_item") return true;
+    if (!viewer) return false;
+    if (asset.uploadedBy === viewer.id) return true;
+    return asset.ownerType === "lead" && JOB_PHOTO_VIEWER_ROLES.includes(viewer.role);
+  }
+
+  async open(asset: MediaAsset, variant: "original" | "thumbnail"): Promise<{ object: OpenedObject; contentType: string } | null> {
+    if (variant === "thumbnail" && asset.thumbnailKey) {
+      const object = await this.objectStorage.openPrivateObject(asset.thumbnailKey);
+      return object && { object, contentType: "image/jpeg" };
+    }
+    const object = await this.objectStorage.openPrivateObject(asset.objectKey);
+    return object && { object, contentType: asset.contentType };
+  }
+
+  toResponse(asset: MediaAsset): MediaAssetResponse {
+    return {
+      id: asset.id,
+      url: getMediaUrl(asset.id, asset.contentType),
+      thumbnailUrl: asset.thumbnailKey ? getMediaThumbnailUrl(asset.id) : null,
+      contentType: asset.contentType,
+      width: asset.width,
+      height: asset.height,
+      takenAt: asset.takenAt ? asset.takenAt.toISOString() : null,
+      location: asset.latitude !== null && asset.longitude !== null
+        ? { latitude: parseFloat(asset.latitude), longitude: parseFloat(asset.longitude) }
+        : null,
+    };
+  }
+
+  // Thumbnail, dimensions and EXIF for images; videos are stored as-is
+  private async processAsset(asset: MediaAsset, data: Buffer): Promise<MediaAsset> {
+    const changes: Parameters<typeof storage.updateMediaAsset>[1] = {
+      status: "ready",
+      sizeBytes: data.length,
+      completedAt: new Date(),
+    };
+
+    if (asset.contentType.startsWith("image/")) {
+      try {
+        const metadata = await sharp(data).metadata();
+        // Orientations 5-8 are rotated a quarter turn, so width and height swap once the photo is upright
+        const rotated = (metadata.orientation ?? 1) >= 5;
+        changes.width = (rotated ? metadata.height : metadata.width) ?? null;
+        changes.height = (rotated ? metadata.width : metadata.height) ?? null;
+
+        const thumbnail = await sharp(data)
+          .rotate()
+          .resize(MEDIA_CONFIG.THUMBNAIL_SIZE, MEDIA_CONFIG.THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+          .jpeg({ quality: MEDIA_CONFIG.THUMBNAIL_QUALITY })
+          .toBuffer();
+        changes.thumbnailKey = `${asset.objectKey}.thumb.jpg`;
+        await this.objectStorage.savePrivateObject(changes.thumbnailKey, thumbnail, "image/jpeg");
+      } catch (error) {
+        console.error(`Failed to make thumbnail for media asset ${asset.id}:`, error);
+      }
+
+      const exif = await exifr.parse(data, { gps: true, pick: ["DateTimeOriginal", "CreateDate", "latitude", "longitude"] })
+        .catch(() => null);
+      const takenAt = exif?.DateTimeOriginal || exif?.CreateDate;
+      if (takenAt instanceof Date && !isNaN(takenAt.getTime())) {
+        changes.takenAt = takenAt;
+      }
+      if (typeof exif?.latitude === "number" && typeof exif?.longitude === "number") {
+        changes.latitude = exif.latitude.toFixed(7);
+        changes.longitude = exif.longitude.toFixed(7);
+      }
+    }
+
+    return (await storage.updateMediaAsset(asset.id, changes))!;
+  }
+
+  private checkUpload(purpose: MediaPurpose, contentType: string, sizeBytes: number): MediaResult<never> | null {
+    if (!isAllowedMediaType(purpose, contentType)) {
+      return { success: false, error: `${contentType} files can't be uploaded here`, code: "unsupported_type" };
+    }
+    const maxBytes = getMaxMediaBytes(contentType)!;
+    if (sizeBytes > maxBytes) {
+      return { success: false, error: `Files must be ${Math.round(maxBytes / (1024 * 1024))}MB or smaller`, code: "too_large" };
+    }
+    return null;
+  }
+
+  private newObjectKey(purpose: MediaPurpose, contentType: string): string {
+    return `media/${purpose}/${randomUUID()}.${MEDIA_FILE_EXTENSIONS[contentType] || "bin"}`;
+  }
+
+  private async removeAsset(asset: MediaAsset): Promise<void> {
+    await this.objectStorage.deletePrivateObject(asset.objectKey);
+    if (asset.thumbnailKey) await this.objectStorage.deletePrivateObject(asset.thumbnailKey);
+    await storage.deleteMediaAssets([asset.id]);
+  }
+}
+
+// Export singleton instance
+export const mediaService = new MediaService();
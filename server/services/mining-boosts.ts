@@ -0,0 +1,74 @@
+import { storage, type EarnedMiningBoost } from '../storage';
+import {
+  combineMiningBoostMultipliers,
+  EMPLOYEE_MINING_BOOST_SOURCES,
+  evaluateMiningBoosts,
+  MAX_MINING_BOOST_MULTIPLIER,
+  MINING_BOOST_LOOKBACK_DAYS,
+  MINING_BOOST_SOURCE_LABELS,
+  MINING_BOOST_SOURCES,
+  type MiningBoostSource,
+  type MiningBoostStatus,
+} from '@shared/mining-boosts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Mining speed boosts earned from real work. Each source (recent jobs, review average, referrals, work
+ * streak) is re-evaluated from the user's activity and stored in mining_boosts with its multiplier and
+ * expiry; claims are paid at the combined multiplier, so a boost counts exactly while it's earned
+ */
+export class MiningBoostService {
+  /**
+   * Re-evaluates every source the user can earn from, records the boosts they hold now and returns
+   * the combined multiplier along with how to reach each source's next tier
+   */
+  async refreshBoosts(userId: string): Promise<MiningBoostStatus> {
+    const now = new Date();
+    const user = await storage.getUser(userId);
+    // Customers can only earn referral boosts; the rest come from jobs and reviews
+    const sources: MiningBoostSource[] = MINING_BOOST_SOURCES.filter(
+      (source) => user?.role !== 'customer' || !EMPLOYEE_MINING_BOOST_SOURCES.includes(source)
+    );
+
+    const activity = await storage.getMiningBoostActivity(userId, new Date(now.getTime() - MINING_BOOST_LOOKBACK_DAYS * DAY_MS));
+    const evaluations = evaluateMiningBoosts(sources, activity, now);
+
+    const earned: EarnedMiningBoost[] = [];
+    for (const evaluation of evaluations) {
+      if (evaluation.tier && evaluation.expiresAt && evaluation.description) {
+        earned.push({
+          source: evaluation.source,
+          multiplier: evaluation.tier.multiplier.toFixed(2),
+          description: evaluation.description,
+          expiresAt: evaluation.expiresAt,
+        });
+      }
+    }
+    const boosts = await storage.replaceMiningBoosts(userId, earned);
+
+    return {
+      multiplier: combineMiningBoostMultipliers(boosts.map((boost) => parseFloat(boost.multiplier))),
+      maxMultiplier: MAX_MINING_BOOST_MULTIPLIER,
+      boosts: boosts.map((boost) => ({
+        source: boost.source as MiningBoostSource,
+        label: MINING_BOOST_SOURCE_LABELS[boost.source as MiningBoostSource] || boost.source,
+        multiplier: parseFloat(boost.multiplier),
+        description: boost.description,
+        earnedAt: boost.createdAt.toISOString(),
+        expiresAt: boost.expiresAt.toISOString(),
+      })),
+      progress: evaluations.map((evaluation) => ({
+        source: evaluation.source,
+        label: MINING_BOOST_SOURCE_LABELS[evaluation.source],
+        value: evaluation.value,
+        multiplier: evaluation.tier?.multiplier ?? null,
+        nextTier: evaluation.nextTier,
+        hint: evaluation.hint,
+      })),
+    };
+  }
+}
+
+// Export singleton instance
+export const miningBoostService = new MiningBoostService();
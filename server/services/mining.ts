@@ -2,14 +2,23 @@ import { db } from "../db";
 import { miningSessions, miningClaims, walletAccounts, reserveTransactions, treasuryAccounts, users } from "@shared/schema";
 import { eq, and, sql } from "drizzle-orm";
 import { treasuryService } from "./treasury";
-
-// Mining configuration - 1728 JCMOVES per 24 hours (0.02 per second)
-const MINING_CONFIG = {
-  TOKENS_PER_SECOND: 0.02, // 0.02 JCMOVES per second
-  TOKENS_PER_24_HOURS: 1728, // 0.02 * 60 * 60 * 24 = 1728 tokens
-  CYCLE_DURATION_HOURS: 24,
-  CYCLE_DURATION_MS: 24 * 60 * 60 * 1000, // 24 hours in milliseconds
-};
+import { priceOracle } from "./price-oracle";
+import { postLedgerEntry } from "../storage";
+import { achievementService } from "./achievements";
+import { gamificationConfigService } from "./gamification-config";
+import { miningBoostService } from "./mining-boosts";
+import { getLedgerAccountKey, systemLedgerAccount, userRewardsAccount } from "@shared/ledger";
+
+// Mining rate, claim cycle and streak bonus come from the gamification settings (see GamificationConfigService)
+async function getMiningConfig() {
+  const settings = await gamificationConfigService.getSettings();
+  return {
+    tokensPerSecond: settings.miningTokensPerSecond,
+    cycleHours: settings.miningCycleHours,
+    cycleDurationMs: settings.miningCycleHours * 60 * 60 * 1000,
+    streakBonusPerDay: settings.miningStreakBonusPerDay,
+  };
+}
 
 export class MiningService {
   /**
@@ -73,7 +82,8 @@ export class MiningService {
     }
 
     // Create new mining session
-    const nextClaimAt = new Date(Date.now() + MINING_CONFIG.CYCLE_DURATION_MS);
+    const { cycleDurationMs } = await getMiningConfig();
+    const nextClaimAt = new Date(Date.now() + cycleDurationMs);
     
     const [session] = await db
       .insert(miningSessions)
@@ -82,14 +92,13 @@ export class MiningService {
         startTime: new Date(),
         lastClaimTime: new Date(),
         nextClaimAt,
-        miningSpeed: "1.00",
         status: "active",
       })
       .returning();
 
     return {
       session,
-      timeRemaining: MINING_CONFIG.CYCLE_DURATION_MS,
+      timeRemaining: cycleDurationMs,
       accumulatedTokens: "0.00000000",
     };
   }
@@ -111,23 +120,24 @@ export class MiningService {
   }
 
   /**
-   * Calculate accumulated tokens since last claim
+   * Calculate accumulated tokens since last claim, at the base rate
+   * Mining boosts are applied on top when the tokens are claimed
    */
   async calculateAccumulatedTokens(session: any): Promise<string> {
     const now = Date.now();
     const lastClaim = new Date(session.lastClaimTime).getTime();
     const secondsElapsed = Math.floor((now - lastClaim) / 1000);
     
-    // Calculate tokens: seconds * rate * speed multiplier
-    const miningSpeed = parseFloat(session.miningSpeed || "1.00");
-    const tokensEarned = secondsElapsed * MINING_CONFIG.TOKENS_PER_SECOND * miningSpeed;
+    // Calculate tokens: seconds * rate
+    const { tokensPerSecond, cycleHours } = await getMiningConfig();
+    const tokensEarned = secondsElapsed * tokensPerSecond;
     
     // Add to previously accumulated tokens
     const previousAccumulated = parseFloat(session.accumulatedTokens || "0");
     const totalAccumulated = previousAccumulated + tokensEarned;
     
-    // Cap at 24-hour maximum
-    const maxTokens = MINING_CONFIG.TOKENS_PER_24_HOURS * miningSpeed;
+    // Cap at one claim cycle's worth
+    const maxTokens = tokensPerSecond * cycleHours * 60 * 60;
     const cappedTokens = Math.min(totalAccumulated, maxTokens);
     
     return cappedTokens.toFixed(8);
@@ -146,7 +156,7 @@ export class MiningService {
 
   /**
    * Calculate streak bonus for consecutive daily claims
-   * +1% multiplier per day that accumulates continuously
+   * The miningStreakBonusPerDay setting accumulates continuously, e.g. at 0.01:
    * Day 1: 1.00x (0% bonus), Day 2: 1.01x (1% bonus), Day 3: 1.02x (2% bonus), etc.
    */
   async calculateStreakBonus(session: any, baseTokens: number): Promise<{
@@ -177,10 +187,10 @@ export class MiningService {
       streakCount = 1; // First claim ever
     }
     
-    // Calculate bonus: +1% per day accumulates continuously
-    // Day 1: 0% bonus, Day 2: 1% bonus, Day 3: 2% bonus, etc.
-    // Bonus = baseTokens × (streakCount - 1) × 0.01
-    const bonusPercentage = (streakCount - 1) * 0.01; // 0%, 1%, 2%, 3%, etc.
+    // Calculate bonus: accumulates continuously per consecutive day
+    // Bonus = baseTokens × (streakCount - 1) × streakBonusPerDay
+    const { streakBonusPerDay } = await getMiningConfig();
+    const bonusPercentage = (streakCount - 1) * streakBonusPerDay;
     const streakBonus = baseTokens * bonusPercentage;
     
     return { streakCount, streakBonus };
@@ -188,7 +198,8 @@ export class MiningService {
 
   /**
    * Claim accumulated tokens (manual or automatic)
-   * Now includes streak bonuses for consecutive daily claims
+   * Includes streak bonuses for consecutive daily claims, and mining boosts earned from
+   * recent work at the combined multiplier they add up to at claim time
    * Protected against double-claiming with database row locking
    */
   async claimTokens(userId: string, claimType: 'auto' | 'manual' = 'manual'): Promise<{
@@ -197,6 +208,8 @@ export class MiningService {
     newBalance: string;
     streakCount?: number;
     streakBonus?: string;
+    boostMultiplier?: number;
+    boostTokens?: string;
     error?: string;
   }> {
     // Check if user is approved to claim tokens (before transaction)
@@ -210,8 +223,17 @@ export class MiningService {
       };
     }
 
+    // Boosts are re-evaluated from the user's activity right now, so expired ones no longer count
+    let boostStatus;
+    try {
+      boostStatus = await miningBoostService.refreshBoosts(userId);
+    } catch (error) {
+      console.error("Error refreshing mining boosts:", error);
+      return { success: false, tokensClaimed: "0", newBalance: "0", error: "Failed to work out mining boosts" };
+    }
+
     // Wrap entire claim operation in a transaction for data integrity
-    return await db.transaction(async (tx) => {
+    const result = await db.transaction(async (tx) => {
       try {
         // Use FOR UPDATE lock to prevent concurrent claims - transaction ensures lock is held
         const [session] = await tx
@@ -240,6 +262,7 @@ export class MiningService {
         }
 
       // Calculate base tokens to claim
+      const miningConfig = await getMiningConfig();
       const baseTokensStr = await this.calculateAccumulatedTokens(session);
       const baseTokens = parseFloat(baseTokensStr);
 
@@ -249,14 +272,16 @@ export class MiningService {
 
       // Calculate streak and bonus
       const { streakCount, streakBonus } = await this.calculateStreakBonus(session, baseTokens);
-      const totalTokens = baseTokens + streakBonus;
+      const boostTokens = baseTokens * (boostStatus.multiplier - 1);
+      const totalTokens = baseTokens + boostTokens + streakBonus;
       const tokensToClaim = totalTokens;
 
-      // Get current token price for treasury deduction
-      const tokenPrice = await this.getCurrentTokenPrice();
+      // Record the token price the claim is paid at
+      const recordedPrice = await priceOracle.recordPrice('reward', { relatedEntityType: 'mining_claim', relatedEntityId: session.id });
+      const tokenPrice = recordedPrice.price;
 
       // Check if treasury can distribute tokens
-      const canDistribute = await treasuryService.canDistributeTokens(tokensToClaim);
+      const canDistribute = await treasuryService.canDistributeTokens(tokensToClaim, tokenPrice);
       if (!canDistribute.canDistribute) {
         return { 
           success: false, 
@@ -271,7 +296,9 @@ export class MiningService {
         tokensToClaim,
         `Mining claim - ${claimType}`,
         'mining_claim',
-        session.id
+        session.id,
+        systemLedgerAccount('mining_pool'),
+        recordedPrice
       );
 
       if (!distributionResult.success) {
@@ -283,34 +310,25 @@ export class MiningService {
         };
       }
 
-        // Credit user wallet (within transaction)
-        const [wallet] = await tx
-          .select()
-          .from(walletAccounts)
-          .where(eq(walletAccounts.userId, userId))
-          .limit(1);
+        // Pay the claim out of the mining pool into the user's wallet (within transaction)
+        const walletAccount = userRewardsAccount(userId);
+        const posted = await postLedgerEntry(tx, {
+          entryType: 'mining_claim',
+          description: `Mining claim - ${claimType}`,
+          relatedEntityType: 'mining_session',
+          relatedEntityId: session.id,
+          createdBy: userId,
+          postings: [
+            { account: systemLedgerAccount('mining_pool'), amount: -tokensToClaim },
+            { account: walletAccount, amount: tokensToClaim },
+          ],
+        });
+        const newBalance = parseFloat(posted.balances[getLedgerAccountKey(walletAccount)]);
 
-        const currentBalance = parseFloat(wallet?.tokenBalance || "0");
-        const newBalance = currentBalance + tokensToClaim;
-
-        if (wallet) {
-          await tx
-            .update(walletAccounts)
-            .set({
-              tokenBalance: newBalance.toFixed(8),
-              totalEarned: sql`${walletAccounts.totalEarned} + ${tokensToClaim}`,
-              lastActivity: new Date(),
-            })
-            .where(eq(walletAccounts.userId, userId));
-        } else {
-          // Create wallet if it doesn't exist
-          await tx.insert(walletAccounts).values({
-            userId,
-            tokenBalance: tokensToClaim.toFixed(8),
-            totalEarned: tokensToClaim.toFixed(8),
-            cashBalance: "0.00",
-          });
-        }
+        await tx
+          .update(walletAccounts)
+          .set({ totalEarned: sql`${walletAccounts.totalEarned} + ${tokensToClaim}` })
+          .where(eq(walletAccounts.userId, userId));
 
         // Record the claim (within transaction)
         await tx.insert(miningClaims).values({
@@ -334,11 +352,17 @@ export class MiningService {
             baseTokens: baseTokens.toFixed(8),
             streakBonus: streakBonus.toFixed(8),
             streakCount,
+            boostMultiplier: boostStatus.multiplier,
+            boostTokens: boostTokens.toFixed(8),
+            boosts: boostStatus.boosts.map((boost) => ({ source: boost.source, multiplier: boost.multiplier })),
+            // The settings it was mined under, for the gamification impact preview
+            tokensPerSecond: miningConfig.tokensPerSecond,
+            cycleHours: miningConfig.cycleHours,
           },
         });
 
-        // Update session for next 24-hour cycle with streak tracking (within transaction)
-        const nextClaimAt = new Date(Date.now() + MINING_CONFIG.CYCLE_DURATION_MS);
+        // Update session for the next claim cycle with streak tracking (within transaction)
+        const nextClaimAt = new Date(Date.now() + miningConfig.cycleDurationMs);
         const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
         
         await tx
@@ -359,6 +383,8 @@ export class MiningService {
         newBalance: newBalance.toFixed(8),
         streakCount,
         streakBonus: streakBonus.toFixed(8),
+        boostMultiplier: boostStatus.multiplier,
+        boostTokens: boostTokens.toFixed(8),
       };
       } catch (error) {
         console.error("Error claiming mining tokens:", error);
@@ -370,25 +396,12 @@ export class MiningService {
         };
       }
     });
-  }
 
-  /**
-   * Get current token price (from latest price history or default)
-   */
-  async getCurrentTokenPrice(): Promise<number> {
-    try {
-      const { priceHistory } = await import("@shared/schema");
-      const [latestPrice] = await db
-        .select()
-        .from(priceHistory)
-        .orderBy(sql`${priceHistory.createdAt} DESC`)
-        .limit(1);
-
-      return latestPrice ? parseFloat(latestPrice.priceUsd) : 0.00000508432;
-    } catch (error) {
-      console.error("Error getting token price:", error);
-      return 0.00000508432; // Default fallback price
+    // Evaluated once the claim has committed, so the new streak and claim count are visible
+    if (result.success) {
+      await achievementService.evaluate(userId, 'mining_claim');
     }
+    return result;
   }
 
   /**
@@ -426,11 +439,13 @@ export class MiningService {
     accumulatedTokens: string;
     timeRemaining: number;
     totalClaimedToday: string;
-    miningSpeed: string;
     streakCount: number;
     nextStreakBonus: string;
+    tokensPerSecond: number;
+    cycleHours: number;
   }> {
     const session = await this.getActiveSession(userId);
+    const { tokensPerSecond, cycleHours } = await getMiningConfig();
     
     if (!session) {
       return {
@@ -438,9 +453,10 @@ export class MiningService {
         accumulatedTokens: "0.00000000",
         timeRemaining: 0,
         totalClaimedToday: "0.00000000",
-        miningSpeed: "1.00",
         streakCount: 0,
         nextStreakBonus: "0.00000000",
+        tokensPerSecond,
+        cycleHours,
       };
     }
 
@@ -472,9 +488,10 @@ export class MiningService {
       accumulatedTokens,
       timeRemaining,
       totalClaimedToday,
-      miningSpeed: session.miningSpeed || "1.00",
       streakCount,
       nextStreakBonus: streakBonus.toFixed(8),
+      tokensPerSecond,
+      cycleHours,
     };
   }
 }
@@ -1,8 +1,8 @@
 // Moonshot DEX API integration for token data and pricing + account transfers for funding
 import axios from 'axios';
 import { z } from "zod";
-
-const MOONSHOT_API_BASE = 'https://api.moonshot.cc';
+import { priceOracle } from './price-oracle';
+import { PRICE_ORACLE_CONFIG } from '../constants';
 
 // Moonshot funding configuration
 const MOONSHOT_FUNDING_CONFIG = {
@@ -65,29 +65,10 @@ export class MoonshotService {
     }
   }
 
+  // Display price from the oracle; throws PriceOracleError when no recent price is available
   async getTokenPrice(): Promise<number> {
-    try {
-      if (!this.tokenAddress) {
-        throw new Error('Moonshot token address not configured');
-      }
-
-      // Use DexScreener API directly for price (more reliable)
-      const tokenData = await this.getTokenData();
-      if (tokenData && tokenData.priceUsd) {
-        return parseFloat(tokenData.priceUsd);
-      }
-
-      // Fallback to older endpoint if DexScreener fails
-      const response = await axios.get<TokenData>(
-        `${MOONSHOT_API_BASE}/token/v1/solana/${this.tokenAddress}`
-      );
-
-      return parseFloat(response.data.priceUsd);
-    } catch (error) {
-      console.error('Error fetching token price:', error);
-      // Return fallback price if API fails - use current JCMOVES market price
-      return 0.00000508432; // JCMOVES price from Moonshot wallet
-    }
+    const { price } = await priceOracle.getPrice({ maxStalenessMs: PRICE_ORACLE_CONFIG.DISPLAY_MAX_STALENESS_MS });
+    return price;
   }
 
   // Get enriched token data for UI with price changes and volume
@@ -278,7 +259,10 @@ export class MoonshotService {
 
       const timestamp = new Date().toISOString();
       const tokenAmount = parseFloat(originalRequest.tokenAmount);
-      const currentPrice = await this.getTokenPrice();
+      const { price: currentPrice } = await priceOracle.recordPrice('treasury_deposit', {
+        relatedEntityType: 'moonshot_transfer',
+        relatedEntityId: transferHash,
+      });
       const usdValue = tokenAmount * currentPrice;
       
       const metadata: MoonshotAccountMetadata = {
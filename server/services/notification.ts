@@ -11,7 +11,7 @@ webpush.setVapidDetails(
 
 export interface NotificationData {
   userId: string;
-  type: 'job_assigned' | 'job_status_change' | 'new_message' | 'system_alert';
+  type: 'job_assigned' | 'job_status_change' | 'new_message' | 'system_alert' | 'quote_response';
   title: string;
   message: string;
   data?: any;
@@ -122,6 +122,26 @@ export class NotificationService {
       console.error('Error notifying all employees:', error);
     }
   }
+
+  // Notify admins and business owners (e.g. when a customer answers a quote)
+  async notifyBusinessOwners(type: NotificationData['type'], title: string, message: string, data?: any): Promise<void> {
+    try {
+      const users = await storage.getAllUsers();
+      const owners = users.filter(user => user.role === 'admin' || user.role === 'business_owner');
+
+      for (const owner of owners) {
+        await this.sendNotification({
+          userId: owner.id,
+          type,
+          title,
+          message,
+          data,
+        });
+      }
+    } catch (error) {
+      console.error('Error notifying business owners:', error);
+    }
+  }
 }
 
 export const notificationService = new NotificationService();
\ No newline at end of file
@@ -0,0 +1,325 @@
+// Payout providers for cash-outs: ACH through Request Network, PayPal Payouts, FaucetPay, and a fake provider for development
+import axios from 'axios';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { getFaucetPayService } from './faucetpay';
+import { CASHOUT_CONFIG } from '../constants';
+import { PAYOUT_METHODS, type PayoutDetails, type PayoutMethod } from '@shared/cashouts';
+
+export interface PayoutOrder {
+  cashoutId: string; // Sent to the provider as its reference, so resubmitting the same cash-out can't pay twice
+  userId: string;
+  amountUsd: number;
+  method: PayoutMethod;
+  details: PayoutDetails;
+}
+
+export interface PayoutStatusUpdate {
+  status: 'processing' | 'completed' | 'failed';
+  externalId?: string;
+  failureReason?: string;
+}
+
+// A status change reported by a webhook. Providers echo back our cash-out id, their own id, or both
+export interface PayoutWebhookEvent extends PayoutStatusUpdate {
+  cashoutId?: string;
+}
+
+/**
+ * Sends cash-out payouts. submit returns 'failed' when the provider definitely rejected the payout
+ * and throws when the outcome is unknown (timeouts, 5xx), so the caller can hold the request for
+ * review rather than refund tokens for a payout that may have gone out
+ */
+export interface PayoutProvider {
+  name: string;
+  methods: PayoutMethod[];
+  isConfigured(): boolean;
+  submit(order: PayoutOrder): Promise<PayoutStatusUpdate & { externalId: string }>;
+  getStatus?(externalId: string): Promise<PayoutStatusUpdate>;
+  parseWebhook?(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PayoutWebhookEvent[]>;
+}
+
+const header = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+function verifyHmac(rawBody: Buffer, secret: string, signature: string | undefined): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// 4xx means the provider looked at the payout and refused it; anything else might still go through
+function isRejection(error: unknown): boolean {
+  return axios.isAxiosError(error) && !!error.response && error.response.status >= 400 && error.response.status < 500;
+}
+
+function rejectionReason(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as any;
+    return data?.message || data?.error_description || data?.name || error.message;
+  }
+  return error instanceof Error ? error.message : 'Payout rejected';
+}
+
+/**
+ * ACH bank payouts through Request Network's crypto-to-fiat API
+ */
+class RequestNetworkAchProvider implements PayoutProvider {
+  name = 'request_network';
+  methods: PayoutMethod[] = ['ach'];
+  private baseUrl = process.env.NODE_ENV === 'production' ? 'https://api.request.network' : 'https://api-sandbox.request.network';
+
+  isConfigured(): boolean {
+    return !!process.env.REQUEST_TECH_API_KEY;
+  }
+
+  async submit(order: PayoutOrder): Promise<PayoutStatusUpdate & { externalId: string }> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/crypto-to-fiat`,
+        {
+          clientUserId: order.userId,
+          clientReference: order.cashoutId,
+          amount: order.amountUsd,
+          currency: 'USD',
+          cryptoCurrency: 'USDC', // Convert through USDC
+          bankAccount: order.details,
+          isCryptoToFiatAllowed: true,
+        },
+        { headers: this.headers(), timeout: 30000 },
+      );
+      return { externalId: response.data.id, ...this.toUpdate(response.data) };
+    } catch (error) {
+      if (!isRejection(error)) throw error;
+      return { externalId: `rejected_${order.cashoutId}`, status: 'failed', failureReason: rejectionReason(error) };
+    }
+  }
+
+  async getStatus(externalId: string): Promise<PayoutStatusUpdate> {
+    const response = await axios.get(`${this.baseUrl}/crypto-to-fiat/${externalId}`, { headers: this.headers(), timeout: 30000 });
+    return this.toUpdate(response.data);
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PayoutWebhookEvent[]> {
+    const secret = process.env.REQUEST_TECH_WEBHOOK_SECRET;
+    if (!secret || !verifyHmac(rawBody, secret, header(headers, 'x-request-signature'))) {
+      throw new Error('Invalid Request Network webhook signature');
+    }
+    const event = JSON.parse(rawBody.toString());
+    return [{ externalId: event.id, cashoutId: event.clientReference, ...this.toUpdate(event) }];
+  }
+
+  private headers() {
+    return { 'Authorization': `Bearer ${process.env.REQUEST_TECH_API_KEY}`, 'Content-Type': 'application/json' };
+  }
+
+  private toUpdate(data: { status: string; failureReason?: string }): PayoutStatusUpdate {
+    if (data.status === 'completed') return { status: 'completed' };
+    if (data.status === 'failed') return { status: 'failed', failureReason: data.failureReason || 'Bank transfer failed' };
+    return { status: 'processing' };
+  }
+}
+
+/**
+ * PayPal Payouts to the user's PayPal email, one batch per cash-out
+ */
+class PayPalPayoutProvider implements PayoutProvider {
+  name = 'paypal';
+  methods: PayoutMethod[] = ['paypal'];
+  private baseUrl = process.env.PAYPAL_MODE === 'live' ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com';
+  private token: { value: string; expiresAt: number } | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.PAYPAL_CLIENT_ID && !!process.env.PAYPAL_CLIENT_SECRET;
+  }
+
+  async submit(order: PayoutOrder): Promise<PayoutStatusUpdate & { externalId: string }> {
+    if (order.method !== 'paypal' || !('email' in order.details)) {
+      return { externalId: `rejected_${order.cashoutId}`, status: 'failed', failureReason: 'PayPal payouts need a PayPal email' };
+    }
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/v1/payments/payouts`,
+        {
+          sender_batch_header: {
+            sender_batch_id: order.cashoutId, // PayPal refuses a reused batch id, so a retry can't pay twice
+            email_subject: 'Your JC ON THE MOVE cash-out',
+          },
+          items: [{
+            recipient_type: 'EMAIL',
+            receiver: order.details.email,
+            amount: { value: order.amountUsd.toFixed(2), currency: 'USD' },
+            sender_item_id: order.cashoutId,
+          }],
+        },
+        { headers: await this.headers(), timeout: 30000 },
+      );
+      return { externalId: response.data.batch_header.payout_batch_id, status: 'processing' };
+    } catch (error) {
+      if (!isRejection(error)) throw error;
+      return { externalId: `rejected_${order.cashoutId}`, status: 'failed', failureReason: rejectionReason(error) };
+    }
+  }
+
+  async getStatus(externalId: string): Promise<PayoutStatusUpdate> {
+    const response = await axios.get(`${this.baseUrl}/v1/payments/payouts/${externalId}`, { headers: await this.headers(), timeout: 30000 });
+    const item = response.data.items?.[0];
+    return item ? this.toUpdate(item.transaction_status, item.errors?.message) : { status: 'processing' };
+  }
+
+  // PayPal signs with a certificate, so the event is checked with PayPal's verification endpoint
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PayoutWebhookEvent[]> {
+    const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+    if (!webhookId) {
+      throw new Error('PAYPAL_WEBHOOK_ID not configured');
+    }
+    const event = JSON.parse(rawBody.toString());
+    const verification = await axios.post(
+      `${this.baseUrl}/v1/notifications/verify-webhook-signature`,
+      {
+        auth_algo: header(headers, 'paypal-auth-algo'),
+        cert_url: header(headers, 'paypal-cert-url'),
+        transmission_id: header(headers, 'paypal-transmission-id'),
+        transmission_sig: header(headers, 'paypal-transmission-sig'),
+        transmission_time: header(headers, 'paypal-transmission-time'),
+        webhook_id: webhookId,
+        webhook_event: event,
+      },
+      { headers: await this.headers(), timeout: 30000 },
+    );
+    if (verification.data.verification_status !== 'SUCCESS') {
+      throw new Error('Invalid PayPal webhook signature');
+    }
+
+    if (typeof event.event_type !== 'string' || !event.event_type.startsWith('PAYMENT.PAYOUTS-ITEM.')) {
+      return [];
+    }
+    const resource = event.resource || {};
+    return [{
+      externalId: resource.payout_batch_id,
+      cashoutId: resource.payout_item?.sender_item_id,
+      ...this.toUpdate(resource.transaction_status, resource.errors?.message),
+    }];
+  }
+
+  private toUpdate(transactionStatus: string, error?: string): PayoutStatusUpdate {
+    if (transactionStatus === 'SUCCESS') return { status: 'completed' };
+    if (['FAILED', 'RETURNED', 'BLOCKED', 'REFUNDED', 'REVERSED', 'DENIED'].includes(transactionStatus)) {
+      return { status: 'failed', failureReason: error || `PayPal payout ${transactionStatus.toLowerCase()}` };
+    }
+    return { status: 'processing' }; // PENDING, UNCLAIMED (returned by PayPal after 30 days), ONHOLD
+  }
+
+  private async headers() {
+    if (!this.token || this.token.expiresAt < Date.now()) {
+      const response = await axios.post(`${this.baseUrl}/v1/oauth2/token`, 'grant_type=client_credentials', {
+        auth: { username: process.env.PAYPAL_CLIENT_ID!, password: process.env.PAYPAL_CLIENT_SECRET! },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: 30000,
+      });
+      // Refreshed a minute early so a token never expires mid-request
+      this.token = { value: response.data.access_token, expiresAt: Date.now() + (response.data.expires_in - 60) * 1000 };
+    }
+    return { 'Authorization': `Bearer ${this.token.value}`, 'Content-Type': 'application/json' };
+  }
+}
+
+/**
+ * Crypto payouts to a FaucetPay account, paid in a USD stablecoin. FaucetPay settles instantly
+ */
+class FaucetPayPayoutProvider implements PayoutProvider {
+  name = 'faucetpay';
+  methods: PayoutMethod[] = ['faucetpay'];
+
+  isConfigured(): boolean {
+    return !!getFaucetPayService();
+  }
+
+  async submit(order: PayoutOrder): Promise<PayoutStatusUpdate & { externalId: string }> {
+    const faucetPay = getFaucetPayService();
+    if (!faucetPay || !('recipient' in order.details)) {
+      return { externalId: `rejected_${order.cashoutId}`, status: 'failed', failureReason: 'FaucetPay is not available' };
+    }
+    try {
+      const result = await faucetPay.sendPayment({
+        amount: Math.round(order.amountUsd * 100000000), // FaucetPay amounts are in 1e-8 units for every currency
+        to: order.details.recipient,
+        currency: CASHOUT_CONFIG.FAUCETPAY_CURRENCY,
+      });
+      return { externalId: String(result.payout_id), status: 'completed' };
+    } catch (error) {
+      // FaucetPayService throws "FaucetPay error (...)" when the API answered and refused the payment
+      if (error instanceof Error && error.message.startsWith('FaucetPay error')) {
+        return { externalId: `rejected_${order.cashoutId}`, status: 'failed', failureReason: error.message };
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stands in for any provider when CASHOUT_FAKE_PROVIDER_ENABLED=true outside production. CASHOUT_FAKE_OUTCOME
+ * decides whether payouts complete or fail on the next status check, or wait for a signed webhook ('manual')
+ */
+export class FakePayoutProvider implements PayoutProvider {
+  name = 'fake';
+  methods: PayoutMethod[] = [...PAYOUT_METHODS];
+  private outcomes = new Map<string, PayoutStatusUpdate>();
+
+  isConfigured(): boolean {
+    return CASHOUT_CONFIG.FAKE_PROVIDER_ENABLED;
+  }
+
+  async submit(order: PayoutOrder): Promise<PayoutStatusUpdate & { externalId: string }> {
+    const externalId = `fake_${order.cashoutId}`;
+    console.log(`[FAKE PAYOUT] ${order.method} payout of $${order.amountUsd.toFixed(2)} for cash-out ${order.cashoutId}`);
+    if (CASHOUT_CONFIG.FAKE_OUTCOME === 'complete') {
+      this.outcomes.set(externalId, { status: 'completed' });
+    } else if (CASHOUT_CONFIG.FAKE_OUTCOME === 'fail') {
+      this.outcomes.set(externalId, { status: 'failed', failureReason: 'Fake provider is set to fail payouts' });
+    }
+    return { externalId, status: 'processing' };
+  }
+
+  async getStatus(externalId: string): Promise<PayoutStatusUpdate> {
+    return this.outcomes.get(externalId) || { status: 'processing' };
+  }
+
+  // Body { externalId, status, failureReason? }, signed like the other HMAC webhooks with CASHOUT_FAKE_WEBHOOK_SECRET
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PayoutWebhookEvent[]> {
+    const secret = CASHOUT_CONFIG.FAKE_WEBHOOK_SECRET;
+    if (!this.isConfigured() || !secret || !verifyHmac(rawBody, secret, header(headers, 'x-fake-signature'))) {
+      throw new Error('Invalid fake payout webhook signature');
+    }
+    const event = JSON.parse(rawBody.toString());
+    return [{ externalId: event.externalId, status: event.status, failureReason: event.failureReason }];
+  }
+
+  // Settle a payout the next time its status is checked
+  setOutcome(externalId: string, outcome: PayoutStatusUpdate): void {
+    this.outcomes.set(externalId, outcome);
+  }
+}
+
+export const fakePayoutProvider = new FakePayoutProvider();
+
+const payoutProviders = new Map<string, PayoutProvider>(
+  [new RequestNetworkAchProvider(), new PayPalPayoutProvider(), new FaucetPayPayoutProvider(), fakePayoutProvider]
+    .map((provider) => [provider.name, provider]),
+);
+
+export function getPayoutProvider(name: string): PayoutProvider | undefined {
+  return payoutProviders.get(name);
+}
+
+// The provider that sends a method's payouts right now, or undefined when the method is unavailable
+export function getPayoutProviderForMethod(method: PayoutMethod): PayoutProvider | undefined {
+  const provider = payoutProviders.get(CASHOUT_CONFIG.PROVIDERS[method]);
+  if (provider?.isConfigured() && provider.methods.includes(method)) {
+    return provider;
+  }
+  return fakePayoutProvider.isConfigured() ? fakePayoutProvider : undefined;
+}
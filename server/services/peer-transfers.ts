@@ -0,0 +1,174 @@
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { notificationService } from './notification';
+import { fraudDetectionService } from './fraud-detection';
+import { PEER_TRANSFER_CONFIG } from '../constants';
+import { LedgerError } from '@shared/ledger';
+import {
+  getPeerTransferDayStart,
+  PeerTransferError,
+  type PeerTransferErrorCode,
+  type PeerTransferInput,
+  type PeerTransferOverview,
+  type PeerTransferSummary,
+} from '@shared/peer-transfers';
+import type { PeerTransfer, User } from '@shared/schema';
+
+export interface PeerTransferResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: PeerTransferErrorCode;
+}
+
+// Where the request came from, for fraud scoring
+export interface PeerTransferContext {
+  ipAddress: string;
+  userAgent: string;
+}
+
+function displayName(user: User | undefined, fallback: string): string {
+  if (!user) return fallback;
+  return user.username || [user.firstName, user.lastName].filter(Boolean).join(' ') || fallback;
+}
+
+function toSummary(transfer: PeerTransfer, userId: string, counterparty: User | undefined): PeerTransferSummary {
+  const sent = transfer.senderId === userId;
+  const counterpartyId = sent ? transfer.recipientId : transfer.senderId;
+  return {
+    id: transfer.id,
+    direction: sent ? 'sent' : 'received',
+    counterparty: { id: counterpartyId, name: displayName(counterparty, 'Former user') },
+    amount: transfer.amount,
+    memo: transfer.memo,
+    createdAt: transfer.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Lets users send JCMOVES from their rewards balance to another user, found by username or referral code.
+ *
+ * Each transfer is scored by FraudDetectionService first: flagged attempts are logged to fraud_logs and
+ * blocked ones go no further. The daily limits, the balance check and the ledger entry moving the tokens
+ * all happen in one transaction, so concurrent transfers can't overspend or slip past a limit.
+ */
+class PeerTransferService {
+  async getOverview(userId: string): Promise<PeerTransferOverview> {
+    const [wallet, usage, transfers] = await Promise.all([
+      storage.getWalletAccount(userId),
+      storage.getPeerTransferUsage(userId, getPeerTransferDayStart()),
+      storage.getPeerTransfers(userId, PEER_TRANSFER_CONFIG.HISTORY_LIMIT),
+    ]);
+
+    const users = new Map<string, User | undefined>();
+    for (const id of Array.from(new Set(transfers.map((transfer) => transfer.senderId === userId ? transfer.recipientId : transfer.senderId)))) {
+      users.set(id, await storage.getUser(id));
+    }
+
+    return {
+      availableTokens: wallet?.tokenBalance || '0',
+      limits: {
+        minAmount: PEER_TRANSFER_CONFIG.MIN_AMOUNT,
+        dailyTokens: PEER_TRANSFER_CONFIG.DAILY_LIMIT_TOKENS,
+        dailyCount: PEER_TRANSFER_CONFIG.DAILY_COUNT_LIMIT,
+        ...usage,
+      },
+      transfers: transfers.map((transfer) =>
+        toSummary(transfer, userId, users.get(transfer.senderId === userId ? transfer.recipientId : transfer.senderId))),
+    };
+  }
+
+  async sendTransfer(senderId: string, input: PeerTransferInput, context: PeerTransferContext): Promise<PeerTransferResult<PeerTransferSummary>> {
+    // Ledger amounts have 8 decimals; anything finer is dropped rather than rounded up
+    const amount = Math.floor(input.amount * 1e8) / 1e8;
+    if (amount < PEER_TRANSFER_CONFIG.MIN_AMOUNT) {
+      return { success: false, code: 'invalid_amount', error: `Minimum transfer is ${PEER_TRANSFER_CONFIG.MIN_AMOUNT} JCMOVES` };
+    }
+
+    const [sender, recipient] = await Promise.all([
+      storage.getUser(senderId),
+      storage.getUserByUsernameOrReferralCode(input.recipient),
+    ]);
+    if (!recipient || recipient.status === 'removed') {
+      return { success: false, code: 'recipient_not_found', error: 'No user with that username or referral code' };
+    }
+    if (recipient.id === senderId) {
+      return { success: false, code: 'self_transfer', error: "You can't send JCMOVES to yourself" };
+    }
+
+    const wallet = await storage.getWalletAccount(senderId);
+    const fraudCheck = await fraudDetectionService.analyzeTransferAttempt({
+      senderId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      amount,
+      senderBalance: parseFloat(wallet?.tokenBalance || '0'),
+      senderCreatedAt: sender?.createdAt || new Date(),
+      recipientCreatedAt: recipient.createdAt || new Date(),
+      newAccountDays: PEER_TRANSFER_CONFIG.NEW_ACCOUNT_DAYS,
+      timestamp: new Date(),
+    });
+
+    if (fraudCheck.actionTaken !== 'allowed') {
+      await storage.createFraudLog({
+        userId: senderId,
+        eventType: 'peer_transfer_attempt',
+        riskScore: fraudCheck.riskScore,
+        details: { reasons: fraudCheck.reasons, recipientId: recipient.id, amount },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        actionTaken: fraudCheck.actionTaken,
+      });
+    }
+    if (fraudCheck.blocked) {
+      await notificationService.notifyBusinessOwners(
+        'system_alert',
+        'Transfer blocked',
+        `${displayName(sender, senderId)} tried to send ${amount} JCMOVES to ${displayName(recipient, recipient.id)}: ${fraudCheck.reasons.join(', ')}`,
+        { senderId, recipientId: recipient.id },
+      );
+      return { success: false, code: 'blocked', error: 'This transfer was blocked. Please try again later or contact support.' };
+    }
+
+    let transfer: PeerTransfer;
+    try {
+      transfer = await storage.recordPeerTransfer(
+        {
+          id: randomUUID(),
+          senderId,
+          recipientId: recipient.id,
+          amount: amount.toFixed(8),
+          memo: input.memo || null,
+          riskScore: fraudCheck.riskScore,
+          fraudReasons: fraudCheck.reasons,
+        },
+        {
+          dailyTokens: PEER_TRANSFER_CONFIG.DAILY_LIMIT_TOKENS,
+          dailyCount: PEER_TRANSFER_CONFIG.DAILY_COUNT_LIMIT,
+          dayStart: getPeerTransferDayStart(),
+        },
+      );
+    } catch (error) {
+      if (error instanceof PeerTransferError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      if (error instanceof LedgerError && error.code === 'insufficient_balance') {
+        return { success: false, code: 'insufficient_balance', error: 'Insufficient balance' };
+      }
+      throw error;
+    }
+
+    await notificationService.createNotification({
+      userId: recipient.id,
+      type: 'system_alert',
+      title: 'JCMOVES received',
+      message: `${displayName(sender, 'Another user')} sent you ${amount.toLocaleString(undefined, { maximumFractionDigits: 8 })} JCMOVES${transfer.memo ? `: "${transfer.memo}"` : ''}`,
+      data: { peerTransferId: transfer.id, senderId },
+    });
+    console.log(`🤝 ${senderId} sent ${transfer.amount} JCMOVES to ${recipient.id} (risk ${fraudCheck.riskScore})`);
+    return { success: true, data: toSummary(transfer, senderId, recipient) };
+  }
+}
+
+// Export singleton instance
+export const peerTransferService = new PeerTransferService();
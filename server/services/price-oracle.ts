@@ -0,0 +1,318 @@
+import { storage } from '../storage';
+import { JCMOVES_CONFIG } from './crypto';
+import { notificationService } from './notification';
+import { PRICE_ORACLE_CONFIG } from '../constants';
+import {
+  median,
+  PriceOracleError,
+  type PriceOracleErrorCode,
+  type PriceOverrideInput,
+  type PricePurpose,
+  type PriceQuote,
+  type PriceSnapshot,
+  type PriceSourceName,
+  type RecordedPriceData,
+} from '@shared/price-oracle';
+import type { PriceOracleOverride } from '@shared/schema';
+
+// What a source hands back; the oracle judges freshness and agreement across sources
+export interface SourceQuote {
+  priceUsd: number;
+  observedAt: Date;
+  marketData?: Record<string, number | string>;
+}
+
+export interface PriceSource {
+  name: PriceSourceName;
+  fetchQuote(): Promise<SourceQuote | null>;
+}
+
+// A price that was used for something, and the price_history row it was recorded in
+export interface RecordedPrice {
+  price: number;
+  source: 'oracle' | 'manual';
+  priceHistoryId: string;
+  snapshot: PriceSnapshot;
+}
+
+export interface PriceOracleResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: PriceOracleErrorCode;
+}
+
+export interface PriceOracleStatus {
+  snapshot: PriceSnapshot | null;
+  lastError: { code: PriceOracleErrorCode; message: string; at: string } | null;
+  override: PriceOracleOverride | null;
+  sources: PriceSourceName[];
+  maxStalenessMs: number;
+  outlierTolerancePercent: number;
+}
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: { 'Accept': 'application/json', 'User-Agent': 'JC-ON-THE-MOVE/1.0' },
+    signal: AbortSignal.timeout(PRICE_ORACLE_CONFIG.SOURCE_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return await response.json();
+};
+
+class DexScreenerPriceSource implements PriceSource {
+  name = 'dexscreener' as const;
+
+  async fetchQuote(): Promise<SourceQuote | null> {
+    const data = await fetchJson(`${JCMOVES_CONFIG.DEXSCREENER_API}/${JCMOVES_CONFIG.TOKEN_ADDRESS}`);
+    const pair = data.pairs?.[0];
+    if (!pair) return null;
+    return {
+      priceUsd: parseFloat(pair.priceUsd) || 0,
+      observedAt: new Date(),
+      marketData: {
+        symbol: pair.baseToken?.symbol || 'JCMOVES',
+        name: pair.baseToken?.name || 'JCMOVES Token',
+        priceChange24h: parseFloat(pair.priceChange?.h24) || 0,
+        volume24h: parseFloat(pair.volume?.h24) || 0,
+        marketCap: parseFloat(pair.marketCap) || 0,
+        liquidity: parseFloat(pair.liquidity?.usd) || 0,
+        fdv: parseFloat(pair.fdv) || 0,
+      },
+    };
+  }
+}
+
+class MoonshotPriceSource implements PriceSource {
+  name = 'moonshot' as const;
+
+  async fetchQuote(): Promise<SourceQuote | null> {
+    const data = await fetchJson(`${JCMOVES_CONFIG.BACKUP_API}/${JCMOVES_CONFIG.TOKEN_ADDRESS}`);
+    const priceUsd = parseFloat(data.price) || parseFloat(data.priceUsd) || 0;
+    if (!priceUsd) return null;
+    return {
+      priceUsd,
+      observedAt: new Date(),
+      marketData: {
+        symbol: data.symbol || 'JCMOVES',
+        name: data.name || 'JCMOVES Token',
+        priceChange24h: parseFloat(data.priceChange24h) || 0,
+        volume24h: parseFloat(data.volume24h) || 0,
+        marketCap: parseFloat(data.marketCap) || 0,
+        liquidity: parseFloat(data.liquidity) || 0,
+        fdv: parseFloat(data.fdv) || 0,
+      },
+    };
+  }
+}
+
+// Serves a set price, for tests and local development without market access
+export class FixturePriceSource implements PriceSource {
+  name = 'fixture' as const;
+  private priceUsd: number | null;
+  private observedAt: Date | null = null; // Null means the price is always current
+
+  constructor(priceUsd: number | null) {
+    this.priceUsd = priceUsd;
+  }
+
+  // observedAt lets a test serve an old quote to exercise the staleness rules
+  setPrice(priceUsd: number | null, observedAt: Date | null = null): void {
+    this.priceUsd = priceUsd;
+    this.observedAt = observedAt;
+  }
+
+  async fetchQuote(): Promise<SourceQuote | null> {
+    return this.priceUsd ? { priceUsd: this.priceUsd, observedAt: this.observedAt || new Date() } : null;
+  }
+}
+
+/**
+ * The one place JCMOVES is priced. Every configured source is asked in parallel, quotes older than
+ * MAX_QUOTE_AGE_MS are dropped, anything further than OUTLIER_TOLERANCE_PERCENT from the median is
+ * rejected, and the median of what's left is the price. An active admin override replaces the market
+ * sources until it expires.
+ *
+ * Rewards, conversions and cashouts call recordPrice, which refuses a price older than
+ * MAX_STALENESS_MS and stores the price with its source snapshot in price_history. Display callers use
+ * getPrice with a longer staleness allowance and nothing is recorded.
+ */
+class PriceOracleService {
+  private sources = new Map<PriceSourceName, PriceSource>();
+  private snapshot: PriceSnapshot | null = null;
+  private lastError: PriceOracleStatus['lastError'] = null;
+  private lastRefreshAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor() {
+    const available: PriceSource[] = [
+      new DexScreenerPriceSource(),
+      new MoonshotPriceSource(),
+      new FixturePriceSource(PRICE_ORACLE_CONFIG.FIXTURE_PRICE),
+    ];
+    for (const source of available) {
+      if (PRICE_ORACLE_CONFIG.SOURCES.includes(source.name)) {
+        this.registerSource(source);
+      }
+    }
+  }
+
+  registerSource(source: PriceSource): void {
+    this.sources.set(source.name, source);
+    this.lastRefreshAt = 0;
+  }
+
+  getSource(name: PriceSourceName): PriceSource | undefined {
+    return this.sources.get(name);
+  }
+
+  async getPrice(options: { maxStalenessMs?: number } = {}): Promise<{ price: number; snapshot: PriceSnapshot }> {
+    const snapshot = await this.getSnapshot(options.maxStalenessMs ?? PRICE_ORACLE_CONFIG.MAX_STALENESS_MS);
+    return { price: snapshot.priceUsd, snapshot };
+  }
+
+  // Prices something that moves value and records it; throws PriceOracleError rather than use a stale price
+  async recordPrice(purpose: PricePurpose, related?: { relatedEntityType?: string; relatedEntityId?: string }): Promise<RecordedPrice> {
+    const snapshot = await this.getSnapshot(PRICE_ORACLE_CONFIG.MAX_STALENESS_MS);
+    const source = snapshot.method === 'manual' ? 'manual' : 'oracle';
+    const data: RecordedPriceData = { purpose, ...related, snapshot };
+    const point = await storage.addPricePoint(snapshot.priceUsd.toFixed(12), source, data);
+    return { price: snapshot.priceUsd, source, priceHistoryId: point.id, snapshot };
+  }
+
+  async getStatus(): Promise<PriceOracleStatus> {
+    // Market sources are refreshed even under an override, so admins can compare the two
+    await this.getMarketSnapshot(PRICE_ORACLE_CONFIG.DISPLAY_MAX_STALENESS_MS).catch(() => undefined);
+    return {
+      snapshot: this.snapshot,
+      lastError: this.lastError,
+      override: (await storage.getActivePriceOverride()) || null,
+      sources: Array.from(this.sources.keys()),
+      maxStalenessMs: PRICE_ORACLE_CONFIG.MAX_STALENESS_MS,
+      outlierTolerancePercent: PRICE_ORACLE_CONFIG.OUTLIER_TOLERANCE_PERCENT,
+    };
+  }
+
+  async setOverride(input: PriceOverrideInput, setBy: string): Promise<PriceOracleOverride> {
+    const override = await storage.createPriceOverride({
+      priceUsd: input.priceUsd.toFixed(12),
+      reason: input.reason,
+      setBy,
+      expiresAt: new Date(Date.now() + input.expiresInMinutes * 60 * 1000),
+    });
+    console.log(`💲 ${setBy} overrode the JCMOVES price to $${override.priceUsd} until ${override.expiresAt.toISOString()}`);
+    await notificationService.notifyBusinessOwners(
+      'system_alert',
+      'JCMOVES Price Overridden',
+      `Rewards and conversions now use $${input.priceUsd} per JCMOVES until ${override.expiresAt.toLocaleString()}: ${input.reason}`,
+      { priceOverrideId: override.id },
+    );
+    return override;
+  }
+
+  async clearOverride(clearedBy: string): Promise<PriceOracleResult<PriceOracleOverride[]>> {
+    const cleared = await storage.clearPriceOverrides(clearedBy);
+    if (cleared.length === 0) {
+      return { success: false, code: 'no_override', error: 'No price override is active' };
+    }
+    console.log(`💲 ${clearedBy} cleared the JCMOVES price override`);
+    return { success: true, data: cleared };
+  }
+
+  private async getSnapshot(maxStalenessMs: number): Promise<PriceSnapshot> {
+    const override = await storage.getActivePriceOverride();
+    if (override) {
+      return {
+        priceUsd: parseFloat(override.priceUsd),
+        method: 'manual',
+        observedAt: override.createdAt.toISOString(),
+        aggregatedAt: new Date().toISOString(),
+        quotes: [],
+        overrideId: override.id,
+      };
+    }
+    return await this.getMarketSnapshot(maxStalenessMs);
+  }
+
+  private async getMarketSnapshot(maxStalenessMs: number): Promise<PriceSnapshot> {
+    if (Date.now() - this.lastRefreshAt >= PRICE_ORACLE_CONFIG.CACHE_TTL_MS) {
+      this.refreshing = this.refreshing || this.refresh().finally(() => { this.refreshing = null; });
+      await this.refreshing;
+    }
+
+    if (!this.snapshot) {
+      throw new PriceOracleError(this.lastError?.code || 'no_quotes', this.lastError?.message || 'No JCMOVES price is available');
+    }
+    const age = Date.now() - Date.parse(this.snapshot.observedAt);
+    if (age > maxStalenessMs) {
+      throw new PriceOracleError('stale', `The last JCMOVES price is ${Math.round(age / 60000)} minutes old${this.lastError ? ` (${this.lastError.message})` : ''}`);
+    }
+    return this.snapshot;
+  }
+
+  // Keeps the previous snapshot when no sources agree, so callers fall back to it until it goes stale
+  private async refresh(): Promise<void> {
+    this.lastRefreshAt = Date.now();
+    const quotes = await Promise.all(Array.from(this.sources.values()).map((source) => this.collectQuote(source)));
+    try {
+      this.snapshot = this.aggregate(quotes);
+      this.lastError = null;
+    } catch (error) {
+      if (!(error instanceof PriceOracleError)) throw error;
+      this.lastError = { code: error.code, message: error.message, at: new Date().toISOString() };
+      console.warn(`JCMOVES price oracle: ${error.message}`);
+    }
+  }
+
+  private async collectQuote(source: PriceSource): Promise<PriceQuote> {
+    try {
+      const quote = await source.fetchQuote();
+      if (!quote || !(quote.priceUsd > 0)) {
+        return { source: source.name, priceUsd: null, observedAt: null, status: 'failed', error: 'No price returned' };
+      }
+      const stale = Date.now() - quote.observedAt.getTime() > PRICE_ORACLE_CONFIG.MAX_QUOTE_AGE_MS;
+      return {
+        source: source.name,
+        priceUsd: quote.priceUsd,
+        observedAt: quote.observedAt.toISOString(),
+        status: stale ? 'stale' : 'accepted',
+        marketData: quote.marketData,
+      };
+    } catch (error) {
+      return { source: source.name, priceUsd: null, observedAt: null, status: 'failed', error: error instanceof Error ? error.message : 'Request failed' };
+    }
+  }
+
+  private aggregate(quotes: PriceQuote[]): PriceSnapshot {
+    const fresh = quotes.filter((quote) => quote.status === 'accepted');
+    if (fresh.length === 0) {
+      throw new PriceOracleError('no_quotes', `No price source returned a current quote (${quotes.map((quote) => `${quote.source}: ${quote.error || quote.status}`).join(', ') || 'none configured'})`);
+    }
+
+    const middle = median(fresh.map((quote) => quote.priceUsd!));
+    for (const quote of fresh) {
+      if (Math.abs(quote.priceUsd! - middle) / middle * 100 > PRICE_ORACLE_CONFIG.OUTLIER_TOLERANCE_PERCENT) {
+        quote.status = 'outlier';
+      }
+    }
+
+    const accepted = fresh.filter((quote) => quote.status === 'accepted');
+    if (accepted.length < PRICE_ORACLE_CONFIG.MIN_SOURCES) {
+      throw new PriceOracleError('insufficient_sources', `Only ${accepted.length} of ${PRICE_ORACLE_CONFIG.MIN_SOURCES} required price sources agree`);
+    }
+
+    return {
+      priceUsd: median(accepted.map((quote) => quote.priceUsd!)),
+      method: 'median',
+      observedAt: new Date(Math.min(...accepted.map((quote) => Date.parse(quote.observedAt!)))).toISOString(),
+      aggregatedAt: new Date().toISOString(),
+      quotes,
+    };
+  }
+}
+
+// Export singleton instance
+export const priceOracle = new PriceOracleService();
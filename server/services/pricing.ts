@@ -0,0 +1,60 @@
+import { storage } from "../storage";
+import { routingService } from "./routing";
+import { calculateQuote, rateCardSchema, DEFAULT_RATE_CARD, type QuoteInput, type QuoteBreakdown, type RateCard } from "@shared/pricing";
+
+export const PRICING_CONFIG = {
+  RATE_CARD_CACHE_TTL: 60 * 1000, // 1 minute
+} as const;
+
+class PricingService {
+  private rateCardCache: { rates: RateCard; timestamp: number } | null = null;
+
+  /**
+   * Active rate card, falling back to the defaults when none has been saved yet
+   */
+  async getRateCard(): Promise<RateCard> {
+    if (this.rateCardCache && Date.now() - this.rateCardCache.timestamp < PRICING_CONFIG.RATE_CARD_CACHE_TTL) {
+      return this.rateCardCache.rates;
+    }
+
+    let rates = DEFAULT_RATE_CARD;
+    const activeCard = await storage.getActivePricingRateCard();
+    if (activeCard) {
+      const parsed = rateCardSchema.safeParse(activeCard.rates);
+      if (parsed.success) {
+        rates = parsed.data;
+      } else {
+        console.error(`Active rate card ${activeCard.id} is invalid, using default rates:`, parsed.error.flatten());
+      }
+    }
+
+    this.rateCardCache = { rates, timestamp: Date.now() };
+    return rates;
+  }
+
+  /**
+   * Validate and activate a new rate card
+   */
+  async saveRateCard(name: string, rates: unknown, updatedByUserId: string) {
+    const validRates = rateCardSchema.parse(rates);
+    const rateCard = await storage.savePricingRateCard(name, validRates, updatedByUserId);
+    this.rateCardCache = null;
+    return rateCard;
+  }
+
+  /**
+   * Price a job, looking up the mileage when it hasn't been provided. Multi-stop jobs pass their stop
+   * addresses in order and are charged for the whole route
+   */
+  async quote(input: QuoteInput & { fromAddress?: string | null; toAddress?: string | null; stops?: string[] | null }): Promise<QuoteBreakdown> {
+    const rates = await this.getRateCard();
+    const addresses = input.stops && input.stops.length > 0
+      ? input.stops
+      : [input.fromAddress, input.toAddress].filter((address): address is string => !!address);
+    const distanceMiles = input.distanceMiles ?? (addresses.length > 1 ? (await routingService.planRoute(addresses)).totalMiles : null);
+    return calculateQuote({ ...input, distanceMiles }, rates);
+  }
+}
+
+// Export singleton instance
+export const pricingService = new PricingService();
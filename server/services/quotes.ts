@@ -0,0 +1,222 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import { sendEmail, generateQuoteEmail } from "./email";
+import { QUOTE_CONFIG } from "../constants";
+import { canTransitionLeadStatus, LeadStatusTransitionError } from "@shared/lead-status";
+import type { Lead, QuoteVersion } from "@shared/schema";
+
+export type QuoteErrorCode = 'not_found' | 'not_quotable' | 'missing_quote' | 'closed' | 'expired';
+
+export interface QuoteResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: QuoteErrorCode;
+}
+
+// What the public quote page is allowed to see
+export interface PublicQuote {
+  versionNumber: number;
+  status: string;
+  breakdown: any;
+  details: any;
+  totalPrice: string;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  signatureName: string | null;
+  isExpired: boolean;
+}
+
+interface ResponseContext {
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+class QuoteService {
+  /**
+   * Snapshot the lead's saved quote as a new version and email the customer a link to it
+   */
+  async sendQuote(leadId: string, sentByUserId: string, baseUrl: string): Promise<QuoteResult<{ version: QuoteVersion; emailSent: boolean }>> {
+    const lead = await storage.getLead(leadId);
+    if (!lead) {
+      return { success: false, code: 'not_found', error: "Lead not found" };
+    }
+    if (!lead.quoteBreakdown || !lead.totalPrice) {
+      return { success: false, code: 'missing_quote', error: "Save the quote before sending it to the customer" };
+    }
+    if (lead.status !== 'quoted' && !canTransitionLeadStatus(lead.status, 'quoted', 'manager')) {
+      return { success: false, code: 'not_quotable', error: `Quotes can't be sent for jobs that are ${lead.status}` };
+    }
+
+    const token = randomBytes(QUOTE_CONFIG.TOKEN_BYTES).toString('hex');
+    const expiresAt = new Date(Date.now() + QUOTE_CONFIG.LINK_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    const version = await storage.createQuoteVersion({
+      leadId: lead.id,
+      accessTokenHash: this.hashToken(token),
+      breakdown: lead.quoteBreakdown,
+      details: this.getQuoteDetails(lead),
+      totalPrice: lead.totalPrice,
+      sentToEmail: lead.email,
+      sentByUserId,
+      expiresAt,
+    });
+
+    if (lead.status !== 'quoted') {
+      await storage.updateLeadStatus(lead.id, 'quoted', {
+        changedByUserId: sentByUserId,
+        actor: 'manager',
+        reason: `Quote v${version.versionNumber} emailed to customer`,
+        metadata: { quoteVersionId: version.id },
+      });
+    }
+
+    const quoteUrl = `${baseUrl}/quote/${token}`;
+    const emailContent = generateQuoteEmail(lead, version, quoteUrl);
+    const companyEmail = process.env.COMPANY_EMAIL || "upmichiganstatemovers@gmail.com";
+    const emailSent = await sendEmail({
+      to: lead.email,
+      from: companyEmail,
+      subject: `Your JC ON THE MOVE Quote${version.versionNumber > 1 ? ` (Revision ${version.versionNumber})` : ''}`,
+      text: emailContent.text,
+      html: emailContent.html,
+    });
+
+    return { success: true, data: { version, emailSent } };
+  }
+
+  /**
+   * Look up a quote from its emailed token, recording the first view
+   */
+  async getQuoteByToken(token: string): Promise<QuoteResult<PublicQuote>> {
+    const version = await storage.getQuoteVersionByTokenHash(this.hashToken(token));
+    if (!version) {
+      return { success: false, code: 'not_found', error: "Quote not found" };
+    }
+
+    const viewed = version.status === 'sent' && version.expiresAt > new Date()
+      ? await storage.markQuoteVersionViewed(version.id)
+      : undefined;
+
+    return { success: true, data: this.toPublicQuote(viewed || version) };
+  }
+
+  /**
+   * Customer accepts the quote with a typed signature; the job moves to confirmed
+   */
+  async acceptQuote(token: string, signatureName: string, context: ResponseContext): Promise<QuoteResult<PublicQuote>> {
+    const version = await storage.getQuoteVersionByTokenHash(this.hashToken(token));
+    if (!version) {
+      return { success: false, code: 'not_found', error: "Quote not found" };
+    }
+
+    const accepted = await storage.respondToQuoteVersion(version.id, {
+      status: 'accepted',
+      signatureName,
+      responseIp: context.ip,
+      responseUserAgent: context.userAgent,
+    });
+    if (!accepted) {
+      return this.closedResult(version);
+    }
+
+    const lead = await storage.getLead(version.leadId);
+    if (lead?.status === 'quoted') {
+      try {
+        await storage.updateLeadStatus(lead.id, 'confirmed', {
+          actor: 'customer',
+          reason: `Customer accepted quote v${accepted.versionNumber} (signed by ${signatureName})`,
+          metadata: { quoteVersionId: accepted.id },
+        });
+      } catch (error) {
+        // The acceptance is still recorded; the owner is notified and can confirm by hand
+        if (!(error instanceof LeadStatusTransitionError)) throw error;
+        console.error(`Could not confirm lead ${lead.id} after quote acceptance:`, error.message);
+      }
+    }
+
+    await this.notifyOwners(accepted, lead, 'Quote Accepted',
+      `${lead ? `${lead.firstName} ${lead.lastName}` : 'A customer'} accepted quote v${accepted.versionNumber} ($${parseFloat(accepted.totalPrice).toFixed(2)})`);
+
+    return { success: true, data: this.toPublicQuote(accepted) };
+  }
+
+  /**
+   * Customer declines the quote; the lead stays quoted so the owner can follow up or re-quote
+   */
+  async declineQuote(token: string, reason: string | null, context: ResponseContext): Promise<QuoteResult<PublicQuote>> {
+    const version = await storage.getQuoteVersionByTokenHash(this.hashToken(token));
+    if (!version) {
+      return { success: false, code: 'not_found', error: "Quote not found" };
+    }
+
+    const declined = await storage.respondToQuoteVersion(version.id, {
+      status: 'declined',
+      declineReason: reason,
+      responseIp: context.ip,
+      responseUserAgent: context.userAgent,
+    });
+    if (!declined) {
+      return this.closedResult(version);
+    }
+
+    const lead = await storage.getLead(version.leadId);
+    await this.notifyOwners(declined, lead, 'Quote Declined',
+      `${lead ? `${lead.firstName} ${lead.lastName}` : 'A customer'} declined quote v${declined.versionNumber}${reason ? `: "${reason}"` : ''}`);
+
+    return { success: true, data: this.toPublicQuote(declined) };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private getQuoteDetails(lead: Lead) {
+    return {
+      customerName: `${lead.firstName} ${lead.lastName}`,
+      serviceType: lead.serviceType,
+      moveDate: lead.confirmedDate || lead.moveDate,
+      fromAddress: lead.confirmedFromAddress || lead.fromAddress,
+      toAddress: lead.confirmedToAddress || lead.toAddress,
+      crewSize: lead.crewSize,
+      quoteNotes: lead.quoteNotes,
+    };
+  }
+
+  private toPublicQuote(version: QuoteVersion): PublicQuote {
+    return {
+      versionNumber: version.versionNumber,
+      status: version.status,
+      breakdown: version.breakdown,
+      details: version.details,
+      totalPrice: version.totalPrice,
+      expiresAt: version.expiresAt,
+      respondedAt: version.respondedAt,
+      signatureName: version.signatureName,
+      isExpired: version.expiresAt < new Date(),
+    };
+  }
+
+  private closedResult(version: QuoteVersion): QuoteResult<PublicQuote> {
+    if (version.status === 'superseded') {
+      return { success: false, code: 'closed', error: "This quote has been replaced by a newer version. Please use the link in your latest email." };
+    }
+    if (version.status === 'accepted' || version.status === 'declined') {
+      return { success: false, code: 'closed', error: `This quote was already ${version.status}.` };
+    }
+    return { success: false, code: 'expired', error: "This quote has expired. Please contact us for an updated quote." };
+  }
+
+  private async notifyOwners(version: QuoteVersion, lead: Lead | undefined, title: string, message: string) {
+    const { notificationService } = await import("./notification");
+    await notificationService.notifyBusinessOwners('quote_response', title, message, {
+      jobId: version.leadId,
+      quoteVersionId: version.id,
+      status: version.status,
+      customerName: lead ? `${lead.firstName} ${lead.lastName}` : undefined,
+    });
+  }
+}
+
+// Export singleton instance
+export const quoteService = new QuoteService();
@@ -1,5 +1,6 @@
 // Rewards calculation and distribution service
 import { cryptoService } from './crypto';
+import type { RecordedPrice } from './price-oracle';
 import { TREASURY_CONFIG } from '../constants';
 
 export interface RewardConfig {
@@ -25,8 +26,15 @@ export class RewardsService {
     };
   }
 
+  // Convert a USD value to JCMOVES. Rewards that are paid pass the price they're recorded at;
+  // without one the current display price is used, which is only fit for previews
+  private async toTokens(cashValue: number, price?: RecordedPrice): Promise<number> {
+    const tokenPrice = price ? price.price : (await cryptoService.getCurrentPrice()).price;
+    return cashValue / tokenPrice;
+  }
+
   // Calculate daily check-in reward with streak bonus
-  async calculateDailyReward(streakCount: number): Promise<{ tokenAmount: number; cashValue: number }> {
+  async calculateDailyReward(streakCount: number, price?: RecordedPrice): Promise<{ tokenAmount: number; cashValue: number }> {
     let cashValue = this.config.dailyCheckinUSD; // Start with $0.25 USD value
     
     // Apply streak bonus (capped) to USD value
@@ -38,19 +46,17 @@ export class RewardsService {
     cashValue *= streakMultiplier;
     
     // Convert USD value to JCMOVES tokens using real-time pricing
-    const currentPrice = await cryptoService.getCurrentPrice();
-    const tokenAmount = cashValue / currentPrice.price;
+    const tokenAmount = await this.toTokens(cashValue, price);
     
     return { tokenAmount, cashValue };
   }
 
   // Calculate booking reward based on job value (2% of booking value)
-  async calculateBookingReward(jobValueUSD: number): Promise<{ tokenAmount: number; cashValue: number }> {
+  async calculateBookingReward(jobValueUSD: number, price?: RecordedPrice): Promise<{ tokenAmount: number; cashValue: number }> {
     const rewardCashValue = jobValueUSD * this.config.bookingRewardPercentage; // 2% of booking value in USD
     
     // Convert USD value to JCMOVES tokens using real-time pricing
-    const currentPrice = await cryptoService.getCurrentPrice();
-    const tokenAmount = rewardCashValue / currentPrice.price;
+    const tokenAmount = await this.toTokens(rewardCashValue, price);
     
     return { 
       tokenAmount, 
@@ -59,18 +65,17 @@ export class RewardsService {
   }
 
   // Calculate referral reward - $10.00 worth of JCMOVES
-  async calculateReferralReward(): Promise<{ tokenAmount: number; cashValue: number }> {
+  async calculateReferralReward(price?: RecordedPrice): Promise<{ tokenAmount: number; cashValue: number }> {
     const cashValue = this.config.referralBonusUSD; // $10.00 USD value
     
     // Convert USD value to JCMOVES tokens using real-time pricing
-    const currentPrice = await cryptoService.getCurrentPrice();
-    const tokenAmount = cashValue / currentPrice.price;
+    const tokenAmount = await this.toTokens(cashValue, price);
     
     return { tokenAmount, cashValue };
   }
 
   // Calculate job completion reward for employees - $2.50 per mover
-  async calculateJobCompletionReward(numMovers: number = 1, performanceRating?: number): Promise<{ tokenAmount: number; cashValue: number }> {
+  async calculateJobCompletionReward(numMovers: number = 1, performanceRating?: number, price?: RecordedPrice): Promise<{ tokenAmount: number; cashValue: number }> {
     let cashValue = this.config.jobCompletionUSD * numMovers; // $2.50 per mover
     
     // Performance bonus (if rated 5 stars, get 50% more)
@@ -79,8 +84,7 @@ export class RewardsService {
     }
     
     // Convert USD value to JCMOVES tokens using real-time pricing
-    const currentPrice = await cryptoService.getCurrentPrice();
-    const tokenAmount = cashValue / currentPrice.price;
+    const tokenAmount = await this.toTokens(cashValue, price);
     
     return { tokenAmount, cashValue };
   }
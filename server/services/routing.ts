@@ -0,0 +1,265 @@
+import { storage } from "../storage";
+import { getLeadScheduleWindow, windowsOverlap, type ScheduleWindow } from "@shared/scheduling";
+import {
+  getLeadStops,
+  summarizeLegs,
+  type CrewDayJob,
+  type CrewDayRoute,
+  type JobRoute,
+  type RouteLeg,
+  type RouteSummary,
+} from "@shared/routing";
+import type { JobStop, Lead } from "@shared/schema";
+
+export const ROUTING_CONFIG = {
+  GEOCODE_API: 'https://nominatim.openstreetmap.org/search',
+  GEOCODE_CACHE_TTL: 24 * 60 * 60 * 1000, // 24 hours
+  GEOCODE_CACHE_MAX_ENTRIES: 5000, // Least recently used addresses are dropped past this
+  // OSRM-compatible route service (e.g. https://router.project-osrm.org). Without one, drives are estimated from straight-line distance
+  DIRECTIONS_API: process.env.ROUTING_API_URL || null,
+  DIRECTIONS_CACHE_TTL: 24 * 60 * 60 * 1000, // 24 hours
+  DIRECTIONS_CACHE_MAX_ENTRIES: 5000,
+  // Straight-line distance is shorter than the drive; scale it to approximate road miles
+  ROAD_DISTANCE_FACTOR: 1.25,
+  // Average loaded-truck speed for the straight-line estimate, including in-town traffic
+  AVERAGE_SPEED_MPH: 30,
+};
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+interface DriveEstimate {
+  distanceMiles: number;
+  durationMinutes: number;
+}
+
+const METERS_PER_MILE = 1609.344;
+
+const roundMiles = (miles: number) => Math.round(miles * 10) / 10;
+
+// Entries expire after ttlMs, and the least recently used go first once maxEntries is reached.
+// A Map iterates in insertion order, so re-inserting on every hit keeps the oldest entry first
+class LruCache<T> {
+  private entries = new Map<string, { value: T; timestamp: number }>();
+
+  constructor(private ttlMs: number, private maxEntries: number) {}
+
+  get(key: string): { value: T } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (Date.now() - entry.timestamp >= this.ttlMs) return undefined;
+    this.entries.set(key, entry);
+    return { value: entry.value };
+  }
+
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, timestamp: Date.now() });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+class RoutingService {
+  private geocodeCache = new LruCache<Coordinates | null>(ROUTING_CONFIG.GEOCODE_CACHE_TTL, ROUTING_CONFIG.GEOCODE_CACHE_MAX_ENTRIES);
+  private directionsCache = new LruCache<DriveEstimate | null>(ROUTING_CONFIG.DIRECTIONS_CACHE_TTL, ROUTING_CONFIG.DIRECTIONS_CACHE_MAX_ENTRIES);
+
+  /**
+   * Coordinates for an address, cached (null if it can't be found)
+   */
+  async geocode(address: string): Promise<Coordinates | null> {
+    const key = address.trim().toLowerCase();
+    const cached = this.geocodeCache.get(key);
+    if (cached) {
+      return cached.value;
+    }
+
+    try {
+      const url = `${ROUTING_CONFIG.GEOCODE_API}?format=json&limit=1&q=${encodeURIComponent(address)}`;
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'JC-ON-THE-MOVE/1.0',
+        },
+        signal: AbortSignal.timeout(5000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Geocoding API error: ${response.status} ${response.statusText}`);
+      }
+
+      const results = await response.json();
+      const coordinates = results.length > 0
+        ? { latitude: parseFloat(results[0].lat), longitude: parseFloat(results[0].lon) }
+        : null;
+
+      this.geocodeCache.set(key, coordinates);
+      return coordinates;
+    } catch (error) {
+      console.error(`Failed to geocode address "${address}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Drive distance and time between two addresses. Uses the directions service when one is configured
+   */
+  async estimateLeg(fromAddress: string, toAddress: string): Promise<RouteLeg> {
+    const leg: RouteLeg = { fromAddress, toAddress, distanceMiles: null, durationMinutes: null };
+
+    const [from, to] = await Promise.all([this.geocode(fromAddress), this.geocode(toAddress)]);
+    if (!from || !to) return leg;
+
+    const estimate = await this.getDirections(from, to) ?? this.estimateFromStraightLine(from, to);
+    return { ...leg, distanceMiles: roundMiles(estimate.distanceMiles), durationMinutes: Math.round(estimate.durationMinutes) };
+  }
+
+  /**
+   * Approximate driving distance in miles between two addresses (null if either can't be geocoded)
+   */
+  async estimateDistanceMiles(fromAddress?: string | null, toAddress?: string | null): Promise<number | null> {
+    if (!fromAddress || !toAddress) return null;
+    const leg = await this.estimateLeg(fromAddress, toAddress);
+    return leg.distanceMiles;
+  }
+
+  /**
+   * Legs and totals for visiting addresses in order
+   */
+  async planRoute(addresses: string[]): Promise<RouteSummary> {
+    const legs: RouteLeg[] = [];
+    for (let index = 1; index < addresses.length; index++) {
+      legs.push(await this.estimateLeg(addresses[index - 1], addresses[index]));
+    }
+    return summarizeLegs(legs);
+  }
+
+  /**
+   * The job's ordered stops with the drive between each
+   */
+  async getJobRoute(lead: Lead, stops?: JobStop[]): Promise<JobRoute> {
+    const routeStops = getLeadStops(lead, stops ?? await storage.getJobStops(lead.id));
+    const summary = await this.planRoute(routeStops.map((stop) => stop.address));
+    return { leadId: lead.id, stops: routeStops, ...summary };
+  }
+
+  /**
+   * An employee's jobs on a day in start order, with the drive from home base to the first job
+   * and from each job's last stop to the next job's first stop
+   */
+  async getCrewDayRoute(employeeId: string, day: Date): Promise<CrewDayRoute | undefined> {
+    const employee = await storage.getUser(employeeId);
+    if (!employee) return undefined;
+
+    const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    const scheduled = (await storage.getEmployeeScheduledLeads(employeeId))
+      .map((lead) => ({ lead, window: getLeadScheduleWindow(lead) }))
+      .filter((job): job is { lead: Lead; window: ScheduleWindow } =>
+        job.window !== null && windowsOverlap(job.window, { start: dayStart, end: dayEnd }))
+      .sort((a, b) => a.window.start.getTime() - b.window.start.getTime());
+    const stops = await storage.getJobStopsForLeads(scheduled.map(({ lead }) => lead.id));
+
+    const jobs: CrewDayJob[] = [];
+    const allLegs: RouteLeg[] = [];
+    let previousAddress = employee.homeBaseAddress || null;
+    let previousEnd: Date | null = null;
+
+    for (const { lead, window } of scheduled) {
+      const route = await this.getJobRoute(lead, stops.filter((stop) => stop.leadId === lead.id));
+      const firstAddress = route.stops[0]?.address;
+      const transit = previousAddress && firstAddress ? await this.estimateLeg(previousAddress, firstAddress) : null;
+      const gapMinutes = previousEnd ? Math.round((window.start.getTime() - previousEnd.getTime()) / 60000) : null;
+
+      jobs.push({
+        leadId: lead.id,
+        customerName: `${lead.firstName} ${lead.lastName}`,
+        status: lead.status,
+        start: window.start.toISOString(),
+        end: window.end.toISOString(),
+        isEstimated: window.isEstimated,
+        route,
+        transit,
+        gapMinutes,
+        isTightConnection: gapMinutes !== null && transit?.durationMinutes != null && transit.durationMinutes > gapMinutes,
+      });
+
+      if (transit) allLegs.push(transit);
+      allLegs.push(...route.legs);
+      previousAddress = route.stops[route.stops.length - 1]?.address || previousAddress;
+      previousEnd = window.end;
+    }
+
+    const { totalMiles, totalDriveMinutes } = summarizeLegs(allLegs);
+    return {
+      employeeId,
+      date: dayStart.toISOString(),
+      homeBaseAddress: employee.homeBaseAddress || null,
+      jobs,
+      totalMiles,
+      totalDriveMinutes,
+    };
+  }
+
+  // Road distance and time from the directions service, cached. Null when none is configured or the lookup fails
+  private async getDirections(from: Coordinates, to: Coordinates): Promise<DriveEstimate | null> {
+    if (!ROUTING_CONFIG.DIRECTIONS_API) return null;
+
+    const coordinates = `${from.longitude},${from.latitude};${to.longitude},${to.latitude}`;
+    const cached = this.directionsCache.get(coordinates);
+    if (cached) {
+      return cached.value;
+    }
+
+    try {
+      const url = `${ROUTING_CONFIG.DIRECTIONS_API.replace(/\/$/, '')}/route/v1/driving/${coordinates}?overview=false`;
+      const response = await fetch(url, {
+        headers: { 'Accept': 'application/json', 'User-Agent': 'JC-ON-THE-MOVE/1.0' },
+        signal: AbortSignal.timeout(5000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Directions API error: ${response.status} ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      const route = result.code === 'Ok' ? result.routes?.[0] : null;
+      const estimate = route
+        ? { distanceMiles: route.distance / METERS_PER_MILE, durationMinutes: route.duration / 60 }
+        : null;
+
+      this.directionsCache.set(coordinates, estimate);
+      return estimate;
+    } catch (error) {
+      console.error("Failed to fetch directions, falling back to straight-line estimate:", error);
+      return null;
+    }
+  }
+
+  private estimateFromStraightLine(from: Coordinates, to: Coordinates): DriveEstimate {
+    const distanceMiles = this.haversineMiles(from, to) * ROUTING_CONFIG.ROAD_DISTANCE_FACTOR;
+    return { distanceMiles, durationMinutes: (distanceMiles / ROUTING_CONFIG.AVERAGE_SPEED_MPH) * 60 };
+  }
+
+  private haversineMiles(from: Coordinates, to: Coordinates): number {
+    const R = 3959; // Earth's radius in miles
+    const toRad = (degrees: number) => degrees * (Math.PI / 180);
+    const dLat = toRad(to.latitude - from.latitude);
+    const dLon = toRad(to.longitude - from.longitude);
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) *
+      Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+}
+
+// Export singleton instance
+export const routingService = new RoutingService();
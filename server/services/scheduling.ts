@@ -0,0 +1,185 @@
+import { storage } from "../storage";
+import {
+  findScheduleConflicts,
+  getLeadScheduleWindow,
+  isEmployeeOnLead,
+  windowsOverlap,
+  type ScheduleConflict,
+} from "@shared/scheduling";
+import type { EmployeeTimeOff, Lead } from "@shared/schema";
+
+export interface CalendarJob {
+  id: string;
+  customerName: string;
+  status: string;
+  serviceType: string;
+  fromAddress: string;
+  toAddress: string | null;
+  start: Date;
+  end: Date;
+  isEstimated: boolean;
+  crew: { id: string; name: string }[];
+  crewSize: number;
+  conflicts: (ScheduleConflict & { employeeId: string; employeeName: string })[];
+}
+
+export interface CalendarTimeOff extends EmployeeTimeOff {
+  employeeName: string;
+}
+
+export interface ScheduleCalendar {
+  from: Date;
+  to: Date;
+  jobs: CalendarJob[];
+  timeOff: CalendarTimeOff[];
+  unscheduledJobs: { id: string; customerName: string; status: string }[];
+  doubleBookedCount: number;
+}
+
+class SchedulingService {
+  /**
+   * Conflicts for an employee taking a job, without booking it
+   */
+  async checkConflicts(leadId: string, employeeId: string): Promise<ScheduleConflict[] | undefined> {
+    const lead = await storage.getLead(leadId);
+    if (!lead) return undefined;
+
+    const window = getLeadScheduleWindow(lead);
+    if (!window) return [];
+
+    const [otherJobs, timeOff, weeklyAvailability] = await Promise.all([
+      storage.getEmployeeScheduledLeads(employeeId, leadId),
+      storage.getTimeOffRequests({ userId: employeeId, from: window.start, to: window.end }),
+      storage.getEmployeeAvailability(employeeId),
+    ]);
+    return findScheduleConflicts({ window, otherJobs, timeOff, weeklyAvailability });
+  }
+
+  /**
+   * Conflicts for several employees taking the same job, loading schedules once for all of them
+   */
+  async checkConflictsForEmployees(lead: Lead, employeeIds: string[]): Promise<Map<string, ScheduleConflict[]>> {
+    const results = new Map<string, ScheduleConflict[]>(employeeIds.map((id) => [id, []]));
+    const window = getLeadScheduleWindow(lead);
+    if (!window || employeeIds.length === 0) return results;
+
+    const [allLeads, timeOffRequests, availability] = await Promise.all([
+      storage.getCalendarLeads(),
+      storage.getTimeOffRequests({ from: window.start, to: window.end }),
+      storage.getAllEmployeeAvailability(),
+    ]);
+    const otherLeads = allLeads.filter((other) => other.id !== lead.id && other.status !== 'completed');
+
+    for (const employeeId of employeeIds) {
+      results.set(employeeId, findScheduleConflicts({
+        window,
+        otherJobs: otherLeads.filter((other) => isEmployeeOnLead(other, employeeId)),
+        timeOff: timeOffRequests.filter((request) => request.userId === employeeId),
+        weeklyAvailability: availability.filter((day) => day.userId === employeeId),
+      }));
+    }
+    return results;
+  }
+
+  /**
+   * Jobs and time off between two dates, with every crew member's conflicts flagged.
+   * Pass employeeId to limit the calendar to one employee's jobs
+   */
+  async getCalendar(from: Date, to: Date, employeeId?: string): Promise<ScheduleCalendar> {
+    const range = { start: from, end: to };
+    const [allLeads, timeOffRequests, availability, users] = await Promise.all([
+      storage.getCalendarLeads(),
+      storage.getTimeOffRequests({ userId: employeeId, from, to }),
+      storage.getAllEmployeeAvailability(),
+      storage.getAllUsers(),
+    ]);
+
+    const userNames = new Map(users.map((user) => [user.id, this.getDisplayName(user)]));
+    const activeTimeOff = timeOffRequests.filter((request) => request.status === 'pending' || request.status === 'approved');
+
+    // Active jobs are checked against each other even outside the visible range, so conflicts near the edges still show
+    const activeLeads = allLeads.filter((lead) => lead.status !== 'completed');
+    const inRange: { lead: Lead; window: NonNullable<ReturnType<typeof getLeadScheduleWindow>> }[] = [];
+    const unscheduledJobs: ScheduleCalendar['unscheduledJobs'] = [];
+
+    for (const lead of allLeads) {
+      if (employeeId && !isEmployeeOnLead(lead, employeeId)) continue;
+      const window = getLeadScheduleWindow(lead);
+      if (!window) {
+        if (lead.status !== 'completed') {
+          unscheduledJobs.push({ id: lead.id, customerName: `${lead.firstName} ${lead.lastName}`, status: lead.status });
+        }
+        continue;
+      }
+      if (windowsOverlap(window, range)) {
+        inRange.push({ lead, window });
+      }
+    }
+
+    let doubleBookedCount = 0;
+    const jobs: CalendarJob[] = inRange.map(({ lead, window }) => {
+      const crewIds = this.getCrewIds(lead);
+      const conflicts: CalendarJob['conflicts'] = [];
+
+      if (lead.status !== 'completed') {
+        for (const crewId of crewIds) {
+          const crewConflicts = findScheduleConflicts({
+            window,
+            otherJobs: activeLeads.filter((other) => other.id !== lead.id && isEmployeeOnLead(other, crewId)),
+            timeOff: activeTimeOff.filter((request) => request.userId === crewId),
+            weeklyAvailability: availability.filter((day) => day.userId === crewId),
+          });
+          const employeeName = userNames.get(crewId) || 'Unknown employee';
+          conflicts.push(...crewConflicts.map((conflict) => ({ ...conflict, employeeId: crewId, employeeName })));
+        }
+      }
+      if (conflicts.some((conflict) => conflict.severity === 'block')) {
+        doubleBookedCount += 1;
+      }
+
+      return {
+        id: lead.id,
+        customerName: `${lead.firstName} ${lead.lastName}`,
+        status: lead.status,
+        serviceType: lead.serviceType,
+        fromAddress: lead.confirmedFromAddress || lead.fromAddress,
+        toAddress: lead.confirmedToAddress || lead.toAddress,
+        start: window.start,
+        end: window.end,
+        isEstimated: window.isEstimated,
+        crew: crewIds.map((id) => ({ id, name: userNames.get(id) || 'Unknown employee' })),
+        crewSize: lead.crewSize || 2,
+        conflicts,
+      };
+    });
+
+    jobs.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    return {
+      from,
+      to,
+      jobs,
+      timeOff: activeTimeOff.map((request) => ({ ...request, employeeName: userNames.get(request.userId) || 'Unknown employee' })),
+      unscheduledJobs,
+      doubleBookedCount,
+    };
+  }
+
+  // Everyone booked on a job: the final crew once it is full, otherwise whoever has accepted so far
+  private getCrewIds(lead: Lead): string[] {
+    const ids = new Set<string>([
+      ...(lead.crewMembers || []),
+      ...(lead.acceptedByEmployees || []),
+    ]);
+    if (lead.assignedToUserId) ids.add(lead.assignedToUserId);
+    return Array.from(ids);
+  }
+
+  private getDisplayName(user: { firstName: string | null; lastName: string | null; username?: string | null; email: string | null }): string {
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    return name || user.username || user.email || 'Unknown employee';
+  }
+}
+
+// Export singleton instance
+export const schedulingService = new SchedulingService();
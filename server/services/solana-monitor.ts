@@ -1,11 +1,26 @@
-import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { ConfirmedSignatureInfo, Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
 import { storage } from '../storage';
 import { treasuryService } from './treasury';
-import { moonshotService } from './moonshot';
+import { notificationService } from './notification';
+import { fromMintUnits, getAssociatedTokenAddress, getMintInfo, type MintInfo } from './spl-token';
+import { SOLANA_DEPOSIT_CONFIG } from '../constants';
+import { LEDGER_CURRENCY, systemLedgerAccount, userWalletAccount } from '@shared/ledger';
+import { getSolanaAddressError } from '@shared/solana-withdrawals';
+import {
+  getDepositConfirmationProgress,
+  getSolanaPayUrl,
+  SOLANA_FINALIZED_CONFIRMATIONS,
+  type DepositAddressInfo,
+} from '@shared/solana-deposits';
+import type { UserWallet, WalletTransaction } from '@shared/schema';
+
+// Sends a deposit address's balance to the treasury wallet; registered by the withdrawal service, which holds the treasury key
+export type DepositSweeper = (wallet: UserWallet, amount: bigint) => Promise<WalletTransaction | undefined>;
 
 /**
  * Solana Blockchain Transaction Monitor
- * Automatically detects incoming JCMOVES token transfers to treasury wallet
+ * Automatically detects incoming JCMOVES token transfers to treasury wallet, and to each user's
+ * deposit address - those are recorded as pending wallet deposits and credited once finalized
  */
 export class SolanaMonitor {
   private connection: Connection;
@@ -14,6 +29,11 @@ export class SolanaMonitor {
   private lastCheckedSignature: string | null = null;
   private treasuryWalletAddress: string | null = null;
   private jcmovesTokenAddress: string;
+  private depositConnection: Connection;
+  private depositMint: MintInfo | null = null;
+  private depositInterval: NodeJS.Timeout | null = null;
+  private isCheckingDeposits: boolean = false;
+  private depositSweeper: DepositSweeper | null = null;
 
   constructor() {
     // Validate and get RPC URL with proper fallback
@@ -29,6 +49,7 @@ export class SolanaMonitor {
     
     this.connection = new Connection(rpcUrl, 'confirmed');
     this.jcmovesTokenAddress = process.env.MOONSHOT_TOKEN_ADDRESS || 'AY9NPebnvjcKSoUteYwNER3JHiJNPh6ptKmC8E4VGrxp';
+    this.depositConnection = new Connection(SOLANA_DEPOSIT_CONFIG.RPC_URL, 'confirmed');
   }
 
   /**
@@ -174,7 +195,7 @@ export class SolanaMonitor {
         console.log(`✅ Detected JCMOVES deposit: ${amount} tokens from ${fromAddress.slice(0, 8)}...`);
         console.log(`   Transaction: ${signature}`);
 
-        // Check if we've already recorded this transaction
+        // Check if we've already recorded this transaction. Deposit sweeps land here too, and were booked when the deposit was credited
         const existingDeposit = await this.checkIfAlreadyRecorded(signature);
         
         if (existingDeposit) {
@@ -235,8 +256,8 @@ export class SolanaMonitor {
    */
   private async checkIfAlreadyRecorded(transactionHash: string): Promise<boolean> {
     try {
-      const deposits = await storage.getFundingDeposits();
-      return deposits.some(d => d.externalTransactionId === transactionHash);
+      const recorded = await storage.getRecordedTreasurySignatures([transactionHash]);
+      return recorded.length > 0;
     } catch (error) {
       console.error('Error checking for existing deposit:', error);
       return false;
@@ -262,10 +283,6 @@ export class SolanaMonitor {
         return false;
       }
 
-      // Get current token price
-      const tokenPrice = await moonshotService.getTokenPrice();
-      const usdValue = tokenAmount * tokenPrice;
-
       // Use treasury service to record deposit
       const result = await treasuryService.depositTokensFromMoonshot(
         adminUser.id, // Use admin user ID (required by database foreign key)
@@ -276,7 +293,7 @@ export class SolanaMonitor {
       );
 
       if (result.success && result.deposit) {
-        console.log(`💰 Auto-recorded deposit: ${tokenAmount.toLocaleString()} JCMOVES ($${usdValue.toFixed(2)})`);
+        console.log(`💰 Auto-recorded deposit: ${tokenAmount.toLocaleString()} JCMOVES ($${result.deposit.depositAmount})`);
         console.log(`   Deposit ID: ${result.deposit.id}`);
         return true;
       } else {
@@ -423,6 +440,394 @@ export class SolanaMonitor {
     }
   }
 
+  /**
+   * Net JCMOVES movement of the treasury wallet in each of its latest transactions, newest first.
+   * Positive amounts arrived, negative ones left; transactions that didn't move JCMOVES are skipped
+   */
+  async getRecentTreasuryTransfers(limit: number): Promise<{
+    scanned: number;
+    transfers: Array<{ signature: string; slot: number; blockTime: Date | null; amount: number; counterparty: string | null }>;
+  }> {
+    await this.initializeTreasuryAddress();
+    if (!this.treasuryWalletAddress) {
+      throw new Error('Treasury wallet address not found');
+    }
+
+    const signatures = await this.connection.getSignaturesForAddress(new PublicKey(this.treasuryWalletAddress), { limit });
+    const transfers: Array<{ signature: string; slot: number; blockTime: Date | null; amount: number; counterparty: string | null }> = [];
+    for (const sigInfo of signatures) {
+      if (sigInfo.err) continue;
+      const transaction = await this.connection.getParsedTransaction(sigInfo.signature, {
+        maxSupportedTransactionVersion: 0
+      });
+      if (!transaction || !transaction.meta || transaction.meta.err) continue;
+
+      const preBalances = transaction.meta.preTokenBalances || [];
+      const postBalances = transaction.meta.postTokenBalances || [];
+      const accountIndexes = new Set([...preBalances, ...postBalances]
+        .filter((b) => b.mint === this.jcmovesTokenAddress)
+        .map((b) => b.accountIndex));
+
+      let amount = 0;
+      let counterparty: string | null = null;
+      for (const accountIndex of Array.from(accountIndexes)) {
+        const pre = preBalances.find((b) => b.accountIndex === accountIndex);
+        const post = postBalances.find((b) => b.accountIndex === accountIndex);
+        const change = (post?.uiTokenAmount.uiAmount || 0) - (pre?.uiTokenAmount.uiAmount || 0);
+        const owner = post?.owner || pre?.owner;
+        if (owner === this.treasuryWalletAddress) {
+          amount += change;
+        } else if (change !== 0 && !counterparty) {
+          counterparty = owner || null;
+        }
+      }
+
+      if (amount !== 0) {
+        transfers.push({
+          signature: sigInfo.signature,
+          slot: sigInfo.slot,
+          blockTime: sigInfo.blockTime ? new Date(sigInfo.blockTime * 1000) : null,
+          amount: parseFloat(amount.toFixed(8)),
+          counterparty,
+        });
+      }
+    }
+
+    return { scanned: signatures.length, transfers };
+  }
+
+  /**
+   * JCMOVES held across all user deposit addresses. Credited deposits stay there until they're swept to
+   * the treasury wallet, so it's part of custody
+   */
+  async getDepositAddressBalance(): Promise<string> {
+    const currency = await storage.getSupportedCurrencyBySymbol(LEDGER_CURRENCY);
+    if (!currency) return '0.00000000';
+
+    const mint = await this.getDepositMint();
+    const wallets = (await storage.getActiveUserWalletsByCurrency(currency.id))
+      .filter((wallet) => !getSolanaAddressError(wallet.walletAddress));
+
+    let total = BigInt(0);
+    for (let i = 0; i < wallets.length; i += 100) {
+      const tokenAccounts = wallets.slice(i, i + 100).map((wallet) => getAssociatedTokenAddress(new PublicKey(wallet.walletAddress), mint));
+      const accounts = await this.depositConnection.getMultipleAccountsInfo(tokenAccounts);
+      for (const account of accounts) {
+        // SPL token account layout: mint (32) + owner (32) + amount (u64 LE)
+        if (account && account.data.length >= 72) {
+          total += account.data.readBigUInt64LE(64);
+        }
+      }
+    }
+    return fromMintUnits(total, mint.decimals);
+  }
+
+  /**
+   * Start watching every user's JCMOVES deposit address
+   */
+  startDepositMonitoring(intervalMs: number = SOLANA_DEPOSIT_CONFIG.POLL_INTERVAL_MS): void {
+    if (this.depositInterval || !SOLANA_DEPOSIT_CONFIG.ENABLED) return;
+    console.log(`🚀 Starting deposit monitoring via ${SOLANA_DEPOSIT_CONFIG.RPC_URL} (every ${intervalMs / 1000}s)`);
+    this.depositInterval = setInterval(() => {
+      this.checkUserDeposits();
+    }, intervalMs);
+  }
+
+  registerDepositSweeper(sweeper: DepositSweeper): void {
+    this.depositSweeper = sweeper;
+  }
+
+  stopDepositMonitoring(): void {
+    if (this.depositInterval) {
+      clearInterval(this.depositInterval);
+      this.depositInterval = null;
+    }
+  }
+
+  /**
+   * One pass over the user deposit addresses: record new inbound transfers as pending deposits,
+   * move pending deposits towards finalized and credit the ones that got there, then sweep
+   * addresses holding only credited deposits into the treasury wallet
+   */
+  async checkUserDeposits(): Promise<void> {
+    if (this.isCheckingDeposits) return;
+    this.isCheckingDeposits = true;
+    try {
+      const currency = await storage.getSupportedCurrencyBySymbol(LEDGER_CURRENCY);
+      if (!currency) return;
+
+      const mint = await this.getDepositMint();
+      const wallets = (await storage.getActiveUserWalletsByCurrency(currency.id))
+        .filter((wallet) => !getSolanaAddressError(wallet.walletAddress));
+
+      // Only addresses whose token account exists can have received anything
+      const funded: Array<{ wallet: UserWallet; amount: bigint }> = [];
+      for (let i = 0; i < wallets.length; i += 100) {
+        const batch = wallets.slice(i, i + 100);
+        const tokenAccounts = batch.map((wallet) => getAssociatedTokenAddress(new PublicKey(wallet.walletAddress), mint));
+        const accounts = await this.depositConnection.getMultipleAccountsInfo(tokenAccounts);
+        for (let j = 0; j < batch.length; j++) {
+          const account = accounts[j];
+          if (!account) continue;
+          await this.scanDepositAddress(batch[j], tokenAccounts[j], mint).catch((error) => {
+            console.error(`Error scanning deposits for wallet ${batch[j].id}:`, error);
+          });
+          // SPL token account layout: mint (32) + owner (32) + amount (u64 LE)
+          if (account.data.length >= 72 && account.data.readBigUInt64LE(64) > BigInt(0)) {
+            funded.push({ wallet: batch[j], amount: account.data.readBigUInt64LE(64) });
+          }
+        }
+      }
+
+      await this.refreshPendingDeposits();
+      await this.sweepDepositAddresses(funded);
+    } catch (error) {
+      console.error('Error checking user deposits:', error);
+    } finally {
+      this.isCheckingDeposits = false;
+    }
+  }
+
+  /**
+   * Deposit address, QR payload and in-flight deposits for a user's JCMOVES wallet
+   */
+  async getDepositAddressInfo(wallet: UserWallet): Promise<DepositAddressInfo> {
+    const mint = await this.getDepositMint();
+    const tokenAccount = getAssociatedTokenAddress(new PublicKey(wallet.walletAddress), mint);
+    const pending = await storage.getPendingDeposits(wallet.id);
+
+    return {
+      walletId: wallet.id,
+      address: wallet.walletAddress,
+      tokenAccount: tokenAccount.toBase58(),
+      mintAddress: mint.mint.toBase58(),
+      solanaPayUrl: getSolanaPayUrl(wallet.walletAddress, mint.mint.toBase58(), 'JC ON THE MOVE'),
+      requiredConfirmations: SOLANA_FINALIZED_CONFIRMATIONS,
+      pendingDeposits: pending.map((deposit) => ({
+        id: deposit.id,
+        amount: deposit.amount,
+        signature: deposit.transactionHash!,
+        fromAddress: deposit.fromAddress,
+        confirmations: deposit.confirmations || 0,
+        progress: getDepositConfirmationProgress(deposit.confirmations),
+        detectedAt: deposit.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Record transfers into one deposit token account since the last signature seen there
+   */
+  private async scanDepositAddress(wallet: UserWallet, tokenAccount: PublicKey, mint: MintInfo): Promise<void> {
+    const metadata = (wallet.metadata as any) || {};
+    const until = metadata.lastDepositSignature || undefined;
+
+    // Newest first, paged back until the last signature seen, so a burst of transfers between passes isn't cut off
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    while (true) {
+      const page = await this.depositConnection.getSignaturesForAddress(tokenAccount, {
+        until,
+        before,
+        limit: SOLANA_DEPOSIT_CONFIG.SIGNATURES_PER_SCAN,
+      }, 'confirmed');
+      signatures.push(...page);
+      if (page.length < SOLANA_DEPOSIT_CONFIG.SIGNATURES_PER_SCAN) break;
+      before = page[page.length - 1].signature;
+    }
+    if (signatures.length === 0) return;
+
+    for (const sigInfo of [...signatures].reverse()) { // Process oldest first
+      if (sigInfo.err) continue;
+
+      const transaction = await this.depositConnection.getParsedTransaction(sigInfo.signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (!transaction || !transaction.meta || transaction.meta.err) continue;
+
+      const transfer = this.findDepositTransfer(transaction, wallet.walletAddress, mint);
+      if (!transfer) continue;
+
+      const deposit = await storage.recordPendingDeposit({
+        userWalletId: wallet.id,
+        amount: transfer.amount,
+        signature: sigInfo.signature,
+        fromAddress: transfer.fromAddress,
+        toAddress: wallet.walletAddress,
+        blockNumber: sigInfo.slot,
+        confirmations: 0,
+        metadata: { tokenAccount: tokenAccount.toBase58() },
+      });
+      if (deposit) {
+        console.log(`📥 Detected ${transfer.amount} JCMOVES deposit for wallet ${wallet.id} (${sigInfo.signature}), waiting for finalization`);
+      }
+    }
+
+    // Only advanced once every signature was handled, so a failed pass is rescanned; duplicates are ignored
+    await storage.updateUserWallet(wallet.id, {
+      metadata: { ...metadata, lastDepositSignature: signatures[0].signature, lastDepositScanAt: new Date().toISOString() },
+    });
+  }
+
+  /**
+   * Net JCMOVES received by token accounts the wallet owns, as a ledger amount
+   */
+  private findDepositTransfer(
+    transaction: ParsedTransactionWithMeta,
+    ownerAddress: string,
+    mint: MintInfo
+  ): { amount: string; fromAddress: string | null } | null {
+    const mintAddress = mint.mint.toBase58();
+    const preBalances = transaction.meta?.preTokenBalances || [];
+    const postBalances = transaction.meta?.postTokenBalances || [];
+
+    const changeAt = (accountIndex: number) => {
+      const pre = preBalances.find((b) => b.accountIndex === accountIndex && b.mint === mintAddress);
+      const post = postBalances.find((b) => b.accountIndex === accountIndex && b.mint === mintAddress);
+      return BigInt(post?.uiTokenAmount.amount || '0') - BigInt(pre?.uiTokenAmount.amount || '0');
+    };
+
+    let received = BigInt(0);
+    let fromAddress: string | null = null;
+    const accountIndexes = new Set([...preBalances, ...postBalances].filter((b) => b.mint === mintAddress).map((b) => b.accountIndex));
+    for (const accountIndex of Array.from(accountIndexes)) {
+      const balance = postBalances.find((b) => b.accountIndex === accountIndex) || preBalances.find((b) => b.accountIndex === accountIndex);
+      const change = changeAt(accountIndex);
+      if (balance?.owner === ownerAddress) {
+        received += change;
+      } else if (change < BigInt(0) && !fromAddress) {
+        fromAddress = balance?.owner || null;
+      }
+    }
+
+    if (received <= BigInt(0)) return null;
+    const amount = fromMintUnits(received, mint.decimals);
+    if (Number(amount) <= 0) return null;
+    return { amount, fromAddress };
+  }
+
+  /**
+   * Advance pending deposits: credit finalized ones, drop ones that failed or vanished from the
+   * cluster, and record confirmation counts for the rest
+   */
+  private async refreshPendingDeposits(): Promise<void> {
+    const pending = await storage.getPendingDeposits(undefined, SOLANA_DEPOSIT_CONFIG.BATCH_SIZE);
+    if (pending.length === 0) return;
+
+    const { value: statuses } = await this.depositConnection.getSignatureStatuses(
+      pending.map((deposit) => deposit.transactionHash!),
+      { searchTransactionHistory: true }
+    );
+
+    for (let i = 0; i < pending.length; i++) {
+      const deposit = pending[i];
+      const status = statuses[i];
+      try {
+        if (status?.err) {
+          await storage.updateWalletTransaction(deposit.id, {
+            status: 'failed',
+            metadata: { ...(deposit.metadata as any), failureReason: 'Transaction failed on-chain' },
+          });
+        } else if (status?.confirmationStatus === 'finalized') {
+          await this.creditDeposit(deposit, status.slot);
+        } else if (status) {
+          await storage.updateWalletTransaction(deposit.id, { confirmations: status.confirmations ?? 0, blockNumber: status.slot });
+        } else if (Date.now() - deposit.createdAt.getTime() > SOLANA_DEPOSIT_CONFIG.DROPPED_AFTER_MS) {
+          await storage.updateWalletTransaction(deposit.id, {
+            status: 'failed',
+            metadata: { ...(deposit.metadata as any), failureReason: 'Transaction was dropped by the cluster' },
+          });
+        }
+      } catch (error) {
+        console.error(`Error refreshing deposit ${deposit.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Settle sweeps sent on earlier passes, then sweep every funded address with no deposit still
+   * waiting to be credited and no sweep in flight. Failed or expired sweeps leave the tokens where
+   * they were, so the address is simply swept again
+   */
+  private async sweepDepositAddresses(funded: Array<{ wallet: UserWallet; amount: bigint }>): Promise<void> {
+    if (!SOLANA_DEPOSIT_CONFIG.SWEEP_ENABLED || !this.depositSweeper) return;
+
+    const inFlight = new Set<string>();
+    const sweeps = await storage.getPendingDepositSweeps();
+    if (sweeps.length > 0) {
+      const { value: statuses } = await this.depositConnection.getSignatureStatuses(
+        sweeps.map((sweep) => sweep.transactionHash!),
+        { searchTransactionHistory: true }
+      );
+      const blockHeight = await this.depositConnection.getBlockHeight('finalized');
+      for (let i = 0; i < sweeps.length; i++) {
+        const sweep = sweeps[i];
+        const status = statuses[i];
+        const metadata = (sweep.metadata as any) || {};
+        if (status?.err) {
+          await storage.updateWalletTransaction(sweep.id, { status: 'failed', metadata: { ...metadata, failureReason: 'Sweep failed on-chain' } });
+        } else if (status?.confirmationStatus === 'finalized') {
+          await storage.updateWalletTransaction(sweep.id, { status: 'confirmed', blockNumber: status.slot, confirmedAt: new Date() });
+          console.log(`✅ Swept ${sweep.amount} JCMOVES from ${sweep.fromAddress} into the treasury (${sweep.transactionHash})`);
+        } else if (!status && blockHeight > metadata.lastValidBlockHeight) {
+          await storage.updateWalletTransaction(sweep.id, { status: 'failed', metadata: { ...metadata, failureReason: 'Sweep expired before it was confirmed' } });
+        } else {
+          inFlight.add(metadata.userWalletId);
+        }
+      }
+    }
+
+    for (const { wallet, amount } of funded) {
+      if (inFlight.has(wallet.id)) continue;
+      try {
+        // Tokens of a deposit that isn't credited yet aren't on the books, so they stay put until it is
+        if ((await storage.getPendingDeposits(wallet.id)).length > 0) continue;
+        await this.depositSweeper(wallet, amount);
+      } catch (error) {
+        console.error(`Error sweeping deposit address for wallet ${wallet.id}:`, error);
+      }
+    }
+  }
+
+  private async creditDeposit(deposit: WalletTransaction, slot: number): Promise<void> {
+    const amount = parseFloat(deposit.amount);
+    const credited = await storage.creditPendingDeposit(
+      deposit.id,
+      {
+        entryType: 'deposit',
+        description: `On-chain deposit ${deposit.transactionHash}`,
+        relatedEntityType: 'wallet_transaction',
+        relatedEntityId: deposit.id,
+        postings: [
+          { account: systemLedgerAccount('issuance'), amount: -amount },
+          { account: userWalletAccount(deposit.userWalletId!), amount },
+        ],
+      },
+      { confirmations: SOLANA_FINALIZED_CONFIRMATIONS, blockNumber: slot, confirmedAt: new Date() }
+    );
+    if (!credited) return;
+
+    console.log(`💰 Credited ${deposit.amount} JCMOVES deposit to wallet ${deposit.userWalletId} (${deposit.transactionHash})`);
+    const wallet = await storage.getUserWalletById(deposit.userWalletId!);
+    if (wallet) {
+      await notificationService.createNotification({
+        userId: wallet.userId,
+        type: 'system_alert',
+        title: 'Deposit Received',
+        message: `${deposit.amount} JCMOVES has been added to your wallet`,
+        data: { walletTransactionId: deposit.id, signature: deposit.transactionHash },
+      });
+    }
+  }
+
+  private async getDepositMint(): Promise<MintInfo> {
+    if (!this.depositMint) {
+      this.depositMint = await getMintInfo(this.depositConnection, SOLANA_DEPOSIT_CONFIG.MINT_ADDRESS);
+    }
+    return this.depositMint;
+  }
+
   /**
    * Get monitoring status
    */
@@ -431,10 +836,14 @@ export class SolanaMonitor {
       isMonitoring: this.isMonitoring,
       treasuryWallet: this.treasuryWalletAddress,
       lastCheckedSignature: this.lastCheckedSignature,
-      jcmovesTokenAddress: this.jcmovesTokenAddress
+      jcmovesTokenAddress: this.jcmovesTokenAddress,
+      isMonitoringDeposits: !!this.depositInterval
     };
   }
 }
 
 // Singleton instance
 export const solanaMonitor = new SolanaMonitor();
+
+// Watch user deposit addresses on service startup
+solanaMonitor.startDepositMonitoring();
@@ -0,0 +1,572 @@
+import { Connection, Keypair, PublicKey, SendTransactionError, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { storage } from '../storage';
+import { EncryptionService } from './encryption';
+import { notificationService } from './notification';
+import { solanaMonitor } from './solana-monitor';
+import { treasuryApprovalService } from './treasury-approvals';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  fromMintUnits,
+  getAssociatedTokenAddress,
+  getMintInfo,
+  toMintUnits,
+  type MintInfo,
+} from './spl-token';
+import { SOLANA_WITHDRAWAL_CONFIG, TREASURY_CONFIG } from '../constants';
+import { LedgerError, LEDGER_CURRENCY, systemLedgerAccount, toLedgerUnits, userWalletAccount } from '@shared/ledger';
+import type { WithdrawalErrorCode, WithdrawalRequest } from '@shared/solana-withdrawals';
+import { SOLANA_FINALIZED_CONFIRMATIONS } from '@shared/solana-deposits';
+import { requiresApproval } from '@shared/treasury-approvals';
+import type { TreasuryWallet, TreasuryWithdrawal, UserWallet, WalletTransaction } from '@shared/schema';
+
+export interface WithdrawalResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: WithdrawalErrorCode;
+}
+
+export interface QueuedWithdrawal {
+  withdrawal: TreasuryWithdrawal;
+  transaction: WalletTransaction;
+  fee: number;
+  netAmount: number;
+  approvalRequestId?: string; // Set when the withdrawal is held for approvers
+}
+
+// Stored on treasuryWithdrawals.metadata when the withdrawal is queued
+interface WithdrawalMetadata {
+  userWalletId: string;
+  walletTransactionId?: string;
+  grossAmount: string;
+  fee: string;
+  netAmount: string;
+  notes?: string | null;
+  lastValidBlockHeight?: number;
+  signedTransaction?: string; // Base64, kept so the poller can rebroadcast until the blockhash expires
+}
+
+// solana-keygen writes a JSON byte array; wallets export base58
+function parseSecretKey(secret: string): Uint8Array {
+  const trimmed = secret.trim();
+  return trimmed.startsWith('[') ? Uint8Array.from(JSON.parse(trimmed)) : bs58.decode(trimmed);
+}
+
+/**
+ * Sends user wallet exports on-chain as SPL transfers of the JCMOVES mint from the treasury wallet.
+ *
+ * A request debits the user's wallet into the withdrawal_clearing ledger account and queues a
+ * treasury_withdrawals row. The row then moves pending → prepared → signing → broadcasting as the
+ * transfer is built, signed with the treasury key (stored encrypted in treasuryWallets.privateKeyHash)
+ * and sent. Once the signature finalizes the clearing balance leaves custody; if the transfer fails
+ * or its blockhash expires unlanded, the full amount including the fee goes back to the wallet.
+ * Withdrawals over the user_withdrawal approval threshold are held in 'awaiting_approval' and only
+ * move to pending once approved; a rejected or expired request refunds them the same way.
+ */
+class SolanaWithdrawalService {
+  private connection: Connection;
+  private mintInfo: MintInfo | null = null;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  constructor() {
+    this.connection = new Connection(SOLANA_WITHDRAWAL_CONFIG.RPC_URL, 'confirmed');
+    treasuryApprovalService.registerHandler('user_withdrawal', {
+      execute: ({ withdrawalId }) => this.releaseWithdrawal(withdrawalId),
+      cancel: async ({ withdrawalId }, _request, reason) => {
+        const withdrawal = await storage.getTreasuryWithdrawal(withdrawalId);
+        if (withdrawal?.status === 'awaiting_approval') {
+          await this.failWithdrawal(withdrawal, reason);
+        }
+      },
+      // Still held means the release never happened; anything past that means it did
+      recover: async ({ withdrawalId }) => {
+        const withdrawal = await storage.getTreasuryWithdrawal(withdrawalId);
+        if (withdrawal?.status === 'awaiting_approval') {
+          return await this.releaseWithdrawal(withdrawalId);
+        }
+        if (!withdrawal || withdrawal.status === 'failed') {
+          throw new Error('Withdrawal was not released');
+        }
+        return { withdrawalId, status: withdrawal.status };
+      },
+    });
+    solanaMonitor.registerDepositSweeper((wallet, amount) => this.sweepDeposit(wallet, amount));
+  }
+
+  async requestWithdrawal(userId: string, request: WithdrawalRequest): Promise<WithdrawalResult<QueuedWithdrawal>> {
+    const { amount, withdrawalAddress, notes } = request;
+    if (amount < TREASURY_CONFIG.MIN_WITHDRAWAL_TOKENS) {
+      return { success: false, code: 'invalid_amount', error: `Minimum withdrawal is ${TREASURY_CONFIG.MIN_WITHDRAWAL_TOKENS} JCMOVES` };
+    }
+
+    const currency = await storage.getSupportedCurrencyBySymbol(LEDGER_CURRENCY);
+    const wallet = currency ? await storage.getUserWallet(userId, currency.id) : undefined;
+    if (!currency || !wallet) {
+      return { success: false, code: 'wallet_not_found', error: "JCMOVES wallet not found" };
+    }
+    if (toLedgerUnits(amount) > toLedgerUnits(wallet.balance)) {
+      return { success: false, code: 'insufficient_balance', error: "Insufficient balance" };
+    }
+
+    const treasuryWallet = await this.getSigningWallet();
+    if (!treasuryWallet) {
+      return { success: false, code: 'treasury_unavailable', error: "Withdrawals are not available right now" };
+    }
+
+    // Rounded to ledger precision so the three postings balance exactly
+    const fee = parseFloat((amount * parseFloat(currency.withdrawalFeePercent || '0') / 100).toFixed(8));
+    const netAmount = parseFloat((amount - fee).toFixed(8));
+
+    let mint: MintInfo;
+    try {
+      mint = await this.getMintInfo();
+    } catch (error) {
+      console.error('Error loading JCMOVES mint:', error);
+      return { success: false, code: 'treasury_unavailable', error: "Solana network is unavailable, try again shortly" };
+    }
+    if (toMintUnits(netAmount.toFixed(8), mint.decimals) === null) {
+      return { success: false, code: 'invalid_amount', error: `Amount after fees can have at most ${mint.decimals} decimal places` };
+    }
+
+    const treasury = await storage.getMainTreasuryAccount();
+    const metadata: WithdrawalMetadata = {
+      userWalletId: wallet.id,
+      grossAmount: amount.toFixed(8),
+      fee: fee.toFixed(8),
+      netAmount: netAmount.toFixed(8),
+      notes: notes || null,
+    };
+
+    const policy = await treasuryApprovalService.getPolicy('user_withdrawal');
+    const needsApproval = requiresApproval(policy, amount);
+    const requester = needsApproval ? await treasuryApprovalService.getActor(userId) : undefined;
+    if (needsApproval && !requester) {
+      return { success: false, code: 'wallet_not_found', error: "User not found" };
+    }
+
+    try {
+      const queued = await storage.queueTreasuryWithdrawal(
+        {
+          entryType: 'withdrawal',
+          description: `Withdrawal of ${amount} ${LEDGER_CURRENCY} to ${withdrawalAddress}`,
+          relatedEntityType: 'user_wallet',
+          relatedEntityId: wallet.id,
+          createdBy: userId,
+          postings: [
+            { account: userWalletAccount(wallet.id), amount: -amount },
+            { account: systemLedgerAccount('fees'), amount: fee },
+            { account: systemLedgerAccount('withdrawal_clearing'), amount: netAmount },
+          ],
+        },
+        {
+          userWalletId: wallet.id,
+          transactionType: 'withdrawal',
+          amount: amount.toFixed(8),
+          status: 'pending',
+          toAddress: withdrawalAddress,
+          metadata: { withdrawalAddress, notes: notes || null, fee: metadata.fee, netAmount: metadata.netAmount, exportRequest: true },
+        },
+        {
+          treasuryAccountId: treasury.id,
+          requestedBy: userId,
+          tokenAmount: metadata.netAmount,
+          recipientAddress: withdrawalAddress,
+          treasuryWalletAddress: treasuryWallet.walletAddress,
+          metadata,
+        },
+        needsApproval ? 'awaiting_approval' : 'pending',
+      );
+
+      if (requester) {
+        try {
+          const approval = await treasuryApprovalService.openRequest('user_withdrawal', requester, {
+            tokenAmount: amount,
+            summary: `Withdraw ${amount.toLocaleString()} ${LEDGER_CURRENCY} to ${withdrawalAddress.slice(0, 4)}...${withdrawalAddress.slice(-4)}`,
+            payload: { withdrawalId: queued.withdrawal.id, userId, withdrawalAddress, netAmount: metadata.netAmount },
+          }, policy);
+          return { success: true, data: { ...queued, fee, netAmount, approvalRequestId: approval.id } };
+        } catch (error) {
+          // Without a request nobody could release the funds, so hand them straight back
+          console.error(`Error opening approval request for withdrawal ${queued.withdrawal.id}:`, error);
+          await this.failWithdrawal(queued.withdrawal, 'Approval request could not be created');
+          return { success: false, code: 'treasury_unavailable', error: "Withdrawals are not available right now" };
+        }
+      }
+
+      // Sent in the background; the poller picks it up if this attempt is interrupted
+      this.processWithdrawal(queued.withdrawal.id).catch((error) => {
+        console.error(`Error processing withdrawal ${queued.withdrawal.id}:`, error);
+      });
+
+      return { success: true, data: { ...queued, fee, netAmount } };
+    } catch (error) {
+      if (error instanceof LedgerError && error.code === 'insufficient_balance') {
+        return { success: false, code: 'insufficient_balance', error: "Insufficient balance" };
+      }
+      throw error;
+    }
+  }
+
+  async getWithdrawal(id: string): Promise<WithdrawalResult<TreasuryWithdrawal>> {
+    const withdrawal = await storage.getTreasuryWithdrawal(id);
+    if (!withdrawal) {
+      return { success: false, code: 'not_found', error: "Withdrawal not found" };
+    }
+    return { success: true, data: withdrawal };
+  }
+
+  /**
+   * Build, sign and broadcast a pending withdrawal. Each step is a compare-and-set on the status,
+   * so a withdrawal claimed by another worker is left alone
+   */
+  async processWithdrawal(id: string): Promise<TreasuryWithdrawal | undefined> {
+    const withdrawal = await storage.getTreasuryWithdrawal(id);
+    if (!withdrawal || withdrawal.status !== 'pending') {
+      return withdrawal;
+    }
+    const metadata = withdrawal.metadata as WithdrawalMetadata;
+
+    let transaction: Transaction;
+    let lastValidBlockHeight: number;
+    try {
+      const mint = await this.getMintInfo();
+      const amount = toMintUnits(withdrawal.tokenAmount, mint.decimals);
+      if (amount === null) {
+        return await this.failWithdrawal(withdrawal, `Amount needs more than ${mint.decimals} decimal places`);
+      }
+
+      const treasuryKey = new PublicKey(withdrawal.treasuryWalletAddress);
+      const recipient = new PublicKey(withdrawal.recipientAddress);
+      const source = getAssociatedTokenAddress(treasuryKey, mint);
+      const destination = getAssociatedTokenAddress(recipient, mint);
+
+      const latest = await this.connection.getLatestBlockhash('finalized');
+      lastValidBlockHeight = latest.lastValidBlockHeight;
+      transaction = new Transaction({ feePayer: treasuryKey, ...latest }).add(
+        createAssociatedTokenAccountIdempotentInstruction(treasuryKey, destination, recipient, mint),
+        createTransferCheckedInstruction(source, destination, treasuryKey, amount, mint),
+      );
+    } catch (error) {
+      console.error(`Error preparing withdrawal ${id}:`, error);
+      return await this.failWithdrawal(withdrawal, `Could not build transfer: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+
+    const prepared = await storage.updateTreasuryWithdrawal(id, {
+      status: 'prepared',
+      preparedTransaction: transaction.serialize({ requireAllSignatures: false }).toString('base64'),
+      preparedAt: new Date(),
+    }, ['pending']);
+    if (!prepared) return undefined;
+
+    const signing = await storage.updateTreasuryWithdrawal(id, { status: 'signing' }, ['prepared']);
+    if (!signing) return undefined;
+
+    let signedTransaction: Buffer;
+    try {
+      const signer = await this.loadSigner(withdrawal.treasuryWalletAddress);
+      transaction.sign(signer);
+      signedTransaction = transaction.serialize();
+    } catch (error) {
+      console.error(`Error signing withdrawal ${id}:`, error);
+      return await this.failWithdrawal(signing, `Could not sign transfer: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+
+    // The signature is stored before sending so a crash mid-send can still be resolved by the poller
+    const signature = bs58.encode(transaction.signature!);
+    const broadcasting = await storage.updateTreasuryWithdrawal(id, {
+      status: 'broadcasting',
+      transactionSignature: signature,
+      signedAt: new Date(),
+      broadcastAt: new Date(),
+      metadata: { ...metadata, lastValidBlockHeight, signedTransaction: signedTransaction.toString('base64') },
+    }, ['signing']);
+    if (!broadcasting) return undefined;
+
+    try {
+      await this.connection.sendRawTransaction(signedTransaction, { preflightCommitment: 'finalized' });
+    } catch (error) {
+      // A rejected preflight never reaches the cluster; anything else may still land, so the poller decides
+      if (error instanceof SendTransactionError) {
+        console.error(`Withdrawal ${id} rejected in preflight:`, error.message);
+        return await this.failWithdrawal(broadcasting, `Transfer rejected: ${error.message}`);
+      }
+      console.error(`Error broadcasting withdrawal ${id}:`, error);
+      return broadcasting;
+    }
+
+    console.log(`📤 Withdrawal ${id} broadcast: ${withdrawal.tokenAmount} ${LEDGER_CURRENCY} to ${withdrawal.recipientAddress} (${signature})`);
+    return broadcasting;
+  }
+
+  /**
+   * Track a broadcast withdrawal: confirm it once finalized, refund it if it failed on-chain or its
+   * blockhash expired without it landing, and otherwise record the confirmation count and rebroadcast
+   */
+  async checkConfirmation(withdrawal: TreasuryWithdrawal): Promise<TreasuryWithdrawal | undefined> {
+    if (withdrawal.status !== 'broadcasting' || !withdrawal.transactionSignature) {
+      return withdrawal;
+    }
+    const metadata = withdrawal.metadata as WithdrawalMetadata;
+
+    const { value: [status] } = await this.connection.getSignatureStatuses([withdrawal.transactionSignature], {
+      searchTransactionHistory: true,
+    });
+
+    if (status?.err) {
+      return await this.failWithdrawal(withdrawal, `Transfer failed on-chain: ${JSON.stringify(status.err)}`);
+    }
+    if (status?.confirmationStatus === 'finalized') {
+      return await this.confirmWithdrawal(withdrawal, status.slot);
+    }
+    if (status) {
+      return await storage.updateTreasuryWithdrawal(withdrawal.id, {
+        confirmations: status.confirmations ?? 0,
+        blockNumber: status.slot,
+      }, ['broadcasting']);
+    }
+
+    const blockHeight = await this.connection.getBlockHeight('finalized');
+    if (metadata.lastValidBlockHeight !== undefined && blockHeight > metadata.lastValidBlockHeight) {
+      return await this.failWithdrawal(withdrawal, "Transfer expired before it was confirmed");
+    }
+    if (metadata.signedTransaction) {
+      await this.connection
+        .sendRawTransaction(Buffer.from(metadata.signedTransaction, 'base64'), { skipPreflight: true })
+        .catch((error) => console.error(`Error rebroadcasting withdrawal ${withdrawal.id}:`, error));
+    }
+    return withdrawal;
+  }
+
+  /**
+   * Move credited deposits from a user's deposit address into the treasury wallet so withdrawals can
+   * pay them out. The treasury pays the fee and the deposit address signs for its token account; the
+   * sweep is recorded before it's sent, and the deposit monitor tracks it from there
+   */
+  async sweepDeposit(wallet: UserWallet, amount: bigint): Promise<WalletTransaction | undefined> {
+    const treasuryWallet = await this.getSigningWallet();
+    if (!treasuryWallet || !wallet.privateKeyHash) return undefined;
+
+    const mint = await this.getMintInfo();
+    const owner = Keypair.fromSecretKey(parseSecretKey(await EncryptionService.decrypt(wallet.privateKeyHash)));
+    if (owner.publicKey.toBase58() !== wallet.walletAddress) {
+      throw new Error(`Signing key doesn't match deposit address ${wallet.walletAddress}`);
+    }
+    const treasuryKey = new PublicKey(treasuryWallet.walletAddress);
+    const source = getAssociatedTokenAddress(owner.publicKey, mint);
+    const destination = getAssociatedTokenAddress(treasuryKey, mint);
+
+    const latest = await this.connection.getLatestBlockhash('finalized');
+    const transaction = new Transaction({ feePayer: treasuryKey, ...latest }).add(
+      createAssociatedTokenAccountIdempotentInstruction(treasuryKey, destination, treasuryKey, mint),
+      createTransferCheckedInstruction(source, destination, owner.publicKey, amount, mint),
+    );
+    transaction.sign(await this.loadSigner(treasuryWallet.walletAddress), owner);
+
+    const sweep = await storage.recordDepositSweep({
+      treasuryWalletId: treasuryWallet.id,
+      userWalletId: wallet.id,
+      amount: fromMintUnits(amount, mint.decimals),
+      signature: bs58.encode(transaction.signature!),
+      fromAddress: wallet.walletAddress,
+      toAddress: treasuryWallet.walletAddress,
+      lastValidBlockHeight: latest.lastValidBlockHeight,
+    });
+    try {
+      await this.connection.sendRawTransaction(transaction.serialize(), { preflightCommitment: 'finalized' });
+    } catch (error) {
+      // Anything but a rejected preflight may still land, so the monitor decides once the blockhash expires
+      if (error instanceof SendTransactionError) {
+        return await storage.updateWalletTransaction(sweep.id, {
+          status: 'failed',
+          metadata: { ...(sweep.metadata as any), failureReason: `Sweep rejected: ${error.message}` },
+        });
+      }
+      throw error;
+    }
+    console.log(`🧹 Sweeping ${sweep.amount} ${LEDGER_CURRENCY} from deposit address ${wallet.walletAddress} to the treasury (${sweep.transactionHash})`);
+    return sweep;
+  }
+
+  // Approved: hand the held withdrawal to the send pipeline
+  private async releaseWithdrawal(id: string): Promise<{ withdrawalId: string; status: string }> {
+    const released = await storage.updateTreasuryWithdrawal(id, { status: 'pending' }, ['awaiting_approval']);
+    if (!released) {
+      throw new Error('Withdrawal is no longer awaiting approval');
+    }
+    this.processWithdrawal(id).catch((error) => {
+      console.error(`Error processing withdrawal ${id}:`, error);
+    });
+    return { withdrawalId: id, status: released.status };
+  }
+
+  /**
+   * One pass of the withdrawal job: send pending withdrawals, rebuild ones interrupted before
+   * broadcast, and check broadcast ones for confirmation
+   */
+  async processQueue(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+    try {
+      const staleBefore = Date.now() - SOLANA_WITHDRAWAL_CONFIG.STALE_SIGNING_MS;
+      const interrupted = await storage.getTreasuryWithdrawalsByStatus(['prepared', 'signing'], SOLANA_WITHDRAWAL_CONFIG.BATCH_SIZE);
+      for (const withdrawal of interrupted) {
+        // No signature has been sent yet in these states, so starting over can't send twice
+        if (withdrawal.updatedAt.getTime() < staleBefore) {
+          await storage.updateTreasuryWithdrawal(withdrawal.id, { status: 'pending' }, [withdrawal.status]);
+        }
+      }
+
+      const pending = await storage.getTreasuryWithdrawalsByStatus(['pending'], SOLANA_WITHDRAWAL_CONFIG.BATCH_SIZE);
+      for (const withdrawal of pending) {
+        await this.processWithdrawal(withdrawal.id).catch((error) => {
+          console.error(`Error processing withdrawal ${withdrawal.id}:`, error);
+        });
+      }
+
+      const broadcasting = await storage.getTreasuryWithdrawalsByStatus(['broadcasting'], SOLANA_WITHDRAWAL_CONFIG.BATCH_SIZE);
+      for (const withdrawal of broadcasting) {
+        await this.checkConfirmation(withdrawal).catch((error) => {
+          console.error(`Error checking withdrawal ${withdrawal.id}:`, error);
+        });
+      }
+    } catch (error) {
+      console.error('Error processing withdrawal queue:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  start(): void {
+    if (this.pollInterval || !SOLANA_WITHDRAWAL_CONFIG.ENABLED) return;
+    console.log(`🚀 Solana withdrawals sending via ${SOLANA_WITHDRAWAL_CONFIG.RPC_URL} (mint ${SOLANA_WITHDRAWAL_CONFIG.MINT_ADDRESS})`);
+    this.pollInterval = setInterval(() => {
+      this.processQueue();
+    }, SOLANA_WITHDRAWAL_CONFIG.POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private async confirmWithdrawal(withdrawal: TreasuryWithdrawal, slot: number): Promise<TreasuryWithdrawal | undefined> {
+    const metadata = withdrawal.metadata as WithdrawalMetadata;
+    const netAmount = parseFloat(metadata.netAmount);
+    const confirmedAt = new Date();
+
+    const settled = await storage.settleTreasuryWithdrawal(withdrawal.id, {
+      fromStatus: withdrawal.status,
+      changes: { status: 'confirmed', confirmations: SOLANA_FINALIZED_CONFIRMATIONS, blockNumber: slot, confirmedAt },
+      entry: {
+        entryType: 'withdrawal',
+        description: `Withdrawal ${withdrawal.transactionSignature} finalized`,
+        relatedEntityType: 'treasury_withdrawal',
+        relatedEntityId: withdrawal.id,
+        postings: [
+          { account: systemLedgerAccount('withdrawal_clearing'), amount: -netAmount },
+          { account: systemLedgerAccount('issuance'), amount: netAmount },
+        ],
+      },
+      walletTransactionId: metadata.walletTransactionId,
+      walletTransactionChanges: {
+        status: 'confirmed',
+        transactionHash: withdrawal.transactionSignature,
+        blockNumber: slot,
+        confirmations: SOLANA_FINALIZED_CONFIRMATIONS,
+        confirmedAt,
+      },
+    });
+
+    if (settled) {
+      console.log(`✅ Withdrawal ${withdrawal.id} finalized in slot ${slot}`);
+      await notificationService.createNotification({
+        userId: withdrawal.requestedBy,
+        type: 'system_alert',
+        title: 'Withdrawal Complete',
+        message: `${metadata.netAmount} JCMOVES arrived at ${withdrawal.recipientAddress.slice(0, 4)}...${withdrawal.recipientAddress.slice(-4)}`,
+        data: { treasuryWithdrawalId: withdrawal.id, signature: withdrawal.transactionSignature },
+      });
+    }
+    return settled;
+  }
+
+  // Return the full amount, fee included, to the user's wallet
+  private async failWithdrawal(withdrawal: TreasuryWithdrawal, reason: string): Promise<TreasuryWithdrawal | undefined> {
+    const metadata = withdrawal.metadata as WithdrawalMetadata;
+    const grossAmount = parseFloat(metadata.grossAmount);
+
+    const settled = await storage.settleTreasuryWithdrawal(withdrawal.id, {
+      fromStatus: withdrawal.status,
+      changes: { status: 'failed', failureReason: reason },
+      entry: {
+        entryType: 'withdrawal_refund',
+        description: `Refund of failed withdrawal to ${withdrawal.recipientAddress}`,
+        relatedEntityType: 'treasury_withdrawal',
+        relatedEntityId: withdrawal.id,
+        postings: [
+          { account: systemLedgerAccount('withdrawal_clearing'), amount: -parseFloat(metadata.netAmount) },
+          { account: systemLedgerAccount('fees'), amount: -parseFloat(metadata.fee) },
+          { account: userWalletAccount(metadata.userWalletId), amount: grossAmount },
+        ],
+      },
+      walletTransactionId: metadata.walletTransactionId,
+      walletTransactionChanges: { status: 'failed', transactionHash: withdrawal.transactionSignature },
+      refund: {
+        userWalletId: metadata.userWalletId,
+        transactionType: 'refund',
+        amount: metadata.grossAmount,
+        metadata: { treasuryWithdrawalId: withdrawal.id, reason },
+      },
+    });
+
+    if (settled) {
+      console.warn(`⚠️ Withdrawal ${withdrawal.id} failed and was refunded: ${reason}`);
+      await notificationService.createNotification({
+        userId: withdrawal.requestedBy,
+        type: 'system_alert',
+        title: 'Withdrawal Refunded',
+        message: `Your ${metadata.grossAmount} JCMOVES withdrawal couldn't be sent and was returned to your wallet`,
+        data: { treasuryWithdrawalId: withdrawal.id, reason },
+      });
+    }
+    return settled;
+  }
+
+  // The JCMOVES treasury wallet, if it has a signing key on file
+  private async getSigningWallet(): Promise<TreasuryWallet | undefined> {
+    const wallets = await storage.getTreasuryWallets();
+    return wallets.find((wallet) =>
+      wallet.purpose === 'treasury' && wallet.currency.symbol === LEDGER_CURRENCY && !!wallet.privateKeyHash
+    );
+  }
+
+  private async loadSigner(walletAddress: string): Promise<Keypair> {
+    const wallet = await this.getSigningWallet();
+    if (!wallet?.privateKeyHash || wallet.walletAddress !== walletAddress) {
+      throw new Error(`No signing key on file for treasury wallet ${walletAddress}`);
+    }
+    const signer = Keypair.fromSecretKey(parseSecretKey(await EncryptionService.decrypt(wallet.privateKeyHash)));
+    if (signer.publicKey.toBase58() !== walletAddress) {
+      throw new Error(`Signing key doesn't match treasury wallet ${walletAddress}`);
+    }
+    return signer;
+  }
+
+  private async getMintInfo(): Promise<MintInfo> {
+    if (!this.mintInfo) {
+      this.mintInfo = await getMintInfo(this.connection, SOLANA_WITHDRAWAL_CONFIG.MINT_ADDRESS);
+    }
+    return this.mintInfo;
+  }
+}
+
+// Export singleton instance
+export const solanaWithdrawalService = new SolanaWithdrawalService();
+
+// Resume sending queued withdrawals on service startup
+solanaWithdrawalService.start();
@@ -0,0 +1,88 @@
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { LEDGER_DECIMALS, formatLedgerUnits, toLedgerUnits } from '@shared/ledger';
+
+// SPL token helpers for the withdrawal service and the deposit monitor, built on web3.js alone
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+export interface MintInfo {
+  mint: PublicKey;
+  programId: PublicKey;
+  decimals: number;
+}
+
+// Token program and decimals come from the mint itself, so classic and Token-2022 mints both work
+export async function getMintInfo(connection: Connection, mintAddress: string): Promise<MintInfo> {
+  const mint = new PublicKey(mintAddress);
+  const account = await connection.getParsedAccountInfo(mint);
+  if (!account.value) {
+    throw new Error(`Mint ${mint.toBase58()} not found on ${connection.rpcEndpoint}`);
+  }
+  const programId = account.value.owner;
+  const data = account.value.data;
+  if ((!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) || !('parsed' in data)) {
+    throw new Error(`${mint.toBase58()} is not an SPL token mint`);
+  }
+  return { mint, programId, decimals: data.parsed.info.decimals };
+}
+
+export function getAssociatedTokenAddress(owner: PublicKey, mint: MintInfo): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), mint.programId.toBuffer(), mint.mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+  )[0];
+}
+
+// Associated token program instruction 1 (CreateIdempotent): a no-op when the owner already has the account
+export function createAssociatedTokenAccountIdempotentInstruction(payer: PublicKey, account: PublicKey, owner: PublicKey, mint: MintInfo): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint.mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: mint.programId, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  });
+}
+
+// Token program instruction 12 (TransferChecked): u8 tag, u64 amount, u8 decimals. Same layout on Token-2022
+export function createTransferCheckedInstruction(source: PublicKey, destination: PublicKey, owner: PublicKey, amount: bigint, mint: MintInfo): TransactionInstruction {
+  const data = Buffer.alloc(10);
+  data.writeUInt8(12, 0);
+  data.writeBigUInt64LE(amount, 1);
+  data.writeUInt8(mint.decimals, 9);
+  return new TransactionInstruction({
+    programId: mint.programId,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint.mint, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+}
+
+// Ledger amounts carry 8 decimals; null when the amount needs more precision than the mint has
+export function toMintUnits(amount: string, decimals: number): bigint | null {
+  const units = toLedgerUnits(amount);
+  if (decimals >= LEDGER_DECIMALS) {
+    return units * BigInt(10 ** (decimals - LEDGER_DECIMALS));
+  }
+  const divisor = BigInt(10 ** (LEDGER_DECIMALS - decimals));
+  return units % divisor === BigInt(0) ? units / divisor : null;
+}
+
+// A raw on-chain amount as a ledger amount; precision beyond 8 decimals is dropped
+export function fromMintUnits(amount: bigint, decimals: number): string {
+  const units = decimals >= LEDGER_DECIMALS
+    ? amount / BigInt(10 ** (decimals - LEDGER_DECIMALS))
+    : amount * BigInt(10 ** (LEDGER_DECIMALS - decimals));
+  return formatLedgerUnits(units);
+}
@@ -0,0 +1,424 @@
+import { storage } from "../storage";
+import { routingService } from "./routing";
+import { getLeadScheduleWindow, isEmployeeOnLead } from "@shared/scheduling";
+import { getLeadStops } from "@shared/routing";
+import {
+  CLOCK_RADIUS_METERS,
+  MAX_ACCURACY_ALLOWANCE_METERS,
+  ON_TIME_GRACE_MINUTES,
+  OVERTIME_THRESHOLD_HOURS,
+  TimeClockError,
+  distanceMeters,
+  formatMinutesAsHours,
+  getBreakMinutes,
+  getWorkedMinutes,
+  isOnBreak,
+  type ClockLocation,
+  type TimeClockErrorCode,
+  type TimeEntryBreak,
+} from "@shared/time-clock";
+import type { Lead, TimeEntry } from "@shared/schema";
+
+export interface TimeClockResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: TimeClockErrorCode;
+}
+
+export interface TimesheetEntry extends TimeEntry {
+  employeeName: string;
+  customerName: string;
+  currentWorkedMinutes: number; // workedMinutes, or the running total while clocked in
+}
+
+export interface EmployeeWeekTotals {
+  userId: string;
+  employeeName: string;
+  email: string | null;
+  entries: number;
+  approvedMinutes: number;
+  pendingMinutes: number; // Clocked in or awaiting approval
+  regularMinutes: number; // Approved minutes up to the overtime threshold
+  overtimeMinutes: number;
+  onTimeClockIns: number;
+  lateClockIns: number;
+  unverifiedEntries: number;
+}
+
+export interface WeeklyTimesheets {
+  weekStart: Date;
+  weekEnd: Date;
+  entries: TimesheetEntry[];
+  totals: EmployeeWeekTotals[];
+}
+
+// Jobs crew can clock in on
+const CLOCKABLE_LEAD_STATUSES = ['confirmed', 'accepted', 'in_progress'];
+
+const toDecimal = (value: number) => value.toFixed(7);
+
+class TimeClockService {
+  /**
+   * The employee's open entry, if they're clocked in
+   */
+  async getCurrentEntry(userId: string): Promise<TimesheetEntry | null> {
+    const entry = await storage.getOpenTimeEntry(userId);
+    if (!entry) return null;
+
+    const [user, lead] = await Promise.all([storage.getUser(userId), storage.getLead(entry.leadId)]);
+    return this.toTimesheetEntry(entry, user, lead);
+  }
+
+  /**
+   * Clock in on a job. The employee must be on the crew and near the pickup address
+   */
+  async clockIn(userId: string, leadId: string, location: ClockLocation): Promise<TimeClockResult<TimeEntry>> {
+    const lead = await storage.getLead(leadId);
+    if (!lead) {
+      return { success: false, code: 'not_found', error: "Job not found" };
+    }
+    if (!isEmployeeOnLead(lead, userId)) {
+      return { success: false, code: 'not_assigned', error: "You can only clock in on jobs you're assigned to" };
+    }
+    if (!CLOCKABLE_LEAD_STATUSES.includes(lead.status)) {
+      return { success: false, code: 'job_not_active', error: `Can't clock in on a job that is ${lead.status.replace('_', ' ')}` };
+    }
+
+    const check = await this.checkLocation(location, [lead.confirmedFromAddress || lead.fromAddress]);
+    if (!check.withinRange) {
+      return {
+        success: false,
+        code: 'too_far',
+        error: `You're about ${Math.round(check.distanceMeters!)} m from the job address. Clock in when you arrive.`,
+      };
+    }
+
+    // On time is only measured against a scheduled start, not a move date with an assumed start hour
+    const window = getLeadScheduleWindow(lead);
+    const now = new Date();
+    const isOnTime = window && !window.isEstimated
+      ? now.getTime() <= window.start.getTime() + ON_TIME_GRACE_MINUTES * 60 * 1000
+      : null;
+
+    try {
+      const entry = await storage.createTimeEntry({
+        userId,
+        leadId,
+        clockInLatitude: toDecimal(location.latitude),
+        clockInLongitude: toDecimal(location.longitude),
+        clockInDistanceMeters: check.distanceMeters === null ? null : Math.round(check.distanceMeters),
+        locationVerified: check.distanceMeters !== null,
+        isOnTime,
+      });
+
+      // The first clock-in starts the job
+      if (lead.status === 'accepted') {
+        try {
+          await storage.updateLeadStatus(leadId, 'in_progress', {
+            changedByUserId: userId,
+            actor: 'employee',
+            reason: 'Started on crew clock-in',
+          });
+        } catch (statusError) {
+          console.error(`Failed to start job ${leadId} on clock-in:`, statusError);
+        }
+      }
+
+      console.log(`⏱️ ${userId} clocked in on job ${leadId}${isOnTime === false ? ' (late)' : ''}`);
+      return { success: true, data: entry };
+    } catch (error) {
+      if (error instanceof TimeClockError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Clock out of the open entry. Crews finish at the drop-off, so any stop on the job counts as on site;
+   * clocking out elsewhere is allowed but leaves the entry unverified for the admin to review
+   */
+  async clockOut(userId: string, location: ClockLocation, notes?: string): Promise<TimeClockResult<TimeEntry>> {
+    const open = await storage.getOpenTimeEntry(userId);
+    if (!open) {
+      return { success: false, code: 'not_clocked_in', error: "You're not clocked in" };
+    }
+
+    const lead = await storage.getLead(open.leadId);
+    const stops = lead ? getLeadStops(lead, await storage.getJobStops(lead.id)) : [];
+    const check = await this.checkLocation(location, stops.map((stop) => stop.address));
+
+    return this.updateEntry(open.id, (entry) => {
+      if (entry.clockOutAt) {
+        throw new TimeClockError('not_clocked_in', "You're not clocked in");
+      }
+      const clockOutAt = new Date();
+      const breaks = this.closeBreaks(entry.breaks as TimeEntryBreak[], clockOutAt);
+      const breakMinutes = getBreakMinutes(breaks, clockOutAt);
+      return {
+        status: 'submitted',
+        clockOutAt,
+        clockOutLatitude: toDecimal(location.latitude),
+        clockOutLongitude: toDecimal(location.longitude),
+        clockOutDistanceMeters: check.distanceMeters === null ? null : Math.round(check.distanceMeters),
+        locationVerified: entry.locationVerified && check.distanceMeters !== null && check.withinRange,
+        breaks,
+        breakMinutes,
+        workedMinutes: getWorkedMinutes({ clockInAt: entry.clockInAt, clockOutAt, breaks, breakMinutes }),
+        notes: notes || entry.notes,
+      };
+    });
+  }
+
+  async startBreak(userId: string): Promise<TimeClockResult<TimeEntry>> {
+    const open = await storage.getOpenTimeEntry(userId);
+    if (!open) {
+      return { success: false, code: 'not_clocked_in', error: "You're not clocked in" };
+    }
+
+    return this.updateEntry(open.id, (entry) => {
+      const breaks = (entry.breaks as TimeEntryBreak[]) || [];
+      if (isOnBreak(breaks)) {
+        throw new TimeClockError('on_break', "You're already on break");
+      }
+      return { breaks: [...breaks, { startedAt: new Date().toISOString(), endedAt: null }] };
+    });
+  }
+
+  async endBreak(userId: string): Promise<TimeClockResult<TimeEntry>> {
+    const open = await storage.getOpenTimeEntry(userId);
+    if (!open) {
+      return { success: false, code: 'not_clocked_in', error: "You're not clocked in" };
+    }
+
+    return this.updateEntry(open.id, (entry) => {
+      const breaks = (entry.breaks as TimeEntryBreak[]) || [];
+      if (!isOnBreak(breaks)) {
+        throw new TimeClockError('not_on_break', "You're not on break");
+      }
+      return { breaks: this.closeBreaks(breaks, new Date()) };
+    });
+  }
+
+  /**
+   * Admin correction of a closed entry. The first edit keeps the recorded times, and edited entries need approving again
+   */
+  async editEntry(
+    entryId: string,
+    edit: { clockInAt: string; clockOutAt: string; breakMinutes: number; note: string },
+    editedByUserId: string
+  ): Promise<TimeClockResult<TimeEntry>> {
+    return this.updateEntry(entryId, (entry) => {
+      if (!entry.clockOutAt) {
+        throw new TimeClockError('invalid_status', "The employee is still clocked in on this entry");
+      }
+      const clockInAt = new Date(edit.clockInAt);
+      const clockOutAt = new Date(edit.clockOutAt);
+      return {
+        status: 'submitted',
+        clockInAt,
+        clockOutAt,
+        breakMinutes: edit.breakMinutes,
+        workedMinutes: getWorkedMinutes({ clockInAt, clockOutAt, breaks: entry.breaks, breakMinutes: edit.breakMinutes }),
+        originalClockInAt: entry.originalClockInAt || entry.clockInAt,
+        originalClockOutAt: entry.originalClockOutAt || entry.clockOutAt,
+        editedByUserId,
+        editedAt: new Date(),
+        editNote: edit.note,
+        reviewedByUserId: null,
+        reviewedAt: null,
+        reviewNote: null,
+      };
+    });
+  }
+
+  /**
+   * Approve or reject a closed entry for payroll
+   */
+  async reviewEntry(entryId: string, status: 'approved' | 'rejected', reviewedByUserId: string, note?: string): Promise<TimeClockResult<TimeEntry>> {
+    return this.updateEntry(entryId, (entry) => {
+      if (entry.status === 'open') {
+        throw new TimeClockError('invalid_status', "The employee is still clocked in on this entry");
+      }
+      return {
+        status,
+        reviewedByUserId,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+      };
+    });
+  }
+
+  /**
+   * Clock out anyone still on a job when it's marked complete, flagged for the admin to check the times
+   */
+  async closeOpenEntriesForLead(leadId: string): Promise<void> {
+    const openEntries = (await storage.getTimeEntries({ leadId, status: 'open' })).filter((entry) => !entry.clockOutAt);
+    for (const open of openEntries) {
+      await storage.updateTimeEntry(open.id, (entry) => {
+        if (entry.clockOutAt) return {};
+        const clockOutAt = new Date();
+        const breaks = this.closeBreaks(entry.breaks as TimeEntryBreak[], clockOutAt);
+        const breakMinutes = getBreakMinutes(breaks, clockOutAt);
+        return {
+          status: 'submitted',
+          clockOutAt,
+          locationVerified: false,
+          breaks,
+          breakMinutes,
+          workedMinutes: getWorkedMinutes({ clockInAt: entry.clockInAt, clockOutAt, breaks, breakMinutes }),
+          notes: [entry.notes, "Clocked out automatically when the job was completed"].filter(Boolean).join("\n"),
+        };
+      });
+    }
+  }
+
+  /**
+   * Whether an employee showed up on time for a job, for completion rewards. Jobs without a scheduled
+   * start count as on time once the employee has clocked in; no clock-in is never on time
+   */
+  async wasOnTime(leadId: string, userId: string): Promise<boolean> {
+    const [firstEntry] = await storage.getTimeEntries({ leadId, userId });
+    return !!firstEntry && firstEntry.isOnTime !== false;
+  }
+
+  /**
+   * Every entry clocked in during a payroll week, with per-employee totals
+   */
+  async getWeeklyTimesheets(weekStart: Date, userId?: string): Promise<WeeklyTimesheets> {
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekEnd.getDate() + 7);
+
+    const entries = await storage.getTimeEntries({ userId, from: weekStart, to: weekEnd });
+    const [users, leads] = await Promise.all([
+      storage.getAllUsers(),
+      storage.getLeadsByIds(Array.from(new Set(entries.map((entry) => entry.leadId)))),
+    ]);
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    const leadsById = new Map(leads.map((lead) => [lead.id, lead]));
+
+    const timesheetEntries = entries.map((entry) => this.toTimesheetEntry(entry, usersById.get(entry.userId), leadsById.get(entry.leadId)));
+
+    const totalsByUser = new Map<string, EmployeeWeekTotals>();
+    for (const entry of timesheetEntries) {
+      let totals = totalsByUser.get(entry.userId);
+      if (!totals) {
+        totals = {
+          userId: entry.userId,
+          employeeName: entry.employeeName,
+          email: usersById.get(entry.userId)?.email || null,
+          entries: 0,
+          approvedMinutes: 0,
+          pendingMinutes: 0,
+          regularMinutes: 0,
+          overtimeMinutes: 0,
+          onTimeClockIns: 0,
+          lateClockIns: 0,
+          unverifiedEntries: 0,
+        };
+        totalsByUser.set(entry.userId, totals);
+      }
+
+      totals.entries += 1;
+      if (entry.status === 'approved') totals.approvedMinutes += entry.currentWorkedMinutes;
+      if (entry.status === 'open' || entry.status === 'submitted') totals.pendingMinutes += entry.currentWorkedMinutes;
+      if (entry.isOnTime === true) totals.onTimeClockIns += 1;
+      if (entry.isOnTime === false) totals.lateClockIns += 1;
+      if (!entry.locationVerified && entry.status !== 'open') totals.unverifiedEntries += 1;
+    }
+
+    const overtimeThreshold = OVERTIME_THRESHOLD_HOURS * 60;
+    const totals = Array.from(totalsByUser.values()).map((total) => ({
+      ...total,
+      regularMinutes: Math.min(total.approvedMinutes, overtimeThreshold),
+      overtimeMinutes: Math.max(0, total.approvedMinutes - overtimeThreshold),
+    }));
+    totals.sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+
+    return { weekStart, weekEnd, entries: timesheetEntries, totals };
+  }
+
+  /**
+   * Payroll CSV of approved hours per employee for the week
+   */
+  toPayrollCsv(timesheets: WeeklyTimesheets): string {
+    const escape = (value: string | number | null) => {
+      const text = value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const weekStart = timesheets.weekStart.toISOString().split('T')[0];
+
+    const rows = [
+      ['Employee', 'Email', 'Week Start', 'Entries', 'Approved Hours', 'Regular Hours', 'Overtime Hours', 'Pending Hours', 'On-Time Clock-Ins', 'Late Clock-Ins', 'Unverified Entries'],
+      ...timesheets.totals.map((total) => [
+        total.employeeName,
+        total.email,
+        weekStart,
+        total.entries,
+        formatMinutesAsHours(total.approvedMinutes),
+        formatMinutesAsHours(total.regularMinutes),
+        formatMinutesAsHours(total.overtimeMinutes),
+        formatMinutesAsHours(total.pendingMinutes),
+        total.onTimeClockIns,
+        total.lateClockIns,
+        total.unverifiedEntries,
+      ]),
+    ];
+    return rows.map((row) => row.map(escape).join(',')).join('\n');
+  }
+
+  // Closest distance to any of the job's addresses. Jobs that can't be geocoded can't be checked, so they're let through unverified
+  private async checkLocation(location: ClockLocation, addresses: (string | null | undefined)[]): Promise<{ distanceMeters: number | null; withinRange: boolean }> {
+    const coordinates = await Promise.all(
+      addresses.filter((address): address is string => !!address).map((address) => routingService.geocode(address))
+    );
+    const distances = coordinates
+      .filter((point): point is NonNullable<typeof point> => point !== null)
+      .map((point) => distanceMeters(location, point));
+
+    if (distances.length === 0) {
+      return { distanceMeters: null, withinRange: true };
+    }
+
+    const closest = Math.min(...distances);
+    const allowance = CLOCK_RADIUS_METERS + Math.min(location.accuracy || 0, MAX_ACCURACY_ALLOWANCE_METERS);
+    return { distanceMeters: closest, withinRange: closest <= allowance };
+  }
+
+  private closeBreaks(breaks: TimeEntryBreak[] | null, endedAt: Date): TimeEntryBreak[] {
+    return (breaks || []).map((entry) => entry.endedAt ? entry : { ...entry, endedAt: endedAt.toISOString() });
+  }
+
+  private async updateEntry(entryId: string, apply: Parameters<typeof storage.updateTimeEntry>[1]): Promise<TimeClockResult<TimeEntry>> {
+    try {
+      const entry = await storage.updateTimeEntry(entryId, apply);
+      if (!entry) {
+        return { success: false, code: 'not_found', error: "Time entry not found" };
+      }
+      return { success: true, data: entry };
+    } catch (error) {
+      if (error instanceof TimeClockError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private toTimesheetEntry(
+    entry: TimeEntry,
+    user: { firstName: string | null; lastName: string | null; email: string | null } | undefined,
+    lead: Lead | undefined
+  ): TimesheetEntry {
+    const employeeName = user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Unknown employee' : 'Unknown employee';
+    return {
+      ...entry,
+      employeeName,
+      customerName: lead ? `${lead.firstName} ${lead.lastName}` : 'Deleted job',
+      currentWorkedMinutes: entry.workedMinutes ?? getWorkedMinutes(entry),
+    };
+  }
+}
+
+// Export singleton instance
+export const timeClockService = new TimeClockService();
@@ -0,0 +1,418 @@
+import { storage, type ReserveJournalRow } from '../storage';
+import { TREASURY_ACCOUNTING_CONFIG } from '../constants';
+import { formatLedgerUnits, toLedgerUnits, type LedgerAccountRef } from '@shared/ledger';
+import {
+  DISTRIBUTION_CATEGORIES,
+  DISTRIBUTION_CATEGORY_LABELS,
+  formatCents,
+  getDistributionCategory,
+  getTreasuryPeriod,
+  TreasuryPeriodError,
+  type TreasuryExportFormat,
+  type TreasuryPeriod,
+  type TreasuryPeriodErrorCode,
+  type TreasuryPeriodLine,
+  type TreasuryPeriodSummary,
+  type TreasuryPeriodType,
+} from '@shared/treasury-accounting';
+import type { TreasuryPeriodClose } from '@shared/schema';
+
+export interface TreasuryPeriodResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: TreasuryPeriodErrorCode;
+}
+
+export interface TreasuryPeriodListing {
+  type: TreasuryPeriodType;
+  key: string;
+  start: string;
+  end: string;
+  status: 'open' | 'closed';
+  canClose: boolean; // Ended and not yet closed
+  closedAt: string | null;
+  closedBy: string | null;
+}
+
+export interface TreasuryPeriodReport {
+  summary: TreasuryPeriodSummary;
+  lines: TreasuryPeriodLine[];
+}
+
+export interface TreasuryExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+const toCents = (amount: string | number) => Math.round(parseFloat(String(amount)) * 100);
+
+/**
+ * Monthly and quarterly accounting for the treasury reserve, built from reserve_transactions.
+ *
+ * Tokens are carried at average cost: USD deposits add to the cost pool, and each distribution takes
+ * out its share of the pool as cost basis. Distributions are valued at the price_history price when
+ * they were paid, so the difference is the realized gain or loss. Each close stores its closing cost
+ * pool for the next period to start from, and once a period is closed the database rejects changes to
+ * reserve activity dated inside it. Those triggers are installed on startup, and a period isn't closed
+ * until they are in place.
+ */
+class TreasuryAccountingService {
+  private periodLocks: Promise<void> | null = null;
+
+  // Installs the closed-period triggers once per process; a failed attempt is retried on the next call
+  async ensurePeriodLocks(): Promise<void> {
+    if (!this.periodLocks) {
+      this.periodLocks = storage.installTreasuryPeriodLocks().catch((error) => {
+        this.periodLocks = null;
+        throw error;
+      });
+    }
+    await this.periodLocks;
+  }
+
+  // Recent periods of one type, newest first, with whether each can be closed yet
+  async listPeriods(type: TreasuryPeriodType, now: Date = new Date()): Promise<TreasuryPeriodListing[]> {
+    const closes = await storage.getTreasuryPeriodCloses(100);
+    const periods: TreasuryPeriod[] = [];
+    let cursor = getTreasuryPeriod(type, now);
+    for (let i = 0; i < TREASURY_ACCOUNTING_CONFIG.OPEN_PERIODS_LISTED[type]; i++) {
+      periods.push(cursor);
+      cursor = getTreasuryPeriod(type, new Date(cursor.start.getTime() - 1));
+    }
+
+    return periods.map((period) => {
+      const close = closes.find((candidate) => candidate.periodType === type && candidate.periodKey === period.key);
+      return {
+        type,
+        key: period.key,
+        start: period.start.toISOString(),
+        end: period.end.toISOString(),
+        status: close ? 'closed' : 'open',
+        canClose: !close && period.end <= now,
+        closedAt: close ? close.closedAt.toISOString() : null,
+        closedBy: close ? close.closedBy : null,
+      };
+    });
+  }
+
+  // Closed periods report what was stored at close; open ones are computed from the current books
+  async getPeriodReport(period: TreasuryPeriod): Promise<TreasuryPeriodReport> {
+    const close = await storage.getTreasuryPeriodClose(period.type, period.key);
+    const openingCostPoolCents = close ? toCents(close.openingCostPoolUsd) : await this.getOpeningCostPool(period.start);
+    const report = await this.buildReport(period, openingCostPoolCents);
+    return close ? { summary: close.summary as TreasuryPeriodSummary, lines: report.lines } : report;
+  }
+
+  async closePeriod(period: TreasuryPeriod, closedBy: string, notes?: string): Promise<TreasuryPeriodResult<TreasuryPeriodClose>> {
+    if (period.end > new Date()) {
+      return { success: false, code: 'not_ended', error: `${period.key} hasn't ended yet` };
+    }
+
+    try {
+      await this.ensurePeriodLocks();
+    } catch (error) {
+      console.error('Error installing treasury period locks:', error);
+      return { success: false, code: 'locks_unavailable', error: "Closed periods can't be locked right now, so the period was left open" };
+    }
+
+    try {
+      const treasury = await storage.getMainTreasuryAccount();
+      const { summary } = await this.buildReport(period, await this.getOpeningCostPool(period.start));
+      const closedAt = new Date();
+      const close = await storage.closeTreasuryPeriod({
+        periodType: period.type,
+        periodKey: period.key,
+        periodStart: period.start,
+        periodEnd: period.end,
+        treasuryAccountId: treasury.id,
+        openingReserve: summary.openingReserve,
+        closingReserve: summary.closingReserve,
+        depositTokens: summary.deposits.tokens,
+        depositUsd: formatCents(summary.deposits.costCents),
+        distributionTokens: summary.distributions.tokens,
+        distributionUsd: formatCents(summary.distributions.valueCents),
+        costBasisUsd: formatCents(summary.distributions.costBasisCents),
+        realizedGainLossUsd: formatCents(summary.distributions.gainLossCents),
+        openingCostPoolUsd: formatCents(summary.openingCostPoolCents),
+        closingCostPoolUsd: formatCents(summary.closingCostPoolCents),
+        summary: { ...summary, status: 'closed', closedAt: closedAt.toISOString(), closedBy },
+        notes: notes || null,
+        closedBy,
+      });
+      console.log(`📒 ${closedBy} closed treasury ${period.type} ${period.key}: reserve ${summary.openingReserve} → ${summary.closingReserve} JCMOVES`);
+      return { success: true, data: close };
+    } catch (error) {
+      if (error instanceof TreasuryPeriodError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  async exportPeriod(period: TreasuryPeriod, format: TreasuryExportFormat): Promise<TreasuryExportFile> {
+    const report = await this.getPeriodReport(period);
+    const base = `jcmoves-treasury-${period.key}`;
+    switch (format) {
+      case 'iif':
+        return { filename: `${base}.iif`, contentType: 'text/plain', body: this.toIif(report, period) };
+      case 'ofx':
+        return { filename: `${base}.ofx`, contentType: 'application/x-ofx', body: await this.toOfx(report, period) };
+      default:
+        return { filename: `${base}.csv`, contentType: 'text/csv', body: this.toCsv(report) };
+    }
+  }
+
+  // The closing cost pool of the last close before this date, carried forward through anything not yet closed
+  private async getOpeningCostPool(date: Date): Promise<number> {
+    const previous = await storage.getLatestTreasuryPeriodCloseBefore(date);
+    const treasury = await storage.getMainTreasuryAccount();
+    const rows = await storage.getReserveJournal(treasury.id, previous ? previous.periodEnd : null, date);
+    let costPoolCents = previous ? toCents(previous.closingCostPoolUsd) : 0;
+    for (const row of rows) {
+      costPoolCents = this.valueRow(row, costPoolCents).costPoolCents;
+    }
+    return costPoolCents;
+  }
+
+  private async buildReport(period: TreasuryPeriod, openingCostPoolCents: number): Promise<TreasuryPeriodReport> {
+    const treasury = await storage.getMainTreasuryAccount();
+    const reserveAccount: LedgerAccountRef = { type: 'treasury_reserve', ownerId: treasury.id };
+    const [rows, openingReserve, closingReserve] = await Promise.all([
+      storage.getReserveJournal(treasury.id, period.start, period.end),
+      storage.getLedgerBalanceAsOf(reserveAccount, period.start),
+      storage.getLedgerBalanceAsOf(reserveAccount, period.end),
+    ]);
+
+    const lines: TreasuryPeriodLine[] = [];
+    let costPoolCents = openingCostPoolCents;
+    for (const row of rows) {
+      const valued = this.valueRow(row, costPoolCents);
+      costPoolCents = valued.costPoolCents;
+      lines.push(valued.line);
+    }
+
+    const sumTokens = (subset: TreasuryPeriodLine[]) => subset.reduce((total, line) => total + toLedgerUnits(line.tokenAmount), BigInt(0));
+    const sumCents = (subset: TreasuryPeriodLine[], field: 'valueCents' | 'costBasisCents' | 'gainLossCents') =>
+      subset.reduce((total, line) => total + line[field], 0);
+
+    const deposits = lines.filter((line) => line.transactionType === 'deposit');
+    const distributions = lines.filter((line) => line.transactionType === 'distribution');
+    const reclaims = lines.filter((line) => line.transactionType === 'refund');
+    const otherReserveChange = toLedgerUnits(closingReserve) - toLedgerUnits(openingReserve)
+      - sumTokens(deposits) + sumTokens(distributions) - sumTokens(reclaims);
+
+    const summary: TreasuryPeriodSummary = {
+      period: { type: period.type, key: period.key, start: period.start.toISOString(), end: period.end.toISOString() },
+      status: 'open',
+      closedAt: null,
+      closedBy: null,
+      openingReserve,
+      closingReserve,
+      openingCostPoolCents,
+      closingCostPoolCents: costPoolCents,
+      deposits: { count: deposits.length, tokens: formatLedgerUnits(sumTokens(deposits)), costCents: sumCents(deposits, 'valueCents') },
+      distributions: {
+        count: distributions.length,
+        tokens: formatLedgerUnits(sumTokens(distributions)),
+        valueCents: sumCents(distributions, 'valueCents'),
+        costBasisCents: sumCents(distributions, 'costBasisCents'),
+        gainLossCents: sumCents(distributions, 'gainLossCents'),
+      },
+      reclaims: { count: reclaims.length, tokens: formatLedgerUnits(sumTokens(reclaims)) },
+      byCategory: DISTRIBUTION_CATEGORIES
+        .map((category) => {
+          const subset = distributions.filter((line) => line.category === category);
+          return {
+            category,
+            count: subset.length,
+            tokens: formatLedgerUnits(sumTokens(subset)),
+            valueCents: sumCents(subset, 'valueCents'),
+            costBasisCents: sumCents(subset, 'costBasisCents'),
+            gainLossCents: sumCents(subset, 'gainLossCents'),
+          };
+        })
+        .filter((totals) => totals.count > 0),
+      otherReserveChange: formatLedgerUnits(otherReserveChange),
+      unpricedDistributions: distributions.filter((line) => line.priceSource === 'recorded').length,
+    };
+
+    return { summary, lines };
+  }
+
+  // Moves the cost pool for one reserve transaction. Deposits add what was paid, reclaims come in at no cost,
+  // and distributions take out the pool's average cost for the tokens that left
+  private valueRow(row: ReserveJournalRow, costPoolCents: number): { line: TreasuryPeriodLine; costPoolCents: number } {
+    const tokens = toLedgerUnits(row.tokenAmount);
+    const recordedPrice = tokens > BigInt(0) ? parseFloat(row.cashValue) / parseFloat(row.tokenAmount) : null;
+    const price = row.historicalPriceUsd !== null ? parseFloat(row.historicalPriceUsd) : recordedPrice;
+    const line: TreasuryPeriodLine = {
+      id: row.id,
+      date: row.createdAt.toISOString(),
+      transactionType: row.transactionType,
+      category: null,
+      relatedEntityType: row.relatedEntityType,
+      relatedEntityId: row.relatedEntityId,
+      description: row.description,
+      tokenAmount: row.tokenAmount,
+      priceUsd: price,
+      priceSource: row.historicalPriceUsd !== null ? 'price_history' : 'recorded',
+      valueCents: 0,
+      costBasisCents: 0,
+      gainLossCents: 0,
+      reserveAfter: row.tokenReserveAfter,
+    };
+
+    if (row.transactionType === 'deposit') {
+      line.valueCents = line.costBasisCents = toCents(row.cashValue);
+      return { line, costPoolCents: costPoolCents + line.costBasisCents };
+    }
+
+    if (row.transactionType === 'distribution') {
+      const reserveBefore = toLedgerUnits(row.tokenReserveAfter) + tokens;
+      const share = reserveBefore > BigInt(0) ? Number(tokens) / Number(reserveBefore) : 0;
+      line.category = getDistributionCategory(row.relatedEntityType);
+      line.costBasisCents = Math.min(costPoolCents, Math.round(costPoolCents * share));
+      line.valueCents = Math.round(parseFloat(row.tokenAmount) * (price || 0) * 100);
+      line.gainLossCents = line.valueCents - line.costBasisCents;
+      return { line, costPoolCents: costPoolCents - line.costBasisCents };
+    }
+
+    return { line, costPoolCents };
+  }
+
+  private toCsv(report: TreasuryPeriodReport): string {
+    const escape = (value: string | number | null) => {
+      const text = value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [
+      ['Date', 'Type', 'Category', 'Related Entity Type', 'Related Entity ID', 'Description', 'Tokens', 'Price USD', 'Price Source', 'Value USD', 'Cost Basis USD', 'Realized Gain/Loss USD', 'Reserve After'],
+      ...report.lines.map((line) => [
+        line.date,
+        line.transactionType,
+        line.category ? DISTRIBUTION_CATEGORY_LABELS[line.category] : '',
+        line.relatedEntityType,
+        line.relatedEntityId,
+        line.description,
+        line.tokenAmount,
+        line.priceUsd === null ? '' : line.priceUsd.toFixed(12),
+        line.priceSource,
+        formatCents(line.valueCents),
+        formatCents(line.costBasisCents),
+        line.transactionType === 'distribution' ? formatCents(line.gainLossCents) : '',
+        line.reserveAfter,
+      ]),
+    ];
+    return rows.map((row) => row.map(escape).join(',')).join('\n');
+  }
+
+  // One general journal entry per deposit source and per distribution category, dated the last day of the period
+  private toIif(report: TreasuryPeriodReport, period: TreasuryPeriod): string {
+    const accounts = TREASURY_ACCOUNTING_CONFIG.QUICKBOOKS_ACCOUNTS;
+    const lastDay = new Date(period.end.getTime() - 1);
+    const date = `${String(lastDay.getUTCMonth() + 1).padStart(2, '0')}/${String(lastDay.getUTCDate()).padStart(2, '0')}/${lastDay.getUTCFullYear()}`;
+    const clean = (text: string) => text.replace(/[\t\r\n"]/g, ' ');
+    const rows: string[][] = [
+      ['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'],
+      ['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'],
+      ['!ENDTRNS'],
+    ];
+    const addEntry = (memo: string, splits: Array<{ account: string; cents: number }>) => {
+      const [first, ...rest] = splits.filter((split) => split.cents !== 0);
+      if (!first) return;
+      const docNumber = `JCM-${period.key}`;
+      rows.push(['TRNS', 'GENERAL JOURNAL', date, first.account, formatCents(first.cents), docNumber, clean(memo)]);
+      for (const split of rest) {
+        rows.push(['SPL', 'GENERAL JOURNAL', date, split.account, formatCents(split.cents), docNumber, clean(memo)]);
+      }
+      rows.push(['ENDTRNS']);
+    };
+
+    const deposits = report.lines.filter((line) => line.transactionType === 'deposit');
+    const invoiceCents = deposits.filter((line) => line.relatedEntityType === 'invoice_payment').reduce((total, line) => total + line.valueCents, 0);
+    const fundingCents = deposits.reduce((total, line) => total + line.valueCents, 0) - invoiceCents;
+    addEntry(`JCMOVES treasury funding ${period.key}`, [
+      { account: accounts.RESERVE, cents: fundingCents },
+      { account: accounts.FUNDING, cents: -fundingCents },
+    ]);
+    addEntry(`JCMOVES invoice payments ${period.key}`, [
+      { account: accounts.RESERVE, cents: invoiceCents },
+      { account: accounts.INVOICE_PAYMENTS, cents: -invoiceCents },
+    ]);
+
+    // Expense at market value, the reserve relieved at cost, and the difference realized
+    for (const totals of report.summary.byCategory) {
+      addEntry(`JCMOVES ${DISTRIBUTION_CATEGORY_LABELS[totals.category]} distributions ${period.key} (${totals.count}, ${totals.tokens} tokens)`, [
+        { account: accounts.RESERVE, cents: -totals.costBasisCents },
+        { account: `${accounts.DISTRIBUTION_EXPENSE_PREFIX}:${DISTRIBUTION_CATEGORY_LABELS[totals.category]}`, cents: totals.valueCents },
+        { account: accounts.REALIZED_GAIN_LOSS, cents: -totals.gainLossCents },
+      ]);
+    }
+
+    return rows.map((row) => row.join('\t')).join('\r\n') + '\r\n';
+  }
+
+  // A statement for the reserve as a bank account: each transaction moves its carrying value, so the ledger
+  // balance is the closing cost pool
+  private async toOfx(report: TreasuryPeriodReport, period: TreasuryPeriod): Promise<string> {
+    const treasury = await storage.getMainTreasuryAccount();
+    const ofxDate = (date: Date) => date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    const clean = (text: string) => text.replace(/[<>&\r\n]/g, ' ').slice(0, 255);
+
+    const transactions = report.lines
+      .map((line) => ({ line, cents: line.transactionType === 'distribution' ? -line.costBasisCents : line.valueCents }))
+      .filter(({ cents }) => cents !== 0)
+      .map(({ line, cents }) => [
+        '<STMTTRN>',
+        `<TRNTYPE>${cents > 0 ? 'CREDIT' : 'DEBIT'}`,
+        `<DTPOSTED>${ofxDate(new Date(line.date))}`,
+        `<TRNAMT>${formatCents(cents)}`,
+        `<FITID>${line.id}`,
+        `<NAME>${clean(line.category ? DISTRIBUTION_CATEGORY_LABELS[line.category] : line.transactionType === 'deposit' ? 'Treasury deposit' : line.transactionType)}`,
+        `<MEMO>${clean(`${line.description} (${line.tokenAmount} JCMOVES)`)}`,
+        '</STMTTRN>',
+      ].join('\n'));
+
+    return [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      'VERSION:102',
+      'SECURITY:NONE',
+      'ENCODING:USASCII',
+      'CHARSET:1252',
+      'COMPRESSION:NONE',
+      'OLDFILEUID:NONE',
+      'NEWFILEUID:NONE',
+      '',
+      '<OFX>',
+      '<SIGNONMSGSRSV1><SONRS>',
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      `<DTSERVER>${ofxDate(new Date())}`,
+      '<LANGUAGE>ENG',
+      '</SONRS></SIGNONMSGSRSV1>',
+      '<BANKMSGSRSV1><STMTTRNRS>',
+      `<TRNUID>${period.key}`,
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      '<STMTRS>',
+      '<CURDEF>USD',
+      `<BANKACCTFROM><BANKID>JCMOVES<ACCTID>${treasury.id}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+      `<BANKTRANLIST><DTSTART>${ofxDate(period.start)}<DTEND>${ofxDate(period.end)}`,
+      ...transactions,
+      '</BANKTRANLIST>',
+      `<LEDGERBAL><BALAMT>${formatCents(report.summary.closingCostPoolCents)}<DTASOF>${ofxDate(period.end)}</LEDGERBAL>`,
+      '</STMTRS>',
+      '</STMTTRNRS></BANKMSGSRSV1>',
+      '</OFX>',
+      '',
+    ].join('\n');
+  }
+}
+
+// Export singleton instance
+export const treasuryAccountingService = new TreasuryAccountingService();
+treasuryAccountingService.ensurePeriodLocks().catch((error) => {
+  console.error('Error installing treasury period locks:', error);
+});
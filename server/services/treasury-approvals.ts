@@ -0,0 +1,471 @@
+import { storage } from '../storage';
+import { treasuryService } from './treasury';
+import { solanaMonitor } from './solana-monitor';
+import { priceOracle } from './price-oracle';
+import { notificationService } from './notification';
+import { TREASURY_APPROVAL_CONFIG } from '../constants';
+import { userRewardsAccount } from '@shared/ledger';
+import {
+  APPROVAL_ACTION_LABELS,
+  APPROVAL_ACTION_TYPES,
+  DEFAULT_APPROVAL_POLICIES,
+  POLICY_CHANGE_ACTION,
+  POLICY_CHANGE_APPROVAL_POLICY,
+  TreasuryApprovalError,
+  type ApprovalActionType,
+  type ApprovalActor,
+  type ApprovalPolicyInput,
+  type ApprovalRequestActionType,
+  type EffectiveApprovalPolicy,
+  type PolicyChangePayload,
+  type TreasuryApprovalErrorCode,
+  type TreasuryApprovalRequestDetail,
+} from '@shared/treasury-approvals';
+import type { TreasuryApprovalRequest } from '@shared/schema';
+import type { NewTreasuryApprovalRequest } from '../storage';
+
+export interface ApprovalResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: TreasuryApprovalErrorCode;
+}
+
+// What a guarded action carries into its approval request
+export interface ApprovalSubmission {
+  tokenAmount: number;
+  summary: string;
+  payload: Record<string, any>;
+}
+
+// submit() either ran the action straight away or parked it for approvers
+export type SubmittedAction =
+  | { pendingApproval: false; result: any }
+  | { pendingApproval: true; request: TreasuryApprovalRequest };
+
+/**
+ * Runs a guarded action once its request is approved. execute throws to fail the request; its
+ * return value is stored as the request's executionResult. cancel releases anything the action
+ * was holding when a request is rejected or expires. recover finishes a request that was approved
+ * but interrupted before its outcome was recorded, and must be safe if execute already ran; actions
+ * without one are failed for an owner to check by hand
+ */
+export interface ApprovalHandler {
+  execute(payload: any, request: TreasuryApprovalRequest): Promise<any>;
+  cancel?(payload: any, request: TreasuryApprovalRequest, reason: string): Promise<void>;
+  recover?(payload: any, request: TreasuryApprovalRequest): Promise<any>;
+}
+
+type ApprovalOutcome = { status: 'executed' | 'failed'; executionResult?: any; failureReason?: string };
+
+// Treasury transfer payload, kept as the route received it
+interface TreasuryTransferPayload {
+  recipientAddress: string;
+  amount: number;
+}
+
+interface AdminWalletTransferPayload {
+  userId: string;
+  userEmail: string | null;
+  tokenAmount: number;
+  description: string;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+const describePolicy = (policy: ApprovalPolicyInput) => policy.isActive
+  ? `${policy.requiredApprovals} approval(s) at ${policy.thresholdTokens.toLocaleString()} JCMOVES, ${policy.approverRoles.join('/')}, ${policy.expiryHours}h`
+  : 'not required';
+
+/**
+ * Multi-approver controls for treasury movements.
+ *
+ * Each guarded action has a policy: amounts at or above its threshold become a pending request that
+ * needs approvals from other admins or business owners before it runs, and lapses if not approved
+ * in time. Every request, vote and outcome is kept as an append-only event. Actions register a
+ * handler that runs them once approved; user withdrawals register theirs from the withdrawal service.
+ * Policy changes are requests of their own under a fixed rule, so they always need a second approver.
+ * Transfers below the threshold are recorded too, so a requester's recent transfers add up against it.
+ */
+class TreasuryApprovalService {
+  private handlers = new Map<ApprovalRequestActionType, ApprovalHandler>();
+  private expiryInterval: NodeJS.Timeout | null = null;
+  private isExpiring = false;
+
+  constructor() {
+    this.registerHandler('treasury_transfer', {
+      execute: (payload: TreasuryTransferPayload) => this.transferFromTreasury(payload),
+    });
+    this.registerHandler('admin_wallet_transfer', {
+      execute: (payload: AdminWalletTransferPayload) => this.transferToUser(payload),
+    });
+    this.registerHandler(POLICY_CHANGE_ACTION, {
+      execute: (payload: PolicyChangePayload) => this.applyPolicyChange(payload),
+      recover: (payload: PolicyChangePayload) => this.applyPolicyChange(payload),
+    });
+  }
+
+  registerHandler(actionType: ApprovalRequestActionType, handler: ApprovalHandler): void {
+    this.handlers.set(actionType, handler);
+  }
+
+  async getPolicy(actionType: ApprovalActionType): Promise<EffectiveApprovalPolicy> {
+    const saved = await storage.getTreasuryApprovalPolicy(actionType);
+    if (!saved) {
+      return { ...DEFAULT_APPROVAL_POLICIES[actionType], actionType, id: null, updatedBy: null, updatedAt: null };
+    }
+    return {
+      actionType,
+      id: saved.id,
+      thresholdTokens: parseFloat(saved.thresholdTokens),
+      requiredApprovals: saved.requiredApprovals,
+      approverRoles: saved.approverRoles as ApprovalPolicyInput['approverRoles'],
+      expiryHours: saved.expiryHours,
+      isActive: saved.isActive,
+      updatedBy: saved.updatedBy,
+      updatedAt: saved.updatedAt,
+    };
+  }
+
+  async getPolicies(): Promise<EffectiveApprovalPolicy[]> {
+    return await Promise.all(APPROVAL_ACTION_TYPES.map((actionType) => this.getPolicy(actionType)));
+  }
+
+  /**
+   * Open a request to change a policy. It's saved only once another approver signs off, and the
+   * request's events record who asked for and approved the change
+   */
+  async requestPolicyChange(actionType: ApprovalActionType, policy: ApprovalPolicyInput, requester: ApprovalActor): Promise<ApprovalResult<TreasuryApprovalRequest>> {
+    const pending = await storage.getTreasuryApprovalRequests(['pending']);
+    if (pending.some((request) => request.actionType === POLICY_CHANGE_ACTION && (request.payload as PolicyChangePayload).actionType === actionType)) {
+      return { success: false, code: 'change_pending', error: 'A change to this policy is already waiting for approval' };
+    }
+
+    const current = await this.getPolicy(actionType);
+    const previous: ApprovalPolicyInput = {
+      thresholdTokens: current.thresholdTokens,
+      requiredApprovals: current.requiredApprovals,
+      approverRoles: current.approverRoles,
+      expiryHours: current.expiryHours,
+      isActive: current.isActive,
+    };
+    const payload: PolicyChangePayload = { actionType, policy, previous, requestedBy: requester.id };
+    const request = await this.openRequest(POLICY_CHANGE_ACTION, requester, {
+      tokenAmount: 0,
+      summary: `Change ${APPROVAL_ACTION_LABELS[actionType]} approvals from ${describePolicy(previous)} to ${describePolicy(policy)}`,
+      payload,
+    });
+    return { success: true, data: request };
+  }
+
+  // Snapshot of who is acting, for the request's events
+  async getActor(userId: string): Promise<ApprovalActor | undefined> {
+    const user = await storage.getUser(userId);
+    if (!user) return undefined;
+    return {
+      id: user.id,
+      name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || user.username || user.id,
+      role: user.role,
+    };
+  }
+
+  /**
+   * Run a guarded action, or park it for approval once the requester's total in the rolling window reaches
+   * the policy threshold. Below it the action runs straight away and its failures come back as execution_failed
+   */
+  async submit(actionType: ApprovalActionType, requester: ApprovalActor, submission: ApprovalSubmission): Promise<ApprovalResult<SubmittedAction>> {
+    const policy = await this.getPolicy(actionType);
+    const windowStart = new Date(Date.now() - TREASURY_APPROVAL_CONFIG.ROLLING_WINDOW_HOURS * 60 * 60 * 1000);
+    const request = await storage.submitTreasuryApprovalRequest(this.buildRequest(actionType, requester, submission, policy), requester, policy, windowStart);
+    if (request.status === 'pending') {
+      await this.notifyApprovers(request, requester, policy);
+      return { success: true, data: { pendingApproval: true, request } };
+    }
+
+    const outcome = await this.execute(request, requester);
+    if (outcome.status === 'failed') {
+      return { success: false, code: 'execution_failed', error: outcome.failureReason };
+    }
+    return { success: true, data: { pendingApproval: false, result: outcome.executionResult } };
+  }
+
+  // Record a pending request and let the approvers know. Withdrawals call this directly, since they hold funds while they wait
+  async openRequest(
+    actionType: ApprovalRequestActionType,
+    requester: ApprovalActor,
+    submission: ApprovalSubmission,
+    policy?: EffectiveApprovalPolicy,
+  ): Promise<TreasuryApprovalRequest> {
+    const effective = actionType === POLICY_CHANGE_ACTION
+      ? { ...POLICY_CHANGE_APPROVAL_POLICY, id: null }
+      : policy || await this.getPolicy(actionType);
+    const request = await storage.createTreasuryApprovalRequest(this.buildRequest(actionType, requester, submission, effective), requester);
+    await this.notifyApprovers(request, requester, effective);
+    return request;
+  }
+
+  async getRequests(statuses?: string[], limit?: number): Promise<TreasuryApprovalRequestDetail[]> {
+    const requests = await storage.getTreasuryApprovalRequests(statuses, limit);
+    const events = await storage.getTreasuryApprovalEvents(requests.map((request) => request.id));
+    return requests.map((request) => ({ ...request, events: events.filter((event) => event.requestId === request.id) }));
+  }
+
+  async getRequest(id: string): Promise<ApprovalResult<TreasuryApprovalRequestDetail>> {
+    const request = await storage.getTreasuryApprovalRequest(id);
+    if (!request) {
+      return { success: false, code: 'not_found', error: 'Approval request not found' };
+    }
+    const events = await storage.getTreasuryApprovalEvents([id]);
+    return { success: true, data: { ...request, events } };
+  }
+
+  // The deciding approval runs the action in the same call, so the approver sees the outcome
+  async approve(id: string, actor: ApprovalActor, comment?: string): Promise<ApprovalResult<TreasuryApprovalRequestDetail>> {
+    try {
+      const decision = await storage.decideTreasuryApprovalRequest(id, actor, 'approved', comment);
+      if (decision.becameApproved) {
+        await this.execute(decision.request, actor);
+      }
+      return await this.getRequest(id);
+    } catch (error) {
+      if (error instanceof TreasuryApprovalError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  async reject(id: string, actor: ApprovalActor, comment?: string): Promise<ApprovalResult<TreasuryApprovalRequestDetail>> {
+    try {
+      const decision = await storage.decideTreasuryApprovalRequest(id, actor, 'rejected', comment);
+      await this.release(decision.request, `Rejected by ${actor.name}${comment ? `: ${comment}` : ''}`);
+      return await this.getRequest(id);
+    } catch (error) {
+      if (error instanceof TreasuryApprovalError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  // One pass of the expiry job: lapse requests past their window and release what they were holding,
+  // then finish approved requests that were interrupted before recording an outcome
+  async expireStaleRequests(): Promise<number> {
+    if (this.isExpiring) return 0;
+    this.isExpiring = true;
+    try {
+      const expired = await storage.expireTreasuryApprovalRequests();
+      for (const request of expired) {
+        await this.release(request, 'Approval request expired');
+      }
+      if (expired.length > 0) {
+        console.log(`⌛ Expired ${expired.length} treasury approval request(s)`);
+      }
+      await this.recoverInterruptedRequests();
+      return expired.length;
+    } catch (error) {
+      console.error('Error expiring treasury approval requests:', error);
+      return 0;
+    } finally {
+      this.isExpiring = false;
+    }
+  }
+
+  /**
+   * Approved requests left without an outcome are run through their handler's recover, which is safe if the
+   * action already happened. Without one there's no telling whether it did, so the request is failed and the
+   * owners are asked to check the treasury before anyone asks again
+   */
+  async recoverInterruptedRequests(): Promise<number> {
+    const interrupted = await storage.getInterruptedTreasuryApprovalRequests(
+      new Date(Date.now() - TREASURY_APPROVAL_CONFIG.INTERRUPTED_AFTER_MS),
+    );
+    for (const request of interrupted) {
+      const recover = this.handlers.get(request.actionType as ApprovalRequestActionType)?.recover;
+      if (recover) {
+        await this.execute(request, null, recover);
+        continue;
+      }
+
+      const failureReason = 'Interrupted after approval before its outcome was recorded. Check the treasury before requesting it again';
+      const failed = await storage.completeTreasuryApprovalRequest(request.id, { status: 'failed', failureReason });
+      if (failed) {
+        await notificationService.notifyBusinessOwners(
+          'system_alert',
+          'Treasury Request Interrupted',
+          `${request.summary}: ${failureReason}.`,
+          { approvalRequestId: request.id, actionType: request.actionType },
+        );
+      }
+    }
+    if (interrupted.length > 0) {
+      console.log(`🔁 Recovered ${interrupted.length} interrupted treasury approval request(s)`);
+    }
+    return interrupted.length;
+  }
+
+  start(): void {
+    if (this.expiryInterval) return;
+    this.expiryInterval = setInterval(() => {
+      this.expireStaleRequests();
+    }, TREASURY_APPROVAL_CONFIG.EXPIRY_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+    }
+  }
+
+  private getHandler(actionType: string): ApprovalHandler {
+    const handler = this.handlers.get(actionType as ApprovalRequestActionType);
+    if (!handler) {
+      throw new Error(`No approval handler registered for ${actionType}`);
+    }
+    return handler;
+  }
+
+  private buildRequest(
+    actionType: ApprovalRequestActionType,
+    requester: ApprovalActor,
+    submission: ApprovalSubmission,
+    policy: ApprovalPolicyInput & { id: string | null },
+  ): NewTreasuryApprovalRequest {
+    return {
+      actionType,
+      tokenAmount: submission.tokenAmount.toFixed(8),
+      summary: submission.summary,
+      payload: submission.payload,
+      requestedBy: requester.id,
+      policyId: policy.id,
+      requiredApprovals: policy.requiredApprovals,
+      approverRoles: policy.approverRoles,
+      expiresAt: new Date(Date.now() + policy.expiryHours * 60 * 60 * 1000),
+    };
+  }
+
+  private async notifyApprovers(request: TreasuryApprovalRequest, requester: ApprovalActor, policy: ApprovalPolicyInput): Promise<void> {
+    console.log(`🔐 Approval request ${request.id} opened by ${requester.name}: ${request.summary}`);
+    await notificationService.notifyBusinessOwners(
+      'system_alert',
+      'Treasury Approval Needed',
+      `${requester.name} requested: ${request.summary}. Needs ${policy.requiredApprovals} approval(s) within ${policy.expiryHours}h.`,
+      { approvalRequestId: request.id, actionType: request.actionType },
+    );
+  }
+
+  // Requests approved below the threshold (requiredApprovals 0) ran for the requester, who already sees the outcome
+  private async execute(
+    request: TreasuryApprovalRequest,
+    actor: ApprovalActor | null,
+    run?: ApprovalHandler['execute'],
+  ): Promise<ApprovalOutcome> {
+    let outcome: ApprovalOutcome;
+    try {
+      const executionResult = run
+        ? await run(request.payload, request)
+        : await this.getHandler(request.actionType).execute(request.payload, request);
+      outcome = { status: 'executed', executionResult };
+    } catch (error) {
+      console.error(`Error executing approval request ${request.id}:`, error);
+      outcome = { status: 'failed', failureReason: error instanceof Error ? error.message : 'Action failed' };
+      await this.release(request, outcome.failureReason!);
+    }
+
+    await storage.completeTreasuryApprovalRequest(request.id, outcome, actor || undefined);
+    if (request.requiredApprovals > 0) {
+      await notificationService.createNotification({
+        userId: request.requestedBy,
+        type: 'system_alert',
+        title: outcome.status === 'executed' ? 'Request Approved' : 'Approved Request Failed',
+        message: outcome.status === 'executed'
+          ? `${request.summary} was approved and has gone ahead`
+          : `${request.summary} was approved but couldn't be completed: ${outcome.failureReason}`,
+        data: { approvalRequestId: request.id, actionType: request.actionType },
+      });
+    }
+    return outcome;
+  }
+
+  // Rejected, expired or failed: let the action release what it held and tell the requester
+  private async release(request: TreasuryApprovalRequest, reason: string): Promise<void> {
+    try {
+      await this.handlers.get(request.actionType as ApprovalRequestActionType)?.cancel?.(request.payload, request, reason);
+    } catch (error) {
+      console.error(`Error releasing approval request ${request.id}:`, error);
+    }
+
+    if (request.status === 'approved') return; // Execution failures are reported once the outcome is recorded
+    await notificationService.createNotification({
+      userId: request.requestedBy,
+      type: 'system_alert',
+      title: request.status === 'expired' ? 'Request Expired' : 'Request Rejected',
+      message: `${request.summary} was not approved. ${reason}`,
+      data: { approvalRequestId: request.id, actionType: request.actionType },
+    });
+  }
+
+  // Saved under the requester's name; the approver is on the request's events
+  private async applyPolicyChange({ actionType, policy, requestedBy }: PolicyChangePayload): Promise<EffectiveApprovalPolicy> {
+    await storage.upsertTreasuryApprovalPolicy(actionType, policy, requestedBy);
+    console.log(`🔐 The ${actionType} approval policy changed to ${describePolicy(policy)}`);
+    return await this.getPolicy(actionType);
+  }
+
+  // Records the transfer intent against the reserve; the on-chain transfer is signed by hand
+  private async transferFromTreasury({ recipientAddress, amount }: TreasuryTransferPayload) {
+    const liveBalance = await solanaMonitor.getLiveTokenBalance();
+    if (!liveBalance.success || liveBalance.balance < amount) {
+      throw new Error(`Insufficient balance. Available: ${liveBalance.balance} JCMOVES, Requested: ${amount} JCMOVES`);
+    }
+
+    const { price: tokenPrice } = await priceOracle.recordPrice('treasury_transfer', {
+      relatedEntityType: 'transfer',
+      relatedEntityId: recipientAddress,
+    });
+    const usdValue = amount * tokenPrice;
+    const transaction = await storage.deductFromReserve(
+      amount,
+      `Transfer to ${shortAddress(recipientAddress)}`,
+      tokenPrice,
+      'transfer',
+      recipientAddress
+    );
+
+    console.log(`[TRANSFER] Initiated: ${amount} JCMOVES to ${recipientAddress}, USD value: $${usdValue.toFixed(2)}`);
+    return {
+      id: transaction.id,
+      amount,
+      usdValue,
+      recipientAddress,
+      timestamp: transaction.createdAt,
+    };
+  }
+
+  private async transferToUser({ userId, userEmail, tokenAmount, description }: AdminWalletTransferPayload) {
+    const distributionResult = await treasuryService.distributeTokens(
+      tokenAmount,
+      description || `Admin transfer to ${userEmail}`,
+      'admin_transfer',
+      userId,
+      userRewardsAccount(userId)
+    );
+    if (!distributionResult.success) {
+      throw new Error(distributionResult.error || 'Token distribution failed');
+    }
+
+    // The distribution credited the user's wallet; read back the new balance
+    const updatedWallet = await storage.getWalletAccount(userId);
+    return {
+      userId,
+      tokenAmount,
+      newBalance: updatedWallet?.tokenBalance || "0.00000000",
+      cashValue: distributionResult.cashValue,
+    };
+  }
+}
+
+// Export singleton instance
+export const treasuryApprovalService = new TreasuryApprovalService();
+treasuryApprovalService.start();
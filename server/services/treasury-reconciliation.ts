@@ -0,0 +1,211 @@
+import { storage, type NewReconciliationDiscrepancy } from '../storage';
+import { ledgerService } from './ledger';
+import { solanaMonitor } from './solana-monitor';
+import { notificationService } from './notification';
+import { TREASURY_RECONCILIATION_CONFIG } from '../constants';
+import { formatLedgerUnits, LEDGER_CURRENCY, systemLedgerAccount, toLedgerUnits } from '@shared/ledger';
+import {
+  DISCREPANCY_KIND_LABELS,
+  getDefaultAdjustment,
+  ReconciliationError,
+  type DiscrepancyKind,
+  type DiscrepancyResolution,
+  type ReconciliationDetails,
+  type ReconciliationErrorCode,
+  type ReconciliationTrigger,
+} from '@shared/treasury-reconciliation';
+import type { TreasuryReconciliationDiscrepancy, TreasuryReconciliationReport } from '@shared/schema';
+
+export interface ReconciliationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: ReconciliationErrorCode;
+}
+
+/**
+ * Periodically checks that the JCMOVES in custody on-chain (the treasury wallet plus user deposit
+ * addresses) matches what the books say it should be: the treasury reserve, user balances, and the
+ * pools, fees and pending withdrawals held in the ledger.
+ *
+ * Each run also matches the treasury wallet's latest transfers against recorded funding deposits and
+ * withdrawal signatures. Anything unmatched becomes an open discrepancy, drift over the threshold
+ * alerts admins, and admins close discrepancies with a ledger adjustment or a note explaining them.
+ */
+class TreasuryReconciliationService {
+  private interval: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  async runReconciliation(trigger: ReconciliationTrigger, triggeredBy?: string): Promise<ReconciliationResult<TreasuryReconciliationReport>> {
+    if (this.isRunning) {
+      return { success: false, code: 'in_progress', error: 'A reconciliation run is already in progress' };
+    }
+    this.isRunning = true;
+    const startedAt = new Date();
+
+    try {
+      const [ledger, custody, liveBalance, depositAddressBalance, scan] = await Promise.all([
+        ledgerService.checkConsistency(),
+        storage.getCustodyBalanceTotals(LEDGER_CURRENCY),
+        solanaMonitor.getLiveTokenBalance(),
+        solanaMonitor.getDepositAddressBalance(),
+        solanaMonitor.getRecentTreasuryTransfers(TREASURY_RECONCILIATION_CONFIG.SIGNATURES_PER_RUN),
+      ]);
+      if (!liveBalance.success) {
+        throw new Error(liveBalance.error || 'Treasury wallet balance is unavailable');
+      }
+
+      // Summed in ledger units so the drift is exact
+      const treasuryWallet = toLedgerUnits(liveBalance.balance);
+      const onChain = treasuryWallet + toLedgerUnits(depositAddressBalance);
+      const userBalances = toLedgerUnits(custody.rewardsBalances) + toLedgerUnits(custody.walletBalances);
+      const otherLiabilities = toLedgerUnits(ledger.totals.pools) + toLedgerUnits(ledger.totals.fees)
+        + toLedgerUnits(ledger.totals.pendingWithdrawals) + toLedgerUnits(ledger.totals.pendingCashouts);
+      const expected = toLedgerUnits(custody.tokenReserve) + userBalances + otherLiabilities;
+      const drift = onChain - expected;
+
+      const recorded = new Set(await storage.getRecordedTreasurySignatures(scan.transfers.map((transfer) => transfer.signature)));
+      const matched = scan.transfers.filter((transfer) => recorded.has(transfer.signature));
+      const discrepancies: NewReconciliationDiscrepancy[] = scan.transfers
+        .filter((transfer) => !recorded.has(transfer.signature))
+        .map((transfer) => ({
+          kind: transfer.amount > 0 ? 'missing_deposit' : 'unexplained_outflow',
+          signature: transfer.signature,
+          amount: Math.abs(transfer.amount).toFixed(8),
+          counterparty: transfer.counterparty,
+          blockTime: transfer.blockTime,
+        }));
+
+      const driftExceeded = Math.abs(parseFloat(formatLedgerUnits(drift))) > TREASURY_RECONCILIATION_CONFIG.DRIFT_ALERT_THRESHOLD;
+      if (driftExceeded) {
+        discrepancies.push({ kind: 'balance_drift', signature: null, amount: formatLedgerUnits(drift), counterparty: null, blockTime: null });
+      }
+
+      const details: ReconciliationDetails = {
+        matchedSignatures: matched.map((transfer) => transfer.signature),
+        newDiscrepancyIds: [],
+        ledger: {
+          isConsistent: ledger.isConsistent,
+          difference: ledger.difference,
+          driftedAccounts: ledger.drift.length,
+          unbalancedEntries: ledger.unbalancedEntries.length,
+        },
+      };
+      const { report, created } = await storage.saveReconciliationReport({
+        trigger,
+        triggeredBy: triggeredBy || null,
+        status: 'completed',
+        treasuryWalletBalance: formatLedgerUnits(treasuryWallet),
+        depositAddressBalance,
+        onChainBalance: formatLedgerUnits(onChain),
+        tokenReserve: custody.tokenReserve,
+        userBalances: formatLedgerUnits(userBalances),
+        otherLiabilities: formatLedgerUnits(otherLiabilities),
+        expectedBalance: formatLedgerUnits(expected),
+        driftAmount: formatLedgerUnits(drift),
+        signaturesScanned: scan.scanned,
+        matchedCount: matched.length,
+        missingDepositCount: discrepancies.filter((discrepancy) => discrepancy.kind === 'missing_deposit').length,
+        unexplainedOutflowCount: discrepancies.filter((discrepancy) => discrepancy.kind === 'unexplained_outflow').length,
+        alertSent: driftExceeded,
+        details,
+        startedAt,
+      }, discrepancies);
+
+      console.log(`🧮 Treasury reconciliation: drift ${report.driftAmount} JCMOVES, ${matched.length} matched, ${created.length} new discrepancies`);
+      if (driftExceeded) {
+        await notificationService.notifyBusinessOwners(
+          'system_alert',
+          'Treasury Drift Detected',
+          `On-chain custody is ${report.onChainBalance} JCMOVES but the books expect ${report.expectedBalance} (drift ${report.driftAmount}). Review it on the treasury Reconcile tab.`,
+          { reconciliationReportId: report.id },
+        );
+      }
+      return { success: true, data: report };
+    } catch (error) {
+      console.error('Error running treasury reconciliation:', error);
+      const message = error instanceof Error ? error.message : 'Reconciliation failed';
+      await storage.saveReconciliationReport({
+        trigger,
+        triggeredBy: triggeredBy || null,
+        status: 'failed',
+        error: message,
+        startedAt,
+      }, []).catch((saveError) => console.error('Error saving failed reconciliation report:', saveError));
+      return { success: false, error: message };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async getReports(limit?: number): Promise<TreasuryReconciliationReport[]> {
+    return await storage.getReconciliationReports(limit);
+  }
+
+  async getDiscrepancies(statuses?: string[]): Promise<TreasuryReconciliationDiscrepancy[]> {
+    return await storage.getReconciliationDiscrepancies(statuses);
+  }
+
+  /**
+   * Close a discrepancy. Adjusting moves the reserve by the signed amount against issuance, so the books
+   * follow the chain (defaults to the transfer or drift found); dismissing records why nothing was posted
+   */
+  async resolveDiscrepancy(id: string, resolvedBy: string, resolution: DiscrepancyResolution): Promise<ReconciliationResult<TreasuryReconciliationDiscrepancy>> {
+    const discrepancy = await storage.getReconciliationDiscrepancy(id);
+    if (!discrepancy) {
+      return { success: false, code: 'not_found', error: 'Discrepancy not found' };
+    }
+
+    try {
+      if (resolution.resolution === 'dismiss') {
+        const resolved = await storage.resolveReconciliationDiscrepancy(id, { status: 'dismissed', resolutionNote: resolution.note, resolvedBy });
+        return { success: true, data: resolved };
+      }
+
+      const kind = discrepancy.kind as DiscrepancyKind;
+      const amount = resolution.amount ?? getDefaultAdjustment(kind, discrepancy.amount);
+      const treasury = await storage.getMainTreasuryAccount();
+      const resolved = await storage.resolveReconciliationDiscrepancy(
+        id,
+        { status: 'adjusted', adjustmentAmount: amount, resolutionNote: resolution.note, resolvedBy },
+        {
+          entryType: 'adjustment',
+          description: `Reconciliation: ${DISCREPANCY_KIND_LABELS[kind]}${discrepancy.signature ? ` ${discrepancy.signature}` : ''} - ${resolution.note}`,
+          relatedEntityType: 'reconciliation_discrepancy',
+          relatedEntityId: id,
+          createdBy: resolvedBy,
+          postings: [
+            { account: { type: 'treasury_reserve', ownerId: treasury.id }, amount },
+            { account: systemLedgerAccount('issuance'), amount: -amount },
+          ],
+        },
+      );
+      console.log(`🧮 ${resolvedBy} adjusted the reserve by ${amount} JCMOVES for discrepancy ${id}`);
+      return { success: true, data: resolved };
+    } catch (error) {
+      if (error instanceof ReconciliationError) {
+        return { success: false, code: error.code, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  start(): void {
+    if (this.interval || !TREASURY_RECONCILIATION_CONFIG.ENABLED) return;
+    console.log(`🧮 Treasury reconciliation scheduled every ${TREASURY_RECONCILIATION_CONFIG.INTERVAL_MS / 60000} minutes`);
+    this.interval = setInterval(() => {
+      this.runReconciliation('scheduled');
+    }, TREASURY_RECONCILIATION_CONFIG.INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const treasuryReconciliationService = new TreasuryReconciliationService();
+treasuryReconciliationService.start();
@@ -1,7 +1,9 @@
 import { storage } from "../storage";
 import type { TreasuryAccount, FundingDeposit, ReserveTransaction, InsertFundingDeposit } from "@shared/schema";
+import type { LedgerAccountRef } from "@shared/ledger";
 import { TREASURY_CONFIG } from "../constants";
 import { cryptoService, type TokenMarketData, type TokenBalance } from "./crypto";
+import { priceOracle, type RecordedPrice } from "./price-oracle";
 
 export interface TreasuryStats {
   totalFunding: number;
@@ -135,24 +137,26 @@ export class TreasuryService {
   }
 
   /**
-   * Check if specific token amount can be distributed using real-time crypto pricing
+   * Check if specific token amount can be distributed using real-time crypto pricing.
+   * Pass the price the distribution will be recorded at so the check and the deduction agree.
+   * Tokens still locked in vesting grants are set aside, so other spending can't leave their releases unpaid
    */
-  async canDistributeTokens(tokenAmount: number): Promise<{ canDistribute: boolean; reason?: string; currentPrice?: number }> {
+  async canDistributeTokens(tokenAmount: number, price?: number): Promise<{ canDistribute: boolean; reason?: string; currentPrice?: number }> {
     // Get current JCMOVES price
-    const priceData = await this.getCurrentTokenPrice();
-    const currentPrice = priceData.price;
+    const currentPrice = price ?? (await this.getCurrentTokenPrice()).price;
     const requiredUsdValue = tokenAmount * currentPrice;
     
     // Check current treasury balance - calculate from totalFunding - totalDistributed
     const treasury = await storage.getMainTreasuryAccount();
     const totalFunding = parseFloat(treasury.totalFunding);
     const totalDistributed = parseFloat(treasury.totalDistributed);
-    const availableBalance = totalFunding - totalDistributed;
+    const earmarkedUsdValue = (await storage.getEarmarkedTokenGrantTotal()) * currentPrice;
+    const availableBalance = totalFunding - totalDistributed - earmarkedUsdValue;
     
     if (availableBalance < requiredUsdValue) {
       return {
         canDistribute: false,
-        reason: `Insufficient funding. Required: $${requiredUsdValue.toFixed(2)} (${tokenAmount.toLocaleString()} JCMOVES @ $${currentPrice.toFixed(6)}), Available: $${availableBalance.toFixed(2)}`,
+        reason: `Insufficient funding. Required: $${requiredUsdValue.toFixed(2)} (${tokenAmount.toLocaleString()} JCMOVES @ $${currentPrice.toFixed(6)}), Available: $${availableBalance.toFixed(2)} after $${earmarkedUsdValue.toFixed(2)} set aside for vesting rewards`,
         currentPrice
       };
     }
@@ -171,13 +175,17 @@ export class TreasuryService {
   }
 
   /**
-   * Safely distribute JCMOVES tokens with real-time pricing and comprehensive checks
+   * Safely distribute JCMOVES tokens with real-time pricing and comprehensive checks.
+   * The recipient's ledger account is credited in the same transaction as the reserve deduction.
+   * Callers that sized the amount from a recorded price pass it in; otherwise the oracle records one
    */
   async distributeTokens(
     tokenAmount: number, 
     description: string, 
     relatedEntityType?: string, 
-    relatedEntityId?: string
+    relatedEntityId?: string,
+    recipient?: LedgerAccountRef,
+    price?: RecordedPrice
   ): Promise<TokenDistributionResult> {
     try {
       // CRITICAL: Advanced risk assessment with circuit breaker checks
@@ -207,8 +215,11 @@ export class TreasuryService {
         };
       }
 
+      // Price the distribution once; throws if no fresh price is available
+      const recordedPrice = price || await priceOracle.recordPrice('reward', { relatedEntityType, relatedEntityId });
+
       // Pre-distribution checks with real-time pricing
-      const canDistribute = await this.canDistributeTokens(tokenAmount);
+      const canDistribute = await this.canDistributeTokens(tokenAmount, recordedPrice.price);
       if (!canDistribute.canDistribute) {
         return {
           success: false,
@@ -221,8 +232,7 @@ export class TreasuryService {
       }
 
       // Calculate cash value using real-time JCMOVES price
-      const currentPrice = canDistribute.currentPrice || 0;
-      const cashValue = tokenAmount * currentPrice;
+      const currentPrice = recordedPrice.price;
 
       // Execute the distribution with crypto pricing
       const transaction = await storage.deductFromReserve(
@@ -230,7 +240,8 @@ export class TreasuryService {
         description,
         currentPrice, // Pass the real-time JCMOVES price
         relatedEntityType,
-        relatedEntityId
+        relatedEntityId,
+        recipient
       );
 
       return {
@@ -292,8 +303,11 @@ export class TreasuryService {
     notes?: string
   ): Promise<{ success: boolean; deposit?: FundingDeposit; error?: string }> {
     try {
-      // Get current token price for USD value calculation
-      const priceData = await this.getCurrentTokenPrice();
+      // Record the price the deposit is valued at
+      const priceData = await priceOracle.recordPrice('treasury_deposit', {
+        relatedEntityType: 'moonshot_transfer',
+        relatedEntityId: transactionHash,
+      });
       const currentPrice = priceData.price;
       const usdValue = tokenAmount * currentPrice;
 
@@ -0,0 +1,233 @@
+import { storage } from '../storage';
+import { treasuryService, type TokenDistributionResult } from './treasury';
+import { priceOracle } from './price-oracle';
+import { notificationService } from './notification';
+import { VESTING_CONFIG } from '../constants';
+import { formatLedgerUnits, toLedgerUnits, userRewardsAccount } from '@shared/ledger';
+import {
+  getImmediateUnits,
+  getNextVestingDate,
+  getVestedUnits,
+  VESTING_SOURCE_LABELS,
+  type TokenGrantStatus,
+  type TokenGrantSummary,
+  type VestingBalance,
+  type VestingSource,
+} from '@shared/vesting';
+import type { TokenGrant } from '@shared/schema';
+
+// A reward paid through a grant: tokensDistributed and cashValue cover what was paid now
+export interface VestingGrantResult extends TokenDistributionResult {
+  lockedTokens: number;
+  grantId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toSummary(grant: TokenGrant, now: Date): TokenGrantSummary {
+  const locked = grant.status === 'active' ? toLedgerUnits(grant.totalAmount) - toLedgerUnits(grant.releasedAmount) : BigInt(0);
+  return {
+    id: grant.id,
+    source: grant.source as VestingSource,
+    description: grant.description,
+    totalAmount: grant.totalAmount,
+    releasedAmount: grant.releasedAmount,
+    lockedAmount: formatLedgerUnits(locked),
+    forfeitedAmount: grant.forfeitedAmount,
+    status: grant.status as TokenGrantStatus,
+    schedule: { immediatePercent: grant.immediatePercent, vestingDays: grant.vestingDays },
+    nextReleaseAt: grant.status === 'active' ? getNextVestingDate(grant, now)?.toISOString() ?? null : null,
+    createdAt: grant.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Pays employee rewards on a vesting schedule.
+ *
+ * A reward whose source has a schedule in VESTING_CONFIG becomes a token_grants row: the immediate
+ * share is distributed from the treasury straight away and the rest stays in the reserve, vesting in
+ * equal daily steps. Locked tokens are set aside in the reserve, so other distributions can't spend
+ * them. The release job distributes whatever has vested since the last release; each
+ * release is claimed on the grant first so it can't be paid twice, and a claim interrupted mid-release
+ * is settled by checking the reserve for the payment. Removing an employee forfeits everything unvested.
+ */
+class VestingService {
+  private releaseInterval: NodeJS.Timeout | null = null;
+  private isReleasing = false;
+
+  /**
+   * Pay a reward, vesting it when its source has a schedule. Returns a failed result rather than
+   * throwing, like distributeTokens, including when this reward has already been granted
+   */
+  async grantReward(userId: string, source: VestingSource, referenceId: string, tokenAmount: number, description: string): Promise<VestingGrantResult> {
+    const schedule = VESTING_CONFIG.ENABLED ? VESTING_CONFIG.SCHEDULES[source] : undefined;
+    if (!schedule) {
+      const distribution = await treasuryService.distributeTokens(tokenAmount, description, source, referenceId, userRewardsAccount(userId));
+      return { ...distribution, lockedTokens: 0 };
+    }
+
+    const failed = (error: string): VestingGrantResult => ({
+      success: false, tokensDistributed: 0, cashValue: 0, remainingBalance: 0, transactionId: '', lockedTokens: 0, error,
+    });
+
+    // The whole grant must be affordable now, not just the immediate share
+    try {
+      const { price } = await priceOracle.getPrice();
+      const affordable = await treasuryService.canDistributeTokens(tokenAmount, price);
+      if (!affordable.canDistribute) {
+        return failed(affordable.reason || 'Treasury cannot cover this reward');
+      }
+    } catch (error) {
+      return failed(error instanceof Error ? error.message : 'No current JCMOVES price');
+    }
+
+    const total = toLedgerUnits(tokenAmount);
+    const { grant, created } = await storage.createTokenGrant({
+      userId,
+      source,
+      referenceId,
+      description,
+      totalAmount: formatLedgerUnits(total),
+      immediatePercent: schedule.immediatePercent,
+      vestingDays: schedule.vestingDays,
+    });
+    if (!created) {
+      return failed(`${VESTING_SOURCE_LABELS[source]} reward already granted`);
+    }
+
+    const immediate = getImmediateUnits(total, schedule.immediatePercent);
+    const lockedTokens = Number(formatLedgerUnits(total - immediate));
+    if (immediate <= BigInt(0)) {
+      return { success: true, tokensDistributed: 0, cashValue: 0, remainingBalance: 0, transactionId: '', lockedTokens, grantId: grant.id };
+    }
+
+    const distribution = await this.release(grant, immediate, description);
+    if (!distribution.success) {
+      await storage.deleteUnreleasedTokenGrant(grant.id);
+      return { ...distribution, lockedTokens: 0 };
+    }
+    console.log(`🔒 Granted ${tokenAmount} JCMOVES to ${userId} for ${description}: ${formatLedgerUnits(immediate)} now, ${lockedTokens} vesting over ${schedule.vestingDays} days`);
+    return { ...distribution, lockedTokens, grantId: grant.id };
+  }
+
+  async getVestingBalance(userId: string): Promise<VestingBalance> {
+    const now = new Date();
+    const [grants, wallet] = await Promise.all([storage.getUserTokenGrants(userId), storage.getWalletAccount(userId)]);
+    const active = grants.filter((grant) => grant.status === 'active');
+
+    const locked = active.reduce((sum, grant) => sum + toLedgerUnits(grant.totalAmount) - toLedgerUnits(grant.releasedAmount), BigInt(0));
+    // What the next day of releases pays, including anything vested but not yet released
+    const nextDates = active.map((grant) => getNextVestingDate(grant, now)).filter((date): date is Date => !!date);
+    const tomorrow = new Date(now.getTime() + DAY_MS);
+    const upcoming = active.reduce((sum, grant) => sum + getVestedUnits(grant, tomorrow) - toLedgerUnits(grant.releasedAmount), BigInt(0));
+
+    return {
+      availableTokens: wallet?.tokenBalance || '0',
+      lockedTokens: formatLedgerUnits(locked),
+      nextRelease: nextDates.length && upcoming > BigInt(0)
+        ? { at: new Date(Math.min(...nextDates.map((date) => date.getTime()))).toISOString(), amount: formatLedgerUnits(upcoming) }
+        : null,
+      grants: grants.map((grant) => toSummary(grant, now)),
+    };
+  }
+
+  // Forfeit everything an employee hasn't vested yet; the tokens were never paid out, so they just stay in the reserve
+  async forfeitGrants(userId: string, reason: string): Promise<TokenGrant[]> {
+    const forfeited = await storage.forfeitTokenGrants(userId, reason);
+    if (forfeited.length) {
+      const total = forfeited.reduce((sum, grant) => sum + toLedgerUnits(grant.forfeitedAmount), BigInt(0));
+      console.log(`🔓 Forfeited ${formatLedgerUnits(total)} unvested JCMOVES across ${forfeited.length} grants for ${userId}: ${reason}`);
+    }
+    return forfeited;
+  }
+
+  /**
+   * One pass of the release job: settle releases interrupted mid-flight, then pay each active grant
+   * whatever has vested since its last release
+   */
+  async processReleases(): Promise<void> {
+    if (this.isReleasing) return;
+    this.isReleasing = true;
+    try {
+      const stale = await storage.getStaleTokenGrantReleases(new Date(Date.now() - VESTING_CONFIG.STALE_RELEASE_MS), VESTING_CONFIG.BATCH_SIZE);
+      for (const grant of stale) {
+        // The claim is only ever cleared or completed, never retried blind, so a paid release can't be paid again
+        const paid = await storage.hasTokenGrantReleaseTransaction(grant, grant.releasingAt!);
+        if (paid) {
+          await storage.completeTokenGrantRelease(grant.id);
+        } else {
+          await storage.cancelTokenGrantRelease(grant.id);
+        }
+      }
+
+      // Every active grant is visited each pass, a batch at a time, so none waits behind grants that keep deferring
+      const now = new Date();
+      let cursor: string | undefined;
+      do {
+        const grants = await storage.getReleasableTokenGrants(VESTING_CONFIG.BATCH_SIZE, cursor);
+        for (const grant of grants) {
+          const due = getVestedUnits(grant, now) - toLedgerUnits(grant.releasedAmount);
+          if (due <= BigInt(0)) continue;
+          const result = await this.release(grant, due, `Vested ${VESTING_SOURCE_LABELS[grant.source as VestingSource].toLowerCase()} reward - ${grant.description}`)
+            .catch((error) => {
+              console.error(`Error releasing token grant ${grant.id}:`, error);
+              return null;
+            });
+          if (result && !result.success) {
+            console.warn(`Token grant ${grant.id} release deferred: ${result.error}`);
+          }
+        }
+        cursor = grants.length === VESTING_CONFIG.BATCH_SIZE ? grants[grants.length - 1].id : undefined;
+      } while (cursor);
+    } catch (error) {
+      console.error('Error processing token grant releases:', error);
+    } finally {
+      this.isReleasing = false;
+    }
+  }
+
+  start(): void {
+    if (this.releaseInterval) return;
+    this.releaseInterval = setInterval(() => {
+      this.processReleases();
+    }, VESTING_CONFIG.RELEASE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.releaseInterval) {
+      clearInterval(this.releaseInterval);
+      this.releaseInterval = null;
+    }
+  }
+
+  // Claim, distribute and complete one release. A failed distribution clears the claim so the next run retries
+  private async release(grant: TokenGrant, units: bigint, description: string): Promise<TokenDistributionResult> {
+    const amount = formatLedgerUnits(units);
+    const claimed = await storage.claimTokenGrantRelease(grant.id, amount);
+    if (!claimed) {
+      return { success: false, tokensDistributed: 0, cashValue: 0, remainingBalance: 0, transactionId: '', error: 'Grant is not active or a release is already in progress' };
+    }
+
+    const distribution = await treasuryService.distributeTokens(Number(amount), description, grant.source, grant.id, userRewardsAccount(grant.userId));
+    if (!distribution.success) {
+      await storage.cancelTokenGrantRelease(grant.id);
+      return distribution;
+    }
+
+    const completed = await storage.completeTokenGrantRelease(grant.id);
+    if (completed?.status === 'vested') {
+      await notificationService.createNotification({
+        userId: grant.userId,
+        type: 'system_alert',
+        title: 'Reward fully vested',
+        message: `All ${parseFloat(grant.totalAmount).toLocaleString()} JCMOVES from "${grant.description}" are now in your wallet`,
+        data: { grantId: grant.id },
+      });
+    }
+    return distribution;
+  }
+}
+
+// Export singleton instance
+export const vestingService = new VestingService();
+vestingService.start();
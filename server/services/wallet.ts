@@ -4,10 +4,13 @@ import type {
   InsertSupportedCurrency, 
   UserWallet, 
   InsertUserWallet,
-  WalletTransaction,
-  InsertWalletTransaction 
+  WalletTransaction
 } from '@shared/schema';
+import { Keypair } from '@solana/web3.js';
 import { TREASURY_CONFIG } from '../constants';
+import { EncryptionService } from './encryption';
+import { systemLedgerAccount, userRewardsAccount, userWalletAccount } from '@shared/ledger';
+import { getSolanaAddressError } from '@shared/solana-withdrawals';
 
 /**
  * Crypto Wallet Service
@@ -79,20 +82,22 @@ export class WalletService {
   }
 
   /**
-   * Generate a crypto wallet address (simplified for demo)
-   * In production, this would use proper crypto libraries
+   * Generate a crypto wallet address. Solana wallets get a real custodial keypair so they can
+   * receive deposits; other networks are still simplified placeholders
    */
-  private generateWalletAddress(network: string): { address: string; publicKey: string; privateKeyHash: string } {
+  private async generateWalletAddress(network: string): Promise<{ address: string; publicKey: string; privateKeyHash: string }> {
     const timestamp = Date.now();
     const random = Math.random().toString(36).substring(2);
     
     switch (network.toLowerCase()) {
-      case 'solana':
+      case 'solana': {
+        const keypair = Keypair.generate();
         return {
-          address: `Sol${timestamp}${random}`.substring(0, 44), // Solana addresses are ~44 chars
-          publicKey: `pk_${timestamp}_${random}`,
-          privateKeyHash: `enc_${timestamp}_${random}_hash` // In production: encrypted private key
+          address: keypair.publicKey.toBase58(),
+          publicKey: keypair.publicKey.toBase58(),
+          privateKeyHash: await EncryptionService.encrypt(JSON.stringify(Array.from(keypair.secretKey)))
         };
+      }
       case 'bitcoin':
         return {
           address: `1BTC${timestamp}${random}`.substring(0, 34), // Bitcoin addresses are ~34 chars
@@ -130,7 +135,7 @@ export class WalletService {
     }
 
     // Generate wallet address
-    const walletData = this.generateWalletAddress(currency.network);
+    const walletData = await this.generateWalletAddress(currency.network);
 
     const walletInsert: InsertUserWallet = {
       userId,
@@ -155,6 +160,27 @@ export class WalletService {
     return wallet;
   }
 
+  /**
+   * The user's JCMOVES wallet with a real Solana deposit address. Wallets created before deposits
+   * were monitored have a placeholder address, which is replaced with a new custodial keypair
+   */
+  async ensureDepositWallet(userId: string): Promise<UserWallet> {
+    const wallet = await this.createUserWallet(userId, 'JCMOVES');
+    if (!getSolanaAddressError(wallet.walletAddress)) {
+      return wallet;
+    }
+
+    const walletData = await this.generateWalletAddress('solana');
+    const updated = await storage.updateUserWallet(wallet.id, {
+      walletAddress: walletData.address,
+      publicKey: walletData.publicKey,
+      privateKeyHash: walletData.privateKeyHash,
+      metadata: { ...(wallet.metadata as any), placeholderAddress: wallet.walletAddress },
+    });
+    console.log(`✅ Assigned JCMOVES deposit address for user ${userId}: ${walletData.address}`);
+    return updated!;
+  }
+
   /**
    * Create wallets for all supported currencies for a new user
    */
@@ -198,7 +224,8 @@ export class WalletService {
   }
 
   /**
-   * Record a wallet transaction (deposit, withdrawal, reward, etc.)
+   * Record a wallet transaction (deposit, withdrawal, reward, etc.) against tokens outside custody.
+   * The ledger entry, wallet balance and transaction row are written together
    */
   async recordTransaction(
     userWalletId: string,
@@ -210,43 +237,42 @@ export class WalletService {
     if (!wallet) {
       throw new Error('Wallet not found');
     }
+    const currency = await this.getWalletCurrency(wallet);
 
-    const currentBalance = parseFloat(wallet.balance);
     const transactionAmount = parseFloat(amount);
-    
-    // Calculate new balance
-    let newBalance: number;
-    if (transactionType === 'deposit' || transactionType === 'reward') {
-      newBalance = currentBalance + transactionAmount;
-    } else {
-      newBalance = currentBalance - transactionAmount;
-      if (newBalance < 0) {
-        throw new Error('Insufficient balance');
-      }
-    }
-
-    const transactionInsert: InsertWalletTransaction = {
-      userWalletId,
-      transactionType,
-      amount,
-      balanceAfter: newBalance.toFixed(8),
-      status: 'confirmed',
-      confirmations: 1,
-      metadata: {
-        ...metadata,
-        timestamp: new Date().toISOString()
-      }
-    };
+    const incoming = transactionType === 'deposit' || transactionType === 'reward';
+    const walletAccount = userWalletAccount(wallet.id, currency.symbol);
 
-    // Create transaction and update wallet balance atomically
-    const transaction = await storage.createWalletTransaction(transactionInsert);
-    await storage.updateUserWalletBalance(userWalletId, newBalance.toFixed(8));
+    const { transactions } = await storage.recordWalletLedgerEntry(
+      {
+        entryType: incoming ? 'deposit' : 'withdrawal',
+        description: `${currency.symbol} ${transactionType} for wallet ${wallet.walletAddress}`,
+        relatedEntityType: 'user_wallet',
+        relatedEntityId: wallet.id,
+        createdBy: wallet.userId,
+        postings: [
+          { account: walletAccount, amount: incoming ? transactionAmount : -transactionAmount },
+          { account: systemLedgerAccount('issuance', currency.symbol), amount: incoming ? -transactionAmount : transactionAmount },
+        ],
+      },
+      [{
+        userWalletId,
+        transactionType,
+        amount,
+        transactionHash: metadata?.transactionHash,
+        metadata: {
+          ...metadata,
+          timestamp: new Date().toISOString()
+        }
+      }]
+    );
 
-    return transaction;
+    return transactions[0];
   }
 
   /**
-   * Transfer tokens between internal wallets
+   * Transfer tokens between internal wallets. Both sides post as one ledger entry, so the
+   * transfer either fully happens or not at all
    */
   async internalTransfer(
     fromUserId: string,
@@ -267,34 +293,94 @@ export class WalletService {
       throw new Error('One or both wallets not found');
     }
 
-    // Record outgoing transaction
-    const sentTx = await this.recordTransaction(
-      fromWallet.id,
-      'transfer',
-      amount,
+    const transferAmount = parseFloat(amount);
+    const { entry, transactions } = await storage.recordWalletLedgerEntry(
       {
-        transferType: 'outgoing',
-        recipientUserId: toUserId,
-        recipientWalletId: toWallet.id,
-        note
-      }
+        entryType: 'transfer',
+        description: `Transfer of ${amount} ${currency.symbol} from ${fromUserId} to ${toUserId}`,
+        createdBy: fromUserId,
+        metadata: note ? { note } : undefined,
+        postings: [
+          { account: userWalletAccount(fromWallet.id, currency.symbol), amount: -transferAmount },
+          { account: userWalletAccount(toWallet.id, currency.symbol), amount: transferAmount },
+        ],
+      },
+      [
+        {
+          userWalletId: fromWallet.id,
+          transactionType: 'transfer',
+          amount,
+          metadata: {
+            transferType: 'outgoing',
+            recipientUserId: toUserId,
+            recipientWalletId: toWallet.id,
+            note
+          }
+        },
+        {
+          userWalletId: toWallet.id,
+          transactionType: 'transfer',
+          amount,
+          metadata: {
+            transferType: 'incoming',
+            senderUserId: fromUserId,
+            senderWalletId: fromWallet.id,
+            note
+          }
+        }
+      ]
     );
 
-    // Record incoming transaction
-    const receivedTx = await this.recordTransaction(
-      toWallet.id,
-      'transfer',
-      amount,
+    console.log(`✅ Transferred ${amount} ${currency.symbol} from ${fromUserId} to ${toUserId} (ledger entry ${entry.id})`);
+    return { sent: transactions[0], received: transactions[1] };
+  }
+
+  /**
+   * Move the user's whole rewards balance into their JCMOVES wallet
+   */
+  async syncFromRewards(userId: string): Promise<{ syncedAmount: number; newBalance: string; walletId: string } | null> {
+    const rewardWallet = await storage.getWalletAccount(userId);
+    const rewardBalance = parseFloat(rewardWallet?.tokenBalance || '0');
+    if (rewardBalance <= 0) {
+      return null;
+    }
+
+    const jcmovesWallet = await this.createUserWallet(userId, 'JCMOVES');
+    const { transactions } = await storage.recordWalletLedgerEntry(
       {
-        transferType: 'incoming',
-        senderUserId: fromUserId,
-        senderWalletId: fromWallet.id,
-        note,
-        relatedTransactionId: sentTx.id
-      }
+        entryType: 'rewards_sync',
+        description: `Rewards balance moved to JCMOVES wallet ${jcmovesWallet.walletAddress}`,
+        relatedEntityType: 'user_wallet',
+        relatedEntityId: jcmovesWallet.id,
+        createdBy: userId,
+        postings: [
+          { account: userRewardsAccount(userId), amount: -rewardBalance },
+          { account: userWalletAccount(jcmovesWallet.id), amount: rewardBalance },
+        ],
+      },
+      [{
+        userWalletId: jcmovesWallet.id,
+        transactionType: 'deposit',
+        amount: rewardBalance.toFixed(8),
+        metadata: {
+          syncFromRewards: true,
+          originalRewardBalance: rewardBalance.toFixed(8),
+          syncedAt: new Date().toISOString(),
+          source: 'rewards_system'
+        }
+      }]
     );
 
-    return { sent: sentTx, received: receivedTx };
+    return { syncedAmount: rewardBalance, newBalance: transactions[0].balanceAfter, walletId: jcmovesWallet.id };
+  }
+
+  private async getWalletCurrency(wallet: UserWallet): Promise<SupportedCurrency> {
+    const wallets = await storage.getUserWalletsWithCurrency(wallet.userId);
+    const match = wallets.find((w) => w.id === wallet.id);
+    if (!match) {
+      throw new Error('Wallet currency not found');
+    }
+    return match.currency;
   }
 }
 
@@ -1,8 +1,560 @@
-import { type User, type InsertUser, type UpsertUser, type Lead, type InsertLead, type Contact, type InsertContact, type Notification, type InsertNotification, type TreasuryAccount, type InsertTreasuryAccount, type FundingDeposit, type InsertFundingDeposit, type ReserveTransaction, type InsertReserveTransaction, type FaucetConfig, type InsertFaucetConfig, type FaucetClaim, type InsertFaucetClaim, type FaucetWallet, type InsertFaucetWallet, type FaucetRevenue, type InsertFaucetRevenue, type EmployeeStats, type InsertEmployeeStats, type AchievementType, type EmployeeAchievement, type InsertEmployeeAchievement, type PointTransaction, type InsertPointTransaction, type WeeklyLeaderboard, type DailyCheckin, type InsertDailyCheckin, type WalletAccount, type InsertWalletAccount, type SupportedCurrency, type InsertSupportedCurrency, type UserWallet, type InsertUserWallet, type TreasuryWallet, type InsertTreasuryWallet, type WalletTransaction, type InsertWalletTransaction, type ShopItem, type InsertShopItem, type Review, type InsertReview, leads, contacts, users, notifications, walletAccounts, rewards, treasuryAccounts, fundingDeposits, reserveTransactions, priceHistory, faucetConfig, faucetClaims, faucetWallets, faucetRevenue, employeeStats, achievementTypes, employeeAchievements, pointTransactions, weeklyLeaderboards, dailyCheckins, supportedCurrencies, userWallets, treasuryWallets, walletTransactions, shopItems, cashoutRequests, fraudLogs, helpRequests, miningSessions, miningClaims, treasuryWithdrawals, reviews } from "@shared/schema";
+import { type User, type InsertUser, type UpsertUser, type Lead, type InsertLead, type Contact, type InsertContact, type Notification, type InsertNotification, type TreasuryAccount, type InsertTreasuryAccount, type FundingDeposit, type InsertFundingDeposit, type ReserveTransaction, type InsertReserveTransaction, type FaucetConfig, type InsertFaucetConfig, type FaucetClaim, type InsertFaucetClaim, type FaucetWallet, type InsertFaucetWallet, type FaucetRevenue, type InsertFaucetRevenue, type EmployeeStats, type InsertEmployeeStats, type AchievementType, type InsertAchievementType, type EmployeeAchievement, type PointTransaction, type InsertPointTransaction, type WeeklyLeaderboard, type LeaderboardWeekClose, type GamificationConfig, type GamificationConfigChange, type Reward, type Competition, type InsertCompetition, type CompetitionTeam, type CompetitionResult, type MiningBoost, type DailyCheckin, type InsertDailyCheckin, type WalletAccount, type InsertWalletAccount, type SupportedCurrency, type InsertSupportedCurrency, type UserWallet, type InsertUserWallet, type TreasuryWallet, type InsertTreasuryWallet, type WalletTransaction, type InsertWalletTransaction, type ShopItem, type InsertShopItem, type Review, type InsertReview, type LeadStatusHistory, type PricingRateCard, type QuoteVersion, type Invoice, type InvoicePayment, type EmployeeAvailability, type EmployeeTimeOff, type TimeEntry, type JobStop, type IdempotencyKey, type MediaAsset, type LedgerAccount, type LedgerEntry, type LedgerLine, type TreasuryWithdrawal, type TreasuryApprovalPolicy, type TreasuryApprovalRequest, type TreasuryApprovalEvent, type TreasuryReconciliationReport, type TreasuryReconciliationDiscrepancy, type TreasuryPeriodClose, type PriceHistory, type PriceOracleOverride, type CashoutRequest, type TokenGrant, type PeerTransfer, type InsertFraudLog, type FraudLog, leads, leadStatusHistory, jobStops, pricingRateCards, quoteVersions, invoices, invoicePayments, employeeAvailability, employeeTimeOff, timeEntries, idempotencyKeys, mediaAssets, ledgerAccounts, ledgerEntries, ledgerLines, contacts, users, notifications, walletAccounts, rewards, treasuryAccounts, fundingDeposits, reserveTransactions, priceHistory, priceOracleOverrides, faucetConfig, faucetClaims, faucetWallets, faucetRevenue, employeeStats, achievementTypes, employeeAchievements, pointTransactions, weeklyLeaderboards, leaderboardWeekCloses, gamificationConfig, gamificationConfigChanges, competitions, competitionTeams, competitionTeamMembers, competitionResults, dailyCheckins, supportedCurrencies, userWallets, treasuryWallets, walletTransactions, shopItems, cashoutRequests, tokenGrants, peerTransfers, fraudLogs, helpRequests, miningSessions, miningClaims, miningBoosts, treasuryWithdrawals, treasuryApprovalPolicies, treasuryApprovalRequests, treasuryApprovalEvents, treasuryReconciliationReports, treasuryReconciliationDiscrepancies, treasuryPeriodCloses, reviews } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, isNull, and, isNotNull, sql, gt, gte, inArray } from "drizzle-orm";
+import { eq, desc, isNull, and, isNotNull, sql, gt, gte, lt, lte, inArray, notInArray, or, getTableColumns } from "drizzle-orm";
 import { TREASURY_CONFIG } from "./constants";
 import { cryptoService } from "./services/crypto";
+import { canTransitionLeadStatus, getLeadStatusActor, isLeadStatus, LeadStatusTransitionError, type LeadStatusActor } from "@shared/lead-status";
+import { calculateInvoiceTotals, getInvoiceStatus, InvoiceError, type InvoiceLineItem, type InvoiceTotals } from "@shared/invoices";
+import { findScheduleConflicts, getLeadScheduleWindow, ScheduleConflictError, SCHEDULED_LEAD_STATUSES, type ScheduleConflict, type WeeklyAvailability } from "@shared/scheduling";
+import { TimeClockError } from "@shared/time-clock";
+import type { JobStopInput } from "@shared/routing";
+import { ReconciliationError } from "@shared/treasury-reconciliation";
+import { TreasuryPeriodError } from "@shared/treasury-accounting";
+import { CashoutError, CASHOUT_REFUNDED_STATUSES } from "@shared/cashouts";
+import { PeerTransferError } from "@shared/peer-transfers";
+import { AchievementError, type AchievementCondition, type AchievementProgress } from "@shared/achievements";
+import { CompetitionError, type CompetitionMetric, type CompetitionScore, type CompetitionTeamInput } from "@shared/competitions";
+import type { MiningBoostActivity, MiningBoostSource } from "@shared/mining-boosts";
+import { formatLeaderboardDate, getLeaderboardWeekEnd, getLeaderboardWeekStart, LeaderboardError, rankLeaderboardStandings, type LeaderboardStanding } from "@shared/leaderboard";
+import { requiresApproval, TreasuryApprovalError, type ApprovalActionType, type ApprovalActor, type ApprovalPolicyInput } from "@shared/treasury-approvals";
+import { canLedgerAccountGoNegative, formatLedgerUnits, getLedgerAccountKey, LEDGER_CURRENCY, LedgerError, systemLedgerAccount, toLedgerUnits, userRewardsAccount, userWalletAccount, type LedgerAccountRef, type LedgerAccountType, type LedgerDrift, type LedgerEntryType, type LedgerPosting } from "@shared/ledger";
+
+// Who performed a lead status change and why (recorded in lead_status_history)
+export interface LeadStatusChange {
+  changedByUserId?: string | null;
+  actor?: LeadStatusActor;
+  reason?: string | null;
+  metadata?: any;
+  fields?: Partial<InsertLead>; // Other lead fields saved in the same transaction as the status
+}
+
+// The lead after a status update, and whether its status actually moved (false when it was already there)
+export interface LeadStatusUpdate {
+  lead: Lead;
+  changed: boolean;
+}
+
+// Data captured when a quote is emailed to the customer
+export interface NewQuoteVersion {
+  leadId: string;
+  accessTokenHash: string;
+  breakdown: any;
+  details: any;
+  totalPrice: string;
+  sentToEmail: string;
+  sentByUserId: string;
+  expiresAt: Date;
+}
+
+// Customer's answer to a quote from the public quote page
+export interface QuoteResponse {
+  status: 'accepted' | 'declined';
+  signatureName?: string | null;
+  declineReason?: string | null;
+  responseIp?: string | null;
+  responseUserAgent?: string | null;
+}
+
+// Invoice generated for a completed job
+export interface NewInvoice {
+  leadId: string;
+  customerName: string;
+  customerEmail: string;
+  billingAddress: string | null;
+  lineItems: InvoiceLineItem[];
+  taxRate: number;
+  dueDate: Date;
+  createdByUserId?: string | null;
+}
+
+// Deposit or payment against a job; token payments also move JCMOVES from the payer's wallet to the treasury
+export interface NewInvoicePayment {
+  leadId: string;
+  amount: number;
+  method: string;
+  reference?: string | null;
+  notes?: string | null;
+  receivedAt?: Date;
+  receivedByUserId: string;
+  tokenPayment?: {
+    payerUserId: string;
+    tokenAmount: number;
+    tokenPriceUsd: number;
+  };
+}
+
+// Stored invoice columns for a set of calculated totals
+function invoiceTotalsToColumns(totals: InvoiceTotals) {
+  return {
+    subtotal: totals.subtotal.toFixed(2),
+    discountTotal: totals.discountTotal.toFixed(2),
+    damagesTotal: totals.damagesTotal.toFixed(2),
+    tipTotal: totals.tipTotal.toFixed(2),
+    taxAmount: totals.taxAmount.toFixed(2),
+    total: totals.total.toFixed(2),
+    amountPaid: totals.amountPaid.toFixed(2),
+    balanceDue: totals.balanceDue.toFixed(2),
+    status: getInvoiceStatus(totals),
+  };
+}
+
+export type NewTimeEntry = Pick<typeof timeEntries.$inferInsert,
+  'userId' | 'leadId' | 'clockInLatitude' | 'clockInLongitude' | 'clockInDistanceMeters' | 'locationVerified' | 'isOnTime'>;
+
+export type TimeEntryChanges = Partial<Omit<typeof timeEntries.$inferInsert, 'id' | 'userId' | 'leadId' | 'createdAt'>>;
+
+// Result of claiming an Idempotency-Key: a fresh claim runs the request, otherwise the earlier attempt is returned
+export type IdempotencyClaim = { claimed: true; id: string } | { claimed: false; existing: IdempotencyKey };
+
+export type NewMediaAsset = Pick<typeof mediaAssets.$inferInsert,
+  'uploadedBy' | 'purpose' | 'objectKey' | 'contentType' | 'sizeBytes' | 'ownerType' | 'ownerId'>;
+
+export type MediaAssetChanges = Partial<Omit<typeof mediaAssets.$inferInsert, 'id' | 'uploadedBy' | 'purpose' | 'objectKey' | 'createdAt'>>;
+
+// The handle db.transaction passes to its callback, so ledger postings can join the caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface NewLedgerEntry {
+  entryType: LedgerEntryType;
+  description: string;
+  postings: LedgerPosting[];
+  relatedEntityType?: string | null;
+  relatedEntityId?: string | null;
+  createdBy?: string | null;
+  metadata?: any;
+}
+
+// A posted entry with the balance of every account it touched afterwards, keyed by getLedgerAccountKey
+export type PostedLedgerEntry = LedgerEntry & { balances: Record<string, string> };
+
+// A wallet_transactions row written alongside a ledger entry; balanceAfter comes from the ledger
+export interface NewWalletLedgerTransaction {
+  userWalletId: string;
+  transactionType: 'deposit' | 'withdrawal' | 'reward' | 'transfer' | 'refund';
+  amount: string;
+  transactionHash?: string | null;
+  status?: 'pending' | 'confirmed'; // Defaults to confirmed; on-chain withdrawals stay pending until they finalize
+  toAddress?: string | null;
+  metadata?: any;
+}
+
+// An inbound transfer seen by the deposit monitor: recorded as pending, credited once it finalizes
+export interface NewPendingDeposit {
+  userWalletId: string;
+  amount: string;
+  signature: string;
+  fromAddress: string | null;
+  toAddress: string;
+  blockNumber: number;
+  confirmations: number;
+  metadata?: any;
+}
+
+// A move of credited deposits from a user's deposit address into the treasury wallet, recorded before it's sent
+export interface NewDepositSweep {
+  treasuryWalletId: string;
+  userWalletId: string;
+  amount: string;
+  signature: string;
+  fromAddress: string; // The deposit address
+  toAddress: string; // The treasury wallet
+  lastValidBlockHeight: number;
+}
+
+export type UserWalletChanges = Partial<Pick<UserWallet, 'walletAddress' | 'publicKey' | 'privateKeyHash' | 'walletType' | 'metadata' | 'lastSyncedAt'>>;
+export type WalletTransactionChanges = Partial<Pick<WalletTransaction, 'status' | 'transactionHash' | 'blockNumber' | 'confirmations' | 'confirmedAt' | 'metadata'>>;
+
+export type NewTreasuryWithdrawal = Omit<typeof treasuryWithdrawals.$inferInsert, 'id' | 'status' | 'createdAt' | 'updatedAt'>;
+export type TreasuryWithdrawalChanges = Partial<Omit<typeof treasuryWithdrawals.$inferInsert, 'id' | 'treasuryAccountId' | 'requestedBy' | 'tokenAmount' | 'recipientAddress' | 'createdAt'>>;
+
+// The final step of an on-chain withdrawal: the ledger entry that confirms or refunds it, the changes to the
+// withdrawal and its wallet history row, and for refunds the history row crediting the wallet back
+export interface TreasuryWithdrawalSettlement {
+  fromStatus: string; // Status the caller last saw; nothing is settled if another worker has moved the withdrawal on since
+  changes: TreasuryWithdrawalChanges & { status: 'confirmed' | 'failed' };
+  entry: NewLedgerEntry;
+  walletTransactionId?: string | null;
+  walletTransactionChanges: WalletTransactionChanges;
+  refund?: NewWalletLedgerTransaction;
+}
+
+export type NewTreasuryApprovalRequest = Pick<typeof treasuryApprovalRequests.$inferInsert,
+  'actionType' | 'tokenAmount' | 'summary' | 'payload' | 'requestedBy' | 'policyId' | 'requiredApprovals' | 'approverRoles' | 'expiresAt'>;
+
+export interface TreasuryApprovalDecision {
+  request: TreasuryApprovalRequest;
+  event: TreasuryApprovalEvent;
+  becameApproved: boolean; // This vote was the last one needed, so the caller should execute the action
+}
+
+// Book balances the reconciliation job compares with what's on-chain, read from the projected columns
+export interface CustodyBalanceTotals {
+  tokenReserve: string;
+  rewardsBalances: string; // walletAccounts.tokenBalance
+  walletBalances: string; // JCMOVES userWallets.balance
+}
+
+export type NewReconciliationReport = Omit<typeof treasuryReconciliationReports.$inferInsert, 'id' | 'completedAt'>;
+export type NewReconciliationDiscrepancy = Pick<typeof treasuryReconciliationDiscrepancies.$inferInsert,
+  'kind' | 'signature' | 'amount' | 'counterparty' | 'blockTime'>;
+
+export interface DiscrepancyResolutionChanges {
+  status: 'adjusted' | 'dismissed';
+  adjustmentAmount?: number | null;
+  resolutionNote: string;
+  resolvedBy: string;
+}
+
+// A reserve_transactions row with the last price_history price at or before it, for period valuation
+export type ReserveJournalRow = ReserveTransaction & { historicalPriceUsd: string | null };
+
+export type NewTreasuryPeriodClose = Omit<typeof treasuryPeriodCloses.$inferInsert, 'id' | 'closedAt'>;
+
+// Tables a period close is built from; their rows can't change once dated inside a closed period
+const TREASURY_PERIOD_LOCKED_TABLES = ['reserve_transactions', 'ledger_entries', 'ledger_lines', 'price_history'];
+
+export type NewCashoutRequest = Pick<typeof cashoutRequests.$inferInsert,
+  'id' | 'userId' | 'tokenAmount' | 'cashAmount' | 'conversionRate' | 'bankDetails' | 'payoutMethod' | 'payoutProvider' |
+  'payoutDestination' | 'payoutDestinationHash' | 'priceHistoryId' | 'flagReasons'>;
+export type CashoutRequestChanges = Partial<Pick<typeof cashoutRequests.$inferInsert,
+  'status' | 'externalTransactionId' | 'submittedAt' | 'processedDate' | 'failureReason' | 'flagReasons' | 'reviewedBy' | 'reviewedAt' | 'reviewNotes'>>;
+
+// USD limits a new cash-out is checked against, with the windows they're counted over
+export interface CashoutLimits {
+  dailyUsd: number;
+  monthlyUsd: number;
+  dayStart: Date;
+  monthStart: Date;
+}
+
+// Completed cash-outs are bought back into the reserve at their cash amount; failed and cancelled ones are refunded
+export interface CashoutSettlement {
+  fromStatuses: string[]; // Statuses the caller last saw; nothing is settled if another worker has moved the request on since
+  status: 'completed' | 'failed' | 'cancelled';
+  changes?: CashoutRequestChanges;
+}
+
+export interface KycReviewChanges {
+  kycStatus: 'verified' | 'rejected';
+  kycReviewedBy: string;
+  kycRejectionReason?: string | null;
+  cashoutDailyLimitUsd?: string | null;
+  cashoutMonthlyLimitUsd?: string | null;
+}
+
+export type NewTokenGrant = Pick<typeof tokenGrants.$inferInsert,
+  'userId' | 'source' | 'referenceId' | 'description' | 'totalAmount' | 'immediatePercent' | 'vestingDays'>;
+
+export type NewPeerTransfer = Pick<typeof peerTransfers.$inferInsert,
+  'id' | 'senderId' | 'recipientId' | 'amount' | 'memo' | 'riskScore' | 'fraudReasons'>;
+
+// What a sender may still transfer today
+export interface PeerTransferLimits {
+  dailyTokens: number;
+  dailyCount: number;
+  dayStart: Date;
+}
+
+// USD a user has cashed out since the start of the day and month; refunded requests don't count
+async function readCashoutUsage(executor: typeof db | DbTransaction, userId: string, dayStart: Date, monthStart: Date): Promise<{ usedTodayUsd: number; usedThisMonthUsd: number }> {
+  const [usage] = await executor
+    .select({
+      today: sql<string>`coalesce(sum(${cashoutRequests.cashAmount}) filter (where ${cashoutRequests.createdAt} >= ${dayStart}), 0)`,
+      month: sql<string>`coalesce(sum(${cashoutRequests.cashAmount}), 0)`,
+    })
+    .from(cashoutRequests)
+    .where(and(
+      eq(cashoutRequests.userId, userId),
+      gte(cashoutRequests.createdAt, monthStart),
+      notInArray(cashoutRequests.status, CASHOUT_REFUNDED_STATUSES),
+    ));
+  return { usedTodayUsd: parseFloat(usage.today), usedThisMonthUsd: parseFloat(usage.month) };
+}
+
+// Current value of the table column a projected ledger account mirrors, or null when the row doesn't exist
+async function readLedgerProjection(tx: DbTransaction, account: LedgerAccountRef): Promise<string | null> {
+  if (!account.ownerId) return null;
+  switch (account.type) {
+    case 'user_rewards': {
+      const [wallet] = await tx.select({ balance: walletAccounts.tokenBalance }).from(walletAccounts).where(eq(walletAccounts.userId, account.ownerId));
+      return wallet ? wallet.balance || "0" : null;
+    }
+    case 'user_wallet': {
+      const [wallet] = await tx.select({ balance: userWallets.balance }).from(userWallets).where(eq(userWallets.id, account.ownerId));
+      return wallet ? wallet.balance : null;
+    }
+    case 'treasury_reserve': {
+      const [treasury] = await tx.select({ balance: treasuryAccounts.tokenReserve }).from(treasuryAccounts).where(eq(treasuryAccounts.id, account.ownerId));
+      return treasury ? treasury.balance : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Copy a ledger balance onto the column existing pages and services read
+async function writeLedgerProjection(tx: DbTransaction, account: LedgerAccountRef, balance: string): Promise<void> {
+  if (!account.ownerId) return;
+  switch (account.type) {
+    case 'user_rewards': {
+      const updated = await tx
+        .update(walletAccounts)
+        .set({ tokenBalance: balance, lastActivity: new Date() })
+        .where(eq(walletAccounts.userId, account.ownerId))
+        .returning({ id: walletAccounts.id });
+      if (updated.length === 0) {
+        await tx.insert(walletAccounts).values({ userId: account.ownerId, tokenBalance: balance });
+      }
+      return;
+    }
+    case 'user_wallet':
+      await tx
+        .update(userWallets)
+        .set({ balance, updatedAt: new Date(), lastSyncedAt: new Date() })
+        .where(eq(userWallets.id, account.ownerId));
+      return;
+    case 'treasury_reserve':
+      await tx
+        .update(treasuryAccounts)
+        .set({ tokenReserve: balance, updatedAt: new Date() })
+        .where(eq(treasuryAccounts.id, account.ownerId));
+      return;
+  }
+}
+
+/**
+ * Create the ledger account if it doesn't exist yet. A wallet or reserve that already held tokens
+ * before the ledger gets an opening_balance entry for that amount, so its projection doesn't reset
+ */
+async function openLedgerAccount(tx: DbTransaction, account: LedgerAccountRef): Promise<LedgerAccount> {
+  const accountKey = getLedgerAccountKey(account);
+  const [created] = await tx
+    .insert(ledgerAccounts)
+    .values({
+      accountKey,
+      accountType: account.type,
+      ownerId: account.ownerId || null,
+      currency: account.currency || LEDGER_CURRENCY,
+    })
+    .onConflictDoNothing({ target: ledgerAccounts.accountKey })
+    .returning();
+
+  if (created) {
+    const existingBalance = await readLedgerProjection(tx, account);
+    if (existingBalance && toLedgerUnits(existingBalance) > BigInt(0)) {
+      const amount = parseFloat(existingBalance);
+      await postLedgerEntry(tx, {
+        entryType: 'opening_balance',
+        description: `Opening balance carried into the ledger for ${accountKey}`,
+        postings: [
+          { account, amount },
+          { account: systemLedgerAccount('issuance', account.currency || LEDGER_CURRENCY), amount: -amount },
+        ],
+      });
+    }
+  }
+
+  const [row] = await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.accountKey, accountKey));
+  return row;
+}
+
+// wallet_transactions rows for the wallets an entry touched, carrying the ledger balance and entry id
+async function insertWalletLedgerTransactions(
+  tx: DbTransaction,
+  entry: NewLedgerEntry,
+  posted: PostedLedgerEntry,
+  transactions: NewWalletLedgerTransaction[],
+): Promise<WalletTransaction[]> {
+  const created: WalletTransaction[] = [];
+  for (const transaction of transactions) {
+    const posting = entry.postings.find((p) => p.account.type === 'user_wallet' && p.account.ownerId === transaction.userWalletId);
+    if (!posting) {
+      throw new Error(`Ledger entry doesn't touch wallet ${transaction.userWalletId}`);
+    }
+
+    const status = transaction.status || 'confirmed';
+    const [row] = await tx
+      .insert(walletTransactions)
+      .values({
+        userWalletId: transaction.userWalletId,
+        transactionType: transaction.transactionType,
+        amount: transaction.amount,
+        balanceAfter: posted.balances[getLedgerAccountKey(posting.account)],
+        transactionHash: transaction.transactionHash || null,
+        toAddress: transaction.toAddress || null,
+        status,
+        confirmations: status === 'confirmed' ? 1 : 0,
+        metadata: { ...transaction.metadata, ledgerEntryId: posted.id },
+      })
+      .returning();
+    created.push(row);
+  }
+  return created;
+}
+
+/**
+ * Post one balanced entry: lines for every posting, new account balances, and the projected
+ * wallet/reserve columns, all inside the caller's transaction. Throws LedgerError without writing
+ * anything when the postings don't sum to zero or an account would go below zero
+ */
+export async function postLedgerEntry(tx: DbTransaction, entry: NewLedgerEntry): Promise<PostedLedgerEntry> {
+  const currency = entry.postings[0]?.account.currency || LEDGER_CURRENCY;
+  const changes = new Map<string, { account: LedgerAccountRef; units: bigint[] }>();
+  let total = BigInt(0);
+
+  for (const posting of entry.postings) {
+    if (!Number.isFinite(posting.amount)) {
+      throw new LedgerError('invalid_amount', `Invalid ledger amount for ${getLedgerAccountKey(posting.account)}`);
+    }
+    if ((posting.account.currency || LEDGER_CURRENCY) !== currency) {
+      throw new LedgerError('mixed_currency', 'All postings in a ledger entry must use the same currency');
+    }
+    const units = toLedgerUnits(posting.amount);
+    if (units === BigInt(0)) continue;
+
+    const accountKey = getLedgerAccountKey(posting.account);
+    const change = changes.get(accountKey) || { account: posting.account, units: [] };
+    change.units.push(units);
+    changes.set(accountKey, change);
+    total += units;
+  }
+
+  if (changes.size < 2) {
+    throw new LedgerError('empty', 'A ledger entry needs amounts on at least two accounts');
+  }
+  if (total !== BigInt(0)) {
+    throw new LedgerError('unbalanced', `Ledger entry is off by ${formatLedgerUnits(total)} ${currency}`);
+  }
+
+  // Open every account before locking any, since opening may post to the issuance account.
+  // Locks are then taken in key order so concurrent entries can't deadlock
+  const accountKeys = Array.from(changes.keys()).sort();
+  for (const accountKey of accountKeys) {
+    await openLedgerAccount(tx, changes.get(accountKey)!.account);
+  }
+
+  const lockedAccounts = new Map<string, LedgerAccount>();
+  for (const accountKey of accountKeys) {
+    const [locked] = await tx
+      .select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.accountKey, accountKey))
+      .for('update');
+    lockedAccounts.set(accountKey, locked);
+  }
+
+  const [created] = await tx
+    .insert(ledgerEntries)
+    .values({
+      entryType: entry.entryType,
+      currency,
+      description: entry.description,
+      relatedEntityType: entry.relatedEntityType || null,
+      relatedEntityId: entry.relatedEntityId || null,
+      createdBy: entry.createdBy || null,
+      metadata: entry.metadata,
+    })
+    .returning();
+
+  const lines: Array<typeof ledgerLines.$inferInsert> = [];
+  const balances: Record<string, string> = {};
+
+  for (const accountKey of accountKeys) {
+    const { account, units } = changes.get(accountKey)!;
+    const locked = lockedAccounts.get(accountKey)!;
+    const startingBalance = toLedgerUnits(locked.balance);
+    let running = startingBalance;
+
+    for (const amount of units) {
+      running += amount;
+      lines.push({
+        entryId: created.id,
+        accountId: locked.id,
+        amount: formatLedgerUnits(amount),
+        balanceAfter: formatLedgerUnits(running),
+      });
+    }
+
+    if (running < BigInt(0) && !canLedgerAccountGoNegative(account.type)) {
+      throw new LedgerError(
+        'insufficient_balance',
+        `Insufficient ${currency} in ${accountKey}: ${formatLedgerUnits(startingBalance)} available, ${formatLedgerUnits(startingBalance - running)} needed`,
+      );
+    }
+
+    balances[accountKey] = formatLedgerUnits(running);
+  }
+
+  await tx.insert(ledgerLines).values(lines);
+
+  for (const accountKey of accountKeys) {
+    const { account } = changes.get(accountKey)!;
+    await tx
+      .update(ledgerAccounts)
+      .set({ balance: balances[accountKey], updatedAt: new Date() })
+      .where(eq(ledgerAccounts.id, lockedAccounts.get(accountKey)!.id));
+    await writeLedgerProjection(tx, account, balances[accountKey]);
+  }
+
+  return { ...created, balances };
+}
+
+// JCMOVES a user has sent to other users since the start of the day, and in how many transfers
+async function readPeerTransferUsage(executor: typeof db | DbTransaction, senderId: string, dayStart: Date): Promise<{ sentTodayTokens: number; sentTodayCount: number }> {
+  const [usage] = await executor
+    .select({
+      total: sql<string>`coalesce(sum(${peerTransfers.amount}), 0)`,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(peerTransfers)
+    .where(and(eq(peerTransfers.senderId, senderId), gte(peerTransfers.createdAt, dayStart)));
+  return { sentTodayTokens: parseFloat(usage.total), sentTodayCount: usage.count };
+}
+
+// A frozen weekly leaderboard row, written when the week is closed
+export interface NewLeaderboardEntry {
+  userId: string;
+  rank: number;
+  pointsEarned: number;
+  jobsCompleted: number;
+  averageRating: string;
+  lastPointsAt: Date | null;
+  tokenReward: string;
+}
+
+export interface NewLeaderboardWeekClose {
+  weekStartDate: string;
+  weekEndDate: string;
+  participantCount: number;
+  totalPrizeTokens: string;
+  closedBy: string | null;
+}
+
+// A frozen competition result, written when the competition is closed
+export interface NewCompetitionResult {
+  userId: string;
+  teamId: string | null;
+  rank: number;
+  score: string;
+  prizeTokens: string;
+}
+
+// A boost as currently earned from one source, written by MiningBoostService
+export interface EarnedMiningBoost {
+  source: MiningBoostSource;
+  multiplier: string;
+  description: string;
+  expiresAt: Date;
+}
+
+// A gamification_config row as written by GamificationConfigService; value is JSON stringified
+export interface GamificationConfigRow {
+  key: string;
+  value: string;
+  description: string;
+  category: string;
+  dataType: string;
+}
 
 export interface IStorage {
   // User operations
@@ -28,6 +580,7 @@ export interface IStorage {
   
   // Username management
   updateUsername(userId: string, username: string): Promise<User | undefined>;
+  updateUserCrewProfile(userId: string, profile: { homeBaseAddress?: string | null; crewSkills?: string[] }): Promise<User | undefined>;
   checkUsernameAvailability(username: string): Promise<boolean>;
   
   // Help request operations
@@ -43,14 +596,77 @@ export interface IStorage {
   createLead(lead: InsertLead): Promise<Lead>;
   getLeads(): Promise<Lead[]>;
   getLead(id: string): Promise<Lead | undefined>;
+  getLeadsByIds(ids: string[]): Promise<Lead[]>;
   getLeadsByEmail(email: string): Promise<Lead[]>;
-  updateLeadStatus(id: string, status: string): Promise<Lead | undefined>;
+  updateLeadStatus(id: string, status: string, change?: LeadStatusChange): Promise<LeadStatusUpdate | undefined>;
+  claimLeadCompletionReward(id: string): Promise<Lead | undefined>;
+  getLeadStatusHistory(leadId: string): Promise<(LeadStatusHistory & { changedByName: string | null })[]>;
   updateLeadQuote(id: string, quoteData: any): Promise<Lead | undefined>;
   deleteLead(id: string): Promise<boolean>;
   
+  // Multi-stop jobs
+  getJobStops(leadId: string): Promise<JobStop[]>;
+  getJobStopsForLeads(leadIds: string[]): Promise<JobStop[]>;
+  replaceJobStops(leadId: string, stops: JobStopInput[], distanceMiles: number | null): Promise<JobStop[] | undefined>;
+  
+  // Pricing rate cards
+  getActivePricingRateCard(): Promise<PricingRateCard | undefined>;
+  getPricingRateCards(): Promise<PricingRateCard[]>;
+  savePricingRateCard(name: string, rates: any, updatedByUserId: string): Promise<PricingRateCard>;
+  
+  // Quote versions sent to customers
+  createQuoteVersion(version: NewQuoteVersion): Promise<QuoteVersion>;
+  getQuoteVersions(leadId: string): Promise<QuoteVersion[]>;
+  getQuoteVersionByTokenHash(accessTokenHash: string): Promise<QuoteVersion | undefined>;
+  markQuoteVersionViewed(id: string): Promise<QuoteVersion | undefined>;
+  respondToQuoteVersion(id: string, response: QuoteResponse): Promise<QuoteVersion | undefined>;
+  
+  // Invoices and payments
+  createInvoice(invoice: NewInvoice): Promise<Invoice>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoiceByLeadId(leadId: string): Promise<Invoice | undefined>;
+  getOutstandingInvoices(): Promise<Invoice[]>;
+  updateInvoiceLineItems(id: string, lineItems: InvoiceLineItem[]): Promise<Invoice>;
+  voidInvoice(id: string, reason: string | null): Promise<Invoice>;
+  recordInvoicePayment(payment: NewInvoicePayment): Promise<{ payment: InvoicePayment; invoice: Invoice | undefined }>;
+  getInvoicePayments(leadId: string): Promise<InvoicePayment[]>;
+  
+  // Crew scheduling
+  getEmployeeScheduledLeads(employeeId: string, excludeLeadId?: string): Promise<Lead[]>;
+  getCalendarLeads(): Promise<Lead[]>;
+  getEmployeeAvailability(userId: string): Promise<EmployeeAvailability[]>;
+  getAllEmployeeAvailability(): Promise<EmployeeAvailability[]>;
+  setEmployeeAvailability(userId: string, days: WeeklyAvailability): Promise<EmployeeAvailability[]>;
+  createTimeOffRequest(userId: string, request: { startDate: Date; endDate: Date; reason?: string | null }): Promise<EmployeeTimeOff>;
+  getTimeOffRequests(filter?: { userId?: string; status?: string; from?: Date; to?: Date }): Promise<EmployeeTimeOff[]>;
+  getTimeOffRequest(id: string): Promise<EmployeeTimeOff | undefined>;
+  updateTimeOffStatus(id: string, status: string, reviewedByUserId: string | null): Promise<EmployeeTimeOff | undefined>;
+
+  // Time clock operations
+  createTimeEntry(entry: NewTimeEntry): Promise<TimeEntry>;
+  getTimeEntry(id: string): Promise<TimeEntry | undefined>;
+  getOpenTimeEntry(userId: string): Promise<TimeEntry | undefined>;
+  getTimeEntries(filter?: { userId?: string; leadId?: string; status?: string; from?: Date; to?: Date }): Promise<TimeEntry[]>;
+  updateTimeEntry(id: string, apply: (entry: TimeEntry) => TimeEntryChanges): Promise<TimeEntry | undefined>;
+
+  // Idempotent request replay
+  claimIdempotencyKey(userId: string, key: string, requestPath: string, staleBefore: Date): Promise<IdempotencyClaim>;
+  completeIdempotencyKey(id: string, statusCode: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(id: string): Promise<void>;
+  pruneIdempotencyKeys(before: Date): Promise<number>;
+
+  // Media store
+  createMediaAsset(asset: NewMediaAsset): Promise<MediaAsset>;
+  getMediaAsset(id: string): Promise<MediaAsset | undefined>;
+  getMediaAssets(ids: string[]): Promise<MediaAsset[]>;
+  getMediaAssetsForOwner(ownerType: string, ownerId: string): Promise<MediaAsset[]>;
+  updateMediaAsset(id: string, changes: MediaAssetChanges): Promise<MediaAsset | undefined>;
+  attachMediaAssets(ids: string[], ownerType: string, ownerId: string): Promise<MediaAsset[]>;
+  deleteMediaAssets(ids: string[]): Promise<void>;
+  
   // Job assignment operations
   assignLeadToEmployee(leadId: string, employeeId: string): Promise<Lead | undefined>;
-  addEmployeeAcceptance(leadId: string, employeeId: string, isCrewFull: boolean): Promise<Lead | undefined>;
+  addEmployeeAcceptance(leadId: string, employeeId: string, isCrewFull: boolean): Promise<{ lead: Lead; warnings: ScheduleConflict[] } | undefined>;
   getAvailableLeads(): Promise<Lead[]>; // Leads not assigned to any employee
   getAssignedLeads(employeeId: string): Promise<Lead[]>; // Leads assigned to specific employee
   
@@ -85,9 +701,156 @@ export interface IStorage {
   createReserveTransaction(transaction: InsertReserveTransaction): Promise<ReserveTransaction>;
   getReserveTransactions(treasuryAccountId?: string, limit?: number): Promise<ReserveTransaction[]>;
   checkFundingAvailability(tokenAmount: number, tokenPrice?: number): Promise<{ available: boolean; currentBalance: number; requiredValue: number }>;
-  deductFromReserve(tokenAmount: number, description: string, tokenPrice: number, relatedEntityType?: string, relatedEntityId?: string): Promise<ReserveTransaction>;
-  addToReserve(tokenAmount: number, cashValue: number, description: string): Promise<ReserveTransaction>;
+  deductFromReserve(tokenAmount: number, description: string, tokenPrice: number, relatedEntityType?: string, relatedEntityId?: string, recipient?: LedgerAccountRef): Promise<ReserveTransaction>;
+  addToReserve(tokenAmount: number, cashValue: number, description: string, fromWallet?: { userWalletId: string; metadata?: any }): Promise<ReserveTransaction>;
   atomicDepositFunds(depositedBy: string, usdAmount: number, depositMethod?: string, notes?: string): Promise<FundingDeposit>;
+
+  // Ledger operations
+  createLedgerEntry(entry: NewLedgerEntry): Promise<PostedLedgerEntry>;
+  openLedgerAccount(account: LedgerAccountRef): Promise<LedgerAccount>;
+  recordWalletLedgerEntry(entry: NewLedgerEntry, transactions: NewWalletLedgerTransaction[]): Promise<{ entry: PostedLedgerEntry; transactions: WalletTransaction[] }>;
+  getLedgerAccount(account: LedgerAccountRef): Promise<LedgerAccount | undefined>;
+  getLedgerLines(accountKey: string, limit?: number): Promise<(LedgerLine & { entry: LedgerEntry })[]>;
+  getLedgerBalancesByType(currency: string): Promise<Partial<Record<LedgerAccountType, string>>>;
+  getUnbalancedLedgerEntries(): Promise<Array<{ entryId: string; total: string }>>;
+  getLedgerDrift(currency: string): Promise<LedgerDrift[]>;
+
+  // Treasury withdrawal operations
+  queueTreasuryWithdrawal(entry: NewLedgerEntry, transaction: NewWalletLedgerTransaction, withdrawal: NewTreasuryWithdrawal, status?: 'pending' | 'awaiting_approval'): Promise<{ withdrawal: TreasuryWithdrawal; transaction: WalletTransaction }>;
+  getTreasuryWithdrawal(id: string): Promise<TreasuryWithdrawal | undefined>;
+  getTreasuryWithdrawalsByStatus(statuses: string[], limit?: number): Promise<TreasuryWithdrawal[]>;
+  getUserTreasuryWithdrawals(userId: string, limit?: number): Promise<TreasuryWithdrawal[]>;
+  updateTreasuryWithdrawal(id: string, changes: TreasuryWithdrawalChanges, fromStatuses?: string[]): Promise<TreasuryWithdrawal | undefined>;
+  settleTreasuryWithdrawal(id: string, settlement: TreasuryWithdrawalSettlement): Promise<TreasuryWithdrawal | undefined>;
+
+  // Treasury approval operations
+  getTreasuryApprovalPolicies(): Promise<TreasuryApprovalPolicy[]>;
+  getTreasuryApprovalPolicy(actionType: ApprovalActionType): Promise<TreasuryApprovalPolicy | undefined>;
+  upsertTreasuryApprovalPolicy(actionType: ApprovalActionType, policy: ApprovalPolicyInput, updatedBy: string): Promise<TreasuryApprovalPolicy>;
+  createTreasuryApprovalRequest(request: NewTreasuryApprovalRequest, requester: ApprovalActor): Promise<TreasuryApprovalRequest>;
+  submitTreasuryApprovalRequest(request: NewTreasuryApprovalRequest, requester: ApprovalActor, policy: ApprovalPolicyInput, windowStart: Date): Promise<TreasuryApprovalRequest>;
+  getInterruptedTreasuryApprovalRequests(decidedBefore: Date): Promise<TreasuryApprovalRequest[]>;
+  getTreasuryApprovalRequest(id: string): Promise<TreasuryApprovalRequest | undefined>;
+  getTreasuryApprovalRequests(statuses?: string[], limit?: number): Promise<TreasuryApprovalRequest[]>;
+  getTreasuryApprovalEvents(requestIds: string[]): Promise<TreasuryApprovalEvent[]>;
+  decideTreasuryApprovalRequest(id: string, actor: ApprovalActor, decision: 'approved' | 'rejected', comment?: string): Promise<TreasuryApprovalDecision>;
+  expireTreasuryApprovalRequests(now?: Date): Promise<TreasuryApprovalRequest[]>;
+  completeTreasuryApprovalRequest(id: string, outcome: { status: 'executed' | 'failed'; executionResult?: any; failureReason?: string }, actor?: ApprovalActor): Promise<TreasuryApprovalRequest | undefined>;
+
+  // Treasury reconciliation operations
+  getCustodyBalanceTotals(currency: string): Promise<CustodyBalanceTotals>;
+  getRecordedTreasurySignatures(signatures: string[]): Promise<string[]>;
+  saveReconciliationReport(report: NewReconciliationReport, discrepancies: NewReconciliationDiscrepancy[]): Promise<{ report: TreasuryReconciliationReport; created: TreasuryReconciliationDiscrepancy[] }>;
+  getReconciliationReports(limit?: number): Promise<TreasuryReconciliationReport[]>;
+  getReconciliationReport(id: string): Promise<TreasuryReconciliationReport | undefined>;
+  getReconciliationDiscrepancies(statuses?: string[], limit?: number): Promise<TreasuryReconciliationDiscrepancy[]>;
+  getReconciliationDiscrepancy(id: string): Promise<TreasuryReconciliationDiscrepancy | undefined>;
+  resolveReconciliationDiscrepancy(id: string, changes: DiscrepancyResolutionChanges, entry?: NewLedgerEntry): Promise<TreasuryReconciliationDiscrepancy>;
+
+  // Treasury period close operations
+  getReserveJournal(treasuryAccountId: string, from: Date | null, to: Date): Promise<ReserveJournalRow[]>;
+  getLedgerBalanceAsOf(account: LedgerAccountRef, asOf: Date): Promise<string>;
+  getTreasuryPeriodCloses(limit?: number): Promise<TreasuryPeriodClose[]>;
+  getTreasuryPeriodClose(periodType: string, periodKey: string): Promise<TreasuryPeriodClose | undefined>;
+  getLatestTreasuryPeriodCloseBefore(date: Date): Promise<TreasuryPeriodClose | undefined>;
+  closeTreasuryPeriod(close: NewTreasuryPeriodClose): Promise<TreasuryPeriodClose>;
+  installTreasuryPeriodLocks(): Promise<void>;
+
+  // Identity verification operations
+  submitKyc(userId: string, encryptedDetails: string): Promise<User | undefined>;
+  reviewKyc(userId: string, review: KycReviewChanges): Promise<User | undefined>;
+  getUsersByKycStatus(status: string): Promise<User[]>;
+
+  // Cash-out operations
+  queueCashoutRequest(request: NewCashoutRequest, status: 'pending' | 'pending_review', limits: CashoutLimits): Promise<CashoutRequest>;
+  getCashoutRequest(id: string): Promise<CashoutRequest | undefined>;
+  getCashoutRequestByExternalId(provider: string, externalId: string): Promise<CashoutRequest | undefined>;
+  getCashoutRequests(filter: { userId?: string; statuses?: string[]; limit?: number }): Promise<CashoutRequest[]>;
+  getCashoutUsage(userId: string, dayStart: Date, monthStart: Date): Promise<{ usedTodayUsd: number; usedThisMonthUsd: number }>;
+  getCompletedCashoutDestinations(userId: string): Promise<string[]>;
+  updateCashoutRequest(id: string, changes: CashoutRequestChanges, fromStatuses?: string[]): Promise<CashoutRequest | undefined>;
+  settleCashoutRequest(id: string, settlement: CashoutSettlement): Promise<CashoutRequest | undefined>;
+
+  // Token grant operations
+  createTokenGrant(grant: NewTokenGrant): Promise<{ grant: TokenGrant; created: boolean }>;
+  getTokenGrant(id: string): Promise<TokenGrant | undefined>;
+  getUserTokenGrants(userId: string): Promise<TokenGrant[]>;
+  getReleasableTokenGrants(limit: number, afterId?: string): Promise<TokenGrant[]>;
+  getEarmarkedTokenGrantTotal(): Promise<number>;
+  getStaleTokenGrantReleases(claimedBefore: Date, limit: number): Promise<TokenGrant[]>;
+  claimTokenGrantRelease(id: string, amount: string): Promise<TokenGrant | undefined>;
+  completeTokenGrantRelease(id: string): Promise<TokenGrant | undefined>;
+  cancelTokenGrantRelease(id: string): Promise<TokenGrant | undefined>;
+  hasTokenGrantReleaseTransaction(grant: TokenGrant, since: Date): Promise<boolean>;
+  deleteUnreleasedTokenGrant(id: string): Promise<boolean>;
+  forfeitTokenGrants(userId: string, reason: string): Promise<TokenGrant[]>;
+
+  // Achievement operations
+  getAchievementTypes(activeOnly?: boolean): Promise<AchievementType[]>;
+  getAchievementType(id: string): Promise<AchievementType | undefined>;
+  createAchievementType(type: InsertAchievementType): Promise<AchievementType>;
+  updateAchievementType(id: string, updates: Partial<InsertAchievementType>): Promise<AchievementType | undefined>;
+  getAchievementEarnedCounts(): Promise<Record<string, number>>;
+  getAchievementCandidateIds(): Promise<string[]>;
+  measureAchievementCondition(userId: string, condition: AchievementCondition, now: Date): Promise<number>;
+  getEmployeeAchievementStatuses(userId: string): Promise<(EmployeeAchievement & { achievementType: AchievementType })[]>;
+  saveAchievementProgress(userId: string, achievementTypeId: string, progress: AchievementProgress): Promise<void>;
+  earnAchievement(userId: string, achievementTypeId: string, progress: AchievementProgress): Promise<EmployeeAchievement | undefined>;
+
+  // Gamification config operations
+  getGamificationConfig(): Promise<GamificationConfig[]>;
+  seedGamificationConfig(rows: GamificationConfigRow[]): Promise<number>;
+  saveGamificationConfig(rows: GamificationConfigRow[], changedBy: string, reason: string | null): Promise<GamificationConfigChange[]>;
+  getGamificationConfigChanges(limit: number): Promise<GamificationConfigChange[]>;
+  getPointTransactionsSince(transactionTypes: string[], since: Date): Promise<PointTransaction[]>;
+  getRewardsSince(rewardType: string, since: Date): Promise<Reward[]>;
+  getLeaderboardEntriesSince(weekStartDate: string): Promise<WeeklyLeaderboard[]>;
+  getAllEmployeeStats(): Promise<EmployeeStats[]>;
+
+  // Leaderboard operations
+  getLeaderboardStandings(weekStart: Date, weekEnd: Date): Promise<LeaderboardStanding[]>;
+  closeLeaderboardWeek(close: NewLeaderboardWeekClose, entries: NewLeaderboardEntry[]): Promise<{ close: LeaderboardWeekClose; entries: WeeklyLeaderboard[] }>;
+  getLeaderboardWeekClose(weekStartDate: string): Promise<LeaderboardWeekClose | undefined>;
+  getLeaderboardWeekCloses(limit: number): Promise<LeaderboardWeekClose[]>;
+  getClosedLeaderboardWeekStartDates(): Promise<string[]>;
+  getLeaderboardEntries(weekStartDate: string): Promise<WeeklyLeaderboard[]>;
+  getUnpaidLeaderboardPrizes(limit: number): Promise<WeeklyLeaderboard[]>;
+  getStaleLeaderboardPayouts(claimedBefore: Date, limit: number): Promise<WeeklyLeaderboard[]>;
+  claimLeaderboardPayout(id: string): Promise<WeeklyLeaderboard | undefined>;
+  completeLeaderboardPayout(id: string, transactionId: string): Promise<WeeklyLeaderboard | undefined>;
+  cancelLeaderboardPayout(id: string, error: string | null): Promise<WeeklyLeaderboard | undefined>;
+  findLeaderboardPayoutTransaction(id: string): Promise<string | undefined>;
+
+  // Competition operations
+  createCompetition(competition: InsertCompetition, teams: CompetitionTeamInput[]): Promise<Competition>;
+  getCompetition(id: string): Promise<Competition | undefined>;
+  getCompetitions(limit: number): Promise<Competition[]>;
+  getOpenCompetitions(): Promise<Competition[]>;
+  getCompetitionsSince(endedAfter: Date): Promise<Competition[]>;
+  getEndedOpenCompetitions(now: Date, limit: number): Promise<Competition[]>;
+  getCompetitionTeams(competitionId: string): Promise<(CompetitionTeam & { memberIds: string[] })[]>;
+  getCompetitionScores(metric: CompetitionMetric, startsAt: Date, endsAt: Date, userIds: string[] | null): Promise<CompetitionScore[]>;
+  closeCompetition(id: string, closedBy: string | null, results: NewCompetitionResult[]): Promise<{ competition: Competition; results: CompetitionResult[] }>;
+  cancelCompetition(id: string, cancelledBy: string): Promise<Competition | undefined>;
+  getCompetitionResults(competitionId: string): Promise<CompetitionResult[]>;
+  getUnpaidCompetitionPrizes(limit: number): Promise<CompetitionResult[]>;
+  getStaleCompetitionPayouts(claimedBefore: Date, limit: number): Promise<CompetitionResult[]>;
+  claimCompetitionPayout(id: string): Promise<CompetitionResult | undefined>;
+  completeCompetitionPayout(id: string, transactionId: string): Promise<CompetitionResult | undefined>;
+  cancelCompetitionPayout(id: string, error: string | null): Promise<CompetitionResult | undefined>;
+  findCompetitionPayoutTransaction(id: string): Promise<string | undefined>;
+
+  // Mining boost operations
+  getMiningBoostActivity(userId: string, since: Date): Promise<MiningBoostActivity>;
+  getMiningBoosts(userId: string): Promise<MiningBoost[]>;
+  replaceMiningBoosts(userId: string, boosts: EarnedMiningBoost[]): Promise<MiningBoost[]>;
+
+  // Peer transfer operations
+  getUserByUsernameOrReferralCode(identifier: string): Promise<User | undefined>;
+  recordPeerTransfer(transfer: NewPeerTransfer, limits: PeerTransferLimits): Promise<PeerTransfer>;
+  getPeerTransfers(userId: string, limit: number): Promise<PeerTransfer[]>;
+  getPeerTransferUsage(senderId: string, dayStart: Date): Promise<{ sentTodayTokens: number; sentTodayCount: number }>;
+  createFraudLog(log: InsertFraudLog): Promise<FraudLog>;
   
   // Faucet operations
   getFaucetConfig(currency?: string): Promise<FaucetConfig[]>;
@@ -120,9 +883,6 @@ export interface IStorage {
   createReward(reward: InsertReward): Promise<Reward>;
   getEmployeeAchievements(userId: string, limit?: number): Promise<(EmployeeAchievement & { achievementType: AchievementType })[]>;
   getUserAchievement(userId: string, achievementTypeId: string): Promise<EmployeeAchievement | undefined>;
-  createEmployeeAchievement(achievement: InsertEmployeeAchievement): Promise<EmployeeAchievement>;
-  getAchievementByKey(key: string): Promise<AchievementType | undefined>;
-  getWeeklyLeaderboard(limit?: number): Promise<WeeklyLeaderboard[]>;
   getWeeklyRank(userId: string): Promise<{ rank: number; totalEmployees: number; weeklyPoints: number } | null>;
   getWalletAccount(userId: string): Promise<WalletAccount | undefined>;
   createWalletAccount(wallet: InsertWalletAccount): Promise<WalletAccount>;
@@ -137,9 +897,16 @@ export interface IStorage {
   getUserWalletById(walletId: string): Promise<UserWallet | undefined>;
   getUserWalletsWithCurrency(userId: string): Promise<(UserWallet & { currency: SupportedCurrency })[]>;
   createUserWallet(wallet: InsertUserWallet): Promise<UserWallet>;
-  updateUserWalletBalance(walletId: string, newBalance: string): Promise<void>;
+  updateUserWallet(id: string, changes: UserWalletChanges): Promise<UserWallet | undefined>;
+  getActiveUserWalletsByCurrency(currencyId: string): Promise<UserWallet[]>;
   createWalletTransaction(transaction: InsertWalletTransaction): Promise<WalletTransaction>;
   getWalletTransactions(walletId: string, limit?: number): Promise<WalletTransaction[]>;
+  updateWalletTransaction(id: string, changes: WalletTransactionChanges): Promise<WalletTransaction | undefined>;
+  recordPendingDeposit(deposit: NewPendingDeposit): Promise<WalletTransaction | undefined>;
+  getPendingDeposits(userWalletId?: string, limit?: number): Promise<WalletTransaction[]>;
+  creditPendingDeposit(transactionId: string, entry: NewLedgerEntry, changes: WalletTransactionChanges): Promise<WalletTransaction | undefined>;
+  recordDepositSweep(sweep: NewDepositSweep): Promise<WalletTransaction>;
+  getPendingDepositSweeps(limit?: number): Promise<WalletTransaction[]>;
   
   // Treasury wallet operations
   getTreasuryWallets(roleScope?: string): Promise<(TreasuryWallet & { currency: SupportedCurrency })[]>;
@@ -147,9 +914,12 @@ export interface IStorage {
   updateTreasuryWalletBalance(walletId: string, newBalance: string): Promise<void>;
   
   // Price history operations
-  addPricePoint(priceUsd: string, source: string, marketData?: any): Promise<void>;
+  addPricePoint(priceUsd: string, source: string, marketData?: any): Promise<PriceHistory>;
   getPriceHistory(hours?: number): Promise<Array<{ timestamp: Date; price: number; source: string }>>;
   cleanOldPriceData(daysToKeep: number): Promise<void>;
+  getActivePriceOverride(now?: Date): Promise<PriceOracleOverride | undefined>;
+  createPriceOverride(override: { priceUsd: string; reason: string; setBy: string; expiresAt: Date }): Promise<PriceOracleOverride>;
+  clearPriceOverrides(clearedBy: string): Promise<PriceOracleOverride[]>;
   
   // Review operations
   createReview(review: InsertReview): Promise<Review>;
@@ -208,11 +978,31 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createLead(insertLead: InsertLead): Promise<Lead> {
-    const [lead] = await db
-      .insert(leads)
-      .values(insertLead)
-      .returning();
-    return lead;
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx
+        .insert(leads)
+        .values(insertLead)
+        .returning();
+
+      // Leads without a creator come from the public quote form
+      let changedByRole: LeadStatusActor = 'customer';
+      if (insertLead.createdByUserId) {
+        const [creator] = await tx.select({ role: users.role }).from(users).where(eq(users.id, insertLead.createdByUserId));
+        changedByRole = getLeadStatusActor(creator?.role) || 'system';
+      }
+
+      // Seed the timeline with the initial status
+      await tx.insert(leadStatusHistory).values({
+        leadId: lead.id,
+        fromStatus: null,
+        toStatus: lead.status,
+        changedByUserId: insertLead.createdByUserId || null,
+        changedByRole,
+        reason: 'Lead created',
+      });
+
+      return lead;
+    });
   }
 
   async getLeads(): Promise<Lead[]> {
@@ -227,11 +1017,64 @@ export class DatabaseStorage implements IStorage {
     return lead || undefined;
   }
 
+  async getLeadsByIds(ids: string[]): Promise<Lead[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(leads).where(inArray(leads.id, ids));
+  }
+
   async deleteLead(id: string): Promise<boolean> {
+    await db.delete(leadStatusHistory).where(eq(leadStatusHistory.leadId, id));
+    await db.delete(quoteVersions).where(eq(quoteVersions.leadId, id));
+    await db.delete(invoicePayments).where(eq(invoicePayments.leadId, id));
+    await db.delete(invoices).where(eq(invoices.leadId, id));
+    await db.delete(timeEntries).where(eq(timeEntries.leadId, id));
+    await db.delete(jobStops).where(eq(jobStops.leadId, id));
     const result = await db.delete(leads).where(eq(leads.id, id));
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  async getJobStops(leadId: string): Promise<JobStop[]> {
+    return await db.select().from(jobStops).where(eq(jobStops.leadId, leadId)).orderBy(jobStops.position);
+  }
+
+  async getJobStopsForLeads(leadIds: string[]): Promise<JobStop[]> {
+    if (leadIds.length === 0) return [];
+    return await db.select().from(jobStops).where(inArray(jobStops.leadId, leadIds)).orderBy(jobStops.leadId, jobStops.position);
+  }
+
+  // Replaces the job's stops in order. The first pickup and last drop-off become the confirmed addresses,
+  // so screens that only show from/to stay in step with the route. distanceMiles is the route total for quoting, kept when null
+  async replaceJobStops(leadId: string, stops: JobStopInput[], distanceMiles: number | null): Promise<JobStop[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx.select().from(leads).where(eq(leads.id, leadId)).for('update');
+      if (!lead) return undefined;
+
+      await tx.delete(jobStops).where(eq(jobStops.leadId, leadId));
+      const saved = await tx
+        .insert(jobStops)
+        .values(stops.map((stop, position) => ({
+          leadId,
+          position,
+          stopType: stop.stopType,
+          address: stop.address,
+          notes: stop.notes || null,
+        })))
+        .returning();
+
+      const lastDropoff = [...stops].reverse().find((stop) => stop.stopType === 'dropoff');
+      await tx
+        .update(leads)
+        .set({
+          confirmedFromAddress: stops[0].address,
+          confirmedToAddress: lastDropoff ? lastDropoff.address : lead.confirmedToAddress,
+          distanceMiles: distanceMiles !== null ? distanceMiles.toFixed(2) : lead.distanceMiles,
+        })
+        .where(eq(leads.id, leadId));
+
+      return saved.sort((a, b) => a.position - b.position);
+    });
+  }
+
   async getLeadsByEmail(email: string): Promise<Lead[]> {
     return await db
       .select()
@@ -248,29 +1091,101 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(leads.lastQuoteUpdatedAt), desc(leads.createdAt));
   }
 
-  async updateLeadStatus(id: string, status: string): Promise<Lead | undefined> {
-    let updateData: any = { status };
-    
-    // Coordinate status with assignment state to maintain consistency
-    if (status === 'available') {
-      // If setting to available, clear any existing assignment
-      updateData.assignedToUserId = null;
-    } else if (status === 'accepted') {
-      // Don't allow manual setting to accepted without assignment - this should only be done via job acceptance
-      const [currentLead] = await db.select().from(leads).where(eq(leads.id, id));
-      if (!currentLead?.assignedToUserId) {
-        throw new Error("Cannot set status to 'accepted' without an assigned employee. Use the job acceptance workflow instead.");
+  async updateLeadStatus(id: string, status: string, change: LeadStatusChange = {}): Promise<LeadStatusUpdate | undefined> {
+    const actor = change.actor || 'system';
+
+    return await db.transaction(async (tx) => {
+      // Lock the lead so concurrent transitions are validated against the latest status
+      const [currentLead] = await tx
+        .select()
+        .from(leads)
+        .where(eq(leads.id, id))
+        .for('update');
+      if (!currentLead) {
+        return undefined;
       }
-    }
-    
+
+      if (currentLead.status === status) {
+        if (!change.fields || Object.keys(change.fields).length === 0) {
+          return { lead: currentLead, changed: false };
+        }
+        const [lead] = await tx.update(leads).set(change.fields).where(eq(leads.id, id)).returning();
+        return lead ? { lead, changed: false } : undefined;
+      }
+
+      // Legacy rows may carry statuses outside the lifecycle - only managers/system can move them back onto it
+      const isKnownStatus = isLeadStatus(currentLead.status);
+      const isAllowed = isKnownStatus
+        ? canTransitionLeadStatus(currentLead.status, status, actor)
+        : isLeadStatus(status) && (actor === 'manager' || actor === 'system');
+      if (!isAllowed) {
+        throw new LeadStatusTransitionError(currentLead.status, status);
+      }
+
+      let updateData: any = { ...change.fields, status };
+
+      // Coordinate status with assignment state to maintain consistency
+      if (status === 'available') {
+        // If setting to available, clear any existing assignment
+        updateData.assignedToUserId = null;
+      } else if (status === 'accepted') {
+        // Don't allow manual setting to accepted without assignment - this should only be done via job acceptance
+        if (!currentLead.assignedToUserId) {
+          throw new LeadStatusTransitionError(currentLead.status, status, "Cannot set status to 'accepted' without an assigned employee. Use the job acceptance workflow instead.");
+        }
+      }
+
+      const [lead] = await tx
+        .update(leads)
+        .set(updateData)
+        .where(eq(leads.id, id))
+        .returning();
+
+      await tx.insert(leadStatusHistory).values({
+        leadId: id,
+        fromStatus: currentLead.status,
+        toStatus: status,
+        changedByUserId: change.changedByUserId || null,
+        changedByRole: actor,
+        reason: change.reason || null,
+        metadata: change.metadata,
+      });
+
+      return lead ? { lead, changed: true } : undefined;
+    });
+  }
+
+  // Sets completionRewardedAt only if it is still empty, so exactly one caller gets the lead back and pays the crew
+  async claimLeadCompletionReward(id: string): Promise<Lead | undefined> {
     const [lead] = await db
       .update(leads)
-      .set(updateData)
-      .where(eq(leads.id, id))
+      .set({ completionRewardedAt: new Date() })
+      .where(and(eq(leads.id, id), isNull(leads.completionRewardedAt)))
       .returning();
     return lead || undefined;
   }
 
+  async getLeadStatusHistory(leadId: string): Promise<(LeadStatusHistory & { changedByName: string | null })[]> {
+    const results = await db
+      .select({
+        history: leadStatusHistory,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(leadStatusHistory)
+      .leftJoin(users, eq(leadStatusHistory.changedByUserId, users.id))
+      .where(eq(leadStatusHistory.leadId, leadId))
+      .orderBy(leadStatusHistory.createdAt);
+
+    return results.map(({ history, firstName, lastName, email }) => ({
+      ...history,
+      changedByName: firstName || lastName
+        ? `${firstName || ''} ${lastName || ''}`.trim()
+        : email || null,
+    }));
+  }
+
   async updateLeadQuote(id: string, quoteData: any): Promise<Lead | undefined> {
     const [lead] = await db
       .update(leads)
@@ -280,58 +1195,419 @@ export class DatabaseStorage implements IStorage {
     return lead || undefined;
   }
 
-  // User role management
-  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
-    const [user] = await db
-      .update(users)
-      .set({ role, updatedAt: new Date() })
-      .where(eq(users.id, userId))
-      .returning();
-    return user || undefined;
+  async getActivePricingRateCard(): Promise<PricingRateCard | undefined> {
+    const [rateCard] = await db
+      .select()
+      .from(pricingRateCards)
+      .where(eq(pricingRateCards.isActive, true))
+      .orderBy(desc(pricingRateCards.createdAt))
+      .limit(1);
+    return rateCard || undefined;
   }
 
-  async getEmployees(): Promise<User[]> {
+  async getPricingRateCards(): Promise<PricingRateCard[]> {
     return await db
       .select()
-      .from(users)
-      .where(eq(users.role, 'employee'))
-      .orderBy(users.firstName, users.lastName);
+      .from(pricingRateCards)
+      .orderBy(desc(pricingRateCards.createdAt));
   }
 
-  async getAllUsers(): Promise<User[]> {
+  // Saving a rate card activates it and keeps the previous cards as history
+  async savePricingRateCard(name: string, rates: any, updatedByUserId: string): Promise<PricingRateCard> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(pricingRateCards)
+        .set({ isActive: false })
+        .where(eq(pricingRateCards.isActive, true));
+
+      const [rateCard] = await tx
+        .insert(pricingRateCards)
+        .values({ name, rates, isActive: true, updatedByUserId })
+        .returning();
+      return rateCard;
+    });
+  }
+
+  // A new version supersedes any quote the customer hasn't answered yet
+  async createQuoteVersion(version: NewQuoteVersion): Promise<QuoteVersion> {
+    return await db.transaction(async (tx) => {
+      // Lock the lead so concurrent sends get sequential version numbers
+      await tx.select({ id: leads.id }).from(leads).where(eq(leads.id, version.leadId)).for('update');
+
+      await tx
+        .update(quoteVersions)
+        .set({ status: 'superseded' })
+        .where(and(
+          eq(quoteVersions.leadId, version.leadId),
+          inArray(quoteVersions.status, ['sent', 'viewed'])
+        ));
+
+      const [latest] = await tx
+        .select({ maxVersion: sql<number>`COALESCE(MAX(${quoteVersions.versionNumber}), 0)` })
+        .from(quoteVersions)
+        .where(eq(quoteVersions.leadId, version.leadId));
+
+      const [created] = await tx
+        .insert(quoteVersions)
+        .values({ ...version, versionNumber: Number(latest?.maxVersion || 0) + 1, status: 'sent' })
+        .returning();
+      return created;
+    });
+  }
+
+  async getQuoteVersions(leadId: string): Promise<QuoteVersion[]> {
     return await db
       .select()
-      .from(users)
-      .orderBy(desc(users.createdAt));
+      .from(quoteVersions)
+      .where(eq(quoteVersions.leadId, leadId))
+      .orderBy(desc(quoteVersions.versionNumber));
   }
 
-  async deleteUser(userId: string): Promise<boolean> {
-    try {
-      // Cascade delete all related records first to avoid foreign key constraint violations
-      console.log(`🗑️ Starting cascade delete for user ${userId}...`);
-      
-      // Get user's mining session IDs first (for deleting mining claims)
-      const miningSess = await db.select({ id: miningSessions.id })
-        .from(miningSessions)
-        .where(eq(miningSessions.userId, userId));
-      const miningSessionIds = miningSess.map(s => s.id);
-      
-      // Delete mining claims for user's sessions
-      if (miningSessionIds.length > 0) {
-        await db.delete(miningClaims).where(
-          inArray(miningClaims.sessionId, miningSessionIds)
-        );
-        console.log(`  ✓ Deleted mining claims for user ${userId}`);
+  async getQuoteVersionByTokenHash(accessTokenHash: string): Promise<QuoteVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(quoteVersions)
+      .where(eq(quoteVersions.accessTokenHash, accessTokenHash));
+    return version || undefined;
+  }
+
+  async markQuoteVersionViewed(id: string): Promise<QuoteVersion | undefined> {
+    const [version] = await db
+      .update(quoteVersions)
+      .set({ status: 'viewed', viewedAt: new Date() })
+      .where(and(eq(quoteVersions.id, id), eq(quoteVersions.status, 'sent')))
+      .returning();
+    return version || undefined;
+  }
+
+  // Returns undefined if the quote was already answered, superseded or has expired
+  async respondToQuoteVersion(id: string, response: QuoteResponse): Promise<QuoteVersion | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(quoteVersions)
+        .where(eq(quoteVersions.id, id))
+        .for('update');
+
+      if (!current || !['sent', 'viewed'].includes(current.status) || current.expiresAt < new Date()) {
+        return undefined;
       }
-      
-      // Delete mining sessions
-      await db.delete(miningSessions).where(eq(miningSessions.userId, userId));
-      console.log(`  ✓ Deleted mining sessions for user ${userId}`);
-      
-      // Get user's wallet IDs first (for deleting wallet transactions)
-      const userWalletList = await db.select({ id: userWallets.id })
-        .from(userWallets)
-        .where(eq(userWallets.userId, userId));
+
+      const now = new Date();
+      const [updated] = await tx
+        .update(quoteVersions)
+        .set({
+          status: response.status,
+          respondedAt: now,
+          viewedAt: current.viewedAt || now,
+          signatureName: response.signatureName || null,
+          termsAcceptedAt: response.status === 'accepted' ? now : null,
+          declineReason: response.declineReason || null,
+          responseIp: response.responseIp || null,
+          responseUserAgent: response.responseUserAgent || null,
+        })
+        .where(eq(quoteVersions.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Generating is idempotent: a job only ever gets one invoice. Deposits taken earlier are applied to it
+  async createInvoice(invoice: NewInvoice): Promise<Invoice> {
+    return await db.transaction(async (tx) => {
+      // Lock the lead so concurrent completions and payments see the same invoice
+      await tx.select({ id: leads.id }).from(leads).where(eq(leads.id, invoice.leadId)).for('update');
+
+      const [existing] = await tx.select().from(invoices).where(eq(invoices.leadId, invoice.leadId));
+      if (existing) {
+        return existing;
+      }
+
+      const deposits = await tx
+        .select()
+        .from(invoicePayments)
+        .where(and(eq(invoicePayments.leadId, invoice.leadId), isNull(invoicePayments.invoiceId)));
+      const depositTotal = deposits.reduce((sum, deposit) => sum + parseFloat(deposit.amount), 0);
+      const totals = calculateInvoiceTotals(invoice.lineItems, invoice.taxRate, depositTotal);
+
+      const [created] = await tx
+        .insert(invoices)
+        .values({
+          leadId: invoice.leadId,
+          customerName: invoice.customerName,
+          customerEmail: invoice.customerEmail,
+          billingAddress: invoice.billingAddress,
+          lineItems: invoice.lineItems,
+          taxRate: invoice.taxRate.toFixed(4),
+          dueDate: invoice.dueDate,
+          createdByUserId: invoice.createdByUserId || null,
+          ...invoiceTotalsToColumns(totals),
+          paidAt: totals.balanceDue <= 0 ? new Date() : null,
+        })
+        .returning();
+
+      if (deposits.length > 0) {
+        await tx
+          .update(invoicePayments)
+          .set({ invoiceId: created.id })
+          .where(and(eq(invoicePayments.leadId, invoice.leadId), isNull(invoicePayments.invoiceId)));
+      }
+
+      return created;
+    });
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice || undefined;
+  }
+
+  async getInvoiceByLeadId(leadId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.leadId, leadId));
+    return invoice || undefined;
+  }
+
+  async getOutstandingInvoices(): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(inArray(invoices.status, ['open', 'partially_paid']))
+      .orderBy(invoices.dueDate);
+  }
+
+  // Replaces the line items and recalculates totals against what has already been paid
+  async updateInvoiceLineItems(id: string, lineItems: InvoiceLineItem[]): Promise<Invoice> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(invoices).where(eq(invoices.id, id)).for('update');
+      if (!current) {
+        throw new InvoiceError('not_found', "Invoice not found");
+      }
+      if (current.status === 'void') {
+        throw new InvoiceError('void', "Void invoices can't be changed");
+      }
+
+      const totals = calculateInvoiceTotals(lineItems, parseFloat(current.taxRate), parseFloat(current.amountPaid));
+      if (totals.balanceDue < 0) {
+        throw new InvoiceError('overpayment', `The new total ($${totals.total.toFixed(2)}) is less than the $${totals.amountPaid.toFixed(2)} already paid`);
+      }
+
+      const [updated] = await tx
+        .update(invoices)
+        .set({
+          lineItems,
+          ...invoiceTotalsToColumns(totals),
+          paidAt: totals.balanceDue <= 0 ? current.paidAt || new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async voidInvoice(id: string, reason: string | null): Promise<Invoice> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(invoices).where(eq(invoices.id, id)).for('update');
+      if (!current) {
+        throw new InvoiceError('not_found', "Invoice not found");
+      }
+      if (parseFloat(current.amountPaid) > 0) {
+        throw new InvoiceError('has_payments', "Invoices with recorded payments can't be voided");
+      }
+
+      const [updated] = await tx
+        .update(invoices)
+        .set({
+          status: 'void',
+          voidedAt: new Date(),
+          balanceDue: "0.00",
+          notes: reason ? [current.notes, `Voided: ${reason}`].filter(Boolean).join("\n") : current.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Payments before the invoice exists are recorded as deposits and applied when it is generated
+  async recordInvoicePayment(payment: NewInvoicePayment): Promise<{ payment: InvoicePayment; invoice: Invoice | undefined }> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: leads.id }).from(leads).where(eq(leads.id, payment.leadId)).for('update');
+
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.leadId, payment.leadId)).for('update');
+      if (invoice?.status === 'void') {
+        throw new InvoiceError('void', "Payments can't be recorded against a void invoice");
+      }
+      if (invoice && payment.amount > parseFloat(invoice.balanceDue) + 0.001) {
+        throw new InvoiceError('overpayment', `Payment exceeds the $${parseFloat(invoice.balanceDue).toFixed(2)} balance due`);
+      }
+
+      const [created] = await tx
+        .insert(invoicePayments)
+        .values({
+          leadId: payment.leadId,
+          invoiceId: invoice?.id || null,
+          amount: payment.amount.toFixed(2),
+          method: payment.method,
+          isDeposit: !invoice,
+          reference: payment.reference || null,
+          tokenAmount: payment.tokenPayment ? payment.tokenPayment.tokenAmount.toFixed(8) : null,
+          tokenPriceUsd: payment.tokenPayment ? payment.tokenPayment.tokenPriceUsd.toFixed(8) : null,
+          payerUserId: payment.tokenPayment?.payerUserId || null,
+          receivedByUserId: payment.receivedByUserId,
+          notes: payment.notes || null,
+          receivedAt: payment.receivedAt || new Date(),
+        })
+        .returning();
+
+      // JCMOVES payments move tokens from the customer's wallet back into the treasury reserve
+      if (payment.tokenPayment) {
+        const { payerUserId, tokenAmount } = payment.tokenPayment;
+        const [wallet] = await tx
+          .select()
+          .from(walletAccounts)
+          .where(eq(walletAccounts.userId, payerUserId));
+        if (!wallet) {
+          throw new InvoiceError('no_wallet', "The customer doesn't have a JCMOVES wallet");
+        }
+        const tokenBalance = parseFloat(wallet.tokenBalance || "0");
+        if (tokenBalance < tokenAmount) {
+          throw new InvoiceError('insufficient_tokens', `The customer's wallet has ${tokenBalance.toFixed(2)} JCMOVES but ${tokenAmount.toFixed(2)} are needed`);
+        }
+
+        await tx
+          .update(walletAccounts)
+          .set({
+            totalRedeemed: (parseFloat(wallet.totalRedeemed || "0") + tokenAmount).toFixed(8),
+            lastActivity: new Date(),
+          })
+          .where(eq(walletAccounts.id, wallet.id));
+
+        const [treasuryAccount] = await tx
+          .select()
+          .from(treasuryAccounts)
+          .where(eq(treasuryAccounts.isActive, true))
+          .orderBy(treasuryAccounts.createdAt)
+          .limit(1)
+          .for('update');
+        if (!treasuryAccount) {
+          throw new Error("No active treasury account found");
+        }
+
+        const reserveAccount: LedgerAccountRef = { type: 'treasury_reserve', ownerId: treasuryAccount.id };
+        const posted = await postLedgerEntry(tx, {
+          entryType: 'payment',
+          description: `Customer paid $${payment.amount.toFixed(2)} in JCMOVES for job ${payment.leadId}`,
+          relatedEntityType: 'invoice_payment',
+          relatedEntityId: created.id,
+          createdBy: payment.receivedByUserId,
+          postings: [
+            { account: userRewardsAccount(payerUserId), amount: -tokenAmount },
+            { account: reserveAccount, amount: tokenAmount },
+          ],
+        });
+        const newReserve = parseFloat(posted.balances[getLedgerAccountKey(reserveAccount)]);
+
+        await tx.insert(reserveTransactions).values({
+          treasuryAccountId: treasuryAccount.id,
+          transactionType: 'deposit',
+          relatedEntityType: 'invoice_payment',
+          relatedEntityId: created.id,
+          tokenAmount: tokenAmount.toFixed(8),
+          cashValue: payment.amount.toFixed(2),
+          balanceAfter: treasuryAccount.availableFunding,
+          tokenReserveAfter: newReserve.toFixed(8),
+          description: `Customer paid $${payment.amount.toFixed(2)} in JCMOVES for job ${payment.leadId}`,
+        });
+      }
+
+      if (!invoice) {
+        return { payment: created, invoice: undefined };
+      }
+
+      const totals = calculateInvoiceTotals(
+        invoice.lineItems as InvoiceLineItem[],
+        parseFloat(invoice.taxRate),
+        parseFloat(invoice.amountPaid) + payment.amount,
+      );
+      const [updated] = await tx
+        .update(invoices)
+        .set({
+          ...invoiceTotalsToColumns(totals),
+          paidAt: totals.balanceDue <= 0 ? new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, invoice.id))
+        .returning();
+      return { payment: created, invoice: updated };
+    });
+  }
+
+  async getInvoicePayments(leadId: string): Promise<InvoicePayment[]> {
+    return await db
+      .select()
+      .from(invoicePayments)
+      .where(eq(invoicePayments.leadId, leadId))
+      .orderBy(desc(invoicePayments.receivedAt));
+  }
+
+  // User role management
+  async updateUserRole(userId: string, role: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  async getEmployees(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(eq(users.role, 'employee'))
+      .orderBy(users.firstName, users.lastName);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .orderBy(desc(users.createdAt));
+  }
+
+  async deleteUser(userId: string): Promise<boolean> {
+    try {
+      // Cascade delete all related records first to avoid foreign key constraint violations
+      console.log(`🗑️ Starting cascade delete for user ${userId}...`);
+      
+      // Get user's mining session IDs first (for deleting mining claims)
+      const miningSess = await db.select({ id: miningSessions.id })
+        .from(miningSessions)
+        .where(eq(miningSessions.userId, userId));
+      const miningSessionIds = miningSess.map(s => s.id);
+      
+      // Delete mining claims for user's sessions
+      if (miningSessionIds.length > 0) {
+        await db.delete(miningClaims).where(
+          inArray(miningClaims.sessionId, miningSessionIds)
+        );
+        console.log(`  ✓ Deleted mining claims for user ${userId}`);
+      }
+      
+      // Delete mining sessions
+      await db.delete(miningSessions).where(eq(miningSessions.userId, userId));
+      console.log(`  ✓ Deleted mining sessions for user ${userId}`);
+
+      // Delete mining boosts
+      await db.delete(miningBoosts).where(eq(miningBoosts.userId, userId));
+      console.log(`  ✓ Deleted mining boosts for user ${userId}`);
+      
+      // Get user's wallet IDs first (for deleting wallet transactions)
+      const userWalletList = await db.select({ id: userWallets.id })
+        .from(userWallets)
+        .where(eq(userWallets.userId, userId));
       const userWalletIds = userWalletList.map(w => w.id);
       
       // Delete wallet transactions for user's wallets
@@ -382,6 +1658,14 @@ export class DatabaseStorage implements IStorage {
       await db.delete(rewards).where(eq(rewards.userId, userId));
       console.log(`  ✓ Deleted rewards for user ${userId}`);
       
+      // Delete peer transfers sent or received (the ledger keeps the entries)
+      await db.delete(peerTransfers).where(or(eq(peerTransfers.senderId, userId), eq(peerTransfers.recipientId, userId)));
+      console.log(`  ✓ Deleted peer transfers for user ${userId}`);
+      
+      // Delete token grants (unvested tokens never left the reserve)
+      await db.delete(tokenGrants).where(eq(tokenGrants.userId, userId));
+      console.log(`  ✓ Deleted token grants for user ${userId}`);
+      
       // Delete wallet account (legacy JCMOVES wallet)
       await db.delete(walletAccounts).where(eq(walletAccounts.userId, userId));
       console.log(`  ✓ Deleted wallet account for user ${userId}`);
@@ -402,6 +1686,20 @@ export class DatabaseStorage implements IStorage {
       await db.delete(pointTransactions).where(eq(pointTransactions.userId, userId));
       console.log(`  ✓ Deleted point transactions for user ${userId}`);
       
+      // Delete weekly leaderboard entries, and keep closed weeks without who closed them
+      await db.delete(weeklyLeaderboards).where(eq(weeklyLeaderboards.userId, userId));
+      await db.update(leaderboardWeekCloses).set({ closedBy: null }).where(eq(leaderboardWeekCloses.closedBy, userId));
+      await db.update(gamificationConfigChanges).set({ changedBy: null }).where(eq(gamificationConfigChanges.changedBy, userId));
+      console.log(`  ✓ Deleted weekly leaderboard entries for user ${userId}`);
+      
+      // Delete competition results and team places, and keep competitions without who created or closed them
+      await db.delete(competitionResults).where(eq(competitionResults.userId, userId));
+      await db.delete(competitionTeamMembers).where(eq(competitionTeamMembers.userId, userId));
+      await db.update(competitions).set({ createdBy: null }).where(eq(competitions.createdBy, userId));
+      await db.update(competitions).set({ closedBy: null }).where(eq(competitions.closedBy, userId));
+      await db.update(competitions).set({ cancelledBy: null }).where(eq(competitions.cancelledBy, userId));
+      console.log(`  ✓ Deleted competition entries for user ${userId}`);
+      
       // Unassign user from leads (set assignedToUserId to null)
       await db.update(leads).set({ assignedToUserId: null }).where(eq(leads.assignedToUserId, userId));
       console.log(`  ✓ Unassigned leads for user ${userId}`);
@@ -459,6 +1757,18 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async updateUserCrewProfile(userId: string, profile: { homeBaseAddress?: string | null; crewSkills?: string[] }): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        ...profile,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
   async updateUsername(userId: string, username: string): Promise<User | undefined> {
     try {
       const [user] = await db
@@ -782,37 +2092,28 @@ export class DatabaseStorage implements IStorage {
       // Import here to avoid circular dependency
       const { treasuryService } = await import('./services/treasury');
       const { rewardsService } = await import('./services/rewards');
+      const { priceOracle } = await import('./services/price-oracle');
 
-      // Calculate referral reward
-      const rewardCalc = await rewardsService.calculateReferralReward();
+      // Calculate referral reward at the price it's paid out at
+      const price = await priceOracle.recordPrice('reward', { relatedEntityType: 'referral_bonus', relatedEntityId: newUserId });
+      const rewardCalc = await rewardsService.calculateReferralReward(price);
 
       // Distribute tokens from treasury
       const distribution = await treasuryService.distributeTokens(
         rewardCalc.tokenAmount,
         `Referral bonus for referring user ${newUserId}`,
         'referral_bonus',
-        newUserId
+        newUserId,
+        userRewardsAccount(referrerId),
+        price
       );
 
       if (!distribution.success) {
         return { success: false, error: distribution.error };
       }
 
-      // Update wallet and create reward record
+      // Create reward record and count the referral (the distribution already credited the referrer's wallet)
       await db.transaction(async (tx) => {
-        // Get current wallet state first
-        const [currentWallet] = await tx.select().from(walletAccounts).where(eq(walletAccounts.userId, referrerId));
-        
-        // Update referrer's wallet
-        await tx
-          .update(walletAccounts)
-          .set({
-            tokenBalance: `${parseFloat(currentWallet.tokenBalance || '0') + rewardCalc.tokenAmount}`,
-            totalEarned: `${parseFloat(currentWallet.totalEarned || '0') + rewardCalc.tokenAmount}`,
-            lastActivity: new Date()
-          })
-          .where(eq(walletAccounts.userId, referrerId));
-
         // Create reward record
         await tx.insert(rewards).values({
           userId: referrerId,
@@ -845,96 +2146,398 @@ export class DatabaseStorage implements IStorage {
 
   // Job assignment operations
   async assignLeadToEmployee(leadId: string, employeeId: string): Promise<Lead | undefined> {
-    // Atomic update - only assign if not already assigned
-    const [lead] = await db
-      .update(leads)
-      .set({ 
-        assignedToUserId: employeeId,
-        status: 'accepted'
-      })
-      .where(and(
-        eq(leads.id, leadId),
-        isNull(leads.assignedToUserId)
-      ))
-      .returning();
-    return lead || undefined;
+    return await db.transaction(async (tx) => {
+      const [currentLead] = await tx.select().from(leads).where(eq(leads.id, leadId)).for('update');
+      if (!currentLead) {
+        return undefined;
+      }
+      if (!canTransitionLeadStatus(currentLead.status, 'accepted', 'employee')) {
+        throw new LeadStatusTransitionError(currentLead.status, 'accepted');
+      }
+
+      // Atomic update - only assign if not already assigned
+      const [lead] = await tx
+        .update(leads)
+        .set({ 
+          assignedToUserId: employeeId,
+          status: 'accepted'
+        })
+        .where(and(
+          eq(leads.id, leadId),
+          isNull(leads.assignedToUserId)
+        ))
+        .returning();
+
+      if (lead) {
+        await tx.insert(leadStatusHistory).values({
+          leadId,
+          fromStatus: currentLead.status,
+          toStatus: 'accepted',
+          changedByUserId: employeeId,
+          changedByRole: 'employee',
+          reason: 'Assigned to employee',
+        });
+      }
+
+      return lead || undefined;
+    });
   }
 
-  async addEmployeeAcceptance(leadId: string, employeeId: string, isCrewFull: boolean): Promise<Lead | undefined> {
-    // Get current lead to append to acceptedByEmployees
-    const currentLead = await this.getLead(leadId);
-    if (!currentLead) return undefined;
+  // Refuses acceptances that overlap another job or approved time off; softer conflicts come back as warnings
+  async addEmployeeAcceptance(leadId: string, employeeId: string, isCrewFull: boolean): Promise<{ lead: Lead; warnings: ScheduleConflict[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the employee so concurrent acceptances of overlapping jobs are checked one at a time
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, employeeId)).for('update');
+      const [currentLead] = await tx.select().from(leads).where(eq(leads.id, leadId)).for('update');
+      if (!currentLead) return undefined;
+
+      // Crew can only sign up while the job is open; a full crew moves it on to accepted
+      if (!canTransitionLeadStatus(currentLead.status, 'accepted', 'employee')) {
+        throw new LeadStatusTransitionError(currentLead.status, 'accepted', "Job is no longer available for acceptance");
+      }
 
-    const acceptedByEmployees = currentLead.acceptedByEmployees || [];
-    const updatedAcceptedBy = [...acceptedByEmployees, employeeId];
+      let warnings: ScheduleConflict[] = [];
+      const window = getLeadScheduleWindow(currentLead);
+      if (window) {
+        const [otherJobs, timeOff, weeklyAvailability] = await Promise.all([
+          this.getEmployeeScheduledLeads(employeeId, leadId, tx),
+          tx.select().from(employeeTimeOff).where(and(
+            eq(employeeTimeOff.userId, employeeId),
+            inArray(employeeTimeOff.status, ['pending', 'approved']),
+            sql`${employeeTimeOff.startDate} < ${window.end}`,
+            sql`${employeeTimeOff.endDate} > ${window.start}`,
+          )),
+          tx.select().from(employeeAvailability).where(eq(employeeAvailability.userId, employeeId)),
+        ]);
+        const conflicts = findScheduleConflicts({ window, otherJobs, timeOff, weeklyAvailability });
+        if (conflicts.some((conflict) => conflict.severity === 'block')) {
+          throw new ScheduleConflictError(conflicts);
+        }
+        warnings = conflicts;
+      }
 
-    // If crew is full, set status to 'accepted' and populate crewMembers
-    const updates: any = {
-      acceptedByEmployees: updatedAcceptedBy,
-    };
+      const acceptedByEmployees = currentLead.acceptedByEmployees || [];
+      const updatedAcceptedBy = [...acceptedByEmployees, employeeId];
 
-    if (isCrewFull) {
-      updates.status = 'accepted';
-      updates.crewMembers = updatedAcceptedBy;
-      updates.assignedToUserId = updatedAcceptedBy[0]; // First employee who accepted
-    }
+      // If crew is full, set status to 'accepted' and populate crewMembers
+      const updates: any = {
+        acceptedByEmployees: updatedAcceptedBy,
+      };
 
-    const [lead] = await db
-      .update(leads)
-      .set(updates)
-      .where(eq(leads.id, leadId))
-      .returning();
-    
-    return lead || undefined;
+      if (isCrewFull) {
+        updates.status = 'accepted';
+        updates.crewMembers = updatedAcceptedBy;
+        updates.assignedToUserId = updatedAcceptedBy[0]; // First employee who accepted
+      }
+
+      const [lead] = await tx
+        .update(leads)
+        .set(updates)
+        .where(eq(leads.id, leadId))
+        .returning();
+
+      if (lead && isCrewFull) {
+        await tx.insert(leadStatusHistory).values({
+          leadId,
+          fromStatus: currentLead.status,
+          toStatus: 'accepted',
+          changedByUserId: employeeId,
+          changedByRole: 'employee',
+          reason: 'Crew filled',
+          metadata: { crewMembers: updatedAcceptedBy },
+        });
+      }
+
+      return lead ? { lead, warnings } : undefined;
+    });
   }
 
-  async getAvailableLeads(): Promise<Lead[]> {
-    return await db
+  // Upcoming/active jobs the employee has accepted, is crewed on or is assigned to
+  async getEmployeeScheduledLeads(employeeId: string, excludeLeadId?: string, executor: any = db): Promise<Lead[]> {
+    const jobs: Lead[] = await executor
       .select()
       .from(leads)
-      .where(isNull(leads.assignedToUserId))
-      .orderBy(desc(leads.createdAt));
+      .where(and(
+        inArray(leads.status, SCHEDULED_LEAD_STATUSES),
+        sql`(${leads.assignedToUserId} = ${employeeId} OR ${employeeId} = ANY(${leads.crewMembers}) OR ${employeeId} = ANY(${leads.acceptedByEmployees}))`,
+      ));
+    return excludeLeadId ? jobs.filter((job) => job.id !== excludeLeadId) : jobs;
   }
 
-  async getAssignedLeads(employeeId: string): Promise<Lead[]> {
+  async getCalendarLeads(): Promise<Lead[]> {
     return await db
       .select()
       .from(leads)
-      .where(eq(leads.assignedToUserId, employeeId))
-      .orderBy(desc(leads.createdAt));
+      .where(inArray(leads.status, [...SCHEDULED_LEAD_STATUSES, 'completed']));
   }
 
-  async addJobPhoto(leadId: string, photoData: any): Promise<Lead | undefined> {
-    // Add photo to lead's photos array using proper JSONB array operations
-    const [lead] = await db
-      .update(leads)
-      .set({
-        photos: sql`COALESCE(photos, '[]'::jsonb) || jsonb_build_array(${JSON.stringify(photoData)}::jsonb)`
-      })
-      .where(eq(leads.id, leadId))
-      .returning();
-    return lead || undefined;
+  async getEmployeeAvailability(userId: string): Promise<EmployeeAvailability[]> {
+    return await db
+      .select()
+      .from(employeeAvailability)
+      .where(eq(employeeAvailability.userId, userId))
+      .orderBy(employeeAvailability.dayOfWeek);
   }
 
-  // Notification operations
-  async createNotification(notification: InsertNotification): Promise<Notification> {
-    const [notif] = await db
-      .insert(notifications)
-      .values(notification)
+  async getAllEmployeeAvailability(): Promise<EmployeeAvailability[]> {
+    return await db.select().from(employeeAvailability);
+  }
+
+  // Replaces the employee's whole week
+  async setEmployeeAvailability(userId: string, days: WeeklyAvailability): Promise<EmployeeAvailability[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(employeeAvailability).where(eq(employeeAvailability.userId, userId));
+      if (days.length === 0) return [];
+      return await tx
+        .insert(employeeAvailability)
+        .values(days.map((day) => ({ ...day, userId, updatedAt: new Date() })))
+        .returning();
+    });
+  }
+
+  async createTimeOffRequest(userId: string, request: { startDate: Date; endDate: Date; reason?: string | null }): Promise<EmployeeTimeOff> {
+    const [timeOff] = await db
+      .insert(employeeTimeOff)
+      .values({ userId, startDate: request.startDate, endDate: request.endDate, reason: request.reason || null })
       .returning();
-    return notif;
+    return timeOff;
   }
 
-  async getUserNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+  async getTimeOffRequests(filter: { userId?: string; status?: string; from?: Date; to?: Date } = {}): Promise<EmployeeTimeOff[]> {
+    const conditions = [];
+    if (filter.userId) conditions.push(eq(employeeTimeOff.userId, filter.userId));
+    if (filter.status) conditions.push(eq(employeeTimeOff.status, filter.status));
+    if (filter.to) conditions.push(sql`${employeeTimeOff.startDate} < ${filter.to}`);
+    if (filter.from) conditions.push(sql`${employeeTimeOff.endDate} > ${filter.from}`);
+
     return await db
       .select()
-      .from(notifications)
-      .where(eq(notifications.userId, userId))
-      .orderBy(desc(notifications.createdAt))
-      .limit(limit);
+      .from(employeeTimeOff)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(employeeTimeOff.startDate);
   }
 
-  async markNotificationAsRead(notificationId: string): Promise<Notification | undefined> {
+  async getTimeOffRequest(id: string): Promise<EmployeeTimeOff | undefined> {
+    const [timeOff] = await db.select().from(employeeTimeOff).where(eq(employeeTimeOff.id, id));
+    return timeOff || undefined;
+  }
+
+  async updateTimeOffStatus(id: string, status: string, reviewedByUserId: string | null): Promise<EmployeeTimeOff | undefined> {
+    const [timeOff] = await db
+      .update(employeeTimeOff)
+      .set({
+        status,
+        reviewedByUserId,
+        reviewedAt: reviewedByUserId ? new Date() : null,
+      })
+      .where(eq(employeeTimeOff.id, id))
+      .returning();
+    return timeOff || undefined;
+  }
+
+  async createTimeEntry(entry: NewTimeEntry): Promise<TimeEntry> {
+    try {
+      const [timeEntry] = await db.insert(timeEntries).values(entry).returning();
+      return timeEntry;
+    } catch (error: any) {
+      // One open entry per employee, enforced by a partial unique index
+      if (error.code === '23505' && error.constraint === 'uq_open_time_entry_per_user') {
+        throw new TimeClockError('already_clocked_in', "You're already clocked in on a job");
+      }
+      throw error;
+    }
+  }
+
+  async getTimeEntry(id: string): Promise<TimeEntry | undefined> {
+    const [timeEntry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return timeEntry || undefined;
+  }
+
+  async getOpenTimeEntry(userId: string): Promise<TimeEntry | undefined> {
+    const [timeEntry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.clockOutAt)));
+    return timeEntry || undefined;
+  }
+
+  async getTimeEntries(filter: { userId?: string; leadId?: string; status?: string; from?: Date; to?: Date } = {}): Promise<TimeEntry[]> {
+    const conditions = [];
+    if (filter.userId) conditions.push(eq(timeEntries.userId, filter.userId));
+    if (filter.leadId) conditions.push(eq(timeEntries.leadId, filter.leadId));
+    if (filter.status) conditions.push(eq(timeEntries.status, filter.status));
+    if (filter.from) conditions.push(gte(timeEntries.clockInAt, filter.from));
+    if (filter.to) conditions.push(sql`${timeEntries.clockInAt} < ${filter.to}`);
+
+    return await db
+      .select()
+      .from(timeEntries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(timeEntries.clockInAt);
+  }
+
+  // Locks the entry so clock out, breaks and admin edits can't overwrite each other. `apply` may throw TimeClockError
+  async updateTimeEntry(id: string, apply: (entry: TimeEntry) => TimeEntryChanges): Promise<TimeEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(timeEntries).where(eq(timeEntries.id, id)).for('update');
+      if (!entry) return undefined;
+
+      const [updated] = await tx
+        .update(timeEntries)
+        .set(apply(entry))
+        .where(eq(timeEntries.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // A claim still in progress from before staleBefore was abandoned (the server stopped mid-request), so it is taken over
+  async claimIdempotencyKey(userId: string, key: string, requestPath: string, staleBefore: Date): Promise<IdempotencyClaim> {
+    try {
+      const [claim] = await db.insert(idempotencyKeys).values({ userId, key, requestPath }).returning();
+      return { claimed: true, id: claim.id };
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'uq_idempotency_key_per_user') {
+        const [takenOver] = await db
+          .update(idempotencyKeys)
+          .set({ createdAt: new Date() })
+          .where(and(
+            eq(idempotencyKeys.userId, userId),
+            eq(idempotencyKeys.key, key),
+            eq(idempotencyKeys.requestPath, requestPath),
+            isNull(idempotencyKeys.statusCode),
+            lt(idempotencyKeys.createdAt, staleBefore),
+          ))
+          .returning();
+        if (takenOver) return { claimed: true, id: takenOver.id };
+
+        const [existing] = await db
+          .select()
+          .from(idempotencyKeys)
+          .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+        if (existing) return { claimed: false, existing };
+      }
+      throw error;
+    }
+  }
+
+  async completeIdempotencyKey(id: string, statusCode: number, responseBody: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ statusCode, responseBody: responseBody ?? null, completedAt: new Date() })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  // Server errors free the key so a retry runs the request again
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  // Keys completed before the replay window, and abandoned claims that were never retried
+  async pruneIdempotencyKeys(before: Date): Promise<number> {
+    const pruned = await db
+      .delete(idempotencyKeys)
+      .where(or(
+        lt(idempotencyKeys.completedAt, before),
+        and(isNull(idempotencyKeys.completedAt), lt(idempotencyKeys.createdAt, before)),
+      ))
+      .returning({ id: idempotencyKeys.id });
+    return pruned.length;
+  }
+
+  async createMediaAsset(asset: NewMediaAsset): Promise<MediaAsset> {
+    const [created] = await db.insert(mediaAssets).values(asset).returning();
+    return created;
+  }
+
+  async getMediaAsset(id: string): Promise<MediaAsset | undefined> {
+    const [asset] = await db.select().from(mediaAssets).where(eq(mediaAssets.id, id));
+    return asset;
+  }
+
+  async getMediaAssets(ids: string[]): Promise<MediaAsset[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(mediaAssets).where(inArray(mediaAssets.id, ids));
+  }
+
+  async getMediaAssetsForOwner(ownerType: string, ownerId: string): Promise<MediaAsset[]> {
+    return await db
+      .select()
+      .from(mediaAssets)
+      .where(and(eq(mediaAssets.ownerType, ownerType), eq(mediaAssets.ownerId, ownerId)))
+      .orderBy(mediaAssets.createdAt);
+  }
+
+  async updateMediaAsset(id: string, changes: MediaAssetChanges): Promise<MediaAsset | undefined> {
+    const [updated] = await db.update(mediaAssets).set(changes).where(eq(mediaAssets.id, id)).returning();
+    return updated;
+  }
+
+  // Only unattached assets (or ones already on this owner) are attached, so media can't be moved between jobs or listings
+  async attachMediaAssets(ids: string[], ownerType: string, ownerId: string): Promise<MediaAsset[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .update(mediaAssets)
+      .set({ ownerType, ownerId })
+      .where(and(
+        inArray(mediaAssets.id, ids),
+        or(isNull(mediaAssets.ownerId), and(eq(mediaAssets.ownerType, ownerType), eq(mediaAssets.ownerId, ownerId))),
+      ))
+      .returning();
+  }
+
+  async deleteMediaAssets(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(mediaAssets).where(inArray(mediaAssets.id, ids));
+  }
+
+  async getAvailableLeads(): Promise<Lead[]> {
+    return await db
+      .select()
+      .from(leads)
+      .where(isNull(leads.assignedToUserId))
+      .orderBy(desc(leads.createdAt));
+  }
+
+  async getAssignedLeads(employeeId: string): Promise<Lead[]> {
+    return await db
+      .select()
+      .from(leads)
+      .where(eq(leads.assignedToUserId, employeeId))
+      .orderBy(desc(leads.createdAt));
+  }
+
+  async addJobPhoto(leadId: string, photoData: any): Promise<Lead | undefined> {
+    // Add photo to lead's photos array using proper JSONB array operations
+    const [lead] = await db
+      .update(leads)
+      .set({
+        photos: sql`COALESCE(photos, '[]'::jsonb) || jsonb_build_array(${JSON.stringify(photoData)}::jsonb)`
+      })
+      .where(eq(leads.id, leadId))
+      .returning();
+    return lead || undefined;
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [notif] = await db
+      .insert(notifications)
+      .values(notification)
+      .returning();
+    return notif;
+  }
+
+  async getUserNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async markNotificationAsRead(notificationId: string): Promise<Notification | undefined> {
     const [notification] = await db
       .update(notifications)
       .set({ read: true })
@@ -1176,7 +2779,8 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async deductFromReserve(tokenAmount: number, description: string, tokenPrice: number, relatedEntityType?: string, relatedEntityId?: string): Promise<ReserveTransaction> {
+  // Tokens go to the recipient's ledger account, or leave custody through the issuance account when there is none
+  async deductFromReserve(tokenAmount: number, description: string, tokenPrice: number, relatedEntityType?: string, relatedEntityId?: string, recipient?: LedgerAccountRef): Promise<ReserveTransaction> {
     // CRITICAL: Universal circuit breaker enforcement - NO distribution can bypass this
     try {
       const volatilityCheck = await cryptoService.checkPriceVolatility();
@@ -1250,154 +2854,2031 @@ export class DatabaseStorage implements IStorage {
         throw new Error(`Distribution would leave balance below minimum threshold ($${minimumBalance}). Remaining would be: $${newBalance.toFixed(2)}`);
       }
 
-      const newTokenReserve = currentTokenReserve - tokenAmount;
+      // Move the tokens in the ledger, which also updates tokenReserve and the recipient's balance
+      const reserveAccount: LedgerAccountRef = { type: 'treasury_reserve', ownerId: treasury.id };
+      const posted = await postLedgerEntry(tx, {
+        entryType: recipient ? 'distribution' : 'withdrawal',
+        description,
+        relatedEntityType,
+        relatedEntityId,
+        postings: [
+          { account: reserveAccount, amount: -tokenAmount },
+          { account: recipient || systemLedgerAccount('issuance'), amount: tokenAmount },
+        ],
+      });
+      const newTokenReserve = parseFloat(posted.balances[getLedgerAccountKey(reserveAccount)]);
+
+      if (recipient?.type === 'user_rewards' && recipient.ownerId) {
+        await tx
+          .update(walletAccounts)
+          .set({ totalEarned: sql`${walletAccounts.totalEarned} + ${tokenAmount.toFixed(8)}` })
+          .where(eq(walletAccounts.userId, recipient.ownerId));
+      }
+
+      // Update treasury account with locked row
+      // Note: availableFunding is kept at historical book value ($0.00), actual balance is calculated as totalFunding - totalDistributed
+      await tx
+        .update(treasuryAccounts)
+        .set({
+          totalDistributed: (parseFloat(treasury.totalDistributed) + cashValue).toFixed(2),
+          updatedAt: new Date()
+        })
+        .where(eq(treasuryAccounts.id, treasury.id));
+
+      // Create reserve transaction record
+      const [transaction] = await tx
+        .insert(reserveTransactions)
+        .values({
+          treasuryAccountId: treasury.id,
+          transactionType: 'distribution',
+          relatedEntityType,
+          relatedEntityId,
+          tokenAmount: tokenAmount.toFixed(8),
+          cashValue: cashValue.toFixed(2),
+          balanceAfter: newBalance.toFixed(2),
+          tokenReserveAfter: newTokenReserve.toFixed(8),
+          description
+        })
+        .returning();
+
+      return transaction;
+    });
+  }
+
+  // Tokens come from outside custody, or from the user wallet given (recorded as a withdrawal on that wallet)
+  async addToReserve(tokenAmount: number, cashValue: number, description: string, fromWallet?: { userWalletId: string; metadata?: any }): Promise<ReserveTransaction> {
+    return await db.transaction(async (tx) => {
+      // Lock and get current treasury state
+      const [treasury] = await tx
+        .select()
+        .from(treasuryAccounts)
+        .where(eq(treasuryAccounts.isActive, true))
+        .orderBy(treasuryAccounts.createdAt)
+        .limit(1)
+        .for('update'); // Row-level lock to prevent race conditions
+
+      if (!treasury) {
+        throw new Error("No active treasury account found");
+      }
+
+      // Calculate new balances (availableFunding is kept at historical book value, actual balance is totalFunding - totalDistributed)
+      const totalFunding = parseFloat(treasury.totalFunding);
+      const totalDistributed = parseFloat(treasury.totalDistributed);
+      const newBalance = (totalFunding + cashValue) - totalDistributed;
+
+      const reserveAccount: LedgerAccountRef = { type: 'treasury_reserve', ownerId: treasury.id };
+      const sourceAccount = fromWallet ? userWalletAccount(fromWallet.userWalletId) : systemLedgerAccount('issuance');
+      const posted = await postLedgerEntry(tx, {
+        entryType: 'funding',
+        description,
+        postings: [
+          { account: sourceAccount, amount: -tokenAmount },
+          { account: reserveAccount, amount: tokenAmount },
+        ],
+      });
+      const newTokenReserve = parseFloat(posted.balances[getLedgerAccountKey(reserveAccount)]);
+
+      if (fromWallet) {
+        await tx.insert(walletTransactions).values({
+          userWalletId: fromWallet.userWalletId,
+          transactionType: 'withdrawal',
+          amount: tokenAmount.toFixed(8),
+          balanceAfter: posted.balances[getLedgerAccountKey(sourceAccount)],
+          status: 'confirmed',
+          confirmations: 1,
+          metadata: { ...fromWallet.metadata, treasuryFunding: true, ledgerEntryId: posted.id },
+        });
+      }
+
+      // Update treasury account with locked row
+      // Note: availableFunding is kept at historical book value, only totalFunding is updated
+      await tx
+        .update(treasuryAccounts)
+        .set({
+          totalFunding: (parseFloat(treasury.totalFunding) + cashValue).toFixed(2),
+          updatedAt: new Date()
+        })
+        .where(eq(treasuryAccounts.id, treasury.id));
+
+      // Create reserve transaction record
+      const [transaction] = await tx
+        .insert(reserveTransactions)
+        .values({
+          treasuryAccountId: treasury.id,
+          transactionType: 'deposit',
+          tokenAmount: tokenAmount.toFixed(8),
+          cashValue: cashValue.toFixed(2),
+          balanceAfter: newBalance.toFixed(2),
+          tokenReserveAfter: newTokenReserve.toFixed(8),
+          description
+        })
+        .returning();
+
+      return transaction;
+    });
+  }
+
+  async atomicDepositFunds(depositedBy: string, usdAmount: number, depositMethod: string = 'manual', notes?: string): Promise<FundingDeposit> {
+    const tokensPurchased = usdAmount / TREASURY_CONFIG.FALLBACK_TOKEN_PRICE;
+    
+    return await db.transaction(async (tx) => {
+      // Lock treasury account for update
+      const [treasury] = await tx
+        .select()
+        .from(treasuryAccounts)
+        .where(eq(treasuryAccounts.isActive, true))
+        .orderBy(treasuryAccounts.createdAt)
+        .limit(1)
+        .for('update');
+
+      if (!treasury) {
+        throw new Error("No active treasury account found");
+      }
+
+      // Create funding deposit record
+      const [deposit] = await tx
+        .insert(fundingDeposits)
+        .values({
+          treasuryAccountId: treasury.id,
+          depositedBy,
+          depositAmount: usdAmount.toFixed(2),
+          tokensPurchased: tokensPurchased.toFixed(8),
+          tokenPrice: TREASURY_CONFIG.FALLBACK_TOKEN_PRICE.toFixed(8),
+          depositMethod,
+          status: 'completed',
+          notes
+        })
+        .returning();
+
+      // Update treasury balances
+      // Calculate actual balance for transaction record (availableFunding is kept at historical book value)
+      const totalFunding = parseFloat(treasury.totalFunding);
+      const totalDistributed = parseFloat(treasury.totalDistributed);
+      const newBalance = (totalFunding + usdAmount) - totalDistributed;
+
+      const reserveAccount: LedgerAccountRef = { type: 'treasury_reserve', ownerId: treasury.id };
+      const posted = await postLedgerEntry(tx, {
+        entryType: 'funding',
+        description: `Funding deposit: $${usdAmount.toFixed(2)} (${tokensPurchased.toFixed(0)} tokens)`,
+        relatedEntityType: 'funding_deposit',
+        relatedEntityId: deposit.id,
+        createdBy: depositedBy,
+        postings: [
+          { account: systemLedgerAccount('issuance'), amount: -tokensPurchased },
+          { account: reserveAccount, amount: tokensPurchased },
+        ],
+      });
+      const newTokenReserve = parseFloat(posted.balances[getLedgerAccountKey(reserveAccount)]);
+
+      await tx
+        .update(treasuryAccounts)
+        .set({
+          totalFunding: (parseFloat(treasury.totalFunding) + usdAmount).toFixed(2),
+          updatedAt: new Date()
+        })
+        .where(eq(treasuryAccounts.id, treasury.id));
+
+      // Create reserve transaction record
+      await tx
+        .insert(reserveTransactions)
+        .values({
+          treasuryAccountId: treasury.id,
+          transactionType: 'deposit',
+          relatedEntityType: 'funding_deposit',
+          relatedEntityId: deposit.id,
+          tokenAmount: tokensPurchased.toFixed(8),
+          cashValue: usdAmount.toFixed(2),
+          balanceAfter: newBalance.toFixed(2),
+          tokenReserveAfter: newTokenReserve.toFixed(8),
+          description: `Funding deposit: $${usdAmount.toFixed(2)} (${tokensPurchased.toFixed(0)} tokens)`
+        });
+
+      return deposit;
+    });
+  }
+
+  // Ledger operations
+  async createLedgerEntry(entry: NewLedgerEntry): Promise<PostedLedgerEntry> {
+    return await db.transaction(async (tx) => postLedgerEntry(tx, entry));
+  }
+
+  async openLedgerAccount(account: LedgerAccountRef): Promise<LedgerAccount> {
+    return await db.transaction(async (tx) => openLedgerAccount(tx, account));
+  }
+
+  // Post the entry and write wallet_transactions rows for the user wallets it touches, in one transaction
+  async recordWalletLedgerEntry(entry: NewLedgerEntry, transactions: NewWalletLedgerTransaction[]): Promise<{ entry: PostedLedgerEntry; transactions: WalletTransaction[] }> {
+    return await db.transaction(async (tx) => {
+      const posted = await postLedgerEntry(tx, entry);
+      const created = await insertWalletLedgerTransactions(tx, entry, posted, transactions);
+      return { entry: posted, transactions: created };
+    });
+  }
+
+  async getLedgerAccount(account: LedgerAccountRef): Promise<LedgerAccount | undefined> {
+    const [row] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.accountKey, getLedgerAccountKey(account)));
+    return row || undefined;
+  }
+
+  async getLedgerLines(accountKey: string, limit: number = 50): Promise<(LedgerLine & { entry: LedgerEntry })[]> {
+    const rows = await db
+      .select({ line: ledgerLines, entry: ledgerEntries })
+      .from(ledgerLines)
+      .innerJoin(ledgerAccounts, eq(ledgerLines.accountId, ledgerAccounts.id))
+      .innerJoin(ledgerEntries, eq(ledgerLines.entryId, ledgerEntries.id))
+      .where(eq(ledgerAccounts.accountKey, accountKey))
+      .orderBy(desc(ledgerLines.createdAt))
+      .limit(limit);
+    return rows.map((row) => ({ ...row.line, entry: row.entry }));
+  }
+
+  async getLedgerBalancesByType(currency: string): Promise<Partial<Record<LedgerAccountType, string>>> {
+    const rows = await db
+      .select({
+        accountType: ledgerAccounts.accountType,
+        total: sql<string>`coalesce(sum(${ledgerLines.amount}), 0)::text`,
+      })
+      .from(ledgerLines)
+      .innerJoin(ledgerAccounts, eq(ledgerLines.accountId, ledgerAccounts.id))
+      .where(eq(ledgerAccounts.currency, currency))
+      .groupBy(ledgerAccounts.accountType);
+
+    const totals: Partial<Record<LedgerAccountType, string>> = {};
+    for (const row of rows) {
+      totals[row.accountType as LedgerAccountType] = row.total;
+    }
+    return totals;
+  }
+
+  async getUnbalancedLedgerEntries(): Promise<Array<{ entryId: string; total: string }>> {
+    return await db
+      .select({
+        entryId: ledgerLines.entryId,
+        total: sql<string>`sum(${ledgerLines.amount})::text`,
+      })
+      .from(ledgerLines)
+      .groupBy(ledgerLines.entryId)
+      .having(sql`sum(${ledgerLines.amount}) <> 0`);
+  }
+
+  /**
+   * Accounts whose stored balance disagrees with their lines, and wallet/reserve columns that
+   * disagree with the ledger (including balances that were changed without ever being posted)
+   */
+  async getLedgerDrift(currency: string): Promise<LedgerDrift[]> {
+    const drift: LedgerDrift[] = [];
+    const addDrift = (
+      source: LedgerDrift['source'],
+      accountType: LedgerAccountType,
+      ownerId: string | null,
+      ledgerBalance: string | null,
+      recordedBalance: string | null,
+    ) => {
+      const ledgerUnits = toLedgerUnits(ledgerBalance || "0");
+      const recordedUnits = toLedgerUnits(recordedBalance || "0");
+      if (ledgerUnits === recordedUnits) return;
+      drift.push({
+        accountKey: getLedgerAccountKey({ type: accountType, ownerId, currency }),
+        accountType,
+        ownerId,
+        ledgerBalance: formatLedgerUnits(ledgerUnits),
+        recordedBalance: formatLedgerUnits(recordedUnits),
+        difference: formatLedgerUnits(recordedUnits - ledgerUnits),
+        source,
+      });
+    };
+
+    const accountTotals = await db
+      .select({
+        accountType: ledgerAccounts.accountType,
+        ownerId: ledgerAccounts.ownerId,
+        balance: ledgerAccounts.balance,
+        lineTotal: sql<string>`coalesce(sum(${ledgerLines.amount}), 0)::text`,
+      })
+      .from(ledgerAccounts)
+      .leftJoin(ledgerLines, eq(ledgerLines.accountId, ledgerAccounts.id))
+      .where(eq(ledgerAccounts.currency, currency))
+      .groupBy(ledgerAccounts.id);
+    for (const account of accountTotals) {
+      addDrift('ledger_account', account.accountType as LedgerAccountType, account.ownerId, account.lineTotal, account.balance);
+    }
+
+    const rewardWallets = await db
+      .select({
+        userId: walletAccounts.userId,
+        recorded: walletAccounts.tokenBalance,
+        ledger: sql<string | null>`(select ${ledgerAccounts.balance} from ${ledgerAccounts} where ${ledgerAccounts.accountType} = 'user_rewards' and ${ledgerAccounts.ownerId} = ${walletAccounts.userId} and ${ledgerAccounts.currency} = ${currency})`,
+      })
+      .from(walletAccounts);
+    if (currency === LEDGER_CURRENCY) {
+      for (const wallet of rewardWallets) {
+        addDrift('wallet_account', 'user_rewards', wallet.userId, wallet.ledger, wallet.recorded);
+      }
+    }
+
+    const cryptoWallets = await db
+      .select({
+        id: userWallets.id,
+        recorded: userWallets.balance,
+        ledger: sql<string | null>`(select ${ledgerAccounts.balance} from ${ledgerAccounts} where ${ledgerAccounts.accountType} = 'user_wallet' and ${ledgerAccounts.ownerId} = ${userWallets.id} and ${ledgerAccounts.currency} = ${currency})`,
+      })
+      .from(userWallets)
+      .innerJoin(supportedCurrencies, eq(userWallets.currencyId, supportedCurrencies.id))
+      .where(eq(supportedCurrencies.symbol, currency));
+    for (const wallet of cryptoWallets) {
+      addDrift('user_wallet', 'user_wallet', wallet.id, wallet.ledger, wallet.recorded);
+    }
+
+    if (currency === LEDGER_CURRENCY) {
+      const treasuries = await db
+        .select({
+          id: treasuryAccounts.id,
+          recorded: treasuryAccounts.tokenReserve,
+          ledger: sql<string | null>`(select ${ledgerAccounts.balance} from ${ledgerAccounts} where ${ledgerAccounts.accountType} = 'treasury_reserve' and ${ledgerAccounts.ownerId} = ${treasuryAccounts.id} and ${ledgerAccounts.currency} = ${currency})`,
+        })
+        .from(treasuryAccounts);
+      for (const treasury of treasuries) {
+        addDrift('treasury_account', 'treasury_reserve', treasury.id, treasury.ledger, treasury.recorded);
+      }
+    }
+
+    return drift;
+  }
+
+  // Treasury withdrawal operations
+  async queueTreasuryWithdrawal(
+    entry: NewLedgerEntry,
+    transaction: NewWalletLedgerTransaction,
+    withdrawal: NewTreasuryWithdrawal,
+    status: 'pending' | 'awaiting_approval' = 'pending', // awaiting_approval holds the funds until approvers release it
+  ): Promise<{ withdrawal: TreasuryWithdrawal; transaction: WalletTransaction }> {
+    return await db.transaction(async (tx) => {
+      const posted = await postLedgerEntry(tx, entry);
+      const [queued] = await tx
+        .insert(treasuryWithdrawals)
+        .values({ ...withdrawal, status })
+        .returning();
+      const [created] = await insertWalletLedgerTransactions(tx, entry, posted, [{
+        ...transaction,
+        metadata: { ...transaction.metadata, treasuryWithdrawalId: queued.id },
+      }]);
+      const [linked] = await tx
+        .update(treasuryWithdrawals)
+        .set({ metadata: { ...(queued.metadata as any), ledgerEntryId: posted.id, walletTransactionId: created.id } })
+        .where(eq(treasuryWithdrawals.id, queued.id))
+        .returning();
+      return { withdrawal: linked, transaction: created };
+    });
+  }
+
+  async getTreasuryWithdrawal(id: string): Promise<TreasuryWithdrawal | undefined> {
+    const [withdrawal] = await db.select().from(treasuryWithdrawals).where(eq(treasuryWithdrawals.id, id));
+    return withdrawal || undefined;
+  }
+
+  async getTreasuryWithdrawalsByStatus(statuses: string[], limit: number = 50): Promise<TreasuryWithdrawal[]> {
+    return await db
+      .select()
+      .from(treasuryWithdrawals)
+      .where(inArray(treasuryWithdrawals.status, statuses))
+      .orderBy(treasuryWithdrawals.createdAt)
+      .limit(limit);
+  }
+
+  async getUserTreasuryWithdrawals(userId: string, limit: number = 20): Promise<TreasuryWithdrawal[]> {
+    return await db
+      .select()
+      .from(treasuryWithdrawals)
+      .where(eq(treasuryWithdrawals.requestedBy, userId))
+      .orderBy(desc(treasuryWithdrawals.createdAt))
+      .limit(limit);
+  }
+
+  async updateTreasuryWithdrawal(id: string, changes: TreasuryWithdrawalChanges, fromStatuses?: string[]): Promise<TreasuryWithdrawal | undefined> {
+    // With fromStatuses this is a compare-and-set, so two workers can't both advance the same withdrawal
+    const conditions = [eq(treasuryWithdrawals.id, id)];
+    if (fromStatuses) {
+      conditions.push(inArray(treasuryWithdrawals.status, fromStatuses));
+    }
+    const [withdrawal] = await db
+      .update(treasuryWithdrawals)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return withdrawal || undefined;
+  }
+
+  async settleTreasuryWithdrawal(id: string, settlement: TreasuryWithdrawalSettlement): Promise<TreasuryWithdrawal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(treasuryWithdrawals).where(eq(treasuryWithdrawals.id, id)).for('update');
+      // Already settled or advanced by another worker; settling twice would post the entry twice
+      if (!current || current.status !== settlement.fromStatus) {
+        return undefined;
+      }
+
+      const posted = await postLedgerEntry(tx, settlement.entry);
+      if (settlement.walletTransactionId) {
+        await tx
+          .update(walletTransactions)
+          .set(settlement.walletTransactionChanges)
+          .where(eq(walletTransactions.id, settlement.walletTransactionId));
+      }
+      if (settlement.refund) {
+        await insertWalletLedgerTransactions(tx, settlement.entry, posted, [settlement.refund]);
+      }
+
+      const [settled] = await tx
+        .update(treasuryWithdrawals)
+        .set({
+          ...settlement.changes,
+          metadata: { ...(current.metadata as any), ...(settlement.changes.metadata as any), settlementEntryId: posted.id },
+          updatedAt: new Date(),
+        })
+        .where(eq(treasuryWithdrawals.id, id))
+        .returning();
+      return settled;
+    });
+  }
+
+  // Treasury approval operations
+  async getTreasuryApprovalPolicies(): Promise<TreasuryApprovalPolicy[]> {
+    return await db.select().from(treasuryApprovalPolicies).orderBy(treasuryApprovalPolicies.actionType);
+  }
+
+  async getTreasuryApprovalPolicy(actionType: ApprovalActionType): Promise<TreasuryApprovalPolicy | undefined> {
+    const [policy] = await db.select().from(treasuryApprovalPolicies).where(eq(treasuryApprovalPolicies.actionType, actionType));
+    return policy || undefined;
+  }
+
+  async upsertTreasuryApprovalPolicy(actionType: ApprovalActionType, policy: ApprovalPolicyInput, updatedBy: string): Promise<TreasuryApprovalPolicy> {
+    const values = {
+      thresholdTokens: policy.thresholdTokens.toFixed(8),
+      requiredApprovals: policy.requiredApprovals,
+      approverRoles: policy.approverRoles,
+      expiryHours: policy.expiryHours,
+      isActive: policy.isActive,
+      updatedBy,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(treasuryApprovalPolicies)
+      .values({ actionType, ...values })
+      .onConflictDoUpdate({ target: treasuryApprovalPolicies.actionType, set: values })
+      .returning();
+    return saved;
+  }
+
+  async createTreasuryApprovalRequest(request: NewTreasuryApprovalRequest, requester: ApprovalActor): Promise<TreasuryApprovalRequest> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(treasuryApprovalRequests).values(request).returning();
+      await tx.insert(treasuryApprovalEvents).values({
+        requestId: created.id,
+        action: 'requested',
+        actorId: requester.id,
+        actorName: requester.name,
+        actorRole: requester.role,
+      });
+      return created;
+    });
+  }
+
+  // Guarded actions are recorded before they run. The requester is locked so their submissions are totalled one at a
+  // time: what they already requested in the window counts towards the threshold. Below it the request is approved
+  // on the spot (requiredApprovals 0) and the caller runs it; otherwise it waits for approvers as usual
+  async submitTreasuryApprovalRequest(request: NewTreasuryApprovalRequest, requester: ApprovalActor, policy: ApprovalPolicyInput, windowStart: Date): Promise<TreasuryApprovalRequest> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, requester.id)).for('update');
+      const [recent] = await tx
+        .select({ total: sql<string>`coalesce(sum(${treasuryApprovalRequests.tokenAmount}), 0)::text` })
+        .from(treasuryApprovalRequests)
+        .where(and(
+          eq(treasuryApprovalRequests.actionType, request.actionType),
+          eq(treasuryApprovalRequests.requestedBy, requester.id),
+          inArray(treasuryApprovalRequests.status, ['pending', 'approved', 'executed']),
+          gte(treasuryApprovalRequests.createdAt, windowStart),
+        ));
+      const recentTokens = parseFloat(recent?.total || '0');
+      const needsApproval = requiresApproval(policy, parseFloat(request.tokenAmount), recentTokens);
+
+      const [created] = await tx
+        .insert(treasuryApprovalRequests)
+        .values(needsApproval ? request : { ...request, requiredApprovals: 0, status: 'approved', decidedAt: new Date() })
+        .returning();
+      await tx.insert(treasuryApprovalEvents).values({
+        requestId: created.id,
+        action: 'requested',
+        actorId: requester.id,
+        actorName: requester.name,
+        actorRole: requester.role,
+        comment: needsApproval ? null : `Below the approval threshold, with ${recentTokens.toLocaleString()} JCMOVES already requested in the window`,
+      });
+      return created;
+    });
+  }
+
+  // Approved requests whose outcome was never recorded, e.g. the server stopped while the action ran
+  async getInterruptedTreasuryApprovalRequests(decidedBefore: Date): Promise<TreasuryApprovalRequest[]> {
+    return await db
+      .select()
+      .from(treasuryApprovalRequests)
+      .where(and(
+        eq(treasuryApprovalRequests.status, 'approved'),
+        lt(treasuryApprovalRequests.decidedAt, decidedBefore),
+      ))
+      .orderBy(treasuryApprovalRequests.decidedAt);
+  }
+
+  async getTreasuryApprovalRequest(id: string): Promise<TreasuryApprovalRequest | undefined> {
+    const [request] = await db.select().from(treasuryApprovalRequests).where(eq(treasuryApprovalRequests.id, id));
+    return request || undefined;
+  }
+
+  async getTreasuryApprovalRequests(statuses?: string[], limit: number = 50): Promise<TreasuryApprovalRequest[]> {
+    return await db
+      .select()
+      .from(treasuryApprovalRequests)
+      .where(statuses ? inArray(treasuryApprovalRequests.status, statuses) : undefined)
+      .orderBy(desc(treasuryApprovalRequests.createdAt))
+      .limit(limit);
+  }
+
+  async getTreasuryApprovalEvents(requestIds: string[]): Promise<TreasuryApprovalEvent[]> {
+    if (requestIds.length === 0) return [];
+    return await db
+      .select()
+      .from(treasuryApprovalEvents)
+      .where(inArray(treasuryApprovalEvents.requestId, requestIds))
+      .orderBy(treasuryApprovalEvents.createdAt);
+  }
+
+  // Locks the request so two approvers can't both cast the deciding vote. Throws TreasuryApprovalError
+  // without recording anything when the actor can't decide
+  async decideTreasuryApprovalRequest(id: string, actor: ApprovalActor, decision: 'approved' | 'rejected', comment?: string): Promise<TreasuryApprovalDecision> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(treasuryApprovalRequests).where(eq(treasuryApprovalRequests.id, id)).for('update');
+      if (!current) {
+        throw new TreasuryApprovalError('not_found', 'Approval request not found');
+      }
+      if (current.status !== 'pending') {
+        throw new TreasuryApprovalError('not_pending', `This request is already ${current.status}`);
+      }
+      if (current.expiresAt <= new Date()) {
+        throw new TreasuryApprovalError('expired', 'This request has expired');
+      }
+      if (current.requestedBy === actor.id) {
+        throw new TreasuryApprovalError('self_approval', "You can't approve or reject your own request");
+      }
+      if (!current.approverRoles.includes(actor.role)) {
+        throw new TreasuryApprovalError('not_authorized', 'Your role is not an approver for this action');
+      }
+      const [voted] = await tx
+        .select({ id: treasuryApprovalEvents.id })
+        .from(treasuryApprovalEvents)
+        .where(and(
+          eq(treasuryApprovalEvents.requestId, id),
+          eq(treasuryApprovalEvents.actorId, actor.id),
+          inArray(treasuryApprovalEvents.action, ['approved', 'rejected']),
+        ));
+      if (voted) {
+        throw new TreasuryApprovalError('already_decided', "You've already decided on this request");
+      }
+
+      const [event] = await tx.insert(treasuryApprovalEvents).values({
+        requestId: id,
+        action: decision,
+        actorId: actor.id,
+        actorName: actor.name,
+        actorRole: actor.role,
+        comment: comment || null,
+      }).returning();
+
+      // One rejection ends the request; approvals count up to the policy's requirement
+      const approvalCount = current.approvalCount + (decision === 'approved' ? 1 : 0);
+      const status = decision === 'rejected' ? 'rejected' : approvalCount >= current.requiredApprovals ? 'approved' : 'pending';
+      const [request] = await tx
+        .update(treasuryApprovalRequests)
+        .set({
+          approvalCount,
+          status,
+          decidedAt: status === 'pending' ? null : new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(treasuryApprovalRequests.id, id))
+        .returning();
+      return { request, event, becameApproved: status === 'approved' };
+    });
+  }
+
+  async expireTreasuryApprovalRequests(now: Date = new Date()): Promise<TreasuryApprovalRequest[]> {
+    return await db.transaction(async (tx) => {
+      const expired = await tx
+        .update(treasuryApprovalRequests)
+        .set({ status: 'expired', decidedAt: now, updatedAt: now })
+        .where(and(
+          eq(treasuryApprovalRequests.status, 'pending'),
+          sql`${treasuryApprovalRequests.expiresAt} <= ${now}`,
+        ))
+        .returning();
+      if (expired.length > 0) {
+        await tx.insert(treasuryApprovalEvents).values(expired.map((request) => ({
+          requestId: request.id,
+          action: 'expired',
+          comment: 'Not approved within the policy window',
+        })));
+      }
+      return expired;
+    });
+  }
+
+  // Records what happened when an approved request ran. Only approved requests complete, so it runs once
+  async completeTreasuryApprovalRequest(
+    id: string,
+    outcome: { status: 'executed' | 'failed'; executionResult?: any; failureReason?: string },
+    actor?: ApprovalActor,
+  ): Promise<TreasuryApprovalRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [completed] = await tx
+        .update(treasuryApprovalRequests)
+        .set({
+          status: outcome.status,
+          executedAt: outcome.status === 'executed' ? new Date() : null,
+          executionResult: outcome.executionResult ?? null,
+          failureReason: outcome.failureReason ?? null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(treasuryApprovalRequests.id, id), eq(treasuryApprovalRequests.status, 'approved')))
+        .returning();
+      if (!completed) return undefined;
+
+      await tx.insert(treasuryApprovalEvents).values({
+        requestId: id,
+        action: outcome.status,
+        actorId: actor?.id ?? null,
+        actorName: actor?.name ?? null,
+        actorRole: actor?.role ?? null,
+        comment: outcome.failureReason ?? null,
+      });
+      return completed;
+    });
+  }
+
+  // Treasury reconciliation operations
+  async getCustodyBalanceTotals(currency: string): Promise<CustodyBalanceTotals> {
+    const [reserve] = await db
+      .select({ total: sql<string>`coalesce(sum(${treasuryAccounts.tokenReserve}), 0)::text` })
+      .from(treasuryAccounts);
+    const [rewards] = await db
+      .select({ total: sql<string>`coalesce(sum(${walletAccounts.tokenBalance}), 0)::text` })
+      .from(walletAccounts);
+    const [wallets] = await db
+      .select({ total: sql<string>`coalesce(sum(${userWallets.balance}), 0)::text` })
+      .from(userWallets)
+      .innerJoin(supportedCurrencies, eq(userWallets.currencyId, supportedCurrencies.id))
+      .where(eq(supportedCurrencies.symbol, currency));
+    return {
+      tokenReserve: currency === LEDGER_CURRENCY ? reserve.total : "0",
+      rewardsBalances: currency === LEDGER_CURRENCY ? rewards.total : "0",
+      walletBalances: wallets.total,
+    };
+  }
+
+  // Signatures the books already explain: recorded funding deposits and sent withdrawals
+  async getRecordedTreasurySignatures(signatures: string[]): Promise<string[]> {
+    if (signatures.length === 0) return [];
+    const deposits = await db
+      .select({ signature: fundingDeposits.externalTransactionId })
+      .from(fundingDeposits)
+      .where(inArray(fundingDeposits.externalTransactionId, signatures));
+    const withdrawals = await db
+      .select({ signature: treasuryWithdrawals.transactionSignature })
+      .from(treasuryWithdrawals)
+      .where(inArray(treasuryWithdrawals.transactionSignature, signatures));
+    const sweeps = await db
+      .select({ signature: walletTransactions.transactionHash })
+      .from(walletTransactions)
+      .where(and(eq(walletTransactions.transactionType, 'deposit_sweep'), inArray(walletTransactions.transactionHash, signatures)));
+    return [...deposits, ...withdrawals, ...sweeps].map((row) => row.signature!).filter(Boolean);
+  }
+
+  // Transfers already on file are only marked as seen again, so a discrepancy is raised once however many runs find it.
+  // An open balance drift is updated in place rather than duplicated
+  async saveReconciliationReport(
+    report: NewReconciliationReport,
+    discrepancies: NewReconciliationDiscrepancy[],
+  ): Promise<{ report: TreasuryReconciliationReport; created: TreasuryReconciliationDiscrepancy[] }> {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(treasuryReconciliationReports).values(report).returning();
+      const created: TreasuryReconciliationDiscrepancy[] = [];
+
+      const transfers = discrepancies.filter((discrepancy) => discrepancy.signature);
+      if (transfers.length > 0) {
+        const inserted = await tx
+          .insert(treasuryReconciliationDiscrepancies)
+          .values(transfers.map((discrepancy) => ({ ...discrepancy, reportId: saved.id, lastSeenReportId: saved.id })))
+          .onConflictDoNothing()
+          .returning();
+        created.push(...inserted);
+        await tx
+          .update(treasuryReconciliationDiscrepancies)
+          .set({ lastSeenReportId: saved.id, updatedAt: new Date() })
+          .where(and(
+            inArray(treasuryReconciliationDiscrepancies.signature, transfers.map((discrepancy) => discrepancy.signature!)),
+            eq(treasuryReconciliationDiscrepancies.status, 'open'),
+          ));
+      }
+
+      const drift = discrepancies.find((discrepancy) => !discrepancy.signature);
+      if (drift) {
+        const [open] = await tx
+          .select()
+          .from(treasuryReconciliationDiscrepancies)
+          .where(and(
+            eq(treasuryReconciliationDiscrepancies.kind, drift.kind),
+            eq(treasuryReconciliationDiscrepancies.status, 'open'),
+          ))
+          .for('update');
+        if (open) {
+          await tx
+            .update(treasuryReconciliationDiscrepancies)
+            .set({ amount: drift.amount, lastSeenReportId: saved.id, updatedAt: new Date() })
+            .where(eq(treasuryReconciliationDiscrepancies.id, open.id));
+        } else {
+          const [inserted] = await tx
+            .insert(treasuryReconciliationDiscrepancies)
+            .values({ ...drift, reportId: saved.id, lastSeenReportId: saved.id })
+            .returning();
+          created.push(inserted);
+        }
+      }
+
+      const [linked] = await tx
+        .update(treasuryReconciliationReports)
+        .set({ details: { ...(saved.details as any), newDiscrepancyIds: created.map((discrepancy) => discrepancy.id) } })
+        .where(eq(treasuryReconciliationReports.id, saved.id))
+        .returning();
+      return { report: linked, created };
+    });
+  }
+
+  async getReconciliationReports(limit: number = 20): Promise<TreasuryReconciliationReport[]> {
+    return await db
+      .select()
+      .from(treasuryReconciliationReports)
+      .orderBy(desc(treasuryReconciliationReports.completedAt))
+      .limit(limit);
+  }
+
+  async getReconciliationReport(id: string): Promise<TreasuryReconciliationReport | undefined> {
+    const [report] = await db.select().from(treasuryReconciliationReports).where(eq(treasuryReconciliationReports.id, id));
+    return report || undefined;
+  }
+
+  async getReconciliationDiscrepancies(statuses?: string[], limit: number = 100): Promise<TreasuryReconciliationDiscrepancy[]> {
+    return await db
+      .select()
+      .from(treasuryReconciliationDiscrepancies)
+      .where(statuses ? inArray(treasuryReconciliationDiscrepancies.status, statuses) : undefined)
+      .orderBy(desc(treasuryReconciliationDiscrepancies.createdAt))
+      .limit(limit);
+  }
+
+  async getReconciliationDiscrepancy(id: string): Promise<TreasuryReconciliationDiscrepancy | undefined> {
+    const [discrepancy] = await db.select().from(treasuryReconciliationDiscrepancies).where(eq(treasuryReconciliationDiscrepancies.id, id));
+    return discrepancy || undefined;
+  }
+
+  // Posts the adjustment (if any) and closes the discrepancy together. Throws ReconciliationError without posting
+  async resolveReconciliationDiscrepancy(id: string, changes: DiscrepancyResolutionChanges, entry?: NewLedgerEntry): Promise<TreasuryReconciliationDiscrepancy> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(treasuryReconciliationDiscrepancies)
+        .where(eq(treasuryReconciliationDiscrepancies.id, id))
+        .for('update');
+      if (!current) {
+        throw new ReconciliationError('not_found', 'Discrepancy not found');
+      }
+      if (current.status !== 'open') {
+        throw new ReconciliationError('already_resolved', `This discrepancy was already ${current.status}`);
+      }
+
+      let ledgerEntryId: string | null = null;
+      if (entry) {
+        try {
+          ledgerEntryId = (await postLedgerEntry(tx, entry)).id;
+        } catch (error) {
+          if (error instanceof LedgerError && error.code === 'insufficient_balance') {
+            throw new ReconciliationError('insufficient_reserve', "The treasury reserve can't cover this adjustment");
+          }
+          throw error;
+        }
+      }
+
+      const [resolved] = await tx
+        .update(treasuryReconciliationDiscrepancies)
+        .set({
+          status: changes.status,
+          adjustmentAmount: changes.adjustmentAmount == null ? null : changes.adjustmentAmount.toFixed(8),
+          ledgerEntryId,
+          resolvedBy: changes.resolvedBy,
+          resolvedAt: new Date(),
+          resolutionNote: changes.resolutionNote,
+          updatedAt: new Date(),
+        })
+        .where(eq(treasuryReconciliationDiscrepancies.id, id))
+        .returning();
+      return resolved;
+    });
+  }
+
+  // Treasury period close operations
+  async getReserveJournal(treasuryAccountId: string, from: Date | null, to: Date): Promise<ReserveJournalRow[]> {
+    return await db
+      .select({
+        ...getTableColumns(reserveTransactions),
+        historicalPriceUsd: sql<string | null>`(
+          SELECT ${priceHistory.priceUsd} FROM ${priceHistory}
+          WHERE ${priceHistory.createdAt} <= ${reserveTransactions.createdAt}
+          ORDER BY ${priceHistory.createdAt} DESC
+          LIMIT 1
+        )`,
+      })
+      .from(reserveTransactions)
+      .where(and(
+        eq(reserveTransactions.treasuryAccountId, treasuryAccountId),
+        from ? gte(reserveTransactions.createdAt, from) : undefined,
+        lt(reserveTransactions.createdAt, to),
+      ))
+      .orderBy(reserveTransactions.createdAt, reserveTransactions.id);
+  }
+
+  // Summed from the lines rather than read off the last one, since lines posted in one transaction share a timestamp
+  async getLedgerBalanceAsOf(account: LedgerAccountRef, asOf: Date): Promise<string> {
+    const [result] = await db
+      .select({ balance: sql<string>`COALESCE(SUM(${ledgerLines.amount}), 0)` })
+      .from(ledgerLines)
+      .innerJoin(ledgerAccounts, eq(ledgerLines.accountId, ledgerAccounts.id))
+      .where(and(
+        eq(ledgerAccounts.accountKey, getLedgerAccountKey(account)),
+        lt(ledgerLines.createdAt, asOf),
+      ));
+    return formatLedgerUnits(toLedgerUnits(result?.balance || '0'));
+  }
+
+  async getTreasuryPeriodCloses(limit: number = 24): Promise<TreasuryPeriodClose[]> {
+    return await db
+      .select()
+      .from(treasuryPeriodCloses)
+      .orderBy(desc(treasuryPeriodCloses.periodEnd), treasuryPeriodCloses.periodType)
+      .limit(limit);
+  }
+
+  async getTreasuryPeriodClose(periodType: string, periodKey: string): Promise<TreasuryPeriodClose | undefined> {
+    const [close] = await db
+      .select()
+      .from(treasuryPeriodCloses)
+      .where(and(eq(treasuryPeriodCloses.periodType, periodType), eq(treasuryPeriodCloses.periodKey, periodKey)));
+    return close || undefined;
+  }
+
+  // The close whose cost pool carries into a period starting at the given date
+  async getLatestTreasuryPeriodCloseBefore(date: Date): Promise<TreasuryPeriodClose | undefined> {
+    const [close] = await db
+      .select()
+      .from(treasuryPeriodCloses)
+      .where(lte(treasuryPeriodCloses.periodEnd, date))
+      .orderBy(desc(treasuryPeriodCloses.periodEnd), desc(treasuryPeriodCloses.closedAt))
+      .limit(1);
+    return close || undefined;
+  }
+
+  // Throws TreasuryPeriodError when the period was already closed
+  async closeTreasuryPeriod(close: NewTreasuryPeriodClose): Promise<TreasuryPeriodClose> {
+    const [created] = await db
+      .insert(treasuryPeriodCloses)
+      .values(close)
+      .onConflictDoNothing({ target: [treasuryPeriodCloses.periodType, treasuryPeriodCloses.periodKey] })
+      .returning();
+    if (!created) {
+      throw new TreasuryPeriodError('already_closed', `${close.periodKey} is already closed`);
+    }
+    return created;
+  }
+
+  /**
+   * Triggers that reject inserts, updates and deletes of reserve, ledger, price and funding rows dated inside a
+   * closed period, and keep treasury_period_closes append-only. Replaced in one transaction, so it is safe to
+   * run on every startup and the tables are never left unguarded
+   */
+  async installTreasuryPeriodLocks(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        CREATE OR REPLACE FUNCTION reject_closed_treasury_period_change() RETURNS trigger AS $$
+        BEGIN
+          IF TG_OP <> 'INSERT' AND EXISTS (
+            SELECT 1 FROM treasury_period_closes WHERE OLD.created_at >= period_start AND OLD.created_at < period_end
+          ) THEN
+            RAISE EXCEPTION '% row % is in a closed treasury period', TG_TABLE_NAME, OLD.id;
+          END IF;
+          IF TG_OP <> 'DELETE' AND EXISTS (
+            SELECT 1 FROM treasury_period_closes WHERE NEW.created_at >= period_start AND NEW.created_at < period_end
+          ) THEN
+            RAISE EXCEPTION '% row % would be dated in a closed treasury period', TG_TABLE_NAME, NEW.id;
+          END IF;
+          IF TG_OP = 'DELETE' THEN
+            RETURN OLD;
+          END IF;
+          RETURN NEW;
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+
+      for (const table of TREASURY_PERIOD_LOCKED_TABLES) {
+        await tx.execute(sql.raw(`DROP TRIGGER IF EXISTS ${table}_closed_period_lock ON ${table}`));
+        await tx.execute(sql.raw(`
+          CREATE TRIGGER ${table}_closed_period_lock
+          BEFORE INSERT OR UPDATE OR DELETE ON ${table}
+          FOR EACH ROW EXECUTE FUNCTION reject_closed_treasury_period_change()
+        `));
+      }
+
+      // Only the accounting columns, so anonymizing depositedBy when a user is deleted is still allowed
+      await tx.execute(sql`DROP TRIGGER IF EXISTS funding_deposits_closed_period_lock ON funding_deposits`);
+      await tx.execute(sql`
+        CREATE TRIGGER funding_deposits_closed_period_lock
+        BEFORE INSERT OR DELETE OR UPDATE OF deposit_amount, tokens_purchased, token_price, status, created_at ON funding_deposits
+        FOR EACH ROW EXECUTE FUNCTION reject_closed_treasury_period_change()
+      `);
+
+      await tx.execute(sql`
+        CREATE OR REPLACE FUNCTION reject_treasury_period_close_change() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'treasury_period_closes is append-only';
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+      await tx.execute(sql`DROP TRIGGER IF EXISTS treasury_period_closes_append_only ON treasury_period_closes`);
+      await tx.execute(sql`
+        CREATE TRIGGER treasury_period_closes_append_only
+        BEFORE UPDATE OR DELETE ON treasury_period_closes
+        FOR EACH ROW EXECUTE FUNCTION reject_treasury_period_close_change()
+      `);
+    });
+  }
+
+  // Identity verification operations
+  async submitKyc(userId: string, encryptedDetails: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        kycStatus: 'pending',
+        kycDetails: encryptedDetails,
+        kycSubmittedAt: new Date(),
+        kycRejectionReason: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user || undefined;
+  }
+
+  // Only pending submissions can be reviewed, so two admins can't both decide the same one
+  async reviewKyc(userId: string, review: KycReviewChanges): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...review, kycReviewedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.id, userId), eq(users.kycStatus, 'pending')))
+      .returning();
+    return user || undefined;
+  }
+
+  async getUsersByKycStatus(status: string): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(eq(users.kycStatus, status))
+      .orderBy(users.kycSubmittedAt);
+  }
+
+  // Cash-out operations
+  // Throws CashoutError when the request would go over a limit, or LedgerError when the rewards balance is short
+  async queueCashoutRequest(request: NewCashoutRequest, status: 'pending' | 'pending_review', limits: CashoutLimits): Promise<CashoutRequest> {
+    return await db.transaction(async (tx) => {
+      // Serializes a user's cash-outs so two requests can't both fit under the same limit
+      await tx.select({ id: walletAccounts.id }).from(walletAccounts).where(eq(walletAccounts.userId, request.userId)).for('update');
+
+      const { usedTodayUsd: usedToday, usedThisMonthUsd: usedThisMonth } = await readCashoutUsage(tx, request.userId, limits.dayStart, limits.monthStart);
+      const cashAmount = parseFloat(request.cashAmount);
+      if (usedToday + cashAmount > limits.dailyUsd) {
+        throw new CashoutError('limit_exceeded', `Daily cash-out limit is $${limits.dailyUsd.toFixed(2)}; $${Math.max(0, limits.dailyUsd - usedToday).toFixed(2)} left today`);
+      }
+      if (usedThisMonth + cashAmount > limits.monthlyUsd) {
+        throw new CashoutError('limit_exceeded', `Monthly cash-out limit is $${limits.monthlyUsd.toFixed(2)}; $${Math.max(0, limits.monthlyUsd - usedThisMonth).toFixed(2)} left this month`);
+      }
+
+      const tokenAmount = parseFloat(request.tokenAmount);
+      const posted = await postLedgerEntry(tx, {
+        entryType: 'cashout',
+        description: `Cash-out of ${request.tokenAmount} JCMOVES for $${request.cashAmount}`,
+        relatedEntityType: 'cashout_request',
+        relatedEntityId: request.id,
+        createdBy: request.userId,
+        postings: [
+          { account: userRewardsAccount(request.userId), amount: -tokenAmount },
+          { account: systemLedgerAccount('cashout_clearing'), amount: tokenAmount },
+        ],
+      });
+
+      const [created] = await tx
+        .insert(cashoutRequests)
+        .values({ ...request, status, ledgerEntryId: posted.id })
+        .returning();
+      return created;
+    });
+  }
+
+  async getCashoutRequest(id: string): Promise<CashoutRequest | undefined> {
+    const [request] = await db.select().from(cashoutRequests).where(eq(cashoutRequests.id, id));
+    return request || undefined;
+  }
+
+  async getCashoutRequestByExternalId(provider: string, externalId: string): Promise<CashoutRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(cashoutRequests)
+      .where(and(eq(cashoutRequests.payoutProvider, provider), eq(cashoutRequests.externalTransactionId, externalId)));
+    return request || undefined;
+  }
+
+  async getCashoutRequests(filter: { userId?: string; statuses?: string[]; limit?: number }): Promise<CashoutRequest[]> {
+    const conditions = [];
+    if (filter.userId) conditions.push(eq(cashoutRequests.userId, filter.userId));
+    if (filter.statuses) conditions.push(inArray(cashoutRequests.status, filter.statuses));
+    return await db
+      .select()
+      .from(cashoutRequests)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(filter.statuses ? cashoutRequests.createdAt : desc(cashoutRequests.createdAt))
+      .limit(filter.limit || 50);
+  }
+
+  async getCashoutUsage(userId: string, dayStart: Date, monthStart: Date): Promise<{ usedTodayUsd: number; usedThisMonthUsd: number }> {
+    return await readCashoutUsage(db, userId, dayStart, monthStart);
+  }
+
+  // Destination hashes the user has been paid to before; empty for a first cash-out
+  async getCompletedCashoutDestinations(userId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ hash: cashoutRequests.payoutDestinationHash })
+      .from(cashoutRequests)
+      .where(and(eq(cashoutRequests.userId, userId), eq(cashoutRequests.status, 'completed'), isNotNull(cashoutRequests.payoutDestinationHash)));
+    return rows.map((row) => row.hash!);
+  }
+
+  async updateCashoutRequest(id: string, changes: CashoutRequestChanges, fromStatuses?: string[]): Promise<CashoutRequest | undefined> {
+    // With fromStatuses this is a compare-and-set, so a webhook and the poller can't both advance the same request
+    const conditions = [eq(cashoutRequests.id, id)];
+    if (fromStatuses) {
+      conditions.push(inArray(cashoutRequests.status, fromStatuses));
+    }
+    const [request] = await db
+      .update(cashoutRequests)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return request || undefined;
+  }
+
+  async settleCashoutRequest(id: string, settlement: CashoutSettlement): Promise<CashoutRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(cashoutRequests).where(eq(cashoutRequests.id, id)).for('update');
+      // Already settled or advanced by another worker; settling twice would post the entry twice
+      if (!current || !settlement.fromStatuses.includes(current.status)) {
+        return undefined;
+      }
+
+      const tokenAmount = parseFloat(current.tokenAmount);
+      const cashAmount = parseFloat(current.cashAmount);
+      let settlementEntryId: string;
+
+      if (settlement.status === 'completed') {
+        // The business paid cash for the tokens, so they go back into the reserve at that cost
+        const [treasury] = await tx
+          .select()
+          .from(treasuryAccounts)
+          .where(eq(treasuryAccounts.isActive, true))
+          .orderBy(treasuryAccounts.createdAt)
+          .limit(1)
+          .for('update');
+        if (!treasury) {
+          throw new Error("No active treasury account found");
+        }
+
+        const reserveAccount: LedgerAccountRef = { type: 'treasury_reserve', ownerId: treasury.id };
+        const description = `Cash-out buyback: ${current.tokenAmount} JCMOVES for $${current.cashAmount}`;
+        const posted = await postLedgerEntry(tx, {
+          entryType: 'cashout',
+          description,
+          relatedEntityType: 'cashout_request',
+          relatedEntityId: id,
+          postings: [
+            { account: systemLedgerAccount('cashout_clearing'), amount: -tokenAmount },
+            { account: reserveAccount, amount: tokenAmount },
+          ],
+        });
+        settlementEntryId = posted.id;
+
+        const totalFunding = parseFloat(treasury.totalFunding) + cashAmount;
+        await tx
+          .update(treasuryAccounts)
+          .set({ totalFunding: totalFunding.toFixed(2), updatedAt: new Date() })
+          .where(eq(treasuryAccounts.id, treasury.id));
+        await tx.insert(reserveTransactions).values({
+          treasuryAccountId: treasury.id,
+          transactionType: 'deposit',
+          tokenAmount: current.tokenAmount,
+          cashValue: cashAmount.toFixed(2),
+          balanceAfter: (totalFunding - parseFloat(treasury.totalDistributed)).toFixed(2),
+          tokenReserveAfter: posted.balances[getLedgerAccountKey(reserveAccount)],
+          description,
+          relatedEntityType: 'cashout_request',
+          relatedEntityId: id,
+        });
+        await tx
+          .update(walletAccounts)
+          .set({ totalCashedOut: sql`${walletAccounts.totalCashedOut} + ${cashAmount.toFixed(2)}`, lastActivity: new Date() })
+          .where(eq(walletAccounts.userId, current.userId));
+      } else {
+        const posted = await postLedgerEntry(tx, {
+          entryType: 'cashout_refund',
+          description: `Refund of ${settlement.status} cash-out ${id}`,
+          relatedEntityType: 'cashout_request',
+          relatedEntityId: id,
+          postings: [
+            { account: systemLedgerAccount('cashout_clearing'), amount: -tokenAmount },
+            { account: userRewardsAccount(current.userId), amount: tokenAmount },
+          ],
+        });
+        settlementEntryId = posted.id;
+      }
+
+      const [settled] = await tx
+        .update(cashoutRequests)
+        .set({
+          ...settlement.changes,
+          status: settlement.status,
+          processedDate: new Date(),
+          settlementEntryId,
+          updatedAt: new Date(),
+        })
+        .where(eq(cashoutRequests.id, id))
+        .returning();
+      return settled;
+    });
+  }
+
+  // Token grant operations
+  // Returns the existing grant when this reward was already granted
+  async createTokenGrant(grant: NewTokenGrant): Promise<{ grant: TokenGrant; created: boolean }> {
+    const [created] = await db.insert(tokenGrants).values(grant).onConflictDoNothing().returning();
+    if (created) {
+      return { grant: created, created: true };
+    }
+    const [existing] = await db
+      .select()
+      .from(tokenGrants)
+      .where(and(eq(tokenGrants.userId, grant.userId), eq(tokenGrants.source, grant.source), eq(tokenGrants.referenceId, grant.referenceId)));
+    return { grant: existing, created: false };
+  }
+
+  async getTokenGrant(id: string): Promise<TokenGrant | undefined> {
+    const [grant] = await db.select().from(tokenGrants).where(eq(tokenGrants.id, id));
+    return grant || undefined;
+  }
+
+  async getUserTokenGrants(userId: string): Promise<TokenGrant[]> {
+    return await db
+      .select()
+      .from(tokenGrants)
+      .where(eq(tokenGrants.userId, userId))
+      .orderBy(desc(tokenGrants.createdAt));
+  }
+
+  // Active grants with no release in flight, least recently released first
+  // Paged by id, so the release job walks every active grant in turn however many there are
+  async getReleasableTokenGrants(limit: number, afterId?: string): Promise<TokenGrant[]> {
+    return await db
+      .select()
+      .from(tokenGrants)
+      .where(and(
+        eq(tokenGrants.status, 'active'),
+        eq(tokenGrants.releasingAmount, '0'),
+        afterId ? gt(tokenGrants.id, afterId) : undefined,
+      ))
+      .orderBy(tokenGrants.id)
+      .limit(limit);
+  }
+
+  // Tokens still locked in active grants. A release in flight is left out, since it is being paid from this earmark
+  async getEarmarkedTokenGrantTotal(): Promise<number> {
+    const [result] = await db
+      .select({
+        total: sql<string>`coalesce(sum(${tokenGrants.totalAmount} - ${tokenGrants.releasedAmount} - ${tokenGrants.releasingAmount}), 0)::text`,
+      })
+      .from(tokenGrants)
+      .where(eq(tokenGrants.status, 'active'));
+    return parseFloat(result?.total || '0');
+  }
+
+  async getStaleTokenGrantReleases(claimedBefore: Date, limit: number): Promise<TokenGrant[]> {
+    return await db
+      .select()
+      .from(tokenGrants)
+      .where(and(gt(tokenGrants.releasingAmount, '0'), lt(tokenGrants.releasingAt, claimedBefore)))
+      .limit(limit);
+  }
+
+  // Compare-and-set, so two workers can't both release the same day's tokens
+  async claimTokenGrantRelease(id: string, amount: string): Promise<TokenGrant | undefined> {
+    const [grant] = await db
+      .update(tokenGrants)
+      .set({ releasingAmount: amount, releasingAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(tokenGrants.id, id), eq(tokenGrants.status, 'active'), eq(tokenGrants.releasingAmount, '0')))
+      .returning();
+    return grant || undefined;
+  }
+
+  async completeTokenGrantRelease(id: string): Promise<TokenGrant | undefined> {
+    const [grant] = await db
+      .update(tokenGrants)
+      .set({
+        releasedAmount: sql`${tokenGrants.releasedAmount} + ${tokenGrants.releasingAmount}`,
+        releasingAmount: '0',
+        releasingAt: null,
+        lastReleasedAt: new Date(),
+        status: sql`case when ${tokenGrants.status} = 'active' and ${tokenGrants.releasedAmount} + ${tokenGrants.releasingAmount} >= ${tokenGrants.totalAmount} then 'vested' else ${tokenGrants.status} end`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(tokenGrants.id, id), gt(tokenGrants.releasingAmount, '0')))
+      .returning();
+    return grant || undefined;
+  }
+
+  async cancelTokenGrantRelease(id: string): Promise<TokenGrant | undefined> {
+    const [grant] = await db
+      .update(tokenGrants)
+      .set({ releasingAmount: '0', releasingAt: null, updatedAt: new Date() })
+      .where(eq(tokenGrants.id, id))
+      .returning();
+    return grant || undefined;
+  }
+
+  // Whether the treasury paid a release for this grant since the claim, for settling claims interrupted mid-release.
+  // Releases are distributed under the grant's source so they report with the reward they came from
+  async hasTokenGrantReleaseTransaction(grant: TokenGrant, since: Date): Promise<boolean> {
+    const [transaction] = await db
+      .select({ id: reserveTransactions.id })
+      .from(reserveTransactions)
+      .where(and(
+        eq(reserveTransactions.relatedEntityType, grant.source),
+        eq(reserveTransactions.relatedEntityId, grant.id),
+        gte(reserveTransactions.createdAt, since),
+      ))
+      .limit(1);
+    return !!transaction;
+  }
+
+  // Undoes a grant whose first payment failed, so the reward can be granted again
+  async deleteUnreleasedTokenGrant(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(tokenGrants)
+      .where(and(eq(tokenGrants.id, id), eq(tokenGrants.releasedAmount, '0')))
+      .returning({ id: tokenGrants.id });
+    return deleted.length > 0;
+  }
+
+  // Unvested tokens stay in the reserve; a release already in flight still completes
+  async forfeitTokenGrants(userId: string, reason: string): Promise<TokenGrant[]> {
+    return await db
+      .update(tokenGrants)
+      .set({
+        status: 'forfeited',
+        forfeitedAmount: sql`${tokenGrants.totalAmount} - ${tokenGrants.releasedAmount} - ${tokenGrants.releasingAmount}`,
+        forfeitedAt: new Date(),
+        forfeitReason: reason,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(tokenGrants.userId, userId), eq(tokenGrants.status, 'active')))
+      .returning();
+  }
+
+  // Achievement operations
+  async getAchievementTypes(activeOnly: boolean = false): Promise<AchievementType[]> {
+    return await db
+      .select()
+      .from(achievementTypes)
+      .where(activeOnly ? eq(achievementTypes.isActive, true) : undefined)
+      .orderBy(achievementTypes.category, achievementTypes.name);
+  }
+
+  async getAchievementType(id: string): Promise<AchievementType | undefined> {
+    const [type] = await db.select().from(achievementTypes).where(eq(achievementTypes.id, id));
+    return type || undefined;
+  }
+
+  async createAchievementType(type: InsertAchievementType): Promise<AchievementType> {
+    try {
+      const [created] = await db.insert(achievementTypes).values(type).returning();
+      return created;
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'achievement_types_name_unique') {
+        throw new AchievementError('duplicate_name', `An achievement called "${type.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async updateAchievementType(id: string, updates: Partial<InsertAchievementType>): Promise<AchievementType | undefined> {
+    try {
+      const [updated] = await db
+        .update(achievementTypes)
+        .set(updates)
+        .where(eq(achievementTypes.id, id))
+        .returning();
+      return updated || undefined;
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'achievement_types_name_unique') {
+        throw new AchievementError('duplicate_name', `An achievement called "${updates.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async getAchievementEarnedCounts(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ achievementTypeId: employeeAchievements.achievementTypeId, count: sql<number>`count(*)::int` })
+      .from(employeeAchievements)
+      .where(isNotNull(employeeAchievements.earnedAt))
+      .groupBy(employeeAchievements.achievementTypeId);
+    return Object.fromEntries(rows.map((row) => [row.achievementTypeId, row.count]));
+  }
+
+  // Everyone with gamification stats, i.e. anyone who has earned points
+  async getAchievementCandidateIds(): Promise<string[]> {
+    const rows = await db.select({ userId: employeeStats.userId }).from(employeeStats);
+    return rows.map((row) => row.userId);
+  }
+
+  // Current value of one requirement's metric for a user
+  async measureAchievementCondition(userId: string, condition: AchievementCondition, now: Date): Promise<number> {
+    const since = condition.windowDays ? new Date(now.getTime() - condition.windowDays * 24 * 60 * 60 * 1000) : null;
+
+    switch (condition.metric) {
+      case 'jobs_completed':
+      case 'on_time_completions': {
+        const conditions = [eq(rewards.userId, userId), eq(rewards.rewardType, 'job_completion')];
+        if (since) conditions.push(gte(rewards.earnedDate, since));
+        if (condition.serviceType) conditions.push(eq(leads.serviceType, condition.serviceType));
+        if (condition.metric === 'on_time_completions') conditions.push(sql`${rewards.metadata}->>'onTime' = 'true'`);
+        const [row] = await db
+          .select({ count: sql<number>`count(distinct ${rewards.referenceId})::int` })
+          .from(rewards)
+          .leftJoin(leads, eq(rewards.referenceId, leads.id))
+          .where(and(...conditions));
+        return row?.count || 0;
+      }
+      case 'average_rating':
+      case 'review_count': {
+        const conditions = [eq(reviews.employeeId, userId)];
+        if (since) conditions.push(gte(reviews.createdAt, since));
+        if (condition.metric === 'review_count' && condition.minRating) conditions.push(gte(reviews.rating, condition.minRating));
+        const [row] = await db
+          .select({ count: sql<number>`count(*)::int`, average: sql<string | null>`avg(${reviews.rating})` })
+          .from(reviews)
+          .where(and(...conditions));
+        if (condition.metric === 'review_count') return row?.count || 0;
+        return (row?.count || 0) >= (condition.minReviews || 1) ? parseFloat(row?.average || '0') : 0;
+      }
+      case 'mining_streak': {
+        const [session] = await db.select({ streak: miningSessions.streakCount }).from(miningSessions).where(eq(miningSessions.userId, userId));
+        return session?.streak || 0;
+      }
+      case 'mining_claims': {
+        const conditions = [eq(miningClaims.userId, userId)];
+        if (since) conditions.push(gte(miningClaims.claimTime, since));
+        const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(miningClaims).where(and(...conditions));
+        return row?.count || 0;
+      }
+      case 'checkin_streak':
+      case 'total_points':
+      case 'level': {
+        const [stats] = await db.select().from(employeeStats).where(eq(employeeStats.userId, userId));
+        if (!stats) return 0;
+        if (condition.metric === 'checkin_streak') return stats.longestStreak;
+        return condition.metric === 'total_points' ? stats.totalPoints : stats.currentLevel;
+      }
+    }
+  }
+
+  // Earned achievements and ones in progress, newest activity first
+  async getEmployeeAchievementStatuses(userId: string): Promise<(EmployeeAchievement & { achievementType: AchievementType })[]> {
+    const rows = await db
+      .select({ achievement: employeeAchievements, achievementType: achievementTypes })
+      .from(employeeAchievements)
+      .innerJoin(achievementTypes, eq(employeeAchievements.achievementTypeId, achievementTypes.id))
+      .where(eq(employeeAchievements.userId, userId))
+      .orderBy(desc(employeeAchievements.earnedAt));
+    return rows.map((row) => ({ ...row.achievement, achievementType: row.achievementType }));
+  }
+
+  // Progress is only recorded on achievements that haven't been earned yet
+  async saveAchievementProgress(userId: string, achievementTypeId: string, progress: AchievementProgress): Promise<void> {
+    await db
+      .insert(employeeAchievements)
+      .values({ userId, achievementTypeId, progress })
+      .onConflictDoUpdate({
+        target: [employeeAchievements.userId, employeeAchievements.achievementTypeId],
+        set: { progress },
+        where: isNull(employeeAchievements.earnedAt),
+      });
+  }
+
+  // Returns the achievement only when this call earned it, so concurrent evaluations reward it once
+  async earnAchievement(userId: string, achievementTypeId: string, progress: AchievementProgress): Promise<EmployeeAchievement | undefined> {
+    const [earned] = await db
+      .insert(employeeAchievements)
+      .values({ userId, achievementTypeId, progress, earnedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [employeeAchievements.userId, employeeAchievements.achievementTypeId],
+        set: { progress, earnedAt: new Date() },
+        where: isNull(employeeAchievements.earnedAt),
+      })
+      .returning();
+    return earned || undefined;
+  }
+
+  // Gamification config operations
+  async getGamificationConfig(): Promise<GamificationConfig[]> {
+    return await db.select().from(gamificationConfig).where(eq(gamificationConfig.isActive, true));
+  }
+
+  // Adds settings that aren't stored yet, leaving existing values alone. Returns how many were added
+  async seedGamificationConfig(rows: GamificationConfigRow[]): Promise<number> {
+    if (!rows.length) return 0;
+    const inserted = await db
+      .insert(gamificationConfig)
+      .values(rows)
+      .onConflictDoNothing({ target: gamificationConfig.key })
+      .returning({ id: gamificationConfig.id });
+    return inserted.length;
+  }
+
+  // Writes the changed settings and their audit entries together; rows whose value hasn't changed are skipped
+  async saveGamificationConfig(rows: GamificationConfigRow[], changedBy: string, reason: string | null): Promise<GamificationConfigChange[]> {
+    return await db.transaction(async (tx) => {
+      const changes: GamificationConfigChange[] = [];
+      for (const row of rows) {
+        const [existing] = await tx
+          .select()
+          .from(gamificationConfig)
+          .where(eq(gamificationConfig.key, row.key))
+          .for('update');
+        if (existing?.value === row.value && existing.isActive) continue;
+
+        await tx
+          .insert(gamificationConfig)
+          .values(row)
+          .onConflictDoUpdate({
+            target: gamificationConfig.key,
+            set: { value: row.value, description: row.description, category: row.category, dataType: row.dataType, isActive: true, updatedAt: new Date() },
+          });
+        const [change] = await tx
+          .insert(gamificationConfigChanges)
+          .values({ key: row.key, oldValue: existing?.value ?? null, newValue: row.value, reason, changedBy })
+          .returning();
+        changes.push(change);
+      }
+      return changes;
+    });
+  }
+
+  async getGamificationConfigChanges(limit: number): Promise<GamificationConfigChange[]> {
+    return await db
+      .select()
+      .from(gamificationConfigChanges)
+      .orderBy(desc(gamificationConfigChanges.createdAt))
+      .limit(limit);
+  }
+
+  async getPointTransactionsSince(transactionTypes: string[], since: Date): Promise<PointTransaction[]> {
+    if (!transactionTypes.length) return [];
+    return await db
+      .select()
+      .from(pointTransactions)
+      .where(and(inArray(pointTransactions.transactionType, transactionTypes), gte(pointTransactions.createdAt, since)));
+  }
+
+  async getRewardsSince(rewardType: string, since: Date): Promise<Reward[]> {
+    return await db
+      .select()
+      .from(rewards)
+      .where(and(eq(rewards.rewardType, rewardType), gte(rewards.earnedDate, since)));
+  }
+
+  async getLeaderboardEntriesSince(weekStartDate: string): Promise<WeeklyLeaderboard[]> {
+    return await db
+      .select()
+      .from(weeklyLeaderboards)
+      .where(gte(weeklyLeaderboards.weekStartDate, weekStartDate));
+  }
+
+  async getAllEmployeeStats(): Promise<EmployeeStats[]> {
+    return await db.select().from(employeeStats);
+  }
+
+  // Leaderboard operations
+  // Points, jobs and review average per employee for the week; removed users and anyone without points are left out
+  async getLeaderboardStandings(weekStart: Date, weekEnd: Date): Promise<LeaderboardStanding[]> {
+    const points = await db
+      .select({
+        userId: pointTransactions.userId,
+        pointsEarned: sql<number>`coalesce(sum(${pointTransactions.points}), 0)::int`,
+        jobsCompleted: sql<number>`count(*) filter (where ${pointTransactions.transactionType} = 'job_completion')::int`,
+        lastPointsAt: sql<Date | null>`max(${pointTransactions.createdAt})`.mapWith((value) => value ? new Date(value) : null),
+      })
+      .from(pointTransactions)
+      .innerJoin(users, eq(pointTransactions.userId, users.id))
+      .where(and(
+        gte(pointTransactions.createdAt, weekStart),
+        lt(pointTransactions.createdAt, weekEnd),
+        sql`${users.status} <> 'removed'`,
+      ))
+      .groupBy(pointTransactions.userId);
+
+    const ratings = await db
+      .select({ employeeId: reviews.employeeId, average: sql<string>`avg(${reviews.rating})` })
+      .from(reviews)
+      .where(and(gte(reviews.createdAt, weekStart), lt(reviews.createdAt, weekEnd)))
+      .groupBy(reviews.employeeId);
+    const averages = new Map(ratings.map((row) => [row.employeeId, parseFloat(row.average)]));
+
+    return points
+      .filter((row) => row.pointsEarned > 0)
+      .map((row) => ({ ...row, averageRating: Math.round((averages.get(row.userId) || 0) * 100) / 100 }));
+  }
+
+  // Freezes a week's ranks. Throws LeaderboardError if the week was already closed, e.g. by another server
+  async closeLeaderboardWeek(close: NewLeaderboardWeekClose, entries: NewLeaderboardEntry[]): Promise<{ close: LeaderboardWeekClose; entries: WeeklyLeaderboard[] }> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(leaderboardWeekCloses).values(close).returning();
+        const rows = entries.length
+          ? await tx
+            .insert(weeklyLeaderboards)
+            .values(entries.map((entry) => ({ ...entry, weekStartDate: close.weekStartDate, weekEndDate: close.weekEndDate })))
+            .returning()
+          : [];
+        return { close: created, entries: rows.sort((a, b) => (a.rank || 0) - (b.rank || 0)) };
+      });
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'unique_leaderboard_week_close') {
+        throw new LeaderboardError('already_closed', `The week of ${close.weekStartDate} has already been closed`);
+      }
+      throw error;
+    }
+  }
+
+  async getLeaderboardWeekClose(weekStartDate: string): Promise<LeaderboardWeekClose | undefined> {
+    const [close] = await db.select().from(leaderboardWeekCloses).where(eq(leaderboardWeekCloses.weekStartDate, weekStartDate));
+    return close || undefined;
+  }
+
+  async getLeaderboardWeekCloses(limit: number): Promise<LeaderboardWeekClose[]> {
+    return await db
+      .select()
+      .from(leaderboardWeekCloses)
+      .orderBy(desc(leaderboardWeekCloses.weekStartDate))
+      .limit(limit);
+  }
+
+  // Every closed week, oldest first
+  async getClosedLeaderboardWeekStartDates(): Promise<string[]> {
+    const rows = await db
+      .select({ weekStartDate: leaderboardWeekCloses.weekStartDate })
+      .from(leaderboardWeekCloses)
+      .orderBy(leaderboardWeekCloses.weekStartDate);
+    return rows.map((row) => row.weekStartDate);
+  }
+
+  async getLeaderboardEntries(weekStartDate: string): Promise<WeeklyLeaderboard[]> {
+    return await db
+      .select()
+      .from(weeklyLeaderboards)
+      .where(eq(weeklyLeaderboards.weekStartDate, weekStartDate))
+      .orderBy(weeklyLeaderboards.rank);
+  }
+
+  // Prizes not yet paid and not currently being paid, oldest week first
+  async getUnpaidLeaderboardPrizes(limit: number): Promise<WeeklyLeaderboard[]> {
+    return await db
+      .select()
+      .from(weeklyLeaderboards)
+      .where(and(
+        gt(weeklyLeaderboards.tokenReward, '0'),
+        isNull(weeklyLeaderboards.paidAt),
+        isNull(weeklyLeaderboards.payoutClaimedAt),
+      ))
+      .orderBy(weeklyLeaderboards.weekStartDate, weeklyLeaderboards.rank)
+      .limit(limit);
+  }
+
+  async getStaleLeaderboardPayouts(claimedBefore: Date, limit: number): Promise<WeeklyLeaderboard[]> {
+    return await db
+      .select()
+      .from(weeklyLeaderboards)
+      .where(and(isNull(weeklyLeaderboards.paidAt), lt(weeklyLeaderboards.payoutClaimedAt, claimedBefore)))
+      .limit(limit);
+  }
+
+  // Compare-and-set, so two workers can't both pay the same prize
+  async claimLeaderboardPayout(id: string): Promise<WeeklyLeaderboard | undefined> {
+    const [entry] = await db
+      .update(weeklyLeaderboards)
+      .set({ payoutClaimedAt: new Date() })
+      .where(and(eq(weeklyLeaderboards.id, id), isNull(weeklyLeaderboards.paidAt), isNull(weeklyLeaderboards.payoutClaimedAt)))
+      .returning();
+    return entry || undefined;
+  }
+
+  async completeLeaderboardPayout(id: string, transactionId: string): Promise<WeeklyLeaderboard | undefined> {
+    const [entry] = await db
+      .update(weeklyLeaderboards)
+      .set({ paidAt: new Date(), payoutTransactionId: transactionId, payoutError: null })
+      .where(and(eq(weeklyLeaderboards.id, id), isNull(weeklyLeaderboards.paidAt)))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Releases the claim so the next run retries, keeping why the attempt failed
+  async cancelLeaderboardPayout(id: string, error: string | null): Promise<WeeklyLeaderboard | undefined> {
+    const [entry] = await db
+      .update(weeklyLeaderboards)
+      .set({ payoutClaimedAt: null, payoutError: error })
+      .where(and(eq(weeklyLeaderboards.id, id), isNull(weeklyLeaderboards.paidAt)))
+      .returning();
+    return entry || undefined;
+  }
+
+  // The reserve transaction that paid this prize, for settling payouts interrupted mid-distribution
+  async findLeaderboardPayoutTransaction(id: string): Promise<string | undefined> {
+    const [transaction] = await db
+      .select({ id: reserveTransactions.id })
+      .from(reserveTransactions)
+      .where(and(eq(reserveTransactions.relatedEntityType, 'weekly_leaderboard'), eq(reserveTransactions.relatedEntityId, id)))
+      .limit(1);
+    return transaction?.id;
+  }
+
+  // Competition operations
+  // Throws CompetitionError if an employee is on two teams
+  async createCompetition(competition: InsertCompetition, teams: CompetitionTeamInput[]): Promise<Competition> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [created] = await tx.insert(competitions).values(competition).returning();
+        for (const team of teams) {
+          const [createdTeam] = await tx.insert(competitionTeams).values({ competitionId: created.id, name: team.name }).returning();
+          await tx
+            .insert(competitionTeamMembers)
+            .values(team.memberIds.map((userId) => ({ competitionId: created.id, teamId: createdTeam.id, userId })));
+        }
+        return created;
+      });
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'unique_competition_team_member') {
+        throw new CompetitionError('invalid_participants', 'An employee can only be on one team');
+      }
+      throw error;
+    }
+  }
+
+  async getCompetition(id: string): Promise<Competition | undefined> {
+    const [competition] = await db.select().from(competitions).where(eq(competitions.id, id));
+    return competition || undefined;
+  }
+
+  async getCompetitions(limit: number): Promise<Competition[]> {
+    return await db.select().from(competitions).orderBy(desc(competitions.startsAt)).limit(limit);
+  }
+
+  async getOpenCompetitions(): Promise<Competition[]> {
+    return await db.select().from(competitions).where(eq(competitions.status, 'open')).orderBy(competitions.endsAt);
+  }
+
+  // Completed competitions that ended after a date, most recent first
+  async getCompetitionsSince(endedAfter: Date): Promise<Competition[]> {
+    return await db
+      .select()
+      .from(competitions)
+      .where(and(eq(competitions.status, 'completed'), gte(competitions.endsAt, endedAfter)))
+      .orderBy(desc(competitions.endsAt));
+  }
+
+  async getEndedOpenCompetitions(now: Date, limit: number): Promise<Competition[]> {
+    return await db
+      .select()
+      .from(competitions)
+      .where(and(eq(competitions.status, 'open'), lte(competitions.endsAt, now)))
+      .orderBy(competitions.endsAt)
+      .limit(limit);
+  }
+
+  async getCompetitionTeams(competitionId: string): Promise<(CompetitionTeam & { memberIds: string[] })[]> {
+    const teams = await db.select().from(competitionTeams).where(eq(competitionTeams.competitionId, competitionId)).orderBy(competitionTeams.name);
+    const members = await db.select().from(competitionTeamMembers).where(eq(competitionTeamMembers.competitionId, competitionId));
+    return teams.map((team) => ({
+      ...team,
+      memberIds: members.filter((member) => member.teamId === team.id).map((member) => member.userId),
+    }));
+  }
+
+  // Each employee's metric over [startsAt, endsAt), limited to userIds when given; removed users are left out
+  async getCompetitionScores(metric: CompetitionMetric, startsAt: Date, endsAt: Date, userIds: string[] | null): Promise<CompetitionScore[]> {
+    if (userIds && !userIds.length) return [];
+
+    switch (metric) {
+      case 'jobs_completed':
+      case 'on_time_completions':
+      case 'damage_free_jobs': {
+        const conditions = [
+          eq(rewards.rewardType, 'job_completion'),
+          gte(rewards.earnedDate, startsAt),
+          lt(rewards.earnedDate, endsAt),
+          sql`${users.status} <> 'removed'`,
+        ];
+        if (userIds) conditions.push(inArray(rewards.userId, userIds));
+        if (metric === 'on_time_completions') conditions.push(sql`${rewards.metadata}->>'onTime' = 'true'`);
+        if (metric === 'damage_free_jobs') conditions.push(sql`coalesce(${invoices.damagesTotal}, 0) = 0`);
+        const rows = await db
+          .select({ userId: rewards.userId, count: sql<number>`count(distinct ${rewards.referenceId})::int` })
+          .from(rewards)
+          .innerJoin(users, eq(rewards.userId, users.id))
+          .leftJoin(invoices, eq(invoices.leadId, rewards.referenceId))
+          .where(and(...conditions))
+          .groupBy(rewards.userId);
+        return rows.map((row) => ({ userId: row.userId, score: row.count, sampleSize: row.count }));
+      }
+      case 'five_star_reviews':
+      case 'average_rating': {
+        const conditions = [gte(reviews.createdAt, startsAt), lt(reviews.createdAt, endsAt), sql`${users.status} <> 'removed'`];
+        if (userIds) conditions.push(inArray(reviews.employeeId, userIds));
+        if (metric === 'five_star_reviews') conditions.push(eq(reviews.rating, 5));
+        const rows = await db
+          .select({ userId: reviews.employeeId, count: sql<number>`count(*)::int`, average: sql<string>`avg(${reviews.rating})` })
+          .from(reviews)
+          .innerJoin(users, eq(reviews.employeeId, users.id))
+          .where(and(...conditions))
+          .groupBy(reviews.employeeId);
+        return rows.map((row) => ({
+          userId: row.userId,
+          score: metric === 'average_rating' ? Math.round(parseFloat(row.average) * 100) / 100 : row.count,
+          sampleSize: row.count,
+        }));
+      }
+      case 'points_earned': {
+        const conditions = [gte(pointTransactions.createdAt, startsAt), lt(pointTransactions.createdAt, endsAt), sql`${users.status} <> 'removed'`];
+        if (userIds) conditions.push(inArray(pointTransactions.userId, userIds));
+        const rows = await db
+          .select({ userId: pointTransactions.userId, points: sql<number>`coalesce(sum(${pointTransactions.points}), 0)::int` })
+          .from(pointTransactions)
+          .innerJoin(users, eq(pointTransactions.userId, users.id))
+          .where(and(...conditions))
+          .groupBy(pointTransactions.userId);
+        return rows.map((row) => ({ userId: row.userId, score: row.points, sampleSize: Math.max(row.points, 0) }));
+      }
+    }
+  }
+
+  // Freezes the results. Throws CompetitionError if the competition was already closed or cancelled, e.g. by another server
+  async closeCompetition(id: string, closedBy: string | null, results: NewCompetitionResult[]): Promise<{ competition: Competition; results: CompetitionResult[] }> {
+    return await db.transaction(async (tx) => {
+      const participantCount = new Set(results.map((result) => result.teamId || result.userId)).size;
+      const [competition] = await tx
+        .update(competitions)
+        .set({ status: 'completed', closedBy, closedAt: new Date(), participantCount, updatedAt: new Date() })
+        .where(and(eq(competitions.id, id), eq(competitions.status, 'open')))
+        .returning();
+      if (!competition) {
+        throw new CompetitionError('already_closed', 'This competition has already been closed or cancelled');
+      }
+
+      const rows = results.length
+        ? await tx.insert(competitionResults).values(results.map((result) => ({ ...result, competitionId: id }))).returning()
+        : [];
+      return { competition, results: rows.sort((a, b) => a.rank - b.rank) };
+    });
+  }
+
+  // Only open competitions can be cancelled; nothing has been paid out for them yet
+  async cancelCompetition(id: string, cancelledBy: string): Promise<Competition | undefined> {
+    const [competition] = await db
+      .update(competitions)
+      .set({ status: 'cancelled', cancelledBy, cancelledAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(competitions.id, id), eq(competitions.status, 'open')))
+      .returning();
+    return competition || undefined;
+  }
+
+  async getCompetitionResults(competitionId: string): Promise<CompetitionResult[]> {
+    return await db
+      .select()
+      .from(competitionResults)
+      .where(eq(competitionResults.competitionId, competitionId))
+      .orderBy(competitionResults.rank);
+  }
+
+  // Prizes not yet paid and not currently being paid, oldest first
+  async getUnpaidCompetitionPrizes(limit: number): Promise<CompetitionResult[]> {
+    return await db
+      .select()
+      .from(competitionResults)
+      .where(and(
+        gt(competitionResults.prizeTokens, '0'),
+        isNull(competitionResults.paidAt),
+        isNull(competitionResults.payoutClaimedAt),
+      ))
+      .orderBy(competitionResults.createdAt, competitionResults.rank)
+      .limit(limit);
+  }
+
+  async getStaleCompetitionPayouts(claimedBefore: Date, limit: number): Promise<CompetitionResult[]> {
+    return await db
+      .select()
+      .from(competitionResults)
+      .where(and(isNull(competitionResults.paidAt), lt(competitionResults.payoutClaimedAt, claimedBefore)))
+      .limit(limit);
+  }
+
+  // Compare-and-set, so two workers can't both pay the same prize
+  async claimCompetitionPayout(id: string): Promise<CompetitionResult | undefined> {
+    const [result] = await db
+      .update(competitionResults)
+      .set({ payoutClaimedAt: new Date() })
+      .where(and(eq(competitionResults.id, id), isNull(competitionResults.paidAt), isNull(competitionResults.payoutClaimedAt)))
+      .returning();
+    return result || undefined;
+  }
 
-      // Update treasury account with locked row
-      // Note: availableFunding is kept at historical book value ($0.00), actual balance is calculated as totalFunding - totalDistributed
-      await tx
-        .update(treasuryAccounts)
-        .set({
-          tokenReserve: newTokenReserve.toFixed(8),
-          totalDistributed: (parseFloat(treasury.totalDistributed) + cashValue).toFixed(2),
-          updatedAt: new Date()
-        })
-        .where(eq(treasuryAccounts.id, treasury.id));
+  async completeCompetitionPayout(id: string, transactionId: string): Promise<CompetitionResult | undefined> {
+    const [result] = await db
+      .update(competitionResults)
+      .set({ paidAt: new Date(), payoutTransactionId: transactionId, payoutError: null })
+      .where(and(eq(competitionResults.id, id), isNull(competitionResults.paidAt)))
+      .returning();
+    return result || undefined;
+  }
 
-      // Create reserve transaction record
-      const [transaction] = await tx
-        .insert(reserveTransactions)
-        .values({
-          treasuryAccountId: treasury.id,
-          transactionType: 'distribution',
-          relatedEntityType,
-          relatedEntityId,
-          tokenAmount: tokenAmount.toFixed(8),
-          cashValue: cashValue.toFixed(2),
-          balanceAfter: newBalance.toFixed(2),
-          tokenReserveAfter: newTokenReserve.toFixed(8),
-          description
-        })
-        .returning();
+  // Releases the claim so the next run retries, keeping why the attempt failed
+  async cancelCompetitionPayout(id: string, error: string | null): Promise<CompetitionResult | undefined> {
+    const [result] = await db
+      .update(competitionResults)
+      .set({ payoutClaimedAt: null, payoutError: error })
+      .where(and(eq(competitionResults.id, id), isNull(competitionResults.paidAt)))
+      .returning();
+    return result || undefined;
+  }
 
-      return transaction;
-    });
+  // The reserve transaction that paid this prize, for settling payouts interrupted mid-distribution
+  async findCompetitionPayoutTransaction(id: string): Promise<string | undefined> {
+    const [transaction] = await db
+      .select({ id: reserveTransactions.id })
+      .from(reserveTransactions)
+      .where(and(eq(reserveTransactions.relatedEntityType, 'competition_prize'), eq(reserveTransactions.relatedEntityId, id)))
+      .limit(1);
+    return transaction?.id;
   }
 
-  async addToReserve(tokenAmount: number, cashValue: number, description: string): Promise<ReserveTransaction> {
-    return await db.transaction(async (tx) => {
-      // Lock and get current treasury state
-      const [treasury] = await tx
-        .select()
-        .from(treasuryAccounts)
-        .where(eq(treasuryAccounts.isActive, true))
-        .orderBy(treasuryAccounts.createdAt)
-        .limit(1)
-        .for('update'); // Row-level lock to prevent race conditions
+  // Mining boost operations
+  async getMiningBoostActivity(userId: string, since: Date): Promise<MiningBoostActivity> {
+    // A job can have several job_completion rewards (base reward and bonuses); it counts once, from the first
+    const jobs = await db
+      .select({ completedAt: sql<Date>`min(${rewards.earnedDate})`.mapWith((value) => new Date(value)) })
+      .from(rewards)
+      .where(and(eq(rewards.userId, userId), eq(rewards.rewardType, 'job_completion'), gte(rewards.earnedDate, since)))
+      .groupBy(rewards.referenceId)
+      .orderBy(desc(sql`min(${rewards.earnedDate})`));
 
-      if (!treasury) {
-        throw new Error("No active treasury account found");
-      }
+    const employeeReviews = await db
+      .select({ rating: reviews.rating, createdAt: reviews.createdAt })
+      .from(reviews)
+      .where(and(eq(reviews.employeeId, userId), gte(reviews.createdAt, since)))
+      .orderBy(desc(reviews.createdAt));
 
-      // Calculate new balances (availableFunding is kept at historical book value, actual balance is totalFunding - totalDistributed)
-      const totalFunding = parseFloat(treasury.totalFunding);
-      const totalDistributed = parseFloat(treasury.totalDistributed);
-      const newBalance = (totalFunding + cashValue) - totalDistributed;
-      const newTokenReserve = parseFloat(treasury.tokenReserve) + tokenAmount;
+    const referrals = await db
+      .select({ earnedDate: rewards.earnedDate })
+      .from(rewards)
+      .where(and(eq(rewards.userId, userId), eq(rewards.rewardType, 'referral_bonus'), gte(rewards.earnedDate, since)))
+      .orderBy(desc(rewards.earnedDate));
 
-      // Update treasury account with locked row
-      // Note: availableFunding is kept at historical book value, only totalFunding is updated
+    return {
+      jobCompletedAt: jobs.map((job) => job.completedAt),
+      reviews: employeeReviews,
+      referredAt: referrals.map((referral) => referral.earnedDate),
+    };
+  }
+
+  async getMiningBoosts(userId: string): Promise<MiningBoost[]> {
+    return await db.select().from(miningBoosts).where(eq(miningBoosts.userId, userId)).orderBy(desc(miningBoosts.multiplier));
+  }
+
+  // Makes the user's boosts exactly the ones given; sources no longer earned are removed, and a source
+  // that's still earned keeps its row (and when it was first earned) with the new tier and expiry
+  async replaceMiningBoosts(userId: string, boosts: EarnedMiningBoost[]): Promise<MiningBoost[]> {
+    return await db.transaction(async (tx) => {
+      const sources = boosts.map((boost) => boost.source);
       await tx
-        .update(treasuryAccounts)
-        .set({
-          tokenReserve: newTokenReserve.toFixed(8),
-          totalFunding: (parseFloat(treasury.totalFunding) + cashValue).toFixed(2),
-          updatedAt: new Date()
-        })
-        .where(eq(treasuryAccounts.id, treasury.id));
+        .delete(miningBoosts)
+        .where(sources.length
+          ? and(eq(miningBoosts.userId, userId), notInArray(miningBoosts.source, sources))
+          : eq(miningBoosts.userId, userId));
 
-      // Create reserve transaction record
-      const [transaction] = await tx
-        .insert(reserveTransactions)
-        .values({
-          treasuryAccountId: treasury.id,
-          transactionType: 'deposit',
-          tokenAmount: tokenAmount.toFixed(8),
-          cashValue: cashValue.toFixed(2),
-          balanceAfter: newBalance.toFixed(2),
-          tokenReserveAfter: newTokenReserve.toFixed(8),
-          description
-        })
-        .returning();
+      for (const boost of boosts) {
+        await tx
+          .insert(miningBoosts)
+          .values({ userId, ...boost })
+          .onConflictDoUpdate({
+            target: [miningBoosts.userId, miningBoosts.source],
+            set: { multiplier: boost.multiplier, description: boost.description, expiresAt: boost.expiresAt, updatedAt: new Date() },
+          });
+      }
 
-      return transaction;
+      return await tx.select().from(miningBoosts).where(eq(miningBoosts.userId, userId)).orderBy(desc(miningBoosts.multiplier));
     });
   }
 
-  async atomicDepositFunds(depositedBy: string, usdAmount: number, depositMethod: string = 'manual', notes?: string): Promise<FundingDeposit> {
-    const tokensPurchased = usdAmount / TREASURY_CONFIG.FALLBACK_TOKEN_PRICE;
-    
+  // Peer transfer operations
+  // Usernames match regardless of case; referral codes are stored upper-case
+  async getUserByUsernameOrReferralCode(identifier: string): Promise<User | undefined> {
+    const value = identifier.trim().replace(/^@/, '');
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(or(sql`lower(${users.username}) = ${value.toLowerCase()}`, eq(users.referralCode, value.toUpperCase())))
+      .limit(1);
+    return user || undefined;
+  }
+
+  // Throws PeerTransferError when the transfer would go over a daily limit, or LedgerError when the sender's balance is short
+  async recordPeerTransfer(transfer: NewPeerTransfer, limits: PeerTransferLimits): Promise<PeerTransfer> {
     return await db.transaction(async (tx) => {
-      // Lock treasury account for update
-      const [treasury] = await tx
-        .select()
-        .from(treasuryAccounts)
-        .where(eq(treasuryAccounts.isActive, true))
-        .orderBy(treasuryAccounts.createdAt)
-        .limit(1)
-        .for('update');
+      // Serializes a sender's transfers so two can't both fit under the same limit
+      await tx.select({ id: walletAccounts.id }).from(walletAccounts).where(eq(walletAccounts.userId, transfer.senderId)).for('update');
 
-      if (!treasury) {
-        throw new Error("No active treasury account found");
+      const { sentTodayTokens, sentTodayCount } = await readPeerTransferUsage(tx, transfer.senderId, limits.dayStart);
+      if (sentTodayCount >= limits.dailyCount) {
+        throw new PeerTransferError('limit_exceeded', `You can send up to ${limits.dailyCount} transfers a day`);
+      }
+      const amount = parseFloat(transfer.amount);
+      if (sentTodayTokens + amount > limits.dailyTokens) {
+        throw new PeerTransferError('limit_exceeded', `Daily transfer limit is ${limits.dailyTokens} JCMOVES; ${Math.max(0, limits.dailyTokens - sentTodayTokens)} left today`);
       }
 
-      // Create funding deposit record
-      const [deposit] = await tx
-        .insert(fundingDeposits)
-        .values({
-          treasuryAccountId: treasury.id,
-          depositedBy,
-          depositAmount: usdAmount.toFixed(2),
-          tokensPurchased: tokensPurchased.toFixed(8),
-          tokenPrice: TREASURY_CONFIG.FALLBACK_TOKEN_PRICE.toFixed(8),
-          depositMethod,
-          status: 'completed',
-          notes
-        })
-        .returning();
+      const posted = await postLedgerEntry(tx, {
+        entryType: 'transfer',
+        description: `Transfer of ${transfer.amount} JCMOVES between users`,
+        relatedEntityType: 'peer_transfer',
+        relatedEntityId: transfer.id,
+        createdBy: transfer.senderId,
+        metadata: transfer.memo ? { memo: transfer.memo } : undefined,
+        postings: [
+          { account: userRewardsAccount(transfer.senderId), amount: -amount },
+          { account: userRewardsAccount(transfer.recipientId), amount },
+        ],
+      });
 
-      // Update treasury balances
-      // Calculate actual balance for transaction record (availableFunding is kept at historical book value)
-      const totalFunding = parseFloat(treasury.totalFunding);
-      const totalDistributed = parseFloat(treasury.totalDistributed);
-      const newBalance = (totalFunding + usdAmount) - totalDistributed;
-      const newTokenReserve = parseFloat(treasury.tokenReserve) + tokensPurchased;
+      const [created] = await tx
+        .insert(peerTransfers)
+        .values({ ...transfer, ledgerEntryId: posted.id })
+        .returning();
+      return created;
+    });
+  }
 
-      await tx
-        .update(treasuryAccounts)
-        .set({
-          tokenReserve: newTokenReserve.toFixed(8),
-          totalFunding: (parseFloat(treasury.totalFunding) + usdAmount).toFixed(2),
-          updatedAt: new Date()
-        })
-        .where(eq(treasuryAccounts.id, treasury.id));
+  async getPeerTransfers(userId: string, limit: number): Promise<PeerTransfer[]> {
+    return await db
+      .select()
+      .from(peerTransfers)
+      .where(or(eq(peerTransfers.senderId, userId), eq(peerTransfers.recipientId, userId)))
+      .orderBy(desc(peerTransfers.createdAt))
+      .limit(limit);
+  }
 
-      // Create reserve transaction record
-      await tx
-        .insert(reserveTransactions)
-        .values({
-          treasuryAccountId: treasury.id,
-          transactionType: 'deposit',
-          relatedEntityType: 'funding_deposit',
-          relatedEntityId: deposit.id,
-          tokenAmount: tokensPurchased.toFixed(8),
-          cashValue: usdAmount.toFixed(2),
-          balanceAfter: newBalance.toFixed(2),
-          tokenReserveAfter: newTokenReserve.toFixed(8),
-          description: `Funding deposit: $${usdAmount.toFixed(2)} (${tokensPurchased.toFixed(0)} tokens)`
-        });
+  async getPeerTransferUsage(senderId: string, dayStart: Date): Promise<{ sentTodayTokens: number; sentTodayCount: number }> {
+    return await readPeerTransferUsage(db, senderId, dayStart);
+  }
 
-      return deposit;
-    });
+  async createFraudLog(log: InsertFraudLog): Promise<FraudLog> {
+    const [created] = await db.insert(fraudLogs).values(log).returning();
+    return created;
   }
 
   // Faucet operations implementation
@@ -1686,7 +5167,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(employeeAchievements)
       .leftJoin(achievementTypes, eq(employeeAchievements.achievementTypeId, achievementTypes.id))
-      .where(eq(employeeAchievements.userId, userId))
+      .where(and(eq(employeeAchievements.userId, userId), isNotNull(employeeAchievements.earnedAt)))
       .orderBy(desc(employeeAchievements.earnedAt))
       .limit(limit);
     
@@ -1710,49 +5191,17 @@ export class DatabaseStorage implements IStorage {
     return achievement || undefined;
   }
 
-  async createEmployeeAchievement(achievement: InsertEmployeeAchievement): Promise<EmployeeAchievement> {
-    const [created] = await db
-      .insert(employeeAchievements)
-      .values(achievement)
-      .returning();
-    return created;
-  }
-
-  async getAchievementByKey(key: string): Promise<AchievementType | undefined> {
-    const [achievement] = await db
-      .select()
-      .from(achievementTypes)
-      .where(eq(achievementTypes.name, key));
-    return achievement || undefined;
-  }
-
-  async getWeeklyLeaderboard(limit: number = 10): Promise<WeeklyLeaderboard[]> {
-    return await db
-      .select()
-      .from(weeklyLeaderboards)
-      .orderBy(desc(weeklyLeaderboards.rank))
-      .limit(limit);
-  }
-
+  // Where the user stands in the current week's live standings
   async getWeeklyRank(userId: string): Promise<{ rank: number; totalEmployees: number; weeklyPoints: number } | null> {
-    const [result] = await db
-      .select()
-      .from(weeklyLeaderboards)
-      .where(eq(weeklyLeaderboards.userId, userId))
-      .orderBy(desc(weeklyLeaderboards.weekStartDate))
-      .limit(1);
-    
-    if (!result) return null;
-    
-    const totalEmployees = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(weeklyLeaderboards)
-      .where(eq(weeklyLeaderboards.weekStartDate, result.weekStartDate));
-    
+    const weekStart = getLeaderboardWeekStart();
+    const standings = rankLeaderboardStandings(await this.getLeaderboardStandings(weekStart, getLeaderboardWeekEnd(weekStart)));
+    const standing = standings.find((entry) => entry.userId === userId);
+    if (!standing) return null;
+
     return {
-      rank: result.rank || 0,
-      totalEmployees: totalEmployees[0]?.count || 0,
-      weeklyPoints: result.pointsEarned
+      rank: standing.rank,
+      totalEmployees: standings.length,
+      weeklyPoints: standing.pointsEarned
     };
   }
 
@@ -1791,23 +5240,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async awardJobCompletionTokens(userId: string, tokenAmount: number, jobId: string): Promise<void> {
-    // Get or create user's wallet
-    let wallet = await this.getWalletAccount(userId);
-    if (!wallet) {
-      wallet = await this.createWalletAccount({ userId });
-    }
-
-    // Calculate new balances
-    const currentBalance = parseFloat(wallet.tokenBalance || "0");
-    const currentEarned = parseFloat(wallet.totalEarned || "0");
-    const newBalance = currentBalance + tokenAmount;
-    const newTotalEarned = currentEarned + tokenAmount;
-
-    // Update wallet balance
-    await this.updateWalletAccount(userId, {
-      tokenBalance: newBalance.toFixed(8),
-      totalEarned: newTotalEarned.toFixed(8),
-    });
+    // Pay from the treasury reserve into the user's wallet
+    await this.deductFromReserve(
+      tokenAmount,
+      `Job completion reward - Job #${jobId}`,
+      TREASURY_CONFIG.FALLBACK_TOKEN_PRICE,
+      'job_completion',
+      jobId,
+      userRewardsAccount(userId)
+    );
 
     // Create reward record for tracking
     await db.insert(rewards).values({
@@ -1868,14 +5309,18 @@ export class DatabaseStorage implements IStorage {
     return newWallet;
   }
 
-  async updateUserWalletBalance(walletId: string, newBalance: string): Promise<void> {
-    await db.update(userWallets)
-      .set({ 
-        balance: newBalance,
-        updatedAt: sql`now()`,
-        lastSyncedAt: sql`now()`
-      })
-      .where(eq(userWallets.id, walletId));
+  async updateUserWallet(id: string, changes: UserWalletChanges): Promise<UserWallet | undefined> {
+    const [wallet] = await db
+      .update(userWallets)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(userWallets.id, id))
+      .returning();
+    return wallet || undefined;
+  }
+
+  async getActiveUserWalletsByCurrency(currencyId: string): Promise<UserWallet[]> {
+    return await db.select().from(userWallets)
+      .where(and(eq(userWallets.currencyId, currencyId), eq(userWallets.isActive, true)));
   }
 
   async createWalletTransaction(transaction: InsertWalletTransaction): Promise<WalletTransaction> {
@@ -1890,6 +5335,105 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async updateWalletTransaction(id: string, changes: WalletTransactionChanges): Promise<WalletTransaction | undefined> {
+    const [transaction] = await db
+      .update(walletTransactions)
+      .set(changes)
+      .where(eq(walletTransactions.id, id))
+      .returning();
+    return transaction || undefined;
+  }
+
+  async recordPendingDeposit(deposit: NewPendingDeposit): Promise<WalletTransaction | undefined> {
+    const wallet = await this.getUserWalletById(deposit.userWalletId);
+    if (!wallet) return undefined;
+
+    // Nothing is credited yet, so the balance shown against the pending row is the current one
+    const [transaction] = await db
+      .insert(walletTransactions)
+      .values({
+        userWalletId: deposit.userWalletId,
+        transactionType: 'deposit',
+        transactionHash: deposit.signature,
+        amount: deposit.amount,
+        balanceAfter: wallet.balance,
+        fromAddress: deposit.fromAddress,
+        toAddress: deposit.toAddress,
+        status: 'pending',
+        blockNumber: deposit.blockNumber,
+        confirmations: deposit.confirmations,
+        metadata: { ...deposit.metadata, source: 'onchain' },
+      })
+      .onConflictDoNothing()
+      .returning();
+    return transaction || undefined;
+  }
+
+  async getPendingDeposits(userWalletId?: string, limit: number = 50): Promise<WalletTransaction[]> {
+    const conditions = [
+      eq(walletTransactions.transactionType, 'deposit'),
+      eq(walletTransactions.status, 'pending'),
+      isNotNull(walletTransactions.transactionHash),
+    ];
+    if (userWalletId) {
+      conditions.push(eq(walletTransactions.userWalletId, userWalletId));
+    }
+    return await db.select().from(walletTransactions)
+      .where(and(...conditions))
+      .orderBy(walletTransactions.createdAt)
+      .limit(limit);
+  }
+
+  async creditPendingDeposit(transactionId: string, entry: NewLedgerEntry, changes: WalletTransactionChanges): Promise<WalletTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx.select().from(walletTransactions).where(eq(walletTransactions.id, transactionId)).for('update');
+      // Already credited or given up on; crediting twice would post the entry twice
+      if (!pending || pending.status !== 'pending' || !pending.userWalletId) {
+        return undefined;
+      }
+
+      const posted = await postLedgerEntry(tx, entry);
+      const [credited] = await tx
+        .update(walletTransactions)
+        .set({
+          ...changes,
+          status: 'confirmed',
+          balanceAfter: posted.balances[getLedgerAccountKey(userWalletAccount(pending.userWalletId))],
+          metadata: { ...(pending.metadata as any), ...(changes.metadata as any), ledgerEntryId: posted.id },
+        })
+        .where(eq(walletTransactions.id, transactionId))
+        .returning();
+      return credited;
+    });
+  }
+
+  // Recorded against the treasury wallet rather than the user's, since the user's balance doesn't change
+  async recordDepositSweep(sweep: NewDepositSweep): Promise<WalletTransaction> {
+    const [treasuryWallet] = await db.select().from(treasuryWallets).where(eq(treasuryWallets.id, sweep.treasuryWalletId));
+    const [transaction] = await db
+      .insert(walletTransactions)
+      .values({
+        treasuryWalletId: sweep.treasuryWalletId,
+        transactionType: 'deposit_sweep',
+        transactionHash: sweep.signature,
+        amount: sweep.amount,
+        balanceAfter: treasuryWallet?.balance || '0.00000000',
+        fromAddress: sweep.fromAddress,
+        toAddress: sweep.toAddress,
+        status: 'pending',
+        metadata: { userWalletId: sweep.userWalletId, lastValidBlockHeight: sweep.lastValidBlockHeight },
+      })
+      .returning();
+    return transaction;
+  }
+
+  async getPendingDepositSweeps(limit: number = 50): Promise<WalletTransaction[]> {
+    return await db.select().from(walletTransactions)
+      .where(and(eq(walletTransactions.transactionType, 'deposit_sweep'), eq(walletTransactions.status, 'pending')))
+      .orderBy(walletTransactions.createdAt)
+      .limit(limit);
+  }
+
   // Treasury wallet operations
   async getTreasuryWallets(roleScope?: string): Promise<(TreasuryWallet & { currency: SupportedCurrency })[]> {
     const conditions = [eq(treasuryWallets.isActive, true)];
@@ -1946,11 +5490,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Price history operations
-  async addPricePoint(priceUsd: string, source: string, marketData?: any): Promise<void> {
-    await db.execute(sql`
-      INSERT INTO price_history (price_usd, source, market_data)
-      VALUES (${priceUsd}, ${source}, ${marketData ? JSON.stringify(marketData) : null})
-    `);
+  async addPricePoint(priceUsd: string, source: string, marketData?: any): Promise<PriceHistory> {
+    const [point] = await db
+      .insert(priceHistory)
+      .values({ priceUsd, source, marketData: marketData || null })
+      .returning();
+    return point;
   }
 
   async getPriceHistory(hours: number = 24): Promise<Array<{ timestamp: Date; price: number; source: string }>> {
@@ -1976,6 +5521,36 @@ export class DatabaseStorage implements IStorage {
     `);
   }
 
+  async getActivePriceOverride(now: Date = new Date()): Promise<PriceOracleOverride | undefined> {
+    const [override] = await db
+      .select()
+      .from(priceOracleOverrides)
+      .where(and(isNull(priceOracleOverrides.clearedAt), gt(priceOracleOverrides.expiresAt, now)))
+      .orderBy(desc(priceOracleOverrides.createdAt))
+      .limit(1);
+    return override || undefined;
+  }
+
+  // A new override replaces any that are still active
+  async createPriceOverride(override: { priceUsd: string; reason: string; setBy: string; expiresAt: Date }): Promise<PriceOracleOverride> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(priceOracleOverrides)
+        .set({ clearedBy: override.setBy, clearedAt: new Date() })
+        .where(isNull(priceOracleOverrides.clearedAt));
+      const [created] = await tx.insert(priceOracleOverrides).values(override).returning();
+      return created;
+    });
+  }
+
+  async clearPriceOverrides(clearedBy: string): Promise<PriceOracleOverride[]> {
+    return await db
+      .update(priceOracleOverrides)
+      .set({ clearedBy, clearedAt: new Date() })
+      .where(and(isNull(priceOracleOverrides.clearedAt), gt(priceOracleOverrides.expiresAt, new Date())))
+      .returning();
+  }
+
   // Review operations
   async createReview(review: InsertReview): Promise<Review> {
     const [newReview] = await db.insert(reviews).values(review).returning();
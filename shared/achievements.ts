@@ -0,0 +1,168 @@
+import { z } from "zod";
+
+// Data-driven achievements - shared between the achievement engine, gamification events and the admin achievements page
+
+// Activity that can move an employee towards an achievement
+export const ACHIEVEMENT_EVENTS = ["job_completion", "review", "daily_checkin", "mining_claim"] as const;
+export type AchievementEvent = typeof ACHIEVEMENT_EVENTS[number];
+
+export const ACHIEVEMENT_METRICS = [
+  "jobs_completed", // Jobs the employee was rewarded for completing
+  "on_time_completions",
+  "average_rating", // Mean customer rating across the employee's reviews
+  "review_count",
+  "checkin_streak", // Best run of consecutive check-in days
+  "mining_streak", // Current run of consecutive mining claim days
+  "mining_claims",
+  "total_points",
+  "level",
+] as const;
+export type AchievementMetric = typeof ACHIEVEMENT_METRICS[number];
+
+export interface AchievementMetricDefinition {
+  label: string;
+  events: readonly AchievementEvent[]; // Events after which the metric may have changed
+  supportsWindow: boolean; // Can be counted over the last N days
+  supportsCategory: boolean; // Can be limited to one job service type
+}
+
+export const ACHIEVEMENT_METRIC_DEFINITIONS: Record<AchievementMetric, AchievementMetricDefinition> = {
+  jobs_completed: { label: "Jobs completed", events: ["job_completion"], supportsWindow: true, supportsCategory: true },
+  on_time_completions: { label: "On-time jobs", events: ["job_completion"], supportsWindow: true, supportsCategory: true },
+  average_rating: { label: "Average rating", events: ["review"], supportsWindow: true, supportsCategory: false },
+  review_count: { label: "Customer reviews", events: ["review"], supportsWindow: true, supportsCategory: false },
+  checkin_streak: { label: "Check-in streak (days)", events: ["daily_checkin"], supportsWindow: false, supportsCategory: false },
+  mining_streak: { label: "Mining streak (days)", events: ["mining_claim"], supportsWindow: false, supportsCategory: false },
+  mining_claims: { label: "Mining claims", events: ["mining_claim"], supportsWindow: true, supportsCategory: false },
+  total_points: { label: "Total points", events: ACHIEVEMENT_EVENTS, supportsWindow: false, supportsCategory: false },
+  level: { label: "Level", events: ACHIEVEMENT_EVENTS, supportsWindow: false, supportsCategory: false },
+};
+
+export const ACHIEVEMENT_CATEGORIES = ["performance", "quality", "consistency", "milestones"] as const;
+export const ACHIEVEMENT_RARITIES = ["common", "rare", "epic", "legendary"] as const;
+
+export const achievementConditionSchema = z.object({
+  metric: z.enum(ACHIEVEMENT_METRICS),
+  threshold: z.number().positive("Threshold must be greater than zero"),
+  windowDays: z.number().int().min(1).max(365).optional(), // Only count activity from the last N days
+  serviceType: z.string().trim().min(1).max(50).optional(), // Only count jobs of this service type, e.g. 'commercial'
+  minRating: z.number().int().min(1).max(5).optional(), // review_count: only count reviews at or above this rating
+  minReviews: z.number().int().min(1).optional(), // average_rating: ignore the average until there are this many reviews
+}).superRefine((condition, ctx) => {
+  const definition = ACHIEVEMENT_METRIC_DEFINITIONS[condition.metric];
+  if (condition.windowDays && !definition.supportsWindow) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["windowDays"], message: `${definition.label} can't be counted over a window` });
+  }
+  if (condition.serviceType && !definition.supportsCategory) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["serviceType"], message: `${definition.label} can't be limited to a service type` });
+  }
+  if (condition.metric === "average_rating" && condition.threshold > 5) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Ratings go up to 5" });
+  }
+});
+export type AchievementCondition = z.infer<typeof achievementConditionSchema>;
+
+// achievementTypes.requirements. Every condition must be met to earn the achievement
+export const achievementRequirementsSchema = z.object({
+  conditions: z.array(achievementConditionSchema).min(1, "Add at least one condition").max(5),
+});
+export type AchievementRequirements = z.infer<typeof achievementRequirementsSchema>;
+
+export const achievementTypeInputSchema = z.object({
+  name: z.string().trim().min(2, "Name is required").max(100),
+  description: z.string().trim().min(2, "Description is required").max(500),
+  category: z.enum(ACHIEVEMENT_CATEGORIES),
+  iconName: z.string().trim().min(1).max(50).default("Trophy"),
+  iconColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color like #3b82f6").default("#3b82f6"),
+  rarity: z.enum(ACHIEVEMENT_RARITIES).default("common"),
+  pointsAwarded: z.number().int().min(0).max(100000),
+  tokenReward: z.number().min(0).max(1000000),
+  isActive: z.boolean().default(true),
+  requirements: achievementRequirementsSchema,
+});
+export type AchievementTypeInput = z.infer<typeof achievementTypeInputSchema>;
+
+// Re-check existing employees against one achievement, or all active ones
+export const achievementEvaluationSchema = z.object({
+  achievementTypeId: z.string().optional(),
+});
+
+export type AchievementErrorCode = "duplicate_name" | "not_found";
+
+// Thrown by storage when a new or renamed achievement clashes with an existing name
+export class AchievementError extends Error {
+  constructor(
+    public readonly code: AchievementErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AchievementError";
+  }
+}
+
+// employeeAchievements.progress
+export interface AchievementProgress {
+  conditions: Array<{ metric: AchievementMetric; current: number; target: number }>;
+  percent: number; // 0-100, held back by the furthest-off condition
+  evaluatedAt: string;
+}
+
+// Where each condition stands, and overall progress. Counts are capped at the target so extra
+// activity on one condition can't make up for another
+export function getAchievementProgress(requirements: AchievementRequirements, values: number[], now: Date = new Date()): AchievementProgress {
+  const conditions = requirements.conditions.map((condition, index) => ({
+    metric: condition.metric,
+    current: values[index] ?? 0,
+    target: condition.threshold,
+  }));
+  const fractions = conditions.map((condition) => Math.min(condition.current / condition.target, 1));
+  return {
+    conditions,
+    percent: Math.floor(Math.min(...fractions) * 100),
+    evaluatedAt: now.toISOString(),
+  };
+}
+
+export function describeAchievementCondition(condition: AchievementCondition): string {
+  const definition = ACHIEVEMENT_METRIC_DEFINITIONS[condition.metric];
+  const parts = [condition.metric === "average_rating" ? `${definition.label} of ${condition.threshold}+` : `${condition.threshold} ${definition.label.toLowerCase()}`];
+  if (condition.serviceType) parts.push(`(${condition.serviceType})`);
+  if (condition.minRating) parts.push(`rated ${condition.minRating}+`);
+  if (condition.minReviews) parts.push(`over at least ${condition.minReviews} reviews`);
+  if (condition.windowDays) parts.push(`in the last ${condition.windowDays} days`);
+  return parts.join(" ");
+}
+
+// An achievement as shown on the admin page
+export interface AchievementTypeSummary {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  iconName: string;
+  iconColor: string;
+  rarity: string;
+  pointsAwarded: number;
+  tokenReward: string;
+  isActive: boolean;
+  requirements: AchievementRequirements | null; // null when the stored JSON isn't a valid rule
+  earnedCount: number;
+  createdAt: string;
+}
+
+// An achievement as shown to the employee working towards it
+export interface EmployeeAchievementStatus {
+  achievementTypeId: string;
+  name: string;
+  description: string;
+  iconName: string;
+  iconColor: string;
+  rarity: string;
+  earnedAt: string | null;
+  progress: AchievementProgress | null;
+}
+
+export interface AchievementEvaluationSummary {
+  employeesEvaluated: number;
+  achievementsAwarded: number;
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// JCMOVES cash-outs - shared between the cash-out service, payout providers, wallet and admin routes and the cash-out panels
+
+// users.kycStatus. Only verified users can cash out
+export const KYC_STATUSES = ["unverified", "pending", "verified", "rejected"] as const;
+export type KycStatus = typeof KYC_STATUSES[number];
+
+export const PAYOUT_METHODS = ["ach", "paypal", "faucetpay"] as const;
+export type PayoutMethod = typeof PAYOUT_METHODS[number];
+
+export const PAYOUT_METHOD_LABELS: Record<PayoutMethod, string> = {
+  ach: "Bank transfer (ACH)",
+  paypal: "PayPal",
+  faucetpay: "FaucetPay (crypto)",
+};
+
+// cashoutRequests.status. Flagged requests wait in 'pending_review' for an admin; everything else goes
+// pending → submitting → processing and ends in completed, or in failed/cancelled with the tokens refunded
+export const CASHOUT_STATUSES = ["pending_review", "pending", "submitting", "processing", "completed", "failed", "cancelled"] as const;
+export type CashoutStatus = typeof CASHOUT_STATUSES[number];
+
+// Settled requests have been posted to the ledger for the last time and never change again
+export function isCashoutSettled(status: string): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
+// Failed and cancelled requests were refunded, so they don't count towards a user's limits
+export const CASHOUT_REFUNDED_STATUSES: CashoutStatus[] = ["failed", "cancelled"];
+
+export const kycSubmissionSchema = z.object({
+  legalName: z.string().trim().min(2, "Legal name is required").max(200),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be YYYY-MM-DD"),
+  addressLine1: z.string().trim().min(3, "Street address is required").max(200),
+  addressLine2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(2, "City is required").max(100),
+  state: z.string().trim().length(2, "Use the two-letter state code").toUpperCase(),
+  postalCode: z.string().trim().regex(/^\d{5}(-\d{4})?$/, "Enter a valid ZIP code"),
+  ssnLast4: z.string().regex(/^\d{4}$/, "Enter the last 4 digits of your SSN"),
+});
+export type KycSubmission = z.infer<typeof kycSubmissionSchema>;
+
+export const kycReviewSchema = z.object({
+  decision: z.enum(["verify", "reject"]),
+  reason: z.string().trim().max(500).optional(),
+  dailyLimitUsd: z.number().positive().nullable().optional(), // null clears a user-specific limit back to the default
+  monthlyLimitUsd: z.number().positive().nullable().optional(),
+}).refine((review) => review.decision === "verify" || !!review.reason, {
+  message: "Give the user a reason for the rejection",
+  path: ["reason"],
+});
+export type KycReview = z.infer<typeof kycReviewSchema>;
+
+export const achPayoutDetailsSchema = z.object({
+  accountNumber: z.string().regex(/^\d{4,17}$/, "Valid account number is required"),
+  routingNumber: z.string().regex(/^\d{9}$/, "Valid 9-digit routing number is required"),
+  accountHolderName: z.string().trim().min(2, "Account holder name is required"),
+  bankName: z.string().trim().min(2, "Bank name is required"),
+});
+
+export const cashoutRequestSchema = z.discriminatedUnion("method", [
+  z.object({ method: z.literal("ach"), tokenAmount: z.coerce.number().positive(), details: achPayoutDetailsSchema }),
+  z.object({ method: z.literal("paypal"), tokenAmount: z.coerce.number().positive(), details: z.object({ email: z.string().trim().email("Enter your PayPal email") }) }),
+  z.object({ method: z.literal("faucetpay"), tokenAmount: z.coerce.number().positive(), details: z.object({ recipient: z.string().trim().min(3, "Enter your FaucetPay email or linked address").max(100) }) }),
+]);
+export type CashoutRequestInput = z.infer<typeof cashoutRequestSchema>;
+export type PayoutDetails = CashoutRequestInput["details"];
+
+export const cashoutReviewSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  notes: z.string().trim().max(500).optional(),
+}).refine((review) => review.decision === "approve" || !!review.notes, {
+  message: "Explain why the cash-out is rejected",
+  path: ["notes"],
+});
+export type CashoutReview = z.infer<typeof cashoutReviewSchema>;
+
+// What the cash-out panel needs before a user fills in the form
+export interface CashoutEligibility {
+  kycStatus: KycStatus;
+  kycRejectionReason: string | null;
+  availableTokens: string;
+  priceUsd: number | null; // Display estimate; the request is priced again when it's made
+  minTokens: number;
+  methods: PayoutMethod[]; // Methods with a provider configured
+  limits: {
+    dailyUsd: number;
+    monthlyUsd: number;
+    usedTodayUsd: number;
+    usedThisMonthUsd: number;
+  };
+}
+
+// A cash-out as shown to the user or an admin; payout details are masked
+export interface CashoutSummary {
+  id: string;
+  userId: string;
+  tokenAmount: string;
+  cashAmount: string;
+  payoutMethod: PayoutMethod;
+  payoutProvider: string;
+  payoutDestination: string; // e.g. "Chase ••••6789" or "j•••@example.com"
+  status: CashoutStatus;
+  flagReasons: string[];
+  failureReason: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+  processedDate: string | null;
+}
+
+export type CashoutErrorCode =
+  | "kyc_required"
+  | "invalid_amount"
+  | "insufficient_balance"
+  | "limit_exceeded"
+  | "method_unavailable"
+  | "price_unavailable"
+  | "invalid_status"
+  | "invalid_webhook"
+  | "not_found";
+
+// Thrown by storage when a cash-out can't be queued; nothing is written
+export class CashoutError extends Error {
+  constructor(
+    public readonly code: CashoutErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "CashoutError";
+  }
+}
+
+// Start of the UTC day and month a limit window is counted from
+export function getCashoutLimitWindows(now: Date = new Date()): { dayStart: Date; monthStart: Date } {
+  return {
+    dayStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    monthStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  };
+}
@@ -0,0 +1,164 @@
+import { z } from "zod";
+
+// Time-boxed competitions - shared between the competition service, routes, the admin competitions page and employee home
+
+export const COMPETITION_METRICS = [
+  "jobs_completed", // Jobs rewarded as completed in the period
+  "on_time_completions",
+  "damage_free_jobs", // Completed jobs whose invoice has no damages credited to the customer
+  "five_star_reviews",
+  "average_rating", // Mean customer rating over the period's reviews
+  "points_earned",
+] as const;
+export type CompetitionMetric = typeof COMPETITION_METRICS[number];
+
+export const COMPETITION_METRIC_LABELS: Record<CompetitionMetric, string> = {
+  jobs_completed: "Jobs completed",
+  on_time_completions: "On-time jobs",
+  damage_free_jobs: "Damage-free jobs",
+  five_star_reviews: "5-star reviews",
+  average_rating: "Average rating",
+  points_earned: "Points earned",
+};
+
+export type CompetitionMode = "individual" | "team";
+
+// competitions.status; "open" covers upcoming, live and ended-but-not-yet-closed
+export type CompetitionStatus = "open" | "completed" | "cancelled";
+export type CompetitionPhase = "upcoming" | "live" | "finalizing" | "completed" | "cancelled";
+
+export const competitionTeamSchema = z.object({
+  name: z.string().trim().min(1, "Team name is required").max(50),
+  memberIds: z.array(z.string().min(1)).min(1, "Each team needs at least one member").max(50),
+});
+export type CompetitionTeamInput = z.infer<typeof competitionTeamSchema>;
+
+export const competitionInputSchema = z.object({
+  name: z.string().trim().min(2, "Name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+  metric: z.enum(COMPETITION_METRICS),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  prizePoolTokens: z.number().min(0).max(10000000),
+  prizeSplits: z.array(z.number().min(0).max(100)).min(1).max(10), // Percent of the pool by place, 1st first
+  minScore: z.number().min(0).optional(), // Entrants below this don't place
+  minReviews: z.number().int().min(1).max(1000).optional(), // average_rating: entrants need this many reviews to place
+  teams: z.array(competitionTeamSchema).max(20).optional(), // Makes it a team competition between just these employees
+}).superRefine((input, ctx) => {
+  if (input.endsAt <= input.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "The competition must end after it starts" });
+  } else if (input.endsAt <= new Date()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "The competition must end in the future" });
+  }
+  if (input.prizeSplits.reduce((sum, split) => sum + split, 0) > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["prizeSplits"], message: "Prize splits can't add up to more than 100%" });
+  }
+  if (input.minReviews && input.metric !== "average_rating") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["minReviews"], message: "Minimum reviews only applies to average rating competitions" });
+  }
+  const teams = input.teams || [];
+  const teamNames = teams.map((team) => team.name.toLowerCase());
+  if (new Set(teamNames).size !== teamNames.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["teams"], message: "Team names must be different" });
+  }
+  const memberIds = teams.flatMap((team) => team.memberIds);
+  if (new Set(memberIds).size !== memberIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["teams"], message: "An employee can only be on one team" });
+  }
+  if (teams.length === 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["teams"], message: "A team competition needs at least two teams" });
+  }
+});
+export type CompetitionInput = z.infer<typeof competitionInputSchema>;
+
+export type CompetitionErrorCode = "not_found" | "not_ended" | "already_closed" | "invalid_participants" | "insufficient_treasury";
+
+// Thrown when a competition can't be created, closed or cancelled as asked; nothing is written
+export class CompetitionError extends Error {
+  constructor(
+    public readonly code: CompetitionErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "CompetitionError";
+  }
+}
+
+export function getCompetitionPhase(competition: { status: string; startsAt: Date | string; endsAt: Date | string }, now: Date = new Date()): CompetitionPhase {
+  if (competition.status === "completed") return "completed";
+  if (competition.status === "cancelled") return "cancelled";
+  if (new Date(competition.startsAt) > now) return "upcoming";
+  return new Date(competition.endsAt) > now ? "live" : "finalizing";
+}
+
+// Prize for each place: the pool split by percentage
+export function getCompetitionPrizes(prizePoolTokens: number, prizeSplits: number[]): number[] {
+  return prizeSplits.map((split) => Math.floor(prizePoolTokens * split * 1000000) / 100000000);
+}
+
+// One employee's metric over the competition period. sampleSize is the number of reviews behind an
+// average rating, and otherwise the score itself
+export interface CompetitionScore {
+  userId: string;
+  score: number;
+  sampleSize: number;
+}
+
+// A team's score: the members' totals added up, or for average rating the average over all their reviews
+export function combineCompetitionScores(metric: CompetitionMetric, scores: CompetitionScore[]): { score: number; sampleSize: number } {
+  const sampleSize = scores.reduce((sum, score) => sum + score.sampleSize, 0);
+  if (metric === "average_rating") {
+    const weighted = scores.reduce((sum, score) => sum + score.score * score.sampleSize, 0);
+    return { score: sampleSize ? Math.round((weighted / sampleSize) * 100) / 100 : 0, sampleSize };
+  }
+  return { score: scores.reduce((sum, score) => sum + score.score, 0), sampleSize };
+}
+
+/**
+ * Drops entrants who don't qualify (no activity, under minScore, or too few reviews) and numbers the rest
+ * 1..n by score. Ties are broken by the larger sample, then ID, so every place has exactly one holder
+ */
+export function rankCompetitionEntrants<T extends { id: string; score: number; sampleSize: number }>(
+  entrants: T[],
+  rules: { minScore?: number | null; minReviews?: number | null },
+): Array<T & { rank: number }> {
+  return entrants
+    .filter((entrant) =>
+      entrant.sampleSize > 0 &&
+      entrant.score >= (rules.minScore || 0) &&
+      entrant.sampleSize >= (rules.minReviews || 0))
+    .sort((a, b) => b.score - a.score || b.sampleSize - a.sampleSize || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map((entrant, index) => ({ ...entrant, rank: index + 1 }));
+}
+
+// "none" when the place has no prize; "pending" until the treasury has paid every member's share
+export type CompetitionPayoutStatus = "none" | "pending" | "paid" | "failed";
+
+export interface CompetitionStandingEntry {
+  rank: number;
+  id: string; // User ID, or team ID in team competitions
+  name: string;
+  score: number;
+  members: Array<{ userId: string; name: string }>; // Team members; empty for individuals
+  prizeTokens: string; // For a team, the whole team's prize
+  payoutStatus: CompetitionPayoutStatus;
+}
+
+export interface CompetitionSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  metric: CompetitionMetric;
+  mode: CompetitionMode;
+  phase: CompetitionPhase;
+  startsAt: string;
+  endsAt: string;
+  prizePoolTokens: string;
+  prizeSplits: number[];
+  minScore: number | null;
+  minReviews: number | null;
+  closedAt: string | null;
+  teams: Array<{ id: string; name: string; memberCount: number }>;
+  standings: CompetitionStandingEntry[]; // Live until the competition is closed, then final
+  myEntry: { rank: number | null; score: number; teamName: string | null } | null; // The requesting employee
+}
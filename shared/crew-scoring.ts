@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+// Crew suggestion scoring - shared between CrewSuggestionService and the crew suggestions dialog
+
+// Skills an employee can be certified for. Special item skills match the rate card's special item keys
+export const CREW_SKILLS = ["piano", "heavy_safe", "hot_tub", "pool_table", "packing", "truck_driver"] as const;
+export type CrewSkill = typeof CREW_SKILLS[number];
+
+export const CREW_SKILL_LABELS: Record<CrewSkill, string> = {
+  piano: "Piano Moving",
+  heavy_safe: "Safe Moving",
+  hot_tub: "Hot Tub Moving",
+  pool_table: "Pool Table Moving",
+  packing: "Packing",
+  truck_driver: "Truck Driver",
+};
+
+export const crewSkillsSchema = z.array(z.enum(CREW_SKILLS)).max(CREW_SKILLS.length);
+
+export const crewProfileSchema = z.object({
+  homeBaseAddress: z.string().max(500).nullable().optional(),
+  crewSkills: crewSkillsSchema.optional(),
+});
+
+export const CREW_SCORE_FACTORS = ["workload", "rating", "experience", "schedule", "distance", "skills", "synergy"] as const;
+export type CrewScoreFactorKey = typeof CREW_SCORE_FACTORS[number];
+
+export const CREW_SCORE_FACTOR_LABELS: Record<CrewScoreFactorKey, string> = {
+  workload: "Workload",
+  rating: "Customer Rating",
+  experience: "Experience",
+  schedule: "Schedule",
+  distance: "Distance",
+  skills: "Skills",
+  synergy: "Crew Synergy",
+};
+
+// Each factor scores between -1 and 1 and is multiplied by its weight, so a weight is the most points the factor can move a score
+export const crewScoringWeightsSchema = z.object(
+  Object.fromEntries(CREW_SCORE_FACTORS.map((factor) => [factor, z.number().min(0).max(200)])) as Record<CrewScoreFactorKey, z.ZodNumber>
+);
+
+export type CrewScoringWeights = z.infer<typeof crewScoringWeightsSchema>;
+
+export const DEFAULT_CREW_SCORING_WEIGHTS: CrewScoringWeights = {
+  workload: 45,
+  rating: 20,
+  experience: 30,
+  schedule: 50,
+  distance: 20,
+  skills: 25,
+  synergy: 15,
+};
+
+export interface CrewScoreFactor {
+  key: CrewScoreFactorKey;
+  label: string;
+  points: number; // Contribution to the score after weighting, negative for penalties
+  maxPoints: number; // The factor's weight
+  detail: string;
+}
+
+// Base score before factors, so an average employee lands around 100
+export const CREW_BASE_SCORE = 100;
+
+// Skills a job needs, from its special items
+export function getRequiredCrewSkills(specialItemTypes: string[]): CrewSkill[] {
+  const required = new Set<CrewSkill>();
+  for (const type of specialItemTypes) {
+    if ((CREW_SKILLS as readonly string[]).includes(type)) {
+      required.add(type as CrewSkill);
+    }
+  }
+  return Array.from(required);
+}
@@ -0,0 +1,196 @@
+import { z } from "zod";
+
+// Gamification reward parameters - stored in gamification_config and shared between the gamification,
+// mining and leaderboard services and the admin gamification settings page
+
+export const rankTitleSchema = z.object({
+  minLevel: z.number().int().min(1),
+  title: z.string().trim().min(1).max(50),
+});
+
+export const gamificationSettingsSchema = z.object({
+  checkinBasePoints: z.number().int().min(0).max(10000),
+  checkinUsdValue: z.number().min(0).max(100), // Each check-in pays this much in JCMOVES at the current price
+  checkinStreakMultiplier: z.number().min(1).max(2), // Points multiplier compounded per consecutive day
+  checkinMaxStreakBonus: z.number().min(1).max(10), // Cap on the compounded streak multiplier
+  jobBasePoints: z.number().int().min(0).max(100000),
+  jobBaseTokens: z.number().min(0).max(1000000), // For jobs without their own token allocation
+  jobOnTimeBonus: z.number().min(0).max(5), // Fraction added to points and tokens, e.g. 0.2 = +20%
+  jobQualityBonus: z.number().min(0).max(5),
+  jobQualityMinRating: z.number().min(1).max(5), // Customer rating that earns the quality bonus
+  ratingBonusFiveStarTokens: z.number().min(0).max(1000000),
+  ratingBonusFiveStarPoints: z.number().int().min(0).max(100000),
+  ratingBonusFourStarTokens: z.number().min(0).max(1000000),
+  ratingBonusFourStarPoints: z.number().int().min(0).max(100000),
+  leaderboardPrizes: z.array(z.number().min(0).max(1000000)).max(10), // JCMOVES by place, 1st first
+  miningTokensPerSecond: z.number().min(0).max(10),
+  miningCycleHours: z.number().int().min(1).max(168), // Tokens stop accumulating after this long without a claim
+  miningStreakBonusPerDay: z.number().min(0).max(1), // Fraction added per consecutive claim day, e.g. 0.01 = +1%
+  levelPointsBase: z.number().int().min(1).max(100000), // Level n needs (n - 1)² × this many points
+  rankTitles: z
+    .array(rankTitleSchema)
+    .min(1)
+    .max(20)
+    .refine((titles) => titles.some((title) => title.minLevel === 1), "There must be a title for level 1"),
+});
+
+export type RankTitle = z.infer<typeof rankTitleSchema>;
+export type GamificationSettings = z.infer<typeof gamificationSettingsSchema>;
+export type GamificationSettingKey = keyof GamificationSettings;
+
+// What the hard-coded GAMIFICATION_REWARDS and MINING_CONFIG used to be; seeded on first start
+export const DEFAULT_GAMIFICATION_SETTINGS: GamificationSettings = {
+  checkinBasePoints: 50,
+  checkinUsdValue: 0.25,
+  checkinStreakMultiplier: 1.1,
+  checkinMaxStreakBonus: 3,
+  jobBasePoints: 100,
+  jobBaseTokens: 500,
+  jobOnTimeBonus: 0.2,
+  jobQualityBonus: 0.3,
+  jobQualityMinRating: 4,
+  ratingBonusFiveStarTokens: 500,
+  ratingBonusFiveStarPoints: 100,
+  ratingBonusFourStarTokens: 250,
+  ratingBonusFourStarPoints: 50,
+  leaderboardPrizes: [100, 50, 25],
+  miningTokensPerSecond: 0.02,
+  miningCycleHours: 24,
+  miningStreakBonusPerDay: 0.01,
+  levelPointsBase: 100,
+  rankTitles: [
+    { minLevel: 1, title: "Rookie Mover" },
+    { minLevel: 3, title: "Skilled Mover" },
+    { minLevel: 5, title: "Pro Mover" },
+    { minLevel: 8, title: "Expert Mover" },
+    { minLevel: 12, title: "Master Mover" },
+  ],
+};
+
+export const GAMIFICATION_SETTING_CATEGORIES = ["daily_checkin", "job_completion", "rating_bonus", "leaderboard", "mining", "levels"] as const;
+export type GamificationSettingCategory = typeof GAMIFICATION_SETTING_CATEGORIES[number];
+
+export const GAMIFICATION_CATEGORY_LABELS: Record<GamificationSettingCategory, string> = {
+  daily_checkin: "Daily Check-In",
+  job_completion: "Job Completion",
+  rating_bonus: "Customer Rating Bonus",
+  leaderboard: "Weekly Leaderboard",
+  mining: "Mining",
+  levels: "Levels & Ranks",
+};
+
+export interface GamificationSettingDefinition {
+  label: string;
+  category: GamificationSettingCategory;
+  dataType: "number" | "json"; // gamificationConfig.dataType
+  step?: string; // Input step for numbers on the settings page
+}
+
+export const GAMIFICATION_SETTING_DEFINITIONS: Record<GamificationSettingKey, GamificationSettingDefinition> = {
+  checkinBasePoints: { label: "Base points", category: "daily_checkin", dataType: "number", step: "1" },
+  checkinUsdValue: { label: "Reward value ($)", category: "daily_checkin", dataType: "number", step: "0.01" },
+  checkinStreakMultiplier: { label: "Streak multiplier per day", category: "daily_checkin", dataType: "number", step: "0.01" },
+  checkinMaxStreakBonus: { label: "Max streak multiplier", category: "daily_checkin", dataType: "number", step: "0.1" },
+  jobBasePoints: { label: "Base points", category: "job_completion", dataType: "number", step: "1" },
+  jobBaseTokens: { label: "Base JCMOVES", category: "job_completion", dataType: "number", step: "1" },
+  jobOnTimeBonus: { label: "On-time bonus (fraction)", category: "job_completion", dataType: "number", step: "0.05" },
+  jobQualityBonus: { label: "Quality bonus (fraction)", category: "job_completion", dataType: "number", step: "0.05" },
+  jobQualityMinRating: { label: "Quality bonus min rating", category: "job_completion", dataType: "number", step: "0.5" },
+  ratingBonusFiveStarTokens: { label: "5-star JCMOVES", category: "rating_bonus", dataType: "number", step: "1" },
+  ratingBonusFiveStarPoints: { label: "5-star points", category: "rating_bonus", dataType: "number", step: "1" },
+  ratingBonusFourStarTokens: { label: "4-star JCMOVES", category: "rating_bonus", dataType: "number", step: "1" },
+  ratingBonusFourStarPoints: { label: "4-star points", category: "rating_bonus", dataType: "number", step: "1" },
+  leaderboardPrizes: { label: "Prizes by place (JCMOVES)", category: "leaderboard", dataType: "json" },
+  miningTokensPerSecond: { label: "JCMOVES per second", category: "mining", dataType: "number", step: "0.001" },
+  miningCycleHours: { label: "Claim cycle (hours)", category: "mining", dataType: "number", step: "1" },
+  miningStreakBonusPerDay: { label: "Streak bonus per day (fraction)", category: "mining", dataType: "number", step: "0.005" },
+  levelPointsBase: { label: "Level points base", category: "levels", dataType: "number", step: "1" },
+  rankTitles: { label: "Rank titles", category: "levels", dataType: "json" },
+};
+
+export const GAMIFICATION_SETTING_KEYS = Object.keys(GAMIFICATION_SETTING_DEFINITIONS) as GamificationSettingKey[];
+
+const gamificationChangesSchema = gamificationSettingsSchema
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, "Change at least one setting");
+
+export const gamificationSettingsUpdateSchema = z.object({
+  changes: gamificationChangesSchema,
+  reason: z.string().trim().max(500).optional(),
+});
+export type GamificationSettingsUpdate = z.infer<typeof gamificationSettingsUpdateSchema>;
+
+export const gamificationPreviewSchema = z.object({
+  changes: gamificationChangesSchema,
+});
+
+// Points multiplier for a check-in on day `streak` of a streak
+export function getCheckinStreakMultiplier(settings: GamificationSettings, streak: number): number {
+  return Math.min(Math.pow(settings.checkinStreakMultiplier, Math.max(streak, 1) - 1), settings.checkinMaxStreakBonus);
+}
+
+// Points for a job, and the multiplier applied to its base tokens
+export function getJobCompletionReward(settings: GamificationSettings, performance: { onTime: boolean; customerRating?: number }): { points: number; tokenMultiplier: number } {
+  let points = settings.jobBasePoints;
+  let tokenMultiplier = 1;
+  if (performance.onTime) {
+    tokenMultiplier += settings.jobOnTimeBonus;
+    points += Math.floor(points * settings.jobOnTimeBonus);
+  }
+  if (performance.customerRating && performance.customerRating >= settings.jobQualityMinRating) {
+    tokenMultiplier += settings.jobQualityBonus;
+    points += Math.floor(points * settings.jobQualityBonus);
+  }
+  return { points, tokenMultiplier };
+}
+
+// Bonus for a 4 or 5 star review; nothing below that
+export function getRatingBonus(settings: GamificationSettings, rating: number): { tokens: number; points: number } {
+  if (rating >= 5) return { tokens: settings.ratingBonusFiveStarTokens, points: settings.ratingBonusFiveStarPoints };
+  if (rating >= 4) return { tokens: settings.ratingBonusFourStarTokens, points: settings.ratingBonusFourStarPoints };
+  return { tokens: 0, points: 0 };
+}
+
+export function getLevelForPoints(settings: GamificationSettings, totalPoints: number): number {
+  return Math.floor(Math.sqrt(Math.max(totalPoints, 0) / settings.levelPointsBase)) + 1;
+}
+
+// Points needed to reach a level
+export function getLevelThreshold(settings: GamificationSettings, level: number): number {
+  return Math.pow(level - 1, 2) * settings.levelPointsBase;
+}
+
+export function getRankTitle(settings: GamificationSettings, level: number): string {
+  const titles = [...settings.rankTitles].sort((a, b) => b.minLevel - a.minLevel);
+  return (titles.find((title) => level >= title.minLevel) || titles[titles.length - 1]).title;
+}
+
+// An entry in the settings audit trail
+export interface GamificationConfigChangeSummary {
+  id: string;
+  key: string;
+  oldValue: unknown;
+  newValue: unknown;
+  reason: string | null;
+  changedBy: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+export interface GamificationImpactLine {
+  category: GamificationSettingCategory;
+  label: string;
+  count: number; // Payouts of this kind in the period
+  actualPoints: number;
+  previewPoints: number;
+  actualTokens: number;
+  previewTokens: number;
+}
+
+// What the last 30 days of payouts would have been under the proposed settings
+export interface GamificationImpactPreview {
+  from: string;
+  to: string;
+  lines: GamificationImpactLine[];
+  totals: { actualPoints: number; previewPoints: number; actualTokens: number; previewTokens: number };
+  levels: { employees: number; levelChanges: number; titleChanges: number };
+}
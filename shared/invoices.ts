@@ -0,0 +1,197 @@
+import { z } from "zod";
+import type { Lead } from "./schema";
+import type { QuoteBreakdown } from "./pricing";
+
+// Invoice math - shared between the invoice service, the invoice page and the admin dashboard
+
+export const INVOICE_LINE_CATEGORIES = ["service", "fee", "tip", "damage", "discount"] as const;
+export type InvoiceLineCategory = typeof INVOICE_LINE_CATEGORIES[number];
+
+export const INVOICE_STATUSES = ["open", "partially_paid", "paid", "void"] as const;
+export type InvoiceStatus = typeof INVOICE_STATUSES[number];
+
+export const PAYMENT_METHODS = ["cash", "card", "check", "jcmoves"] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  check: "Check",
+  jcmoves: "JCMOVES Tokens",
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  open: "Open",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+  void: "Void",
+};
+
+export const invoiceLineItemSchema = z.object({
+  category: z.enum(INVOICE_LINE_CATEGORIES),
+  label: z.string().min(1).max(200),
+  detail: z.string().max(500).optional(),
+  amount: z.number(), // Signed: discounts and damage credits are negative
+  taxable: z.boolean(),
+});
+
+export type InvoiceLineItem = z.infer<typeof invoiceLineItemSchema>;
+
+// Line items added after completion (crew-reported tips/damages, owner discounts and fees)
+export const invoiceAdjustmentSchema = z.object({
+  category: z.enum(["fee", "tip", "damage", "discount"]),
+  label: z.string().min(1).max(200),
+  detail: z.string().max(500).optional(),
+  amount: z.number().positive().max(100000), // Entered as a positive number; the category decides the sign
+});
+
+export type InvoiceAdjustment = z.infer<typeof invoiceAdjustmentSchema>;
+
+export const recordPaymentSchema = z.object({
+  amount: z.number().positive().max(1000000), // USD
+  method: z.enum(PAYMENT_METHODS),
+  reference: z.string().max(200).optional(), // Check number, card last 4, ...
+  notes: z.string().max(1000).optional(),
+  receivedAt: z.string().datetime().optional(),
+});
+
+export interface InvoiceTotals {
+  subtotal: number; // Services and fees before discounts
+  discountTotal: number; // Positive number
+  damagesTotal: number; // Positive number, credited to the customer
+  tipTotal: number;
+  taxableAmount: number;
+  taxAmount: number;
+  total: number;
+  amountPaid: number;
+  balanceDue: number;
+}
+
+// Tips go to the crew, so they are never taxed; damage credits are refunds rather than sales
+const TAXABLE_BY_CATEGORY: Record<InvoiceLineCategory, boolean> = {
+  service: true,
+  fee: true,
+  discount: true,
+  tip: false,
+  damage: false,
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function toInvoiceLineItem(adjustment: InvoiceAdjustment): InvoiceLineItem {
+  const isCredit = adjustment.category === "discount" || adjustment.category === "damage";
+  return {
+    category: adjustment.category,
+    label: adjustment.label,
+    detail: adjustment.detail,
+    amount: roundCents(isCredit ? -Math.abs(adjustment.amount) : Math.abs(adjustment.amount)),
+    taxable: TAXABLE_BY_CATEGORY[adjustment.category],
+  };
+}
+
+// Invoice lines from the lead's saved quote. Older quotes without a breakdown become a single line
+export function getLeadInvoiceLineItems(lead: Partial<Lead>): InvoiceLineItem[] {
+  const breakdown = lead.quoteBreakdown as QuoteBreakdown | null | undefined;
+  if (breakdown && Array.isArray(breakdown.lineItems)) {
+    return breakdown.lineItems.map((line) => {
+      const category: InvoiceLineCategory = line.category === "adjustment" && line.amount < 0 ? "discount" : "service";
+      return {
+        category,
+        label: line.label,
+        detail: line.detail,
+        amount: roundCents(line.amount),
+        taxable: TAXABLE_BY_CATEGORY[category],
+      };
+    });
+  }
+
+  const totalPrice = lead.totalPrice ? parseFloat(lead.totalPrice) : 0;
+  if (totalPrice <= 0) return [];
+  return [{
+    category: "service",
+    label: `${lead.serviceType ? lead.serviceType.charAt(0).toUpperCase() + lead.serviceType.slice(1) : "Moving"} service`,
+    amount: roundCents(totalPrice),
+    taxable: true,
+  }];
+}
+
+export function calculateInvoiceTotals(lineItems: InvoiceLineItem[], taxRate: number, amountPaid: number): InvoiceTotals {
+  let subtotal = 0;
+  let discountTotal = 0;
+  let damagesTotal = 0;
+  let tipTotal = 0;
+  let taxableAmount = 0;
+
+  for (const line of lineItems) {
+    if (line.category === "discount") discountTotal -= line.amount;
+    else if (line.category === "damage") damagesTotal -= line.amount;
+    else if (line.category === "tip") tipTotal += line.amount;
+    else subtotal += line.amount;
+
+    if (line.taxable) taxableAmount += line.amount;
+  }
+
+  taxableAmount = Math.max(0, roundCents(taxableAmount));
+  const taxAmount = roundCents(taxableAmount * taxRate);
+  const total = Math.max(0, roundCents(subtotal - discountTotal - damagesTotal + tipTotal + taxAmount));
+
+  return {
+    subtotal: roundCents(subtotal),
+    discountTotal: roundCents(discountTotal),
+    damagesTotal: roundCents(damagesTotal),
+    tipTotal: roundCents(tipTotal),
+    taxableAmount,
+    taxAmount,
+    total,
+    amountPaid: roundCents(amountPaid),
+    balanceDue: roundCents(total - amountPaid),
+  };
+}
+
+export function getInvoiceStatus(totals: Pick<InvoiceTotals, "total" | "amountPaid" | "balanceDue">): InvoiceStatus {
+  if (totals.balanceDue <= 0) return "paid";
+  return totals.amountPaid > 0 ? "partially_paid" : "open";
+}
+
+export function formatInvoiceNumber(invoiceNumber: number): string {
+  return `INV-${String(invoiceNumber).padStart(6, "0")}`;
+}
+
+// Aging buckets for outstanding invoices, by days past the due date
+export const AGING_BUCKETS = ["current", "1_30", "31_60", "61_90", "over_90"] as const;
+export type AgingBucket = typeof AGING_BUCKETS[number];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  "1_30": "1-30 days",
+  "31_60": "31-60 days",
+  "61_90": "61-90 days",
+  over_90: "90+ days",
+};
+
+export function getDaysPastDue(dueDate: Date | string, now: Date = new Date()): number {
+  const due = new Date(dueDate);
+  return Math.max(0, Math.floor((now.getTime() - due.getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+export function getAgingBucket(dueDate: Date | string, now: Date = new Date()): AgingBucket {
+  const daysPastDue = getDaysPastDue(dueDate, now);
+  if (daysPastDue === 0) return "current";
+  if (daysPastDue <= 30) return "1_30";
+  if (daysPastDue <= 60) return "31_60";
+  if (daysPastDue <= 90) return "61_90";
+  return "over_90";
+}
+
+export type InvoiceErrorCode = "not_found" | "not_completed" | "void" | "overpayment" | "insufficient_tokens" | "no_wallet" | "has_payments";
+
+// Thrown by storage when an invoice change is rejected after locking the row
+export class InvoiceError extends Error {
+  constructor(
+    public readonly code: InvoiceErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "InvoiceError";
+  }
+}
@@ -0,0 +1,131 @@
+// Job lifecycle for leads - shared between server (enforcement) and client (UI)
+export const LEAD_STATUSES = [
+  "new",
+  "contacted",
+  "quoted",
+  "confirmed",
+  "available",
+  "accepted",
+  "in_progress",
+  "completed",
+  "cancelled",
+  "rescheduled",
+  "no_show",
+] as const;
+
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+// Who is allowed to drive a transition
+// 'manager' covers admin and business_owner, 'system' is used for automated workflows
+export type LeadStatusActor = "manager" | "employee" | "customer" | "system";
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  quoted: "Quoted",
+  confirmed: "Confirmed",
+  available: "Available",
+  accepted: "Accepted",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  rescheduled: "Rescheduled",
+  no_show: "No Show",
+};
+
+// Allowed transitions: from status -> to status -> actors that may perform it
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, Partial<Record<LeadStatus, LeadStatusActor[]>>> = {
+  new: {
+    contacted: ["manager"],
+    quoted: ["manager"],
+    cancelled: ["manager", "customer"],
+  },
+  contacted: {
+    quoted: ["manager"],
+    cancelled: ["manager", "customer"],
+  },
+  quoted: {
+    contacted: ["manager"],
+    confirmed: ["manager", "customer", "system"],
+    cancelled: ["manager", "customer", "system"],
+  },
+  confirmed: {
+    quoted: ["manager"],
+    available: ["manager"],
+    in_progress: ["manager"],
+    rescheduled: ["manager", "customer"],
+    cancelled: ["manager", "customer"],
+  },
+  available: {
+    confirmed: ["manager"],
+    accepted: ["employee", "system"],
+    rescheduled: ["manager"],
+    cancelled: ["manager"],
+  },
+  accepted: {
+    available: ["manager"],
+    in_progress: ["manager", "employee"],
+    rescheduled: ["manager"],
+    no_show: ["manager", "employee"],
+    cancelled: ["manager"],
+  },
+  in_progress: {
+    completed: ["manager", "employee"],
+  },
+  completed: {},
+  cancelled: {
+    new: ["manager"],
+  },
+  rescheduled: {
+    confirmed: ["manager"],
+    available: ["manager"],
+    cancelled: ["manager", "customer"],
+  },
+  no_show: {
+    rescheduled: ["manager"],
+    cancelled: ["manager"],
+  },
+};
+
+export class LeadStatusTransitionError extends Error {
+  constructor(
+    public readonly fromStatus: string,
+    public readonly toStatus: string,
+    message?: string,
+  ) {
+    super(message || `Cannot change job status from '${fromStatus}' to '${toStatus}'`);
+    this.name = "LeadStatusTransitionError";
+  }
+}
+
+export function isLeadStatus(value: unknown): value is LeadStatus {
+  return typeof value === "string" && (LEAD_STATUSES as readonly string[]).includes(value);
+}
+
+// Map a user role onto the actor used by the transition table
+export function getLeadStatusActor(role: string | null | undefined): LeadStatusActor | null {
+  switch (role) {
+    case "admin":
+    case "business_owner":
+      return "manager";
+    case "employee":
+      return "employee";
+    case "customer":
+      return "customer";
+    default:
+      return null;
+  }
+}
+
+export function canTransitionLeadStatus(from: string, to: string, actor: LeadStatusActor): boolean {
+  if (!isLeadStatus(from) || !isLeadStatus(to)) return false;
+  const allowedActors = LEAD_STATUS_TRANSITIONS[from][to];
+  return !!allowedActors && allowedActors.includes(actor);
+}
+
+export function getAllowedLeadStatusTransitions(from: string, actor: LeadStatusActor): LeadStatus[] {
+  if (!isLeadStatus(from)) return [];
+  return (Object.entries(LEAD_STATUS_TRANSITIONS[from]) as [LeadStatus, LeadStatusActor[]][])
+    .filter(([, actors]) => actors.includes(actor))
+    .map(([status]) => status);
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+// Weekly leaderboard close-out - shared between the leaderboard service, gamification routes and the rewards dashboard
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Leaderboard weeks run Monday to Sunday in UTC, so every server closes the same week
+export function getLeaderboardWeekStart(date: Date = new Date()): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+// Exclusive end of the week starting at weekStart
+export function getLeaderboardWeekEnd(weekStart: Date): Date {
+  return new Date(weekStart.getTime() + 7 * DAY_MS);
+}
+
+// weeklyLeaderboards.weekStartDate / weekEndDate are dates like "2026-03-02"
+export function formatLeaderboardDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export const leaderboardWeekSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use a week start date like 2026-03-02")
+  .transform((value) => getLeaderboardWeekStart(new Date(`${value}T00:00:00Z`)));
+
+export const leaderboardCloseSchema = z.object({
+  weekStart: leaderboardWeekSchema.optional(), // Defaults to the week that just ended
+});
+
+export type LeaderboardErrorCode = "week_not_over" | "already_closed";
+
+// Thrown when closing a week that hasn't ended or was already closed; nothing is written
+export class LeaderboardError extends Error {
+  constructor(
+    public readonly code: LeaderboardErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "LeaderboardError";
+  }
+}
+
+// One employee's activity over a week, before ranking
+export interface LeaderboardStanding {
+  userId: string;
+  pointsEarned: number;
+  jobsCompleted: number;
+  averageRating: number; // 0 without reviews that week
+  lastPointsAt: Date | null; // When they reached their final total
+}
+
+/**
+ * Orders standings and numbers them 1..n. Ties are broken by jobs completed, then average rating,
+ * then whoever reached their total first, then user ID - so the same activity always gives the same
+ * ranks and every place has exactly one holder for prizes
+ */
+export function rankLeaderboardStandings<T extends LeaderboardStanding>(standings: T[]): Array<T & { rank: number }> {
+  return [...standings]
+    .sort((a, b) =>
+      b.pointsEarned - a.pointsEarned ||
+      b.jobsCompleted - a.jobsCompleted ||
+      b.averageRating - a.averageRating ||
+      (a.lastPointsAt?.getTime() ?? Infinity) - (b.lastPointsAt?.getTime() ?? Infinity) ||
+      (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0))
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
+}
+
+// "none" when the place has no prize; "pending" until the treasury has paid it
+export type LeaderboardPayoutStatus = "none" | "pending" | "paid" | "failed";
+
+export interface LeaderboardEntrySummary {
+  rank: number;
+  userId: string;
+  name: string;
+  pointsEarned: number;
+  jobsCompleted: number;
+  averageRating: number;
+  tokenReward: string;
+  payoutStatus: LeaderboardPayoutStatus;
+}
+
+// A week's standings: live while the week is open, frozen once it's closed
+export interface LeaderboardWeekSummary {
+  weekStartDate: string;
+  weekEndDate: string; // Sunday, inclusive
+  closedAt: string | null;
+  participantCount: number;
+  entries: LeaderboardEntrySummary[];
+}
+
+// A closed week in the history list
+export interface LeaderboardWeekListItem {
+  weekStartDate: string;
+  weekEndDate: string;
+  closedAt: string;
+  participantCount: number;
+  totalPrizeTokens: string;
+}
@@ -0,0 +1,134 @@
+// Token ledger - shared between storage, the wallet/treasury services and the admin consistency report
+
+export const LEDGER_CURRENCY = "JCMOVES";
+export const LEDGER_DECIMALS = 8;
+
+export const LEDGER_ACCOUNT_TYPES = [
+  "user_rewards", // walletAccounts.tokenBalance - rewards, check-ins and mining claims land here
+  "user_wallet", // userWallets.balance - the user's custodial crypto wallet for one currency
+  "treasury_reserve", // treasuryAccounts.tokenReserve
+  "mining_pool", // Tokens released from the reserve for mining claims that haven't been credited yet
+  "faucet_pool", // Tokens set aside for faucet payouts
+  "fees", // Withdrawal fees kept by the business
+  "withdrawal_clearing", // Tokens debited for on-chain withdrawals that haven't finalized; refunded if the transfer fails
+  "cashout_clearing", // Tokens debited for cash-outs that haven't been paid; bought back into the reserve or refunded
+  "issuance", // Counterpart for tokens entering or leaving custody; its negated balance is the total issued
+] as const;
+export type LedgerAccountType = typeof LEDGER_ACCOUNT_TYPES[number];
+
+// Accounts whose balance is copied onto an existing table column whenever the ledger posts to them
+export const PROJECTED_LEDGER_ACCOUNT_TYPES: LedgerAccountType[] = ["user_rewards", "user_wallet", "treasury_reserve"];
+
+export const LEDGER_ENTRY_TYPES = [
+  "opening_balance", // Balance that existed before the ledger, carried in once per account
+  "funding", // USD deposits and token deposits into the treasury reserve
+  "distribution", // Reserve paying out a reward, bonus or admin transfer
+  "mining_claim",
+  "payment", // Customer paying an invoice in JCMOVES
+  "transfer", // Wallet to wallet
+  "rewards_sync", // Rewards balance moved into the user's JCMOVES wallet
+  "deposit", // External tokens credited to a user wallet
+  "withdrawal", // Tokens leaving custody, from a user wallet or the reserve
+  "withdrawal_refund", // A failed on-chain withdrawal returned to the user's wallet
+  "cashout", // Rewards debited for a cash-out, and bought back into the reserve once it's paid
+  "cashout_refund", // A failed or rejected cash-out returned to the user's rewards balance
+  "reclaim", // Tokens returned to the reserve, e.g. from a deleted account
+  "adjustment", // Manual correction recorded by an admin
+] as const;
+export type LedgerEntryType = typeof LEDGER_ENTRY_TYPES[number];
+
+export interface LedgerAccountRef {
+  type: LedgerAccountType;
+  ownerId?: string | null;
+  currency?: string;
+}
+
+// One line of an entry: a signed change to the account's balance. An entry's amounts sum to zero
+export interface LedgerPosting {
+  account: LedgerAccountRef;
+  amount: number;
+}
+
+export type LedgerErrorCode =
+  | "empty"
+  | "invalid_amount"
+  | "unbalanced"
+  | "mixed_currency"
+  | "insufficient_balance";
+
+// Thrown by storage when an entry can't be posted; nothing from the entry is written
+export class LedgerError extends Error {
+  constructor(public readonly code: LedgerErrorCode, message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+export function getLedgerAccountKey(account: LedgerAccountRef): string {
+  return `${account.type}:${account.ownerId || "system"}:${account.currency || LEDGER_CURRENCY}`;
+}
+
+export function userRewardsAccount(userId: string): LedgerAccountRef {
+  return { type: "user_rewards", ownerId: userId };
+}
+
+export function userWalletAccount(userWalletId: string, currency: string = LEDGER_CURRENCY): LedgerAccountRef {
+  return { type: "user_wallet", ownerId: userWalletId, currency };
+}
+
+export function systemLedgerAccount(type: "mining_pool" | "faucet_pool" | "fees" | "withdrawal_clearing" | "cashout_clearing" | "issuance", currency: string = LEDGER_CURRENCY): LedgerAccountRef {
+  return { type, currency };
+}
+
+// Only the issuance account may go negative; every other account must hold what it sends
+export function canLedgerAccountGoNegative(type: LedgerAccountType): boolean {
+  return type === "issuance";
+}
+
+// Ledger amounts are summed as integer base units so entries balance exactly
+export function toLedgerUnits(amount: number | string): bigint {
+  // Decimal strings from the database are converted exactly; numbers are rounded to 8 places first
+  const text = typeof amount === "string" ? amount.trim() : amount.toFixed(LEDGER_DECIMALS);
+  const match = text.match(/^(-?)(\d*)(?:\.(\d*))?$/);
+  if (!match) {
+    return BigInt(parseFloat(text).toFixed(LEDGER_DECIMALS).replace(".", ""));
+  }
+  const [, sign, whole, fraction = ""] = match;
+  const units = BigInt((whole || "0") + fraction.padEnd(LEDGER_DECIMALS, "0").slice(0, LEDGER_DECIMALS));
+  return sign ? -units : units;
+}
+
+export function formatLedgerUnits(units: bigint): string {
+  const negative = units < BigInt(0);
+  const digits = (negative ? -units : units).toString().padStart(LEDGER_DECIMALS + 1, "0");
+  return `${negative ? "-" : ""}${digits.slice(0, -LEDGER_DECIMALS)}.${digits.slice(-LEDGER_DECIMALS)}`;
+}
+
+export interface LedgerDrift {
+  accountKey: string;
+  accountType: LedgerAccountType;
+  ownerId: string | null;
+  ledgerBalance: string; // What the ledger lines add up to
+  recordedBalance: string; // What the account row or projected column says
+  difference: string;
+  source: "ledger_account" | "wallet_account" | "user_wallet" | "treasury_account";
+}
+
+export interface LedgerConsistencyReport {
+  checkedAt: string;
+  currency: string;
+  totals: {
+    issued: string;
+    userBalances: string;
+    treasuryReserve: string;
+    pools: string;
+    fees: string;
+    pendingWithdrawals: string;
+    pendingCashouts: string;
+  };
+  // users + reserve + pools + fees + pending withdrawals and cash-outs - issued; zero when every issued token is accounted for
+  difference: string;
+  unbalancedEntries: Array<{ entryId: string; total: string }>;
+  drift: LedgerDrift[];
+  isConsistent: boolean;
+}
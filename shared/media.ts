@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { jobPhotoSchema } from "./schema";
+
+// Media store - shared between the upload routes, photo capture and the shop item forms
+
+export const MEDIA_PURPOSES = ["job_photo", "shop_item"] as const;
+export type MediaPurpose = typeof MEDIA_PURPOSES[number];
+
+export const MEDIA_OWNER_TYPES = ["lead", "shop_item"] as const;
+export type MediaOwnerType = typeof MEDIA_OWNER_TYPES[number];
+
+// Content types each purpose accepts, with the size limit for each kind
+export const MEDIA_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic"];
+export const MEDIA_VIDEO_TYPES = ["video/mp4", "video/webm", "video/quicktime"];
+export const MEDIA_FILE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/heic": "heic",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov",
+};
+export const MAX_IMAGE_BYTES = 25 * 1024 * 1024; // Supports 40MP photos
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+export const createMediaUploadSchema = z.object({
+  purpose: z.enum(MEDIA_PURPOSES),
+  contentType: z.string().min(1),
+  sizeBytes: z.number().int().positive(),
+});
+
+export type CreateMediaUpload = z.infer<typeof createMediaUploadSchema>;
+
+// A job photo as posted by the crew: either an uploaded media asset or (older clients) a data URL
+export const jobPhotoInputSchema = jobPhotoSchema.omit({ url: true, thumbnailUrl: true }).extend({
+  mediaAssetId: z.string().optional(),
+  url: z.string().optional(),
+}).refine((photo) => photo.mediaAssetId || photo.url?.startsWith("data:image/"), {
+  message: "Upload the photo first or include it as an image data URL",
+});
+
+export type JobPhotoInput = z.infer<typeof jobPhotoInputSchema>;
+
+export type MediaErrorCode =
+  | "not_found"
+  | "forbidden"
+  | "unsupported_type"
+  | "too_large"
+  | "not_uploaded"
+  | "already_attached";
+
+export interface MediaUploadTicket {
+  assetId: string;
+  uploadUrl: string; // PUT the file here with its Content-Type
+  expiresAt: string;
+}
+
+export interface MediaAssetResponse {
+  id: string;
+  url: string;
+  thumbnailUrl: string | null;
+  contentType: string;
+  width: number | null;
+  height: number | null;
+  takenAt: string | null;
+  location: { latitude: number; longitude: number } | null;
+}
+
+// The extension lets pages tell videos from images by URL, as they do for external links
+export function getMediaUrl(assetId: string, contentType: string): string {
+  return `/api/media/${assetId}.${MEDIA_FILE_EXTENSIONS[contentType] || "bin"}`;
+}
+
+export function getMediaThumbnailUrl(assetId: string): string {
+  return `/api/media/${assetId}/thumbnail`;
+}
+
+// Asset id from a media store URL, or null for data URLs and external links
+export function parseMediaUrl(url: string): string | null {
+  const match = url.match(/^\/api\/media\/([0-9a-f-]{36})(\.\w+)?$/i);
+  return match ? match[1] : null;
+}
+
+export function getMaxMediaBytes(contentType: string): number | null {
+  if (MEDIA_IMAGE_TYPES.includes(contentType)) return MAX_IMAGE_BYTES;
+  if (MEDIA_VIDEO_TYPES.includes(contentType)) return MAX_VIDEO_BYTES;
+  return null;
+}
+
+// Job photos are images only; shop listings also take short videos
+export function isAllowedMediaType(purpose: MediaPurpose, contentType: string): boolean {
+  return MEDIA_IMAGE_TYPES.includes(contentType) || (purpose === "shop_item" && MEDIA_VIDEO_TYPES.includes(contentType));
+}
@@ -0,0 +1,218 @@
+import { getLeaderboardWeekEnd, getLeaderboardWeekStart } from "./leaderboard";
+
+// Mining speed boosts earned from real work - shared between the mining boost service, the mining service and the mining page
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// mining_boosts.source. Each source gives at most one boost at a time, at its highest tier reached
+export const MINING_BOOST_SOURCES = [
+  "recent_jobs", // Jobs completed in the last 7 days
+  "review_average", // Average customer rating over the last 30 days
+  "referrals", // Successful referrals in the last 14 days
+  "work_streak", // Consecutive weeks (Monday to Sunday, UTC) with at least one completed job
+] as const;
+export type MiningBoostSource = typeof MINING_BOOST_SOURCES[number];
+
+export const MINING_BOOST_SOURCE_LABELS: Record<MiningBoostSource, string> = {
+  recent_jobs: "Busy week",
+  review_average: "Top rated",
+  referrals: "Referrals",
+  work_streak: "Work streak",
+};
+
+// Sources that come from jobs and reviews, so only employees can earn them
+export const EMPLOYEE_MINING_BOOST_SOURCES: readonly MiningBoostSource[] = ["recent_jobs", "review_average", "work_streak"];
+
+export interface MiningBoostTier {
+  threshold: number; // Jobs, average rating, referrals or weeks needed
+  multiplier: number; // e.g. 1.25 mines 25% faster
+}
+
+export interface MiningBoostRule {
+  windowDays: number; // Activity older than this doesn't count
+  minReviews?: number; // review_average: reviews needed in the window before the average counts
+  tiers: MiningBoostTier[]; // Lowest threshold first
+}
+
+export const MINING_BOOST_RULES: Record<MiningBoostSource, MiningBoostRule> = {
+  recent_jobs: {
+    windowDays: 7,
+    tiers: [{ threshold: 3, multiplier: 1.25 }, { threshold: 5, multiplier: 1.5 }, { threshold: 10, multiplier: 2 }],
+  },
+  review_average: {
+    windowDays: 30,
+    minReviews: 3,
+    tiers: [{ threshold: 4.5, multiplier: 1.25 }, { threshold: 4.8, multiplier: 1.5 }],
+  },
+  referrals: {
+    windowDays: 14,
+    tiers: [{ threshold: 1, multiplier: 1.25 }, { threshold: 2, multiplier: 1.5 }, { threshold: 3, multiplier: 1.75 }],
+  },
+  work_streak: {
+    windowDays: 9 * 7, // Enough weeks to reach the top tier, plus the week in progress
+    tiers: [{ threshold: 2, multiplier: 1.1 }, { threshold: 4, multiplier: 1.25 }, { threshold: 8, multiplier: 1.5 }],
+  },
+};
+
+// Combined boosts never mine faster than this
+export const MAX_MINING_BOOST_MULTIPLIER = 3;
+
+// Furthest back any source looks, for loading activity once
+export const MINING_BOOST_LOOKBACK_DAYS = Math.max(...MINING_BOOST_SOURCES.map((source) => MINING_BOOST_RULES[source].windowDays));
+
+// What the boosts are worked out from. Times are newest first
+export interface MiningBoostActivity {
+  jobCompletedAt: Date[]; // One per job, when it was completed
+  reviews: Array<{ rating: number; createdAt: Date }>;
+  referredAt: Date[]; // When each successful referral was rewarded
+}
+
+export interface MiningBoostEvaluation {
+  source: MiningBoostSource;
+  value: number; // Jobs, average rating, referrals or weeks right now
+  tier: MiningBoostTier | null; // Highest tier reached
+  nextTier: MiningBoostTier | null;
+  expiresAt: Date | null; // When the current tier lapses without more activity
+  description: string | null; // How the boost was earned
+  hint: string | null; // How to reach the next tier
+}
+
+function getTier(rule: MiningBoostRule, value: number): MiningBoostTier | null {
+  return [...rule.tiers].reverse().find((tier) => value >= tier.threshold) || null;
+}
+
+function getNextTier(rule: MiningBoostRule, value: number): MiningBoostTier | null {
+  return rule.tiers.find((tier) => value < tier.threshold) || null;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function evaluateRecentJobs(activity: MiningBoostActivity, now: Date): MiningBoostEvaluation {
+  const rule = MINING_BOOST_RULES.recent_jobs;
+  const windowMs = rule.windowDays * DAY_MS;
+  const jobs = activity.jobCompletedAt.filter((completedAt) => now.getTime() - completedAt.getTime() < windowMs);
+  const tier = getTier(rule, jobs.length);
+  const nextTier = getNextTier(rule, jobs.length);
+  return {
+    source: "recent_jobs",
+    value: jobs.length,
+    tier,
+    nextTier,
+    // The tier holds until the job that reached its threshold is more than a week old
+    expiresAt: tier ? new Date(jobs[tier.threshold - 1].getTime() + windowMs) : null,
+    description: tier ? `${plural(jobs.length, "job")} completed in the last ${rule.windowDays} days` : null,
+    hint: nextTier ? `Complete ${plural(nextTier.threshold - jobs.length, "more job")} within ${rule.windowDays} days for ${nextTier.multiplier}x` : null,
+  };
+}
+
+function evaluateReviewAverage(activity: MiningBoostActivity, now: Date): MiningBoostEvaluation {
+  const rule = MINING_BOOST_RULES.review_average;
+  const minReviews = rule.minReviews || 1;
+  const windowMs = rule.windowDays * DAY_MS;
+  const reviews = activity.reviews.filter((review) => now.getTime() - review.createdAt.getTime() < windowMs);
+  const average = reviews.length ? Math.round((reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length) * 100) / 100 : 0;
+  const tier = reviews.length >= minReviews ? getTier(rule, average) : null;
+  const nextTier = reviews.length >= minReviews ? getNextTier(rule, average) : rule.tiers[0];
+  return {
+    source: "review_average",
+    value: average,
+    tier,
+    nextTier,
+    // Re-checked once the oldest review in the average drops out of the window
+    expiresAt: tier ? new Date(reviews[reviews.length - 1].createdAt.getTime() + windowMs) : null,
+    description: tier ? `${average.toFixed(2)} average over ${plural(reviews.length, "review")} in the last ${rule.windowDays} days` : null,
+    hint: !nextTier
+      ? null
+      : reviews.length < minReviews
+        ? `Get ${plural(minReviews - reviews.length, "more review")} averaging ${nextTier.threshold}+ within ${rule.windowDays} days for ${nextTier.multiplier}x`
+        : `Raise your ${rule.windowDays}-day review average to ${nextTier.threshold} for ${nextTier.multiplier}x`,
+  };
+}
+
+function evaluateReferrals(activity: MiningBoostActivity, now: Date): MiningBoostEvaluation {
+  const rule = MINING_BOOST_RULES.referrals;
+  const windowMs = rule.windowDays * DAY_MS;
+  const referrals = activity.referredAt.filter((referredAt) => now.getTime() - referredAt.getTime() < windowMs);
+  const tier = getTier(rule, referrals.length);
+  const nextTier = getNextTier(rule, referrals.length);
+  return {
+    source: "referrals",
+    value: referrals.length,
+    tier,
+    nextTier,
+    expiresAt: tier ? new Date(referrals[tier.threshold - 1].getTime() + windowMs) : null,
+    description: tier ? `${plural(referrals.length, "successful referral")} in the last ${rule.windowDays} days` : null,
+    hint: nextTier
+      ? `Refer ${nextTier.threshold - referrals.length} more ${nextTier.threshold - referrals.length === 1 ? "person" : "people"} within ${rule.windowDays} days for ${nextTier.multiplier}x`
+      : null,
+  };
+}
+
+function evaluateWorkStreak(activity: MiningBoostActivity, now: Date): MiningBoostEvaluation {
+  const rule = MINING_BOOST_RULES.work_streak;
+  const thisWeek = getLeaderboardWeekStart(now).getTime();
+  const weeksWorked = new Set(activity.jobCompletedAt.map((completedAt) => getLeaderboardWeekStart(completedAt).getTime()));
+  // The week in progress only extends the streak once it has a job; until then the streak runs to last week
+  const workedThisWeek = weeksWorked.has(thisWeek);
+  let weeks = 0;
+  for (let week = workedThisWeek ? thisWeek : thisWeek - WEEK_MS; weeksWorked.has(week); week -= WEEK_MS) {
+    weeks++;
+  }
+  const tier = getTier(rule, weeks);
+  const nextTier = getNextTier(rule, weeks);
+  return {
+    source: "work_streak",
+    value: weeks,
+    tier,
+    nextTier,
+    // The streak breaks when a whole week passes without a job
+    expiresAt: tier ? getLeaderboardWeekEnd(new Date(workedThisWeek ? thisWeek + WEEK_MS : thisWeek)) : null,
+    description: tier ? `Jobs completed ${weeks} weeks in a row` : null,
+    hint: nextTier ? `Complete a job ${plural(nextTier.threshold - weeks, "more week")} in a row for ${nextTier.multiplier}x` : null,
+  };
+}
+
+const EVALUATORS: Record<MiningBoostSource, (activity: MiningBoostActivity, now: Date) => MiningBoostEvaluation> = {
+  recent_jobs: evaluateRecentJobs,
+  review_average: evaluateReviewAverage,
+  referrals: evaluateReferrals,
+  work_streak: evaluateWorkStreak,
+};
+
+export function evaluateMiningBoosts(sources: readonly MiningBoostSource[], activity: MiningBoostActivity, now: Date = new Date()): MiningBoostEvaluation[] {
+  return sources.map((source) => EVALUATORS[source](activity, now));
+}
+
+// Boosts stack by adding what each adds on top of 1x, so 1.25x and 1.5x together mine at 1.75x
+export function combineMiningBoostMultipliers(multipliers: number[]): number {
+  const combined = 1 + multipliers.reduce((sum, multiplier) => sum + Math.max(multiplier - 1, 0), 0);
+  return Math.round(Math.min(combined, MAX_MINING_BOOST_MULTIPLIER) * 100) / 100;
+}
+
+export interface MiningBoostSummary {
+  source: MiningBoostSource;
+  label: string;
+  multiplier: number;
+  description: string;
+  earnedAt: string;
+  expiresAt: string;
+}
+
+export interface MiningBoostProgress {
+  source: MiningBoostSource;
+  label: string;
+  value: number;
+  multiplier: number | null; // Current tier's multiplier, null without a boost from this source
+  nextTier: MiningBoostTier | null;
+  hint: string | null;
+}
+
+export interface MiningBoostStatus {
+  multiplier: number; // What a claim right now would be paid at
+  maxMultiplier: number;
+  boosts: MiningBoostSummary[]; // Active boosts
+  progress: MiningBoostProgress[]; // Every source this user can earn, with how to reach the next tier
+}
@@ -0,0 +1,31 @@
+// Offline job actions - shared between the mobile sync queue and the idempotent job routes
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 100;
+
+export const OFFLINE_ACTION_TYPES = ["accept_job", "complete_job", "add_photo"] as const;
+export type OfflineActionType = typeof OFFLINE_ACTION_TYPES[number];
+
+export const OFFLINE_ACTION_LABELS: Record<OfflineActionType, string> = {
+  accept_job: "Accept job",
+  complete_job: "Complete job",
+  add_photo: "Add photo",
+};
+
+// Codes returned with 4xx responses from the accept, complete and photo routes
+export type JobActionErrorCode =
+  | "not_found"
+  | "job_taken"
+  | "already_accepted"
+  | "crew_full"
+  | "schedule_conflict"
+  | "already_completed"
+  | "not_assigned"
+  | "request_in_progress"
+  | "idempotency_key_reused";
+
+// The job already ended up the way the queued action wanted, so there is nothing to resolve
+export const RESOLVED_CONFLICT_CODES: JobActionErrorCode[] = ["already_accepted", "already_completed"];
+
+// The same request is still running on the server; retry later rather than treating it as a conflict
+export const TRANSIENT_CONFLICT_CODES: JobActionErrorCode[] = ["request_in_progress"];
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+// JCMOVES transfers between users - shared between the peer transfer service, wallet routes and the profile wallet tab
+
+export const PEER_TRANSFER_MEMO_MAX_LENGTH = 140;
+
+export const peerTransferSchema = z.object({
+  recipient: z.string().trim().min(1, "Enter a username or referral code").max(100),
+  amount: z.coerce.number().positive("Enter an amount to send"),
+  memo: z.string().trim().max(PEER_TRANSFER_MEMO_MAX_LENGTH, `Memos can be up to ${PEER_TRANSFER_MEMO_MAX_LENGTH} characters`).optional(),
+});
+export type PeerTransferInput = z.infer<typeof peerTransferSchema>;
+
+export type PeerTransferErrorCode =
+  | "recipient_not_found"
+  | "self_transfer"
+  | "invalid_amount"
+  | "insufficient_balance"
+  | "limit_exceeded"
+  | "blocked";
+
+// Thrown by storage when a transfer would go over the sender's daily limits; nothing is written
+export class PeerTransferError extends Error {
+  constructor(
+    public readonly code: PeerTransferErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "PeerTransferError";
+  }
+}
+
+// Daily limits are counted from the start of the UTC day
+export function getPeerTransferDayStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// A transfer as shown to either side of it
+export interface PeerTransferSummary {
+  id: string;
+  direction: "sent" | "received";
+  counterparty: { id: string; name: string };
+  amount: string;
+  memo: string | null;
+  createdAt: string;
+}
+
+// What the send form and history need
+export interface PeerTransferOverview {
+  availableTokens: string;
+  limits: {
+    minAmount: number;
+    dailyTokens: number;
+    dailyCount: number;
+    sentTodayTokens: number;
+    sentTodayCount: number;
+  };
+  transfers: PeerTransferSummary[];
+}
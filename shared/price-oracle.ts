@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+// JCMOVES price oracle - shared between the oracle service, treasury routes and the price panel on the treasury dashboard
+
+export const PRICE_SOURCE_NAMES = ["dexscreener", "moonshot", "fixture"] as const;
+export type PriceSourceName = typeof PRICE_SOURCE_NAMES[number];
+
+export const PRICE_SOURCE_LABELS: Record<PriceSourceName | "manual", string> = {
+  dexscreener: "DexScreener",
+  moonshot: "Moonshot",
+  fixture: "Fixture",
+  manual: "Manual override",
+};
+
+// What a recorded price was used for, stored in price_history.market_data.purpose
+export const PRICE_PURPOSES = [
+  "reward", // Reserve distributions: rewards, bonuses, mining claims, admin transfers
+  "conversion", // A USD amount turned into JCMOVES, e.g. sizing a reward
+  "invoice_payment",
+  "treasury_deposit",
+  "treasury_transfer",
+  "cashout",
+] as const;
+export type PricePurpose = typeof PRICE_PURPOSES[number];
+
+// One source's answer. Sources that fail or return nothing are reported with an error instead
+export interface PriceQuote {
+  source: PriceSourceName;
+  priceUsd: number | null;
+  observedAt: string | null;
+  error?: string;
+  status: "accepted" | "outlier" | "stale" | "failed";
+  marketData?: Record<string, number | string>;
+}
+
+// The aggregated price and the quotes it came from, as stored with every recorded price
+export interface PriceSnapshot {
+  priceUsd: number;
+  method: "median" | "manual";
+  observedAt: string; // Oldest accepted quote, so staleness is judged on the weakest input
+  aggregatedAt: string;
+  quotes: PriceQuote[];
+  overrideId?: string;
+}
+
+// price_history.market_data for rows the oracle records
+export interface RecordedPriceData {
+  purpose: PricePurpose;
+  relatedEntityType?: string;
+  relatedEntityId?: string;
+  snapshot: PriceSnapshot;
+}
+
+export const priceOverrideSchema = z.object({
+  priceUsd: z.number().positive("Price must be positive"),
+  reason: z.string().trim().min(1, "Explain why the market price is being overridden").max(500),
+  expiresInMinutes: z.number().int().min(5).max(72 * 60),
+});
+export type PriceOverrideInput = z.infer<typeof priceOverrideSchema>;
+
+export type PriceOracleErrorCode =
+  | "no_quotes"
+  | "insufficient_sources"
+  | "stale"
+  | "no_override";
+
+// Thrown when no price fresh enough for the caller is available; callers must not fall back to a guess
+export class PriceOracleError extends Error {
+  constructor(
+    public readonly code: PriceOracleErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "PriceOracleError";
+  }
+}
+
+// Middle value, or the mean of the middle two
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
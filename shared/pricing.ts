@@ -0,0 +1,299 @@
+import { z } from "zod";
+import { leadSpecialItemSchema, type Lead, type LeadSpecialItem } from "./schema";
+
+// Quote pricing engine - shared between the quote route, LeadQuoteDialog and the public estimate form
+
+export const specialItemRateSchema = z.object({
+  label: z.string().min(1),
+  baseFee: z.number().min(0),
+  feePerHundredLbs: z.number().min(0),
+  maxWeightLbs: z.number().min(0), // Weight above this is not charged
+});
+
+export const rateCardSchema = z.object({
+  crewHourlyRates: z.record(z.string(), z.number().min(0)), // Keyed by crew size ("2", "3", ...)
+  additionalMoverHourlyRate: z.number().min(0), // Per mover beyond the largest configured crew size
+  minimumHours: z.number().min(0),
+  defaultHoursByPropertySize: z.record(z.string(), z.number().min(0)), // Used when no hours estimate is given
+  truckSurcharges: z.record(z.string(), z.number().min(0)), // Keyed by truckConfig
+  mileageRate: z.number().min(0), // Per mile beyond includedMiles
+  includedMiles: z.number().min(0),
+  stairsFeePerFlight: z.number().min(0),
+  elevatorFee: z.number().min(0),
+  weekendMultiplier: z.number().min(1), // Applied to crew labor only
+  holidayMultiplier: z.number().min(1), // Applied to crew labor only, wins over the weekend multiplier
+  holidays: z.array(z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/, "Use MM-DD or YYYY-MM-DD")),
+  specialItems: z.record(z.string(), specialItemRateSchema),
+});
+
+// Pricing fields accepted by the quote route and the public estimate endpoint
+export const quotePricingInputSchema = z.object({
+  crewSize: z.number().int().min(1).max(20).optional(),
+  truckConfig: z.string().nullable().optional(),
+  estimatedHours: z.number().min(0).max(100).nullable().optional(),
+  propertySize: z.string().nullable().optional(),
+  distanceMiles: z.number().min(0).nullable().optional(),
+  stairsFlights: z.number().int().min(0).max(50).optional(),
+  hasElevator: z.boolean().optional(),
+  moveDate: z.string().nullable().optional(),
+  specialItems: z.array(leadSpecialItemSchema).max(50).optional(),
+  priceAdjustment: z.number().nullable().optional(),
+});
+
+export type SpecialItemRate = z.infer<typeof specialItemRateSchema>;
+export type RateCard = z.infer<typeof rateCardSchema>;
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  crewHourlyRates: { "1": 75, "2": 120, "3": 165, "4": 210 },
+  additionalMoverHourlyRate: 45,
+  minimumHours: 2,
+  defaultHoursByPropertySize: {
+    studio: 3,
+    "2br": 5,
+    "4br": 8,
+    office: 5,
+    "large-office": 10,
+  },
+  truckSurcharges: { company_truck: 150, customer_truck: 0, no_truck: 0 },
+  mileageRate: 2.5,
+  includedMiles: 10,
+  stairsFeePerFlight: 50,
+  elevatorFee: 75,
+  weekendMultiplier: 1.1,
+  holidayMultiplier: 1.25,
+  holidays: ["01-01", "07-04", "12-25"],
+  // Heavy items keep the original $200 base + $150 per 100 lbs (max 1000 lbs) pricing
+  specialItems: {
+    hot_tub: { label: "Hot Tub", baseFee: 200, feePerHundredLbs: 150, maxWeightLbs: 1000 },
+    heavy_safe: { label: "Heavy Safe", baseFee: 200, feePerHundredLbs: 150, maxWeightLbs: 1000 },
+    pool_table: { label: "Pool Table", baseFee: 200, feePerHundredLbs: 150, maxWeightLbs: 1000 },
+    piano: { label: "Piano", baseFee: 200, feePerHundredLbs: 150, maxWeightLbs: 1000 },
+    other: { label: "Other Heavy Item", baseFee: 100, feePerHundredLbs: 75, maxWeightLbs: 1000 },
+  },
+};
+
+export const TRUCK_CONFIG_LABELS: Record<string, string> = {
+  company_truck: "Company Truck",
+  customer_truck: "Customer Truck",
+  no_truck: "No Truck (Labor Only)",
+};
+
+export type QuoteLineCategory = "labor" | "multiplier" | "truck" | "mileage" | "access" | "special_item" | "adjustment";
+
+export interface QuoteLineItem {
+  category: QuoteLineCategory;
+  label: string;
+  detail?: string;
+  amount: number;
+}
+
+export interface QuoteInput {
+  crewSize?: number | null;
+  truckConfig?: string | null;
+  estimatedHours?: number | null;
+  propertySize?: string | null;
+  distanceMiles?: number | null;
+  stairsFlights?: number | null;
+  hasElevator?: boolean | null;
+  moveDate?: string | null; // YYYY-MM-DD
+  specialItems?: LeadSpecialItem[];
+  priceAdjustment?: number | null;
+}
+
+export interface QuoteBreakdown {
+  lineItems: QuoteLineItem[];
+  hours: number;
+  crewSize: number;
+  distanceMiles: number | null;
+  multiplier: number;
+  multiplierReason: "weekend" | "holiday" | null;
+  basePrice: number; // Everything except special items
+  specialItemsTotal: number;
+  total: number;
+  calculatedAt: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Hourly rate for a crew: exact match, otherwise the nearest smaller configured crew plus extra movers
+export function getCrewHourlyRate(rates: RateCard, crewSize: number): number {
+  const exact = rates.crewHourlyRates[String(crewSize)];
+  if (exact !== undefined) return exact;
+
+  const sizes = Object.keys(rates.crewHourlyRates).map(Number).filter((size) => !isNaN(size)).sort((a, b) => a - b);
+  if (sizes.length === 0) return crewSize * rates.additionalMoverHourlyRate;
+
+  const baseSize = [...sizes].reverse().find((size) => size <= crewSize) ?? sizes[0];
+  const extraMovers = Math.max(0, crewSize - baseSize);
+  return rates.crewHourlyRates[String(baseSize)] + extraMovers * rates.additionalMoverHourlyRate;
+}
+
+// Weight-based fee for one special item; items without a weight are charged the base fee only
+export function calculateSpecialItemFee(rate: SpecialItemRate, weight?: number | null): number {
+  const cappedWeight = Math.min(Math.max(weight || 0, 0), rate.maxWeightLbs);
+  const hundredPounds = Math.floor(cappedWeight / 100);
+  return rate.baseFee + hundredPounds * rate.feePerHundredLbs;
+}
+
+export function getSpecialItemRate(rates: RateCard, type: string): SpecialItemRate | undefined {
+  return rates.specialItems[type] || rates.specialItems.other;
+}
+
+// Parse YYYY-MM-DD as a local calendar date so weekends don't shift with the timezone
+function parseMoveDate(moveDate: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(moveDate);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+export function getDateMultiplier(rates: RateCard, moveDate?: string | null): { multiplier: number; reason: "weekend" | "holiday" | null } {
+  if (!moveDate) return { multiplier: 1, reason: null };
+  const date = parseMoveDate(moveDate);
+  if (!date) return { multiplier: 1, reason: null };
+
+  const isoDate = moveDate.slice(0, 10);
+  if (rates.holidays.some((holiday) => holiday === isoDate || holiday === isoDate.slice(5))) {
+    return { multiplier: rates.holidayMultiplier, reason: "holiday" };
+  }
+  const day = date.getDay();
+  if (day === 0 || day === 6) {
+    return { multiplier: rates.weekendMultiplier, reason: "weekend" };
+  }
+  return { multiplier: 1, reason: null };
+}
+
+export function calculateQuote(input: QuoteInput, rates: RateCard): QuoteBreakdown {
+  const lineItems: QuoteLineItem[] = [];
+  const crewSize = Math.max(1, input.crewSize || 2);
+
+  // Crew labor
+  const propertyHours = input.propertySize ? rates.defaultHoursByPropertySize[input.propertySize] : undefined;
+  const hours = Math.max(input.estimatedHours || propertyHours || 0, rates.minimumHours);
+  const hourlyRate = getCrewHourlyRate(rates, crewSize);
+  const laborAmount = roundCents(hourlyRate * hours);
+  lineItems.push({
+    category: "labor",
+    label: `${crewSize}-person crew`,
+    detail: `${hours} hrs × $${hourlyRate.toFixed(2)}/hr`,
+    amount: laborAmount,
+  });
+
+  const { multiplier, reason } = getDateMultiplier(rates, input.moveDate);
+  if (multiplier !== 1) {
+    lineItems.push({
+      category: "multiplier",
+      label: reason === "holiday" ? "Holiday rate" : "Weekend rate",
+      detail: `×${multiplier} on crew labor`,
+      amount: roundCents(laborAmount * (multiplier - 1)),
+    });
+  }
+
+  // Truck
+  const truckConfig = input.truckConfig || "company_truck";
+  const truckSurcharge = rates.truckSurcharges[truckConfig] || 0;
+  if (truckSurcharge > 0) {
+    lineItems.push({
+      category: "truck",
+      label: TRUCK_CONFIG_LABELS[truckConfig] || truckConfig,
+      amount: roundCents(truckSurcharge),
+    });
+  }
+
+  // Mileage between pickup and delivery
+  const distanceMiles = input.distanceMiles ?? null;
+  if (distanceMiles !== null) {
+    const billableMiles = Math.max(0, distanceMiles - rates.includedMiles);
+    if (billableMiles > 0) {
+      lineItems.push({
+        category: "mileage",
+        label: "Mileage",
+        detail: `${billableMiles.toFixed(1)} mi × $${rates.mileageRate.toFixed(2)} (first ${rates.includedMiles} mi included)`,
+        amount: roundCents(billableMiles * rates.mileageRate),
+      });
+    }
+  }
+
+  // Stairs and elevator
+  const stairsFlights = Math.max(0, input.stairsFlights || 0);
+  if (stairsFlights > 0) {
+    lineItems.push({
+      category: "access",
+      label: "Stairs",
+      detail: `${stairsFlights} flight${stairsFlights > 1 ? "s" : ""} × $${rates.stairsFeePerFlight.toFixed(2)}`,
+      amount: roundCents(stairsFlights * rates.stairsFeePerFlight),
+    });
+  }
+  if (input.hasElevator && rates.elevatorFee > 0) {
+    lineItems.push({ category: "access", label: "Elevator", amount: roundCents(rates.elevatorFee) });
+  }
+
+  // Special items
+  let specialItemsTotal = 0;
+  for (const item of input.specialItems || []) {
+    const rate = getSpecialItemRate(rates, item.type);
+    if (!rate) continue;
+    const quantity = item.quantity || 1;
+    const amount = roundCents(calculateSpecialItemFee(rate, item.weight) * quantity);
+    specialItemsTotal += amount;
+    lineItems.push({
+      category: "special_item",
+      label: item.label || rate.label,
+      detail: [item.weight ? `${item.weight} lbs` : null, quantity > 1 ? `qty ${quantity}` : null].filter(Boolean).join(", ") || undefined,
+      amount,
+    });
+  }
+
+  if (input.priceAdjustment) {
+    lineItems.push({
+      category: "adjustment",
+      label: input.priceAdjustment < 0 ? "Discount" : "Adjustment",
+      amount: roundCents(input.priceAdjustment),
+    });
+  }
+
+  const total = roundCents(lineItems.reduce((sum, line) => sum + line.amount, 0));
+  specialItemsTotal = roundCents(specialItemsTotal);
+
+  return {
+    lineItems,
+    hours,
+    crewSize,
+    distanceMiles,
+    multiplier,
+    multiplierReason: reason,
+    basePrice: roundCents(total - specialItemsTotal),
+    specialItemsTotal,
+    total,
+    calculatedAt: new Date().toISOString(),
+  };
+}
+
+// Special items for a lead, falling back to the legacy hot tub/safe/pool table/piano columns
+export function getLeadSpecialItems(lead: Partial<Lead>): LeadSpecialItem[] {
+  if (Array.isArray(lead.specialItems) && lead.specialItems.length > 0) {
+    return lead.specialItems as LeadSpecialItem[];
+  }
+
+  const legacyItems: LeadSpecialItem[] = [];
+  if (lead.hasHotTub) legacyItems.push({ type: "hot_tub", weight: lead.hotTubWeight ?? undefined, quantity: 1 });
+  if (lead.hasHeavySafe) legacyItems.push({ type: "heavy_safe", weight: lead.heavySafeWeight ?? undefined, quantity: 1 });
+  if (lead.hasPoolTable) legacyItems.push({ type: "pool_table", weight: lead.poolTableWeight ?? undefined, quantity: 1 });
+  if (lead.hasPiano) legacyItems.push({ type: "piano", weight: lead.pianoWeight ?? undefined, quantity: 1 });
+  return legacyItems;
+}
+
+// Engine input from a stored lead, preferring admin-confirmed values
+export function getLeadQuoteInput(lead: Partial<Lead>): QuoteInput {
+  return {
+    crewSize: lead.crewSize,
+    truckConfig: lead.truckConfig,
+    estimatedHours: lead.estimatedHours ? parseFloat(lead.estimatedHours) : null,
+    propertySize: lead.propertySize,
+    distanceMiles: lead.distanceMiles ? parseFloat(lead.distanceMiles) : null,
+    stairsFlights: lead.stairsFlights,
+    hasElevator: lead.hasElevator,
+    moveDate: lead.confirmedDate || lead.moveDate,
+    specialItems: getLeadSpecialItems(lead),
+    priceAdjustment: lead.priceAdjustment ? parseFloat(lead.priceAdjustment) : null,
+  };
+}
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import type { JobStop, Lead } from "./schema";
+
+// Multi-stop jobs and drive estimates - shared between the routing service, the stops editor and the job map
+
+export const JOB_STOP_TYPES = ["pickup", "dropoff"] as const;
+export type JobStopType = typeof JOB_STOP_TYPES[number];
+
+export const JOB_STOP_TYPE_LABELS: Record<JobStopType, string> = {
+  pickup: "Pickup",
+  dropoff: "Drop-off",
+};
+
+export const MAX_JOB_STOPS = 10;
+
+export const jobStopInputSchema = z.object({
+  stopType: z.enum(JOB_STOP_TYPES),
+  address: z.string().trim().min(1, "Address is required").max(500),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+export const jobStopsSchema = z.object({
+  stops: z.array(jobStopInputSchema)
+    .min(1, "Add at least one stop")
+    .max(MAX_JOB_STOPS, `A job can have at most ${MAX_JOB_STOPS} stops`)
+    .refine((stops) => stops[0]?.stopType === "pickup", "The first stop must be a pickup"),
+});
+
+export type JobStopInput = z.infer<typeof jobStopInputSchema>;
+
+export interface RouteStop {
+  position: number;
+  stopType: JobStopType;
+  address: string;
+  notes: string | null;
+}
+
+// Drive between two addresses. Distance and time are null when either address can't be located
+export interface RouteLeg {
+  fromAddress: string;
+  toAddress: string;
+  distanceMiles: number | null;
+  durationMinutes: number | null;
+}
+
+export interface RouteSummary {
+  legs: RouteLeg[];
+  totalMiles: number | null; // Null unless every leg could be estimated
+  totalDriveMinutes: number | null;
+}
+
+export interface JobRoute extends RouteSummary {
+  leadId: string;
+  stops: RouteStop[];
+}
+
+export interface CrewDayJob {
+  leadId: string;
+  customerName: string;
+  status: string;
+  start: string;
+  end: string;
+  isEstimated: boolean;
+  route: JobRoute;
+  // Drive from the previous job's last stop (or the employee's home base for the first job)
+  transit: RouteLeg | null;
+  gapMinutes: number | null; // Time between the previous job's end and this job's start
+  isTightConnection: boolean; // The drive takes longer than the gap
+}
+
+export interface CrewDayRoute {
+  employeeId: string;
+  date: string;
+  homeBaseAddress: string | null;
+  jobs: CrewDayJob[];
+  totalMiles: number | null;
+  totalDriveMinutes: number | null;
+}
+
+/**
+ * Ordered stops for a job. Jobs without saved stops use the (confirmed) from and to addresses
+ */
+export function getLeadStops(lead: Partial<Lead>, stops: JobStop[] = []): RouteStop[] {
+  if (stops.length > 0) {
+    return [...stops]
+      .sort((a, b) => a.position - b.position)
+      .map((stop, index) => ({
+        position: index,
+        stopType: stop.stopType as JobStopType,
+        address: stop.address,
+        notes: stop.notes,
+      }));
+  }
+
+  const fromAddress = lead.confirmedFromAddress || lead.fromAddress;
+  const toAddress = lead.confirmedToAddress || lead.toAddress;
+  const legacyStops: RouteStop[] = [];
+  if (fromAddress) legacyStops.push({ position: 0, stopType: "pickup", address: fromAddress, notes: null });
+  if (toAddress) legacyStops.push({ position: legacyStops.length, stopType: "dropoff", address: toAddress, notes: null });
+  return legacyStops;
+}
+
+// Totals are only meaningful when every leg could be estimated
+export function summarizeLegs(legs: RouteLeg[]): RouteSummary {
+  const complete = legs.every((leg) => leg.distanceMiles !== null && leg.durationMinutes !== null);
+  return {
+    legs,
+    totalMiles: complete ? Math.round(legs.reduce((total, leg) => total + leg.distanceMiles!, 0) * 10) / 10 : null,
+    totalDriveMinutes: complete ? Math.round(legs.reduce((total, leg) => total + leg.durationMinutes!, 0)) : null,
+  };
+}
+
+export function formatDriveMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+}
+
+export function formatRouteLeg(leg: RouteLeg): string {
+  return leg.distanceMiles === null || leg.durationMinutes === null
+    ? "Drive unknown"
+    : `${leg.distanceMiles} mi · ${formatDriveMinutes(leg.durationMinutes)}`;
+}
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { Lead } from "./schema";
+import type { QuoteBreakdown } from "./pricing";
+
+// Crew scheduling - shared between acceptance checks on the server and the calendar views
+
+export const DAY_OF_WEEK_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Jobs without a scheduled start are assumed to start at this hour on their move date
+export const DEFAULT_JOB_START_HOUR = 8;
+export const DEFAULT_JOB_HOURS = 4;
+
+// Statuses where the crew is still expected to show up
+export const SCHEDULED_LEAD_STATUSES = ["confirmed", "available", "accepted", "in_progress"];
+
+export const TIME_OFF_STATUSES = ["pending", "approved", "denied", "cancelled"] as const;
+export type TimeOffStatus = typeof TIME_OFF_STATUSES[number];
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)");
+
+export const weeklyAvailabilitySchema = z.array(z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  isAvailable: z.boolean(),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+}).refine((day) => !day.isAvailable || day.startTime < day.endTime, "End time must be after start time")).max(7);
+
+export type WeeklyAvailability = z.infer<typeof weeklyAvailabilitySchema>;
+
+export const timeOffRequestSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  reason: z.string().max(500).optional(),
+}).refine((request) => new Date(request.endDate) > new Date(request.startDate), "End must be after start");
+
+export interface ScheduleWindow {
+  start: Date;
+  end: Date;
+  isEstimated: boolean; // True when derived from the free-text move date instead of scheduledStart
+}
+
+export type ScheduleConflictType = "job_overlap" | "time_off" | "time_off_pending" | "non_working_day" | "outside_hours";
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  severity: "block" | "warn";
+  message: string;
+  leadId?: string;
+  timeOffId?: string;
+}
+
+// Minimal shapes so the same checks run against DB rows on the server and JSON on the client
+export interface TimeOffPeriod {
+  id: string;
+  startDate: Date | string;
+  endDate: Date | string;
+  status: string;
+  reason?: string | null;
+}
+
+export interface AvailabilityDay {
+  dayOfWeek: number;
+  isAvailable: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+// Parses "YYYY-MM-DD" (and other Date-parseable strings) from moveDate/confirmedDate as a local date
+function parseLeadDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const isoMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const date = isoMatch
+    ? new Date(parseInt(isoMatch[1]), parseInt(isoMatch[2]) - 1, parseInt(isoMatch[3]))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function getLeadJobHours(lead: Partial<Lead>): number {
+  const breakdown = lead.quoteBreakdown as QuoteBreakdown | null | undefined;
+  if (breakdown?.hours) return breakdown.hours;
+  if (lead.estimatedHours) return parseFloat(lead.estimatedHours);
+  return DEFAULT_JOB_HOURS;
+}
+
+// When the crew is booked for a job. Falls back to the confirmed/requested move date for unscheduled jobs
+export function getLeadScheduleWindow(lead: Partial<Lead>): ScheduleWindow | null {
+  const hours = getLeadJobHours(lead);
+
+  if (lead.scheduledStart) {
+    const start = new Date(lead.scheduledStart);
+    const end = lead.scheduledEnd ? new Date(lead.scheduledEnd) : new Date(start.getTime() + hours * 60 * 60 * 1000);
+    return { start, end, isEstimated: false };
+  }
+
+  const date = parseLeadDate(lead.confirmedDate) || parseLeadDate(lead.moveDate);
+  if (!date) return null;
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), DEFAULT_JOB_START_HOUR);
+  return { start, end: new Date(start.getTime() + hours * 60 * 60 * 1000), isEstimated: true };
+}
+
+export function windowsOverlap(a: { start: Date; end: Date }, b: { start: Date; end: Date }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+// Whether a lead is on an employee's schedule (accepted, on the crew or assigned)
+export function isEmployeeOnLead(lead: Partial<Lead>, employeeId: string): boolean {
+  return lead.assignedToUserId === employeeId
+    || !!lead.crewMembers?.includes(employeeId)
+    || !!lead.acceptedByEmployees?.includes(employeeId);
+}
+
+const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatWindow = (window: { start: Date; end: Date }) =>
+  `${window.start.toLocaleDateString()} ${window.start.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}-${window.end.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`;
+
+/**
+ * Conflicts for putting an employee on a job. Overlapping jobs and approved time off block the booking;
+ * pending time off and working-hours mismatches are warnings the employee or owner can accept
+ */
+export function findScheduleConflicts(params: {
+  window: ScheduleWindow;
+  otherJobs: Partial<Lead>[];
+  timeOff: TimeOffPeriod[];
+  weeklyAvailability: AvailabilityDay[];
+}): ScheduleConflict[] {
+  const { window, otherJobs, timeOff, weeklyAvailability } = params;
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const job of otherJobs) {
+    if (!job.status || !SCHEDULED_LEAD_STATUSES.includes(job.status)) continue;
+    const jobWindow = getLeadScheduleWindow(job);
+    if (!jobWindow || !windowsOverlap(window, jobWindow)) continue;
+    conflicts.push({
+      type: "job_overlap",
+      severity: "block",
+      message: `Already booked on ${job.firstName || "another"} ${job.lastName || "job"} (${formatWindow(jobWindow)})`,
+      leadId: job.id,
+    });
+  }
+
+  for (const period of timeOff) {
+    if (period.status !== "approved" && period.status !== "pending") continue;
+    const periodWindow = { start: new Date(period.startDate), end: new Date(period.endDate) };
+    if (!windowsOverlap(window, periodWindow)) continue;
+    conflicts.push({
+      type: period.status === "approved" ? "time_off" : "time_off_pending",
+      severity: period.status === "approved" ? "block" : "warn",
+      message: `${period.status === "approved" ? "Time off" : "Pending time off request"} ${periodWindow.start.toLocaleDateString()}-${periodWindow.end.toLocaleDateString()}${period.reason ? ` (${period.reason})` : ""}`,
+      timeOffId: period.id,
+    });
+  }
+
+  // No weekly availability on file means the employee works any day
+  if (weeklyAvailability.length > 0) {
+    const day = weeklyAvailability.find((entry) => entry.dayOfWeek === window.start.getDay());
+    if (!day || !day.isAvailable) {
+      conflicts.push({
+        type: "non_working_day",
+        severity: "warn",
+        message: `Doesn't normally work on ${DAY_OF_WEEK_LABELS[window.start.getDay()]}s`,
+      });
+    } else if (!window.isEstimated) {
+      const startMinutes = window.start.getHours() * 60 + window.start.getMinutes();
+      const endMinutes = window.end.getDate() !== window.start.getDate()
+        ? 24 * 60
+        : window.end.getHours() * 60 + window.end.getMinutes();
+      if (startMinutes < timeToMinutes(day.startTime) || endMinutes > timeToMinutes(day.endTime)) {
+        conflicts.push({
+          type: "outside_hours",
+          severity: "warn",
+          message: `Outside usual hours (${day.startTime}-${day.endTime})`,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// Thrown by storage when an acceptance would double-book an employee
+export class ScheduleConflictError extends Error {
+  constructor(public readonly conflicts: ScheduleConflict[]) {
+    super(conflicts.filter((conflict) => conflict.severity === "block").map((conflict) => conflict.message).join("; ") || "Schedule conflict");
+    this.name = "ScheduleConflictError";
+  }
+}
@@ -1,12 +1,13 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, index, jsonb, decimal, integer, bigint, date, boolean, uniqueIndex, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, index, jsonb, decimal, integer, bigint, date, boolean, uniqueIndex, unique, serial } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Define photo structure for job documentation
 export const jobPhotoSchema = z.object({
   id: z.string().uuid(),
-  url: z.string().url(),
+  url: z.string().min(1), // Media store path (/api/media/:id); older photos hold data URLs
+  thumbnailUrl: z.string().optional(),
   type: z.enum(["before", "after", "progress", "issue"]),
   description: z.string().optional(),
   timestamp: z.string().datetime(),
@@ -18,6 +19,16 @@ export const jobPhotoSchema = z.object({
 
 export type JobPhoto = z.infer<typeof jobPhotoSchema>;
 
+// Special items on a job (piano, hot tub, safe, ...) - priced by type from the active rate card
+export const leadSpecialItemSchema = z.object({
+  type: z.string().min(1), // Key into the rate card's specialItems, unknown types fall back to 'other'
+  label: z.string().optional(), // Free-text description, e.g. "Upright piano"
+  weight: z.number().min(0).optional(), // Weight in pounds
+  quantity: z.number().int().min(1).default(1),
+});
+
+export type LeadSpecialItem = z.infer<typeof leadSpecialItemSchema>;
+
 export const leads = pgTable("leads", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   firstName: text("first_name").notNull(),
@@ -30,7 +41,7 @@ export const leads = pgTable("leads", {
   moveDate: text("move_date"),
   propertySize: text("property_size"),
   details: text("details"),
-  status: text("status").notNull().default("new"), // 'new', 'contacted', 'quoted', 'accepted', 'in_progress', 'completed'
+  status: text("status").notNull().default("new"), // See LEAD_STATUSES in shared/lead-status.ts for the full lifecycle
   assignedToUserId: varchar("assigned_to_user_id").references(() => users.id),
   createdByUserId: varchar("created_by_user_id").references(() => users.id), // Track employee who created the job for rewards
   truckConfig: text("truck_config"), // 'customer_truck', 'company_truck', 'no_truck'
@@ -45,8 +56,19 @@ export const leads = pgTable("leads", {
   basePrice: decimal("base_price", { precision: 10, scale: 2 }), // Base moving quote
   tokenAllocation: decimal("token_allocation", { precision: 18, scale: 8 }), // JCMOVES tokens allocated for this job
   crewMembers: text("crew_members").array(), // Array of assigned employee IDs
+  scheduledStart: timestamp("scheduled_start"), // Crew booking window; unscheduled jobs fall back to the move date (see shared/scheduling.ts)
+  scheduledEnd: timestamp("scheduled_end"),
   
-  // Special moving items with weight tracking
+  // Pricing engine inputs (see shared/pricing.ts)
+  specialItems: jsonb("special_items").default("[]"), // Array of LeadSpecialItem
+  estimatedHours: decimal("estimated_hours", { precision: 5, scale: 2 }), // Overrides the property size estimate
+  stairsFlights: integer("stairs_flights").default(0), // Flights of stairs across pickup and delivery
+  hasElevator: boolean("has_elevator").default(false),
+  distanceMiles: decimal("distance_miles", { precision: 8, scale: 2 }), // Driving distance across the job's stops
+  priceAdjustment: decimal("price_adjustment", { precision: 10, scale: 2 }).default("0.00"), // Manual discount (negative) or extra charge
+  quoteBreakdown: jsonb("quote_breakdown"), // Itemized QuoteBreakdown produced by the pricing engine
+  
+  // DEPRECATED: Legacy special item columns, superseded by specialItems. Kept for quotes created before the pricing engine
   hasHotTub: boolean("has_hot_tub").default(false),
   hotTubWeight: integer("hot_tub_weight"), // Weight in pounds
   hotTubFee: decimal("hot_tub_fee", { precision: 10, scale: 2 }),
@@ -64,7 +86,7 @@ export const leads = pgTable("leads", {
   pianoFee: decimal("piano_fee", { precision: 10, scale: 2 }),
   
   totalSpecialItemsFee: decimal("total_special_items_fee", { precision: 10, scale: 2 }).default("0.00"),
-  totalPrice: decimal("total_price", { precision: 10, scale: 2 }), // Base + special items
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }), // Base + special items (engine total)
   
   // Quote management fields
   quoteNotes: text("quote_notes"), // Project-specific notes and updates
@@ -76,6 +98,224 @@ export const leads = pgTable("leads", {
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Audit trail of every lead status change (drives the job timeline)
+export const leadStatusHistory = pgTable("lead_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id),
+  fromStatus: text("from_status"), // Null for the initial 'new' entry
+  toStatus: text("to_status").notNull(),
+  changedByUserId: varchar("changed_by_user_id").references(() => users.id), // Null for system transitions
+  changedByRole: text("changed_by_role").notNull().default("system"), // 'manager', 'employee', 'customer', 'system'
+  reason: text("reason"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_lead_status_history_lead").on(table.leadId, table.createdAt),
+]);
+
+// Ordered pickup/drop-off stops for multi-stop jobs. Jobs without stops use fromAddress/toAddress (see shared/routing.ts)
+export const jobStops = pgTable("job_stops", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id),
+  position: integer("position").notNull(), // 0-based order the crew visits the stops in
+  stopType: text("stop_type").notNull(), // 'pickup', 'dropoff'
+  address: text("address").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  uniqueIndex("uq_job_stop_position").on(table.leadId, table.position),
+]);
+
+// Every quote emailed to a customer is kept as an immutable version with its response
+export const quoteVersions = pgTable("quote_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id),
+  versionNumber: integer("version_number").notNull(),
+  accessTokenHash: varchar("access_token_hash").notNull().unique(), // SHA-256 of the token in the emailed link
+  status: text("status").notNull().default("sent"), // 'sent', 'viewed', 'accepted', 'declined', 'superseded'
+  breakdown: jsonb("breakdown").notNull(), // QuoteBreakdown the customer was shown
+  details: jsonb("details").notNull(), // Snapshot of dates, addresses, crew size and notes at send time
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  sentToEmail: text("sent_to_email").notNull(),
+  sentByUserId: varchar("sent_by_user_id").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  viewedAt: timestamp("viewed_at"),
+  respondedAt: timestamp("responded_at"),
+  signatureName: text("signature_name"), // Typed signature on acceptance
+  termsAcceptedAt: timestamp("terms_accepted_at"),
+  responseIp: text("response_ip"),
+  responseUserAgent: text("response_user_agent"),
+  declineReason: text("decline_reason"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("unique_lead_quote_version").on(table.leadId, table.versionNumber),
+]);
+
+// Admin-editable pricing rate cards. Only one card is active at a time; older cards are kept as history
+export const pricingRateCards = pgTable("pricing_rate_cards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  rates: jsonb("rates").notNull(), // RateCard, validated with rateCardSchema in shared/pricing.ts
+  isActive: boolean("is_active").notNull().default(true),
+  updatedByUserId: varchar("updated_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_pricing_rate_cards_active").on(table.isActive),
+]);
+
+// One invoice per completed job, generated from the saved quote when the job is marked complete
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceNumber: serial("invoice_number").notNull().unique(), // Displayed as INV-000123
+  leadId: varchar("lead_id").notNull().references(() => leads.id).unique(),
+  customerName: text("customer_name").notNull(),
+  customerEmail: text("customer_email").notNull(),
+  billingAddress: text("billing_address"),
+  status: text("status").notNull().default("open"), // 'open', 'partially_paid', 'paid', 'void'
+  lineItems: jsonb("line_items").notNull().default("[]"), // Array of InvoiceLineItem (see shared/invoices.ts)
+  taxRate: decimal("tax_rate", { precision: 6, scale: 4 }).notNull().default("0.0000"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  discountTotal: decimal("discount_total", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  damagesTotal: decimal("damages_total", { precision: 10, scale: 2 }).notNull().default("0.00"), // Credited to the customer
+  tipTotal: decimal("tip_total", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  balanceDue: decimal("balance_due", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  issuedAt: timestamp("issued_at").notNull().default(sql`now()`),
+  dueDate: timestamp("due_date").notNull(),
+  paidAt: timestamp("paid_at"),
+  voidedAt: timestamp("voided_at"),
+  notes: text("notes"),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_invoices_status_due").on(table.status, table.dueDate),
+]);
+
+// Deposits and payments against a job. Deposits taken before completion have no invoice until it is generated
+export const invoicePayments = pgTable("invoice_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id),
+  invoiceId: varchar("invoice_id").references(() => invoices.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // USD value of the payment
+  method: text("method").notNull(), // 'cash', 'card', 'check', 'jcmoves'
+  isDeposit: boolean("is_deposit").notNull().default(false),
+  reference: text("reference"), // Check number, card last 4, ...
+  tokenAmount: decimal("token_amount", { precision: 18, scale: 8 }), // JCMOVES paid, for token payments
+  tokenPriceUsd: decimal("token_price_usd", { precision: 18, scale: 8 }), // Price used to convert the tokens
+  payerUserId: varchar("payer_user_id").references(() => users.id), // Wallet debited for token payments
+  receivedByUserId: varchar("received_by_user_id").references(() => users.id),
+  notes: text("notes"),
+  receivedAt: timestamp("received_at").notNull().default(sql`now()`),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_invoice_payments_lead").on(table.leadId),
+  index("idx_invoice_payments_invoice").on(table.invoiceId),
+]);
+
+// Weekly working days per employee. Employees with no rows are treated as available every day
+export const employeeAvailability = pgTable("employee_availability", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  isAvailable: boolean("is_available").notNull().default(true),
+  startTime: text("start_time").notNull().default("08:00"), // HH:MM, local time
+  endTime: text("end_time").notNull().default("18:00"),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("unique_employee_availability_day").on(table.userId, table.dayOfWeek),
+]);
+
+// Time off requested by employees; approved time off blocks job acceptance
+export const employeeTimeOff = pgTable("employee_time_off", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason"),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'denied', 'cancelled'
+  reviewedByUserId: varchar("reviewed_by_user_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_employee_time_off_user").on(table.userId, table.startDate),
+]);
+
+// Crew clock-in/out per job. Locations are checked against the pickup address; closed entries wait for admin approval
+export const timeEntries = pgTable("time_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  leadId: varchar("lead_id").notNull().references(() => leads.id),
+  status: text("status").notNull().default("open"), // 'open', 'submitted', 'approved', 'rejected'
+  clockInAt: timestamp("clock_in_at").notNull().default(sql`now()`),
+  clockOutAt: timestamp("clock_out_at"),
+  clockInLatitude: decimal("clock_in_latitude", { precision: 10, scale: 7 }),
+  clockInLongitude: decimal("clock_in_longitude", { precision: 10, scale: 7 }),
+  clockInDistanceMeters: integer("clock_in_distance_meters"), // From the pickup address, null if it couldn't be located
+  clockOutLatitude: decimal("clock_out_latitude", { precision: 10, scale: 7 }),
+  clockOutLongitude: decimal("clock_out_longitude", { precision: 10, scale: 7 }),
+  clockOutDistanceMeters: integer("clock_out_distance_meters"),
+  locationVerified: boolean("location_verified").notNull().default(false), // Both clock events were within range of the job
+  breaks: jsonb("breaks").notNull().default(sql`'[]'::jsonb`), // TimeEntryBreak[] from shared/time-clock.ts
+  breakMinutes: integer("break_minutes"), // Set on clock out or by an admin edit
+  workedMinutes: integer("worked_minutes"), // Clocked time less breaks, set on clock out or by an admin edit
+  isOnTime: boolean("is_on_time"), // Clocked in by the scheduled start plus grace, null for jobs without a date
+  notes: text("notes"),
+  originalClockInAt: timestamp("original_clock_in_at"), // Recorded times before the first admin edit
+  originalClockOutAt: timestamp("original_clock_out_at"),
+  editedByUserId: varchar("edited_by_user_id").references(() => users.id),
+  editedAt: timestamp("edited_at"),
+  editNote: text("edit_note"),
+  reviewedByUserId: varchar("reviewed_by_user_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_time_entries_user").on(table.userId, table.clockInAt),
+  index("idx_time_entries_lead").on(table.leadId),
+  uniqueIndex("uq_open_time_entry_per_user").on(table.userId).where(sql`${table.clockOutAt} IS NULL`),
+]);
+
+// Responses to requests sent with an Idempotency-Key header (offline sync retries), replayed instead of re-running the request
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  key: text("key").notNull(),
+  requestPath: text("request_path").notNull(), // A key can only be replayed for the request it was first used on
+  statusCode: integer("status_code"), // Null while the first request is still running
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  uniqueIndex("uq_idempotency_key_per_user").on(table.userId, table.key),
+]);
+
+// Uploaded job photos and shop media. Bytes live in object storage (ObjectStorageService); rows hold metadata and ownership
+export const mediaAssets = pgTable("media_assets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  uploadedBy: varchar("uploaded_by").references(() => users.id), // Null for media moved over from base64/JSONB rows
+  purpose: text("purpose").notNull(), // 'job_photo', 'shop_item'
+  ownerType: text("owner_type"), // 'lead', 'shop_item' once attached; null while unattached
+  ownerId: varchar("owner_id"),
+  status: text("status").notNull().default("pending"), // 'pending' (upload URL issued), 'ready' (stored and processed)
+  objectKey: text("object_key").notNull(),
+  thumbnailKey: text("thumbnail_key"), // Images only
+  contentType: text("content_type").notNull(),
+  sizeBytes: integer("size_bytes"),
+  width: integer("width"),
+  height: integer("height"),
+  takenAt: timestamp("taken_at"), // From EXIF
+  latitude: decimal("latitude", { precision: 10, scale: 7 }), // From EXIF GPS
+  longitude: decimal("longitude", { precision: 10, scale: 7 }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_media_assets_owner").on(table.ownerType, table.ownerId),
+  index("idx_media_assets_uploaded_by").on(table.uploadedBy),
+]);
+
 export const contacts = pgTable("contacts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -119,6 +359,16 @@ export const users = pgTable("users", {
   referralCount: integer("referral_count").default(0), // Number of successful referrals made
   pushSubscription: jsonb("push_subscription"), // Store push notification subscription data
   notificationsEnabled: boolean("notifications_enabled").default(true), // User preference for notifications
+  homeBaseAddress: text("home_base_address"), // Where an employee starts their day, used for crew suggestion distance
+  crewSkills: text("crew_skills").array().default(sql`ARRAY[]::text[]`), // CrewSkill keys from shared/crew-scoring.ts
+  kycStatus: text("kyc_status").notNull().default("unverified"), // KycStatus from shared/cashouts.ts - 'unverified', 'pending', 'verified', 'rejected'
+  kycDetails: text("kyc_details"), // Encrypted KycSubmission
+  kycSubmittedAt: timestamp("kyc_submitted_at"),
+  kycReviewedAt: timestamp("kyc_reviewed_at"),
+  kycReviewedBy: varchar("kyc_reviewed_by"),
+  kycRejectionReason: text("kyc_rejection_reason"),
+  cashoutDailyLimitUsd: decimal("cashout_daily_limit_usd", { precision: 10, scale: 2 }), // Null uses CASHOUT_CONFIG.DAILY_LIMIT_USD
+  cashoutMonthlyLimitUsd: decimal("cashout_monthly_limit_usd", { precision: 10, scale: 2 }), // Null uses CASHOUT_CONFIG.MONTHLY_LIMIT_USD
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -127,7 +377,7 @@ export const users = pgTable("users", {
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  type: text("type").notNull(), // 'job_assigned', 'job_status_change', 'new_message', 'system_alert'
+  type: text("type").notNull(), // 'job_assigned', 'job_status_change', 'new_message', 'system_alert', 'quote_response'
   title: text("title").notNull(),
   message: text("message").notNull(),
   data: jsonb("data"), // Additional data like job ID, status info
@@ -154,6 +404,35 @@ export const rewards = pgTable("rewards", {
   uniqueIndex("uq_signup_bonus_per_user").on(table.userId, table.rewardType).where(sql`${table.rewardType} = 'signup_bonus'`),
 ]);
 
+// Employee rewards paid on a vesting schedule. The immediate share is distributed when the grant is made;
+// the rest stays in the treasury reserve and is released daily as it vests, or forfeited if the employee is removed
+export const tokenGrants = pgTable("token_grants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  source: text("source").notNull(), // VestingSource from shared/vesting.ts - 'job_completion', 'job_creation_bonus', 'achievement'
+  referenceId: varchar("reference_id").notNull(), // Lead ID for job rewards, achievement type ID for achievements
+  description: text("description").notNull(),
+  totalAmount: decimal("total_amount", { precision: 18, scale: 8 }).notNull(),
+  releasedAmount: decimal("released_amount", { precision: 18, scale: 8 }).notNull().default("0"), // Includes the immediate share
+  releasingAmount: decimal("releasing_amount", { precision: 18, scale: 8 }).notNull().default("0"), // Claimed by a release in flight
+  releasingAt: timestamp("releasing_at"),
+  forfeitedAmount: decimal("forfeited_amount", { precision: 18, scale: 8 }).notNull().default("0"),
+  immediatePercent: integer("immediate_percent").notNull(),
+  vestingDays: integer("vesting_days").notNull(),
+  vestingStartsAt: timestamp("vesting_starts_at").notNull().default(sql`now()`),
+  status: text("status").notNull().default("active"), // TokenGrantStatus - 'active', 'vested', 'forfeited'
+  lastReleasedAt: timestamp("last_released_at"),
+  forfeitedAt: timestamp("forfeited_at"),
+  forfeitReason: text("forfeit_reason"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_token_grants_user").on(table.userId, table.status),
+  index("idx_token_grants_status").on(table.status),
+  // One grant per reward, so a retried award can't lock up the same tokens twice
+  uniqueIndex("uq_token_grants_reward").on(table.userId, table.source, table.referenceId),
+]);
+
 // DEPRECATED: Daily check-ins replaced by unified mining system with streak tracking
 // This table is kept for historical data only. New streak tracking is in mining_sessions.
 // See mining_sessions.lastClaimDate and mining_sessions.streakCount for current implementation.
@@ -249,7 +528,7 @@ export const walletTransactions = pgTable("wallet_transactions", {
   userWalletId: varchar("user_wallet_id").references(() => userWallets.id), // Nullable - one of userWalletId or treasuryWalletId must be present
   treasuryWalletId: varchar("treasury_wallet_id").references(() => treasuryWallets.id), // Nullable - for treasury transactions
   transactionHash: text("transaction_hash"), // Blockchain transaction hash
-  transactionType: text("transaction_type").notNull(), // 'deposit', 'withdrawal', 'reward', 'transfer'
+  transactionType: text("transaction_type").notNull(), // 'deposit', 'withdrawal', 'reward', 'transfer', 'deposit_sweep'
   amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
   balanceAfter: decimal("balance_after", { precision: 18, scale: 8 }).notNull(),
   fromAddress: text("from_address"),
@@ -265,6 +544,8 @@ export const walletTransactions = pgTable("wallet_transactions", {
   index("idx_wallet_transactions").on(table.userWalletId),
   index("idx_transaction_hash").on(table.transactionHash),
   index("idx_transaction_status").on(table.status),
+  // The deposit monitor can see a signature more than once; each one credits a wallet at most once
+  uniqueIndex("uq_wallet_deposit_signature").on(table.userWalletId, table.transactionHash).where(sql`${table.transactionType} = 'deposit'`),
 ]);
 
 export const cashoutRequests = pgTable("cashout_requests", {
@@ -273,13 +554,47 @@ export const cashoutRequests = pgTable("cashout_requests", {
   tokenAmount: decimal("token_amount", { precision: 18, scale: 8 }).notNull(),
   cashAmount: decimal("cash_amount", { precision: 10, scale: 2 }).notNull(),
   conversionRate: decimal("conversion_rate", { precision: 18, scale: 8 }).notNull(), // tokens per USD
-  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'completed', 'failed', 'cancelled'
-  bankDetails: jsonb("bank_details"), // Encrypted bank account info
+  status: text("status").notNull().default("pending"), // CashoutStatus from shared/cashouts.ts - 'pending_review', 'pending', 'submitting', 'processing', 'completed', 'failed', 'cancelled'
+  bankDetails: jsonb("bank_details"), // Encrypted payout details for any method: bank account, PayPal email or FaucetPay recipient
+  payoutMethod: text("payout_method").notNull().default("ach"), // 'ach', 'paypal', 'faucetpay'
+  payoutProvider: text("payout_provider").notNull().default("request_network"), // PayoutProvider.name that sends it, e.g. 'paypal' or 'fake'
+  payoutDestination: text("payout_destination"), // Masked destination for display
+  payoutDestinationHash: text("payout_destination_hash"), // SHA-256 of the details, to spot a new destination without decrypting
+  priceHistoryId: varchar("price_history_id").references(() => priceHistory.id), // Oracle price the tokens were converted at
+  flagReasons: jsonb("flag_reasons").default(sql`'[]'::jsonb`), // Why the request was held for review
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
   externalTransactionId: text("external_transaction_id"), // Reference from payment processor
+  submittedAt: timestamp("submitted_at"),
   processedDate: timestamp("processed_date"),
   failureReason: text("failure_reason"),
+  ledgerEntryId: varchar("ledger_entry_id"), // Debit into cashout_clearing
+  settlementEntryId: varchar("settlement_entry_id"), // Completion into the reserve, or the refund
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
-});
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_cashout_requests_user").on(table.userId, table.createdAt),
+  index("idx_cashout_requests_status").on(table.status),
+  uniqueIndex("uq_cashout_requests_external").on(table.payoutProvider, table.externalTransactionId),
+]);
+
+// JCMOVES sent from one user's rewards balance to another's. Only completed transfers are stored;
+// attempts blocked by fraud scoring are kept in fraud_logs instead
+export const peerTransfers = pgTable("peer_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  senderId: varchar("sender_id").notNull().references(() => users.id),
+  recipientId: varchar("recipient_id").notNull().references(() => users.id),
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
+  memo: text("memo"),
+  riskScore: integer("risk_score").notNull().default(0), // FraudDetectionService score when it was sent
+  fraudReasons: jsonb("fraud_reasons").default(sql`'[]'::jsonb`),
+  ledgerEntryId: varchar("ledger_entry_id"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_peer_transfers_sender").on(table.senderId, table.createdAt),
+  index("idx_peer_transfers_recipient").on(table.recipientId, table.createdAt),
+]);
 
 export const fraudLogs = pgTable("fraud_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -340,13 +655,27 @@ export const reserveTransactions = pgTable("reserve_transactions", {
 export const priceHistory = pgTable("price_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   priceUsd: decimal("price_usd", { precision: 18, scale: 12 }).notNull(), // JCMOVES price in USD
-  source: text("source").notNull(), // 'moonshot', 'dexscreener', 'manual'
-  marketData: jsonb("market_data"), // Additional market data (volume, market cap, etc.)
+  source: text("source").notNull(), // 'moonshot', 'dexscreener', 'manual', or 'oracle' for prices the oracle recorded for a reward or conversion
+  marketData: jsonb("market_data"), // Additional market data (volume, market cap, etc.); RecordedPriceData for oracle rows
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 }, (table) => [
   index("idx_price_history_created").on(table.createdAt),
 ]);
 
+// Admin-set JCMOVES price that replaces the market sources until it expires or is cleared
+export const priceOracleOverrides = pgTable("price_oracle_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priceUsd: decimal("price_usd", { precision: 18, scale: 12 }).notNull(),
+  reason: text("reason").notNull(),
+  setBy: varchar("set_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  clearedBy: varchar("cleared_by").references(() => users.id),
+  clearedAt: timestamp("cleared_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_price_oracle_overrides_active").on(table.expiresAt),
+]);
+
 // Help requests for employee support
 export const helpRequests = pgTable("help_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -372,7 +701,6 @@ export const miningSessions = pgTable("mining_sessions", {
   lastClaimDate: date("last_claim_date"), // Track the date of last claim for streak calculation
   streakCount: integer("streak_count").default(0), // Consecutive days of claims (for streak bonuses)
   accumulatedTokens: decimal("accumulated_tokens", { precision: 18, scale: 8 }).notNull().default("0.00000000"),
-  miningSpeed: decimal("mining_speed", { precision: 5, scale: 2 }).notNull().default("1.00"), // Speed multiplier (1X, 2X, etc.)
   status: text("status").notNull().default("active"), // 'active', 'paused', 'completed'
   nextClaimAt: timestamp("next_claim_at").notNull(), // 24 hours from start
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
@@ -397,6 +725,22 @@ export const miningClaims = pgTable("mining_claims", {
   index("idx_mining_claims_session").on(table.sessionId),
 ]);
 
+// Mining speed boosts earned from jobs, reviews, referrals and work streaks (see MiningBoostService).
+// One row per user and source, re-evaluated on every claim; a claim pays at the combined multiplier of the unexpired rows
+export const miningBoosts = pgTable("mining_boosts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  source: text("source").notNull(), // MiningBoostSource from shared/mining-boosts.ts
+  multiplier: decimal("multiplier", { precision: 5, scale: 2 }).notNull(), // e.g. 1.25 mines 25% faster
+  description: text("description").notNull(), // How it was earned, e.g. "5 jobs completed in the last 7 days"
+  expiresAt: timestamp("expires_at").notNull(), // When the tier lapses without more activity
+  createdAt: timestamp("created_at").notNull().default(sql`now()`), // First earned
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_mining_boosts_user").on(table.userId, table.expiresAt),
+  unique("unique_mining_boost_source").on(table.userId, table.source),
+]);
+
 // Treasury withdrawal tracking for blockchain execution
 export const treasuryWithdrawals = pgTable("treasury_withdrawals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -406,7 +750,7 @@ export const treasuryWithdrawals = pgTable("treasury_withdrawals", {
   tokenAmount: decimal("token_amount", { precision: 18, scale: 8 }).notNull(),
   recipientAddress: text("recipient_address").notNull(), // Solana wallet address to receive tokens
   treasuryWalletAddress: text("treasury_wallet_address").notNull(), // Treasury wallet executing transfer
-  status: text("status").notNull().default("pending"), // 'pending', 'prepared', 'signing', 'broadcasting', 'confirmed', 'failed'
+  status: text("status").notNull().default("pending"), // 'awaiting_approval', 'pending', 'prepared', 'signing', 'broadcasting', 'confirmed', 'failed'
   transactionSignature: text("transaction_signature"), // Solana transaction signature after broadcast
   blockNumber: bigint("block_number", { mode: "number" }),
   confirmations: integer("confirmations").default(0),
@@ -424,10 +768,186 @@ export const treasuryWithdrawals = pgTable("treasury_withdrawals", {
   index("idx_treasury_withdrawals_signature").on(table.transactionSignature),
 ]);
 
-// Shop items for marketplace - photos/videos stored as base64 data URLs
+// Double-entry token ledger - every token movement is one balanced entry. Wallet balances, the
+// treasury reserve and the pools are projections of these rows (see shared/ledger.ts)
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountKey: text("account_key").notNull().unique(), // "<type>:<ownerId or system>:<currency>"
+  accountType: text("account_type").notNull(), // 'user_rewards', 'user_wallet', 'treasury_reserve', 'mining_pool', 'faucet_pool', 'fees', 'issuance'
+  ownerId: varchar("owner_id"), // User id for user_rewards, user wallet id for user_wallet, treasury account id for treasury_reserve
+  currency: text("currency").notNull().default("JCMOVES"),
+  balance: decimal("balance", { precision: 18, scale: 8 }).notNull().default("0.00000000"), // Running total of the account's lines
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_ledger_accounts_type").on(table.accountType, table.currency),
+]);
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryType: text("entry_type").notNull(), // See LEDGER_ENTRY_TYPES
+  currency: text("currency").notNull().default("JCMOVES"),
+  description: text("description").notNull(),
+  relatedEntityType: text("related_entity_type"), // Same values as reserve_transactions.related_entity_type
+  relatedEntityId: varchar("related_entity_id"),
+  createdBy: varchar("created_by"), // User who triggered the movement, null for system jobs
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_ledger_entries_related").on(table.relatedEntityType, table.relatedEntityId),
+  index("idx_ledger_entries_created").on(table.createdAt),
+]);
+
+// Append-only: lines are never updated or deleted. Corrections are new 'adjustment' entries
+export const ledgerLines = pgTable("ledger_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().references(() => ledgerEntries.id),
+  accountId: varchar("account_id").notNull().references(() => ledgerAccounts.id),
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(), // Signed change to the account's balance
+  balanceAfter: decimal("balance_after", { precision: 18, scale: 8 }).notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_ledger_lines_entry").on(table.entryId),
+  index("idx_ledger_lines_account").on(table.accountId, table.createdAt),
+]);
+
+// Multi-approver controls - one policy per guarded action (see shared/treasury-approvals.ts)
+export const treasuryApprovalPolicies = pgTable("treasury_approval_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actionType: text("action_type").notNull().unique(), // 'treasury_transfer', 'admin_wallet_transfer', 'user_withdrawal'
+  thresholdTokens: decimal("threshold_tokens", { precision: 18, scale: 8 }).notNull(), // Amounts at or above this need approval
+  requiredApprovals: integer("required_approvals").notNull().default(1), // Approvers needed besides the requester
+  approverRoles: text("approver_roles").array().notNull().default(sql`ARRAY['admin','business_owner']::text[]`),
+  expiryHours: integer("expiry_hours").notNull().default(48),
+  isActive: boolean("is_active").notNull().default(true),
+  updatedBy: varchar("updated_by"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// A guarded action waiting on approvers. payload holds what the executor needs to run it once approved
+export const treasuryApprovalRequests = pgTable("treasury_approval_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actionType: text("action_type").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'expired', 'executed', 'failed'
+  tokenAmount: decimal("token_amount", { precision: 18, scale: 8 }).notNull(),
+  summary: text("summary").notNull(), // What approvers see, e.g. "Transfer 20,000,000 JCMOVES to 7xKX...sAsU"
+  payload: jsonb("payload").notNull(),
+  requestedBy: varchar("requested_by").notNull(), // No FK so the record outlives the account
+  policyId: varchar("policy_id"),
+  requiredApprovals: integer("required_approvals").notNull(),
+  approverRoles: text("approver_roles").array().notNull(), // Policy snapshot at request time
+  approvalCount: integer("approval_count").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  decidedAt: timestamp("decided_at"),
+  executedAt: timestamp("executed_at"),
+  executionResult: jsonb("execution_result"),
+  failureReason: text("failure_reason"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_treasury_approval_requests_status").on(table.status, table.expiresAt),
+  index("idx_treasury_approval_requests_action").on(table.actionType, table.createdAt),
+]);
+
+// Append-only history of who requested, approved, rejected and what happened. Never updated or deleted
+export const treasuryApprovalEvents = pgTable("treasury_approval_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestId: varchar("request_id").notNull().references(() => treasuryApprovalRequests.id),
+  action: text("action").notNull(), // See APPROVAL_EVENT_ACTIONS
+  actorId: varchar("actor_id"), // Null for the expiry job
+  actorName: text("actor_name"), // Snapshot so the record reads the same after a rename
+  actorRole: text("actor_role"),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_treasury_approval_events_request").on(table.requestId, table.createdAt),
+  uniqueIndex("uq_treasury_approval_vote").on(table.requestId, table.actorId).where(sql`${table.action} IN ('approved', 'rejected')`),
+]);
+
+// One run of the reconciliation job: the treasury wallet and deposit addresses on-chain against what the books say custody holds
+export const treasuryReconciliationReports = pgTable("treasury_reconciliation_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: text("trigger").notNull(), // 'scheduled', 'manual'
+  triggeredBy: varchar("triggered_by"), // Null for scheduled runs
+  status: text("status").notNull(), // 'completed', 'failed'
+  treasuryWalletBalance: decimal("treasury_wallet_balance", { precision: 18, scale: 8 }),
+  depositAddressBalance: decimal("deposit_address_balance", { precision: 18, scale: 8 }), // User deposit addresses, still in custody
+  onChainBalance: decimal("on_chain_balance", { precision: 18, scale: 8 }),
+  tokenReserve: decimal("token_reserve", { precision: 18, scale: 8 }), // treasuryAccounts.tokenReserve
+  userBalances: decimal("user_balances", { precision: 18, scale: 8 }), // Rewards balances + JCMOVES wallet balances
+  otherLiabilities: decimal("other_liabilities", { precision: 18, scale: 8 }), // Pools, fees and pending withdrawals from the ledger
+  expectedBalance: decimal("expected_balance", { precision: 18, scale: 8 }),
+  driftAmount: decimal("drift_amount", { precision: 18, scale: 8 }), // On-chain minus expected
+  signaturesScanned: integer("signatures_scanned").notNull().default(0),
+  matchedCount: integer("matched_count").notNull().default(0),
+  missingDepositCount: integer("missing_deposit_count").notNull().default(0),
+  unexplainedOutflowCount: integer("unexplained_outflow_count").notNull().default(0),
+  alertSent: boolean("alert_sent").notNull().default(false),
+  details: jsonb("details"), // ReconciliationDetails
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_treasury_reconciliation_reports_completed").on(table.completedAt),
+]);
+
+// Something a reconciliation run couldn't match, kept open until an admin adjusts the books or dismisses it
+export const treasuryReconciliationDiscrepancies = pgTable("treasury_reconciliation_discrepancies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().references(() => treasuryReconciliationReports.id), // Run that first found it
+  lastSeenReportId: varchar("last_seen_report_id").references(() => treasuryReconciliationReports.id),
+  kind: text("kind").notNull(), // 'missing_deposit', 'unexplained_outflow', 'balance_drift'
+  signature: text("signature"), // On-chain transfer, null for balance drift
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(), // Transfer size, or signed drift
+  counterparty: text("counterparty"), // Sender of a deposit or recipient of an outflow
+  blockTime: timestamp("block_time"),
+  status: text("status").notNull().default("open"), // 'open', 'adjusted', 'dismissed'
+  adjustmentAmount: decimal("adjustment_amount", { precision: 18, scale: 8 }), // Signed change posted to the reserve
+  ledgerEntryId: varchar("ledger_entry_id").references(() => ledgerEntries.id),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_treasury_reconciliation_discrepancies_status").on(table.status, table.createdAt),
+  uniqueIndex("uq_treasury_reconciliation_signature").on(table.signature).where(sql`${table.signature} IS NOT NULL`),
+]);
+
+// A closed treasury month or quarter. Reserve activity dated inside it is locked (see server/migrate-treasury-period-locks.ts)
+export const treasuryPeriodCloses = pgTable("treasury_period_closes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodType: text("period_type").notNull(), // 'month', 'quarter'
+  periodKey: text("period_key").notNull(), // '2026-09', '2026-Q3'
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // Exclusive
+  treasuryAccountId: varchar("treasury_account_id").notNull().references(() => treasuryAccounts.id),
+  openingReserve: decimal("opening_reserve", { precision: 18, scale: 8 }).notNull(),
+  closingReserve: decimal("closing_reserve", { precision: 18, scale: 8 }).notNull(),
+  depositTokens: decimal("deposit_tokens", { precision: 18, scale: 8 }).notNull(),
+  depositUsd: decimal("deposit_usd", { precision: 12, scale: 2 }).notNull(),
+  distributionTokens: decimal("distribution_tokens", { precision: 18, scale: 8 }).notNull(),
+  distributionUsd: decimal("distribution_usd", { precision: 12, scale: 2 }).notNull(), // Market value when paid out
+  costBasisUsd: decimal("cost_basis_usd", { precision: 12, scale: 2 }).notNull(), // Average cost of the tokens distributed
+  realizedGainLossUsd: decimal("realized_gain_loss_usd", { precision: 12, scale: 2 }).notNull(),
+  openingCostPoolUsd: decimal("opening_cost_pool_usd", { precision: 12, scale: 2 }).notNull(), // Seeds the next period's cost basis
+  closingCostPoolUsd: decimal("closing_cost_pool_usd", { precision: 12, scale: 2 }).notNull(),
+  summary: jsonb("summary").notNull(), // TreasuryPeriodSummary as it stood at close
+  notes: text("notes"),
+  closedBy: varchar("closed_by").notNull().references(() => users.id),
+  closedAt: timestamp("closed_at").notNull().default(sql`now()`),
+}, (table) => [
+  uniqueIndex("uq_treasury_period_close").on(table.periodType, table.periodKey),
+  index("idx_treasury_period_closes_range").on(table.periodStart, table.periodEnd),
+]);
+
+// Shop items for marketplace - photos/videos uploaded to the media store (/api/media/:id) or external URLs.
+// Base64 data URLs are still accepted and moved into the media store on save
 export const shopMediaSchema = z.string().refine(
-  (val) => val.startsWith("data:image/") || val.startsWith("data:video/"),
-  { message: "Must be a valid base64 image or video data URL" }
+  (val) => val.startsWith("/api/media/") || val.startsWith("/public-objects/") || val.startsWith("https://") || val.startsWith("http://")
+    || val.startsWith("data:image/") || val.startsWith("data:video/"),
+  { message: "Must be an uploaded photo or video, or an image URL" }
 );
 
 export type ShopMedia = z.infer<typeof shopMediaSchema>;
@@ -452,13 +972,20 @@ export const shopItems = pgTable("shop_items", {
   index("idx_shop_items_active_created").on(table.status, table.createdAt),
 ]);
 
-export const insertLeadSchema = createInsertSchema(leads).omit({
+export const insertLeadSchema = createInsertSchema(leads, {
+  specialItems: z.array(leadSpecialItemSchema).optional(),
+}).omit({
   id: true,
   status: true,
   assignedToUserId: true, // Assigned internally when employee accepts job
   createdAt: true,
 });
 
+export const insertLeadStatusHistorySchema = createInsertSchema(leadStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertContactSchema = createInsertSchema(contacts).omit({
   id: true,
   createdAt: true,
@@ -472,6 +999,18 @@ export const insertUserSchema = createInsertSchema(users).omit({
 
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type Lead = typeof leads.$inferSelect;
+export type InsertLeadStatusHistory = z.infer<typeof insertLeadStatusHistorySchema>;
+export type LeadStatusHistory = typeof leadStatusHistory.$inferSelect;
+export type JobStop = typeof jobStops.$inferSelect;
+export type PricingRateCard = typeof pricingRateCards.$inferSelect;
+export type QuoteVersion = typeof quoteVersions.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+export type EmployeeAvailability = typeof employeeAvailability.$inferSelect;
+export type EmployeeTimeOff = typeof employeeTimeOff.$inferSelect;
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type MediaAsset = typeof mediaAssets.$inferSelect;
 export type InsertContact = z.infer<typeof insertContactSchema>;
 export type Contact = typeof contacts.$inferSelect;
 
@@ -535,12 +1074,14 @@ export const insertFraudLogSchema = createInsertSchema(fraudLogs).omit({
 // Rewards system types
 export type InsertReward = z.infer<typeof insertRewardSchema>;
 export type Reward = typeof rewards.$inferSelect;
+export type TokenGrant = typeof tokenGrants.$inferSelect;
 export type InsertDailyCheckin = z.infer<typeof insertDailyCheckinSchema>;
 export type DailyCheckin = typeof dailyCheckins.$inferSelect;
 export type InsertWalletAccount = z.infer<typeof insertWalletAccountSchema>;
 export type WalletAccount = typeof walletAccounts.$inferSelect;
 export type InsertCashoutRequest = z.infer<typeof insertCashoutRequestSchema>;
 export type CashoutRequest = typeof cashoutRequests.$inferSelect;
+export type PeerTransfer = typeof peerTransfers.$inferSelect;
 export type InsertFraudLog = z.infer<typeof insertFraudLogSchema>;
 export type FraudLog = typeof fraudLogs.$inferSelect;
 
@@ -591,6 +1132,15 @@ export type InsertReserveTransaction = z.infer<typeof insertReserveTransactionSc
 export type ReserveTransaction = typeof reserveTransactions.$inferSelect;
 export type InsertTreasuryWithdrawal = z.infer<typeof insertTreasuryWithdrawalSchema>;
 export type TreasuryWithdrawal = typeof treasuryWithdrawals.$inferSelect;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type LedgerLine = typeof ledgerLines.$inferSelect;
+export type TreasuryApprovalPolicy = typeof treasuryApprovalPolicies.$inferSelect;
+export type TreasuryApprovalRequest = typeof treasuryApprovalRequests.$inferSelect;
+export type TreasuryApprovalEvent = typeof treasuryApprovalEvents.$inferSelect;
+export type TreasuryReconciliationReport = typeof treasuryReconciliationReports.$inferSelect;
+export type TreasuryReconciliationDiscrepancy = typeof treasuryReconciliationDiscrepancies.$inferSelect;
+export type TreasuryPeriodClose = typeof treasuryPeriodCloses.$inferSelect;
 
 // Shop system schemas
 export const insertShopItemSchema = createInsertSchema(shopItems).omit({
@@ -809,7 +1359,7 @@ export const achievementTypes = pgTable("achievement_types", {
   iconColor: text("icon_color").notNull().default("#3b82f6"), // Hex color
   pointsAwarded: integer("points_awarded").notNull().default(0),
   tokenReward: decimal("token_reward", { precision: 18, scale: 8 }).default("0.00000000"),
-  requirements: jsonb("requirements").notNull(), // Conditions to earn this achievement
+  requirements: jsonb("requirements").notNull(), // AchievementRequirements from shared/achievements.ts - every condition must be met
   isActive: boolean("is_active").notNull().default(true),
   rarity: text("rarity").notNull().default("common"), // "common", "rare", "epic", "legendary"
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
@@ -819,8 +1369,8 @@ export const employeeAchievements = pgTable("employee_achievements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   achievementTypeId: varchar("achievement_type_id").notNull().references(() => achievementTypes.id),
-  earnedAt: timestamp("earned_at").notNull().default(sql`now()`),
-  progress: jsonb("progress"), // Track progress towards achievement if applicable
+  earnedAt: timestamp("earned_at"), // Null while the employee is still working towards it
+  progress: jsonb("progress"), // AchievementProgress from shared/achievements.ts - where each requirement stood when last evaluated
   notified: boolean("notified").default(false), // Whether user has been notified
   celebrationShown: boolean("celebration_shown").default(false), // Whether celebration animation was shown
 }, (table) => [
@@ -876,23 +1426,118 @@ export const weeklyLeaderboards = pgTable("weekly_leaderboards", {
   averageRating: decimal("average_rating", { precision: 3, scale: 2 }).default("0.00"),
   rank: integer("rank"), // Position in that week's leaderboard
   tokenReward: decimal("token_reward", { precision: 18, scale: 8 }).default("0.00000000"),
+  lastPointsAt: timestamp("last_points_at"), // When they reached their final total; breaks ties between equal records
+  payoutClaimedAt: timestamp("payout_claimed_at"), // Set while the prize is being distributed, so it can't be paid twice
+  paidAt: timestamp("paid_at"),
+  payoutTransactionId: varchar("payout_transaction_id").references(() => reserveTransactions.id),
+  payoutError: text("payout_error"), // Why the last payout attempt failed; retried by the close-out job
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 }, (table) => [
   index("idx_weekly_leaderboard_week").on(table.weekStartDate, table.rank),
   unique("unique_user_week").on(table.userId, table.weekStartDate),
 ]);
 
+// One row per closed week; the unique week makes closing idempotent
+export const leaderboardWeekCloses = pgTable("leaderboard_week_closes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  weekStartDate: date("week_start_date").notNull(),
+  weekEndDate: date("week_end_date").notNull(),
+  participantCount: integer("participant_count").notNull().default(0),
+  totalPrizeTokens: decimal("total_prize_tokens", { precision: 18, scale: 8 }).notNull().default("0.00000000"),
+  closedBy: varchar("closed_by").references(() => users.id), // Null when closed by the scheduled job
+  closedAt: timestamp("closed_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("unique_leaderboard_week_close").on(table.weekStartDate),
+]);
+
 export const gamificationConfig = pgTable("gamification_config", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  key: text("key").notNull().unique(), // "points_per_job", "level_threshold", "streak_bonus"
+  key: text("key").notNull().unique(), // A GamificationSettingKey from shared/gamification-config.ts, e.g. "jobBasePoints"
   value: text("value").notNull(), // JSON stringified value
   description: text("description"),
-  category: text("category").notNull().default("general"), // "points", "levels", "rewards", "achievements"
+  category: text("category").notNull().default("general"), // GamificationSettingCategory, e.g. "daily_checkin", "mining"
   dataType: text("data_type").notNull().default("number"), // "number", "string", "boolean", "json"
   isActive: boolean("is_active").notNull().default(true),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Audit trail of gamification_config edits
+export const gamificationConfigChanges = pgTable("gamification_config_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull(),
+  oldValue: text("old_value"), // JSON stringified; null when the setting had no stored value yet
+  newValue: text("new_value").notNull(),
+  reason: text("reason"),
+  changedBy: varchar("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_gamification_config_changes_created").on(table.createdAt),
+]);
+
+// Time-boxed competitions between employees or teams (see CompetitionService)
+export const competitions = pgTable("competitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  metric: text("metric").notNull(), // A CompetitionMetric from shared/competitions.ts, e.g. "five_star_reviews"
+  mode: text("mode").notNull().default("individual"), // "individual" or "team"
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  prizePoolTokens: decimal("prize_pool_tokens", { precision: 18, scale: 8 }).notNull().default("0.00000000"),
+  prizeSplits: jsonb("prize_splits").notNull().default("[]"), // Percent of the pool by place, 1st first
+  minScore: decimal("min_score", { precision: 18, scale: 4 }),
+  minReviews: integer("min_reviews"), // average_rating only
+  status: text("status").notNull().default("open"), // "open", "completed" or "cancelled"
+  participantCount: integer("participant_count").notNull().default(0), // Set when closed
+  createdBy: varchar("created_by").references(() => users.id),
+  closedBy: varchar("closed_by").references(() => users.id), // Null when closed by the scheduled job
+  closedAt: timestamp("closed_at"),
+  cancelledBy: varchar("cancelled_by").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_competitions_status_ends").on(table.status, table.endsAt),
+]);
+
+export const competitionTeams = pgTable("competition_teams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  competitionId: varchar("competition_id").notNull().references(() => competitions.id),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("unique_competition_team_name").on(table.competitionId, table.name),
+]);
+
+export const competitionTeamMembers = pgTable("competition_team_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  competitionId: varchar("competition_id").notNull().references(() => competitions.id),
+  teamId: varchar("team_id").notNull().references(() => competitionTeams.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+}, (table) => [
+  unique("unique_competition_team_member").on(table.competitionId, table.userId),
+]);
+
+// Final results, one row per employee; in team competitions every member gets the team's rank and score
+// and an equal share of its prize
+export const competitionResults = pgTable("competition_results", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  competitionId: varchar("competition_id").notNull().references(() => competitions.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  teamId: varchar("team_id").references(() => competitionTeams.id),
+  rank: integer("rank").notNull(),
+  score: decimal("score", { precision: 18, scale: 4 }).notNull().default("0"),
+  prizeTokens: decimal("prize_tokens", { precision: 18, scale: 8 }).notNull().default("0.00000000"),
+  payoutClaimedAt: timestamp("payout_claimed_at"), // Set while the prize is being distributed, so it can't be paid twice
+  paidAt: timestamp("paid_at"),
+  payoutTransactionId: varchar("payout_transaction_id").references(() => reserveTransactions.id),
+  payoutError: text("payout_error"), // Why the last payout attempt failed; retried by the close-out job
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("idx_competition_results_rank").on(table.competitionId, table.rank),
+  unique("unique_competition_result_user").on(table.competitionId, table.userId),
+]);
+
 // Gamification schemas
 export const insertEmployeeStatsSchema = createInsertSchema(employeeStats).omit({
   id: true,
@@ -966,8 +1611,14 @@ export type InsertPointTransaction = z.infer<typeof insertPointTransactionSchema
 export type PointTransaction = typeof pointTransactions.$inferSelect;
 export type InsertWeeklyLeaderboard = z.infer<typeof insertWeeklyLeaderboardSchema>;
 export type WeeklyLeaderboard = typeof weeklyLeaderboards.$inferSelect;
+export type LeaderboardWeekClose = typeof leaderboardWeekCloses.$inferSelect;
 export type InsertGamificationConfig = z.infer<typeof insertGamificationConfigSchema>;
 export type GamificationConfig = typeof gamificationConfig.$inferSelect;
+export type GamificationConfigChange = typeof gamificationConfigChanges.$inferSelect;
+export type Competition = typeof competitions.$inferSelect;
+export type InsertCompetition = typeof competitions.$inferInsert;
+export type CompetitionTeam = typeof competitionTeams.$inferSelect;
+export type CompetitionResult = typeof competitionResults.$inferSelect;
 
 // Multi-currency wallet schemas
 export const insertSupportedCurrencySchema = createInsertSchema(supportedCurrencies).omit({
@@ -1010,6 +1661,7 @@ export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({
 
 export type PriceHistory = typeof priceHistory.$inferSelect;
 export type InsertPriceHistory = z.infer<typeof insertPriceHistorySchema>;
+export type PriceOracleOverride = typeof priceOracleOverrides.$inferSelect;
 
 // Help request schemas
 export const insertHelpRequestSchema = createInsertSchema(helpRequests).omit({
@@ -1042,3 +1694,5 @@ export type MiningSession = typeof miningSessions.$inferSelect;
 export type InsertMiningSession = z.infer<typeof insertMiningSessionSchema>;
 export type MiningClaim = typeof miningClaims.$inferSelect;
 export type InsertMiningClaim = z.infer<typeof insertMiningClaimSchema>;
+export type MiningBoost = typeof miningBoosts.$inferSelect;
+export type InsertMiningBoost = typeof miningBoosts.$inferInsert;
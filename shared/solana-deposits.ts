@@ -0,0 +1,35 @@
+// On-chain JCMOVES deposits - shared between the deposit monitor, wallet routes and the profile wallet card
+
+// Finalized (rooted) signatures report a null confirmation count; 32 is the vote depth at which a slot roots.
+// Deposits are credited only once finalized, so this is also where the progress bar fills
+export const SOLANA_FINALIZED_CONFIRMATIONS = 32;
+
+export function getDepositConfirmationProgress(confirmations: number | null | undefined): number {
+  return Math.min(100, Math.round(((confirmations || 0) / SOLANA_FINALIZED_CONFIRMATIONS) * 100));
+}
+
+// Solana Pay transfer request, so scanning the QR code opens a wallet with the JCMOVES mint preselected
+export function getSolanaPayUrl(address: string, mintAddress: string, label: string): string {
+  return `solana:${address}?spl-token=${mintAddress}&label=${encodeURIComponent(label)}`;
+}
+
+export interface PendingDeposit {
+  id: string;
+  amount: string;
+  signature: string;
+  fromAddress: string | null;
+  confirmations: number;
+  progress: number; // 0-100 towards finalized
+  detectedAt: string;
+}
+
+// GET /api/wallets/deposit-address
+export interface DepositAddressInfo {
+  walletId: string;
+  address: string; // The user's custodial owner address - send here, wallets derive the token account
+  tokenAccount: string; // Associated token account for the JCMOVES mint
+  mintAddress: string;
+  solanaPayUrl: string;
+  requiredConfirmations: number;
+  pendingDeposits: PendingDeposit[];
+}
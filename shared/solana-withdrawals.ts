@@ -0,0 +1,51 @@
+import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+
+// On-chain JCMOVES withdrawals - shared between the withdrawal service, wallet routes and the export modal
+
+// treasuryWithdrawals.status. A row moves forward through these in order, or jumps to 'failed'.
+// Withdrawals over the approval threshold start in 'awaiting_approval' and are released to 'pending'
+export const TREASURY_WITHDRAWAL_STATUSES = ["awaiting_approval", "pending", "prepared", "signing", "broadcasting", "confirmed", "failed"] as const;
+export type TreasuryWithdrawalStatus = typeof TREASURY_WITHDRAWAL_STATUSES[number];
+
+// Confirmed and failed withdrawals have been settled in the ledger and never change again
+export function isTreasuryWithdrawalSettled(status: string): boolean {
+  return status === "confirmed" || status === "failed";
+}
+
+export type WithdrawalErrorCode =
+  | "invalid_address"
+  | "invalid_amount"
+  | "insufficient_balance"
+  | "wallet_not_found"
+  | "treasury_unavailable"
+  | "not_found";
+
+/**
+ * Why an address can't receive a withdrawal, or null when it can. Recipients must be wallet
+ * (on-curve) addresses; the treasury derives and creates their associated token account itself,
+ * so token accounts and program-derived addresses are rejected
+ */
+export function getSolanaAddressError(address: string): string | null {
+  let key: PublicKey;
+  try {
+    key = new PublicKey(address.trim());
+  } catch {
+    return "Not a valid Solana address";
+  }
+  if (!PublicKey.isOnCurve(key.toBytes())) {
+    return "Enter a wallet address, not a token account or program address";
+  }
+  return null;
+}
+
+export const withdrawalRequestSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  withdrawalAddress: z.string().trim().min(1, "Wallet address is required").superRefine((address, ctx) => {
+    const error = getSolanaAddressError(address);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }),
+  notes: z.string().max(500).optional(),
+  currency: z.literal("JCMOVES", { errorMap: () => ({ message: "Export only supported for JCMOVES tokens" }) }),
+});
+export type WithdrawalRequest = z.infer<typeof withdrawalRequestSchema>;
@@ -0,0 +1,124 @@
+import { z } from "zod";
+
+// Employee time clock - shared between the time clock routes, the clock-in card and the admin timesheets page
+
+export const TIME_ENTRY_STATUSES = ["open", "submitted", "approved", "rejected"] as const;
+export type TimeEntryStatus = typeof TIME_ENTRY_STATUSES[number];
+
+export const TIME_ENTRY_STATUS_LABELS: Record<TimeEntryStatus, string> = {
+  open: "Clocked In",
+  submitted: "Awaiting Approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+// Crew must be this close to the pickup address to clock in or out, plus the phone's reported accuracy up to MAX_ACCURACY_ALLOWANCE
+export const CLOCK_RADIUS_METERS = 400;
+export const MAX_ACCURACY_ALLOWANCE_METERS = 200;
+
+// Clocking in up to this long after the scheduled start still counts as on time
+export const ON_TIME_GRACE_MINUTES = 15;
+
+// Weekly hours beyond this are overtime on the payroll export
+export const OVERTIME_THRESHOLD_HOURS = 40;
+
+export const clockLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).optional(), // Meters, as reported by the browser
+});
+
+export type ClockLocation = z.infer<typeof clockLocationSchema>;
+
+export const clockInSchema = z.object({
+  leadId: z.string().min(1),
+  location: clockLocationSchema,
+});
+
+export const clockOutSchema = z.object({
+  location: clockLocationSchema,
+  notes: z.string().max(1000).optional(),
+});
+
+export const timeEntryEditSchema = z.object({
+  clockInAt: z.string().datetime(),
+  clockOutAt: z.string().datetime(),
+  breakMinutes: z.number().int().min(0).max(24 * 60),
+  note: z.string().min(1, "Explain the change").max(1000),
+}).refine((edit) => new Date(edit.clockOutAt) > new Date(edit.clockInAt), "Clock out must be after clock in");
+
+export const timeEntryReviewSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  note: z.string().max(1000).optional(),
+});
+
+export interface TimeEntryBreak {
+  startedAt: string;
+  endedAt: string | null;
+}
+
+const minutesBetween = (start: Date | string, end: Date | string) =>
+  Math.max(0, (new Date(end).getTime() - new Date(start).getTime()) / 60000);
+
+// Minutes on break, counting a break still in progress up to `now`
+export function getBreakMinutes(breaks: TimeEntryBreak[] | null | undefined, now: Date = new Date()): number {
+  return Math.round((breaks || []).reduce((total, entry) => total + minutesBetween(entry.startedAt, entry.endedAt || now), 0));
+}
+
+export function isOnBreak(breaks: TimeEntryBreak[] | null | undefined): boolean {
+  return (breaks || []).some((entry) => !entry.endedAt);
+}
+
+// Paid minutes for an entry: clock in to clock out (or `now` while clocked in), less breaks.
+// breakMinutes is set once the entry is closed and wins over the recorded breaks, so admin edits stick
+export function getWorkedMinutes(
+  entry: { clockInAt: Date | string; clockOutAt: Date | string | null; breaks: unknown; breakMinutes?: number | null },
+  now: Date = new Date()
+): number {
+  const total = minutesBetween(entry.clockInAt, entry.clockOutAt || now);
+  const breakMinutes = entry.breakMinutes ?? getBreakMinutes(entry.breaks as TimeEntryBreak[] | null, now);
+  return Math.max(0, Math.round(total - breakMinutes));
+}
+
+// Payroll weeks run Monday to Sunday
+export function getPayrollWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function formatMinutesAsHours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+// Straight-line distance in meters between two points
+export function distanceMeters(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+  const R = 6371000; // Earth's radius in meters
+  const toRad = (degrees: number) => degrees * (Math.PI / 180);
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export type TimeClockErrorCode =
+  | "not_found"
+  | "not_assigned"
+  | "job_not_active"
+  | "already_clocked_in"
+  | "not_clocked_in"
+  | "on_break"
+  | "not_on_break"
+  | "too_far"
+  | "invalid_status";
+
+// Thrown by storage when a time entry change conflicts with the entry's current state
+export class TimeClockError extends Error {
+  constructor(public readonly code: TimeClockErrorCode, message: string) {
+    super(message);
+    this.name = "TimeClockError";
+  }
+}
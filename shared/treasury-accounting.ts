@@ -0,0 +1,167 @@
+import { z } from "zod";
+
+// Treasury period close and accounting exports - shared between the accounting service, treasury routes and the Accounting tab
+
+export const TREASURY_PERIOD_TYPES = ["month", "quarter"] as const;
+export type TreasuryPeriodType = typeof TREASURY_PERIOD_TYPES[number];
+
+export const TREASURY_EXPORT_FORMATS = ["csv", "iif", "ofx"] as const;
+export type TreasuryExportFormat = typeof TREASURY_EXPORT_FORMATS[number];
+
+export const TREASURY_EXPORT_FORMAT_LABELS: Record<TreasuryExportFormat, string> = {
+  csv: "CSV",
+  iif: "QuickBooks Desktop (IIF)",
+  ofx: "QuickBooks Online (OFX)",
+};
+
+// Reporting groups for reserve distributions, keyed from reserve_transactions.related_entity_type
+export const DISTRIBUTION_CATEGORIES = [
+  "job_rewards",
+  "mining",
+  "referrals",
+  "signup_bonus",
+  "faucet",
+  "checkins",
+  "achievements",
+  "admin_transfers",
+  "other",
+] as const;
+export type DistributionCategory = typeof DISTRIBUTION_CATEGORIES[number];
+
+export const DISTRIBUTION_CATEGORY_LABELS: Record<DistributionCategory, string> = {
+  job_rewards: "Job Rewards",
+  mining: "Mining",
+  referrals: "Referrals",
+  signup_bonus: "Signup Bonus",
+  faucet: "Faucet",
+  checkins: "Daily Check-ins",
+  achievements: "Achievements",
+  admin_transfers: "Admin Transfers",
+  other: "Other",
+};
+
+const DISTRIBUTION_CATEGORY_BY_ENTITY: Record<string, DistributionCategory> = {
+  job_completion: "job_rewards",
+  job_creation_bonus: "job_rewards",
+  customer_rating_bonus: "job_rewards",
+  mining_claim: "mining",
+  referral_bonus: "referrals",
+  signup_bonus: "signup_bonus",
+  faucet_claim: "faucet",
+  daily_checkin: "checkins",
+  achievement: "achievements",
+  admin_transfer: "admin_transfers",
+};
+
+export function getDistributionCategory(relatedEntityType: string | null): DistributionCategory {
+  if (!relatedEntityType) return "other";
+  return DISTRIBUTION_CATEGORY_BY_ENTITY[relatedEntityType] || (relatedEntityType.startsWith("faucet") ? "faucet" : "other");
+}
+
+export interface TreasuryPeriod {
+  type: TreasuryPeriodType;
+  key: string; // "2026-09" or "2026-Q3"
+  start: Date; // Inclusive, UTC
+  end: Date; // Exclusive, UTC
+}
+
+// The month or quarter containing the date, in UTC
+export function getTreasuryPeriod(type: TreasuryPeriodType, date: Date): TreasuryPeriod {
+  const year = date.getUTCFullYear();
+  if (type === "quarter") {
+    const quarter = Math.floor(date.getUTCMonth() / 3);
+    return {
+      type,
+      key: `${year}-Q${quarter + 1}`,
+      start: new Date(Date.UTC(year, quarter * 3, 1)),
+      end: new Date(Date.UTC(year, quarter * 3 + 3, 1)),
+    };
+  }
+  const month = date.getUTCMonth();
+  return {
+    type,
+    key: `${year}-${String(month + 1).padStart(2, "0")}`,
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+// Undefined when the key isn't a valid period of that type
+export function parseTreasuryPeriod(type: string, key: string): TreasuryPeriod | undefined {
+  if (type === "month") {
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(key);
+    return match ? getTreasuryPeriod("month", new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, 1))) : undefined;
+  }
+  if (type === "quarter") {
+    const match = /^(\d{4})-Q([1-4])$/.exec(key);
+    return match ? getTreasuryPeriod("quarter", new Date(Date.UTC(parseInt(match[1]), (parseInt(match[2]) - 1) * 3, 1))) : undefined;
+  }
+  return undefined;
+}
+
+export const treasuryPeriodCloseSchema = z.object({
+  notes: z.string().trim().max(1000).optional(),
+});
+
+// One reserve_transactions row inside the period, valued in USD. Cents are integers so totals tie out exactly
+export interface TreasuryPeriodLine {
+  id: string;
+  date: string;
+  transactionType: string; // 'deposit', 'distribution', 'refund'
+  category: DistributionCategory | null; // Distributions only
+  relatedEntityType: string | null;
+  relatedEntityId: string | null;
+  description: string;
+  tokenAmount: string;
+  priceUsd: number | null; // JCMOVES price from price_history at the time, or the price recorded on the row
+  priceSource: "price_history" | "recorded";
+  valueCents: number; // Deposits: USD paid. Distributions: market value when paid out
+  costBasisCents: number; // Deposits: added to the cost pool. Distributions: average cost taken out of it
+  gainLossCents: number; // Distributions only: value minus cost basis
+  reserveAfter: string;
+}
+
+export interface TreasuryCategoryTotals {
+  category: DistributionCategory;
+  count: number;
+  tokens: string;
+  valueCents: number;
+  costBasisCents: number;
+  gainLossCents: number;
+}
+
+export interface TreasuryPeriodSummary {
+  period: { type: TreasuryPeriodType; key: string; start: string; end: string };
+  status: "open" | "closed";
+  closedAt: string | null;
+  closedBy: string | null;
+  openingReserve: string;
+  closingReserve: string;
+  openingCostPoolCents: number;
+  closingCostPoolCents: number;
+  deposits: { count: number; tokens: string; costCents: number };
+  distributions: { count: number; tokens: string; valueCents: number; costBasisCents: number; gainLossCents: number };
+  reclaims: { count: number; tokens: string };
+  byCategory: TreasuryCategoryTotals[];
+  otherReserveChange: string; // Ledger movements with no reserve transaction, e.g. reconciliation adjustments
+  unpricedDistributions: number; // Distributions valued at their recorded price because price_history had nothing earlier
+}
+
+export type TreasuryPeriodErrorCode =
+  | "invalid_period"
+  | "not_ended"
+  | "already_closed"
+  | "locks_unavailable";
+
+// Thrown by storage when a period can't be closed; nothing is written
+export class TreasuryPeriodError extends Error {
+  constructor(
+    public readonly code: TreasuryPeriodErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "TreasuryPeriodError";
+  }
+}
+
+export const formatCents = (cents: number) => (cents / 100).toFixed(2);
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import type { TreasuryApprovalEvent, TreasuryApprovalRequest } from "./schema";
+
+// Treasury approval policies - shared between the approval service, treasury routes and the treasury dashboard
+
+export const APPROVAL_ACTION_TYPES = ["treasury_transfer", "admin_wallet_transfer", "user_withdrawal"] as const;
+export type ApprovalActionType = typeof APPROVAL_ACTION_TYPES[number];
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalActionType, string> = {
+  treasury_transfer: "Treasury transfer",
+  admin_wallet_transfer: "Admin transfer to user",
+  user_withdrawal: "User withdrawal",
+};
+
+// Changes to the policies above are approval requests too. Their rule is fixed rather than a saved policy,
+// so one owner can't switch off or loosen the controls alone
+export const POLICY_CHANGE_ACTION = "approval_policy_change";
+export type ApprovalRequestActionType = ApprovalActionType | typeof POLICY_CHANGE_ACTION;
+
+export const APPROVAL_REQUEST_LABELS: Record<ApprovalRequestActionType, string> = {
+  ...APPROVAL_ACTION_LABELS,
+  approval_policy_change: "Approval policy change",
+};
+
+// pending → approved → executed | failed, or pending → rejected | expired
+export const APPROVAL_REQUEST_STATUSES = ["pending", "approved", "rejected", "expired", "executed", "failed"] as const;
+export type ApprovalRequestStatus = typeof APPROVAL_REQUEST_STATUSES[number];
+
+// treasury_approval_events.action - the append-only history of a request
+export const APPROVAL_EVENT_ACTIONS = ["requested", "approved", "rejected", "expired", "executed", "failed"] as const;
+export type ApprovalEventAction = typeof APPROVAL_EVENT_ACTIONS[number];
+
+export const APPROVER_ROLES = ["admin", "business_owner"] as const;
+export type ApproverRole = typeof APPROVER_ROLES[number];
+
+// Used until an owner saves a policy. Thresholds are in JCMOVES; amounts at or above them wait for approval
+export const DEFAULT_APPROVAL_POLICIES: Record<ApprovalActionType, ApprovalPolicyInput> = {
+  treasury_transfer: { thresholdTokens: 10_000_000, requiredApprovals: 1, approverRoles: ["admin", "business_owner"], expiryHours: 48, isActive: true },
+  admin_wallet_transfer: { thresholdTokens: 10_000_000, requiredApprovals: 1, approverRoles: ["admin", "business_owner"], expiryHours: 48, isActive: true },
+  user_withdrawal: { thresholdTokens: 50_000_000, requiredApprovals: 1, approverRoles: ["admin", "business_owner"], expiryHours: 72, isActive: true },
+};
+
+// Every policy change needs one other approver, whatever the policies say
+export const POLICY_CHANGE_APPROVAL_POLICY: ApprovalPolicyInput = {
+  thresholdTokens: 0, requiredApprovals: 1, approverRoles: ["admin", "business_owner"], expiryHours: 48, isActive: true,
+};
+
+export const approvalPolicySchema = z.object({
+  thresholdTokens: z.number().min(0),
+  requiredApprovals: z.number().int().min(1).max(5), // Approvers needed besides the requester
+  approverRoles: z.array(z.enum(APPROVER_ROLES)).min(1),
+  expiryHours: z.number().int().min(1).max(24 * 30),
+  isActive: z.boolean(),
+});
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicySchema>;
+
+// GET /api/treasury/approval-policies - the saved policy, or the default while none is saved
+export interface EffectiveApprovalPolicy extends ApprovalPolicyInput {
+  actionType: ApprovalActionType;
+  id: string | null;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+// treasury_approval_requests.payload for a policy change; previous is kept so the request shows what changed
+export interface PolicyChangePayload {
+  actionType: ApprovalActionType;
+  policy: ApprovalPolicyInput;
+  previous: ApprovalPolicyInput;
+  requestedBy: string;
+}
+
+// GET /api/treasury/approvals - a request with its full history, oldest event first
+export type TreasuryApprovalRequestDetail = TreasuryApprovalRequest & { events: TreasuryApprovalEvent[] };
+
+export const approvalDecisionSchema = z.object({
+  comment: z.string().trim().max(500).optional(),
+});
+
+// Who acted on a request, snapshotted onto its events
+export interface ApprovalActor {
+  id: string;
+  name: string;
+  role: string;
+}
+
+// recentTokens is what the same requester already moved under this policy in the rolling window, so splitting
+// a large amount into several just under the threshold still needs approval
+export function requiresApproval(policy: ApprovalPolicyInput, tokenAmount: number, recentTokens: number = 0): boolean {
+  return policy.isActive && recentTokens + tokenAmount >= policy.thresholdTokens;
+}
+
+export type TreasuryApprovalErrorCode =
+  | "not_found"
+  | "not_pending"
+  | "expired"
+  | "self_approval"
+  | "already_decided"
+  | "not_authorized"
+  | "change_pending"
+  | "execution_failed";
+
+// Thrown by storage when a decision is rejected after locking the request; nothing is recorded
+export class TreasuryApprovalError extends Error {
+  constructor(
+    public readonly code: TreasuryApprovalErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "TreasuryApprovalError";
+  }
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+// Scheduled treasury reconciliation - shared between the reconciliation job, treasury routes and the Reconcile tab
+
+export const RECONCILIATION_TRIGGERS = ["scheduled", "manual"] as const;
+export type ReconciliationTrigger = typeof RECONCILIATION_TRIGGERS[number];
+
+export const RECONCILIATION_REPORT_STATUSES = ["completed", "failed"] as const;
+export type ReconciliationReportStatus = typeof RECONCILIATION_REPORT_STATUSES[number];
+
+export const DISCREPANCY_KINDS = [
+  "missing_deposit", // Tokens arrived in the treasury wallet with no funding deposit recorded
+  "unexplained_outflow", // Tokens left the treasury wallet with no withdrawal signature recorded
+  "balance_drift", // Tokens on-chain differ from what the books say custody should hold
+] as const;
+export type DiscrepancyKind = typeof DISCREPANCY_KINDS[number];
+
+export const DISCREPANCY_KIND_LABELS: Record<DiscrepancyKind, string> = {
+  missing_deposit: "Missing deposit",
+  unexplained_outflow: "Unexplained outflow",
+  balance_drift: "Balance drift",
+};
+
+export const DISCREPANCY_STATUSES = ["open", "adjusted", "dismissed"] as const;
+export type DiscrepancyStatus = typeof DISCREPANCY_STATUSES[number];
+
+// The reserve change a discrepancy implies when the books are adjusted to match the chain
+export function getDefaultAdjustment(kind: DiscrepancyKind, amount: string): number {
+  const value = parseFloat(amount);
+  return kind === "unexplained_outflow" ? -Math.abs(value) : kind === "missing_deposit" ? Math.abs(value) : value;
+}
+
+// Adjust posts a ledger 'adjustment' between the treasury reserve and issuance; dismiss only records why
+export const discrepancyResolutionSchema = z.discriminatedUnion("resolution", [
+  z.object({
+    resolution: z.literal("adjust"),
+    amount: z.number().refine((value) => value !== 0, "Adjustment can't be zero").optional(), // Signed change to the reserve
+    note: z.string().trim().min(1, "Explain the adjustment").max(500),
+  }),
+  z.object({
+    resolution: z.literal("dismiss"),
+    note: z.string().trim().min(1, "Explain why no adjustment is needed").max(500),
+  }),
+]);
+export type DiscrepancyResolution = z.infer<typeof discrepancyResolutionSchema>;
+
+// treasury_reconciliation_reports.details
+export interface ReconciliationDetails {
+  matchedSignatures: string[];
+  newDiscrepancyIds: string[];
+  ledger: { isConsistent: boolean; difference: string; driftedAccounts: number; unbalancedEntries: number };
+}
+
+export type ReconciliationErrorCode =
+  | "not_found"
+  | "already_resolved"
+  | "insufficient_reserve"
+  | "in_progress";
+
+// Thrown by storage when a discrepancy can't be resolved; nothing is posted
+export class ReconciliationError extends Error {
+  constructor(
+    public readonly code: ReconciliationErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
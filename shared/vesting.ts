@@ -0,0 +1,76 @@
+import { toLedgerUnits } from "./ledger";
+
+// Token vesting for employee rewards - shared between the vesting service, gamification rewards and the rewards dashboard
+
+// Rewards that can be granted on a vesting schedule, stored in token_grants.source
+export const VESTING_SOURCES = ["job_completion", "job_creation_bonus", "achievement"] as const;
+export type VestingSource = typeof VESTING_SOURCES[number];
+
+export const VESTING_SOURCE_LABELS: Record<VestingSource, string> = {
+  job_completion: "Job completion",
+  job_creation_bonus: "Job creation bonus",
+  achievement: "Achievement",
+};
+
+// token_grants.status. Active grants release daily until fully 'vested'; 'forfeited' grants release nothing more
+export const TOKEN_GRANT_STATUSES = ["active", "vested", "forfeited"] as const;
+export type TokenGrantStatus = typeof TOKEN_GRANT_STATUSES[number];
+
+// Part of the grant paid when it's made, with the rest unlocking in equal daily steps
+export interface VestingSchedule {
+  immediatePercent: number;
+  vestingDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tokens of a grant that have vested by `now`, in ledger units. Whole days only, so each release is a day's worth
+export function getVestedUnits(
+  grant: { totalAmount: string; immediatePercent: number; vestingDays: number; vestingStartsAt: Date },
+  now: Date = new Date(),
+): bigint {
+  const total = toLedgerUnits(grant.totalAmount);
+  const immediate = getImmediateUnits(total, grant.immediatePercent);
+  const days = Math.floor((now.getTime() - grant.vestingStartsAt.getTime()) / DAY_MS);
+  if (grant.vestingDays <= 0 || days >= grant.vestingDays) return total;
+  if (days <= 0) return immediate;
+  return immediate + ((total - immediate) * BigInt(days)) / BigInt(grant.vestingDays);
+}
+
+// Paid when the grant is made, rounded down so rounding never pays early
+export function getImmediateUnits(total: bigint, immediatePercent: number): bigint {
+  return (total * BigInt(Math.round(immediatePercent * 100))) / BigInt(10000);
+}
+
+// When the next day's tokens vest, or null once the schedule is complete
+export function getNextVestingDate(grant: { vestingDays: number; vestingStartsAt: Date }, now: Date = new Date()): Date | null {
+  const days = Math.floor((now.getTime() - grant.vestingStartsAt.getTime()) / DAY_MS);
+  if (days >= grant.vestingDays) return null;
+  return new Date(grant.vestingStartsAt.getTime() + (Math.max(days, 0) + 1) * DAY_MS);
+}
+
+export function formatVestingSchedule(schedule: VestingSchedule): string {
+  return `${schedule.immediatePercent}% now, the rest over ${schedule.vestingDays} days`;
+}
+
+// A grant as shown on the rewards dashboard
+export interface TokenGrantSummary {
+  id: string;
+  source: VestingSource;
+  description: string;
+  totalAmount: string;
+  releasedAmount: string;
+  lockedAmount: string;
+  forfeitedAmount: string;
+  status: TokenGrantStatus;
+  schedule: VestingSchedule;
+  nextReleaseAt: string | null;
+  createdAt: string;
+}
+
+export interface VestingBalance {
+  availableTokens: string; // Spendable now: the rewards wallet balance
+  lockedTokens: string; // Granted but not yet vested
+  nextRelease: { at: string; amount: string } | null;
+  grants: TokenGrantSummary[];
+}